@@ -10,6 +10,7 @@ import ProtectedRoute from "@/components/ProtectedRoute";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
+import SharedChat from "./pages/SharedChat";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -34,6 +35,11 @@ const App = () => (
                 <Index />
               </ProtectedRoute>
             } />
+            <Route path="/chat/shared/:token" element={
+              <ProtectedRoute>
+                <SharedChat />
+              </ProtectedRoute>
+            } />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
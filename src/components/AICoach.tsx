@@ -13,6 +13,8 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { usePipelines } from '@/hooks/usePipelines';
+import { fetchStageHistory, getDealVelocityContext, type DealVelocityContext, type StageChange } from '@/lib/velocity';
 
 interface AICoachProps {
   selectedDeal: any;
@@ -27,7 +29,8 @@ interface DealContext {
   contact: any;
   dealAge: number;
   lastActivityDays: number;
-  stageHistory: any[];
+  stageHistory: StageChange[];
+  velocity: DealVelocityContext | null;
 }
 
 interface AIRecommendation extends DealCoachRecommendation {
@@ -53,6 +56,7 @@ const AICoach = ({ selectedDeal, onSelectDeal }: AICoachProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { pipelines } = usePipelines();
   
   const [recommendations, setRecommendations] = useState<AIRecommendation[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -106,6 +110,20 @@ const AICoach = ({ selectedDeal, onSelectDeal }: AICoachProps) => {
       selectedDeal?.contact_id ? supabase.from('contacts').select('*').eq('id', selectedDeal.contact_id).single() : Promise.resolve({ data: null, error: null })
     ]);
 
+    // Stage history across all deals gives the averages this deal is compared against
+    const [stageHistory, allDealsRes] = user
+      ? await Promise.all([
+          fetchStageHistory(user.id).catch(error => {
+            console.error('Error fetching stage history:', error);
+            return [] as StageChange[];
+          }),
+          supabase.from('deals').select('*').eq('user_id', user.id)
+        ])
+      : [[] as StageChange[], { data: [] }];
+    const velocity = allDealsRes.data?.length
+      ? getDealVelocityContext(dealId, stageHistory, allDealsRes.data, pipelines)
+      : null;
+
     const dealAge = selectedDeal ? Math.floor((new Date().getTime() - new Date(selectedDeal.created_at).getTime()) / (1000 * 60 * 60 * 24)) : 0;
     const lastActivity = activitiesRes.data?.[0];
     const lastActivityDays = lastActivity ? Math.floor((new Date().getTime() - new Date(lastActivity.created_at).getTime()) / (1000 * 60 * 60 * 24)) : 999;
@@ -118,7 +136,8 @@ const AICoach = ({ selectedDeal, onSelectDeal }: AICoachProps) => {
       contact: contactRes.data,
       dealAge,
       lastActivityDays,
-      stageHistory: [] // Would need additional tracking for stage changes
+      stageHistory: stageHistory.filter(change => change.deal_id === dealId),
+      velocity
     };
   };
 
@@ -212,13 +231,14 @@ const AICoach = ({ selectedDeal, onSelectDeal }: AICoachProps) => {
       });
     }
 
-    // Stage-specific recommendations
-    if (deal.stage === 'Discovery' && context.dealAge > 14) {
+    // Stage-specific recommendations, based on how long deals usually spend in this stage
+    const velocity = context.velocity;
+    if (velocity?.slowerThanAverage && velocity.avgDaysInCurrentStage !== null) {
       recommendations.push({
         type: 'medium',
         title: 'Advance Deal Stage',
-        description: 'Deal has been in Discovery for 2+ weeks. Time to move to Proposal stage.',
-        action: 'Present solution proposal and advance to next stage',
+        description: `Deal has been in ${velocity.currentStage} for ${velocity.daysInCurrentStage} days; deals usually move on after ${velocity.avgDaysInCurrentStage} days.`,
+        action: 'Agree the next milestone with the buyer and advance to the next stage',
         impact: '+12% close probability',
         reasoning: 'Deals that advance stages regularly have higher close rates than those that stagnate.'
       });
@@ -820,6 +840,22 @@ const AICoach = ({ selectedDeal, onSelectDeal }: AICoachProps) => {
                 </div>
               </div>
 
+              {/* Stage History */}
+              {dealContext.velocity && dealContext.velocity.stagePath.length > 0 && (
+                <div>
+                  <h4 className="font-semibold mb-3">Stage History</h4>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    {dealContext.velocity.stagePath.map((step, index) => (
+                      <Badge key={index} variant="outline">{step.stage} · {step.days}d</Badge>
+                    ))}
+                  </div>
+                  <p className="text-sm text-slate-600 mt-2">
+                    {dealContext.velocity.daysInCurrentStage} days in {dealContext.velocity.currentStage}
+                    {dealContext.velocity.avgDaysInCurrentStage !== null && ` (average ${dealContext.velocity.avgDaysInCurrentStage} days)`}
+                  </p>
+                </div>
+              )}
+
               {/* Activity Timeline */}
               <div>
                 <h4 className="font-semibold mb-3">Activity Timeline</h4>
@@ -0,0 +1,362 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Edit, History, Plus, Shuffle, Trash2, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useQuery } from '@tanstack/react-query';
+import {
+  ASSIGNMENT_FIELDS,
+  ASSIGNMENT_OPERATORS,
+  ASSIGNMENT_STRATEGIES,
+  deleteAssignmentRule,
+  fetchAssignmentLog,
+  fetchAssignmentRules,
+  saveAssignmentRule,
+  type AssignmentCondition,
+  type AssignmentField,
+  type AssignmentOperator,
+  type AssignmentRuleInput,
+  type AssignmentStrategy
+} from '@/lib/assignment';
+import type { TeamMember } from '@/lib/teams';
+
+interface AssignmentRulesProps {
+  teamId: string;
+  members: TeamMember[];
+}
+
+const describeCondition = (condition: AssignmentCondition) => {
+  const field = ASSIGNMENT_FIELDS.find(f => f.value === condition.field)?.label || condition.field;
+  const operator = ASSIGNMENT_OPERATORS.find(o => o.value === condition.operator)?.label || condition.operator;
+  return `${field} ${operator} ${condition.value}`;
+};
+
+const AssignmentRules = ({ teamId, members }: AssignmentRulesProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<AssignmentRuleInput | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: rules = [], refetch } = useQuery({
+    queryKey: ['assignment-rules', teamId],
+    queryFn: () => fetchAssignmentRules(teamId),
+  });
+
+  const { data: log = [] } = useQuery({
+    queryKey: ['lead-assignments', teamId],
+    queryFn: () => fetchAssignmentLog(teamId),
+  });
+
+  const memberName = (userId: string | null) => members.find(member => member.userId === userId)?.name || 'Former member';
+
+  const newRule = (): AssignmentRuleInput => ({
+    team_id: teamId,
+    name: '',
+    priority: rules.length > 0 ? Math.max(...rules.map(rule => rule.priority)) + 10 : 10,
+    is_active: true,
+    conditions: [],
+    strategy: 'round_robin',
+    assignee_ids: []
+  });
+
+  const updateCondition = (index: number, changes: Partial<AssignmentCondition>) => {
+    if (!editing) return;
+    setEditing({
+      ...editing,
+      conditions: editing.conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition))
+    });
+  };
+
+  const toggleAssignee = (userId: string, checked: boolean) => {
+    if (!editing) return;
+    setEditing({
+      ...editing,
+      assignee_ids: checked ? [...editing.assignee_ids, userId] : editing.assignee_ids.filter(id => id !== userId)
+    });
+  };
+
+  const handleSave = async () => {
+    if (!user || !editing) return;
+    if (!editing.name.trim()) {
+      toast({ title: "Error", description: "Rule name is required", variant: "destructive" });
+      return;
+    }
+    if (editing.assignee_ids.length === 0) {
+      toast({ title: "Error", description: "Select at least one rep", variant: "destructive" });
+      return;
+    }
+    if (editing.conditions.some(condition => !condition.value.trim())) {
+      toast({ title: "Error", description: "Every condition needs a value", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveAssignmentRule(user.id, editing);
+      toast({ title: editing.id ? "Rule updated" : "Rule created" });
+      setEditing(null);
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save rule",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: AssignmentRuleInput, isActive: boolean) => {
+    if (!user) return;
+    try {
+      await saveAssignmentRule(user.id, { ...rule, is_active: isActive });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (ruleId: string) => {
+    try {
+      await deleteAssignmentRule(ruleId);
+      toast({ title: "Rule deleted" });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center">
+              <Shuffle className="w-5 h-5 mr-2 text-blue-600" />
+              Lead Assignment Rules
+            </CardTitle>
+            <CardDescription>
+              New leads from the lead form, imports and the Agent go to the first matching rule, lowest priority number first
+            </CardDescription>
+          </div>
+          <Button onClick={() => setEditing(newRule())}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Rule
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {rules.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">No rules yet, so new leads stay with whoever created them</div>
+          ) : (
+            <div className="space-y-3">
+              {rules.map(rule => (
+                <div key={rule.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border border-slate-200 rounded-lg bg-white">
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-slate-500">#{rule.priority}</span>
+                      <span className="font-medium text-slate-900">{rule.name}</span>
+                      <Badge variant="outline">{ASSIGNMENT_STRATEGIES.find(s => s.value === rule.strategy)?.label}</Badge>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {rule.conditions.length === 0 ? (
+                        <Badge variant="outline" className="text-xs">Every lead</Badge>
+                      ) : rule.conditions.map((condition, index) => (
+                        <Badge key={index} variant="outline" className="text-xs">{describeCondition(condition)}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-sm text-slate-600">
+                      Assigns to {rule.assignee_ids.map(memberName).join(', ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch checked={rule.is_active} onCheckedChange={(checked) => handleToggle(rule, checked)} />
+                    <Button size="sm" variant="outline" onClick={() => setEditing(rule)}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleDelete(rule.id)} className="hover:bg-red-50 text-red-600">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <History className="w-5 h-5 mr-2 text-slate-600" />
+            Assignment Log
+          </CardTitle>
+          <CardDescription>The most recent leads assigned by these rules</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {log.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">No assignments yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Lead</TableHead>
+                  <TableHead>Assigned To</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>When</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {log.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-medium">{entry.leadName}</TableCell>
+                    <TableCell>{memberName(entry.assigned_to)}</TableCell>
+                    <TableCell>
+                      {entry.ruleName || 'Deleted rule'}
+                      <span className="text-slate-400"> · {ASSIGNMENT_STRATEGIES.find(s => s.value === entry.strategy)?.label || entry.strategy}</span>
+                    </TableCell>
+                    <TableCell>{entry.created_at ? new Date(entry.created_at).toLocaleString() : ''}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && !isSaving && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? 'Edit Rule' : 'New Rule'}</DialogTitle>
+            <DialogDescription>A lead matches when every condition holds. A rule without conditions matches every lead.</DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-3 gap-3">
+                <div className="col-span-2 space-y-1">
+                  <Label htmlFor="rule-name">Name *</Label>
+                  <Input id="rule-name" value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} placeholder="e.g. EMEA inbound" />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rule-priority">Priority</Label>
+                  <Input
+                    id="rule-priority"
+                    type="number"
+                    value={editing.priority}
+                    onChange={(e) => setEditing({ ...editing, priority: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Conditions</Label>
+                {editing.conditions.map((condition, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Select value={condition.field} onValueChange={(field) => updateCondition(index, { field: field as AssignmentField })}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ASSIGNMENT_FIELDS.map(field => (
+                          <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={condition.operator} onValueChange={(operator) => updateCondition(index, { operator: operator as AssignmentOperator })}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ASSIGNMENT_OPERATORS.map(operator => (
+                          <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={condition.value}
+                      onChange={(e) => updateCondition(index, { value: e.target.value })}
+                      placeholder={condition.operator === 'in' ? 'a, b, c' : 'Value'}
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setEditing({ ...editing, conditions: editing.conditions.filter((_, i) => i !== index) })}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setEditing({ ...editing, conditions: [...editing.conditions, { field: 'source', operator: 'equals', value: '' }] })}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Condition
+                </Button>
+              </div>
+
+              <div className="space-y-1">
+                <Label>Assign by</Label>
+                <Select value={editing.strategy} onValueChange={(strategy) => setEditing({ ...editing, strategy: strategy as AssignmentStrategy })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ASSIGNMENT_STRATEGIES.map(strategy => (
+                      <SelectItem key={strategy.value} value={strategy.value}>{strategy.label}: {strategy.description.toLowerCase()}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Reps *</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {members.map(member => (
+                    <label key={member.userId} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={editing.assignee_ids.includes(member.userId)}
+                        onCheckedChange={(checked) => toggleAssignee(member.userId, checked === true)}
+                      />
+                      <span>{member.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Rule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AssignmentRules;
@@ -0,0 +1,210 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Copy, RefreshCw, Upload } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CALENDAR_QUERY_KEYS,
+  calendarFeedUrl,
+  describeCalendarSync,
+  disableCalendarFeed,
+  enableCalendarFeed,
+  fetchCalendarIntegrations,
+  importIcsFile,
+  syncCalendar
+} from '@/lib/calendarSync';
+
+interface CalendarSyncSettingsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CalendarSyncSettings = ({ open, onOpenChange }: CalendarSyncSettingsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const { data: integrations, isLoading } = useQuery({
+    queryKey: ['integrations', user?.id, 'calendar'],
+    queryFn: () => fetchCalendarIntegrations(user!.id),
+    enabled: !!user && open,
+  });
+  const feed = integrations?.feed ?? null;
+  const caldav = integrations?.caldav ?? null;
+  const feedUrl = feed?.is_active ? calendarFeedUrl(feed) : null;
+
+  const refreshCalendar = () => {
+    CALENDAR_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+    queryClient.invalidateQueries({ queryKey: ['integrations'] });
+  };
+
+  const feedMutation = useMutation({
+    mutationFn: (action: 'enable' | 'new_url' | 'disable') =>
+      action === 'disable' ? disableCalendarFeed(feed!) : enableCalendarFeed(user!.id, feed, action === 'new_url'),
+    onSuccess: (_, action) => {
+      queryClient.invalidateQueries({ queryKey: ['integrations'] });
+      if (action === 'new_url') {
+        toast({ title: 'New feed URL created', description: 'Calendars subscribed to the old URL stop updating.' });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error updating calendar feed', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const importMutation = useMutation({
+    mutationFn: importIcsFile,
+    onSuccess: (result) => {
+      refreshCalendar();
+      toast({
+        title: 'Calendar imported',
+        description: `${result.imported} added, ${result.updated} updated${result.skipped ? `, ${result.skipped} without a date skipped` : ''}.`
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error importing calendar', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: () => syncCalendar(caldav!.id),
+    onSuccess: (result) => {
+      refreshCalendar();
+      toast({
+        title: result.failed ? 'Calendar synced with errors' : 'Calendar synced',
+        description: describeCalendarSync(result),
+        ...(result.failed ? { variant: 'destructive' as const } : {})
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['integrations'] });
+      toast({ title: 'Error syncing calendar', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) importMutation.mutate(file);
+    e.target.value = '';
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Calendar Sync</DialogTitle>
+          <DialogDescription>
+            Share your meetings, calls and tasks with your calendar app, or bring events in.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-8 text-center text-slate-500">Loading settings...</div>
+        ) : (
+          <div className="space-y-5">
+            {/* Subscription feed */}
+            <div className="space-y-2">
+              <Label>Subscription feed</Label>
+              <p className="text-sm text-slate-600">
+                Subscribe to this URL in Google Calendar, Outlook or Apple Calendar. It's read-only and
+                calendar apps refresh it on their own schedule. Anyone with the URL can see your schedule.
+              </p>
+              {feedUrl ? (
+                <>
+                  <div className="flex gap-2">
+                    <Input value={feedUrl} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                    <Button type="button" variant="outline" size="sm" onClick={copyFeedUrl}>
+                      <Copy className="w-4 h-4 mr-1" />
+                      {copied ? 'Copied' : 'Copy'}
+                    </Button>
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-slate-500">
+                    <span>
+                      {feed?.last_sync ? `Last fetched ${new Date(feed.last_sync).toLocaleString()}` : 'Not fetched yet'}
+                    </span>
+                    <div className="flex gap-2">
+                      <Button type="button" variant="ghost" size="sm" onClick={() => feedMutation.mutate('new_url')} disabled={feedMutation.isPending}>
+                        New URL
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => feedMutation.mutate('disable')} disabled={feedMutation.isPending}>
+                        Turn off
+                      </Button>
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <Button type="button" variant="outline" size="sm" onClick={() => feedMutation.mutate('enable')} disabled={feedMutation.isPending}>
+                  Turn on feed
+                </Button>
+              )}
+            </div>
+
+            <Separator />
+
+            {/* ICS import */}
+            <div className="space-y-2">
+              <Label>Import an ICS file</Label>
+              <p className="text-sm text-slate-600">
+                Events become meetings and to-dos become tasks. Importing the same file again updates them.
+              </p>
+              <input ref={fileInput} type="file" accept=".ics,text/calendar" className="hidden" onChange={handleFileChange} />
+              <Button type="button" variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={importMutation.isPending}>
+                <Upload className="w-4 h-4 mr-1" />
+                {importMutation.isPending ? 'Importing...' : 'Choose file'}
+              </Button>
+            </div>
+
+            <Separator />
+
+            {/* CalDAV */}
+            <div className="space-y-2">
+              <Label>Two-way sync (CalDAV)</Label>
+              {caldav ? (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-slate-600">
+                    {!caldav.is_active
+                      ? 'Turned off under Integrations'
+                      : caldav.last_sync
+                        ? `Last synced ${new Date(caldav.last_sync).toLocaleString()}`
+                        : 'Not synced yet'}
+                  </span>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => syncMutation.mutate()}
+                    disabled={!caldav.is_active || syncMutation.isPending}
+                  >
+                    <RefreshCw className={`w-4 h-4 mr-1 ${syncMutation.isPending ? 'animate-spin' : ''}`} />
+                    Sync now
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-slate-600">
+                  Configure the CalDAV Calendar integration under Integrations to keep a Nextcloud, iCloud,
+                  Fastmail or other CalDAV calendar in step with the CRM.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalendarSyncSettings;
@@ -17,29 +17,50 @@ import {
   Loader2,
   Sparkles,
   Brain,
-  RefreshCw,
   Settings,
-  Database,
-  TrendingUp,
+  Wrench,
+  ShieldCheck,
   Mic,
   MicOff,
-  Volume2
+  Volume2,
+  Pin,
+  PinOff,
+  Pencil,
+  Share2,
+  Link2,
+  Search,
+  X
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { 
   isOpenAIConfigured,
-  makeOpenAIRequest,
-  fetchCRMData,
-  formatCRMDataForAI,
-  analyzeDataTrends,
-  semanticSearchService,
-  debugSemanticSearch,
-  type OpenAIMessage,
-  type CRMDataContext,
-  type SemanticSearchResponse
+  createCRMToolContext,
+  getCRMTool,
+  runToolConversation,
+  type CRMToolConfirmation
 } from '@/lib/ai';
+import {
+  CHAT_CITATION_LABELS,
+  DEFAULT_CHAT_TITLE,
+  addChatMessage,
+  chatShareUrl,
+  createChatSession,
+  deleteChatSession,
+  fetchChatMessages,
+  fetchChatSessions,
+  findCitedRecords,
+  importLocalChatSessions,
+  renameChatSession,
+  searchChatMessages,
+  setChatSessionPinned,
+  shareChatSession,
+  titleFromMessage,
+  unshareChatSession,
+  type ChatMessage
+} from '@/lib/chatSessions';
+import { CALENDAR_QUERY_KEYS } from '@/lib/calendarSync';
 
 // Type declarations for Speech Recognition API
 declare global {
@@ -74,21 +95,22 @@ declare var SpeechRecognition: {
   new(): SpeechRecognition;
 };
 
-interface ChatMessage {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: string;
-  tokens?: number;
-}
+// Wait for typing to settle before searching past conversations
+const SEARCH_DELAY_MS = 300;
 
-interface ChatSession {
-  id: string;
-  title: string;
-  messages: ChatMessage[];
-  created_at: string;
-  updated_at: string;
-}
+// Everything a confirmed tool call can change
+const CRM_QUERY_KEYS = [['deals'], ['contacts'], ['leads'], ['companies'], ...CALENDAR_QUERY_KEYS];
+
+const SYSTEM_PROMPT = `You are the CRM assistant for Deal Whisperer CRM. You are not given the user's data up front: use the tools to look up what each question needs, then answer with the real names and numbers they return.
+
+- Find records with search_records before reading or changing them; never guess ids.
+- Use pipeline_summary for questions about the pipeline as a whole, and get_record for one record's details and history.
+- When the user asks for a change, call the tool; they confirm every change before it is saved. If they decline, acknowledge it and don't retry.
+- Be concise, specific and proactive about risks and next steps.`;
+
+// Search snippets wrap matched words in ** **
+const renderSnippet = (snippet: string) =>
+  snippet.split('**').map((part, index) => (index % 2 === 1 ? <mark key={index} className="bg-yellow-100 rounded">{part}</mark> : part));
 
 interface ChatCRMProps {
   open: boolean;
@@ -103,13 +125,18 @@ const ChatCRM = ({ open, onOpenChange, initialMessage }: ChatCRMProps) => {
   
   const [currentMessage, setCurrentMessage] = useState('');
   const [isTyping, setIsTyping] = useState(false);
-  const [currentSession, setCurrentSession] = useState<ChatSession | null>(null);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [renameValue, setRenameValue] = useState('');
+  const importedLocalSessions = useRef(false);
   const [showSettings, setShowSettings] = useState(false);
-  const [crmDataContext, setCrmDataContext] = useState<CRMDataContext | null>(null);
-  const [isLoadingCRMData, setIsLoadingCRMData] = useState(false);
-  
-  // Add state for semantic search results
-  const [lastSearchResults, setLastSearchResults] = useState<SemanticSearchResponse | null>(null);
+  // What the assistant is doing while a tool runs, and the change waiting for the user's go-ahead
+  const [toolActivity, setToolActivity] = useState<string | null>(null);
+  const [pendingConfirmation, setPendingConfirmation] = useState<CRMToolConfirmation | null>(null);
+  const resolveConfirmation = useRef<((approved: boolean) => void) | null>(null);
   
   // Voice assistant state
   const [isListening, setIsListening] = useState(false);
@@ -200,67 +227,70 @@ const ChatCRM = ({ open, onOpenChange, initialMessage }: ChatCRMProps) => {
     }
   };
 
-  // Load chat sessions from localStorage
-  const { data: chatSessions = [], refetch } = useQuery({
-    queryKey: ['chat-sessions', user?.id || 'default'],
-    queryFn: async () => {
-      // Get storage key based on user ID or default
-      const storageKey = user?.id ? `chat-sessions-${user.id}` : 'chat-sessions-default';
-      const stored = localStorage.getItem(storageKey);
-      return stored ? JSON.parse(stored) : [];
-    },
-    enabled: true, // Always enabled, not dependent on user
+  const { data: chatSessions = [] } = useQuery({
+    queryKey: ['chat-sessions', user?.id],
+    queryFn: () => fetchChatSessions(user!.id),
+    enabled: !!user && open,
+  });
+
+  const currentSession = chatSessions.find(session => session.id === currentSessionId) || null;
+
+  const { data: messages = [] } = useQuery({
+    queryKey: ['chat-messages', currentSessionId],
+    queryFn: () => fetchChatMessages(currentSessionId!),
+    enabled: !!currentSessionId,
   });
 
-  // Fetch CRM data when dialog opens
   useEffect(() => {
-    if (open && !crmDataContext) {
-      loadCRMData();
-    }
-  }, [open, user, crmDataContext]);
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const { data: searchResults = [], isFetching: isSearching } = useQuery({
+    queryKey: ['chat-search', user?.id, debouncedQuery],
+    queryFn: () => searchChatMessages(debouncedQuery),
+    enabled: !!user && debouncedQuery.length >= 2,
+  });
 
-  const loadCRMData = async () => {
-    // Check if user ID is available
-    const effectiveUserId = user?.id || 'mock-user-123';
-    if (!user?.id) {
-      console.log(`⚠️ [ChatCRM] No user ID available, using mock ID for CRM data`);
-    }
-    
-    setIsLoadingCRMData(true);
-    try {
-      console.log('Fetching comprehensive CRM data for ChatCRM context...');
-      const data = await fetchCRMData(effectiveUserId);
-      setCrmDataContext(data);
-      console.log('Comprehensive CRM data loaded:', data.summary);
-      
-      toast({
-        title: "CRM Data Loaded",
-        description: `Loaded ${data.summary.totalDeals} deals, ${data.summary.totalContacts} contacts, ${data.summary.totalLeads} leads, ${data.summary.totalActivities} activities, ${data.summary.totalEmails} emails, ${data.summary.totalFiles} files, and ${data.summary.totalTranscripts} transcripts for AI context.`,
-      });
-    } catch (error) {
-      console.error('Error loading CRM data:', error);
-      toast({
-        title: "CRM Data Error",
-        description: "Failed to load CRM data. AI responses may be limited.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoadingCRMData(false);
-    }
-  };
+  const titleMatches = debouncedQuery
+    ? chatSessions.filter(session => session.title.toLowerCase().includes(debouncedQuery.toLowerCase()))
+    : [];
 
-  // Save chat sessions to localStorage
-  const saveChatSessions = (sessions: ChatSession[]) => {
-    // Use a default key if user ID is not available
-    const storageKey = user?.id ? `chat-sessions-${user.id}` : 'chat-sessions-default';
-    localStorage.setItem(storageKey, JSON.stringify(sessions));
-    queryClient.invalidateQueries({ queryKey: ['chat-sessions'] });
+  // Chats from before sessions were stored server-side live in this browser; move them over once
+  useEffect(() => {
+    if (!open || !user || importedLocalSessions.current) return;
+    importedLocalSessions.current = true;
+    importLocalChatSessions(user.id)
+      .then(count => {
+        if (count === 0) return;
+        queryClient.invalidateQueries({ queryKey: ['chat-sessions'] });
+        toast({
+          title: "Chats moved to your account",
+          description: `${count} conversation${count === 1 ? '' : 's'} saved in this browser can now be opened anywhere you sign in.`,
+        });
+      })
+      .catch(error => console.error('Error importing saved chats:', error));
+  }, [open, user, queryClient, toast]);
+
+  const answerConfirmation = (approved: boolean) => {
+    resolveConfirmation.current?.(approved);
+    resolveConfirmation.current = null;
+    setPendingConfirmation(null);
   };
 
+  // A change waiting for confirmation is turned down if the user closes or leaves the chat
+  useEffect(() => () => answerConfirmation(false), [open, currentSessionId]);
+
+  const confirmToolCall = (confirmation: CRMToolConfirmation) =>
+    new Promise<boolean>(resolve => {
+      resolveConfirmation.current = resolve;
+      setPendingConfirmation(confirmation);
+    });
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [currentSession?.messages]);
+  }, [messages, pendingMessage, pendingConfirmation]);
 
   // Focus input when dialog opens
   useEffect(() => {
@@ -280,182 +310,51 @@ const ChatCRM = ({ open, onOpenChange, initialMessage }: ChatCRMProps) => {
     }
   }, [open, initialMessage]);
 
-  // Perform semantic search based on the user message
-  const performSemanticSearch = async (query: string) => {
-    if (!query.trim()) return null;
-    
-    try {
-      console.log(`\n🔍 [ChatCRM] SEMANTIC SEARCH FLOW: Starting search for user query`);
-      console.log(`📝 [ChatCRM] User Message: "${query}"`);
-      
-      // Check if user ID is available
-      const effectiveUserId = user?.id || 'mock-user-123';
-      if (!user?.id) {
-        console.log(`⚠️ [ChatCRM] No user ID available, using mock ID for semantic search`);
-      }
-      
-      console.log(`🚀 [ChatCRM] Step 1: Delegating to semanticSearchService...`);
-      const searchResponse = await semanticSearchService.semanticSearch({
-        query,
-        userId: effectiveUserId,
-        maxResults: 10, // Increased from 5 to get more results
-        similarityThreshold: 0.01 // Very low threshold to ensure we get results
-      });
-      
-      console.log(`✅ [ChatCRM] Step 2: Semantic search completed`);
-      console.log(`📊 [ChatCRM] Search Stats: ${searchResponse.totalResults} results found for query "${searchResponse.query}"`);
-      
-      if (searchResponse.results.length > 0) {
-        console.log(`🏆 [ChatCRM] Top match: ${searchResponse.results[0].type} - ${searchResponse.results[0].name} (${Math.round(searchResponse.results[0].similarity * 100)}% relevance)`);
-        
-        // Log all results with similarity scores for debugging
-        console.log(`📋 [ChatCRM] All results:`);
-        searchResponse.results.forEach((result, index) => {
-          console.log(`  ${index + 1}. [${result.type}] ${result.title || result.name} - ${Math.round(result.similarity * 100)}% relevance`);
-        });
-        
-        // Use the visualization tool to display detailed results
-        console.log(`\n📊 [ChatCRM] Visualizing search results:`);
-        debugSemanticSearch(searchResponse);
-      }
-      
-      setLastSearchResults(searchResponse);
-      return searchResponse;
-    } catch (error) {
-      console.error('❌ [ChatCRM] Error performing semantic search:', error);
-      return null;
-    }
-  };
-
-  // Format the system message with CRM data and semantic search results
-  const formatSystemMessage = (query: string, searchResults: SemanticSearchResponse | null) => {
-    console.log(`📝 [ChatCRM] Step 3: Formatting system message with CRM data and search results`);
-    
-    let systemContent = `You are an expert CRM AI assistant for Deal Whisperer CRM. You have access to comprehensive real-time data from the user's CRM system.
-
-${crmDataContext ? formatCRMDataForAI(crmDataContext) : 'No CRM data available at the moment.'}`;
-
-    // Add semantic search results if available
-    if (searchResults && searchResults.results.length > 0) {
-      console.log(`📊 [ChatCRM] Including ${searchResults.results.length} semantic search results in AI context`);
-      systemContent += `\n\n${semanticSearchService.formatResultsForAI(searchResults)}`;
-    } else {
-      console.log(`ℹ️ [ChatCRM] No semantic search results to include in AI context`);
-    }
-
-    // Add role and guidelines
-    systemContent += `\n\nYour role:
-- Provide data-driven insights and recommendations
-- Answer questions about deals, contacts, companies, leads, activities, emails, files, transcripts, and all CRM data
-- Help with sales strategy and customer relationship management
-- Offer actionable advice based on the actual data
-- Be conversational but professional
-- Always reference specific data when making recommendations
-
-Guidelines:
-- Use the real data provided to give specific, actionable insights
-- When discussing performance, cite actual numbers from the data
-- Suggest concrete next steps based on the data patterns
-- Be helpful and proactive in identifying opportunities and risks
-- Keep responses focused and valuable for sales and CRM management`;
-
-    console.log(`✅ [ChatCRM] System message prepared (${systemContent.length} characters)`);
-    return systemContent;
-  };
-
   const sendMessageMutation = useMutation({
     mutationFn: async (message: string) => {
-      if (!currentSession) throw new Error('No active session');
-      
-      // Check for user ID
-      if (!user?.id) {
-        console.log(`⚠️ [ChatCRM] No user ID available, proceeding with mock user for chat`);
-      }
-      
-      console.log(`\n🚀 [ChatCRM] CHAT FLOW: Processing user message "${message}"`);
-      
-      const userMessage: ChatMessage = {
-        id: `msg_${Date.now()}_user`,
-        role: 'user',
-        content: message,
-        timestamp: new Date().toISOString(),
-      };
-
-      // Add user message to session
-      const updatedSession = {
-        ...currentSession,
-        messages: [...currentSession.messages, userMessage],
-        updated_at: new Date().toISOString(),
-      };
-
-      setCurrentSession(updatedSession);
-      console.log(`✅ [ChatCRM] User message added to session`);
-
-      // Perform semantic search based on the user message
-      console.log(`🔎 [ChatCRM] SEMANTIC SEARCH FLOW: Starting semantic search for user query`);
-      const startTime = performance.now();
-      const searchResults = await performSemanticSearch(message);
-      const searchTime = (performance.now() - startTime).toFixed(2);
-      console.log(`⏱️ [ChatCRM] Semantic search completed in ${searchTime}ms`);
-
-      // Prepare messages for OpenAI
-      console.log(`📝 [ChatCRM] PREPARING LLM CONTEXT: Formatting system message with search results`);
-      const systemMessage: OpenAIMessage = {
-        role: "system",
-        content: formatSystemMessage(message, searchResults)
-      };
-
-      const conversationMessages: OpenAIMessage[] = [
-        systemMessage,
-        ...updatedSession.messages.map(msg => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content
-        }))
-      ];
-      console.log('conversationMessages', conversationMessages);
-      console.log('searchResults', searchResults);
-      console.log(`🤖 [ChatCRM] CALLING LLM: Sending request to OpenAI with ${conversationMessages.length} messages`);
-      console.log(`📊 [ChatCRM] Context includes ${searchResults?.results.length || 0} semantically relevant items`);
-      
-      const llmStartTime = performance.now();
-      const response = await makeOpenAIRequest(conversationMessages, {
-        model: "gpt-4",
-        temperature: 0.7,
-        maxTokens: 1000
+      if (!user || !currentSession) throw new Error('No active session');
+      const session = currentSession;
+      const history = messages;
+
+      const userMessage = await addChatMessage(user.id, session.id, { role: 'user', content: message });
+      queryClient.setQueryData<ChatMessage[]>(['chat-messages', session.id], [...history, userMessage]);
+      setPendingMessage(null);
+
+      // The model fetches what the question needs through the CRM tools
+      const result = await runToolConversation({
+        messages: [
+          { role: 'system', content: `${SYSTEM_PROMPT}\n\nIt is now ${new Date().toString()}.` },
+          ...[...history, userMessage].map(msg => ({ role: msg.role, content: msg.content }))
+        ],
+        context: createCRMToolContext(user.id, 'chat'),
+        confirm: confirmToolCall,
+        onToolCall: (toolName, toolResult) => {
+          setToolActivity(toolResult ? null : getCRMTool(toolName)?.label || toolName);
+        }
       });
-      const llmTime = (performance.now() - llmStartTime).toFixed(2);
-      console.log(`⏱️ [ChatCRM] LLM response received in ${llmTime}ms`);
 
-      if (!response) {
-        throw new Error('No response from AI');
+      if (result.steps.some(step => step.result.ok && getCRMTool(step.toolName)?.permission !== 'read')) {
+        CRM_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
       }
 
-      const assistantMessage: ChatMessage = {
-        id: `msg_${Date.now()}_assistant`,
+      const response = result.content || 'Done.';
+      await addChatMessage(user.id, session.id, {
         role: 'assistant',
         content: response,
-        timestamp: new Date().toISOString(),
-      };
-
-      const finalSession = {
-        ...updatedSession,
-        messages: [...updatedSession.messages, assistantMessage],
-        updated_at: new Date().toISOString(),
-      };
+        usage: result.usage,
+        citations: findCitedRecords(response, result.records)
+      });
 
-      // Update sessions in storage
-      const allSessions = chatSessions.map(s => 
-        s.id === finalSession.id ? finalSession : s
-      );
-      saveChatSessions(allSessions);
-      console.log(`✅ [ChatCRM] CHAT FLOW COMPLETE: Response saved to session`);
+      if (history.length === 0 && session.title === DEFAULT_CHAT_TITLE) {
+        await renameChatSession(session.id, titleFromMessage(message));
+      }
 
-      return { session: finalSession, response };
+      return { response };
     },
-    onSuccess: ({ session, response }) => {
-      setCurrentSession(session);
-      refetch();
-      
+    onSuccess: ({ response }) => {
+      queryClient.invalidateQueries({ queryKey: ['chat-messages'] });
+      queryClient.invalidateQueries({ queryKey: ['chat-sessions'] });
+
       // Speak the response if text-to-speech is available
       if ('speechSynthesis' in window && response) {
         // Extract just the text content, removing any markdown formatting
@@ -465,7 +364,11 @@ Guidelines:
         }
       }
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
+      setPendingMessage(null);
+      // The question may have been saved before the answer failed
+      queryClient.invalidateQueries({ queryKey: ['chat-messages'] });
+      queryClient.invalidateQueries({ queryKey: ['chat-sessions'] });
       toast({
         title: "Message failed",
         description: error.message,
@@ -480,9 +383,13 @@ Guidelines:
     setIsTyping(true);
     const messageToSend = currentMessage;
     setCurrentMessage('');
+    setPendingMessage(messageToSend);
     
     sendMessageMutation.mutate(messageToSend, {
-      onSettled: () => setIsTyping(false)
+      onSettled: () => {
+        setIsTyping(false);
+        setToolActivity(null);
+      }
     });
   };
 
@@ -493,30 +400,79 @@ Guidelines:
     }
   };
 
-  const createNewSession = () => {
-    const newSession: ChatSession = {
-      id: `session_${Date.now()}`,
-      title: `Chat ${new Date().toLocaleDateString()}`,
-      messages: [],
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
-
-    const updatedSessions = [newSession, ...chatSessions];
-    saveChatSessions(updatedSessions);
-    setCurrentSession(newSession);
-    refetch();
+  const createNewSession = async () => {
+    if (!user) return;
+    try {
+      const session = await createChatSession(user.id);
+      queryClient.setQueryData(['chat-sessions', user.id], [session, ...chatSessions]);
+      setCurrentSessionId(session.id);
+      setIsRenaming(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start a chat",
+        variant: "destructive",
+      });
+    }
   };
 
-  const deleteSession = (sessionId: string) => {
-    const updatedSessions = chatSessions.filter(s => s.id !== sessionId);
-    saveChatSessions(updatedSessions);
-    
-    if (currentSession?.id === sessionId) {
-      setCurrentSession(null);
+  // Run a session change and refresh the list, reporting failures
+  const updateSession = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+      queryClient.invalidateQueries({ queryKey: ['chat-sessions'] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive",
+      });
     }
-    
-    refetch();
+  };
+
+  const deleteSession = (sessionId: string) => updateSession(async () => {
+    await deleteChatSession(sessionId);
+    if (currentSessionId === sessionId) {
+      setCurrentSessionId(null);
+    }
+  }, "Failed to delete chat");
+
+  const togglePinned = (sessionId: string, pinned: boolean) =>
+    updateSession(() => setChatSessionPinned(sessionId, pinned), "Failed to pin chat");
+
+  const saveRename = () => {
+    if (!currentSession) return;
+    setIsRenaming(false);
+    if (renameValue.trim() === currentSession.title) return;
+    updateSession(() => renameChatSession(currentSession.id, renameValue), "Failed to rename chat");
+  };
+
+  const copyShareLink = () => {
+    if (!currentSession) return;
+    const session = currentSession;
+    updateSession(async () => {
+      const token = await shareChatSession(session);
+      await navigator.clipboard.writeText(chatShareUrl(token));
+      toast({
+        title: "Share link copied",
+        description: "Teammates who open the link can read this conversation.",
+      });
+    }, "Failed to share chat");
+  };
+
+  const stopSharing = () => {
+    if (!currentSession) return;
+    const session = currentSession;
+    updateSession(async () => {
+      await unshareChatSession(session.id);
+      toast({ title: "Sharing stopped", description: "The old link no longer opens this chat." });
+    }, "Failed to stop sharing");
+  };
+
+  const openSession = (sessionId: string) => {
+    setCurrentSessionId(sessionId);
+    setIsRenaming(false);
+    setSearchQuery('');
   };
 
   const copyMessage = (content: string) => {
@@ -530,7 +486,7 @@ Guidelines:
   const exportChat = () => {
     if (!currentSession) return;
     
-    const chatContent = currentSession.messages
+    const chatContent = messages
       .map(msg => `${msg.role.toUpperCase()}: ${msg.content}`)
       .join('\n\n');
     
@@ -558,32 +514,17 @@ Guidelines:
                 <div>
                   <DialogTitle className="text-xl font-bold text-slate-900">ChatCRM AI Assistant</DialogTitle>
                   <DialogDescription className="text-slate-600">
-                    AI-powered insights from your complete CRM data
+                    Ask about your CRM or have it update records for you
                   </DialogDescription>
                 </div>
               </div>
               
               <div className="flex items-center space-x-2">
-                {crmDataContext && (
-                  <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
-                    <Database className="w-3 h-3 mr-1" />
-                    {crmDataContext.summary.totalDeals} deals, {crmDataContext.summary.totalContacts} contacts, {crmDataContext.summary.totalLeads} leads, {crmDataContext.summary.totalActivities} activities, {crmDataContext.summary.totalEmails} emails, {crmDataContext.summary.totalFiles} files
-                  </Badge>
-                )}
-                {isLoadingCRMData && (
-                  <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
-                    <Loader2 className="w-3 h-3 mr-1 animate-spin" />
-                    Loading CRM Data
-                  </Badge>
-                )}
                 {!isOpenAIConfigured() && (
                   <Badge variant="destructive" className="text-xs">
                     API Key Required
                   </Badge>
                 )}
-                <Button variant="outline" size="sm" onClick={loadCRMData} disabled={isLoadingCRMData}>
-                  <RefreshCw className={`w-4 h-4 ${isLoadingCRMData ? 'animate-spin' : ''}`} />
-                </Button>
                 <Button variant="outline" size="sm" onClick={() => setShowSettings(true)}>
                   <Settings className="w-4 h-4" />
                 </Button>
@@ -605,45 +546,103 @@ Guidelines:
                 </Button>
               </div>
               
+              <div className="px-4 pt-4">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                  <Input
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder="Search past chats..."
+                    className="pl-9 bg-white"
+                  />
+                </div>
+              </div>
+
               <ScrollArea className="flex-1 p-4">
-                <div className="space-y-2">
-                  {chatSessions.map((session) => (
-                    <div
-                      key={session.id}
-                      className={`p-3 rounded-lg cursor-pointer transition-colors group ${
-                        currentSession?.id === session.id
-                          ? 'bg-blue-100 border border-blue-200'
-                          : 'bg-white hover:bg-slate-100 border border-slate-200'
-                      }`}
-                      onClick={() => setCurrentSession(session)}
-                    >
-                      <div className="flex items-center justify-between">
-                        <div className="flex-1 min-w-0">
-                          <p className="text-sm font-medium text-slate-900 truncate">
-                            {session.title}
-                          </p>
-                          <p className="text-xs text-slate-500">
-                            {new Date(session.created_at).toLocaleDateString()}
-                          </p>
-                          <p className="text-xs text-slate-400">
-                            {session.messages.length} messages
-                          </p>
+                {debouncedQuery ? (
+                  <div className="space-y-2">
+                    {titleMatches.map(session => (
+                      <div
+                        key={session.id}
+                        className="p-3 rounded-lg cursor-pointer bg-white hover:bg-slate-100 border border-slate-200"
+                        onClick={() => openSession(session.id)}
+                      >
+                        <p className="text-sm font-medium text-slate-900 truncate">{session.title}</p>
+                        <p className="text-xs text-slate-500">{session.message_count} messages</p>
+                      </div>
+                    ))}
+                    {searchResults.map(result => (
+                      <div
+                        key={result.messageId}
+                        className="p-3 rounded-lg cursor-pointer bg-white hover:bg-slate-100 border border-slate-200"
+                        onClick={() => openSession(result.sessionId)}
+                      >
+                        <p className="text-sm font-medium text-slate-900 truncate">{result.sessionTitle}</p>
+                        <p className="text-xs text-slate-600 mt-1 line-clamp-3">
+                          <span className="text-slate-400">{result.role === 'user' ? 'You: ' : 'AI: '}</span>
+                          {renderSnippet(result.snippet)}
+                        </p>
+                        <p className="text-xs text-slate-400 mt-1">{new Date(result.createdAt).toLocaleDateString()}</p>
+                      </div>
+                    ))}
+                    {!isSearching && titleMatches.length === 0 && searchResults.length === 0 && (
+                      <p className="text-sm text-slate-500 text-center py-4">No chats match "{debouncedQuery}"</p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {chatSessions.map((session) => (
+                      <div
+                        key={session.id}
+                        className={`p-3 rounded-lg cursor-pointer transition-colors group ${
+                          currentSession?.id === session.id
+                            ? 'bg-blue-100 border border-blue-200'
+                            : 'bg-white hover:bg-slate-100 border border-slate-200'
+                        }`}
+                        onClick={() => openSession(session.id)}
+                      >
+                        <div className="flex items-center justify-between">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium text-slate-900 truncate flex items-center">
+                              {session.pinned && <Pin className="w-3 h-3 mr-1 text-blue-600 flex-shrink-0" />}
+                              <span className="truncate">{session.title}</span>
+                            </p>
+                            <p className="text-xs text-slate-500">
+                              {new Date(session.last_message_at || session.created_at).toLocaleDateString()}
+                              {session.share_token && ' · Shared'}
+                            </p>
+                            <p className="text-xs text-slate-400">
+                              {session.message_count} messages · {session.total_tokens.toLocaleString()} tokens
+                            </p>
+                          </div>
+                          <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                togglePinned(session.id, !session.pinned);
+                              }}
+                              title={session.pinned ? 'Unpin' : 'Pin'}
+                            >
+                              {session.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                deleteSession(session.id);
+                              }}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            deleteSession(session.id);
-                          }}
-                          className="opacity-0 group-hover:opacity-100 transition-opacity"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
                       </div>
-                    </div>
-                  ))}
-                </div>
+                    ))}
+                  </div>
+                )}
               </ScrollArea>
             </div>
 
@@ -653,9 +652,60 @@ Guidelines:
                 <>
                   {/* Chat Header */}
                   <div className="p-4 border-b bg-white">
-                    <div className="flex items-center justify-between">
-                      <h3 className="font-semibold text-slate-900">{currentSession.title}</h3>
-                      <div className="flex items-center space-x-2">
+                    <div className="flex items-center justify-between gap-3">
+                      {isRenaming ? (
+                        <Input
+                          value={renameValue}
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          onBlur={saveRename}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') saveRename();
+                            if (e.key === 'Escape') setIsRenaming(false);
+                          }}
+                          className="h-8"
+                          autoFocus
+                        />
+                      ) : (
+                        <div className="flex items-center min-w-0">
+                          <h3 className="font-semibold text-slate-900 truncate">{currentSession.title}</h3>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setRenameValue(currentSession.title);
+                              setIsRenaming(true);
+                            }}
+                            title="Rename"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )}
+                      <div className="flex items-center space-x-2 flex-shrink-0">
+                        <span className="text-xs text-slate-500">{currentSession.total_tokens.toLocaleString()} tokens</span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => togglePinned(currentSession.id, !currentSession.pinned)}
+                          title={currentSession.pinned ? 'Unpin' : 'Pin'}
+                        >
+                          {currentSession.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                        </Button>
+                        {currentSession.share_token ? (
+                          <>
+                            <Button variant="outline" size="sm" onClick={copyShareLink} title="Copy share link">
+                              <Link2 className="w-4 h-4 mr-1" />
+                              Shared
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={stopSharing} title="Stop sharing">
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </>
+                        ) : (
+                          <Button variant="outline" size="sm" onClick={copyShareLink} title="Share with teammates">
+                            <Share2 className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button variant="outline" size="sm" onClick={exportChat}>
                           <Download className="w-4 h-4" />
                         </Button>
@@ -666,7 +716,7 @@ Guidelines:
                   {/* Messages */}
                   <ScrollArea className="flex-1 p-4">
                     <div className="space-y-4">
-                      {currentSession.messages.map((message) => (
+                      {messages.map((message) => (
                         <div
                           key={message.id}
                           className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -691,7 +741,7 @@ Guidelines:
                                   </span>
                                   <div className="flex items-center space-x-1">
                                     <span className="text-xs opacity-70">
-                                      {new Date(message.timestamp).toLocaleTimeString()}
+                                      {new Date(message.created_at).toLocaleTimeString()}
                                     </span>
                                     <Button
                                       variant="ghost"
@@ -706,13 +756,35 @@ Guidelines:
                                 <div className="prose prose-sm max-w-none">
                                   <p className="whitespace-pre-wrap">{message.content}</p>
                                 </div>
+                                {message.citations.length > 0 && (
+                                  <div className="flex flex-wrap gap-1 mt-3">
+                                    {message.citations.map(citation => (
+                                      <Badge key={`${citation.type}-${citation.id}`} variant="outline" className="text-xs bg-slate-50">
+                                        {CHAT_CITATION_LABELS[citation.type]}: {citation.name}
+                                      </Badge>
+                                    ))}
+                                  </div>
+                                )}
+                                {message.role === 'assistant' && message.tokens > 0 && (
+                                  <p className="text-xs text-slate-400 mt-2">
+                                    {message.tokens.toLocaleString()} tokens ({message.prompt_tokens.toLocaleString()} prompt, {message.completion_tokens.toLocaleString()} reply)
+                                  </p>
+                                )}
                               </div>
                             </div>
                           </div>
                         </div>
                       ))}
                       
-                      {isTyping && (
+                      {pendingMessage && (
+                        <div className="flex justify-end">
+                          <div className="max-w-[80%] rounded-lg p-4 bg-gradient-to-r from-blue-600 to-purple-600 text-white opacity-70">
+                            <p className="text-sm whitespace-pre-wrap">{pendingMessage}</p>
+                          </div>
+                        </div>
+                      )}
+
+                      {isTyping && !pendingConfirmation && (
                         <div className="flex justify-start">
                           <div className="bg-white border border-slate-200 rounded-lg p-4">
                             <div className="flex items-center space-x-3">
@@ -721,11 +793,38 @@ Guidelines:
                                   <Bot className="w-4 h-4" />
                                 </AvatarFallback>
                               </Avatar>
-                              <div className="flex items-center space-x-1">
-                                <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"></div>
-                                <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
-                                <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
-                              </div>
+                              {toolActivity ? (
+                                <span className="flex items-center text-sm text-slate-600">
+                                  <Wrench className="w-4 h-4 mr-2 text-blue-600" />
+                                  {toolActivity}...
+                                </span>
+                              ) : (
+                                <div className="flex items-center space-x-1">
+                                  <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"></div>
+                                  <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                                  <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                      )}
+
+                      {pendingConfirmation && (
+                        <div className="flex justify-start">
+                          <div className="max-w-[80%] rounded-lg p-4 bg-amber-50 border border-amber-200">
+                            <p className="flex items-center text-sm font-medium text-amber-900 mb-1">
+                              <ShieldCheck className="w-4 h-4 mr-2" />
+                              Confirm this change
+                            </p>
+                            <p className="text-sm text-amber-800">{pendingConfirmation.summary}</p>
+                            <div className="flex gap-2 mt-3">
+                              <Button size="sm" onClick={() => answerConfirmation(true)}>
+                                Confirm
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => answerConfirmation(false)}>
+                                Cancel
+                              </Button>
                             </div>
                           </div>
                         </div>
@@ -806,58 +905,15 @@ Guidelines:
               ) : (
                 <div className="flex-1 flex items-center justify-center p-8">
                   <div className="text-center max-w-md">
-                    {crmDataContext && (
-                      <div className="mb-6 p-4 bg-gradient-to-r from-blue-50 to-purple-50 rounded-lg border border-blue-200">
-                        <div className="flex items-center justify-center mb-3">
-                          <TrendingUp className="w-5 h-5 text-blue-600 mr-2" />
-                          <span className="font-medium text-blue-900">Your Complete CRM Data Loaded</span>
-                        </div>
-                        <div className="grid grid-cols-2 gap-3 text-sm">
-                          <div className="text-center">
-                            <div className="font-bold text-blue-900">{crmDataContext.summary.totalDeals}</div>
-                            <div className="text-blue-700">Deals</div>
-                          </div>
-                          <div className="text-center">
-                            <div className="font-bold text-blue-900">{crmDataContext.summary.totalContacts}</div>
-                            <div className="text-blue-700">Contacts</div>
-                          </div>
-                          <div className="text-center">
-                            <div className="font-bold text-blue-900">{crmDataContext.summary.totalLeads}</div>
-                            <div className="text-blue-700">Leads</div>
-                          </div>
-                          <div className="text-center">
-                            <div className="font-bold text-blue-900">{crmDataContext.summary.totalActivities}</div>
-                            <div className="text-blue-700">Activities</div>
-                          </div>
-                          <div className="text-center">
-                            <div className="font-bold text-blue-900">{crmDataContext.summary.totalEmails}</div>
-                            <div className="text-blue-700">Emails</div>
-                          </div>
-                          <div className="text-center">
-                            <div className="font-bold text-blue-900">{crmDataContext.summary.totalFiles}</div>
-                            <div className="text-blue-700">Files</div>
-                          </div>
-                          <div className="text-center">
-                            <div className="font-bold text-blue-900">${(crmDataContext.summary.totalRevenue / 1000).toFixed(0)}K</div>
-                            <div className="text-blue-700">Pipeline Value</div>
-                          </div>
-                          <div className="text-center">
-                            <div className="font-bold text-blue-900">{crmDataContext.summary.conversionRate.toFixed(1)}%</div>
-                            <div className="text-blue-700">Close Rate</div>
-                          </div>
-                        </div>
-                      </div>
-                    )}
-                    
                     <div className="p-3 bg-blue-50 rounded-lg">
                       <p className="text-sm font-medium text-blue-900">💡 Ask me about:</p>
                       <ul className="text-sm text-blue-700 mt-1 space-y-1">
-                        <li>• "What's my pipeline health across all data?"</li>
-                        <li>• "Which deals need attention based on activities?"</li>
-                        <li>• "Analyze my email engagement patterns"</li>
-                        <li>• "Show insights from my recent transcripts"</li>
-                        <li>• "How can I improve lead conversion?"</li>
-                        <li>• "What files are most important for closing deals?"</li>
+                        <li>• "What's my pipeline health?"</li>
+                        <li>• "Which deals are past their close date?"</li>
+                        <li>• "What happened on the Acme deal recently?"</li>
+                        <li>• "Move the Acme deal to Negotiation"</li>
+                        <li>• "Log a call with Jane Smith about pricing"</li>
+                        <li>• "Schedule a demo with Jane next Tuesday at 10am"</li>
                       </ul>
                     </div>
                   </div>
@@ -868,7 +924,7 @@ Guidelines:
                     disabled={!isOpenAIConfigured()}
                   >
                     <Sparkles className="w-4 h-4 mr-2" />
-                    Start Comprehensive Data Analysis
+                    Start a Chat
                   </Button>
                 </div>
               )}
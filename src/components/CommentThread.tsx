@@ -0,0 +1,319 @@
+import { useRef, useState, type KeyboardEvent, type ReactNode } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { AtSign, CornerDownRight, MessageSquare, Reply, Send, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import {
+  deleteComment,
+  fetchCommentThreads,
+  fetchMentionableMembers,
+  postComment,
+  type Comment,
+  type Mentionable
+} from '@/lib/comments';
+
+interface CommentThreadProps {
+  dealId?: string;
+  contactId?: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// The "@partial name" being typed just before the caret, if any
+const MENTION_QUERY = /(?:^|\s)@([^@\n]{0,40})$/;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  members: Mentionable[];
+  placeholder: string;
+  disabled?: boolean;
+}
+
+const MentionTextarea = ({ value, onChange, onSubmit, members, placeholder, disabled }: MentionTextareaProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = query === null ? [] : members
+    .filter(member => member.name.toLowerCase().startsWith(query) || member.email.toLowerCase().startsWith(query))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(MENTION_QUERY);
+    setQuery(match ? match[1].toLowerCase() : null);
+    setActiveIndex(0);
+  };
+
+  const insertMention = (member: Mentionable) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? value.length;
+    const before = value.slice(0, caret).replace(/@([^@\n]{0,40})$/, `@${member.name} `);
+    onChange(before + value.slice(caret));
+    setQuery(null);
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(suggestions[activeIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setQuery(null);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setQuery(null)}
+        placeholder={placeholder}
+        rows={3}
+        disabled={disabled}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute z-10 left-0 right-0 mt-1 rounded-md border border-slate-200 bg-white shadow-lg">
+          {suggestions.map((member, index) => (
+            <button
+              key={member.userId}
+              type="button"
+              className={`w-full flex items-center justify-between px-3 py-2 text-left text-sm ${index === activeIndex ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+              // Keep focus in the textarea so the caret position survives the click
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insertMention(member);
+              }}
+            >
+              <span className="font-medium text-slate-900">{member.name}</span>
+              <span className="text-xs text-slate-500">{member.email}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const CommentThread = ({ dealId, contactId }: CommentThreadProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState('');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState('');
+
+  const target = { dealId, contactId };
+
+  const { data: threads = [], isLoading } = useQuery({
+    queryKey: ['comments', dealId, contactId],
+    queryFn: () => fetchCommentThreads(target),
+    enabled: !!user && !!(dealId || contactId),
+  });
+
+  const { data: members = [] } = useQuery({
+    queryKey: ['mentionable-members', user?.id],
+    queryFn: () => fetchMentionableMembers(user!.id),
+    enabled: !!user,
+  });
+
+  const teammates = members.filter(member => member.userId !== user?.id);
+
+  const postMutation = useMutation({
+    mutationFn: ({ content, parentId }: { content: string; parentId?: string }) =>
+      postComment(user!.id, target, content, teammates, parentId),
+    onSuccess: (_, { parentId }) => {
+      queryClient.invalidateQueries({ queryKey: ['comments', dealId, contactId] });
+      if (parentId) {
+        setReplyingTo(null);
+        setReplyDraft('');
+      } else {
+        setDraft('');
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error posting comment', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteComment,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['comments', dealId, contactId] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error deleting comment', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  // Highlight the @names the comment actually mentioned, and the reader's own name more strongly
+  const renderContent = (comment: Comment) => {
+    const mentioned = members.filter(member => comment.mentions?.includes(member.userId));
+    if (mentioned.length === 0) return comment.content;
+
+    const pattern = new RegExp(`(@(?:${mentioned.map(member => escapeRegExp(member.name)).sort((a, b) => b.length - a.length).join('|')}))`, 'gi');
+    return comment.content.split(pattern).map((part, index): ReactNode => {
+      const member = index % 2 === 1 ? mentioned.find(m => `@${m.name}`.toLowerCase() === part.toLowerCase()) : undefined;
+      if (!member) return part;
+      return (
+        <span
+          key={index}
+          className={`rounded px-0.5 font-medium ${member.userId === user?.id ? 'bg-amber-100 text-amber-900' : 'bg-blue-50 text-blue-700'}`}
+        >
+          {part}
+        </span>
+      );
+    });
+  };
+
+  const renderComment = (comment: Comment, isReply: boolean) => (
+    <div key={comment.id} className={`p-3 rounded-lg border ${isReply ? 'ml-8 bg-slate-50 border-slate-100' : 'bg-white border-slate-200'}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center text-sm">
+          {isReply && <CornerDownRight className="w-4 h-4 mr-1 text-slate-400" />}
+          <span className="font-medium text-slate-900">{comment.user_id === user?.id ? 'You' : comment.authorName}</span>
+          <span className="ml-2 text-xs text-slate-500">{new Date(comment.created_at).toLocaleString()}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          {!isReply && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2"
+              onClick={() => {
+                setReplyingTo(comment.id);
+                setReplyDraft('');
+              }}
+            >
+              <Reply className="w-4 h-4" />
+            </Button>
+          )}
+          {comment.user_id === user?.id && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-red-600 hover:bg-red-50"
+              onClick={() => deleteMutation.mutate(comment.id)}
+              disabled={deleteMutation.isPending}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <p className="text-sm text-slate-700 whitespace-pre-wrap mt-2">{renderContent(comment)}</p>
+    </div>
+  );
+
+  return (
+    <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <MessageSquare className="w-5 h-5 mr-2 text-blue-600" />
+          Comments
+        </CardTitle>
+        <CardDescription className="flex items-center">
+          <AtSign className="w-3 h-3 mr-1" />
+          Type @ to mention a teammate; they'll get a notification
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-center py-6 text-slate-500">Loading comments...</div>
+        ) : threads.length === 0 ? (
+          <div className="text-center py-6 text-slate-500">No comments yet</div>
+        ) : (
+          <div className="space-y-3">
+            {threads.map(thread => (
+              <div key={thread.comment.id} className="space-y-2">
+                {renderComment(thread.comment, false)}
+                {thread.replies.map(reply => renderComment(reply, true))}
+                {replyingTo === thread.comment.id && (
+                  <div className="ml-8 space-y-2">
+                    <MentionTextarea
+                      value={replyDraft}
+                      onChange={setReplyDraft}
+                      onSubmit={() => postMutation.mutate({ content: replyDraft, parentId: thread.comment.id })}
+                      members={teammates}
+                      placeholder={`Reply to ${thread.comment.user_id === user?.id ? 'yourself' : thread.comment.authorName}...`}
+                      disabled={postMutation.isPending}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setReplyingTo(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => postMutation.mutate({ content: replyDraft, parentId: thread.comment.id })}
+                        disabled={postMutation.isPending || !replyDraft.trim()}
+                      >
+                        <Send className="w-4 h-4 mr-1" />
+                        Reply
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <MentionTextarea
+            value={draft}
+            onChange={setDraft}
+            onSubmit={() => postMutation.mutate({ content: draft })}
+            members={teammates}
+            placeholder="Add a comment..."
+            disabled={postMutation.isPending}
+          />
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={() => postMutation.mutate({ content: draft })}
+              disabled={postMutation.isPending || !draft.trim()}
+            >
+              <Send className="w-4 h-4 mr-1" />
+              Comment
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CommentThread;
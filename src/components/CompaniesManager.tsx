@@ -9,6 +9,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Building2, Search, Filter, ArrowUpDown, SortAsc, SortDesc, Plus, Mail, Phone, Globe, Edit, Trash2, MapPin, Users, DollarSign, Calendar, ExternalLink, Brain, Sparkles, Zap, CheckCircle, AlertCircle, User, Target } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { expectChangedRows, ownedByFilter } from '@/lib/teams';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
@@ -93,7 +94,7 @@ const CompaniesManager = () => {
       const { data, error } = await supabase
         .from('companies')
         .select('*')
-        .eq('user_id', user.id)
+        .or(ownedByFilter(user.id))
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -119,7 +120,7 @@ const CompaniesManager = () => {
             .from('leads')
             .select('id', { count: 'exact', head: true })
             .eq('company', company.name)
-            .eq('user_id', user.id);
+            .or(ownedByFilter(user.id));
           
           if (!leadsErrorById && !leadsErrorByName) {
             leads_count = (leadsCountById || 0) + (leadsCountByName || 0);
@@ -154,7 +155,7 @@ const CompaniesManager = () => {
             .from('contacts')
             .select('id', { count: 'exact', head: true })
             .eq('company', company.name)
-            .eq('user_id', user.id);
+            .or(ownedByFilter(user.id));
           
           if (!contactsErrorById && !contactsErrorByName) {
             contacts_count = (contactsCountById || 0) + (contactsCountByName || 0);
@@ -512,13 +513,14 @@ const CompaniesManager = () => {
     if (!deletingCompany || !user) return;
 
     try {
-      const { error } = await supabase
+      const { data: changed, error } = await supabase
         .from('companies')
         .delete()
         .eq('id', deletingCompany.id)
-        .eq('user_id', user.id);
+        .select('id');
 
       if (error) throw error;
+      expectChangedRows(changed, 'company');
 
       toast({
         title: "Company deleted",
@@ -11,6 +11,8 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery } from '@tanstack/react-query';
 import ActivityForm from './ActivityForm';
+import EmailThreadView from './EmailThreadView';
+import CommentThread from './CommentThread';
 
 interface ContactDetailProps {
   contactId: string;
@@ -256,10 +258,12 @@ const ContactDetail = ({ contactId, onClose }: ContactDetailProps) => {
 
       {/* Tabs Navigation */}
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid grid-cols-3 w-full">
+        <TabsList className="grid grid-cols-5 w-full">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="deals">Deals ({deals.length})</TabsTrigger>
           <TabsTrigger value="activities">Activities ({activities.length})</TabsTrigger>
+          <TabsTrigger value="emails">Emails</TabsTrigger>
+          <TabsTrigger value="comments">Comments</TabsTrigger>
         </TabsList>
 
         {/* Overview Tab */}
@@ -501,6 +505,16 @@ const ContactDetail = ({ contactId, onClose }: ContactDetailProps) => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Emails Tab */}
+        <TabsContent value="emails">
+          <EmailThreadView contactId={contactId} />
+        </TabsContent>
+
+        {/* Comments Tab */}
+        <TabsContent value="comments">
+          <CommentThread contactId={contactId} />
+        </TabsContent>
       </Tabs>
 
       {/* Activity Form */}
@@ -9,6 +9,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Users, Search, MessageSquare, Calendar, Mail, Plus, ArrowUpDown, Filter, SortAsc, SortDesc, Edit, Trash2, Linkedin, Globe, Star, TrendingUp, Building2, MapPin, GraduationCap, Briefcase, User } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { expectChangedRows, ownedByFilter } from '@/lib/teams';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery } from '@tanstack/react-query';
@@ -90,7 +91,7 @@ const ContactsList = () => {
       const { data, error } = await supabase
         .from('contacts')
         .select('*')
-        .eq('user_id', user.id)
+        .or(ownedByFilter(user.id))
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -305,7 +306,7 @@ const ContactsList = () => {
 
     try {
       console.log(`[ContactsList] Updating contact ${editingContact.id}...`);
-      const { error } = await supabase
+      const { data: changed, error } = await supabase
         .from('contacts')
         .update({
           name: editForm.name.trim(),
@@ -315,9 +316,10 @@ const ContactsList = () => {
           status: editForm.status
         })
         .eq('id', editingContact.id)
-        .eq('user_id', user.id);
+        .select('id');
 
       if (error) throw error;
+      expectChangedRows(changed, 'contact');
 
       // Update the embeddings for the contact after updating its data
       console.log(`[ContactsList] Contact ${editingContact.id} updated, now updating embeddings...`);
@@ -350,13 +352,14 @@ const ContactsList = () => {
     if (!deletingContact || !user) return;
 
     try {
-      const { error } = await supabase
+      const { data: changed, error } = await supabase
         .from('contacts')
         .delete()
         .eq('id', deletingContact.id)
-        .eq('user_id', user.id);
+        .select('id');
 
       if (error) throw error;
+      expectChangedRows(changed, 'contact');
 
       toast({
         title: "Contact deleted",
@@ -348,7 +348,7 @@ const CustomerPersonaBuilder = () => {
                 <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-center space-x-2">
                   <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0" />
                   <p className="text-yellow-700 text-sm">
-                    OpenAI API key not configured. Please add VITE_OPENAI_API_KEY to your .env file to enable AI persona generation.
+                    OpenAI API key not configured. Please deploy the AI gateway functions with OPENAI_API_KEY set to enable AI persona generation.
                   </p>
                 </div>
               )}
@@ -553,7 +553,7 @@ const CustomerPersonaBuilder = () => {
                 <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-center space-x-2">
                   <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0" />
                   <p className="text-yellow-700 text-sm">
-                    OpenAI API key not configured. Please add VITE_OPENAI_API_KEY to your .env file to enable AI persona matching.
+                    OpenAI API key not configured. Please deploy the AI gateway functions with OPENAI_API_KEY set to enable AI persona matching.
                   </p>
                 </div>
               )}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,6 +10,9 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery } from '@tanstack/react-query';
 import { useDealEmbeddings } from '@/hooks/useDealEmbeddings';
+import { usePipelines } from '@/hooks/usePipelines';
+import { getStageNames, getStageOutcome, getStageProbability } from '@/lib/pipelines';
+import { FORECAST_CATEGORIES, resolveForecastCategory } from '@/lib/forecast';
 
 interface DealFormProps {
   open: boolean;
@@ -21,16 +24,20 @@ const DealForm = ({ open, onOpenChange, onDealCreated }: DealFormProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
   const { handleDealCreated } = useDealEmbeddings();
+  const { pipelines, defaultPipeline } = usePipelines();
   const [isLoading, setIsLoading] = useState(false);
   const [formData, setFormData] = useState({
     title: '',
     company: '',
     value: '',
-    stage: 'Discovery',
+    pipeline_id: '',
+    stage: '',
     contact_id: '',
     contact_name: '',
     next_step: '',
-    deal_status: 'in_progress'
+    deal_status: 'in_progress',
+    expected_close_date: '',
+    forecast_category: 'pipeline'
   });
 
   // Fetch contacts for dropdown
@@ -48,6 +55,19 @@ const DealForm = ({ open, onOpenChange, onDealCreated }: DealFormProps) => {
     enabled: !!user && open,
   });
 
+  const selectedPipeline = pipelines.find(pipeline => pipeline.id === formData.pipeline_id) || defaultPipeline;
+
+  // Start new deals in the first stage of the default pipeline
+  useEffect(() => {
+    if (defaultPipeline && !formData.pipeline_id) {
+      setFormData(prev => ({
+        ...prev,
+        pipeline_id: defaultPipeline.id,
+        stage: getStageNames(defaultPipeline)[0] || ''
+      }));
+    }
+  }, [defaultPipeline, formData.pipeline_id]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
@@ -110,11 +130,15 @@ const DealForm = ({ open, onOpenChange, onDealCreated }: DealFormProps) => {
           title: formData.title,
           company: formData.company,
           value: parseFloat(formData.value) || 0,
+          pipeline_id: selectedPipeline?.id || null,
           stage: formData.stage,
+          probability: getStageProbability(selectedPipeline, formData.stage),
           contact_id: formData.contact_id,
           contact_name: formData.contact_name,
           next_step: formData.next_step,
-          outcome: formData.deal_status
+          outcome: formData.deal_status,
+          expected_close_date: formData.expected_close_date || null,
+          forecast_category: resolveForecastCategory(formData.forecast_category, formData.deal_status)
         })
         .select('id')
         .single();
@@ -145,11 +169,14 @@ const DealForm = ({ open, onOpenChange, onDealCreated }: DealFormProps) => {
         title: '',
         company: '',
         value: '',
-        stage: 'Discovery',
+        pipeline_id: defaultPipeline?.id || '',
+        stage: getStageNames(defaultPipeline)[0] || '',
         contact_id: '',
         contact_name: '',
         next_step: '',
-        deal_status: 'in_progress'
+        deal_status: 'in_progress',
+        expected_close_date: '',
+        forecast_category: 'pipeline'
       });
 
       onDealCreated();
@@ -169,6 +196,25 @@ const DealForm = ({ open, onOpenChange, onDealCreated }: DealFormProps) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const handlePipelineChange = (pipelineId: string) => {
+    const pipeline = pipelines.find(p => p.id === pipelineId);
+    setFormData(prev => ({
+      ...prev,
+      pipeline_id: pipelineId,
+      stage: getStageNames(pipeline)[0] || '',
+      deal_status: 'in_progress'
+    }));
+  };
+
+  // Won/lost stages set the deal status so the two never disagree
+  const handleStageChange = (stage: string) => {
+    setFormData(prev => ({
+      ...prev,
+      stage,
+      deal_status: getStageOutcome(selectedPipeline, stage)
+    }));
+  };
+
   const handleContactChange = (contactId: string) => {
     const selectedContact = contacts.find(contact => contact.id === contactId);
     setFormData(prev => ({ 
@@ -241,20 +287,37 @@ const DealForm = ({ open, onOpenChange, onDealCreated }: DealFormProps) => {
                 placeholder="50000"
               />
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="pipeline">Pipeline</Label>
+              <Select value={selectedPipeline?.id || ''} onValueChange={handlePipelineChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a pipeline" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pipelines.map((pipeline) => (
+                    <SelectItem key={pipeline.id} value={pipeline.id}>
+                      {pipeline.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="stage">Stage</Label>
-              <Select value={formData.stage} onValueChange={(value) => handleChange('stage', value)}>
+              <Select value={formData.stage} onValueChange={handleStageChange}>
                 <SelectTrigger>
-                  <SelectValue />
+                  <SelectValue placeholder="Select a stage" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="Discovery">Discovery</SelectItem>
-                  <SelectItem value="Proposal">Proposal</SelectItem>
-                  <SelectItem value="Negotiation">Negotiation</SelectItem>
-                  <SelectItem value="Closing">Closing</SelectItem>
+                  {getStageNames(selectedPipeline).map((stage) => (
+                    <SelectItem key={stage} value={stage}>
+                      {stage} ({getStageProbability(selectedPipeline, stage)}%)
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -274,6 +337,38 @@ const DealForm = ({ open, onOpenChange, onDealCreated }: DealFormProps) => {
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="expected_close_date">Expected Close</Label>
+              <Input
+                id="expected_close_date"
+                type="date"
+                value={formData.expected_close_date}
+                onChange={(e) => handleChange('expected_close_date', e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="forecast_category">Forecast Category</Label>
+              <Select
+                value={resolveForecastCategory(formData.forecast_category, formData.deal_status)}
+                onValueChange={(value) => handleChange('forecast_category', value)}
+                disabled={formData.deal_status === 'won'}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORECAST_CATEGORIES.filter(category => category.value !== 'closed' || formData.deal_status === 'won').map((category) => (
+                    <SelectItem key={category.value} value={category.value}>
+                      {category.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="next_step">Next Step</Label>
             <Textarea
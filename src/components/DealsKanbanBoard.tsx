@@ -0,0 +1,175 @@
+import { useState, type DragEvent } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Edit, User } from 'lucide-react';
+import { findStage, type Pipeline } from '@/lib/pipelines';
+
+export interface KanbanDeal {
+  id: string;
+  title: string;
+  company: string;
+  value: number | null;
+  stage: string;
+  contact_name: string;
+  deal_status: string;
+  probability?: number | null;
+}
+
+interface DealsKanbanBoardProps<T extends KanbanDeal> {
+  pipeline: Pipeline;
+  deals: T[];
+  onMoveDeal: (deal: T, stage: string) => void;
+  onEditDeal?: (deal: T) => void;
+}
+
+interface BoardColumn<T> {
+  stage: string;
+  outcome: 'won' | 'lost' | null;
+  deals: T[];
+  value: number;
+  weightedValue: number;
+}
+
+// Cards in stages the pipeline no longer has are collected here and cannot be dropped onto
+const OTHER_STAGES_COLUMN = '__other__';
+
+const formatCurrency = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+const DealsKanbanBoard = <T extends KanbanDeal>({ pipeline, deals, onMoveDeal, onEditDeal }: DealsKanbanBoardProps<T>) => {
+  const [draggingDealId, setDraggingDealId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const columns: BoardColumn<T>[] = pipeline.stages.map(stage => ({
+    stage: stage.name,
+    outcome: stage.outcome,
+    deals: [],
+    value: 0,
+    weightedValue: 0
+  }));
+  const otherColumn: BoardColumn<T> = { stage: OTHER_STAGES_COLUMN, outcome: null, deals: [], value: 0, weightedValue: 0 };
+
+  deals.forEach(deal => {
+    const stage = findStage(pipeline, deal.stage);
+    const column = (stage && columns.find(c => c.stage === stage.name)) || otherColumn;
+    // Weighted value uses the deal's own probability, or the stage default when unset
+    const probability = deal.probability ?? stage?.probability ?? 0;
+    const value = deal.value ?? 0;
+    column.deals.push(deal);
+    column.value += value;
+    column.weightedValue += value * (probability / 100);
+  });
+
+  const visibleColumns = otherColumn.deals.length > 0 ? [...columns, otherColumn] : columns;
+
+  const handleDragStart = (event: DragEvent<HTMLDivElement>, deal: T) => {
+    event.dataTransfer.setData('text/plain', deal.id);
+    event.dataTransfer.effectAllowed = 'move';
+    setDraggingDealId(deal.id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingDealId(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>, stage: string) => {
+    if (stage === OTHER_STAGES_COLUMN) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    if (dropTarget !== stage) setDropTarget(stage);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>, stage: string) => {
+    event.preventDefault();
+    const dealId = event.dataTransfer.getData('text/plain') || draggingDealId;
+    const deal = deals.find(d => d.id === dealId);
+    handleDragEnd();
+
+    if (deal && findStage(pipeline, deal.stage)?.name !== stage) {
+      onMoveDeal(deal, stage);
+    }
+  };
+
+  const getColumnAccent = (column: BoardColumn<T>) => {
+    if (column.outcome === 'won') return 'border-t-green-500';
+    if (column.outcome === 'lost') return 'border-t-red-500';
+    if (column.stage === OTHER_STAGES_COLUMN) return 'border-t-slate-300';
+    return 'border-t-blue-500';
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {visibleColumns.map(column => (
+        <div
+          key={column.stage}
+          className={`flex-shrink-0 w-72 rounded-lg border border-t-4 bg-slate-50 transition-colors ${getColumnAccent(column)} ${
+            dropTarget === column.stage ? 'bg-blue-50 border-blue-300' : 'border-slate-200'
+          }`}
+          onDragOver={(e) => handleDragOver(e, column.stage)}
+          onDragLeave={() => setDropTarget(prev => (prev === column.stage ? null : prev))}
+          onDrop={(e) => handleDrop(e, column.stage)}
+        >
+          <div className="p-3 border-b border-slate-200">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-slate-900 truncate">
+                {column.stage === OTHER_STAGES_COLUMN ? 'Other stages' : column.stage}
+              </h3>
+              <Badge variant="outline">{column.deals.length}</Badge>
+            </div>
+            <div className="mt-1 flex items-center justify-between text-xs text-slate-600">
+              <span>{formatCurrency(column.value)}</span>
+              <span title="Weighted by probability">Weighted {formatCurrency(column.weightedValue)}</span>
+            </div>
+          </div>
+
+          <div className="p-2 space-y-2 min-h-[120px]">
+            {column.deals.map(deal => (
+              <Card
+                key={deal.id}
+                draggable
+                onDragStart={(e) => handleDragStart(e, deal)}
+                onDragEnd={handleDragEnd}
+                className={`cursor-grab active:cursor-grabbing border border-slate-200 hover:shadow-md transition-all ${
+                  draggingDealId === deal.id ? 'opacity-50' : ''
+                }`}
+              >
+                <CardContent className="p-3 space-y-1">
+                  <div className="flex items-start justify-between gap-2">
+                    <h4 className="text-sm font-medium text-slate-900 leading-tight">{deal.title}</h4>
+                    {onEditDeal && (
+                      <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={() => onEditDeal(deal)}>
+                        <Edit className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                  {deal.company && <p className="text-xs text-slate-600">{deal.company}</p>}
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="font-semibold text-slate-900">{formatCurrency(deal.value ?? 0)}</span>
+                    {deal.probability !== null && deal.probability !== undefined && (
+                      <span className="text-slate-500">{deal.probability}%</span>
+                    )}
+                  </div>
+                  {column.stage === OTHER_STAGES_COLUMN && (
+                    <Badge variant="outline" className="text-xs">{deal.stage || 'Unstaged'}</Badge>
+                  )}
+                  {deal.contact_name && (
+                    <div className="flex items-center space-x-1 text-xs text-slate-500">
+                      <User className="w-3 h-3" />
+                      <span>{deal.contact_name}</span>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+            {column.deals.length === 0 && (
+              <p className="text-xs text-slate-400 text-center py-6">Drop deals here</p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DealsKanbanBoard;
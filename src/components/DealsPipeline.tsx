@@ -7,8 +7,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Progress } from '@/components/ui/progress';
-import { TrendingUp, DollarSign, Target, Calendar, User, MessageSquare, Plus, Search, Filter, ArrowUpDown, SortAsc, SortDesc, Edit, Trash2, Zap, Brain, Sparkles, TrendingDown, AlertTriangle, CheckCircle, Phone, Mail, Users, FileText, AlertCircle } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { TrendingUp, DollarSign, Target, Calendar, User, MessageSquare, Plus, Search, Filter, ArrowUpDown, SortAsc, SortDesc, Edit, Trash2, Zap, Brain, Sparkles, TrendingDown, AlertTriangle, CheckCircle, Phone, Mail, Users, FileText, AlertCircle, Settings, List, Kanban } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { expectChangedRows, ownedByFilter } from '@/lib/teams';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
@@ -17,9 +19,16 @@ import SemanticSearchDialog from './SemanticSearchDialog';
 import { batchProcessDealsForEmbeddings, analyzeDealSimilarity, type DealSimilarityResponse } from '@/lib/ai';
 import ActivityForm from './ActivityForm';
 import EmailComposer from './EmailComposer';
+import EmailThreadView from './EmailThreadView';
+import CommentThread from './CommentThread';
 import ObjectionHandler from './ObjectionHandler';
 import { type DealCoachRecommendation } from '@/lib/ai/types';
 import { useDealEmbeddings } from '@/hooks/useDealEmbeddings';
+import { usePipelines } from '@/hooks/usePipelines';
+import PipelineSettings from './PipelineSettings';
+import DealsKanbanBoard from './DealsKanbanBoard';
+import { findStage, getCombinedStageNames, getDefaultPipeline, getPipelineForDeal, getStageIndex, getStageNames, getStageOutcome, getStageProbability } from '@/lib/pipelines';
+import { FORECAST_CATEGORIES, resolveForecastCategory } from '@/lib/forecast';
 
 interface Deal {
   id: string;
@@ -35,6 +44,10 @@ interface Deal {
   contact_id?: string;
   activities_count?: number;
   outcome?: string;
+  pipeline_id?: string | null;
+  probability?: number | null;
+  expected_close_date?: string | null;
+  forecast_category?: string;
 }
 
 interface Activity {
@@ -55,6 +68,7 @@ interface DealsPipelineProps {
 
 type SortField = 'title' | 'company' | 'value' | 'stage' | 'created_at';
 type SortDirection = 'asc' | 'desc';
+type ViewMode = 'list' | 'board';
 
 interface DealActivitiesCount {
   [dealId: string]: number;
@@ -78,12 +92,16 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { handleDealUpdated } = useDealEmbeddings();
+  const { pipelines } = usePipelines();
+  const [showPipelineSettings, setShowPipelineSettings] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [searchTerm, setSearchTerm] = useState('');
   const [showDealForm, setShowDealForm] = useState(false);
   const [editingDeal, setEditingDeal] = useState<Deal | null>(null);
   const [deletingDeal, setDeletingDeal] = useState<Deal | null>(null);
   const [sortField, setSortField] = useState<SortField>('created_at');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [pipelineFilter, setPipelineFilter] = useState<string>('all');
   const [stageFilter, setStageFilter] = useState<string>('all');
   const [valueFilter, setValueFilter] = useState<string>('all');
   const [outcomeFilter, setOutcomeFilter] = useState<string>('all');
@@ -93,8 +111,11 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
     title: '',
     company: '',
     value: '',
-    stage: 'Discovery',
-    deal_status: 'in_progress'
+    pipeline_id: '',
+    stage: '',
+    deal_status: 'in_progress',
+    expected_close_date: '',
+    forecast_category: 'pipeline'
   });
 
   // AI Embedding state
@@ -139,7 +160,7 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
       const { data, error } = await supabase
         .from('deals')
         .select('*')
-        .eq('user_id', user.id)
+        .or(ownedByFilter(user.id))
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -156,14 +177,18 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
         title: deal.title,
         company: deal.company || '',
         value: Number(deal.value),
-        stage: deal.stage || 'Discovery',
+        stage: deal.stage || '',
         contact_name: deal.contact_name || '',
         last_activity: deal.last_activity ? new Date(deal.last_activity).toLocaleDateString() : 'No activity',
         next_step: deal.next_step || 'Follow up required',
         created_at: deal.created_at,
         deal_status: deal.outcome || 'in_progress',
         contact_id: deal.contact_id,
-        outcome: deal.outcome
+        outcome: deal.outcome,
+        pipeline_id: deal.pipeline_id,
+        probability: deal.probability,
+        expected_close_date: deal.expected_close_date,
+        forecast_category: deal.forecast_category
       }));
 
       // Fetch activity counts for all deals
@@ -240,6 +265,11 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
       });
     }
 
+    // Pipeline filter
+    if (pipelineFilter !== 'all') {
+      filtered = filtered.filter(deal => getPipelineForDeal(pipelines, deal)?.id === pipelineFilter);
+    }
+
     // Stage filter
     if (stageFilter !== 'all') {
       filtered = filtered.filter(deal => deal.stage === stageFilter);
@@ -284,9 +314,8 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
             bValue = b.value;
             break;
           case 'stage':
-            const stageOrder = { 'Discovery': 1, 'Proposal': 2, 'Negotiation': 3, 'Closing': 4 };
-            aValue = stageOrder[a.stage as keyof typeof stageOrder] || 0;
-            bValue = stageOrder[b.stage as keyof typeof stageOrder] || 0;
+            aValue = getStageIndex(getPipelineForDeal(pipelines, a), a.stage);
+            bValue = getStageIndex(getPipelineForDeal(pipelines, b), b.stage);
             break;
           case 'created_at':
             aValue = new Date(a.created_at);
@@ -303,7 +332,30 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
     }
 
     return filtered;
-  }, [deals, searchTerm, stageFilter, valueFilter, outcomeFilter, sortField, sortDirection]);
+  }, [deals, pipelines, searchTerm, pipelineFilter, stageFilter, valueFilter, outcomeFilter, sortField, sortDirection]);
+
+  // Stage filter options follow the selected pipeline, or every pipeline's stages
+  const stageFilterOptions = useMemo(() => {
+    if (pipelineFilter === 'all') {
+      return getCombinedStageNames(pipelines);
+    }
+    return getStageNames(pipelines.find(pipeline => pipeline.id === pipelineFilter));
+  }, [pipelines, pipelineFilter]);
+
+  const editPipeline = pipelines.find(pipeline => pipeline.id === editForm.pipeline_id);
+
+  // The board shows one pipeline at a time: the filtered one, otherwise the default
+  const boardPipeline = pipelines.find(pipeline => pipeline.id === pipelineFilter) || getDefaultPipeline(pipelines);
+  const boardDeals = useMemo(
+    () => filteredAndSortedDeals.filter(deal => getPipelineForDeal(pipelines, deal)?.id === boardPipeline?.id),
+    [filteredAndSortedDeals, pipelines, boardPipeline]
+  );
+
+  const handleViewModeChange = (mode: ViewMode) => {
+    setViewMode(mode);
+    // Columns already split deals by stage, so a stage filter would only hide columns
+    if (mode === 'board') setStageFilter('all');
+  };
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -316,6 +368,7 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
 
   const clearFilters = () => {
     setSearchTerm('');
+    setPipelineFilter('all');
     setStageFilter('all');
     setValueFilter('all');
     setOutcomeFilter('all');
@@ -329,28 +382,55 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
       title: deal.title,
       company: deal.company,
       value: deal.value.toString(),
+      pipeline_id: getPipelineForDeal(pipelines, deal)?.id || '',
       stage: deal.stage,
-      deal_status: deal.deal_status
+      deal_status: deal.deal_status,
+      expected_close_date: deal.expected_close_date || '',
+      forecast_category: deal.forecast_category || 'pipeline'
     });
   };
 
+  const handleEditPipelineChange = (pipelineId: string) => {
+    const pipeline = pipelines.find(p => p.id === pipelineId);
+    // Keep the stage if the new pipeline has one with the same name
+    const stage = findStage(pipeline, editForm.stage)?.name || getStageNames(pipeline)[0] || '';
+    setEditForm({
+      ...editForm,
+      pipeline_id: pipelineId,
+      stage,
+      deal_status: getStageOutcome(pipeline, stage)
+    });
+  };
+
+  const handleEditStageChange = (stage: string) => {
+    setEditForm({ ...editForm, stage, deal_status: getStageOutcome(editPipeline, stage) });
+  };
+
   const handleSaveEdit = async () => {
     if (!editingDeal || !user) return;
 
     try {
-      const { error } = await supabase
+      const { data: changed, error } = await supabase
         .from('deals')
         .update({
           title: editForm.title,
           company: editForm.company,
           value: parseFloat(editForm.value) || 0,
+          pipeline_id: editForm.pipeline_id || null,
           stage: editForm.stage,
-          outcome: editForm.deal_status
+          // Only reset the probability when the deal moved to another stage
+          ...(editForm.stage !== editingDeal.stage || editForm.pipeline_id !== editingDeal.pipeline_id
+            ? { probability: getStageProbability(editPipeline, editForm.stage) }
+            : {}),
+          outcome: editForm.deal_status,
+          expected_close_date: editForm.expected_close_date || null,
+          forecast_category: resolveForecastCategory(editForm.forecast_category, editForm.deal_status)
         })
         .eq('id', editingDeal.id)
-        .eq('user_id', user.id);
+        .select('id');
 
       if (error) throw error;
+      expectChangedRows(changed, 'deal');
 
       // Update the deal embeddings
       console.log(`[DealsPipeline] Deal updated with ID: ${editingDeal.id}, now updating embeddings...`);
@@ -379,17 +459,92 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
     }
   };
 
+  // Drag-and-drop on the board: move the deal, reset its probability and log the change
+  const handleMoveDeal = async (deal: Deal, stage: string) => {
+    if (!user) return;
+
+    const pipeline = getPipelineForDeal(pipelines, deal);
+    const probability = getStageProbability(pipeline, stage);
+    const outcome = getStageOutcome(pipeline, stage);
+    const forecastCategory = resolveForecastCategory(deal.forecast_category, outcome);
+    const previousStage = deal.stage || 'Unstaged';
+    const now = new Date().toISOString();
+
+    // Move the card straight away; the refetch below restores server state on failure
+    queryClient.setQueryData(['deals', user.id], (current: Deal[] | undefined) =>
+      current?.map(d => (d.id === deal.id ? { ...d, stage, probability, outcome, deal_status: outcome, forecast_category: forecastCategory } : d))
+    );
+
+    try {
+      const { data: changed, error } = await supabase
+        .from('deals')
+        .update({
+          stage,
+          probability,
+          outcome,
+          forecast_category: forecastCategory,
+          pipeline_id: pipeline?.id || null,
+          last_activity: now
+        })
+        .eq('id', deal.id)
+        .select('id');
+
+      if (error) throw error;
+      expectChangedRows(changed, 'deal');
+
+      const { error: activityError } = await supabase
+        .from('activities')
+        .insert({
+          user_id: user.id,
+          type: 'note',
+          subject: `Stage changed: ${previousStage} → ${stage}`,
+          description: `"${deal.title}" moved from ${previousStage} to ${stage} (probability ${probability ?? 0}%).`,
+          status: 'completed',
+          priority: 'low',
+          completed_at: now,
+          contact_id: deal.contact_id || null,
+          deal_id: deal.id
+        });
+
+      if (activityError) {
+        console.error('[DealsPipeline] Error logging stage change activity:', activityError);
+      }
+
+      console.log(`[DealsPipeline] Deal ${deal.id} moved to ${stage}, now updating embeddings...`);
+      try {
+        await handleDealUpdated(deal.id);
+      } catch (embeddingError) {
+        console.error('[DealsPipeline] Error updating deal embeddings after stage change:', embeddingError);
+        // Don't fail the operation if embedding update fails
+      }
+
+      toast({
+        title: "Deal moved",
+        description: `"${deal.title}" is now in ${stage}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error moving deal",
+        description: error instanceof Error ? error.message : 'Failed to update the deal stage',
+        variant: "destructive",
+      });
+    } finally {
+      refetch();
+    }
+  };
+
   const handleDelete = async () => {
     if (!deletingDeal || !user) return;
 
     try {
-      const { error } = await supabase
+      const { data: changed, error } = await supabase
         .from('deals')
         .delete()
         .eq('id', deletingDeal.id)
-        .eq('user_id', user.id);
+        .select('id');
 
       if (error) throw error;
+      expectChangedRows(changed, 'deal');
 
       toast({
         title: "Deal deleted",
@@ -432,14 +587,18 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
     }, 100);
   };
 
-  const getStageColor = (stage: string) => {
-    switch (stage) {
-      case 'Discovery': return 'text-blue-600';
-      case 'Proposal': return 'text-yellow-600';
-      case 'Negotiation': return 'text-orange-600';
-      case 'Closing': return 'text-green-600';
-      default: return 'text-slate-600';
-    }
+  // Open stages shade from blue to green as they get closer to the end of their pipeline
+  const getStageColor = (deal: Deal) => {
+    const pipeline = getPipelineForDeal(pipelines, deal);
+    const stage = findStage(pipeline, deal.stage);
+    if (!stage) return 'text-slate-600';
+    if (stage.outcome === 'won') return 'text-green-700';
+    if (stage.outcome === 'lost') return 'text-red-600';
+
+    const openStages = getStageNames(pipeline, true);
+    const colors = ['text-blue-600', 'text-yellow-600', 'text-orange-600', 'text-green-600'];
+    const position = openStages.indexOf(stage.name) / Math.max(openStages.length - 1, 1);
+    return colors[Math.round(position * (colors.length - 1))];
   };
 
   const getOutcomeColor = (outcome: string) => {
@@ -551,7 +710,6 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
           contacts(name)
         `)
         .eq('deal_id', dealId)
-        .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -635,7 +793,6 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
         .from('activities')
         .select('*')
         .eq('deal_id', deal.id)
-        .eq('user_id', user?.id)
         .order('created_at', { ascending: false });
       
       if (activitiesError) throw activitiesError;
@@ -739,6 +896,30 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
               </CardDescription>
             </div>
             <div className="flex items-center space-x-3">
+              <div className="flex items-center rounded-md border border-slate-200 p-0.5">
+                <Button
+                  size="sm"
+                  variant={viewMode === 'list' ? 'default' : 'ghost'}
+                  onClick={() => handleViewModeChange('list')}
+                  className="h-8"
+                >
+                  <List className="w-4 h-4 mr-1" />
+                  List
+                </Button>
+                <Button
+                  size="sm"
+                  variant={viewMode === 'board' ? 'default' : 'ghost'}
+                  onClick={() => handleViewModeChange('board')}
+                  className="h-8"
+                >
+                  <Kanban className="w-4 h-4 mr-1" />
+                  Board
+                </Button>
+              </div>
+              <Button variant="outline" onClick={() => setShowPipelineSettings(true)}>
+                <Settings className="w-4 h-4 mr-2" />
+                Manage Pipelines
+              </Button>
               <Button onClick={() => setShowDealForm(true)} className="bg-gradient-to-r from-blue-600 to-purple-600">
                 <Plus className="w-4 h-4 mr-2" />
                 Add Deal
@@ -762,18 +943,39 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
               
               <div className="flex items-center space-x-2">
                 <Filter className="w-4 h-4 text-slate-400" />
-                <Select value={stageFilter} onValueChange={setStageFilter}>
-                  <SelectTrigger className="w-32">
-                    <SelectValue placeholder="Stage" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Stages</SelectItem>
-                    <SelectItem value="Discovery">Discovery</SelectItem>
-                    <SelectItem value="Proposal">Proposal</SelectItem>
-                    <SelectItem value="Negotiation">Negotiation</SelectItem>
-                    <SelectItem value="Closing">Closing</SelectItem>
-                  </SelectContent>
-                </Select>
+                {pipelines.length > 1 && (
+                  <Select
+                    value={pipelineFilter}
+                    onValueChange={(value) => {
+                      setPipelineFilter(value);
+                      setStageFilter('all');
+                    }}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue placeholder="Pipeline" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Pipelines</SelectItem>
+                      {pipelines.map((pipeline) => (
+                        <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                {viewMode === 'list' && (
+                  <Select value={stageFilter} onValueChange={setStageFilter}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue placeholder="Stage" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Stages</SelectItem>
+                      {stageFilterOptions.map((stage) => (
+                        <SelectItem key={stage} value={stage}>{stage}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
 
                 <Select value={valueFilter} onValueChange={setValueFilter}>
                   <SelectTrigger className="w-32">
@@ -799,7 +1001,7 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
                   </SelectContent>
                 </Select>
 
-                {(searchTerm || stageFilter !== 'all' || valueFilter !== 'all' || outcomeFilter !== 'all') && (
+                {(searchTerm || pipelineFilter !== 'all' || stageFilter !== 'all' || valueFilter !== 'all' || outcomeFilter !== 'all') && (
                   <Button variant="outline" size="sm" onClick={clearFilters}>
                     Clear
                   </Button>
@@ -808,38 +1010,49 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
             </div>
 
             {/* Sort Options */}
-            <div className="flex items-center space-x-2 text-sm">
-              <ArrowUpDown className="w-4 h-4 text-slate-400" />
-              <span className="text-slate-600">Sort by:</span>
-              {[
-                { field: 'title', label: 'Title' },
-                { field: 'company', label: 'Company' },
-                { field: 'value', label: 'Value' },
-                { field: 'stage', label: 'Stage' },
-                { field: 'created_at', label: 'Date Added' }
-              ].map(({ field, label }) => (
-                <Button
-                  key={field}
-                  variant={sortField === field ? "default" : "ghost"}
-                  size="sm"
-                  onClick={() => handleSort(field as SortField)}
-                  className="h-8"
-                >
-                  {label}
-                  {sortField === field && (
-                    sortDirection === 'asc' ? <SortAsc className="w-3 h-3 ml-1" /> : <SortDesc className="w-3 h-3 ml-1" />
-                  )}
-                </Button>
-              ))}
-            </div>
+            {viewMode === 'list' && (
+              <div className="flex items-center space-x-2 text-sm">
+                <ArrowUpDown className="w-4 h-4 text-slate-400" />
+                <span className="text-slate-600">Sort by:</span>
+                {[
+                  { field: 'title', label: 'Title' },
+                  { field: 'company', label: 'Company' },
+                  { field: 'value', label: 'Value' },
+                  { field: 'stage', label: 'Stage' },
+                  { field: 'created_at', label: 'Date Added' }
+                ].map(({ field, label }) => (
+                  <Button
+                    key={field}
+                    variant={sortField === field ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => handleSort(field as SortField)}
+                    className="h-8"
+                  >
+                    {label}
+                    {sortField === field && (
+                      sortDirection === 'asc' ? <SortAsc className="w-3 h-3 ml-1" /> : <SortDesc className="w-3 h-3 ml-1" />
+                    )}
+                  </Button>
+                ))}
+              </div>
+            )}
 
             {/* Results Summary */}
             <div className="text-sm text-slate-600">
-              Showing {filteredAndSortedDeals.length} of {deals.length} deals
+              {viewMode === 'board'
+                ? `Showing ${boardDeals.length} of ${deals.length} deals in ${boardPipeline?.name || 'the pipeline'}`
+                : `Showing ${filteredAndSortedDeals.length} of ${deals.length} deals`}
               {searchTerm && ` matching "${searchTerm}"`}
             </div>
 
-            {filteredAndSortedDeals.length === 0 ? (
+            {viewMode === 'board' && boardPipeline && deals.length > 0 ? (
+              <DealsKanbanBoard
+                pipeline={boardPipeline}
+                deals={boardDeals}
+                onMoveDeal={handleMoveDeal}
+                onEditDeal={handleEdit}
+              />
+            ) : filteredAndSortedDeals.length === 0 ? (
               <div className="text-center py-8">
                 <p className="text-slate-600 mb-4">
                   {deals.length === 0 ? "No deals found. Create your first deal to get started!" : "No deals match your search criteria."}
@@ -866,8 +1079,8 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
                             <div className="flex items-center justify-between">
                               <h3 className="font-semibold text-slate-900">{deal.title}</h3>
                               <div className="flex items-center space-x-2">
-                                <Badge className={getStageColor(deal.stage)}>
-                                  {deal.stage}
+                                <Badge className={getStageColor(deal)}>
+                                  {deal.stage || 'Unstaged'}
                                 </Badge>
                                 <Badge className={`${getOutcomeColor(deal.deal_status)} border`}>
                                   {getOutcomeIcon(deal.deal_status)} {deal.deal_status === 'in_progress' ? 'In Progress' : deal.deal_status.charAt(0).toUpperCase() + deal.deal_status.slice(1)}
@@ -1017,17 +1230,29 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
                 type="number"
               />
             </div>
+            <div>
+              <label className="text-sm font-medium">Pipeline</label>
+              <Select value={editForm.pipeline_id} onValueChange={handleEditPipelineChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a pipeline" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pipelines.map((pipeline) => (
+                    <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div>
               <label className="text-sm font-medium">Stage</label>
-              <Select value={editForm.stage} onValueChange={(value) => setEditForm({ ...editForm, stage: value })}>
+              <Select value={editForm.stage} onValueChange={handleEditStageChange}>
                 <SelectTrigger>
-                  <SelectValue />
+                  <SelectValue placeholder="Select a stage" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="Discovery">Discovery</SelectItem>
-                  <SelectItem value="Proposal">Proposal</SelectItem>
-                  <SelectItem value="Negotiation">Negotiation</SelectItem>
-                  <SelectItem value="Closing">Closing</SelectItem>
+                  {getStageNames(editPipeline).map((stage) => (
+                    <SelectItem key={stage} value={stage}>{stage}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -1044,6 +1269,33 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
                 </SelectContent>
               </Select>
             </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium">Expected Close</label>
+                <Input
+                  type="date"
+                  value={editForm.expected_close_date}
+                  onChange={(e) => setEditForm({ ...editForm, expected_close_date: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Forecast Category</label>
+                <Select
+                  value={resolveForecastCategory(editForm.forecast_category, editForm.deal_status)}
+                  onValueChange={(value) => setEditForm({ ...editForm, forecast_category: value })}
+                  disabled={editForm.deal_status === 'won'}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FORECAST_CATEGORIES.filter(category => category.value !== 'closed' || editForm.deal_status === 'won').map(category => (
+                      <SelectItem key={category.value} value={category.value}>{category.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
             <div className="flex justify-end space-x-2">
               <Button variant="outline" onClick={() => setEditingDeal(null)}>
                 Cancel
@@ -1074,6 +1326,12 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
         </AlertDialogContent>
       </AlertDialog>
 
+      <PipelineSettings
+        open={showPipelineSettings}
+        onOpenChange={setShowPipelineSettings}
+        onPipelinesChanged={refetch}
+      />
+
       <DealForm 
         open={showDealForm} 
         onOpenChange={setShowDealForm} 
@@ -1405,97 +1663,119 @@ const DealsPipeline = ({ onSelectDeal }: DealsPipelineProps) => {
               {selectedDealForActivitiesView && `Activities for ${selectedDealForActivitiesView.title}`}
             </DialogTitle>
             <DialogDescription>
-              View and manage activities related to this deal
+              View and manage activities, email conversations and comments related to this deal
             </DialogDescription>
           </DialogHeader>
           
-          <div className="space-y-4">
-            {/* Actions */}
-            <div className="flex justify-between items-center">
-              <div>
-                {selectedDealForActivitiesView && (
-                  <p className="text-sm text-slate-600">
-                    {dealActivitiesCount[selectedDealForActivitiesView.id] || 0} activities found for this deal
-                  </p>
-                )}
-              </div>
-              <Button 
-                onClick={() => {
-                  if (selectedDealForActivitiesView) {
-                    handleAddActivity(selectedDealForActivitiesView);
-                    setShowDealActivities(false);
-                  }
-                }} 
-                className="bg-gradient-to-r from-blue-600 to-purple-600"
-              >
-                <Plus className="w-4 h-4 mr-2" />
-                Add New Activity
-              </Button>
-            </div>
+          <Tabs defaultValue="activities">
+            <TabsList className="grid grid-cols-3 w-full">
+              <TabsTrigger value="activities">Activities</TabsTrigger>
+              <TabsTrigger value="emails">Emails</TabsTrigger>
+              <TabsTrigger value="comments">Comments</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="activities">
+              <div className="space-y-4">
+                {/* Actions */}
+                <div className="flex justify-between items-center">
+                  <div>
+                    {selectedDealForActivitiesView && (
+                      <p className="text-sm text-slate-600">
+                        {dealActivitiesCount[selectedDealForActivitiesView.id] || 0} activities found for this deal
+                      </p>
+                    )}
+                  </div>
+                  <Button 
+                    onClick={() => {
+                      if (selectedDealForActivitiesView) {
+                        handleAddActivity(selectedDealForActivitiesView);
+                        setShowDealActivities(false);
+                      }
+                    }} 
+                    className="bg-gradient-to-r from-blue-600 to-purple-600"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add New Activity
+                  </Button>
+                </div>
             
-            {/* Loading State */}
-            {isLoadingActivities && (
-              <div className="text-center py-8">
-                <div className="animate-spin h-8 w-8 border-2 border-blue-600 border-t-transparent rounded-full mx-auto mb-4"></div>
-                <p className="text-slate-600">Loading activities...</p>
-              </div>
-            )}
+                {/* Loading State */}
+                {isLoadingActivities && (
+                  <div className="text-center py-8">
+                    <div className="animate-spin h-8 w-8 border-2 border-blue-600 border-t-transparent rounded-full mx-auto mb-4"></div>
+                    <p className="text-slate-600">Loading activities...</p>
+                  </div>
+                )}
             
-            {/* Activities List */}
-            {!isLoadingActivities && selectedDealActivities.length === 0 && (
-              <div className="text-center py-8 bg-slate-50 rounded-lg">
-                <p className="text-slate-600">No activities found for this deal</p>
-                <p className="text-sm text-slate-500 mt-2">Add activities to track your interactions</p>
-              </div>
-            )}
+                {/* Activities List */}
+                {!isLoadingActivities && selectedDealActivities.length === 0 && (
+                  <div className="text-center py-8 bg-slate-50 rounded-lg">
+                    <p className="text-slate-600">No activities found for this deal</p>
+                    <p className="text-sm text-slate-500 mt-2">Add activities to track your interactions</p>
+                  </div>
+                )}
             
-            {!isLoadingActivities && selectedDealActivities.length > 0 && (
-              <div className="space-y-3">
-                {selectedDealActivities.map((activity) => (
-                  <Card key={activity.id} className="border border-slate-200">
-                    <CardContent className="p-4">
-                      <div className="flex items-start justify-between">
-                        <div>
-                          <div className="flex items-center space-x-2 mb-1">
-                            <Badge className={`
-                              ${activity.type === 'call' ? 'bg-blue-100 text-blue-800' : 
-                                activity.type === 'email' ? 'bg-purple-100 text-purple-800' :
-                                activity.type === 'meeting' ? 'bg-green-100 text-green-800' :
-                                activity.type === 'task' ? 'bg-yellow-100 text-yellow-800' :
-                                'bg-slate-100 text-slate-800'}
-                            `}>
-                              {activity.type.charAt(0).toUpperCase() + activity.type.slice(1)}
-                            </Badge>
-                            <h4 className="font-medium text-slate-900">{activity.subject}</h4>
-                          </div>
-                          <p className="text-sm text-slate-600 mb-2">
-                            {activity.description || 'No description provided'}
-                          </p>
-                          <div className="flex items-center space-x-3 text-xs text-slate-500">
-                            <div className="flex items-center space-x-1">
-                              <User className="w-3 h-3" />
-                              <span>{activity.contact_name || 'No contact'}</span>
-                            </div>
-                            <div className="flex items-center space-x-1">
-                              <Calendar className="w-3 h-3" />
-                              <span>{new Date(activity.created_at).toLocaleString()}</span>
+                {!isLoadingActivities && selectedDealActivities.length > 0 && (
+                  <div className="space-y-3">
+                    {selectedDealActivities.map((activity) => (
+                      <Card key={activity.id} className="border border-slate-200">
+                        <CardContent className="p-4">
+                          <div className="flex items-start justify-between">
+                            <div>
+                              <div className="flex items-center space-x-2 mb-1">
+                                <Badge className={`
+                                  ${activity.type === 'call' ? 'bg-blue-100 text-blue-800' : 
+                                    activity.type === 'email' ? 'bg-purple-100 text-purple-800' :
+                                    activity.type === 'meeting' ? 'bg-green-100 text-green-800' :
+                                    activity.type === 'task' ? 'bg-yellow-100 text-yellow-800' :
+                                    'bg-slate-100 text-slate-800'}
+                                `}>
+                                  {activity.type.charAt(0).toUpperCase() + activity.type.slice(1)}
+                                </Badge>
+                                <h4 className="font-medium text-slate-900">{activity.subject}</h4>
+                              </div>
+                              <p className="text-sm text-slate-600 mb-2">
+                                {activity.description || 'No description provided'}
+                              </p>
+                              <div className="flex items-center space-x-3 text-xs text-slate-500">
+                                <div className="flex items-center space-x-1">
+                                  <User className="w-3 h-3" />
+                                  <span>{activity.contact_name || 'No contact'}</span>
+                                </div>
+                                <div className="flex items-center space-x-1">
+                                  <Calendar className="w-3 h-3" />
+                                  <span>{new Date(activity.created_at).toLocaleString()}</span>
+                                </div>
+                                <Badge className={`
+                                  ${activity.status === 'completed' ? 'bg-green-100 text-green-800' : 
+                                    activity.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
+                                    'bg-slate-100 text-slate-800'}
+                                `}>
+                                  {activity.status.charAt(0).toUpperCase() + activity.status.slice(1)}
+                                </Badge>
+                              </div>
                             </div>
-                            <Badge className={`
-                              ${activity.status === 'completed' ? 'bg-green-100 text-green-800' : 
-                                activity.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                                'bg-slate-100 text-slate-800'}
-                            `}>
-                              {activity.status.charAt(0).toUpperCase() + activity.status.slice(1)}
-                            </Badge>
                           </div>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                )}
               </div>
-            )}
-          </div>
+            </TabsContent>
+
+            <TabsContent value="emails">
+              {selectedDealForActivitiesView && (
+                <EmailThreadView dealId={selectedDealForActivitiesView.id} />
+              )}
+            </TabsContent>
+
+            <TabsContent value="comments">
+              {selectedDealForActivitiesView && (
+                <CommentThread dealId={selectedDealForActivitiesView.id} />
+              )}
+            </TabsContent>
+          </Tabs>
         </DialogContent>
       </Dialog>
 
@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, GitMerge, RefreshCw, X, CheckCircle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  DEDUPE_ENTITIES,
+  dismissDuplicate,
+  findDuplicateCandidates,
+  getDefaultMergeValues,
+  mergeRecords,
+  type DedupeEntity,
+  type DedupeRecord,
+  type DuplicateCandidate
+} from '@/lib/dedupe';
+
+interface MergeState {
+  candidate: DuplicateCandidate;
+  survivorIndex: 0 | 1;
+  // Which record each field's value is taken from
+  sources: Record<string, 0 | 1>;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  return String(value);
+};
+
+const scoreColor = (score: number) =>
+  score >= 0.9 ? 'bg-red-100 text-red-800' : score >= 0.75 ? 'bg-orange-100 text-orange-800' : 'bg-yellow-100 text-yellow-800';
+
+const DuplicateManager = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [entity, setEntity] = useState<DedupeEntity>('contacts');
+  const [useSemantic, setUseSemantic] = useState(false);
+  const [merge, setMerge] = useState<MergeState | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+
+  const config = DEDUPE_ENTITIES[entity];
+
+  const { data: candidates = [], isLoading, isFetching, refetch } = useQuery({
+    queryKey: ['duplicates', user?.id, entity, useSemantic],
+    queryFn: () => findDuplicateCandidates(user!.id, entity, { semantic: useSemantic && config.semantic }),
+    enabled: !!user,
+    refetchOnWindowFocus: false,
+  });
+
+  const openMerge = (candidate: DuplicateCandidate) => {
+    const [survivor, duplicate] = candidate.records;
+    const defaults = getDefaultMergeValues(entity, survivor, duplicate);
+    setMerge({
+      candidate,
+      survivorIndex: 0,
+      sources: Object.fromEntries(config.fields.map(f => [f.key, defaults[f.key] === survivor[f.key] ? 0 : 1]))
+    });
+  };
+
+  const chooseSurvivor = (index: 0 | 1) => {
+    if (!merge) return;
+    const survivor = merge.candidate.records[index];
+    const duplicate = merge.candidate.records[index === 0 ? 1 : 0];
+    const defaults = getDefaultMergeValues(entity, survivor, duplicate);
+    setMerge({
+      ...merge,
+      survivorIndex: index,
+      sources: Object.fromEntries(config.fields.map(f => [f.key, defaults[f.key] === survivor[f.key] ? index : (index === 0 ? 1 : 0)]))
+    });
+  };
+
+  const handleDismiss = async (candidate: DuplicateCandidate) => {
+    if (!user) return;
+    try {
+      const [a, b] = candidate.records;
+      await dismissDuplicate(user.id, entity, a.id, b.id);
+      queryClient.setQueryData<DuplicateCandidate[]>(
+        ['duplicates', user.id, entity, useSemantic],
+        prev => (prev || []).filter(c => c.key !== candidate.key)
+      );
+      toast({ title: "Marked as not a duplicate" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to dismiss duplicate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!user || !merge) return;
+    const survivor: DedupeRecord = merge.candidate.records[merge.survivorIndex];
+    const duplicate: DedupeRecord = merge.candidate.records[merge.survivorIndex === 0 ? 1 : 0];
+    const values = Object.fromEntries(config.fields.map(f => [f.key, merge.candidate.records[merge.sources[f.key]][f.key] ?? null]));
+
+    setIsMerging(true);
+    try {
+      const result = await mergeRecords(entity, survivor, duplicate, values, user.id);
+      const moved = Object.entries(result.repointed)
+        .filter(([, count]) => count > 0)
+        .map(([table, count]) => `${count} ${table.replace('_', ' ')}`);
+
+      toast({
+        title: "Records merged",
+        description: moved.length > 0 ? `Moved ${moved.join(', ')} to ${String(values.name ?? survivor.name)}.` : `${duplicate.name} was merged into ${survivor.name}.`,
+      });
+      setMerge(null);
+      ['duplicates', entity, 'deals', 'activities', 'dashboard-stats'].forEach(key =>
+        queryClient.invalidateQueries({ queryKey: [key] })
+      );
+    } catch (error) {
+      toast({
+        title: "Merge failed",
+        description: error instanceof Error ? error.message : "Failed to merge records",
+        variant: "destructive",
+      });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Duplicates</h2>
+          <p className="text-slate-600">Find records that describe the same person or company and merge them</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <Select value={entity} onValueChange={(value) => setEntity(value as DedupeEntity)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DEDUPE_ENTITIES) as DedupeEntity[]).map(key => (
+                <SelectItem key={key} value={key}>{DEDUPE_ENTITIES[key].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {config.semantic && (
+            <div className="flex items-center space-x-2">
+              <Switch id="dedupe-semantic" checked={useSemantic} onCheckedChange={setUseSemantic} />
+              <Label htmlFor="dedupe-semantic" className="text-sm">AI similarity</Label>
+            </div>
+          )}
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            Scan
+          </Button>
+        </div>
+      </div>
+
+      <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Copy className="w-5 h-5 mr-2 text-blue-600" />
+            Possible Duplicate {config.label}
+          </CardTitle>
+          <CardDescription>
+            Matched on email, phone{entity === 'companies' ? ', website domain' : ''} and name similarity
+            {config.semantic && useSemantic ? ', plus embedding similarity for the newest records' : ''}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading || (isFetching && candidates.length === 0) ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : candidates.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">
+              <CheckCircle className="w-10 h-10 mx-auto mb-2 text-green-500" />
+              No duplicate {config.label.toLowerCase()} found
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {candidates.map(candidate => (
+                <div key={candidate.key} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border border-slate-200 rounded-lg bg-white">
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium text-slate-900">{candidate.records[0].name}</span>
+                      <span className="text-slate-400">&amp;</span>
+                      <span className="font-medium text-slate-900">{candidate.records[1].name}</span>
+                      <Badge className={scoreColor(candidate.score)}>{Math.round(candidate.score * 100)}% match</Badge>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {candidate.reasons.map(reason => (
+                        <Badge key={reason.signal} variant="outline" className="text-xs">{reason.detail}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => handleDismiss(candidate)}>
+                      <X className="w-4 h-4 mr-1" />
+                      Not a duplicate
+                    </Button>
+                    <Button size="sm" onClick={() => openMerge(candidate)}>
+                      <GitMerge className="w-4 h-4 mr-1" />
+                      Review &amp; Merge
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!merge} onOpenChange={(open) => !open && !isMerging && setMerge(null)}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Merge {config.label}</DialogTitle>
+            <DialogDescription>
+              Pick the record to keep and, for each field, the value it should have. Everything linked to the
+              other record moves to the one you keep, then the other record is deleted.
+            </DialogDescription>
+          </DialogHeader>
+
+          {merge && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-32">Field</TableHead>
+                  {merge.candidate.records.map((record, index) => (
+                    <TableHead key={record.id}>
+                      <button
+                        type="button"
+                        onClick={() => chooseSurvivor(index as 0 | 1)}
+                        className={`w-full text-left px-2 py-1 rounded ${merge.survivorIndex === index ? 'bg-blue-600 text-white' : 'hover:bg-slate-100'}`}
+                      >
+                        {merge.survivorIndex === index ? 'Keep' : 'Merge away'}
+                        <span className="block text-xs opacity-80">
+                          Created {record.created_at ? new Date(record.created_at).toLocaleDateString() : 'unknown'}
+                        </span>
+                      </button>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {config.fields.map(f => (
+                  <TableRow key={f.key}>
+                    <TableCell className="font-medium">{f.label}</TableCell>
+                    {merge.candidate.records.map((record, index) => (
+                      <TableCell key={record.id}>
+                        <button
+                          type="button"
+                          onClick={() => setMerge({ ...merge, sources: { ...merge.sources, [f.key]: index as 0 | 1 } })}
+                          className={`w-full text-left px-2 py-1 rounded border break-words ${
+                            merge.sources[f.key] === index ? 'border-blue-500 bg-blue-50' : 'border-transparent hover:bg-slate-50'
+                          }`}
+                        >
+                          {formatValue(record[f.key])}
+                        </button>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMerge(null)} disabled={isMerging}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={isMerging}>
+              <GitMerge className="w-4 h-4 mr-2" />
+              {isMerging ? 'Merging...' : 'Merge Records'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DuplicateManager;
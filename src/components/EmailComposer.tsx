@@ -4,7 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { Mail, Send, Paperclip, X, Sparkles, Copy, Edit3 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Mail, Send, Paperclip, X, Sparkles, Copy, Edit3, AlertTriangle } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
@@ -13,6 +14,8 @@ import { generateEmailContent, isOpenAIConfigured, EmailGenerationRequest } from
 import { useContactEmbeddings } from '@/hooks/useContactEmbeddings';
 import { useLeadEmbeddings } from '@/hooks/useLeadEmbeddings';
 import { useDealEmbeddings } from '@/hooks/useDealEmbeddings';
+import { loadTemplateContext, renderEmailTemplate } from '@/lib/templates';
+import { assertDelivered, deliverEmail } from '@/lib/emailDelivery';
 
 interface EmailComposerProps {
   open: boolean;
@@ -51,6 +54,7 @@ const EmailComposer = ({
   const [isGeneratingEmail, setIsGeneratingEmail] = useState(false);
   const [generatedContent, setGeneratedContent] = useState<string>('');
   const [showGeneratedContent, setShowGeneratedContent] = useState(false);
+  const [templateId, setTemplateId] = useState('');
 
   // Fetch user profile for signature details
   const { data: userProfile } = useQuery({
@@ -142,6 +146,41 @@ const EmailComposer = ({
     enabled: !!(contactId || leadId || dealId) && open,
   });
   
+  // Active templates to start the email from
+  const { data: templates = [] } = useQuery({
+    queryKey: ['email-templates', user?.id, 'active'],
+    queryFn: async () => {
+      if (!user) return [];
+      const { data, error } = await supabase
+        .from('email_templates')
+        .select('id, name, subject, body')
+        .eq('user_id', user.id)
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user && open,
+  });
+
+  // Records the template's merge fields are filled from
+  const { data: templateContext } = useQuery({
+    queryKey: ['template-context', user?.id, contactId, leadId, dealId],
+    queryFn: () => loadTemplateContext({ userId: user!.id, contactId, leadId, dealId }),
+    enabled: !!user && open,
+  });
+
+  const hasMergeFields = formData.subject.includes('{{') || formData.body.includes('{{');
+  const rendered = hasMergeFields && templateContext ? renderEmailTemplate(formData, templateContext) : null;
+
+  const applyTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+    setTemplateId(id);
+    setFormData(prev => ({ ...prev, subject: template.subject, body: template.body }));
+  };
+
   // Update form data when props change or when contact details are loaded
   useEffect(() => {
     setFormData(prev => ({
@@ -165,6 +204,7 @@ const EmailComposer = ({
           deal_id: dealId || null,
           email_id: `email_${Date.now()}`,
           type: 'sent',
+          recipient_email: emailData.to,
           subject: emailData.subject,
           body: emailData.body,
           sent_at: new Date().toISOString()
@@ -184,6 +224,10 @@ const EmailComposer = ({
           throw new Error(`Failed to save email: ${error.message}`);
         }
 
+        // Deliver through the user's SMTP server; without one the email is only logged
+        const delivery = await deliverEmail(data.id);
+        assertDelivered(delivery);
+
         // Create an activity record based on the context
         let createdActivityId: string | null = null;
         try {
@@ -318,20 +362,22 @@ const EmailComposer = ({
           // Continue with the function even if activity creation fails
         }
 
-        return data;
+        return { ...data, delivery_status: delivery.status };
       } catch (error) {
         console.error("Error saving email:", error);
         throw new Error(`Failed to save email: ${error.message}`);
       }
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['activities'] });
       queryClient.invalidateQueries({ queryKey: ['email-tracking'] });
       onOpenChange(false);
       resetForm();
       toast({
-        title: "Email sent",
-        description: "Your email has been sent successfully.",
+        title: result.delivery_status === 'not_configured' ? "Email logged" : "Email sent",
+        description: result.delivery_status === 'not_configured'
+          ? "Set up SMTP delivery in the Emails tab to send emails from the CRM."
+          : "Your email has been sent successfully.",
       });
     },
     onError: (error: any) => {
@@ -352,6 +398,7 @@ const EmailComposer = ({
       body: ''
     });
     setAttachments([]);
+    setTemplateId('');
     setGeneratedContent('');
     setShowGeneratedContent(false);
   };
@@ -437,6 +484,26 @@ const EmailComposer = ({
       });
       return;
     }
+    if (hasMergeFields) {
+      if (!rendered) {
+        toast({
+          title: "Template not ready",
+          description: "Still loading the records to fill the merge fields. Try again in a moment.",
+          variant: "destructive",
+        });
+        return;
+      }
+      if (rendered.errors.length > 0 || rendered.unresolved.length > 0) {
+        toast({
+          title: "Merge fields need attention",
+          description: [...rendered.errors, ...rendered.unresolved.map(field => `No value for {{${field}}}`)].join('; '),
+          variant: "destructive",
+        });
+        return;
+      }
+      sendEmailMutation.mutate({ ...formData, subject: rendered.subject, body: rendered.body });
+      return;
+    }
     sendEmailMutation.mutate(formData);
   };
 
@@ -486,6 +553,23 @@ const EmailComposer = ({
             </div>
           </div>
 
+          {/* Template */}
+          {templates.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Template</label>
+              <Select value={templateId} onValueChange={applyTemplate}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Start from a template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Subject with AI Generation */}
           <div className="space-y-2">
             <label className="text-sm font-medium">Subject *</label>
@@ -587,6 +671,26 @@ const EmailComposer = ({
             />
           </div>
 
+          {/* Merge field preview */}
+          {rendered && (
+            <Card className={rendered.unresolved.length > 0 || rendered.errors.length > 0 ? 'border-amber-200 bg-amber-50' : 'border-slate-200 bg-slate-50'}>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm">Preview with merge fields filled in</CardTitle>
+                {(rendered.unresolved.length > 0 || rendered.errors.length > 0) && (
+                  <CardDescription className="flex items-start text-amber-700">
+                    <AlertTriangle className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />
+                    {[...rendered.errors, ...rendered.unresolved.map(field => `No value for {{${field}}}`)].join('; ')}.
+                    Add a fallback, e.g. {'{{contact.first_name | "there"}}'}, or fill in the record.
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <p className="text-sm font-medium text-slate-900">{rendered.subject}</p>
+                <pre className="whitespace-pre-wrap text-sm text-slate-700 font-sans max-h-40 overflow-y-auto">{rendered.body}</pre>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Attachments */}
           <div className="space-y-2">
             <label className="text-sm font-medium flex items-center">
@@ -0,0 +1,262 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Send, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import {
+  deleteSmtpSettings,
+  fetchSmtpSettings,
+  saveSmtpSettings,
+  sendTestEmail,
+  type SmtpSettingsInput
+} from '@/lib/emailDelivery';
+
+interface EmailDeliverySettingsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMPTY_SETTINGS: SmtpSettingsInput = {
+  host: '',
+  port: 587,
+  secure: false,
+  username: '',
+  password: '',
+  from_email: '',
+  from_name: '',
+  track_opens: true,
+  track_clicks: true
+};
+
+const EmailDeliverySettings = ({ open, onOpenChange }: EmailDeliverySettingsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<SmtpSettingsInput>(EMPTY_SETTINGS);
+  const [testRecipient, setTestRecipient] = useState('');
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['smtp-settings', user?.id],
+    queryFn: () => fetchSmtpSettings(user!.id),
+    enabled: !!user && open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(settings ? {
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      username: settings.username || '',
+      password: '',
+      from_email: settings.from_email,
+      from_name: settings.from_name || '',
+      track_opens: settings.track_opens,
+      track_clicks: settings.track_clicks
+    } : { ...EMPTY_SETTINGS, from_email: user?.email || '' });
+    setTestRecipient(user?.email || '');
+  }, [open, settings, user]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveSmtpSettings(user!.id, form),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['smtp-settings'] });
+      toast({ title: 'Delivery settings saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error saving delivery settings', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteSmtpSettings(user!.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['smtp-settings'] });
+      toast({ title: 'Delivery settings removed', description: 'Emails will only be logged in the CRM.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error removing delivery settings', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const testMutation = useMutation({
+    mutationFn: () => sendTestEmail(user!.id, testRecipient),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['emails'] });
+      if (result.status === 'sent') {
+        toast({ title: 'Test email sent', description: `Check the inbox of ${testRecipient}.` });
+      } else {
+        toast({
+          title: 'Test email not sent',
+          description: result.status === 'not_configured' ? 'Save your SMTP settings first.' : result.error,
+          variant: 'destructive'
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error sending test email', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Email Delivery</DialogTitle>
+          <DialogDescription>
+            Send emails through your own SMTP server. Without it, emails are only logged in the CRM.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-8 text-center text-slate-500">Loading settings...</div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="smtp-host">SMTP host</Label>
+                <Input
+                  id="smtp-host"
+                  value={form.host}
+                  onChange={(e) => setForm(prev => ({ ...prev, host: e.target.value }))}
+                  placeholder="smtp.example.com"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="smtp-port">Port</Label>
+                <Input
+                  id="smtp-port"
+                  type="number"
+                  value={form.port}
+                  onChange={(e) => setForm(prev => ({ ...prev, port: Number(e.target.value) }))}
+                  required
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="smtp-secure"
+                checked={form.secure}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, secure: checked, port: checked ? 465 : 587 }))}
+              />
+              <Label htmlFor="smtp-secure">Use TLS from the start (port 465)</Label>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="smtp-username">Username</Label>
+                <Input
+                  id="smtp-username"
+                  value={form.username}
+                  onChange={(e) => setForm(prev => ({ ...prev, username: e.target.value }))}
+                  autoComplete="off"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="smtp-password">Password</Label>
+                <Input
+                  id="smtp-password"
+                  type="password"
+                  value={form.password}
+                  onChange={(e) => setForm(prev => ({ ...prev, password: e.target.value }))}
+                  placeholder={settings ? 'Leave blank to keep' : ''}
+                  autoComplete="new-password"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="smtp-from-email">From address</Label>
+                <Input
+                  id="smtp-from-email"
+                  type="email"
+                  value={form.from_email}
+                  onChange={(e) => setForm(prev => ({ ...prev, from_email: e.target.value }))}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="smtp-from-name">From name</Label>
+                <Input
+                  id="smtp-from-name"
+                  value={form.from_name}
+                  onChange={(e) => setForm(prev => ({ ...prev, from_name: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-6">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="smtp-track-opens"
+                  checked={form.track_opens}
+                  onCheckedChange={(checked) => setForm(prev => ({ ...prev, track_opens: checked }))}
+                />
+                <Label htmlFor="smtp-track-opens">Track opens</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="smtp-track-clicks"
+                  checked={form.track_clicks}
+                  onCheckedChange={(checked) => setForm(prev => ({ ...prev, track_clicks: checked }))}
+                />
+                <Label htmlFor="smtp-track-clicks">Track link clicks</Label>
+              </div>
+            </div>
+
+            {settings && (
+              <div className="space-y-2 rounded-md border p-3">
+                <Label htmlFor="smtp-test-recipient">Send a test email</Label>
+                <div className="flex space-x-2">
+                  <Input
+                    id="smtp-test-recipient"
+                    type="email"
+                    value={testRecipient}
+                    onChange={(e) => setTestRecipient(e.target.value)}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => testMutation.mutate()}
+                    disabled={!testRecipient || testMutation.isPending}
+                  >
+                    <Send className="w-4 h-4 mr-1" />
+                    {testMutation.isPending ? 'Sending...' : 'Send'}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <DialogFooter className="gap-2">
+              {settings && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => deleteMutation.mutate()}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Remove
+                </Button>
+              )}
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EmailDeliverySettings;
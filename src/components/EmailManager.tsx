@@ -27,7 +27,9 @@ import {
   Brain,
   Clock,
   AlertCircle,
-  TrendingUp
+  TrendingUp,
+  Settings,
+  Download
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
@@ -41,6 +43,11 @@ import {
   EmailSummaryRequest,
   EmailSummaryResponse
 } from '@/lib/ai';
+import { DELIVERY_STATUS_LABELS, assertDelivered, deliverEmail, type DeliveryStatus } from '@/lib/emailDelivery';
+import EmailDeliverySettings from '@/components/EmailDeliverySettings';
+import { fetchImapSettings, syncInbox } from '@/lib/emailSync';
+import { uploadEmailAttachments } from '@/lib/emailThreads';
+import InboxSyncSettings from '@/components/InboxSyncSettings';
 
 interface Email {
   id: string;
@@ -56,6 +63,10 @@ interface Email {
   importance?: string;
   folder: string;
   type: string;
+  delivery_status?: DeliveryStatus | null;
+  delivery_error?: string | null;
+  opened_at?: string | null;
+  clicked_at?: string | null;
 }
 
 const EmailManager = () => {
@@ -67,6 +78,9 @@ const EmailManager = () => {
   const [selectedEmail, setSelectedEmail] = useState<Email | null>(null);
   const [showComposeDialog, setShowComposeDialog] = useState(false);
   const [showSummaryDialog, setShowSummaryDialog] = useState(false);
+  const [showDeliverySettings, setShowDeliverySettings] = useState(false);
+  const [showInboxSettings, setShowInboxSettings] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [emailSummary, setEmailSummary] = useState<EmailSummaryResponse | null>(null);
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
@@ -218,7 +232,8 @@ const EmailManager = () => {
         return {
           id: email.id,
           subject: email.subject || 'No Subject',
-          recipient: recipientEmail || 'No recipient',
+          // Received emails show who they're from
+          recipient: (email.type === 'received' ? email.sender_email : email.recipient_email) || recipientEmail || 'No recipient',
           sent_at: email.sent_at,
           status: email.read_at ? 'read' : 'unread',
           contact_id: email.contact_id,
@@ -227,13 +242,45 @@ const EmailManager = () => {
           message: email.body || '',
           deal_info: email.deals ? `${email.deals.title} - ${email.deals.company}` : '',
           folder: email.folder,
-          type: email.type
+          type: email.type,
+          delivery_status: email.delivery_status,
+          delivery_error: email.delivery_error,
+          opened_at: email.opened_at,
+          clicked_at: email.clicked_at
         } as Email;
       });
     },
     enabled: !!user,
   });
 
+  // Pull new messages from the mailbox first when inbox sync is set up
+  const refreshEmails = async () => {
+    if (!user) return;
+    setIsSyncing(true);
+    try {
+      const settings = await fetchImapSettings(user.id);
+      if (settings) {
+        const result = await syncInbox();
+        if (result.imported) {
+          toast({
+            title: "Inbox synced",
+            description: `${result.imported} new email${result.imported === 1 ? '' : 's'}${result.replies ? `, ${result.replies} repl${result.replies === 1 ? 'y' : 'ies'} to your emails` : ''}.`,
+          });
+        }
+        queryClient.invalidateQueries({ queryKey: ['activities'] });
+      }
+    } catch (error) {
+      toast({
+        title: "Error syncing inbox",
+        description: error instanceof Error ? error.message : 'Failed to sync inbox',
+        variant: "destructive",
+      });
+    } finally {
+      setIsSyncing(false);
+      refetchEmails();
+    }
+  };
+
   // Filter emails based on active view and search
   const filteredEmails = allEmailsData.filter(email => {
     // Filter based on type (inbox or sent)
@@ -282,6 +329,7 @@ const EmailManager = () => {
           user_id: user?.id,
           contact_id: emailData.contact_id || null,
           email_id: `email_${Date.now()}`, // This is required
+          recipient_email: emailData.recipient,
           subject: emailData.subject,
           body: emailData.message,
           type: 'sent',
@@ -302,6 +350,18 @@ const EmailManager = () => {
           throw new Error(`Failed to send email: ${error.message}`);
         }
 
+        if (attachments.length > 0) {
+          await uploadEmailAttachments(user!.id, data.id, attachments, {
+            contact_id: data.contact_id,
+            lead_id: null,
+            deal_id: null
+          });
+        }
+
+        // Deliver through the user's SMTP server; without one the email is only logged
+        const delivery = await deliverEmail(data.id);
+        assertDelivered(delivery);
+
         // Create an activity record
         await supabase
           .from('activities')
@@ -314,13 +374,13 @@ const EmailManager = () => {
             status: 'completed'
           });
 
-        return data;
+        return { ...data, delivery_status: delivery.status };
       } catch (error) {
         console.error('Error sending email:', error);
         throw error;
       }
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['activities'] });
       queryClient.invalidateQueries({ queryKey: ['emails'] });
       refetchEmails();
@@ -328,11 +388,15 @@ const EmailManager = () => {
       setShowComposeDialog(false);
       setActiveView('sent');
       toast({
-        title: "Email sent",
-        description: "Your email has been sent successfully.",
+        title: result.delivery_status === 'not_configured' ? "Email logged" : "Email sent",
+        description: result.delivery_status === 'not_configured'
+          ? "Set up SMTP delivery to send emails from the CRM."
+          : "Your email has been sent successfully.",
       });
     },
     onError: (error: any) => {
+      // A failed or bounced delivery is still recorded on the email
+      queryClient.invalidateQueries({ queryKey: ['emails'] });
       toast({
         title: "Error sending email",
         description: error.message,
@@ -585,10 +649,27 @@ const EmailManager = () => {
               </Button>
               <Button
                 size="sm"
-                onClick={() => refetchEmails()}
+                onClick={() => setShowDeliverySettings(true)}
+                variant="outline"
+              >
+                <Settings className="w-4 h-4 mr-1" />
+                Delivery
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => setShowInboxSettings(true)}
                 variant="outline"
               >
-                <RefreshCw className="w-4 h-4 mr-1" />
+                <Download className="w-4 h-4 mr-1" />
+                Inbox Sync
+              </Button>
+              <Button
+                size="sm"
+                onClick={refreshEmails}
+                disabled={isSyncing}
+                variant="outline"
+              >
+                <RefreshCw className={`w-4 h-4 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
                 Refresh
               </Button>
               <Button
@@ -680,6 +761,14 @@ const EmailManager = () => {
                           </span>
                         </div>
                         <div className="flex items-center space-x-2">
+                          {email.delivery_status && email.delivery_status !== 'sent' && (
+                            <Badge variant={email.delivery_status === 'sending' ? 'secondary' : 'destructive'} className="text-xs">
+                              {DELIVERY_STATUS_LABELS[email.delivery_status]}
+                            </Badge>
+                          )}
+                          {email.opened_at && (
+                            <Badge variant="outline" className="text-xs">{email.clicked_at ? 'Clicked' : 'Opened'}</Badge>
+                          )}
                           <span className="text-xs text-slate-500 flex-shrink-0">
                             {formatDate(email.sent_at)}
                           </span>
@@ -721,6 +810,14 @@ const EmailManager = () => {
                     {formatDate(selectedEmail.sent_at)}
                   </div>
                 </div>
+                {selectedEmail.delivery_status && (
+                  <div className="text-xs text-slate-500 mt-1">
+                    {DELIVERY_STATUS_LABELS[selectedEmail.delivery_status]}
+                    {selectedEmail.delivery_error && `: ${selectedEmail.delivery_error}`}
+                    {selectedEmail.opened_at && ` · Opened ${formatDate(selectedEmail.opened_at)}`}
+                    {selectedEmail.clicked_at && ` · Clicked ${formatDate(selectedEmail.clicked_at)}`}
+                  </div>
+                )}
               </div>
               <div className="flex items-center space-x-2">
                 {openAIConfigured && (
@@ -765,6 +862,9 @@ const EmailManager = () => {
         </Card>
       )}
 
+      <EmailDeliverySettings open={showDeliverySettings} onOpenChange={setShowDeliverySettings} />
+      <InboxSyncSettings open={showInboxSettings} onOpenChange={setShowInboxSettings} />
+
       {/* Email Summary Dialog */}
       <Dialog open={showSummaryDialog} onOpenChange={setShowSummaryDialog}>
         <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
@@ -8,11 +8,13 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import { Mail, Plus, Edit, Trash2, Send } from 'lucide-react';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Mail, Plus, Edit, Trash2, Send, AlertTriangle } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { MERGE_FIELDS, loadTemplateContext, renderEmailTemplate } from '@/lib/templates';
 
 interface EmailTemplate {
   id: string;
@@ -36,6 +38,9 @@ const EmailTemplates = () => {
     body: '',
     is_active: true
   });
+  // Records the preview is rendered against
+  const [previewContactId, setPreviewContactId] = useState('');
+  const [previewDealId, setPreviewDealId] = useState('');
 
   // Fetch email templates
   const { data: templates, isLoading } = useQuery({
@@ -54,6 +59,44 @@ const EmailTemplates = () => {
     enabled: !!user
   });
 
+  const { data: previewContacts = [] } = useQuery({
+    queryKey: ['template-preview-contacts', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+      const { data, error } = await supabase
+        .from('contacts')
+        .select('id, name')
+        .eq('user_id', user.id)
+        .order('name');
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user && isDialogOpen
+  });
+
+  const { data: previewDeals = [] } = useQuery({
+    queryKey: ['template-preview-deals', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+      const { data, error } = await supabase
+        .from('deals')
+        .select('id, title')
+        .eq('user_id', user.id)
+        .order('title');
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user && isDialogOpen
+  });
+
+  const { data: previewContext } = useQuery({
+    queryKey: ['template-context', user?.id, previewContactId, previewDealId],
+    queryFn: () => loadTemplateContext({ userId: user!.id, contactId: previewContactId || null, dealId: previewDealId || null }),
+    enabled: !!user && isDialogOpen
+  });
+
+  const preview = previewContext ? renderEmailTemplate(formData, previewContext) : null;
+
   // Create template mutation
   const createTemplateMutation = useMutation({
     mutationFn: async (templateData: typeof formData) => {
@@ -116,11 +159,21 @@ const EmailTemplates = () => {
   const resetForm = () => {
     setFormData({ name: '', subject: '', body: '', is_active: true });
     setEditingTemplate(null);
+    setPreviewContactId('');
+    setPreviewDealId('');
     setIsDialogOpen(false);
   };
 
+  const insertMergeField = (field: string) => {
+    setFormData(prev => ({ ...prev, body: `${prev.body}{{${field}}}` }));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (preview && preview.errors.length > 0) {
+      toast({ title: 'Template has errors', description: preview.errors.join('; '), variant: 'destructive' });
+      return;
+    }
     if (editingTemplate) {
       updateTemplateMutation.mutate({ id: editingTemplate.id, data: formData });
     } else {
@@ -163,7 +216,7 @@ const EmailTemplates = () => {
               New Template
             </Button>
           </DialogTrigger>
-          <DialogContent className="max-w-2xl">
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
                 {editingTemplate ? 'Edit Template' : 'Create New Template'}
@@ -189,12 +242,31 @@ const EmailTemplates = () => {
                   id="subject"
                   value={formData.subject}
                   onChange={(e) => setFormData(prev => ({ ...prev, subject: e.target.value }))}
-                  placeholder="e.g., Following up on our conversation"
+                  placeholder="e.g., Following up with {{company.name}}"
                   required
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="body">Email Body</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="body">Email Body</Label>
+                  <Select value="" onValueChange={insertMergeField}>
+                    <SelectTrigger className="w-48 h-8">
+                      <SelectValue placeholder="Insert merge field" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MERGE_FIELDS.map(group => (
+                        <SelectGroup key={group.namespace}>
+                          <SelectLabel>{group.label}</SelectLabel>
+                          {group.fields.map(field => (
+                            <SelectItem key={field.key} value={`${group.namespace}.${field.key}`}>
+                              {field.label}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
                 <Textarea
                   id="body"
                   value={formData.body}
@@ -203,6 +275,52 @@ const EmailTemplates = () => {
                   rows={8}
                   required
                 />
+                <p className="text-xs text-slate-500">
+                  {'Use {{contact.first_name | "there"}} for a fallback and {{#if deal.title}}...{{else}}...{{/if}} for optional text.'}
+                </p>
+              </div>
+              <div className="space-y-2 rounded-md border p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <Label>Preview</Label>
+                  <div className="flex gap-2">
+                    <Select value={previewContactId || 'none'} onValueChange={(value) => setPreviewContactId(value === 'none' ? '' : value)}>
+                      <SelectTrigger className="w-40 h-8">
+                        <SelectValue placeholder="Contact" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No contact</SelectItem>
+                        {previewContacts.map(contact => (
+                          <SelectItem key={contact.id} value={contact.id}>{contact.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={previewDealId || 'none'} onValueChange={(value) => setPreviewDealId(value === 'none' ? '' : value)}>
+                      <SelectTrigger className="w-40 h-8">
+                        <SelectValue placeholder="Deal" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No deal</SelectItem>
+                        {previewDeals.map(deal => (
+                          <SelectItem key={deal.id} value={deal.id}>{deal.title}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {preview && (
+                  <>
+                    <p className="text-sm font-medium text-slate-900">{preview.subject || 'No subject'}</p>
+                    <pre className="whitespace-pre-wrap text-sm text-slate-700 font-sans max-h-48 overflow-y-auto">{preview.body}</pre>
+                    {(preview.errors.length > 0 || preview.unresolved.length > 0) && (
+                      <div className="flex items-start text-xs text-amber-700">
+                        <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                        <span>
+                          {[...preview.errors, ...preview.unresolved.map(field => `No value for {{${field}}}`)].join('; ')}
+                        </span>
+                      </div>
+                    )}
+                  </>
+                )}
               </div>
               <div className="flex items-center space-x-2">
                 <Switch
@@ -0,0 +1,317 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowDownLeft, ArrowUpRight, ChevronDown, ChevronRight, Mail, Paperclip, Send, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { DELIVERY_STATUS_LABELS, type DeliveryStatus } from '@/lib/emailDelivery';
+import {
+  fetchEmailThreads,
+  replyRecipient,
+  sendThreadReply,
+  type EmailAttachment,
+  type EmailThread,
+  type ThreadEmail
+} from '@/lib/emailThreads';
+
+interface EmailThreadViewProps {
+  contactId?: string;
+  leadId?: string;
+  dealId?: string;
+}
+
+const formatSize = (bytes: number | null) => {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Bodies sent from templates can be HTML; the conversation shows them as text
+const bodyText = (body: string | null) =>
+  (body || '').replace(/<br\s*\/?>/gi, '\n').replace(/<\/p>/gi, '\n\n').replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ').trim();
+
+const EmailThreadView = ({ contactId, leadId, dealId }: EmailThreadViewProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expanded, setExpanded] = useState<Set<string> | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [replyFiles, setReplyFiles] = useState<File[]>([]);
+
+  // Under 'emails' so the inbox sync and the email list refresh it
+  const { data: threads = [], isLoading } = useQuery({
+    queryKey: ['emails', 'threads', contactId, leadId, dealId],
+    queryFn: () => fetchEmailThreads(user!.id, { contactId, leadId, dealId }),
+    enabled: !!user && !!(contactId || leadId || dealId),
+  });
+
+  // The latest conversation starts open
+  const expandedKeys = expanded ?? new Set(threads.slice(0, 1).map(thread => thread.key));
+
+  const toggleThread = (key: string) => {
+    const next = new Set(expandedKeys);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setExpanded(next);
+  };
+
+  const resetReply = () => {
+    setReplyingTo(null);
+    setReplyBody('');
+    setReplyFiles([]);
+  };
+
+  const replyMutation = useMutation({
+    mutationFn: (thread: EmailThread) => sendThreadReply(user!.id, thread, replyBody, replyFiles),
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: ['emails'] });
+      queryClient.invalidateQueries({ queryKey: ['activities'] });
+      resetReply();
+      toast({
+        title: delivery.status === 'not_configured' ? 'Reply logged' : 'Reply sent',
+        description: delivery.status === 'not_configured'
+          ? 'Add SMTP settings under Emails → Delivery to send replies from the CRM.'
+          : undefined
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['emails'] });
+      toast({ title: 'Error sending reply', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const downloadAttachment = async (file: EmailAttachment) => {
+    try {
+      const { data, error } = await supabase.storage.from('files').download(file.file_path);
+      if (error) throw error;
+
+      const url = URL.createObjectURL(data);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = file.filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: 'Error downloading attachment',
+        description: error instanceof Error ? error.message : 'Failed to download attachment',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const renderTrackingBadges = (email: ThreadEmail) => {
+    const status = email.delivery_status as DeliveryStatus | null;
+    return (
+      <div className="flex items-center gap-1">
+        {status && status !== 'sent' && (
+          <Badge variant={status === 'sending' ? 'secondary' : 'destructive'} className="text-xs" title={email.delivery_error || undefined}>
+            {DELIVERY_STATUS_LABELS[status]}
+          </Badge>
+        )}
+        {email.opened_at && (
+          <Badge variant="outline" className="text-xs bg-blue-50 text-blue-700">
+            Opened{email.open_count > 1 ? ` ×${email.open_count}` : ''}
+          </Badge>
+        )}
+        {email.clicked_at && (
+          <Badge variant="outline" className="text-xs bg-purple-50 text-purple-700">
+            Clicked{email.click_count > 1 ? ` ×${email.click_count}` : ''}
+          </Badge>
+        )}
+        {email.replied_at && (
+          <Badge variant="outline" className="text-xs bg-green-50 text-green-700">Replied</Badge>
+        )}
+      </div>
+    );
+  };
+
+  const renderMessage = (email: ThreadEmail) => {
+    const inbound = email.type === 'received';
+    return (
+      <div
+        key={email.id}
+        className={`p-3 rounded-lg border ${inbound ? 'bg-white border-slate-200 mr-8' : 'bg-blue-50/60 border-blue-100 ml-8'}`}
+      >
+        <div className="flex items-start justify-between gap-2">
+          <div className="flex items-center text-sm min-w-0">
+            {inbound ? (
+              <ArrowDownLeft className="w-4 h-4 mr-1 text-green-600 flex-shrink-0" />
+            ) : (
+              <ArrowUpRight className="w-4 h-4 mr-1 text-blue-600 flex-shrink-0" />
+            )}
+            <span className="truncate">
+              {inbound
+                ? <>From <span className="font-medium">{email.sender_email || 'unknown sender'}</span></>
+                : <>To <span className="font-medium">{email.recipient_email || 'no recipient'}</span></>}
+            </span>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {!inbound && renderTrackingBadges(email)}
+            <span className="text-xs text-slate-500">
+              {new Date(email.sent_at || email.created_at).toLocaleString()}
+            </span>
+          </div>
+        </div>
+        <p className="text-sm text-slate-700 whitespace-pre-wrap mt-2">{bodyText(email.body) || 'No content'}</p>
+        {email.attachments.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {email.attachments.map(file => (
+              <Button
+                key={file.id}
+                size="sm"
+                variant="outline"
+                className="h-7 text-xs"
+                onClick={() => downloadAttachment(file)}
+              >
+                <Paperclip className="w-3 h-3 mr-1" />
+                {file.filename}
+                {file.file_size ? <span className="ml-1 text-slate-500">({formatSize(file.file_size)})</span> : null}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderReplyBox = (thread: EmailThread) => {
+    const recipient = replyRecipient(thread);
+    if (replyingTo !== thread.key) {
+      return (
+        <Button size="sm" variant="outline" onClick={() => { resetReply(); setReplyingTo(thread.key); }} disabled={!recipient}>
+          <Send className="w-4 h-4 mr-1" />
+          {recipient ? `Reply to ${recipient}` : 'No address to reply to'}
+        </Button>
+      );
+    }
+
+    return (
+      <div className="space-y-2 border rounded-lg p-3 bg-white">
+        <Textarea
+          value={replyBody}
+          onChange={(e) => setReplyBody(e.target.value)}
+          placeholder={`Reply to ${recipient}...`}
+          rows={4}
+          autoFocus
+        />
+        {replyFiles.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {replyFiles.map((file, index) => (
+              <Badge key={index} variant="secondary" className="text-xs">
+                <Paperclip className="w-3 h-3 mr-1" />
+                {file.name}
+                <button
+                  type="button"
+                  className="ml-1"
+                  onClick={() => setReplyFiles(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          <label className="text-sm text-slate-600 flex items-center cursor-pointer">
+            <Paperclip className="w-4 h-4 mr-1" />
+            Attach files
+            <input
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                setReplyFiles(prev => [...prev, ...files]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <div className="flex gap-2">
+            <Button size="sm" variant="ghost" onClick={resetReply} disabled={replyMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => replyMutation.mutate(thread)}
+              disabled={!replyBody.trim() || replyMutation.isPending}
+              className="bg-gradient-to-r from-blue-600 to-purple-600"
+            >
+              <Send className="w-4 h-4 mr-1" />
+              {replyMutation.isPending ? 'Sending...' : 'Send'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center">
+          <Mail className="w-5 h-5 mr-2 text-blue-600" />
+          Email Conversations
+        </CardTitle>
+        <CardDescription>
+          Emails sent and received, grouped into conversations
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-4 text-center">Loading emails...</div>
+        ) : threads.length === 0 ? (
+          <div className="py-4 text-center text-muted-foreground">No emails yet</div>
+        ) : (
+          <div className="space-y-3">
+            {threads.map(thread => {
+              const isOpen = expandedKeys.has(thread.key);
+              const attachmentCount = thread.emails.reduce((count, email) => count + email.attachments.length, 0);
+              return (
+                <div key={thread.key} className="border rounded-lg">
+                  <button
+                    type="button"
+                    className="w-full flex items-center justify-between p-3 text-left hover:bg-slate-50"
+                    onClick={() => toggleThread(thread.key)}
+                  >
+                    <div className="flex items-center min-w-0">
+                      {isOpen ? (
+                        <ChevronDown className="w-4 h-4 mr-2 flex-shrink-0" />
+                      ) : (
+                        <ChevronRight className="w-4 h-4 mr-2 flex-shrink-0" />
+                      )}
+                      <span className="font-medium truncate">{thread.subject}</span>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0 ml-2">
+                      {attachmentCount > 0 && <Paperclip className="w-3 h-3 text-slate-500" />}
+                      <Badge variant="secondary" className="text-xs">{thread.emails.length}</Badge>
+                      <span className="text-xs text-slate-500">
+                        {new Date(thread.lastActivityAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                  </button>
+                  {isOpen && (
+                    <div className="space-y-2 p-3 pt-0">
+                      {thread.emails.map(renderMessage)}
+                      <div className="pt-1">{renderReplyBox(thread)}</div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EmailThreadView;
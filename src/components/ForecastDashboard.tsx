@@ -0,0 +1,425 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ComposedChart, Bar, Line, LineChart, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { LineChart as LineChartIcon, Target, DollarSign, TrendingUp, Camera, Download, CalendarX } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { usePipelines } from '@/hooks/usePipelines';
+import { downloadCSV } from '@/lib/export';
+import {
+  computeForecast,
+  computeForecastDrift,
+  fetchForecastSnapshots,
+  fetchQuotas,
+  getWeekStart,
+  saveForecastSnapshot,
+  saveQuota,
+  type ForecastPeriodType
+} from '@/lib/forecast';
+
+const formatCurrency = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+const ForecastDashboard = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { pipelines } = usePipelines();
+  const [periodType, setPeriodType] = useState<ForecastPeriodType>('quarter');
+  const [driftPeriod, setDriftPeriod] = useState('');
+  const [quotaDrafts, setQuotaDrafts] = useState<Record<string, string>>({});
+  const [savingSnapshot, setSavingSnapshot] = useState(false);
+  const autoSnapshotTaken = useRef<Record<string, boolean>>({});
+
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ['forecast', user?.id],
+    queryFn: async () => {
+      if (!user) return null;
+
+      const [dealsResult, quotas, snapshots] = await Promise.all([
+        supabase.from('deals').select('*').eq('user_id', user.id),
+        fetchQuotas(user.id),
+        fetchForecastSnapshots(user.id)
+      ]);
+
+      if (dealsResult.error) throw dealsResult.error;
+      return { deals: dealsResult.data || [], quotas, snapshots };
+    },
+    enabled: !!user,
+    refetchOnWindowFocus: false,
+  });
+
+  const forecast = useMemo(
+    () => computeForecast(data?.deals || [], periodType, { quotas: data?.quotas || [], pipelines }),
+    [data, periodType, pipelines]
+  );
+
+  const currentPeriod = forecast.periods[0];
+  const selectedDriftPeriod = driftPeriod || currentPeriod?.periodStart || '';
+  const driftData = useMemo(
+    () => computeForecastDrift(data?.snapshots || [], periodType, selectedDriftPeriod),
+    [data, periodType, selectedDriftPeriod]
+  );
+
+  // Take this week's snapshot automatically the first time the forecast is opened
+  useEffect(() => {
+    if (!user || !data || pipelines.length === 0) return;
+    const weekStart = getWeekStart();
+    const key = `${periodType}:${weekStart}`;
+    if (autoSnapshotTaken.current[key]) return;
+    autoSnapshotTaken.current[key] = true;
+
+    const hasSnapshot = data.snapshots.some(s => s.snapshot_date === weekStart && s.period_type === periodType);
+    if (hasSnapshot) return;
+
+    saveForecastSnapshot(user.id, periodType, forecast.periods, weekStart)
+      .then(() => refetch())
+      .catch(error => console.error('Error saving forecast snapshot:', error));
+  }, [user, data, pipelines, periodType, forecast.periods, refetch]);
+
+  const handlePeriodTypeChange = (value: string) => {
+    setPeriodType(value as ForecastPeriodType);
+    setDriftPeriod('');
+    setQuotaDrafts({});
+  };
+
+  const handleSaveQuota = async (periodStart: string) => {
+    if (!user) return;
+    const draft = quotaDrafts[periodStart];
+    const amount = Number(draft);
+    if (draft === undefined || draft === '' || Number.isNaN(amount) || amount < 0) {
+      toast({
+        title: "Invalid quota",
+        description: "Enter a quota of zero or more.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveQuota(user.id, periodType, periodStart, amount);
+      setQuotaDrafts(prev => {
+        const next = { ...prev };
+        delete next[periodStart];
+        return next;
+      });
+      await refetch();
+      toast({
+        title: "Quota saved",
+        description: `Quota set to ${formatCurrency(amount)}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to save quota',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSaveSnapshot = async () => {
+    if (!user) return;
+    setSavingSnapshot(true);
+    try {
+      await saveForecastSnapshot(user.id, periodType, forecast.periods);
+      await refetch();
+      toast({
+        title: "Snapshot saved",
+        description: `Forecast for the week of ${getWeekStart()} recorded.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to save snapshot',
+        variant: "destructive",
+      });
+    } finally {
+      setSavingSnapshot(false);
+    }
+  };
+
+  const exportForecast = () => {
+    downloadCSV(
+      forecast.periods.map(period => ({
+        period: period.label,
+        closed: period.closed,
+        commit: period.commit,
+        best_case: period.bestCase,
+        pipeline: period.pipeline,
+        weighted: period.weighted,
+        quota: period.quota ?? '',
+        attainment_percent: period.attainment ?? '',
+        deals: period.dealCount
+      })),
+      `forecast_${periodType}_${new Date().toISOString().split('T')[0]}.csv`
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const latestDrift = driftData[driftData.length - 1];
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center">
+              <LineChartIcon className="w-5 h-5 mr-2 text-blue-600" />
+              Revenue Forecast
+            </CardTitle>
+            <CardDescription>
+              Weighted pipeline by expected close date, rolled up by forecast category
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Select value={periodType} onValueChange={handlePeriodTypeChange}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="month">Monthly</SelectItem>
+                <SelectItem value="quarter">Quarterly</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={exportForecast}>
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </Button>
+            <Button onClick={handleSaveSnapshot} disabled={savingSnapshot}>
+              <Camera className="w-4 h-4 mr-2" />
+              {savingSnapshot ? 'Saving...' : 'Save Snapshot'}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {/* Current period summary */}
+          {currentPeriod && (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm text-slate-600">Closed ({currentPeriod.label})</p>
+                      <p className="text-2xl font-bold text-green-600">{formatCurrency(currentPeriod.closed)}</p>
+                    </div>
+                    <DollarSign className="w-8 h-8 text-green-600" />
+                  </div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm text-slate-600">Commit</p>
+                      <p className="text-2xl font-bold text-blue-600">{formatCurrency(currentPeriod.commit)}</p>
+                      <p className="text-xs text-slate-500">Best case {formatCurrency(currentPeriod.bestCase)}</p>
+                    </div>
+                    <Target className="w-8 h-8 text-blue-600" />
+                  </div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm text-slate-600">Weighted Forecast</p>
+                      <p className="text-2xl font-bold text-purple-600">{formatCurrency(currentPeriod.weighted)}</p>
+                      {latestDrift?.weightedChange !== null && latestDrift?.weightedChange !== undefined && (
+                        <p className={`text-xs ${latestDrift.weightedChange >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {latestDrift.weightedChange >= 0 ? '+' : '-'}{formatCurrency(Math.abs(latestDrift.weightedChange))} since last week
+                        </p>
+                      )}
+                    </div>
+                    <TrendingUp className="w-8 h-8 text-purple-600" />
+                  </div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-sm text-slate-600">Quota Attainment</p>
+                  {currentPeriod.quota !== null ? (
+                    <>
+                      <p className="text-2xl font-bold text-orange-600">{currentPeriod.attainment}%</p>
+                      <Progress value={Math.min(currentPeriod.attainment ?? 0, 100)} className="mt-2 h-2" />
+                      <p className="text-xs text-slate-500 mt-1">of {formatCurrency(currentPeriod.quota)}</p>
+                    </>
+                  ) : (
+                    <p className="text-sm text-slate-500 mt-2">No quota set</p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Forecast vs Quota</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={320}>
+            <ComposedChart data={forecast.periods}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" />
+              <YAxis />
+              <Tooltip formatter={(value: number) => formatCurrency(value)} />
+              <Legend />
+              <Bar dataKey="closed" name="Closed" fill="#10B981" />
+              <Bar dataKey="weighted" name="Weighted" fill="#8B5CF6" />
+              <Bar dataKey="commit" name="Commit" fill="#3B82F6" />
+              <Bar dataKey="bestCase" name="Best Case" fill="#93C5FD" />
+              <Line type="monotone" dataKey="quota" name="Quota" stroke="#F59E0B" strokeWidth={2} connectNulls />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Periods</CardTitle>
+          <CardDescription>Set a quota for each period to track attainment</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-slate-600">
+                  <th className="py-2 pr-4">Period</th>
+                  <th className="py-2 pr-4 text-right">Closed</th>
+                  <th className="py-2 pr-4 text-right">Commit</th>
+                  <th className="py-2 pr-4 text-right">Best Case</th>
+                  <th className="py-2 pr-4 text-right">Pipeline</th>
+                  <th className="py-2 pr-4 text-right">Weighted</th>
+                  <th className="py-2 pr-4">Quota</th>
+                  <th className="py-2 text-right">Attainment</th>
+                </tr>
+              </thead>
+              <tbody>
+                {forecast.periods.map(period => (
+                  <tr key={period.periodStart} className="border-b last:border-0">
+                    <td className="py-2 pr-4 font-medium">
+                      {period.label}
+                      <span className="ml-2 text-xs text-slate-500">{period.dealCount} deals</span>
+                    </td>
+                    <td className="py-2 pr-4 text-right">{formatCurrency(period.closed)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCurrency(period.commit)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCurrency(period.bestCase)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCurrency(period.pipeline)}</td>
+                    <td className="py-2 pr-4 text-right font-semibold">{formatCurrency(period.weighted)}</td>
+                    <td className="py-2 pr-4">
+                      <div className="flex items-center space-x-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          className="h-8 w-32"
+                          placeholder="No quota"
+                          value={quotaDrafts[period.periodStart] ?? (period.quota !== null ? String(period.quota) : '')}
+                          onChange={(e) => setQuotaDrafts(prev => ({ ...prev, [period.periodStart]: e.target.value }))}
+                          onKeyDown={(e) => e.key === 'Enter' && handleSaveQuota(period.periodStart)}
+                        />
+                        {quotaDrafts[period.periodStart] !== undefined && (
+                          <Button size="sm" variant="outline" onClick={() => handleSaveQuota(period.periodStart)}>
+                            Save
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                    <td className="py-2 text-right">
+                      {period.attainment !== null ? (
+                        <Badge className={period.attainment >= 100 ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-800'}>
+                          {period.attainment}%
+                        </Badge>
+                      ) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Forecast Drift</CardTitle>
+            <CardDescription>How the forecast for a period changed week over week</CardDescription>
+          </div>
+          <Select value={selectedDriftPeriod} onValueChange={setDriftPeriod}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {forecast.periods.map(period => (
+                <SelectItem key={period.periodStart} value={period.periodStart}>{period.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {driftData.length > 1 ? (
+            <ResponsiveContainer width="100%" height={280}>
+              <LineChart data={driftData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" />
+                <YAxis />
+                <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                <Legend />
+                <Line type="monotone" dataKey="weighted" name="Weighted" stroke="#8B5CF6" strokeWidth={2} />
+                <Line type="monotone" dataKey="commit" name="Commit" stroke="#3B82F6" strokeWidth={2} />
+                <Line type="monotone" dataKey="bestCase" name="Best Case" stroke="#93C5FD" strokeWidth={2} />
+                <Line type="monotone" dataKey="closed" name="Closed" stroke="#10B981" strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          ) : (
+            <p className="text-sm text-slate-500 text-center py-8">
+              Drift appears once at least two weekly snapshots exist for this period.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {forecast.unscheduledDeals.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <CalendarX className="w-5 h-5 mr-2 text-orange-600" />
+              Deals Without a Close Date
+            </CardTitle>
+            <CardDescription>
+              These open deals are left out of the forecast until an expected close date is set
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {forecast.unscheduledDeals.map(deal => (
+                <div key={deal.id} className="flex items-center justify-between p-2 rounded border">
+                  <div>
+                    <p className="font-medium text-slate-900">{deal.title}</p>
+                    <p className="text-xs text-slate-500">{deal.stage || 'Unstaged'}</p>
+                  </div>
+                  <span className="font-semibold">{formatCurrency(Number(deal.value || 0))}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ForecastDashboard;
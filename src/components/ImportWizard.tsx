@@ -0,0 +1,602 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Upload, FileText, Users, TrendingUp, Calendar, CheckCircle, AlertCircle, Download, Building2, Database, ArrowLeft, Undo2, Copy, History } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { downloadBlob } from '@/lib/export';
+import type { ParsedTable } from '@/lib/import/csv';
+import {
+  IMPORT_ENTITIES,
+  autoMapColumns,
+  buildImportTemplate,
+  fetchImportBatches,
+  getImportFileTypes,
+  getMissingRequiredFields,
+  prepareImport,
+  readImportFile,
+  rollbackImport,
+  runImport,
+  type ColumnMapping,
+  type ImportBatch,
+  type ImportEntity,
+  type ImportResult,
+  type PreparedRow
+} from '@/lib/import/importEngine';
+
+interface ImportWizardProps {
+  entities?: ImportEntity[];
+}
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'done';
+
+const ENTITY_ICONS: Record<ImportEntity, { icon: typeof Users; color: string }> = {
+  contacts: { icon: Users, color: 'text-blue-600' },
+  leads: { icon: TrendingUp, color: 'text-green-600' },
+  deals: { icon: Database, color: 'text-purple-600' },
+  activities: { icon: Calendar, color: 'text-orange-600' },
+  companies: { icon: Building2, color: 'text-indigo-600' }
+};
+
+const IGNORE_COLUMN = '__ignore__';
+const PREVIEW_LIMIT = 50;
+
+const ImportWizard = ({ entities = ['contacts', 'leads', 'deals', 'activities', 'companies'] }: ImportWizardProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [entity, setEntity] = useState<ImportEntity>(entities[0]);
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ParsedTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [preparedRows, setPreparedRows] = useState<PreparedRow[]>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+
+  const { data: batches = [], refetch: refetchBatches } = useQuery({
+    queryKey: ['import-batches', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+      return fetchImportBatches(user.id);
+    },
+    enabled: !!user,
+  });
+
+  const fields = IMPORT_ENTITIES[entity].fields;
+  const missingRequired = getMissingRequiredFields(entity, mapping);
+
+  const previewStats = useMemo(() => ({
+    valid: preparedRows.filter(row => row.errors.length === 0 && !row.duplicate).length,
+    invalid: preparedRows.filter(row => row.errors.length > 0).length,
+    duplicates: preparedRows.filter(row => row.errors.length === 0 && row.duplicate).length
+  }), [preparedRows]);
+
+  const importCount = previewStats.valid + (skipDuplicates ? 0 : previewStats.duplicates);
+
+  const resetWizard = () => {
+    setStep('upload');
+    setFileName('');
+    setTable(null);
+    setMapping([]);
+    setPreparedRows([]);
+    setResult(null);
+    setProgress(0);
+  };
+
+  const handleEntityChange = (value: ImportEntity) => {
+    setEntity(value);
+    // Field choices differ per entity, so start the mapping over
+    if (table) setMapping(autoMapColumns(value, table.headers));
+    setPreparedRows([]);
+    setResult(null);
+    if (step !== 'upload') setStep(table ? 'map' : 'upload');
+  };
+
+  const invalidateImportedData = () => {
+    ['contacts', 'leads', 'deals', 'activities', 'companies', 'dashboard-stats', 'sales-reports', 'forecast'].forEach(key =>
+      queryClient.invalidateQueries({ queryKey: [key] })
+    );
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = await readImportFile(file, entity);
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(autoMapColumns(entity, parsed.headers));
+      setPreparedRows([]);
+      setResult(null);
+      setStep('map');
+    } catch (error) {
+      toast({
+        title: "Error reading file",
+        description: error instanceof Error ? error.message : "Failed to read import file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMappingChange = (columnIndex: number, fieldKey: string) => {
+    setMapping(prev => prev.map((current, index) => {
+      if (index === columnIndex) return fieldKey === IGNORE_COLUMN ? '' : fieldKey;
+      // A field can only come from one column
+      return current === fieldKey ? '' : current;
+    }));
+  };
+
+  const handlePreview = async () => {
+    if (!user || !table) return;
+    setIsPreparing(true);
+    try {
+      setPreparedRows(await prepareImport(user.id, entity, table.rows, mapping));
+      setStep('preview');
+    } catch (error) {
+      toast({
+        title: "Error validating rows",
+        description: error instanceof Error ? error.message : 'Failed to check rows for duplicates',
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || !table) return;
+    setIsImporting(true);
+    setProgress(0);
+    try {
+      const importResult = await runImport(user.id, entity, preparedRows, {
+        fileName,
+        skipDuplicates,
+        mapping: Object.fromEntries(table.headers.map((header, index) => [header, mapping[index] || null])),
+        onProgress: (processed, total) => setProgress(total > 0 ? Math.round((processed / total) * 100) : 100)
+      });
+
+      setResult(importResult);
+      setStep('done');
+      refetchBatches();
+
+      if (importResult.inserted > 0) {
+        invalidateImportedData();
+      }
+
+      toast({
+        title: "Import completed",
+        description: `Imported ${importResult.inserted} of ${importResult.total} rows${importResult.skipped ? `, skipped ${importResult.skipped} duplicates` : ''}.`,
+        variant: importResult.inserted === 0 && importResult.failed > 0 ? "destructive" : "default",
+      });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleRollback = async (batch: Pick<ImportBatch, 'id' | 'entity_type'>) => {
+    if (!user) return;
+    setRollingBackId(batch.id);
+    try {
+      const removed = await rollbackImport(user.id, batch);
+      invalidateImportedData();
+      refetchBatches();
+      if (result?.batchId === batch.id) resetWizard();
+      toast({
+        title: "Import undone",
+        description: `Removed ${removed} imported ${IMPORT_ENTITIES[batch.entity_type as ImportEntity]?.label.toLowerCase() || 'records'}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error undoing import",
+        description: error instanceof Error ? error.message : 'Failed to roll back import',
+        variant: "destructive",
+      });
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  const downloadTemplate = () => {
+    downloadBlob(new Blob([buildImportTemplate(entity)], { type: 'text/csv;charset=utf-8' }), `${entity}_template.csv`);
+  };
+
+  const getRowStatus = (row: PreparedRow) => {
+    if (row.errors.length > 0) {
+      return <Badge className="bg-red-100 text-red-800" title={row.errors.join('\n')}>Error</Badge>;
+    }
+    if (row.duplicate) {
+      const source = row.duplicate.source === 'file' ? 'in file' : `in ${row.duplicate.source}`;
+      return (
+        <Badge className="bg-yellow-100 text-yellow-800" title={`Matches ${row.duplicate.label} ${source} by ${row.duplicate.matchedOn} (${row.duplicate.value})`}>
+          Duplicate
+        </Badge>
+      );
+    }
+    return <Badge className="bg-green-100 text-green-800">Ready</Badge>;
+  };
+
+  const mappedFields = fields.filter(f => mapping.includes(f.key));
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Database className="w-5 h-5 mr-2 text-blue-600" />
+            Data Import
+          </CardTitle>
+          <CardDescription>
+            Map your columns, review every row and import in one batch you can undo
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Import Type Selection */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {entities.map((type) => {
+              const { icon: Icon, color } = ENTITY_ICONS[type];
+              return (
+                <Card
+                  key={type}
+                  className={`cursor-pointer transition-all duration-200 ${
+                    entity === type ? 'ring-2 ring-blue-500 bg-blue-50' : 'hover:shadow-md'
+                  } ${isImporting ? 'pointer-events-none opacity-60' : ''}`}
+                  onClick={() => handleEntityChange(type)}
+                >
+                  <CardContent className="p-4 text-center">
+                    <Icon className={`w-8 h-8 mx-auto mb-2 ${color}`} />
+                    <p className="text-sm font-medium">{IMPORT_ENTITIES[type].label}</p>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          {step === 'upload' && (
+            <>
+              <div className="flex items-center justify-between p-4 bg-blue-50 rounded-lg">
+                <div>
+                  <h4 className="font-medium text-slate-900">Download Template</h4>
+                  <p className="text-sm text-slate-600">
+                    Columns: {fields.map(f => f.key).join(', ')}
+                  </p>
+                </div>
+                <Button variant="outline" onClick={downloadTemplate}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Download Template
+                </Button>
+              </div>
+
+              <div className="border-2 border-dashed border-slate-300 rounded-lg p-8 text-center hover:border-blue-400 transition-colors">
+                <FileText className="w-12 h-12 text-slate-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-slate-900 mb-2">
+                  Choose a file to import
+                </h3>
+                <p className="text-slate-600 mb-4">
+                  {entity === 'contacts' ? 'CSV, Excel (.xlsx) or vCard (.vcf)' : 'CSV or Excel (.xlsx)'}. Any column
+                  names work; you will match them to CRM fields next
+                </p>
+                <input
+                  type="file"
+                  accept={getImportFileTypes(entity).join(',')}
+                  onChange={handleFileUpload}
+                  className="hidden"
+                  id={`file-import-${entity}`}
+                />
+                <Button variant="outline" asChild>
+                  <label htmlFor={`file-import-${entity}`} className="cursor-pointer inline-flex items-center">
+                    <Upload className="w-4 h-4 mr-2" />
+                    Select File
+                  </label>
+                </Button>
+              </div>
+            </>
+          )}
+
+          {step === 'map' && table && (
+            <Card className="border border-slate-200">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm flex items-center">
+                  <FileText className="w-4 h-4 mr-2 text-blue-600" />
+                  Map Columns: {fileName}
+                </CardTitle>
+                <CardDescription>
+                  {table.rows.length} rows, {table.headers.length} columns. Choose the {IMPORT_ENTITIES[entity].label.toLowerCase()} field for each column.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="pt-0 space-y-4">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-slate-600">
+                        <th className="py-2 pr-4">Column</th>
+                        <th className="py-2 pr-4">Sample</th>
+                        <th className="py-2">Import as</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {table.headers.map((header, index) => (
+                        <tr key={index} className="border-b last:border-0">
+                          <td className="py-2 pr-4 font-medium">{header || `Column ${index + 1}`}</td>
+                          <td className="py-2 pr-4 text-slate-500 max-w-[220px] truncate">
+                            {table.rows.find(row => row[index])?.[index] || '-'}
+                          </td>
+                          <td className="py-2 w-64">
+                            <Select value={mapping[index] || IGNORE_COLUMN} onValueChange={(value) => handleMappingChange(index, value)}>
+                              <SelectTrigger className="h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={IGNORE_COLUMN}>Don't import</SelectItem>
+                                {fields.map(f => (
+                                  <SelectItem key={f.key} value={f.key}>
+                                    {f.label}{f.required ? ' *' : ''}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {missingRequired.length > 0 && (
+                  <Alert>
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      Map a column to {missingRequired.map(f => f.label).join(', ')} to continue.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="flex justify-between">
+                  <Button variant="outline" onClick={resetWizard}>
+                    <ArrowLeft className="w-4 h-4 mr-2" />
+                    Choose another file
+                  </Button>
+                  <Button onClick={handlePreview} disabled={missingRequired.length > 0 || isPreparing}>
+                    {isPreparing ? 'Checking rows...' : 'Preview Import'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {step === 'preview' && (
+            <Card className="border border-slate-200">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm flex items-center">
+                  <CheckCircle className="w-4 h-4 mr-2 text-green-600" />
+                  Preview: {fileName}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0 space-y-4">
+                <div className="grid grid-cols-3 gap-4 text-center">
+                  <div className="p-3 bg-green-50 rounded-lg">
+                    <div className="text-2xl font-bold text-green-600">{previewStats.valid}</div>
+                    <div className="text-sm text-green-700">Ready</div>
+                  </div>
+                  <div className="p-3 bg-yellow-50 rounded-lg">
+                    <div className="text-2xl font-bold text-yellow-600">{previewStats.duplicates}</div>
+                    <div className="text-sm text-yellow-700">Duplicates</div>
+                  </div>
+                  <div className="p-3 bg-red-50 rounded-lg">
+                    <div className="text-2xl font-bold text-red-600">{previewStats.invalid}</div>
+                    <div className="text-sm text-red-700">Errors (not imported)</div>
+                  </div>
+                </div>
+
+                {previewStats.duplicates > 0 && (
+                  <div className="flex items-center space-x-2">
+                    <Switch id="skip-duplicates" checked={skipDuplicates} onCheckedChange={setSkipDuplicates} />
+                    <Label htmlFor="skip-duplicates" className="flex items-center">
+                      <Copy className="w-4 h-4 mr-1 text-yellow-600" />
+                      Skip rows that match an existing record or an earlier row
+                    </Label>
+                  </div>
+                )}
+
+                <div className="overflow-x-auto max-h-96 overflow-y-auto border border-slate-200 rounded">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50 sticky top-0">
+                      <tr>
+                        <th className="p-2 text-left">Row</th>
+                        <th className="p-2 text-left">Status</th>
+                        {mappedFields.map(f => (
+                          <th key={f.key} className="p-2 text-left">{f.label}</th>
+                        ))}
+                        <th className="p-2 text-left">Notes</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preparedRows.slice(0, PREVIEW_LIMIT).map(row => (
+                        <tr key={row.rowNumber} className="border-t border-slate-200">
+                          <td className="p-2 text-slate-500">{row.rowNumber}</td>
+                          <td className="p-2">{getRowStatus(row)}</td>
+                          {mappedFields.map(f => (
+                            <td key={f.key} className="p-2 max-w-[180px] truncate">
+                              {row.record[f.key] ?? '-'}
+                            </td>
+                          ))}
+                          <td className="p-2 text-slate-600">
+                            {row.errors.length > 0
+                              ? <span className="text-red-600">{row.errors.join('; ')}</span>
+                              : row.duplicate
+                                ? `Matches ${row.duplicate.label}${row.duplicate.source === 'file' ? '' : ` (${row.duplicate.source})`}`
+                                : ''}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {preparedRows.length > PREVIEW_LIMIT && (
+                  <p className="text-center text-xs text-slate-500">
+                    Showing the first {PREVIEW_LIMIT} of {preparedRows.length} rows
+                  </p>
+                )}
+
+                {isImporting && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span>Importing...</span>
+                      <span>{progress}%</span>
+                    </div>
+                    <Progress value={progress} />
+                  </div>
+                )}
+
+                <div className="flex justify-between">
+                  <Button variant="outline" onClick={() => setStep('map')} disabled={isImporting}>
+                    <ArrowLeft className="w-4 h-4 mr-2" />
+                    Back to mapping
+                  </Button>
+                  <Button
+                    onClick={handleImport}
+                    disabled={isImporting || importCount === 0}
+                    className="bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700"
+                  >
+                    <Upload className="w-4 h-4 mr-2" />
+                    {isImporting ? 'Importing...' : `Import ${importCount} ${IMPORT_ENTITIES[entity].label}`}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {step === 'done' && result && (
+            <Card className="border border-slate-200">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm flex items-center">
+                  {result.failed === 0 ? (
+                    <CheckCircle className="w-4 h-4 mr-2 text-green-600" />
+                  ) : (
+                    <AlertCircle className="w-4 h-4 mr-2 text-yellow-600" />
+                  )}
+                  Import Results
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0 space-y-4">
+                <div className="grid grid-cols-4 gap-4 text-center">
+                  <div className="p-3 bg-green-50 rounded-lg">
+                    <div className="text-2xl font-bold text-green-600">{result.inserted}</div>
+                    <div className="text-sm text-green-700">Imported</div>
+                  </div>
+                  <div className="p-3 bg-yellow-50 rounded-lg">
+                    <div className="text-2xl font-bold text-yellow-600">{result.skipped}</div>
+                    <div className="text-sm text-yellow-700">Skipped</div>
+                  </div>
+                  <div className="p-3 bg-red-50 rounded-lg">
+                    <div className="text-2xl font-bold text-red-600">{result.failed}</div>
+                    <div className="text-sm text-red-700">Errors</div>
+                  </div>
+                  <div className="p-3 bg-blue-50 rounded-lg">
+                    <div className="text-2xl font-bold text-blue-600">{result.total}</div>
+                    <div className="text-sm text-blue-700">Total</div>
+                  </div>
+                </div>
+
+                {result.errors.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium text-red-700">Error Details:</h4>
+                    <div className="max-h-32 overflow-y-auto space-y-1">
+                      {result.errors.map((error, index) => (
+                        <p key={index} className="text-xs text-red-600">• {error}</p>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex justify-between">
+                  {result.inserted > 0 ? (
+                    <Button
+                      variant="outline"
+                      onClick={() => handleRollback({ id: result.batchId, entity_type: entity })}
+                      disabled={rollingBackId === result.batchId}
+                    >
+                      <Undo2 className="w-4 h-4 mr-2" />
+                      {rollingBackId === result.batchId ? 'Undoing...' : 'Undo Import'}
+                    </Button>
+                  ) : <span />}
+                  <Button onClick={resetWizard}>Import another file</Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </CardContent>
+      </Card>
+
+      {batches.length > 0 && (
+        <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center text-base">
+              <History className="w-4 h-4 mr-2 text-slate-600" />
+              Recent Imports
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {batches.map(batch => (
+                <div key={batch.id} className="flex items-center justify-between p-2 rounded border border-slate-200">
+                  <div>
+                    <p className="text-sm font-medium text-slate-900">
+                      {batch.file_name || 'Untitled import'}
+                      <span className="ml-2 text-xs text-slate-500">
+                        {IMPORT_ENTITIES[batch.entity_type as ImportEntity]?.label || batch.entity_type}
+                      </span>
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {batch.created_at ? new Date(batch.created_at).toLocaleString() : ''} · {batch.inserted_count} imported
+                      {batch.skipped_count > 0 && `, ${batch.skipped_count} skipped`}
+                      {batch.error_count > 0 && `, ${batch.error_count} errors`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {batch.status === 'rolled_back' ? (
+                      <Badge variant="outline">Undone</Badge>
+                    ) : batch.status === 'failed' ? (
+                      <Badge className="bg-red-100 text-red-800">Failed</Badge>
+                    ) : batch.inserted_count > 0 && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRollback(batch)}
+                        disabled={rollingBackId === batch.id}
+                      >
+                        <Undo2 className="w-3 h-3 mr-1" />
+                        {rollingBackId === batch.id ? 'Undoing...' : 'Undo'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ImportWizard;
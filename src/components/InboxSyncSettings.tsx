@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertCircle, RefreshCw, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import {
+  deleteImapSettings,
+  fetchImapSettings,
+  saveImapSettings,
+  syncInbox,
+  type ImapSettingsInput
+} from '@/lib/emailSync';
+
+interface InboxSyncSettingsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMPTY_SETTINGS: ImapSettingsInput = {
+  host: '',
+  port: 993,
+  secure: true,
+  username: '',
+  password: '',
+  mailbox: 'INBOX'
+};
+
+const InboxSyncSettings = ({ open, onOpenChange }: InboxSyncSettingsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<ImapSettingsInput>(EMPTY_SETTINGS);
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['imap-settings', user?.id],
+    queryFn: () => fetchImapSettings(user!.id),
+    enabled: !!user && open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(settings ? {
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      username: settings.username,
+      password: '',
+      mailbox: settings.mailbox
+    } : { ...EMPTY_SETTINGS, username: user?.email || '' });
+  }, [open, settings, user]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveImapSettings(user!.id, form, settings ?? null),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['imap-settings'] });
+      toast({ title: 'Inbox settings saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error saving inbox settings', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteImapSettings(user!.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['imap-settings'] });
+      toast({ title: 'Inbox sync turned off' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error removing inbox settings', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: syncInbox,
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['imap-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['emails'] });
+      queryClient.invalidateQueries({ queryKey: ['activities'] });
+      toast({
+        title: 'Inbox synced',
+        description: `${result.imported ?? 0} new, ${result.linked ?? 0} linked to contacts or leads, ${result.replies ?? 0} replies to your emails.`
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['imap-settings'] });
+      toast({ title: 'Error syncing inbox', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Inbox Sync</DialogTitle>
+          <DialogDescription>
+            Import your mailbox over IMAP. Messages are threaded, linked to matching contacts and leads, and logged on their deals.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-8 text-center text-slate-500">Loading settings...</div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="imap-host">IMAP host</Label>
+                <Input
+                  id="imap-host"
+                  value={form.host}
+                  onChange={(e) => setForm(prev => ({ ...prev, host: e.target.value }))}
+                  placeholder="imap.example.com"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="imap-port">Port</Label>
+                <Input
+                  id="imap-port"
+                  type="number"
+                  value={form.port}
+                  onChange={(e) => setForm(prev => ({ ...prev, port: Number(e.target.value) }))}
+                  required
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="imap-secure"
+                checked={form.secure}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, secure: checked, port: checked ? 993 : 143 }))}
+              />
+              <Label htmlFor="imap-secure">Use TLS (port 993)</Label>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="imap-username">Username</Label>
+                <Input
+                  id="imap-username"
+                  value={form.username}
+                  onChange={(e) => setForm(prev => ({ ...prev, username: e.target.value }))}
+                  autoComplete="off"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="imap-password">Password</Label>
+                <Input
+                  id="imap-password"
+                  type="password"
+                  value={form.password}
+                  onChange={(e) => setForm(prev => ({ ...prev, password: e.target.value }))}
+                  placeholder={settings ? 'Leave blank to keep' : ''}
+                  autoComplete="new-password"
+                  required={!settings}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="imap-mailbox">Mailbox</Label>
+              <Input
+                id="imap-mailbox"
+                value={form.mailbox}
+                onChange={(e) => setForm(prev => ({ ...prev, mailbox: e.target.value }))}
+              />
+            </div>
+
+            {settings && (
+              <div className="rounded-md border p-3 text-sm space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-slate-600">
+                    {settings.last_synced_at
+                      ? `Last synced ${new Date(settings.last_synced_at).toLocaleString()}`
+                      : 'Not synced yet'}
+                  </span>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => syncMutation.mutate()}
+                    disabled={syncMutation.isPending}
+                  >
+                    <RefreshCw className={`w-4 h-4 mr-1 ${syncMutation.isPending ? 'animate-spin' : ''}`} />
+                    Sync now
+                  </Button>
+                </div>
+                {settings.last_error && (
+                  <div className="flex items-start text-xs text-red-600">
+                    <AlertCircle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                    {settings.last_error}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <DialogFooter className="gap-2">
+              {settings && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => deleteMutation.mutate()}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Remove
+                </Button>
+              )}
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InboxSyncSettings;
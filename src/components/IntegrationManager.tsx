@@ -11,6 +11,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { CALENDAR_QUERY_KEYS, describeCalendarSync, syncCalendar } from '@/lib/calendarSync';
 
 interface Integration {
   id: string;
@@ -38,6 +39,8 @@ const IntegrationManager = () => {
         .from('integrations')
         .select('*')
         .eq('user_id', user.id)
+        // The calendar feed is managed under Calendar Sync
+        .neq('type', 'ics_feed')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -99,22 +102,39 @@ const IntegrationManager = () => {
   });
 
   const syncIntegrationMutation = useMutation({
-    mutationFn: async (integrationId: string) => {
+    mutationFn: async (integration: Integration) => {
+      // CalDAV calendars sync through the calendar-sync function, which sets last_sync itself
+      if (integration.type === 'caldav') {
+        return describeCalendarSync(await syncCalendar(integration.id));
+      }
+
       // Simulate sync operation
       await new Promise(resolve => setTimeout(resolve, 2000));
       
       const { error } = await supabase
         .from('integrations')
         .update({ last_sync: new Date().toISOString() })
-        .eq('id', integrationId);
+        .eq('id', integration.id);
 
       if (error) throw error;
+      return "Integration data has been synchronized.";
     },
-    onSuccess: () => {
+    onSuccess: (description, integration) => {
       queryClient.invalidateQueries({ queryKey: ['integrations'] });
+      if (integration.type === 'caldav') {
+        CALENDAR_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+      }
       toast({
         title: "Sync completed",
-        description: "Integration data has been synchronized.",
+        description,
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['integrations'] });
+      toast({
+        title: "Sync failed",
+        description: error.message,
+        variant: "destructive",
       });
     }
   });
@@ -131,6 +151,18 @@ const IntegrationManager = () => {
         { key: 'calendar_id', label: 'Calendar ID', type: 'text', required: false }
       ]
     },
+    {
+      type: 'caldav',
+      name: 'CalDAV Calendar',
+      description: 'Two-way sync of meetings, calls and tasks with any CalDAV calendar',
+      icon: '🗓️',
+      fields: [
+        { key: 'url', label: 'Calendar URL', type: 'url', required: true },
+        { key: 'username', label: 'Username', type: 'text', required: true },
+        { key: 'password', label: 'Password or App Password', type: 'password', required: true }
+      ],
+      instructions: 'Use the address of the calendar itself, e.g. https://cloud.example.com/remote.php/dav/calendars/you/personal/ for Nextcloud or http://localhost:5232/you/calendar/ for a local Radicale. iCloud and Fastmail need an app-specific password. Changes on either side are synced every 10 minutes while the CRM is open; when both sides changed the same item, the latest edit wins.'
+    },
     {
       type: 'outlook',
       name: 'Microsoft Outlook',
@@ -328,7 +360,7 @@ const IntegrationManager = () => {
                               <Button
                                 size="sm"
                                 variant="outline"
-                                onClick={() => syncIntegrationMutation.mutate(integration.id)}
+                                onClick={() => syncIntegrationMutation.mutate(integration)}
                                 disabled={!integration.is_active || syncIntegrationMutation.isPending}
                               >
                                 <Sync className="w-4 h-4 mr-1" />
@@ -393,8 +425,12 @@ const IntegrationManager = () => {
                   <div>
                     <h4 className="font-medium text-blue-900">Setup Instructions</h4>
                     <p className="text-sm text-blue-700 mt-1">
-                      Visit the {selectedIntegrationConfig.name} developer console to obtain your API credentials.
-                      Make sure to whitelist your domain and set appropriate permissions.
+                      {selectedIntegrationConfig.instructions ?? (
+                        <>
+                          Visit the {selectedIntegrationConfig.name} developer console to obtain your API credentials.
+                          Make sure to whitelist your domain and set appropriate permissions.
+                        </>
+                      )}
                     </p>
                   </div>
                 </div>
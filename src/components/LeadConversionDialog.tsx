@@ -0,0 +1,304 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Building2, User, DollarSign, ArrowRight } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { usePipelines } from '@/hooks/usePipelines';
+import { getStageNames } from '@/lib/pipelines';
+import { convertLead, countLeadAttachments, matchCompanyByName, type LeadConversionResult } from '@/lib/leadConversion';
+
+interface ConvertibleLead {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  company: string;
+}
+
+interface LeadConversionDialogProps {
+  lead: ConvertibleLead | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConverted: (result: LeadConversionResult) => void;
+}
+
+// Company choice: match or create by name, no company, or an existing company's id
+const AUTO_COMPANY = 'auto';
+const NO_COMPANY = 'none';
+
+const LeadConversionDialog = ({ lead, open, onOpenChange, onConverted }: LeadConversionDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { pipelines, defaultPipeline } = usePipelines();
+  const [isConverting, setIsConverting] = useState(false);
+  const [companyChoice, setCompanyChoice] = useState(AUTO_COMPANY);
+  const [contact, setContact] = useState({ name: '', email: '', phone: '', title: '', company: '' });
+  const [createDeal, setCreateDeal] = useState(true);
+  const [deal, setDeal] = useState({ title: '', value: '', pipeline_id: '', stage: '', expected_close_date: '' });
+
+  const { data: companies = [] } = useQuery({
+    queryKey: ['companies-for-conversion', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+      const { data, error } = await supabase
+        .from('companies')
+        .select('id, name')
+        .eq('user_id', user.id)
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && open,
+  });
+
+  const { data: attachments } = useQuery({
+    queryKey: ['lead-attachments', user?.id, lead?.id],
+    queryFn: () => countLeadAttachments(user!.id, lead!.id),
+    enabled: !!user && !!lead && open,
+  });
+
+  // Reset the form for each lead
+  useEffect(() => {
+    if (!lead || !open) return;
+    setContact({ name: lead.name, email: lead.email, phone: lead.phone, title: '', company: lead.company });
+    setCompanyChoice(AUTO_COMPANY);
+    setCreateDeal(true);
+    setDeal({
+      title: `${lead.company || lead.name} - New Opportunity`,
+      value: '',
+      pipeline_id: defaultPipeline?.id || '',
+      stage: getStageNames(defaultPipeline, true)[0] || '',
+      expected_close_date: ''
+    });
+  }, [lead, open, defaultPipeline]);
+
+  const matchedCompany = useMemo(() => matchCompanyByName(companies, contact.company), [companies, contact.company]);
+  const selectedPipeline = pipelines.find(pipeline => pipeline.id === deal.pipeline_id) || defaultPipeline;
+
+  const companySummary = (() => {
+    if (companyChoice === NO_COMPANY) return 'No company will be linked';
+    if (companyChoice !== AUTO_COMPANY) {
+      return `Links to ${companies.find(company => company.id === companyChoice)?.name || 'the selected company'}`;
+    }
+    if (!contact.company.trim()) return 'The lead has no company';
+    return matchedCompany
+      ? `Links to existing company "${matchedCompany.name}"`
+      : `Creates a new company "${contact.company.trim()}"`;
+  })();
+
+  const handleConvert = async () => {
+    if (!user || !lead) return;
+
+    if (!contact.name.trim()) {
+      toast({ title: "Error", description: "Contact name is required", variant: "destructive" });
+      return;
+    }
+    if (createDeal && (!deal.title.trim() || !deal.stage)) {
+      toast({ title: "Error", description: "Deal title and stage are required", variant: "destructive" });
+      return;
+    }
+
+    setIsConverting(true);
+    try {
+      const result = await convertLead(user.id, lead.id, {
+        companyId: companyChoice !== AUTO_COMPANY && companyChoice !== NO_COMPANY ? companyChoice : null,
+        createCompany: companyChoice === AUTO_COMPANY,
+        contact: {
+          ...contact,
+          company: companyChoice === NO_COMPANY ? '' : contact.company
+        },
+        deal: createDeal
+          ? {
+              title: deal.title,
+              value: parseFloat(deal.value) || 0,
+              pipeline: selectedPipeline,
+              stage: deal.stage,
+              expectedCloseDate: deal.expected_close_date || null
+            }
+          : null
+      });
+
+      const moved = [
+        result.activitiesMoved > 0 ? `${result.activitiesMoved} activities` : '',
+        result.filesMoved > 0 ? `${result.filesMoved} files` : ''
+      ].filter(Boolean).join(' and ');
+
+      toast({
+        title: "Lead converted!",
+        description: `${contact.name} is now a contact${result.dealId ? ' with an opening deal' : ''}${moved ? `; ${moved} moved over` : ''}.`,
+      });
+      onConverted(result);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error converting lead",
+        description: error instanceof Error ? error.message : "Failed to convert lead",
+        variant: "destructive",
+      });
+    } finally {
+      setIsConverting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isConverting && onOpenChange(value)}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Convert Lead</DialogTitle>
+          <DialogDescription>
+            Create a contact, link its company and optionally open a deal. Everything is saved together.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Contact */}
+          <div className="space-y-3">
+            <h4 className="flex items-center font-medium text-slate-900">
+              <User className="w-4 h-4 mr-2 text-blue-600" />
+              Contact
+            </h4>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="convert-name">Name *</Label>
+                <Input id="convert-name" value={contact.name} onChange={(e) => setContact({ ...contact, name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="convert-title">Title</Label>
+                <Input id="convert-title" value={contact.title} onChange={(e) => setContact({ ...contact, title: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="convert-email">Email</Label>
+                <Input id="convert-email" type="email" value={contact.email} onChange={(e) => setContact({ ...contact, email: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="convert-phone">Phone</Label>
+                <Input id="convert-phone" value={contact.phone} onChange={(e) => setContact({ ...contact, phone: e.target.value })} />
+              </div>
+            </div>
+          </div>
+
+          {/* Company */}
+          <div className="space-y-3">
+            <h4 className="flex items-center font-medium text-slate-900">
+              <Building2 className="w-4 h-4 mr-2 text-slate-600" />
+              Company
+            </h4>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Link to</Label>
+                <Select value={companyChoice} onValueChange={setCompanyChoice}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO_COMPANY}>Match or create by name</SelectItem>
+                    <SelectItem value={NO_COMPANY}>No company</SelectItem>
+                    {companies.map(company => (
+                      <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {companyChoice === AUTO_COMPANY && (
+                <div className="space-y-1">
+                  <Label htmlFor="convert-company">Company name</Label>
+                  <Input id="convert-company" value={contact.company} onChange={(e) => setContact({ ...contact, company: e.target.value })} />
+                </div>
+              )}
+            </div>
+            <p className="text-sm text-slate-600">{companySummary}</p>
+          </div>
+
+          {/* Deal */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="flex items-center font-medium text-slate-900">
+                <DollarSign className="w-4 h-4 mr-2 text-green-600" />
+                Opening Deal
+              </h4>
+              <div className="flex items-center space-x-2">
+                <Switch id="convert-create-deal" checked={createDeal} onCheckedChange={setCreateDeal} />
+                <Label htmlFor="convert-create-deal" className="text-sm">Create deal</Label>
+              </div>
+            </div>
+            {createDeal && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1 col-span-2">
+                  <Label htmlFor="convert-deal-title">Title *</Label>
+                  <Input id="convert-deal-title" value={deal.title} onChange={(e) => setDeal({ ...deal, title: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="convert-deal-value">Value</Label>
+                  <Input id="convert-deal-value" type="number" min="0" value={deal.value} onChange={(e) => setDeal({ ...deal, value: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="convert-deal-close">Expected Close</Label>
+                  <Input id="convert-deal-close" type="date" value={deal.expected_close_date} onChange={(e) => setDeal({ ...deal, expected_close_date: e.target.value })} />
+                </div>
+                {pipelines.length > 1 && (
+                  <div className="space-y-1">
+                    <Label>Pipeline</Label>
+                    <Select
+                      value={deal.pipeline_id}
+                      onValueChange={(pipelineId) => {
+                        const pipeline = pipelines.find(p => p.id === pipelineId);
+                        setDeal({ ...deal, pipeline_id: pipelineId, stage: getStageNames(pipeline, true)[0] || '' });
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {pipelines.map(pipeline => (
+                          <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <Label>Stage *</Label>
+                  <Select value={deal.stage} onValueChange={(stage) => setDeal({ ...deal, stage })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select stage" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getStageNames(selectedPipeline, true).map(stage => (
+                        <SelectItem key={stage} value={stage}>{stage}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center p-3 bg-blue-50 rounded-lg text-sm text-slate-700">
+            <ArrowRight className="w-4 h-4 mr-2 text-blue-600 flex-shrink-0" />
+            {attachments
+              ? `${attachments.activities} activities and ${attachments.files} files will move to the new contact${createDeal ? ' and deal' : ''}.`
+              : 'Checking activities and files...'}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isConverting}>
+            Cancel
+          </Button>
+          <Button onClick={handleConvert} disabled={isConverting} className="bg-gradient-to-r from-blue-600 to-purple-600">
+            {isConverting ? 'Converting...' : 'Convert Lead'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LeadConversionDialog;
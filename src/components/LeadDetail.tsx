@@ -10,6 +10,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery } from '@tanstack/react-query';
 import ActivityForm from './ActivityForm';
+import EmailThreadView from './EmailThreadView';
 
 interface LeadDetailProps {
   leadId: string;
@@ -217,9 +218,10 @@ const LeadDetail = ({ leadId, onClose }: LeadDetailProps) => {
 
       {/* Tabs Navigation */}
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid grid-cols-2 w-full">
+        <TabsList className="grid grid-cols-3 w-full">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="activities">Activities ({activities.length})</TabsTrigger>
+          <TabsTrigger value="emails">Emails</TabsTrigger>
         </TabsList>
 
         {/* Overview Tab */}
@@ -366,6 +368,11 @@ const LeadDetail = ({ leadId, onClose }: LeadDetailProps) => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Emails Tab */}
+        <TabsContent value="emails">
+          <EmailThreadView leadId={leadId} />
+        </TabsContent>
       </Tabs>
 
       {/* Activity Form */}
@@ -8,6 +8,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useLeadEmbeddings } from '@/hooks/useLeadEmbeddings';
+import { runLeadAssignment } from '@/lib/assignment';
 
 interface LeadFormProps {
   open: boolean;
@@ -113,6 +114,8 @@ const LeadForm = ({ open, onOpenChange, onLeadCreated }: LeadFormProps) => {
           console.error('[LeadForm] Error generating lead embedding:', embeddingError);
           // Don't fail the operation if embedding generation fails
         }
+
+        await runLeadAssignment(user.id, [newLead.id]);
       }
 
       toast({
@@ -9,6 +9,8 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Progress } from '@/components/ui/progress';
 import { UserPlus, TrendingUp, Target, Users, Search, Filter, ArrowUpDown, SortAsc, SortDesc, Plus, Mail, Phone, Calendar, MessageSquare, Edit, Trash2, Brain, Zap, Star, Clock, TrendingDown, Activity, ClipboardList, User, Linkedin } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { expectChangedRows, ownedByFilter } from '@/lib/teams';
+import { runLeadAssignment } from '@/lib/assignment';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery } from '@tanstack/react-query';
@@ -17,6 +19,7 @@ import { analyzeSmartLeads, type SmartLeadResponse, type SmartLeadAnalysis, gene
 import EmailComposer from './EmailComposer';
 import ActivityForm from './ActivityForm';
 import LeadActivities from './LeadActivities';
+import LeadConversionDialog from './LeadConversionDialog';
 import { CustomerPersona } from '@/lib/ai/types';
 import { Lightbulb } from 'lucide-react';
 import { Textarea } from '@/components/ui/textarea';
@@ -32,6 +35,8 @@ interface Lead {
   source: string;
   score: number;
   created_at: string;
+  converted_contact_id: string | null;
+  converted_at: string | null;
 }
 
 interface Activity {
@@ -55,6 +60,7 @@ const LeadManagement = () => {
   const [showLeadForm, setShowLeadForm] = useState(false);
   const [editingLead, setEditingLead] = useState<Lead | null>(null);
   const [deletingLead, setDeletingLead] = useState<Lead | null>(null);
+  const [convertingLead, setConvertingLead] = useState<Lead | null>(null);
   const [sortField, setSortField] = useState<SortField>('created_at');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [statusFilter, setStatusFilter] = useState<string>('all');
@@ -119,7 +125,7 @@ const LeadManagement = () => {
       const { data, error } = await supabase
         .from('leads')
         .select('*')
-        .eq('user_id', user.id)
+        .or(ownedByFilter(user.id))
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -140,7 +146,9 @@ const LeadManagement = () => {
         status: lead.status || 'new',
         source: lead.source || 'manual',
         score: lead.score || 0,
-        created_at: lead.created_at
+        created_at: lead.created_at,
+        converted_contact_id: lead.converted_contact_id,
+        converted_at: lead.converted_at
       }));
     },
     enabled: !!user,
@@ -155,7 +163,7 @@ const LeadManagement = () => {
       const { data, error } = await supabase
         .from('contacts')
         .select('id, name, email, company, status, score, created_at')
-        .eq('user_id', user.id);
+        .or(ownedByFilter(user.id));
 
       if (error) {
         console.error('Error loading contacts:', error);
@@ -176,7 +184,7 @@ const LeadManagement = () => {
       const { data, error } = await supabase
         .from('deals')
         .select('id, title, value, stage, outcome, contact_id, created_at')
-        .eq('user_id', user.id);
+        .or(ownedByFilter(user.id));
 
       if (error) {
         console.error('Error loading deals:', error);
@@ -266,7 +274,7 @@ const LeadManagement = () => {
             bValue = b.score || 0;
             break;
           case 'status':
-            const statusOrder = { 'new': 1, 'contacted': 2, 'qualified': 3, 'unqualified': 4 };
+            const statusOrder = { 'new': 1, 'contacted': 2, 'qualified': 3, 'unqualified': 4, 'converted': 5 };
             aValue = statusOrder[a.status as keyof typeof statusOrder] || 0;
             bValue = statusOrder[b.status as keyof typeof statusOrder] || 0;
             break;
@@ -373,7 +381,7 @@ const LeadManagement = () => {
     }
 
     try {
-      const { error } = await supabase
+      const { data: changed, error } = await supabase
         .from('leads')
         .update({
           name: editForm.name.trim(),
@@ -384,9 +392,10 @@ const LeadManagement = () => {
           source: editForm.source
         })
         .eq('id', editingLead.id)
-        .eq('user_id', user.id);
+        .select('id');
 
       if (error) throw error;
+      expectChangedRows(changed, 'lead');
 
       toast({
         title: "Lead updated",
@@ -408,13 +417,14 @@ const LeadManagement = () => {
     if (!deletingLead || !user) return;
 
     try {
-      const { error } = await supabase
+      const { data: changed, error } = await supabase
         .from('leads')
         .delete()
         .eq('id', deletingLead.id)
-        .eq('user_id', user.id);
+        .select('id');
 
       if (error) throw error;
+      expectChangedRows(changed, 'lead');
 
       toast({
         title: "Lead deleted",
@@ -432,50 +442,6 @@ const LeadManagement = () => {
     }
   };
 
-  const convertToContact = async (lead: Lead) => {
-    if (!user) return;
-
-    try {
-      // Create contact from lead
-      const { error: contactError } = await supabase
-        .from('contacts')
-        .insert({
-          user_id: user.id,
-          name: lead.name,
-          email: lead.email,
-          company: lead.company,
-          phone: lead.phone,
-          status: 'Qualified',
-          score: lead.score,
-          persona: 'Converted from lead'
-        });
-
-      if (contactError) throw contactError;
-
-      // Delete the lead
-      const { error: deleteError } = await supabase
-        .from('leads')
-        .delete()
-        .eq('id', lead.id)
-        .eq('user_id', user.id);
-
-      if (deleteError) throw deleteError;
-
-      toast({
-        title: "Lead converted!",
-        description: "Lead has been successfully converted to a contact.",
-      });
-
-      refetch();
-    } catch (error: any) {
-      toast({
-        title: "Error converting lead",
-        description: error.message,
-        variant: "destructive",
-      });
-    }
-  };
-
   const handleSmartLeadAnalysis = async (query?: string) => {
     if (leads.length === 0) {
       toast({
@@ -580,6 +546,7 @@ const LeadManagement = () => {
       case 'contacted': return 'bg-yellow-100 text-yellow-800';
       case 'qualified': return 'bg-green-100 text-green-800';
       case 'unqualified': return 'bg-red-100 text-red-800';
+      case 'converted': return 'bg-purple-100 text-purple-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -604,7 +571,8 @@ const LeadManagement = () => {
   // Calculate lead metrics
   const totalLeads = leads.length;
   const qualifiedLeads = leads.filter(lead => lead.status === 'qualified').length;
-  const conversionRate = totalLeads > 0 ? ((qualifiedLeads / totalLeads) * 100).toFixed(1) : '0';
+  const convertedLeads = leads.filter(lead => lead.converted_contact_id).length;
+  const conversionRate = totalLeads > 0 ? ((convertedLeads / totalLeads) * 100).toFixed(1) : '0';
   const averageScore = totalLeads > 0 ? (leads.reduce((sum, lead) => sum + lead.score, 0) / totalLeads).toFixed(1) : '0';
 
   // Add function to handle email action
@@ -738,6 +706,10 @@ const LeadManagement = () => {
         .select();
         
       if (error) throw error;
+
+      if (user && data?.length) {
+        await runLeadAssignment(user.id, data.map(lead => lead.id));
+      }
       
       toast({
         title: "Lead added successfully",
@@ -857,7 +829,7 @@ const LeadManagement = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-slate-900">{conversionRate}%</div>
-            <p className="text-xs text-slate-600">Lead to qualified</p>
+            <p className="text-xs text-slate-600">Lead to contact</p>
           </CardContent>
         </Card>
 
@@ -933,6 +905,7 @@ const LeadManagement = () => {
                     <SelectItem value="contacted">Contacted</SelectItem>
                     <SelectItem value="qualified">Qualified</SelectItem>
                     <SelectItem value="unqualified">Unqualified</SelectItem>
+                    <SelectItem value="converted">Converted</SelectItem>
                   </SelectContent>
                 </Select>
 
@@ -1091,15 +1064,17 @@ const LeadManagement = () => {
                                 <Phone className="w-4 h-4 mr-1" />
                                 Call
                               </Button>
-                              <Button 
-                                size="sm" 
-                                variant="outline" 
-                                onClick={() => convertToContact(lead)}
-                                className="hover:bg-green-50 text-green-600"
-                              >
-                                <UserPlus className="w-4 h-4 mr-1" />
-                                Convert
-                              </Button>
+                              {!lead.converted_contact_id && (
+                                <Button 
+                                  size="sm" 
+                                  variant="outline" 
+                                  onClick={() => setConvertingLead(lead)}
+                                  className="hover:bg-green-50 text-green-600"
+                                >
+                                  <UserPlus className="w-4 h-4 mr-1" />
+                                  Convert
+                                </Button>
+                              )}
                               <Button 
                                 size="sm" 
                                 variant="outline" 
@@ -1284,6 +1259,14 @@ const LeadManagement = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Lead Conversion */}
+      <LeadConversionDialog
+        lead={convertingLead}
+        open={!!convertingLead}
+        onOpenChange={(open) => !open && setConvertingLead(null)}
+        onConverted={() => refetch()}
+      />
+
       {/* Activity Form */}
       <ActivityForm 
         open={showActivityForm}
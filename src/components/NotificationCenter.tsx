@@ -1,144 +1,109 @@
-import { useState, useEffect } from 'react';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { Bell, Check, X, AlertCircle, Info, CheckCircle, AlertTriangle } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Bell, Check, X, AlertCircle, Info, CheckCircle, AlertTriangle, Mail, MailOpen, Settings } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-
-interface Notification {
-  id: string;
-  title: string;
-  message: string;
-  type: 'info' | 'success' | 'warning' | 'error';
-  read: boolean;
-  created_at: string;
-  action_url?: string;
-  metadata?: any;
-}
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_PREFERENCE_OPTIONS,
+  NOTIFICATION_SOURCE_LABELS,
+  countUnreadNotifications,
+  deleteNotification,
+  fetchNotificationPreferences,
+  fetchNotifications,
+  markAllNotificationsRead,
+  saveNotificationPreferences,
+  setNotificationRead,
+  type AppNotification,
+  type NotificationPreferences,
+  type NotificationSource
+} from '@/lib/notifications';
 
 interface NotificationCenterProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  // Show the record a notification is about, e.g. by switching to its tab
+  onOpenRecord?: (entityType: string, recordId: string) => void;
 }
 
-const NotificationCenter = ({ open, onOpenChange }: NotificationCenterProps) => {
+const NotificationCenter = ({ open, onOpenChange, onOpenRecord }: NotificationCenterProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
 
-  // In a real implementation, this would come from a notifications table
-  // For now, we'll simulate notifications based on activities and deals
+  // Realtime inserts invalidate this key, see useNotificationFeed
   const { data: notifications = [], isLoading } = useQuery({
-    queryKey: ['notifications', user?.id],
-    queryFn: async () => {
-      if (!user) return [];
-      
-      // Simulate notifications based on recent activities and overdue tasks
-      const [activitiesResult, dealsResult] = await Promise.all([
-        supabase
-          .from('activities')
-          .select('*')
-          .eq('user_id', user.id)
-          .eq('status', 'pending')
-          .lt('due_date', new Date().toISOString())
-          .order('due_date', { ascending: false })
-          .limit(10),
-        supabase
-          .from('deals')
-          .select('*')
-          .eq('user_id', user.id)
-          .order('created_at', { ascending: false })
-          .limit(5)
-      ]);
-
-      const notifications: Notification[] = [];
-
-      // Add overdue activity notifications
-      if (activitiesResult.data) {
-        activitiesResult.data.forEach(activity => {
-          notifications.push({
-            id: `activity-${activity.id}`,
-            title: 'Overdue Activity',
-            message: `"${activity.subject}" was due on ${new Date(activity.due_date).toLocaleDateString()}`,
-            type: 'warning',
-            read: false,
-            created_at: activity.due_date,
-            action_url: '/activities',
-            metadata: { activityId: activity.id }
-          });
-        });
-      }
-
-      // Add new deal notifications
-      if (dealsResult.data) {
-        const recentDeals = dealsResult.data.filter(deal => {
-          const createdAt = new Date(deal.created_at);
-          const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-          return createdAt > dayAgo;
-        });
+    queryKey: ['notifications', user?.id, unreadOnly],
+    queryFn: () => fetchNotifications(user!.id, unreadOnly),
+    enabled: !!user && open,
+  });
 
-        recentDeals.forEach(deal => {
-          notifications.push({
-            id: `deal-${deal.id}`,
-            title: 'New Deal Created',
-            message: `Deal "${deal.title}" has been added to your pipeline`,
-            type: 'success',
-            read: false,
-            created_at: deal.created_at,
-            action_url: '/pipeline',
-            metadata: { dealId: deal.id }
-          });
-        });
-      }
+  const { data: preferences = DEFAULT_NOTIFICATION_PREFERENCES } = useQuery({
+    queryKey: ['notification-preferences', user?.id],
+    queryFn: () => fetchNotificationPreferences(user!.id),
+    enabled: !!user && open,
+  });
 
-      // Add some system notifications
-      notifications.push({
-        id: 'welcome',
-        title: 'Welcome to SalesAI CRM',
-        message: 'Your AI-powered sales assistant is ready to help you close more deals!',
-        type: 'info',
-        read: false,
-        created_at: new Date().toISOString(),
-        action_url: '/ai-coach'
-      });
+  const refreshNotifications = () => {
+    queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    queryClient.invalidateQueries({ queryKey: ['notification-count'] });
+  };
 
-      return notifications.sort((a, b) => 
-        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      );
-    },
-    enabled: !!user && open,
-    refetchInterval: 30000, // Refetch every 30 seconds for real-time updates
+  const setReadMutation = useMutation({
+    mutationFn: ({ id, read }: { id: string; read: boolean }) => setNotificationRead(id, read),
+    onSuccess: refreshNotifications,
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
   });
 
-  const markAsReadMutation = useMutation({
-    mutationFn: async (notificationId: string) => {
-      // In a real implementation, this would update the notification in the database
-      // For now, we'll just simulate the action
-      return Promise.resolve();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+  const deleteMutation = useMutation({
+    mutationFn: deleteNotification,
+    onSuccess: refreshNotifications,
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
     }
   });
 
   const markAllAsReadMutation = useMutation({
-    mutationFn: async () => {
-      // In a real implementation, this would mark all notifications as read
-      return Promise.resolve();
-    },
+    mutationFn: () => markAllNotificationsRead(user!.id),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+      refreshNotifications();
       toast({
         title: "All notifications marked as read",
         description: "Your notification center has been cleared.",
       });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const preferencesMutation = useMutation({
+    mutationFn: (next: NotificationPreferences) => saveNotificationPreferences(user!.id, next),
+    onMutate: (next) => {
+      queryClient.setQueryData(['notification-preferences', user?.id], next);
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['notification-preferences'] });
+      toast({ title: "Error saving preferences", description: error.message, variant: "destructive" });
     }
   });
 
+  const openRecord = (notification: AppNotification) => {
+    if (!notification.entity_type || !notification.record_id || !onOpenRecord) return;
+    if (!notification.read_at) setReadMutation.mutate({ id: notification.id, read: true });
+    onOpenRecord(notification.entity_type, notification.record_id);
+    onOpenChange(false);
+  };
+
   const getNotificationIcon = (type: string) => {
     switch (type) {
       case 'success': return CheckCircle;
@@ -157,7 +122,7 @@ const NotificationCenter = ({ open, onOpenChange }: NotificationCenterProps) =>
     }
   };
 
-  const unreadCount = notifications.filter(n => !n.read).length;
+  const unreadCount = useNotificationCount();
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -173,126 +138,159 @@ const NotificationCenter = ({ open, onOpenChange }: NotificationCenterProps) =>
                 </Badge>
               )}
             </div>
-            {notifications.length > 0 && (
+            <div className="flex items-center gap-2">
+              {unreadCount > 0 && !showPreferences && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => markAllAsReadMutation.mutate()}
+                  disabled={markAllAsReadMutation.isPending}
+                >
+                  <Check className="w-4 h-4 mr-1" />
+                  Mark all read
+                </Button>
+              )}
               <Button
                 size="sm"
-                variant="outline"
-                onClick={() => markAllAsReadMutation.mutate()}
-                disabled={markAllAsReadMutation.isPending}
+                variant={showPreferences ? 'default' : 'outline'}
+                onClick={() => setShowPreferences(!showPreferences)}
+                title="Notification preferences"
               >
-                <Check className="w-4 h-4 mr-1" />
-                Mark all read
+                <Settings className="w-4 h-4" />
               </Button>
-            )}
+            </div>
           </div>
           <DialogDescription>
-            Stay updated with your latest activities and important alerts
+            Mentions, replies, assignments, closed deals and due tasks
           </DialogDescription>
         </DialogHeader>
 
-        <div className="flex-1 overflow-y-auto">
-          {isLoading ? (
-            <div className="flex items-center justify-center py-8">
-              <div className="text-slate-600">Loading notifications...</div>
-            </div>
-          ) : notifications.length === 0 ? (
-            <div className="flex flex-col items-center justify-center py-8 text-center">
-              <Bell className="w-12 h-12 text-slate-400 mb-4" />
-              <h3 className="text-lg font-medium text-slate-900 mb-2">No notifications</h3>
-              <p className="text-slate-600">You're all caught up! Check back later for updates.</p>
-            </div>
-          ) : (
-            <div className="space-y-3">
-              {notifications.map((notification) => {
-                const IconComponent = getNotificationIcon(notification.type);
-                return (
-                  <Card 
-                    key={notification.id} 
-                    className={`border transition-all duration-200 hover:shadow-md ${
-                      notification.read ? 'opacity-60' : ''
-                    } ${getNotificationColor(notification.type)}`}
-                  >
-                    <CardContent className="p-4">
-                      <div className="flex items-start space-x-3">
-                        <IconComponent className="w-5 h-5 mt-0.5 flex-shrink-0" />
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-start justify-between">
-                            <div className="flex-1">
-                              <h4 className="font-medium text-slate-900 text-sm">
-                                {notification.title}
-                              </h4>
-                              <p className="text-sm text-slate-600 mt-1">
-                                {notification.message}
-                              </p>
-                              <p className="text-xs text-slate-500 mt-2">
-                                {new Date(notification.created_at).toLocaleString()}
-                              </p>
+        {showPreferences ? (
+          <div className="flex-1 overflow-y-auto space-y-4">
+            {NOTIFICATION_PREFERENCE_OPTIONS.map(option => (
+              <label key={option.key} className="flex items-start justify-between gap-4 p-3 border border-slate-200 rounded-lg">
+                <div>
+                  <div className="text-sm font-medium text-slate-900">{option.label}</div>
+                  <div className="text-xs text-slate-500">{option.description}</div>
+                </div>
+                <Switch
+                  checked={preferences[option.key]}
+                  onCheckedChange={(checked) => preferencesMutation.mutate({ ...preferences, [option.key]: checked })}
+                />
+              </label>
+            ))}
+          </div>
+        ) : (
+          <>
+          <div className="flex gap-2">
+            <Button size="sm" variant={unreadOnly ? 'outline' : 'default'} onClick={() => setUnreadOnly(false)}>
+              All
+            </Button>
+            <Button size="sm" variant={unreadOnly ? 'default' : 'outline'} onClick={() => setUnreadOnly(true)}>
+              Unread{unreadCount > 0 ? ` (${unreadCount})` : ''}
+            </Button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="text-slate-600">Loading notifications...</div>
+              </div>
+            ) : notifications.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-8 text-center">
+                <Bell className="w-12 h-12 text-slate-400 mb-4" />
+                <h3 className="text-lg font-medium text-slate-900 mb-2">No notifications</h3>
+                <p className="text-slate-600">You're all caught up! Check back later for updates.</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {notifications.map((notification) => {
+                  const IconComponent = getNotificationIcon(notification.type);
+                  const read = !!notification.read_at;
+                  const sourceLabel = NOTIFICATION_SOURCE_LABELS[notification.source as NotificationSource];
+                  return (
+                    <Card 
+                      key={notification.id} 
+                      className={`border transition-all duration-200 hover:shadow-md ${
+                        read ? 'opacity-60' : ''
+                      } ${getNotificationColor(notification.type)}`}
+                    >
+                      <CardContent className="p-4">
+                        <div className="flex items-start space-x-3">
+                          <IconComponent className="w-5 h-5 mt-0.5 flex-shrink-0" />
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-start justify-between">
+                              <div className="flex-1">
+                                <div className="flex items-center gap-2">
+                                  <h4 className="font-medium text-slate-900 text-sm">
+                                    {notification.title}
+                                  </h4>
+                                  {sourceLabel && (
+                                    <Badge variant="outline" className="text-xs bg-white/70">{sourceLabel}</Badge>
+                                  )}
+                                </div>
+                                {notification.message && (
+                                  <p className="text-sm text-slate-600 mt-1 whitespace-pre-wrap">
+                                    {notification.message}
+                                  </p>
+                                )}
+                                <p className="text-xs text-slate-500 mt-2">
+                                  {new Date(notification.created_at).toLocaleString()}
+                                </p>
+                              </div>
+                              <div className="flex items-center ml-2 flex-shrink-0">
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => setReadMutation.mutate({ id: notification.id, read: !read })}
+                                  title={read ? 'Mark as unread' : 'Mark as read'}
+                                >
+                                  {read ? <Mail className="w-4 h-4" /> : <MailOpen className="w-4 h-4" />}
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => deleteMutation.mutate(notification.id)}
+                                  title="Delete"
+                                >
+                                  <X className="w-4 h-4" />
+                                </Button>
+                              </div>
                             </div>
-                            {!notification.read && (
+                            {notification.entity_type && notification.record_id && onOpenRecord && (
                               <Button
                                 size="sm"
-                                variant="ghost"
-                                onClick={() => markAsReadMutation.mutate(notification.id)}
-                                className="ml-2 flex-shrink-0"
+                                variant="outline"
+                                className="mt-2"
+                                onClick={() => openRecord(notification)}
                               >
-                                <X className="w-4 h-4" />
+                                View Details
                               </Button>
                             )}
                           </div>
-                          {notification.action_url && (
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              className="mt-2"
-                              onClick={() => {
-                                // In a real app, this would navigate to the action URL
-                                toast({
-                                  title: "Navigation",
-                                  description: `Would navigate to ${notification.action_url}`,
-                                });
-                                markAsReadMutation.mutate(notification.id);
-                              }}
-                            >
-                              View Details
-                            </Button>
-                          )}
                         </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                );
-              })}
-            </div>
-          )}
-        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+          </>
+        )}
       </DialogContent>
     </Dialog>
   );
 };
 
-// Hook for notification count (to be used in header)
+// Unread count for the header bell
 export const useNotificationCount = () => {
   const { user } = useAuth();
-  
+
   const { data: count = 0 } = useQuery({
     queryKey: ['notification-count', user?.id],
-    queryFn: async () => {
-      if (!user) return 0;
-      
-      // Simulate getting unread count
-      const [activitiesResult] = await Promise.all([
-        supabase
-          .from('activities')
-          .select('id', { count: 'exact' })
-          .eq('user_id', user.id)
-          .eq('status', 'pending')
-          .lt('due_date', new Date().toISOString())
-      ]);
-
-      return (activitiesResult.count || 0) + 1; // +1 for welcome message
-    },
+    queryFn: () => countUnreadNotifications(user!.id),
     enabled: !!user,
-    refetchInterval: 60000, // Refetch every minute
   });
 
   return count;
@@ -0,0 +1,315 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, Save, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { usePipelines } from '@/hooks/usePipelines';
+import {
+  DEFAULT_PIPELINE_STAGES,
+  deletePipeline,
+  savePipeline,
+  validateStages,
+  type Pipeline,
+  type PipelineStage
+} from '@/lib/pipelines';
+
+interface PipelineSettingsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPipelinesChanged?: () => void;
+}
+
+interface PipelineDraft {
+  id?: string;
+  name: string;
+  is_default: boolean;
+  stages: PipelineStage[];
+}
+
+const NEW_PIPELINE_ID = 'new';
+
+const toDraft = (pipeline: Pipeline): PipelineDraft => ({
+  id: pipeline.id,
+  name: pipeline.name,
+  is_default: pipeline.is_default,
+  stages: pipeline.stages.map(stage => ({ ...stage }))
+});
+
+const PipelineSettings = ({ open, onOpenChange, onPipelinesChanged }: PipelineSettingsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { pipelines: visiblePipelines, defaultPipeline, refreshPipelines } = usePipelines();
+  // Teammates' pipelines are shared read-only
+  const pipelines = visiblePipelines.filter(pipeline => pipeline.user_id === user?.id);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [draft, setDraft] = useState<PipelineDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start on the default pipeline whenever the dialog opens
+  useEffect(() => {
+    if (open && !selectedId && defaultPipeline) {
+      setSelectedId(defaultPipeline.id);
+      setDraft(toDraft(defaultPipeline));
+    }
+    if (!open) {
+      setSelectedId('');
+      setDraft(null);
+    }
+  }, [open, selectedId, defaultPipeline]);
+
+  const selectPipeline = (id: string) => {
+    setSelectedId(id);
+    if (id === NEW_PIPELINE_ID) {
+      setDraft({
+        name: '',
+        is_default: false,
+        stages: DEFAULT_PIPELINE_STAGES.map(stage => ({ ...stage }))
+      });
+      return;
+    }
+    const pipeline = pipelines.find(p => p.id === id);
+    setDraft(pipeline ? toDraft(pipeline) : null);
+  };
+
+  const updateStage = (index: number, changes: Partial<PipelineStage>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      stages: draft.stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage))
+    });
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    if (!draft) return;
+    const target = index + direction;
+    if (target < 0 || target >= draft.stages.length) return;
+    const stages = [...draft.stages];
+    [stages[index], stages[target]] = [stages[target], stages[index]];
+    setDraft({ ...draft, stages });
+  };
+
+  const removeStage = (index: number) => {
+    if (!draft) return;
+    setDraft({ ...draft, stages: draft.stages.filter((_, i) => i !== index) });
+  };
+
+  const addStage = () => {
+    if (!draft) return;
+    // New stages go before the first won/lost stage so closed stages stay at the end
+    const firstClosed = draft.stages.findIndex(stage => stage.outcome !== null);
+    const insertAt = firstClosed === -1 ? draft.stages.length : firstClosed;
+    const stages = [...draft.stages];
+    stages.splice(insertAt, 0, { name: '', probability: 50, outcome: null });
+    setDraft({ ...draft, stages });
+  };
+
+  const handleSave = async () => {
+    if (!user || !draft) return;
+
+    const validationError = !draft.name.trim() ? 'Pipeline name is required' : validateStages(draft.stages);
+    if (validationError) {
+      toast({
+        title: "Error",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await savePipeline(user.id, draft);
+      await refreshPipelines();
+      setSelectedId(saved.id);
+      setDraft(toDraft(saved));
+      onPipelinesChanged?.();
+
+      toast({
+        title: "Pipeline saved",
+        description: `"${saved.name}" has been updated.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error saving pipeline",
+        description: error instanceof Error ? error.message : 'Failed to save pipeline',
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user || !draft?.id || !defaultPipeline) return;
+    const pipeline = pipelines.find(p => p.id === draft.id);
+    if (!pipeline) return;
+
+    try {
+      await deletePipeline(user.id, pipeline, defaultPipeline.id);
+      await refreshPipelines();
+      setSelectedId(defaultPipeline.id);
+      setDraft(toDraft(defaultPipeline));
+      onPipelinesChanged?.();
+
+      toast({
+        title: "Pipeline deleted",
+        description: `Deals in "${pipeline.name}" were moved to "${defaultPipeline.name}".`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error deleting pipeline",
+        description: error instanceof Error ? error.message : 'Failed to delete pipeline',
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Manage Pipelines</DialogTitle>
+          <DialogDescription>
+            Define the ordered stages for each pipeline, their default win probability and which stages close a deal as won or lost.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Select value={selectedId} onValueChange={selectPipeline}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Select a pipeline" />
+              </SelectTrigger>
+              <SelectContent>
+                {pipelines.map(pipeline => (
+                  <SelectItem key={pipeline.id} value={pipeline.id}>
+                    {pipeline.name}{pipeline.is_default ? ' (default)' : ''}
+                  </SelectItem>
+                ))}
+                <SelectItem value={NEW_PIPELINE_ID}>+ New pipeline</SelectItem>
+              </SelectContent>
+            </Select>
+            {draft?.id && !draft.is_default && (
+              <Button variant="outline" size="sm" onClick={handleDelete} className="hover:bg-red-50 text-red-600">
+                <Trash2 className="w-4 h-4 mr-1" />
+                Delete
+              </Button>
+            )}
+          </div>
+
+          {draft && (
+            <>
+              <div className="grid grid-cols-2 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="pipeline-name">Pipeline Name *</Label>
+                  <Input
+                    id="pipeline-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="Renewals"
+                  />
+                </div>
+                <div className="flex items-center space-x-2 pb-2">
+                  <Switch
+                    id="pipeline-default"
+                    checked={draft.is_default}
+                    disabled={!!draft.id && pipelines.find(p => p.id === draft.id)?.is_default}
+                    onCheckedChange={(checked) => setDraft({ ...draft, is_default: checked })}
+                  />
+                  <Label htmlFor="pipeline-default">Default pipeline for new deals</Label>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="grid grid-cols-12 gap-2 text-xs font-medium text-slate-600 px-1">
+                  <span className="col-span-5">Stage</span>
+                  <span className="col-span-2">Probability %</span>
+                  <span className="col-span-2">Closes as</span>
+                  <span className="col-span-3" />
+                </div>
+                {draft.stages.map((stage, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <Input
+                      className="col-span-5"
+                      value={stage.name}
+                      onChange={(e) => updateStage(index, { name: e.target.value })}
+                      placeholder="Stage name"
+                    />
+                    <Input
+                      className="col-span-2"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={stage.probability}
+                      onChange={(e) => updateStage(index, { probability: Number(e.target.value) })}
+                    />
+                    <div className="col-span-2">
+                      <Select
+                        value={stage.outcome || 'open'}
+                        onValueChange={(value) => updateStage(index, {
+                          outcome: value === 'open' ? null : value as 'won' | 'lost',
+                          ...(value === 'won' ? { probability: 100 } : value === 'lost' ? { probability: 0 } : {})
+                        })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="open">Open</SelectItem>
+                          <SelectItem value="won">Won</SelectItem>
+                          <SelectItem value="lost">Lost</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="col-span-3 flex items-center justify-end space-x-1">
+                      {stage.outcome && (
+                        <Badge variant="outline" className={stage.outcome === 'won' ? 'text-green-600' : 'text-red-600'}>
+                          {stage.outcome === 'won' ? '🏆' : '❌'}
+                        </Badge>
+                      )}
+                      <Button type="button" size="sm" variant="ghost" onClick={() => moveStage(index, -1)} disabled={index === 0}>
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button type="button" size="sm" variant="ghost" onClick={() => moveStage(index, 1)} disabled={index === draft.stages.length - 1}>
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                      <Button type="button" size="sm" variant="ghost" onClick={() => removeStage(index)} className="text-red-600">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <Button type="button" variant="outline" size="sm" onClick={addStage}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Stage
+                </Button>
+              </div>
+
+              <p className="text-xs text-slate-500">
+                Renaming a stage does not update deals already in it. Deals keep their stage name until they are moved.
+              </p>
+
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => onOpenChange(false)}>
+                  Close
+                </Button>
+                <Button onClick={handleSave} disabled={isSaving}>
+                  <Save className="w-4 h-4 mr-1" />
+                  {isSaving ? 'Saving...' : 'Save Pipeline'}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PipelineSettings;
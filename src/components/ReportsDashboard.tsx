@@ -1,14 +1,85 @@
+import { useMemo, useRef, useState, type ReactNode } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell } from 'recharts';
-import { TrendingUp, DollarSign, Users, Activity, Target, Calendar } from 'lucide-react';
+import { TrendingUp, DollarSign, Users, Target, Calendar, Download, Image as ImageIcon, X, Timer } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { usePipelines } from '@/hooks/usePipelines';
+import { downloadCSV, downloadChartAsPNG } from '@/lib/export';
+import {
+  computeActivityMix,
+  computeLeadFunnel,
+  computeMonthlyWonRevenue,
+  computePipelineByStage,
+  computeReportSummary,
+  filterDealsByOwnerAndPipeline,
+  type ReportFilters
+} from '@/lib/reports';
+import { computeStageVelocity, findSlowestDeals } from '@/lib/velocity';
+
+interface ChartCardProps {
+  title: string;
+  exportName: string;
+  rows: object[];
+  children: ReactNode;
+}
+
+// Card wrapper that adds CSV/PNG export for the chart it contains
+const ChartCard = ({ title, exportName, rows, children }: ChartCardProps) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+  const fileStem = `${exportName}_${new Date().toISOString().split('T')[0]}`;
+
+  const handlePngExport = async () => {
+    try {
+      await downloadChartAsPNG(chartRef.current, `${fileStem}.png`);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : 'Could not export chart',
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>{title}</CardTitle>
+        <div className="flex space-x-1">
+          <Button variant="ghost" size="sm" onClick={() => downloadCSV(rows, `${fileStem}.csv`)} disabled={rows.length === 0} title="Export CSV">
+            <Download className="w-4 h-4 mr-1" />
+            CSV
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handlePngExport} title="Export PNG">
+            <ImageIcon className="w-4 h-4 mr-1" />
+            PNG
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div ref={chartRef}>{children}</div>
+      </CardContent>
+    </Card>
+  );
+};
 
 const ReportsDashboard = () => {
   const { user } = useAuth();
+  const { toast } = useToast();
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [ownerId, setOwnerId] = useState('all');
+  const [pipelineId, setPipelineId] = useState('all');
+  const { pipelines } = usePipelines();
 
   // Fetch sales performance data
   const { data: salesData } = useQuery({
@@ -16,26 +87,52 @@ const ReportsDashboard = () => {
     queryFn: async () => {
       if (!user) return null;
 
-      const [dealsResult, activitiesResult, leadsResult, contactsResult] = await Promise.all([
-        supabase.from('deals').select('*').eq('user_id', user.id),
-        supabase.from('activities').select('*').eq('user_id', user.id),
-        supabase.from('leads').select('*').eq('user_id', user.id),
-        supabase.from('contacts').select('*').eq('user_id', user.id)
+      // Row level security limits each table to the records the user may see, which for
+      // managers includes their team's
+      const [dealsResult, activitiesResult, leadsResult, contactsResult, historyResult] = await Promise.all([
+        supabase.from('deals').select('*'),
+        supabase.from('activities').select('*'),
+        supabase.from('leads').select('*'),
+        supabase.from('contacts').select('*'),
+        supabase.from('deal_stage_history').select('*').order('changed_at', { ascending: true })
       ]);
 
+      const error = [dealsResult, activitiesResult, leadsResult, contactsResult, historyResult].find(result => result.error)?.error;
+      if (error) {
+        toast({
+          title: "Error loading reports",
+          description: error.message,
+          variant: "destructive",
+        });
+        return null;
+      }
+
       const deals = dealsResult.data || [];
       const activities = activitiesResult.data || [];
       const leads = leadsResult.data || [];
       const contacts = contactsResult.data || [];
+      const stageHistory = historyResult.data || [];
+
+      // Resolve owner names for the owner filter
+      const ownerIds = Array.from(new Set([
+        ...[...deals, ...leads].map(row => row.owner_id || row.user_id),
+        ...activities.map(activity => activity.user_id)
+      ]));
+      const { data: owners } = ownerIds.length > 0
+        ? await supabase.from('profiles').select('id, first_name, last_name, email').in('id', ownerIds)
+        : { data: [] };
 
       return {
         deals,
         activities,
         leads,
         contacts,
-        totalRevenue: deals.reduce((sum, deal) => sum + Number(deal.value || 0), 0),
-        avgDealSize: deals.length > 0 ? deals.reduce((sum, deal) => sum + Number(deal.value || 0), 0) / deals.length : 0,
-        conversionRate: leads.length > 0 ? (deals.length / leads.length * 100) : 0
+        stageHistory,
+        owners: ownerIds.map(id => {
+          const profile = owners?.find(owner => owner.id === id);
+          const name = [profile?.first_name, profile?.last_name].filter(Boolean).join(' ');
+          return { id, name: id === user.id ? 'Me' : (name || profile?.email || 'Unknown') };
+        })
       };
     },
     enabled: !!user,
@@ -43,31 +140,42 @@ const ReportsDashboard = () => {
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 
-  // Sample data for charts
-  const dealsData = [
-    { stage: 'Discovery', count: 8, value: 120000 },
-    { stage: 'Proposal', count: 5, value: 85000 },
-    { stage: 'Negotiation', count: 3, value: 75000 },
-    { stage: 'Closing', count: 2, value: 45000 }
-  ];
-
-  const monthlyData = [
-    { month: 'Jan', revenue: 45000, deals: 12 },
-    { month: 'Feb', revenue: 52000, deals: 15 },
-    { month: 'Mar', revenue: 48000, deals: 11 },
-    { month: 'Apr', revenue: 61000, deals: 18 },
-    { month: 'May', revenue: 67000, deals: 20 },
-    { month: 'Jun', revenue: 73000, deals: 22 }
-  ];
-
-  const activityData = [
-    { name: 'Emails', value: 145, color: '#3b82f6' },
-    { name: 'Calls', value: 89, color: '#10b981' },
-    { name: 'Meetings', value: 34, color: '#f59e0b' },
-    { name: 'Tasks', value: 67, color: '#8b5cf6' }
-  ];
-
-  const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6'];
+  const filters: ReportFilters = useMemo(() => ({
+    from: fromDate ? new Date(`${fromDate}T00:00:00`) : null,
+    to: toDate ? new Date(`${toDate}T00:00:00`) : null,
+    ownerId,
+    pipelineId
+  }), [fromDate, toDate, ownerId, pipelineId]);
+
+  // Chart series computed from the live rows
+  const { dealsData, monthlyData, activityData, summary, leadFunnel, velocityData, slowestDeals } = useMemo(() => {
+    const deals = salesData?.deals || [];
+    const activities = salesData?.activities || [];
+    const leads = salesData?.leads || [];
+    const stageHistory = salesData?.stageHistory || [];
+    const velocityDeals = filterDealsByOwnerAndPipeline(deals, filters, pipelines);
+    const velocityPipelines = pipelines.filter(pipeline => !filters.pipelineId || filters.pipelineId === 'all' || pipeline.id === filters.pipelineId);
+
+    return {
+      dealsData: computePipelineByStage(deals, filters, pipelines),
+      monthlyData: computeMonthlyWonRevenue(deals, filters, pipelines),
+      activityData: computeActivityMix(activities, filters),
+      summary: computeReportSummary(deals, leads, filters, pipelines),
+      leadFunnel: computeLeadFunnel(leads, deals, filters, pipelines),
+      velocityData: computeStageVelocity(stageHistory, velocityDeals, velocityPipelines),
+      slowestDeals: findSlowestDeals(stageHistory, velocityDeals, velocityPipelines, 10)
+    };
+  }, [salesData, filters, pipelines]);
+
+  const maxStageValue = Math.max(...dealsData.map(stage => stage.value), 1);
+  const hasFilters = !!fromDate || !!toDate || ownerId !== 'all' || pipelineId !== 'all';
+
+  const clearFilters = () => {
+    setFromDate('');
+    setToDate('');
+    setOwnerId('all');
+    setPipelineId('all');
+  };
 
   return (
     <div className="space-y-6">
@@ -82,12 +190,61 @@ const ReportsDashboard = () => {
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {/* Report Filters */}
+          <div className="flex flex-wrap items-end gap-4 mb-6">
+            <div>
+              <Label htmlFor="report-from" className="text-sm text-slate-700">From</Label>
+              <Input id="report-from" type="date" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="report-to" className="text-sm text-slate-700">To</Label>
+              <Input id="report-to" type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+            <div className="w-48">
+              <Label className="text-sm text-slate-700">Owner</Label>
+              <Select value={ownerId} onValueChange={setOwnerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All owners" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All owners</SelectItem>
+                  {salesData?.owners.map(owner => (
+                    <SelectItem key={owner.id} value={owner.id}>{owner.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {pipelines.length > 1 && (
+              <div className="w-48">
+                <Label className="text-sm text-slate-700">Pipeline</Label>
+                <Select value={pipelineId} onValueChange={setPipelineId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All pipelines" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All pipelines</SelectItem>
+                    {pipelines.map(pipeline => (
+                      <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {hasFilters && (
+              <Button variant="ghost" size="sm" onClick={clearFilters}>
+                <X className="w-4 h-4 mr-1" />
+                Clear
+              </Button>
+            )}
+          </div>
+
           <Tabs defaultValue="overview" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-6">
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="deals">Deals</TabsTrigger>
-              <TabsTrigger value="contacts">Contacts</TabsTrigger>
+              <TabsTrigger value="funnel">Lead Funnel</TabsTrigger>
               <TabsTrigger value="activities">Activities</TabsTrigger>
+              <TabsTrigger value="velocity">Velocity</TabsTrigger>
               <TabsTrigger value="forecasting">Forecasting</TabsTrigger>
             </TabsList>
 
@@ -97,13 +254,13 @@ const ReportsDashboard = () => {
                   <CardContent className="p-6">
                     <div className="flex items-center justify-between">
                       <div>
-                        <p className="text-sm text-slate-600">Total Revenue</p>
-                        <p className="text-2xl font-bold">${salesData?.totalRevenue?.toLocaleString() || '0'}</p>
+                        <p className="text-sm text-slate-600">Won Revenue</p>
+                        <p className="text-2xl font-bold">${summary.wonRevenue.toLocaleString()}</p>
                       </div>
                       <DollarSign className="w-8 h-8 text-green-600" />
                     </div>
                     <div className="mt-2">
-                      <span className="text-sm text-green-600">+15.3% from last month</span>
+                      <span className="text-sm text-green-600">Win rate {summary.winRate.toFixed(1)}%</span>
                     </div>
                   </CardContent>
                 </Card>
@@ -113,12 +270,12 @@ const ReportsDashboard = () => {
                     <div className="flex items-center justify-between">
                       <div>
                         <p className="text-sm text-slate-600">Active Deals</p>
-                        <p className="text-2xl font-bold">{salesData?.deals?.length || 0}</p>
+                        <p className="text-2xl font-bold">{summary.openDeals}</p>
                       </div>
                       <Target className="w-8 h-8 text-blue-600" />
                     </div>
                     <div className="mt-2">
-                      <span className="text-sm text-blue-600">+8 new this month</span>
+                      <span className="text-sm text-blue-600">${summary.openPipelineValue.toLocaleString()} in pipeline</span>
                     </div>
                   </CardContent>
                 </Card>
@@ -127,13 +284,13 @@ const ReportsDashboard = () => {
                   <CardContent className="p-6">
                     <div className="flex items-center justify-between">
                       <div>
-                        <p className="text-sm text-slate-600">Conversion Rate</p>
-                        <p className="text-2xl font-bold">{salesData?.conversionRate?.toFixed(1) || '0'}%</p>
+                        <p className="text-sm text-slate-600">Lead Conversion</p>
+                        <p className="text-2xl font-bold">{summary.leadConversionRate.toFixed(1)}%</p>
                       </div>
                       <TrendingUp className="w-8 h-8 text-purple-600" />
                     </div>
                     <div className="mt-2">
-                      <span className="text-sm text-purple-600">+2.1% improvement</span>
+                      <span className="text-sm text-purple-600">Leads converted to contacts</span>
                     </div>
                   </CardContent>
                 </Card>
@@ -142,108 +299,122 @@ const ReportsDashboard = () => {
                   <CardContent className="p-6">
                     <div className="flex items-center justify-between">
                       <div>
-                        <p className="text-sm text-slate-600">Avg Deal Size</p>
-                        <p className="text-2xl font-bold">${salesData?.avgDealSize?.toLocaleString() || '0'}</p>
+                        <p className="text-sm text-slate-600">Avg Won Deal</p>
+                        <p className="text-2xl font-bold">${Math.round(summary.avgWonDealSize).toLocaleString()}</p>
                       </div>
                       <Users className="w-8 h-8 text-orange-600" />
                     </div>
                     <div className="mt-2">
-                      <span className="text-sm text-orange-600">+12% from last month</span>
+                      <span className="text-sm text-orange-600">${summary.weightedPipelineValue.toLocaleString()} weighted pipeline</span>
                     </div>
                   </CardContent>
                 </Card>
               </div>
 
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                <Card>
-                  <CardHeader>
-                    <CardTitle>Monthly Revenue Trend</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <ResponsiveContainer width="100%" height={300}>
-                      <LineChart data={monthlyData}>
-                        <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis dataKey="month" />
-                        <YAxis />
-                        <Tooltip />
-                        <Line type="monotone" dataKey="revenue" stroke="#3b82f6" strokeWidth={2} />
-                      </LineChart>
-                    </ResponsiveContainer>
-                  </CardContent>
-                </Card>
+                <ChartCard title="Monthly Won Revenue" exportName="monthly_won_revenue" rows={monthlyData}>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <LineChart data={monthlyData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="month" />
+                      <YAxis />
+                      <Tooltip />
+                      <Line type="monotone" dataKey="revenue" stroke="#3b82f6" strokeWidth={2} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </ChartCard>
 
-                <Card>
-                  <CardHeader>
-                    <CardTitle>Deals by Stage</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <ResponsiveContainer width="100%" height={300}>
-                      <BarChart data={dealsData}>
-                        <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis dataKey="stage" />
-                        <YAxis />
-                        <Tooltip />
-                        <Bar dataKey="count" fill="#3b82f6" />
-                      </BarChart>
-                    </ResponsiveContainer>
-                  </CardContent>
-                </Card>
+                <ChartCard title="Deals by Stage" exportName="deals_by_stage" rows={dealsData}>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={dealsData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="stage" />
+                      <YAxis allowDecimals={false} />
+                      <Tooltip />
+                      <Bar dataKey="count" fill="#3b82f6" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </ChartCard>
               </div>
             </TabsContent>
 
             <TabsContent value="deals" className="space-y-6">
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                <Card>
-                  <CardHeader>
-                    <CardTitle>Deal Value by Stage</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-4">
-                      {dealsData.map((stage, index) => (
-                        <div key={index} className="flex items-center justify-between">
-                          <div className="flex-1">
-                            <div className="flex justify-between mb-2">
-                              <span className="text-sm font-medium">{stage.stage}</span>
-                              <span className="text-sm text-slate-600">${stage.value.toLocaleString()}</span>
-                            </div>
-                            <Progress value={(stage.value / 120000) * 100} className="h-2" />
+                <ChartCard title="Pipeline Value by Stage" exportName="pipeline_value_by_stage" rows={dealsData}>
+                  <div className="space-y-4">
+                    {dealsData.map((stage) => (
+                      <div key={stage.stage} className="flex items-center justify-between">
+                        <div className="flex-1">
+                          <div className="flex justify-between mb-2">
+                            <span className="text-sm font-medium">{stage.stage}</span>
+                            <span className="text-sm text-slate-600">
+                              ${stage.value.toLocaleString()}
+                              <span className="text-slate-400"> (${stage.weightedValue.toLocaleString()} weighted)</span>
+                            </span>
                           </div>
+                          <Progress value={(stage.value / maxStageValue) * 100} className="h-2" />
                         </div>
-                      ))}
-                    </div>
-                  </CardContent>
-                </Card>
+                      </div>
+                    ))}
+                  </div>
+                </ChartCard>
 
-                <Card>
-                  <CardHeader>
-                    <CardTitle>Deal Count by Stage</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <ResponsiveContainer width="100%" height={300}>
-                      <BarChart data={dealsData} layout="horizontal">
-                        <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis type="number" />
-                        <YAxis dataKey="stage" type="category" />
-                        <Tooltip />
-                        <Bar dataKey="count" fill="#10b981" />
-                      </BarChart>
-                    </ResponsiveContainer>
-                  </CardContent>
-                </Card>
+                <ChartCard title="Deal Count by Stage" exportName="deal_count_by_stage" rows={dealsData}>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={dealsData} layout="vertical">
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" allowDecimals={false} />
+                      <YAxis dataKey="stage" type="category" width={100} />
+                      <Tooltip />
+                      <Bar dataKey="count" fill="#10b981" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </ChartCard>
               </div>
             </TabsContent>
 
-            <TabsContent value="contacts" className="space-y-6">
-              {/* Contacts content */}
+            <TabsContent value="funnel" className="space-y-6">
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <ChartCard title="Lead Conversion Funnel" exportName="lead_funnel" rows={leadFunnel.steps}>
+                  <div className="space-y-4">
+                    {leadFunnel.steps.map((point, index) => (
+                      <div key={point.step}>
+                        <div className="flex justify-between mb-2">
+                          <span className="text-sm font-medium">{point.step}</span>
+                          <span className="text-sm text-slate-600">
+                            {point.count}
+                            {index > 0 && <span className="text-slate-400"> ({point.rate.toFixed(1)}% of previous)</span>}
+                          </span>
+                        </div>
+                        <Progress value={leadFunnel.steps[0].count > 0 ? (point.count / leadFunnel.steps[0].count) * 100 : 0} className="h-2" />
+                      </div>
+                    ))}
+                  </div>
+                </ChartCard>
+
+                <ChartCard title="Leads by Funnel Step" exportName="lead_funnel_counts" rows={leadFunnel.steps}>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={leadFunnel.steps}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="step" />
+                      <YAxis allowDecimals={false} />
+                      <Tooltip />
+                      <Bar dataKey="count" fill="#8b5cf6" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                  <p className="mt-4 text-sm text-slate-600">
+                    Converted leads took {leadFunnel.avgDaysToConvert.toFixed(1)} days on average to become contacts.
+                  </p>
+                </ChartCard>
+              </div>
             </TabsContent>
 
             <TabsContent value="activities" className="space-y-6">
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                <Card>
-                  <CardHeader>
-                    <CardTitle>Activity Breakdown</CardTitle>
-                  </CardHeader>
-                  <CardContent>
+                <ChartCard title="Activity Breakdown" exportName="activity_mix" rows={activityData}>
+                  {activityData.length === 0 ? (
+                    <p className="text-sm text-slate-500 text-center py-12">No activities in this period</p>
+                  ) : (
                     <ResponsiveContainer width="100%" height={300}>
                       <PieChart>
                         <Pie
@@ -256,15 +427,15 @@ const ReportsDashboard = () => {
                           fill="#8884d8"
                           dataKey="value"
                         >
-                          {activityData.map((entry, index) => (
-                            <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                          {activityData.map((entry) => (
+                            <Cell key={`cell-${entry.type}`} fill={entry.color} />
                           ))}
                         </Pie>
                         <Tooltip />
                       </PieChart>
                     </ResponsiveContainer>
-                  </CardContent>
-                </Card>
+                  )}
+                </ChartCard>
 
                 <Card>
                   <CardHeader>
@@ -272,8 +443,8 @@ const ReportsDashboard = () => {
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
-                      {activityData.map((activity, index) => (
-                        <div key={index} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
+                      {activityData.map((activity) => (
+                        <div key={activity.type} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
                           <div className="flex items-center space-x-3">
                             <div 
                               className="w-4 h-4 rounded-full" 
@@ -283,7 +454,7 @@ const ReportsDashboard = () => {
                           </div>
                           <div className="text-right">
                             <div className="font-semibold">{activity.value}</div>
-                            <div className="text-sm text-slate-600">this month</div>
+                            <div className="text-sm text-slate-600">{hasFilters ? 'in selected period' : 'all time'}</div>
                           </div>
                         </div>
                       ))}
@@ -293,43 +464,93 @@ const ReportsDashboard = () => {
               </div>
             </TabsContent>
 
+            <TabsContent value="velocity" className="space-y-6">
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <ChartCard title="Average Days in Stage" exportName="stage_velocity" rows={velocityData}>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={velocityData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="stage" />
+                      <YAxis />
+                      <Tooltip />
+                      <Bar dataKey="avgDays" name="Avg days (completed)" fill="#8b5cf6" />
+                      <Bar dataKey="avgCurrentDays" name="Avg days (open now)" fill="#c4b5fd" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </ChartCard>
+
+                <ChartCard title="Stage Conversion" exportName="stage_conversion" rows={velocityData}>
+                  <div className="space-y-4">
+                    {velocityData.map((point) => (
+                      <div key={point.stage}>
+                        <div className="flex justify-between mb-2">
+                          <span className="text-sm font-medium">{point.stage}</span>
+                          <span className="text-sm text-slate-600">
+                            {point.conversionRate === null ? 'No closed outcomes yet' : `${point.conversionRate}% advance`}
+                            <span className="text-slate-400"> ({point.dealsAdvanced}/{point.dealsEntered} deals, {point.dealsInStage} in stage)</span>
+                          </span>
+                        </div>
+                        <Progress value={point.conversionRate ?? 0} className="h-2" />
+                      </div>
+                    ))}
+                  </div>
+                </ChartCard>
+              </div>
+
+              <ChartCard title="Slowest Open Deals" exportName="slowest_deals" rows={slowestDeals}>
+                {slowestDeals.length === 0 ? (
+                  <p className="text-sm text-slate-500 text-center py-12">No open deals</p>
+                ) : (
+                  <div className="space-y-2">
+                    {slowestDeals.map((deal) => (
+                      <div key={deal.dealId} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
+                        <div>
+                          <div className="font-medium">{deal.title}</div>
+                          <div className="text-sm text-slate-600">{deal.stage} · ${deal.value.toLocaleString()}</div>
+                        </div>
+                        <div className="text-right">
+                          <div className={`flex items-center justify-end font-semibold ${deal.avgDaysForStage !== null && deal.daysInStage > deal.avgDaysForStage ? 'text-red-600' : 'text-slate-900'}`}>
+                            <Timer className="w-4 h-4 mr-1" />
+                            {deal.daysInStage} days
+                          </div>
+                          <div className="text-sm text-slate-600">
+                            {deal.avgDaysForStage === null ? 'No stage average yet' : `Stage average ${deal.avgDaysForStage} days`}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </ChartCard>
+            </TabsContent>
+
             <TabsContent value="forecasting" className="space-y-6">
               <div className="grid grid-cols-1 gap-6">
                 <Card>
                   <CardHeader>
                     <CardTitle className="flex items-center">
                       <Calendar className="w-5 h-5 mr-2" />
-                      Revenue Forecast
+                      Pipeline Outlook
                     </CardTitle>
                     <CardDescription>
-                      Projected revenue based on current pipeline and historical data
+                      Open pipeline weighted by deal probability, alongside won revenue to date
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
                       <div className="text-center p-4 bg-blue-50 rounded-lg">
-                        <div className="text-2xl font-bold text-blue-600">$425K</div>
-                        <div className="text-sm text-slate-600">Q2 Forecast</div>
+                        <div className="text-2xl font-bold text-blue-600">${summary.weightedPipelineValue.toLocaleString()}</div>
+                        <div className="text-sm text-slate-600">Weighted Pipeline</div>
                       </div>
                       <div className="text-center p-4 bg-green-50 rounded-lg">
-                        <div className="text-2xl font-bold text-green-600">$1.2M</div>
-                        <div className="text-sm text-slate-600">Annual Forecast</div>
+                        <div className="text-2xl font-bold text-green-600">${summary.openPipelineValue.toLocaleString()}</div>
+                        <div className="text-sm text-slate-600">Total Open Pipeline</div>
                       </div>
                       <div className="text-center p-4 bg-purple-50 rounded-lg">
-                        <div className="text-2xl font-bold text-purple-600">87%</div>
-                        <div className="text-sm text-slate-600">Confidence Score</div>
+                        <div className="text-2xl font-bold text-purple-600">{summary.winRate.toFixed(0)}%</div>
+                        <div className="text-sm text-slate-600">Historical Win Rate</div>
                       </div>
                     </div>
-                    <ResponsiveContainer width="100%" height={300}>
-                      <LineChart data={monthlyData}>
-                        <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis dataKey="month" />
-                        <YAxis />
-                        <Tooltip />
-                        <Line type="monotone" dataKey="revenue" stroke="#3b82f6" strokeWidth={2} name="Actual" />
-                        <Line type="monotone" dataKey="revenue" stroke="#10b981" strokeDasharray="5 5" strokeWidth={2} name="Forecast" />
-                      </LineChart>
-                    </ResponsiveContainer>
                   </CardContent>
                 </Card>
               </div>
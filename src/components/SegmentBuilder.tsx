@@ -0,0 +1,271 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Brackets, Link2, Plus, X } from 'lucide-react';
+import {
+  SEGMENT_FIELDS,
+  SEGMENT_OPERATORS,
+  SEGMENT_RELATIONS,
+  findSegmentField,
+  newFieldCondition,
+  type SegmentCondition,
+  type SegmentEntity,
+  type SegmentField,
+  type SegmentFieldCondition,
+  type SegmentGroup,
+  type SegmentOperator,
+  type SegmentRelatedCondition,
+  type SegmentTable
+} from '@/lib/segments';
+
+interface SegmentBuilderProps {
+  table: SegmentTable;
+  group: SegmentGroup;
+  onChange: (group: SegmentGroup) => void;
+  stageNames: string[];
+  // Nested groups stop at this depth; related-record conditions only appear at the segment's own level
+  depth?: number;
+  allowRelated?: boolean;
+}
+
+const MAX_DEPTH = 2;
+
+const RELATIVE_DATE_OPERATORS: SegmentOperator[] = ['more_than_days_ago', 'less_than_days_ago'];
+
+const isEntity = (table: SegmentTable): table is SegmentEntity => table in SEGMENT_RELATIONS;
+
+interface ConditionValueProps {
+  field: SegmentField;
+  condition: SegmentFieldCondition;
+  stageNames: string[];
+  onChange: (value: string | string[]) => void;
+}
+
+const ConditionValue = ({ field, condition, stageNames, onChange }: ConditionValueProps) => {
+  if (condition.operator === 'is_empty' || condition.operator === 'is_not_empty') return null;
+
+  if (condition.operator === 'is_any_of' || condition.operator === 'is_none_of') {
+    const choices = field.type === 'stage' ? stageNames.map(name => ({ value: name, label: name })) : field.options || [];
+    const selected = Array.isArray(condition.value) ? condition.value : [];
+    return (
+      <div className="flex flex-wrap gap-1">
+        {choices.map(choice => (
+          <Button
+            key={choice.value}
+            type="button"
+            size="sm"
+            variant={selected.includes(choice.value) ? 'default' : 'outline'}
+            className="h-7 px-2 text-xs"
+            onClick={() => onChange(selected.includes(choice.value)
+              ? selected.filter(value => value !== choice.value)
+              : [...selected, choice.value])}
+          >
+            {choice.label}
+          </Button>
+        ))}
+      </div>
+    );
+  }
+
+  const value = Array.isArray(condition.value) ? '' : condition.value || '';
+
+  if (RELATIVE_DATE_OPERATORS.includes(condition.operator)) {
+    return (
+      <div className="flex items-center gap-2">
+        <Input type="number" min="0" className="w-24" value={value} onChange={(e) => onChange(e.target.value)} />
+        <span className="text-sm text-slate-600">days</span>
+      </div>
+    );
+  }
+
+  return (
+    <Input
+      type={field.type === 'date' ? 'date' : field.type === 'number' ? 'number' : 'text'}
+      className="w-44"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder="Value"
+    />
+  );
+};
+
+const SegmentBuilder = ({ table, group, onChange, stageNames, depth = 0, allowRelated = true }: SegmentBuilderProps) => {
+  const relations = allowRelated && isEntity(table) ? SEGMENT_RELATIONS[table] : [];
+
+  const updateCondition = (index: number, condition: SegmentCondition) => {
+    onChange({ ...group, conditions: group.conditions.map((c, i) => (i === index ? condition : c)) });
+  };
+
+  const removeCondition = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  const addCondition = (condition: SegmentCondition) => {
+    onChange({ ...group, conditions: [...group.conditions, condition] });
+  };
+
+  const setField = (index: number, condition: SegmentFieldCondition, fieldName: string) => {
+    const field = findSegmentField(table, fieldName);
+    if (!field) return;
+    const operators = SEGMENT_OPERATORS[field.type];
+    const operator = operators.some(o => o.value === condition.operator) ? condition.operator : operators[0].value;
+    updateCondition(index, { ...condition, field: fieldName, operator, value: operator === 'is_any_of' || operator === 'is_none_of' ? [] : '' });
+  };
+
+  const setOperator = (index: number, condition: SegmentFieldCondition, operator: SegmentOperator) => {
+    const listValue = operator === 'is_any_of' || operator === 'is_none_of';
+    const keepValue = listValue === Array.isArray(condition.value) && RELATIVE_DATE_OPERATORS.includes(operator) === RELATIVE_DATE_OPERATORS.includes(condition.operator);
+    updateCondition(index, { ...condition, operator, value: keepValue ? condition.value : listValue ? [] : '' });
+  };
+
+  const renderField = (condition: SegmentFieldCondition, index: number) => {
+    const field = findSegmentField(table, condition.field) || SEGMENT_FIELDS[table][0];
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={field.value} onValueChange={(value) => setField(index, condition, value)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SEGMENT_FIELDS[table].map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={condition.operator} onValueChange={(value) => setOperator(index, condition, value as SegmentOperator)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SEGMENT_OPERATORS[field.type].map(operator => (
+              <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ConditionValue
+          field={field}
+          condition={condition}
+          stageNames={stageNames}
+          onChange={(value) => updateCondition(index, { ...condition, value })}
+        />
+      </div>
+    );
+  };
+
+  const renderRelated = (condition: SegmentRelatedCondition, index: number) => {
+    const relation = relations.find(r => r.value === condition.relation) || relations[0];
+    return (
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={condition.quantifier} onValueChange={(value) => updateCondition(index, { ...condition, quantifier: value as SegmentRelatedCondition['quantifier'] })}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="has">Has a</SelectItem>
+              <SelectItem value="has_none">Has no</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={relation.value}
+            onValueChange={(value) => updateCondition(index, { ...condition, relation: value, where: { kind: 'group', match: 'all', conditions: [] } })}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {relations.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-slate-600">where</span>
+        </div>
+        <SegmentBuilder
+          table={relation.table}
+          group={condition.where}
+          onChange={(where) => updateCondition(index, { ...condition, where })}
+          stageNames={stageNames}
+          depth={depth + 1}
+          allowRelated={false}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className={`space-y-2 ${depth > 0 ? 'pl-3 border-l-2 border-slate-200' : ''}`}>
+      <div className="flex items-center gap-2 text-sm text-slate-600">
+        <span>Match</span>
+        <Select value={group.match} onValueChange={(value) => onChange({ ...group, match: value as SegmentGroup['match'] })}>
+          <SelectTrigger className="w-20 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">all</SelectItem>
+            <SelectItem value="any">any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span>of these conditions</span>
+      </div>
+
+      {group.conditions.map((condition, index) => (
+        <div key={index} className="flex items-start gap-2 p-2 border border-slate-200 rounded-lg bg-white">
+          <div className="flex-1">
+            {condition.kind === 'field' && renderField(condition, index)}
+            {condition.kind === 'related' && renderRelated(condition, index)}
+            {condition.kind === 'group' && (
+              <SegmentBuilder
+                table={table}
+                group={condition}
+                onChange={(nested) => updateCondition(index, nested)}
+                stageNames={stageNames}
+                depth={depth + 1}
+                allowRelated={allowRelated}
+              />
+            )}
+          </div>
+          <Button type="button" size="sm" variant="ghost" onClick={() => removeCondition(index)}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" size="sm" variant="outline" onClick={() => addCondition(newFieldCondition(table))}>
+          <Plus className="w-4 h-4 mr-1" />
+          Condition
+        </Button>
+        {depth < MAX_DEPTH && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => addCondition({ kind: 'group', match: group.match === 'all' ? 'any' : 'all', conditions: [newFieldCondition(table)] })}
+          >
+            <Brackets className="w-4 h-4 mr-1" />
+            Group
+          </Button>
+        )}
+        {relations.length > 0 && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => addCondition({
+              kind: 'related',
+              relation: relations[0].value,
+              quantifier: 'has',
+              where: { kind: 'group', match: 'all', conditions: [] }
+            })}
+          >
+            <Link2 className="w-4 h-4 mr-1" />
+            Related record
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SegmentBuilder;
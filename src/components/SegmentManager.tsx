@@ -0,0 +1,327 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Edit, Layers, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { usePipelines } from '@/hooks/usePipelines';
+import { useQuery } from '@tanstack/react-query';
+import { getCombinedStageNames } from '@/lib/pipelines';
+import {
+  SEGMENT_ENTITIES,
+  SEGMENT_PRESETS,
+  countSegmentMembers,
+  deleteSegment,
+  fetchSegments,
+  newSegmentCriteria,
+  previewSegment,
+  refreshSegmentSnapshot,
+  saveSegment,
+  validateSegmentCriteria,
+  type Segment,
+  type SegmentEntity,
+  type SegmentInput
+} from '@/lib/segments';
+import SegmentBuilder from '@/components/SegmentBuilder';
+
+const NO_PRESET = 'none';
+
+// Wait for typing to settle before re-running the preview
+const PREVIEW_DELAY_MS = 500;
+
+const entityLabel = (entity: SegmentEntity) => SEGMENT_ENTITIES.find(e => e.value === entity)?.label || entity;
+
+const SegmentMemberCount = ({ segment }: { segment: Segment }) => {
+  const { user } = useAuth();
+  const { data: count, isLoading, isError } = useQuery({
+    queryKey: ['segment-count', segment.id, segment.updated_at, segment.snapshot_at],
+    queryFn: () => countSegmentMembers(user!.id, segment),
+    enabled: !!user,
+  });
+
+  if (isLoading) return <span className="text-sm text-slate-500">Counting...</span>;
+  if (isError) return <span className="text-sm text-red-600">Couldn't evaluate</span>;
+  return <span className="text-sm text-slate-600">{count} {entityLabel(segment.criteria.entity).toLowerCase()}</span>;
+};
+
+const SegmentManager = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { pipelines } = usePipelines();
+  const [editing, setEditing] = useState<SegmentInput | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [refreshingId, setRefreshingId] = useState<string | null>(null);
+  const [previewCriteria, setPreviewCriteria] = useState(editing?.criteria);
+
+  const stageNames = getCombinedStageNames(pipelines);
+
+  const { data: segments = [], refetch } = useQuery({
+    queryKey: ['segments', user?.id],
+    queryFn: () => fetchSegments(user!.id),
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    const timer = setTimeout(() => setPreviewCriteria(editing?.criteria), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [editing?.criteria]);
+
+  const previewProblem = previewCriteria ? validateSegmentCriteria(previewCriteria) : null;
+
+  const { data: preview, isFetching: isPreviewing, error: previewError } = useQuery({
+    queryKey: ['segment-preview', user?.id, previewCriteria],
+    queryFn: () => previewSegment(user!.id, previewCriteria!),
+    enabled: !!user && !!previewCriteria && !previewProblem,
+  });
+
+  const newSegment = (): SegmentInput => ({
+    name: '',
+    description: '',
+    is_dynamic: true,
+    criteria: newSegmentCriteria('contacts')
+  });
+
+  const applyPreset = (presetName: string) => {
+    const preset = SEGMENT_PRESETS.find(p => p.name === presetName);
+    if (!preset || !editing) return;
+    setEditing({ ...editing, name: preset.name, description: preset.description, criteria: preset.criteria });
+  };
+
+  const handleSave = async () => {
+    if (!user || !editing) return;
+    if (!editing.name.trim()) {
+      toast({ title: "Error", description: "Segment name is required", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveSegment(user.id, editing);
+      toast({ title: editing.id ? "Segment updated" : "Segment created" });
+      setEditing(null);
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save segment",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRefresh = async (segment: Segment) => {
+    if (!user) return;
+    setRefreshingId(segment.id);
+    try {
+      const count = await refreshSegmentSnapshot(user.id, segment);
+      toast({ title: "Snapshot refreshed", description: `${segment.name} now has ${count} members.` });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to refresh segment",
+        variant: "destructive",
+      });
+    } finally {
+      setRefreshingId(null);
+    }
+  };
+
+  const handleDelete = async (segmentId: string) => {
+    if (!user) return;
+    try {
+      await deleteSegment(user.id, segmentId);
+      toast({ title: "Segment deleted" });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete segment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center">
+              <Layers className="w-5 h-5 mr-2 text-blue-600" />
+              Segments
+            </CardTitle>
+            <CardDescription>
+              Saved audiences for sequences and exports. Dynamic segments update as records change; static ones keep the members they had when saved.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setEditing(newSegment())}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Segment
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {segments.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">No segments yet</div>
+          ) : (
+            <div className="space-y-3">
+              {segments.map(segment => (
+                <div key={segment.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border border-slate-200 rounded-lg bg-white">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-slate-900">{segment.name}</span>
+                      <Badge variant="outline">{entityLabel(segment.criteria.entity)}</Badge>
+                      {segment.is_dynamic
+                        ? <Badge className="bg-blue-100 text-blue-800">Dynamic</Badge>
+                        : <Badge className="bg-slate-100 text-slate-700">Static</Badge>}
+                    </div>
+                    {segment.description && <p className="text-sm text-slate-600">{segment.description}</p>}
+                    <div className="flex items-center gap-3">
+                      <SegmentMemberCount segment={segment} />
+                      {!segment.is_dynamic && segment.snapshot_at && (
+                        <span className="text-xs text-slate-500">Snapshot {new Date(segment.snapshot_at).toLocaleString()}</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {!segment.is_dynamic && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRefresh(segment)}
+                        disabled={refreshingId === segment.id}
+                        title="Refresh the snapshot"
+                      >
+                        <RefreshCw className={`w-4 h-4 ${refreshingId === segment.id ? 'animate-spin' : ''}`} />
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => setEditing(segment)}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleDelete(segment.id)} className="hover:bg-red-50 text-red-600">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && !isSaving && setEditing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? 'Edit Segment' : 'New Segment'}</DialogTitle>
+            <DialogDescription>
+              Combine field conditions, relative dates and related records with all/any groups.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-6">
+              {!editing.id && (
+                <div className="space-y-1">
+                  <Label>Start from</Label>
+                  <Select defaultValue={NO_PRESET} onValueChange={applyPreset}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PRESET}>Blank segment</SelectItem>
+                      {SEGMENT_PRESETS.map(preset => (
+                        <SelectItem key={preset.name} value={preset.name}>{preset.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="segment-name">Name *</Label>
+                  <Input id="segment-name" value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} placeholder="e.g. Customers gone quiet" />
+                </div>
+                <div className="space-y-1">
+                  <Label>Records</Label>
+                  <Select
+                    value={editing.criteria.entity}
+                    onValueChange={(value) => setEditing({ ...editing, criteria: newSegmentCriteria(value as SegmentEntity) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SEGMENT_ENTITIES.map(entity => (
+                        <SelectItem key={entity.value} value={entity.value}>{entity.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="segment-description">Description</Label>
+                <Input id="segment-description" value={editing.description || ''} onChange={(e) => setEditing({ ...editing, description: e.target.value })} />
+              </div>
+
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={editing.is_dynamic} onCheckedChange={(checked) => setEditing({ ...editing, is_dynamic: checked })} />
+                <span>
+                  Dynamic
+                  <span className="text-slate-500">
+                    {editing.is_dynamic ? ' — members are worked out each time the segment is used' : ' — saving takes a snapshot of the current matches'}
+                  </span>
+                </span>
+              </label>
+
+              <div className="space-y-2">
+                <Label>Conditions</Label>
+                <SegmentBuilder
+                  table={editing.criteria.entity}
+                  group={editing.criteria}
+                  onChange={(group) => setEditing({ ...editing, criteria: { ...editing.criteria, match: group.match, conditions: group.conditions } })}
+                  stageNames={stageNames}
+                />
+              </div>
+
+              <div className="p-3 rounded-lg border border-blue-200 bg-blue-50 text-sm text-blue-900">
+                {previewProblem ? (
+                  <span>{previewProblem}</span>
+                ) : previewError ? (
+                  <span className="text-red-700">{previewError instanceof Error ? previewError.message : 'Failed to preview segment'}</span>
+                ) : isPreviewing || !preview ? (
+                  <span>Counting matches...</span>
+                ) : (
+                  <span>
+                    <strong>{preview.count}</strong> {entityLabel(editing.criteria.entity).toLowerCase()} match now
+                    {preview.sample.length > 0 && `, e.g. ${preview.sample.map(record => record.name).join(', ')}`}
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Segment'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SegmentManager;
@@ -0,0 +1,671 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, CheckSquare, Edit, Mail, Pause, Play, Plus, Repeat, Square, Trash2, UserPlus, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { ownedByFilter } from '@/lib/teams';
+import { fetchSegmentRecords, fetchSegments } from '@/lib/segments';
+import {
+  ENROLLMENT_STATUSES,
+  PAUSE_REASONS,
+  deleteSequence,
+  enrollInSequence,
+  fetchEnrollments,
+  fetchSequenceReport,
+  fetchSequences,
+  pauseEnrollment,
+  resumeEnrollment,
+  saveSequence,
+  stopEnrollment,
+  type EnrollmentStatus,
+  type Sequence,
+  type SequenceInput,
+  type SequenceStep,
+  type SequenceStepType
+} from '@/lib/sequences';
+
+const STATUS_COLORS: Record<EnrollmentStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  paused: 'bg-amber-100 text-amber-800',
+  completed: 'bg-blue-100 text-blue-800',
+  stopped: 'bg-slate-100 text-slate-700'
+};
+
+const NO_TEMPLATE = 'none';
+
+const NO_SEGMENT = 'none';
+
+const newStep = (stepType: SequenceStepType): SequenceStep => ({
+  step_type: stepType,
+  delay_days: 2,
+  template_id: null,
+  subject: '',
+  body: ''
+});
+
+const SequenceManager = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<SequenceInput | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showEnroll, setShowEnroll] = useState(false);
+  const [enrollSearch, setEnrollSearch] = useState('');
+  const [selectedContacts, setSelectedContacts] = useState<string[]>([]);
+  const [selectedLeads, setSelectedLeads] = useState<string[]>([]);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [isAddingSegment, setIsAddingSegment] = useState(false);
+
+  const { data: sequences = [], refetch } = useQuery({
+    queryKey: ['sequences', user?.id],
+    queryFn: () => fetchSequences(user!.id),
+    enabled: !!user,
+  });
+
+  const selected = sequences.find(sequence => sequence.id === selectedId) || sequences[0] || null;
+
+  const { data: enrollments = [], refetch: refetchEnrollments } = useQuery({
+    queryKey: ['sequence-enrollments', selected?.id],
+    queryFn: () => fetchEnrollments(selected!.id),
+    enabled: !!selected,
+  });
+
+  const { data: report } = useQuery({
+    queryKey: ['sequence-report', selected?.id, selected?.steps.length, enrollments.length],
+    queryFn: () => fetchSequenceReport(selected!),
+    enabled: !!selected,
+  });
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['email-templates', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_templates')
+        .select('id, name')
+        .eq('user_id', user!.id)
+        .order('name');
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user,
+  });
+
+  const { data: people } = useQuery({
+    queryKey: ['sequence-people', user?.id],
+    queryFn: async () => {
+      const [contactsResult, leadsResult] = await Promise.all([
+        supabase.from('contacts').select('id, name, email, company').or(ownedByFilter(user!.id)).order('name'),
+        supabase.from('leads').select('id, name, email, company, status').or(ownedByFilter(user!.id)).order('name')
+      ]);
+      if (contactsResult.error) throw contactsResult.error;
+      if (leadsResult.error) throw leadsResult.error;
+      return {
+        contacts: contactsResult.data || [],
+        leads: (leadsResult.data || []).filter(lead => lead.status !== 'converted')
+      };
+    },
+    enabled: !!user && showEnroll,
+  });
+
+  // Contact and lead segments can be used as the audience
+  const { data: segments = [] } = useQuery({
+    queryKey: ['segments', user?.id],
+    queryFn: () => fetchSegments(user!.id),
+    enabled: !!user && showEnroll,
+    select: (all) => all.filter(segment => segment.criteria.entity === 'contacts' || segment.criteria.entity === 'leads'),
+  });
+
+  const templateName = (templateId: string | null) => templates.find(t => t.id === templateId)?.name;
+
+  const matchesSearch = (person: { name: string; email: string | null; company: string | null }) => {
+    const query = enrollSearch.trim().toLowerCase();
+    if (!query) return true;
+    return [person.name, person.email, person.company].some(value => value?.toLowerCase().includes(query));
+  };
+
+  const visibleContacts = (people?.contacts || []).filter(matchesSearch);
+  const visibleLeads = (people?.leads || []).filter(matchesSearch);
+
+  const updateStep = (index: number, changes: Partial<SequenceStep>) => {
+    if (!editing) return;
+    setEditing({ ...editing, steps: editing.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)) });
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    if (!editing) return;
+    const steps = [...editing.steps];
+    const target = index + direction;
+    if (target < 0 || target >= steps.length) return;
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    setEditing({ ...editing, steps });
+  };
+
+  const handleSave = async () => {
+    if (!user || !editing) return;
+    if (!editing.name.trim()) {
+      toast({ title: "Error", description: "Sequence name is required", variant: "destructive" });
+      return;
+    }
+    if (editing.steps.some(step => step.step_type === 'email' && !step.template_id && (!step.subject.trim() || !step.body.trim()))) {
+      toast({ title: "Error", description: "Every email step needs a template or a subject and body", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const sequenceId = await saveSequence(user.id, editing);
+      toast({ title: editing.id ? "Sequence updated" : "Sequence created" });
+      setEditing(null);
+      setSelectedId(sequenceId);
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save sequence",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (sequence: Sequence, isActive: boolean) => {
+    if (!user) return;
+    try {
+      await saveSequence(user.id, { ...sequence, is_active: isActive });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update sequence",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (sequenceId: string) => {
+    if (!user) return;
+    try {
+      await deleteSequence(user.id, sequenceId);
+      toast({ title: "Sequence deleted" });
+      setSelectedId(null);
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete sequence",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const closeEnroll = () => {
+    setShowEnroll(false);
+    setEnrollSearch('');
+    setSelectedContacts([]);
+    setSelectedLeads([]);
+  };
+
+  const handleAddSegment = async (segmentId: string) => {
+    const segment = segments.find(s => s.id === segmentId);
+    if (!user || !segment) return;
+    setIsAddingSegment(true);
+    try {
+      const records = await fetchSegmentRecords<{ id: string; status: string | null }>(user.id, segment, 'id, status');
+      const isLeads = segment.criteria.entity === 'leads';
+      // Converted leads carry on as contacts, as in the lists below
+      const ids = records.filter(record => !isLeads || record.status !== 'converted').map(record => record.id);
+      const [selectedIds, setSelected] = isLeads ? [selectedLeads, setSelectedLeads] : [selectedContacts, setSelectedContacts];
+      setSelected(Array.from(new Set([...selectedIds, ...ids])));
+      toast({ title: `Added ${segment.name}`, description: `${ids.length} ${isLeads ? 'leads' : 'contacts'} selected from the segment` });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load segment",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAddingSegment(false);
+    }
+  };
+
+  const handleEnroll = async () => {
+    if (!user || !selected) return;
+    setIsEnrolling(true);
+    try {
+      const { enrolled, skipped } = await enrollInSequence(user.id, selected, {
+        contactIds: selectedContacts,
+        leadIds: selectedLeads
+      });
+      toast({
+        title: `Enrolled ${enrolled} ${enrolled === 1 ? 'person' : 'people'}`,
+        description: skipped > 0 ? `${skipped} already enrolled and skipped` : undefined,
+      });
+      closeEnroll();
+      refetchEnrollments();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to enroll",
+        variant: "destructive",
+      });
+    } finally {
+      setIsEnrolling(false);
+    }
+  };
+
+  const handleEnrollmentAction = async (action: (id: string) => Promise<void>, enrollmentId: string) => {
+    try {
+      await action(enrollmentId);
+      refetchEnrollments();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update enrollment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleAll = (ids: string[], selectedIds: string[], setSelected: (ids: string[]) => void) => {
+    const allSelected = ids.length > 0 && ids.every(id => selectedIds.includes(id));
+    setSelected(allSelected ? selectedIds.filter(id => !ids.includes(id)) : Array.from(new Set([...selectedIds, ...ids])));
+  };
+
+  const stepLabel = (step: SequenceStep) =>
+    step.step_type === 'email'
+      ? (step.template_id ? `Template: ${templateName(step.template_id) || 'deleted template'}` : step.subject)
+      : step.subject || 'Task';
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center">
+              <Repeat className="w-5 h-5 mr-2 text-blue-600" />
+              Email Sequences
+            </CardTitle>
+            <CardDescription>
+              Multi-step cadences of emails and tasks. Enrollments pause when the person replies or a meeting is booked.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setEditing({ name: '', description: '', is_active: true, steps: [{ ...newStep('email'), delay_days: 0 }] })}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Sequence
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {sequences.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">No sequences yet</div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {sequences.map(sequence => (
+                <Button
+                  key={sequence.id}
+                  variant={selected?.id === sequence.id ? 'default' : 'outline'}
+                  onClick={() => setSelectedId(sequence.id)}
+                >
+                  {sequence.name}
+                  {!sequence.is_active && <span className="ml-2 text-xs opacity-70">(off)</span>}
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>{selected.name}</CardTitle>
+              {selected.description && <CardDescription>{selected.description}</CardDescription>}
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-1 text-xs text-slate-600">
+                <Switch checked={selected.is_active} onCheckedChange={(checked) => handleToggle(selected, checked)} />
+                Active
+              </label>
+              <Button size="sm" onClick={() => setShowEnroll(true)} disabled={selected.steps.length === 0}>
+                <UserPlus className="w-4 h-4 mr-1" />
+                Enroll
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setEditing(selected)}>
+                <Edit className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleDelete(selected.id)} className="hover:bg-red-50 text-red-600">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="report">
+              <TabsList>
+                <TabsTrigger value="report">Performance</TabsTrigger>
+                <TabsTrigger value="enrollments">Enrollments ({enrollments.length})</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="report" className="space-y-4">
+                {report && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {ENROLLMENT_STATUSES.map(status => (
+                      <div key={status.value} className="p-3 border border-slate-200 rounded-lg bg-white">
+                        <div className="text-sm text-slate-600">{status.label}</div>
+                        <div className="text-2xl font-bold text-slate-900">{report.enrollments[status.value]}</div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Step</TableHead>
+                      <TableHead>Wait</TableHead>
+                      <TableHead className="text-right">Reached</TableHead>
+                      <TableHead className="text-right">Sent</TableHead>
+                      <TableHead className="text-right">Opened</TableHead>
+                      <TableHead className="text-right">Clicked</TableHead>
+                      <TableHead className="text-right">Replied</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selected.steps.map((step, index) => {
+                      const stats = report?.steps.find(s => s.stepId === step.id);
+                      const isEmail = step.step_type === 'email';
+                      return (
+                        <TableRow key={step.id}>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              {isEmail ? <Mail className="w-4 h-4 text-blue-600" /> : <CheckSquare className="w-4 h-4 text-green-600" />}
+                              <span className="font-medium">{index + 1}. {stepLabel(step)}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell>{step.delay_days === 0 ? 'Immediately' : `${step.delay_days} day${step.delay_days === 1 ? '' : 's'}`}</TableCell>
+                          <TableCell className="text-right">{stats?.reached ?? 0}</TableCell>
+                          <TableCell className="text-right">{isEmail ? stats?.sent ?? 0 : '—'}</TableCell>
+                          <TableCell className="text-right">{isEmail ? `${stats?.opened ?? 0} (${stats?.openRate ?? 0}%)` : '—'}</TableCell>
+                          <TableCell className="text-right">{isEmail ? `${stats?.clicked ?? 0} (${stats?.clickRate ?? 0}%)` : '—'}</TableCell>
+                          <TableCell className="text-right">{isEmail ? `${stats?.replied ?? 0} (${stats?.replyRate ?? 0}%)` : '—'}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+
+              <TabsContent value="enrollments">
+                {enrollments.length === 0 ? (
+                  <div className="text-center py-8 text-slate-500">Nobody enrolled yet</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Person</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Progress</TableHead>
+                        <TableHead>Next Step</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {enrollments.map(enrollment => (
+                        <TableRow key={enrollment.id}>
+                          <TableCell>
+                            <div className="font-medium">{enrollment.name}</div>
+                            <div className="text-xs text-slate-500">
+                              {enrollment.lead_id ? 'Lead' : 'Contact'}{enrollment.email ? ` · ${enrollment.email}` : ''}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge className={STATUS_COLORS[enrollment.status]}>{enrollment.status}</Badge>
+                            {enrollment.paused_reason && enrollment.status === 'paused' && (
+                              <div className="text-xs text-slate-500 mt-1">{PAUSE_REASONS[enrollment.paused_reason] || enrollment.paused_reason}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>{Math.min(enrollment.current_step, selected.steps.length)} / {selected.steps.length}</TableCell>
+                          <TableCell>{enrollment.next_run_at ? new Date(enrollment.next_run_at).toLocaleString() : '—'}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-1">
+                              {enrollment.status === 'active' && (
+                                <Button size="sm" variant="outline" onClick={() => handleEnrollmentAction(pauseEnrollment, enrollment.id)} title="Pause">
+                                  <Pause className="w-4 h-4" />
+                                </Button>
+                              )}
+                              {enrollment.status === 'paused' && (
+                                <Button size="sm" variant="outline" onClick={() => handleEnrollmentAction(resumeEnrollment, enrollment.id)} title="Resume">
+                                  <Play className="w-4 h-4" />
+                                </Button>
+                              )}
+                              {(enrollment.status === 'active' || enrollment.status === 'paused') && (
+                                <Button size="sm" variant="outline" onClick={() => handleEnrollmentAction(stopEnrollment, enrollment.id)} title="Stop">
+                                  <Square className="w-4 h-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && !isSaving && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? 'Edit Sequence' : 'New Sequence'}</DialogTitle>
+            <DialogDescription>
+              Each step waits its number of days after the previous one. Text can use merge fields, e.g. {'{{first_name | "there"}}'} for the enrolled person, {'{{company.name}}'} or {'{{sender.signature}}'}.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-6">
+              <div className="space-y-3">
+                <div className="space-y-1">
+                  <Label htmlFor="sequence-name">Name *</Label>
+                  <Input id="sequence-name" value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} placeholder="e.g. Inbound follow-up" />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="sequence-description">Description</Label>
+                  <Input id="sequence-description" value={editing.description || ''} onChange={(e) => setEditing({ ...editing, description: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Steps</Label>
+                {editing.steps.map((step, index) => (
+                  <div key={step.id || `new-${index}`} className="p-3 border border-slate-200 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="font-medium text-slate-900">{index + 1}.</span>
+                        <Select value={step.step_type} onValueChange={(value) => updateStep(index, { step_type: value as SequenceStepType })}>
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="email">Email</SelectItem>
+                            <SelectItem value="task">Task</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <span className="text-slate-600">after</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          className="w-20"
+                          value={step.delay_days}
+                          onChange={(e) => updateStep(index, { delay_days: Math.max(0, parseInt(e.target.value) || 0) })}
+                        />
+                        <span className="text-slate-600">days</span>
+                      </div>
+                      <div className="flex">
+                        <Button size="sm" variant="ghost" onClick={() => moveStep(index, -1)} disabled={index === 0}>
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => moveStep(index, 1)} disabled={index === editing.steps.length - 1}>
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setEditing({ ...editing, steps: editing.steps.filter((_, i) => i !== index) })}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {step.step_type === 'email' && (
+                      <Select
+                        value={step.template_id || NO_TEMPLATE}
+                        onValueChange={(value) => updateStep(index, { template_id: value === NO_TEMPLATE ? null : value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_TEMPLATE}>Write the email below</SelectItem>
+                          {templates.map(template => (
+                            <SelectItem key={template.id} value={template.id}>Template: {template.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {(step.step_type === 'task' || !step.template_id) && (
+                      <>
+                        <Input
+                          value={step.subject}
+                          onChange={(e) => updateStep(index, { subject: e.target.value })}
+                          placeholder={step.step_type === 'email' ? 'Subject' : 'Task, e.g. Call {{first_name}}'}
+                        />
+                        <Textarea
+                          rows={3}
+                          value={step.body}
+                          onChange={(e) => updateStep(index, { body: e.target.value })}
+                          placeholder={step.step_type === 'email' ? 'Hi {{first_name | "there"}}, ...' : 'Notes'}
+                        />
+                      </>
+                    )}
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setEditing({ ...editing, steps: [...editing.steps, newStep('email')] })}>
+                    <Mail className="w-4 h-4 mr-1" />
+                    Add Email
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setEditing({ ...editing, steps: [...editing.steps, newStep('task')] })}>
+                    <CheckSquare className="w-4 h-4 mr-1" />
+                    Add Task
+                  </Button>
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={editing.is_active} onCheckedChange={(checked) => setEditing({ ...editing, is_active: checked })} />
+                Active: send steps as they fall due
+              </label>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Sequence'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showEnroll} onOpenChange={(open) => !open && !isEnrolling && closeEnroll()}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Enroll in {selected?.name}</DialogTitle>
+            <DialogDescription>People already in this sequence are skipped.</DialogDescription>
+          </DialogHeader>
+
+          {segments.length > 0 && (
+            <Select value={NO_SEGMENT} onValueChange={handleAddSegment} disabled={isAddingSegment}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SEGMENT}>{isAddingSegment ? 'Adding segment...' : 'Add everyone in a segment...'}</SelectItem>
+                {segments.map(segment => (
+                  <SelectItem key={segment.id} value={segment.id}>
+                    {segment.name} ({segment.criteria.entity === 'leads' ? 'leads' : 'contacts'})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <Input value={enrollSearch} onChange={(e) => setEnrollSearch(e.target.value)} placeholder="Search by name, email or company" />
+
+          <Tabs defaultValue="contacts">
+            <TabsList>
+              <TabsTrigger value="contacts">Contacts ({selectedContacts.length})</TabsTrigger>
+              <TabsTrigger value="leads">Leads ({selectedLeads.length})</TabsTrigger>
+            </TabsList>
+            {([
+              ['contacts', visibleContacts, selectedContacts, setSelectedContacts],
+              ['leads', visibleLeads, selectedLeads, setSelectedLeads]
+            ] as const).map(([value, list, selectedIds, setSelected]) => (
+              <TabsContent key={value} value={value} className="space-y-2">
+                <label className="flex items-center space-x-2 text-sm font-medium">
+                  <Checkbox
+                    checked={list.length > 0 && list.every(person => selectedIds.includes(person.id))}
+                    onCheckedChange={() => toggleAll(list.map(person => person.id), selectedIds, setSelected)}
+                  />
+                  <span>Select all {list.length}</span>
+                </label>
+                <div className="max-h-72 overflow-y-auto space-y-1">
+                  {list.map(person => (
+                    <label key={person.id} className="flex items-center space-x-2 text-sm p-1 rounded hover:bg-slate-50">
+                      <Checkbox
+                        checked={selectedIds.includes(person.id)}
+                        onCheckedChange={(checked) => setSelected(checked === true ? [...selectedIds, person.id] : selectedIds.filter(id => id !== person.id))}
+                      />
+                      <span className="font-medium">{person.name}</span>
+                      <span className="text-slate-500">{person.email || 'no email'}{person.company ? ` · ${person.company}` : ''}</span>
+                    </label>
+                  ))}
+                </div>
+              </TabsContent>
+            ))}
+          </Tabs>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeEnroll} disabled={isEnrolling}>
+              Cancel
+            </Button>
+            <Button onClick={handleEnroll} disabled={isEnrolling || selectedContacts.length + selectedLeads.length === 0}>
+              {isEnrolling ? 'Enrolling...' : `Enroll ${selectedContacts.length + selectedLeads.length}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SequenceManager;
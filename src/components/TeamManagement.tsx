@@ -0,0 +1,366 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, Mail, Plus, Trash2, Users, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useQuery } from '@tanstack/react-query';
+import { useTeams } from '@/hooks/useTeams';
+import {
+  TEAM_ROLES,
+  acceptInvite,
+  canManageTeamRecords,
+  createTeam,
+  deleteInvite,
+  fetchMyInvitations,
+  fetchPendingInvites,
+  fetchTeamMembers,
+  inviteToTeam,
+  removeMember,
+  updateMemberRole,
+  type TeamRole
+} from '@/lib/teams';
+import TeamPipeline from './TeamPipeline';
+import AssignmentRules from './AssignmentRules';
+
+const roleColor = (role: TeamRole) =>
+  role === 'admin' ? 'bg-purple-100 text-purple-800' : role === 'manager' ? 'bg-blue-100 text-blue-800' : 'bg-slate-100 text-slate-800';
+
+const TeamManagement = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { teams, isLoading: teamsLoading, refreshTeams } = useTeams();
+  const [selectedTeamId, setSelectedTeamId] = useState('');
+  const [newTeamName, setNewTeamName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<TeamRole>('rep');
+
+  // Select the first team once teams load, and drop a selection the user is no longer in
+  useEffect(() => {
+    if (teams.length > 0 && !teams.some(team => team.id === selectedTeamId)) {
+      setSelectedTeamId(teams[0].id);
+    }
+  }, [teams, selectedTeamId]);
+
+  const team = teams.find(t => t.id === selectedTeamId);
+  const isAdmin = team?.role === 'admin';
+
+  const { data: members = [], refetch: refetchMembers } = useQuery({
+    queryKey: ['team-members', selectedTeamId],
+    queryFn: () => fetchTeamMembers(selectedTeamId),
+    enabled: !!selectedTeamId,
+  });
+
+  const { data: pendingInvites = [], refetch: refetchInvites } = useQuery({
+    queryKey: ['team-invites', selectedTeamId],
+    queryFn: () => fetchPendingInvites(selectedTeamId),
+    enabled: !!selectedTeamId && isAdmin,
+  });
+
+  const { data: invitations = [], refetch: refetchInvitations } = useQuery({
+    queryKey: ['my-team-invitations', user?.email],
+    queryFn: () => fetchMyInvitations(user!.email!),
+    enabled: !!user?.email,
+  });
+
+  const runAction = async (action: () => Promise<unknown>, success: string, failure: string) => {
+    try {
+      await action();
+      toast({ title: success });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleCreateTeam = async () => {
+    if (!user || !newTeamName.trim()) return;
+    let teamId = '';
+    const created = await runAction(async () => { teamId = await createTeam(user.id, newTeamName); }, "Team created", "Failed to create team");
+    if (created) {
+      setNewTeamName('');
+      await refreshTeams();
+      setSelectedTeamId(teamId);
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!user || !selectedTeamId) return;
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(inviteEmail.trim())) {
+      toast({ title: "Error", description: "Enter a valid email address", variant: "destructive" });
+      return;
+    }
+    const invited = await runAction(
+      () => inviteToTeam(user.id, selectedTeamId, inviteEmail, inviteRole),
+      `Invited ${inviteEmail.trim()}`,
+      "Failed to send invite"
+    );
+    if (invited) {
+      setInviteEmail('');
+      refetchInvites();
+    }
+  };
+
+  const handleAccept = async (inviteId: string) => {
+    if (await runAction(() => acceptInvite(inviteId), "Joined team", "Failed to accept invite")) {
+      refetchInvitations();
+      refreshTeams();
+    }
+  };
+
+  const handleDecline = async (inviteId: string) => {
+    if (await runAction(() => deleteInvite(inviteId), "Invite declined", "Failed to decline invite")) {
+      refetchInvitations();
+    }
+  };
+
+  const handleRoleChange = async (memberId: string, role: TeamRole) => {
+    if (await runAction(() => updateMemberRole(members, memberId, role), "Role updated", "Failed to update role")) {
+      refetchMembers();
+      refreshTeams();
+    }
+  };
+
+  const handleRemove = async (memberId: string, isSelf: boolean) => {
+    if (await runAction(() => removeMember(members, memberId), isSelf ? "You left the team" : "Member removed", "Failed to remove member")) {
+      refetchMembers();
+      if (isSelf) refreshTeams();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Team</h2>
+          <p className="text-slate-600">Share deals, contacts, leads and companies with your team</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {teams.length > 0 && (
+            <Select value={selectedTeamId} onValueChange={setSelectedTeamId}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Select team" />
+              </SelectTrigger>
+              <SelectContent>
+                {teams.map(t => (
+                  <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Input
+            placeholder="New team name"
+            value={newTeamName}
+            onChange={(e) => setNewTeamName(e.target.value)}
+            className="w-48"
+          />
+          <Button onClick={handleCreateTeam} disabled={!newTeamName.trim()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Team
+          </Button>
+        </div>
+      </div>
+
+      {invitations.length > 0 && (
+        <Card className="bg-blue-50 border-blue-200">
+          <CardHeader>
+            <CardTitle className="flex items-center text-base">
+              <Mail className="w-5 h-5 mr-2 text-blue-600" />
+              Invitations
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {invitations.map(invite => (
+              <div key={invite.id} className="flex items-center justify-between p-3 bg-white rounded-lg">
+                <span>
+                  Join <span className="font-medium">{invite.teamName}</span> as <Badge className={roleColor(invite.role as TeamRole)}>{invite.role}</Badge>
+                </span>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => handleDecline(invite.id)}>
+                    <X className="w-4 h-4 mr-1" />
+                    Decline
+                  </Button>
+                  <Button size="sm" onClick={() => handleAccept(invite.id)}>
+                    <Check className="w-4 h-4 mr-1" />
+                    Accept
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {teamsLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : !team ? (
+        <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+          <CardContent className="text-center py-12 text-slate-500">
+            <Users className="w-10 h-10 mx-auto mb-2 text-slate-400" />
+            You're not in a team yet. Create one or accept an invitation.
+          </CardContent>
+        </Card>
+      ) : (
+        <Tabs defaultValue="members" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="members">Members</TabsTrigger>
+            {canManageTeamRecords(team.role) && <TabsTrigger value="pipeline">Team Pipeline</TabsTrigger>}
+            {canManageTeamRecords(team.role) && <TabsTrigger value="assignment">Lead Assignment</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="members" className="space-y-6">
+            <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Users className="w-5 h-5 mr-2 text-blue-600" />
+                  {team.name}
+                </CardTitle>
+                <CardDescription>
+                  {TEAM_ROLES.map(role => `${role.label}s: ${role.description.toLowerCase()}`).join('. ')}.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead className="w-40">Role</TableHead>
+                      <TableHead className="w-24"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {members.map(member => (
+                      <TableRow key={member.id}>
+                        <TableCell className="font-medium">{member.userId === user?.id ? `${member.name} (you)` : member.name}</TableCell>
+                        <TableCell>{member.email}</TableCell>
+                        <TableCell>
+                          {isAdmin ? (
+                            <Select value={member.role} onValueChange={(role) => handleRoleChange(member.id, role as TeamRole)}>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {TEAM_ROLES.map(role => (
+                                  <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <Badge className={roleColor(member.role)}>{member.role}</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {(isAdmin || member.userId === user?.id) && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleRemove(member.id, member.userId === user?.id)}
+                              className="hover:bg-red-50 text-red-600"
+                            >
+                              {member.userId === user?.id ? 'Leave' : <Trash2 className="w-4 h-4" />}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {isAdmin && (
+              <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Mail className="w-5 h-5 mr-2 text-green-600" />
+                    Invite Members
+                  </CardTitle>
+                  <CardDescription>Invitees see the invite here once they sign in with that email</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-col md:flex-row gap-2 md:items-end">
+                    <div className="flex-1 space-y-1">
+                      <Label htmlFor="invite-email">Email</Label>
+                      <Input
+                        id="invite-email"
+                        type="email"
+                        placeholder="colleague@company.com"
+                        value={inviteEmail}
+                        onChange={(e) => setInviteEmail(e.target.value)}
+                      />
+                    </div>
+                    <div className="w-40 space-y-1">
+                      <Label>Role</Label>
+                      <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as TeamRole)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TEAM_ROLES.map(role => (
+                            <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button onClick={handleInvite}>Send Invite</Button>
+                  </div>
+
+                  {pendingInvites.length > 0 && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium text-slate-700">Pending</h4>
+                      {pendingInvites.map(invite => (
+                        <div key={invite.id} className="flex items-center justify-between p-3 border border-slate-200 rounded-lg bg-white">
+                          <span className="text-sm">
+                            {invite.email} <Badge className={roleColor(invite.role as TeamRole)}>{invite.role}</Badge>
+                            <span className="text-slate-500"> · expires {new Date(invite.expires_at).toLocaleDateString()}</span>
+                          </span>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={async () => {
+                              if (await runAction(() => deleteInvite(invite.id), "Invite revoked", "Failed to revoke invite")) refetchInvites();
+                            }}
+                          >
+                            Revoke
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          {canManageTeamRecords(team.role) && (
+            <TabsContent value="pipeline">
+              <TeamPipeline teamId={team.id} members={members} />
+            </TabsContent>
+          )}
+
+          {canManageTeamRecords(team.role) && (
+            <TabsContent value="assignment">
+              <AssignmentRules teamId={team.id} members={members} />
+            </TabsContent>
+          )}
+        </Tabs>
+      )}
+    </div>
+  );
+};
+
+export default TeamManagement;
@@ -0,0 +1,286 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRightLeft, DollarSign, Target, TrendingUp, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { usePipelines } from '@/hooks/usePipelines';
+import { resolveDealOutcome } from '@/lib/pipelines';
+import {
+  OWNED_ENTITIES,
+  fetchOwnedRecordIds,
+  fetchTeamDeals,
+  reassignRecords,
+  summarizePipelineByOwner,
+  type OwnedEntity,
+  type TeamMember
+} from '@/lib/teams';
+
+interface TeamPipelineProps {
+  teamId: string;
+  members: TeamMember[];
+}
+
+const TeamPipeline = ({ teamId, members }: TeamPipelineProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { pipelines } = usePipelines();
+  const [reassignEntity, setReassignEntity] = useState<OwnedEntity>('deals');
+  const [fromOwner, setFromOwner] = useState('');
+  const [toOwner, setToOwner] = useState('');
+  const [isReassigning, setIsReassigning] = useState(false);
+
+  const memberIds = useMemo(() => members.map(member => member.userId), [members]);
+
+  const { data: deals = [], isLoading, refetch } = useQuery({
+    queryKey: ['team-deals', teamId, memberIds],
+    queryFn: () => fetchTeamDeals(memberIds),
+    enabled: memberIds.length > 0,
+  });
+
+  const summaries = useMemo(() => summarizePipelineByOwner(deals, members, pipelines), [deals, members, pipelines]);
+  const openDeals = deals.filter(deal => resolveDealOutcome(pipelines, deal) === 'in_progress');
+  const totals = summaries.reduce(
+    (sum, row) => ({
+      openValue: sum.openValue + row.openValue,
+      weightedValue: sum.weightedValue + row.weightedValue,
+      wonValue: sum.wonValue + row.wonValue
+    }),
+    { openValue: 0, weightedValue: 0, wonValue: 0 }
+  );
+
+  const memberName = (userId: string | null) => members.find(member => member.userId === userId)?.name || 'Unassigned';
+
+  const refreshOwnedData = () => {
+    refetch();
+    ['deals', 'contacts', 'leads', 'companies'].forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+  };
+
+  const handleReassignDeal = async (dealId: string, ownerId: string) => {
+    try {
+      await reassignRecords('deals', [dealId], ownerId);
+      toast({ title: "Deal reassigned", description: `Now owned by ${memberName(ownerId)}.` });
+      refreshOwnedData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reassign deal",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleBulkReassign = async () => {
+    if (!fromOwner || !toOwner || fromOwner === toOwner) {
+      toast({ title: "Error", description: "Choose two different team members", variant: "destructive" });
+      return;
+    }
+
+    setIsReassigning(true);
+    try {
+      const ids = await fetchOwnedRecordIds(reassignEntity, fromOwner);
+      const moved = await reassignRecords(reassignEntity, ids, toOwner);
+      toast({
+        title: "Records reassigned",
+        description: `Moved ${moved} ${OWNED_ENTITIES[reassignEntity].label.toLowerCase()} from ${memberName(fromOwner)} to ${memberName(toOwner)}.`,
+      });
+      refreshOwnedData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reassign records",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReassigning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-slate-600">Team Open Pipeline</p>
+                <p className="text-2xl font-bold">${totals.openValue.toLocaleString()}</p>
+              </div>
+              <Target className="w-8 h-8 text-blue-600" />
+            </div>
+            <p className="mt-2 text-sm text-blue-600">{openDeals.length} open deals</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-slate-600">Weighted Pipeline</p>
+                <p className="text-2xl font-bold">${totals.weightedValue.toLocaleString()}</p>
+              </div>
+              <TrendingUp className="w-8 h-8 text-purple-600" />
+            </div>
+            <p className="mt-2 text-sm text-purple-600">By stage probability</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-slate-600">Won Revenue</p>
+                <p className="text-2xl font-bold">${totals.wonValue.toLocaleString()}</p>
+              </div>
+              <DollarSign className="w-8 h-8 text-green-600" />
+            </div>
+            <p className="mt-2 text-sm text-green-600">Across {members.length} members</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Users className="w-5 h-5 mr-2 text-blue-600" />
+            Pipeline by Owner
+          </CardTitle>
+          <CardDescription>Deals owned by each team member</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Owner</TableHead>
+                  <TableHead className="text-right">Open Deals</TableHead>
+                  <TableHead className="text-right">Open Value</TableHead>
+                  <TableHead className="text-right">Weighted</TableHead>
+                  <TableHead className="text-right">Won</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summaries.map(row => (
+                  <TableRow key={row.ownerId}>
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell className="text-right">{row.openDeals}</TableCell>
+                    <TableCell className="text-right">${row.openValue.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">${row.weightedValue.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">${row.wonValue.toLocaleString()} ({row.wonDeals})</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ArrowRightLeft className="w-5 h-5 mr-2 text-orange-600" />
+            Reassign Records
+          </CardTitle>
+          <CardDescription>Move everything one member owns to another, e.g. when someone leaves or changes territory</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-1">
+              <Label>Records</Label>
+              <Select value={reassignEntity} onValueChange={(value) => setReassignEntity(value as OwnedEntity)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(OWNED_ENTITIES) as OwnedEntity[]).map(key => (
+                    <SelectItem key={key} value={key}>{OWNED_ENTITIES[key].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>From</Label>
+              <Select value={fromOwner} onValueChange={setFromOwner}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members.map(member => (
+                    <SelectItem key={member.userId} value={member.userId}>{member.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>To</Label>
+              <Select value={toOwner} onValueChange={setToOwner}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members.map(member => (
+                    <SelectItem key={member.userId} value={member.userId}>{member.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleBulkReassign} disabled={isReassigning}>
+              {isReassigning ? 'Reassigning...' : 'Reassign'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+        <CardHeader>
+          <CardTitle>Open Team Deals</CardTitle>
+          <CardDescription>Change a deal's owner to hand it over</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {openDeals.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">No open deals in this team</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Deal</TableHead>
+                  <TableHead>Stage</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead className="w-48">Owner</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {openDeals.map(deal => (
+                  <TableRow key={deal.id}>
+                    <TableCell className="font-medium">{deal.title}</TableCell>
+                    <TableCell>{deal.stage}</TableCell>
+                    <TableCell className="text-right">${Number(deal.value || 0).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Select value={deal.owner_id || deal.user_id} onValueChange={(ownerId) => handleReassignDeal(deal.id, ownerId)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {members.map(member => (
+                            <SelectItem key={member.userId} value={member.userId}>{member.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TeamPipeline;
@@ -8,9 +8,12 @@ import { generateWinLossAnalysis, WinLossAnalysis, isOpenAIConfigured } from '@/
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePipelines } from '@/hooks/usePipelines';
+import { resolveDealOutcome } from '@/lib/pipelines';
 
 const WinLossExplainer = () => {
   const { user } = useAuth();
+  const { pipelines } = usePipelines();
   const [analysis, setAnalysis] = useState<WinLossAnalysis | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -73,7 +76,7 @@ const WinLossExplainer = () => {
     setError(null);
     
     try {
-      const aiAnalysis = await generateWinLossAnalysis(deals);
+      const aiAnalysis = await generateWinLossAnalysis(deals, pipelines);
       setAnalysis(aiAnalysis);
     } catch (error) {
       console.error('Error generating win/loss analysis:', error);
@@ -86,10 +89,10 @@ const WinLossExplainer = () => {
 
   const openAIConfigured = isOpenAIConfigured();
 
-  // Calculate basic stats using the actual outcome field
-  const wonDeals = deals.filter(deal => deal.outcome === 'won').length;
-  const lostDeals = deals.filter(deal => deal.outcome === 'lost').length;
-  const inProgressDeals = deals.filter(deal => deal.outcome === 'in_progress' || !deal.outcome).length;
+  // Calculate basic stats using the outcome field, falling back to won/lost pipeline stages
+  const wonDeals = deals.filter(deal => resolveDealOutcome(pipelines, deal) === 'won').length;
+  const lostDeals = deals.filter(deal => resolveDealOutcome(pipelines, deal) === 'lost').length;
+  const inProgressDeals = deals.filter(deal => resolveDealOutcome(pipelines, deal) === 'in_progress').length;
   const totalDeals = deals.length;
   const winRate = totalDeals > 0 ? ((wonDeals / totalDeals) * 100).toFixed(1) : '0';
 
@@ -189,7 +192,7 @@ const WinLossExplainer = () => {
             <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
               <p className="text-yellow-700 text-sm">
                 <strong>Note:</strong> OpenAI API key not configured. Showing default analysis. 
-                Add VITE_OPENAI_API_KEY to your .env file for AI-powered insights.
+                Deploy the AI gateway functions with OPENAI_API_KEY set for AI-powered insights.
               </p>
             </div>
           )}
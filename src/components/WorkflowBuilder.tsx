@@ -0,0 +1,733 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Edit, FlaskConical, History, Plus, Trash2, Workflow as WorkflowIcon, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useTeams } from '@/hooks/useTeams';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { OWNED_ENTITIES, fetchTeamMembers, ownedByFilter, type TeamMember } from '@/lib/teams';
+import {
+  WORKFLOW_ACTIONS,
+  WORKFLOW_FIELDS,
+  WORKFLOW_OPERATORS,
+  WORKFLOW_TRIGGERS,
+  deleteWorkflow,
+  fetchWorkflowRuns,
+  fetchWorkflows,
+  saveWorkflow,
+  testWorkflow,
+  type Workflow,
+  type WorkflowAction,
+  type WorkflowActionConfig,
+  type WorkflowActionType,
+  type WorkflowCondition,
+  type WorkflowEntity,
+  type WorkflowInput,
+  type WorkflowOperator,
+  type WorkflowRunResult,
+  type WorkflowTriggerType
+} from '@/lib/workflows';
+
+const ENTITY_OPTIONS: { value: WorkflowEntity; label: string }[] = [
+  { value: 'deals', label: 'Deals' },
+  { value: 'contacts', label: 'Contacts' },
+  { value: 'leads', label: 'Leads' },
+  { value: 'companies', label: 'Companies' }
+];
+
+const RUN_STATUS_COLORS: Record<string, string> = {
+  success: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  skipped: 'bg-slate-100 text-slate-700'
+};
+
+const NO_TEMPLATE = 'none';
+
+const describeTrigger = (workflow: Workflow) => {
+  const label = WORKFLOW_TRIGGERS.find(t => t.value === workflow.trigger_type)?.label || workflow.trigger_type;
+  const config = workflow.trigger_config;
+  if (workflow.trigger_type === 'no_activity') return `No activity for ${config.days || 14} days`;
+  if (workflow.trigger_type === 'record_updated' && config.fields?.length) return `${label}: ${config.fields.join(', ')}`;
+  if (workflow.trigger_type === 'stage_changed' && (config.from_stage || config.to_stage)) {
+    return `${label}: ${config.from_stage || 'any'} → ${config.to_stage || 'any'}`;
+  }
+  return label;
+};
+
+const describeCondition = (entity: WorkflowEntity, condition: WorkflowCondition) => {
+  const field = WORKFLOW_FIELDS[entity].find(f => f.value === condition.field)?.label || condition.field;
+  const operator = WORKFLOW_OPERATORS.find(o => o.value === condition.operator)?.label || condition.operator;
+  return condition.operator === 'is_empty' || condition.operator === 'is_not_empty'
+    ? `${field} ${operator}`
+    : `${field} ${operator} ${condition.value}`;
+};
+
+const WorkflowBuilder = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { teams } = useTeams();
+  const [editing, setEditing] = useState<WorkflowInput | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [testing, setTesting] = useState<Workflow | null>(null);
+  const [testRecordId, setTestRecordId] = useState('');
+  const [testResult, setTestResult] = useState<WorkflowRunResult | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const { data: workflows = [], refetch } = useQuery({
+    queryKey: ['workflows', user?.id],
+    queryFn: () => fetchWorkflows(user!.id),
+    enabled: !!user,
+  });
+
+  const { data: runs = [], refetch: refetchRuns } = useQuery({
+    queryKey: ['workflow-runs', user?.id],
+    queryFn: () => fetchWorkflowRuns(user!.id),
+    enabled: !!user,
+  });
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['email-templates', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_templates')
+        .select('id, name')
+        .eq('user_id', user!.id)
+        .order('name');
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user,
+  });
+
+  // Everyone the user shares a team with, for the reassign action
+  const { data: teammates = [] } = useQuery({
+    queryKey: ['workflow-teammates', teams.map(team => team.id).join(',')],
+    queryFn: async (): Promise<TeamMember[]> => {
+      const members = (await Promise.all(teams.map(team => fetchTeamMembers(team.id)))).flat();
+      return members.filter((member, index) => members.findIndex(m => m.userId === member.userId) === index);
+    },
+    enabled: teams.length > 0,
+  });
+
+  const testEntity = testing?.entity_type;
+  const { data: testRecords = [] } = useQuery({
+    queryKey: ['workflow-test-records', testEntity, user?.id],
+    queryFn: async () => {
+      const nameColumn = OWNED_ENTITIES[testEntity!].nameColumn;
+      const { data, error } = await supabase
+        .from(testEntity!)
+        .select(`id, ${nameColumn}`)
+        .or(ownedByFilter(user!.id))
+        .order('created_at', { ascending: false })
+        .limit(100);
+      if (error) throw error;
+      return ((data || []) as unknown as Record<string, string>[]).map(row => ({ id: row.id, name: row[nameColumn] }));
+    },
+    enabled: !!user && !!testEntity,
+  });
+
+  const workflowName = (workflowId: string) => workflows.find(w => w.id === workflowId)?.name;
+
+  const newWorkflow = (): WorkflowInput => ({
+    name: '',
+    description: '',
+    is_active: true,
+    dry_run: true,
+    entity_type: 'deals',
+    trigger_type: 'record_created',
+    trigger_config: {},
+    conditions: [],
+    actions: []
+  });
+
+  const updateCondition = (index: number, changes: Partial<WorkflowCondition>) => {
+    if (!editing) return;
+    setEditing({
+      ...editing,
+      conditions: editing.conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition))
+    });
+  };
+
+  const updateAction = (index: number, changes: Partial<WorkflowActionConfig>) => {
+    if (!editing) return;
+    setEditing({
+      ...editing,
+      actions: editing.actions.map((action, i) => (i === index ? { ...action, config: { ...action.config, ...changes } } : action))
+    });
+  };
+
+  const setEntity = (entity: WorkflowEntity) => {
+    if (!editing) return;
+    const trigger = WORKFLOW_TRIGGERS.find(t => t.value === editing.trigger_type);
+    setEditing({
+      ...editing,
+      entity_type: entity,
+      trigger_type: trigger?.entities.includes(entity) ? editing.trigger_type : 'record_created',
+      trigger_config: {},
+      conditions: []
+    });
+  };
+
+  const handleSave = async () => {
+    if (!user || !editing) return;
+    if (!editing.name.trim()) {
+      toast({ title: "Error", description: "Workflow name is required", variant: "destructive" });
+      return;
+    }
+    if (editing.actions.length === 0) {
+      toast({ title: "Error", description: "Add at least one action", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveWorkflow(user.id, editing);
+      toast({ title: editing.id ? "Workflow updated" : "Workflow created" });
+      setEditing(null);
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save workflow",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (workflow: Workflow, changes: Partial<Pick<Workflow, 'is_active' | 'dry_run'>>) => {
+    if (!user) return;
+    try {
+      await saveWorkflow(user.id, { ...workflow, ...changes });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update workflow",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (workflowId: string) => {
+    if (!user) return;
+    try {
+      await deleteWorkflow(user.id, workflowId);
+      toast({ title: "Workflow deleted" });
+      refetch();
+      refetchRuns();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete workflow",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleTest = async () => {
+    if (!user || !testing || !testRecordId) return;
+    setIsTesting(true);
+    try {
+      setTestResult(await testWorkflow(user.id, testing, testRecordId));
+      refetchRuns();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to test workflow",
+        variant: "destructive",
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const closeTest = () => {
+    setTesting(null);
+    setTestRecordId('');
+    setTestResult(null);
+  };
+
+  const renderActionConfig = (action: WorkflowAction, index: number, entity: WorkflowEntity) => {
+    const config = action.config;
+    switch (action.type) {
+      case 'create_activity':
+        return (
+          <div className="grid grid-cols-3 gap-2">
+            <Select value={config.activity_type || 'task'} onValueChange={(value) => updateAction(index, { activity_type: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="task">Task</SelectItem>
+                <SelectItem value="call">Call</SelectItem>
+                <SelectItem value="email">Email</SelectItem>
+                <SelectItem value="meeting">Meeting</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              className="col-span-2"
+              value={config.subject || ''}
+              onChange={(e) => updateAction(index, { subject: e.target.value })}
+              placeholder="Subject, e.g. Call {{name}}"
+            />
+            <Label className="self-center text-sm text-slate-600">Due in days</Label>
+            <Input
+              type="number"
+              min="0"
+              value={config.due_in_days ?? ''}
+              onChange={(e) => updateAction(index, { due_in_days: e.target.value === '' ? undefined : parseInt(e.target.value) || 0 })}
+            />
+          </div>
+        );
+      case 'send_email':
+        return (
+          <div className="space-y-2">
+            <Select
+              value={config.template_id || NO_TEMPLATE}
+              onValueChange={(value) => updateAction(index, { template_id: value === NO_TEMPLATE ? undefined : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TEMPLATE}>Write the email below</SelectItem>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>Template: {template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!config.template_id && (
+              <>
+                <Input value={config.subject || ''} onChange={(e) => updateAction(index, { subject: e.target.value })} placeholder="Subject" />
+                <Textarea
+                  rows={3}
+                  value={config.body || ''}
+                  onChange={(e) => updateAction(index, { body: e.target.value })}
+                  placeholder="Hi {{name}}, ..."
+                />
+              </>
+            )}
+          </div>
+        );
+      case 'update_field':
+        return (
+          <div className="flex gap-2">
+            <Select value={config.field || ''} onValueChange={(value) => updateAction(index, { field: value })}>
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Field" />
+              </SelectTrigger>
+              <SelectContent>
+                {WORKFLOW_FIELDS[entity].map(field => (
+                  <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input value={config.value || ''} onChange={(e) => updateAction(index, { value: e.target.value })} placeholder="New value" />
+          </div>
+        );
+      case 'reassign':
+        return teammates.length === 0 ? (
+          <p className="text-sm text-slate-500">Join or create a team to reassign records</p>
+        ) : (
+          <Select value={config.owner_id || ''} onValueChange={(value) => updateAction(index, { owner_id: value })}>
+            <SelectTrigger>
+              <SelectValue placeholder="New owner" />
+            </SelectTrigger>
+            <SelectContent>
+              {teammates.map(member => (
+                <SelectItem key={member.userId} value={member.userId}>{member.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'notify':
+        return (
+          <div className="space-y-2">
+            <Select value={config.recipient || 'me'} onValueChange={(value) => updateAction(index, { recipient: value as 'me' | 'owner' })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="me">Notify me</SelectItem>
+                <SelectItem value="owner">Notify the record owner</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input value={config.subject || ''} onChange={(e) => updateAction(index, { subject: e.target.value })} placeholder="Title" />
+            <Input value={config.body || ''} onChange={(e) => updateAction(index, { body: e.target.value })} placeholder="Message" />
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center">
+              <WorkflowIcon className="w-5 h-5 mr-2 text-blue-600" />
+              Workflows
+            </CardTitle>
+            <CardDescription>
+              Run actions automatically when records change, emails are opened or replied to, or records go quiet
+            </CardDescription>
+          </div>
+          <Button onClick={() => setEditing(newWorkflow())}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Workflow
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {workflows.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">No workflows yet</div>
+          ) : (
+            <div className="space-y-3">
+              {workflows.map(workflow => (
+                <div key={workflow.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border border-slate-200 rounded-lg bg-white">
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-slate-900">{workflow.name}</span>
+                      <Badge variant="outline">{ENTITY_OPTIONS.find(e => e.value === workflow.entity_type)?.label}</Badge>
+                      {workflow.dry_run && <Badge className="bg-amber-100 text-amber-800">Dry run</Badge>}
+                    </div>
+                    {workflow.description && <p className="text-sm text-slate-600">{workflow.description}</p>}
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="outline" className="text-xs">When: {describeTrigger(workflow)}</Badge>
+                      {workflow.conditions.map((condition, index) => (
+                        <Badge key={index} variant="outline" className="text-xs">{describeCondition(workflow.entity_type, condition)}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-sm text-slate-600">
+                      Then {workflow.actions.map(action => WORKFLOW_ACTIONS.find(a => a.value === action.type)?.label.toLowerCase()).join(', ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-1 text-xs text-slate-600">
+                      <Switch checked={workflow.dry_run} onCheckedChange={(checked) => handleToggle(workflow, { dry_run: checked })} />
+                      Dry run
+                    </label>
+                    <label className="flex items-center gap-1 text-xs text-slate-600">
+                      <Switch checked={workflow.is_active} onCheckedChange={(checked) => handleToggle(workflow, { is_active: checked })} />
+                      Active
+                    </label>
+                    <Button size="sm" variant="outline" onClick={() => setTesting(workflow)} title="Test on a record">
+                      <FlaskConical className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setEditing(workflow)}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleDelete(workflow.id)} className="hover:bg-red-50 text-red-600">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <History className="w-5 h-5 mr-2 text-slate-600" />
+            Execution Log
+          </CardTitle>
+          <CardDescription>The most recent workflow runs, including dry runs and skipped ones</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">No runs yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Workflow</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Steps</TableHead>
+                  <TableHead>When</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map(run => (
+                  <TableRow key={run.id}>
+                    <TableCell className="font-medium">{workflowName(run.workflow_id) || run.workflowName}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Badge className={RUN_STATUS_COLORS[run.status]}>{run.status}</Badge>
+                        {run.dry_run && <Badge variant="outline">dry run</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-slate-600">
+                      {run.steps.length === 0 ? run.error : run.steps.map((step, index) => (
+                        <div key={index} className={step.status === 'failed' ? 'text-red-600' : ''}>
+                          {WORKFLOW_ACTIONS.find(a => a.value === step.type)?.label}: {step.detail}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell>{run.created_at ? new Date(run.created_at).toLocaleString() : ''}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && !isSaving && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? 'Edit Workflow' : 'New Workflow'}</DialogTitle>
+            <DialogDescription>
+              The actions run in order when the trigger fires and every condition holds. New workflows start in dry-run mode.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-6">
+              <div className="space-y-3">
+                <div className="space-y-1">
+                  <Label htmlFor="workflow-name">Name *</Label>
+                  <Input id="workflow-name" value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} placeholder="e.g. Follow up on big deals" />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="workflow-description">Description</Label>
+                  <Input id="workflow-description" value={editing.description || ''} onChange={(e) => setEditing({ ...editing, description: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Trigger</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  <Select value={editing.entity_type} onValueChange={(value) => setEntity(value as WorkflowEntity)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ENTITY_OPTIONS.map(entity => (
+                        <SelectItem key={entity.value} value={entity.value}>{entity.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={editing.trigger_type}
+                    onValueChange={(value) => setEditing({ ...editing, trigger_type: value as WorkflowTriggerType, trigger_config: {} })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WORKFLOW_TRIGGERS.filter(trigger => trigger.entities.includes(editing.entity_type)).map(trigger => (
+                        <SelectItem key={trigger.value} value={trigger.value}>{trigger.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {editing.trigger_type === 'record_updated' && (
+                  <Input
+                    value={(editing.trigger_config.fields || []).join(', ')}
+                    onChange={(e) => setEditing({
+                      ...editing,
+                      trigger_config: { fields: e.target.value.split(',').map(field => field.trim()).filter(Boolean) }
+                    })}
+                    placeholder="Only when these fields change, e.g. status, score (blank for any change)"
+                  />
+                )}
+                {editing.trigger_type === 'stage_changed' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      value={editing.trigger_config.from_stage || ''}
+                      onChange={(e) => setEditing({ ...editing, trigger_config: { ...editing.trigger_config, from_stage: e.target.value } })}
+                      placeholder="From stage (any)"
+                    />
+                    <Input
+                      value={editing.trigger_config.to_stage || ''}
+                      onChange={(e) => setEditing({ ...editing, trigger_config: { ...editing.trigger_config, to_stage: e.target.value } })}
+                      placeholder="To stage (any)"
+                    />
+                  </div>
+                )}
+                {editing.trigger_type === 'no_activity' && (
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="workflow-days" className="text-sm text-slate-600">Days without activity</Label>
+                    <Input
+                      id="workflow-days"
+                      type="number"
+                      min="1"
+                      className="w-24"
+                      value={editing.trigger_config.days ?? 14}
+                      onChange={(e) => setEditing({ ...editing, trigger_config: { days: parseInt(e.target.value) || 1 } })}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Conditions</Label>
+                {editing.conditions.map((condition, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Select value={condition.field} onValueChange={(field) => updateCondition(index, { field })}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WORKFLOW_FIELDS[editing.entity_type].map(field => (
+                          <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={condition.operator} onValueChange={(operator) => updateCondition(index, { operator: operator as WorkflowOperator })}>
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WORKFLOW_OPERATORS.map(operator => (
+                          <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {condition.operator !== 'is_empty' && condition.operator !== 'is_not_empty' && (
+                      <Input value={condition.value} onChange={(e) => updateCondition(index, { value: e.target.value })} placeholder="Value" />
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setEditing({ ...editing, conditions: editing.conditions.filter((_, i) => i !== index) })}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setEditing({
+                    ...editing,
+                    conditions: [...editing.conditions, { field: WORKFLOW_FIELDS[editing.entity_type][0].value, operator: 'equals', value: '' }]
+                  })}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Condition
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Actions *</Label>
+                <p className="text-xs text-slate-500">Text can use the record's fields, e.g. {'{{name}}'}, or merge fields like {'{{contact.first_name | "there"}}'} and {'{{sender.signature}}'}</p>
+                {editing.actions.map((action, index) => (
+                  <div key={index} className="p-3 border border-slate-200 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-slate-900">
+                        {index + 1}. {WORKFLOW_ACTIONS.find(a => a.value === action.type)?.label}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setEditing({ ...editing, actions: editing.actions.filter((_, i) => i !== index) })}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    {renderActionConfig(action, index, editing.entity_type)}
+                  </div>
+                ))}
+                <Select
+                  value=""
+                  onValueChange={(type) => setEditing({ ...editing, actions: [...editing.actions, { type: type as WorkflowActionType, config: {} }] })}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Add action" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WORKFLOW_ACTIONS.map(action => (
+                      <SelectItem key={action.value} value={action.value}>{action.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={editing.dry_run} onCheckedChange={(checked) => setEditing({ ...editing, dry_run: checked })} />
+                  Dry run: log what would happen without doing it
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={editing.is_active} onCheckedChange={(checked) => setEditing({ ...editing, is_active: checked })} />
+                  Active
+                </label>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Workflow'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!testing} onOpenChange={(open) => !open && !isTesting && closeTest()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Test {testing?.name}</DialogTitle>
+            <DialogDescription>Dry-run the workflow on a record. Nothing is changed; the run is logged.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <Select value={testRecordId} onValueChange={(value) => { setTestRecordId(value); setTestResult(null); }}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a record" />
+              </SelectTrigger>
+              <SelectContent>
+                {testRecords.map(record => (
+                  <SelectItem key={record.id} value={record.id}>{record.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {testResult && (
+              <div className="p-3 border border-slate-200 rounded-lg space-y-2 text-sm">
+                <Badge className={RUN_STATUS_COLORS[testResult.status]}>{testResult.status}</Badge>
+                {testResult.error && <p className="text-slate-600">{testResult.error}</p>}
+                {testResult.steps.map((step, index) => (
+                  <div key={index} className={step.status === 'failed' ? 'text-red-600' : 'text-slate-700'}>
+                    {index + 1}. {WORKFLOW_ACTIONS.find(a => a.value === step.type)?.label}: {step.detail}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeTest} disabled={isTesting}>
+              Close
+            </Button>
+            <Button onClick={handleTest} disabled={isTesting || !testRecordId}>
+              {isTesting ? 'Running...' : 'Run Test'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default WorkflowBuilder;
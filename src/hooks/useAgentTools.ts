@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { AGENT_MODEL, AGENT_TOOLS, executeAgentTool } from '@/lib/ai/agentTools';
+import { createCRMToolContext, type CRMToolConfirmation, type CRMToolResult } from '@/lib/ai/crmTools';
+import { runToolConversation, type ToolConversationResult } from '@/lib/ai/toolCalling';
+
+const NOT_SIGNED_IN: CRMToolResult = {
+  ok: false,
+  error: 'User not authenticated. Please sign in to use the assistant.',
+  records: []
+};
+
+const AGENT_INSTRUCTIONS =
+  "Use available tools to solve the user's request. When you have the final answer or have completed the requested task, respond directly without calling any more tools. If the task requires multiple steps, continue using tools until you have all the information needed.";
+
+/**
+ * Hook for running the Agent's tools as the current user
+ * Writes and sends wait in pendingConfirmation until the user answers them
+ */
+export function useAgentTools() {
+  const { user } = useAuth();
+  const [pendingConfirmation, setPendingConfirmation] = useState<CRMToolConfirmation | null>(null);
+  const resolveConfirmation = useRef<((approved: boolean) => void) | null>(null);
+
+  const confirmToolCall = useCallback(
+    (confirmation: CRMToolConfirmation) =>
+      new Promise<boolean>(resolve => {
+        resolveConfirmation.current = resolve;
+        setPendingConfirmation(confirmation);
+      }),
+    []
+  );
+
+  const answerConfirmation = useCallback((approved: boolean) => {
+    resolveConfirmation.current?.(approved);
+    resolveConfirmation.current = null;
+    setPendingConfirmation(null);
+  }, []);
+
+  // A change left waiting when the Agent goes away counts as declined
+  useEffect(() => () => answerConfirmation(false), [answerConfirmation]);
+
+  /**
+   * Run one tool directly
+   */
+  const runTool = useCallback(
+    async (toolName: string, args: Record<string, unknown>): Promise<CRMToolResult> => {
+      if (!user) return NOT_SIGNED_IN;
+      const result = await executeAgentTool(toolName, args, createCRMToolContext(user.id, 'agent'), confirmToolCall);
+      console.log(`[TOOL RESULT] ${toolName} ok: ${result.ok}${result.declined ? ' (declined)' : ''}`);
+      return result;
+    },
+    [user, confirmToolCall]
+  );
+
+  /**
+   * Let the model work through a request with all of the Agent's tools
+   */
+  const converse = useCallback(
+    async (prompt: string, onToolCall?: (toolName: string, result?: CRMToolResult) => void): Promise<ToolConversationResult> => {
+      if (!user) throw new Error(NOT_SIGNED_IN.error);
+      return runToolConversation({
+        messages: [
+          { role: 'system', content: AGENT_INSTRUCTIONS },
+          { role: 'user', content: prompt }
+        ],
+        context: createCRMToolContext(user.id, 'agent'),
+        confirm: confirmToolCall,
+        onToolCall,
+        model: AGENT_MODEL,
+        maxRounds: 10,
+        tools: AGENT_TOOLS
+      });
+    },
+    [user, confirmToolCall]
+  );
+
+  return { pendingConfirmation, answerConfirmation, runTool, converse };
+}
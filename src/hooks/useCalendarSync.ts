@@ -0,0 +1,41 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { CALENDAR_QUERY_KEYS, fetchCalendarIntegrations, syncCalendar } from '@/lib/calendarSync';
+
+const CALENDAR_SYNC_POLL_MS = 10 * 60 * 1000;
+
+/**
+ * Hook that syncs the current user's CalDAV calendar both ways while the app is open
+ */
+export function useCalendarSync() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const running = useRef(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const tick = async () => {
+      if (running.current) return;
+      running.current = true;
+      try {
+        const { caldav } = await fetchCalendarIntegrations(user.id);
+        if (!caldav?.is_active) return;
+        const result = await syncCalendar(caldav.id);
+        if (result.imported || result.updated_in_crm || result.deleted_in_crm) {
+          CALENDAR_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+        }
+        queryClient.invalidateQueries({ queryKey: ['integrations'] });
+      } catch (error) {
+        console.error('Error syncing calendar:', error);
+      } finally {
+        running.current = false;
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, CALENDAR_SYNC_POLL_MS);
+    return () => clearInterval(interval);
+  }, [user, queryClient]);
+}
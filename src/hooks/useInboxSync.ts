@@ -0,0 +1,41 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchImapSettings, syncInbox } from '@/lib/emailSync';
+
+const INBOX_SYNC_POLL_MS = 5 * 60 * 1000;
+
+/**
+ * Hook that imports new messages from the current user's mailbox while the app is open
+ */
+export function useInboxSync() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const running = useRef(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const tick = async () => {
+      if (running.current) return;
+      running.current = true;
+      try {
+        if (!(await fetchImapSettings(user.id))) return;
+        const result = await syncInbox();
+        if (result.imported) {
+          queryClient.invalidateQueries({ queryKey: ['emails'] });
+          queryClient.invalidateQueries({ queryKey: ['activities'] });
+          queryClient.invalidateQueries({ queryKey: ['sequence-enrollments'] });
+        }
+      } catch (error) {
+        console.error('Error syncing inbox:', error);
+      } finally {
+        running.current = false;
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, INBOX_SYNC_POLL_MS);
+    return () => clearInterval(interval);
+  }, [user, queryClient]);
+}
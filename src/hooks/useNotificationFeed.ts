@@ -0,0 +1,66 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { fetchNotificationPreferences, notifyDueTasks, subscribeToNotifications } from '@/lib/notifications';
+
+const DUE_TASK_POLL_MS = 5 * 60 * 1000;
+
+/**
+ * Hook that delivers the current user's notifications as they are posted, and posts
+ * notifications for tasks that fall due while the app is open
+ */
+export function useNotificationFeed() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const running = useRef(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribe = subscribeToNotifications(user.id, async (notification) => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+      queryClient.invalidateQueries({ queryKey: ['notification-count'] });
+      if (notification.source === 'mention' || notification.source === 'reply') {
+        queryClient.invalidateQueries({ queryKey: ['comments'] });
+      }
+
+      try {
+        const preferences = await queryClient.fetchQuery({
+          queryKey: ['notification-preferences', user.id],
+          queryFn: () => fetchNotificationPreferences(user.id),
+        });
+        if (!preferences.toasts) return;
+      } catch (error) {
+        console.error('Error loading notification preferences:', error);
+      }
+
+      toast({
+        title: notification.title,
+        description: notification.message || undefined,
+        variant: notification.type === 'error' ? 'destructive' : 'default'
+      });
+    });
+
+    const tick = async () => {
+      if (running.current) return;
+      running.current = true;
+      try {
+        // New rows arrive through the subscription above
+        await notifyDueTasks();
+      } catch (error) {
+        console.error('Error checking due tasks:', error);
+      } finally {
+        running.current = false;
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, DUE_TASK_POLL_MS);
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, [user, queryClient, toast]);
+}
@@ -0,0 +1,36 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchPipelines, getDefaultPipeline, type Pipeline } from '@/lib/pipelines';
+
+/**
+ * Hook for reading the current user's pipelines, followed by their teammates'
+ * Creates the default pipeline on first use and shares one cache across components
+ */
+export function usePipelines() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: pipelines = [], isLoading } = useQuery({
+    queryKey: ['pipelines', user?.id],
+    queryFn: async (): Promise<Pipeline[]> => {
+      if (!user) return [];
+      return fetchPipelines(user.id);
+    },
+    enabled: !!user,
+  });
+
+  /**
+   * Reload pipelines after they were edited
+   */
+  const refreshPipelines = useCallback(() => {
+    return queryClient.invalidateQueries({ queryKey: ['pipelines', user?.id] });
+  }, [queryClient, user?.id]);
+
+  return {
+    pipelines,
+    defaultPipeline: getDefaultPipeline(pipelines),
+    isLoading,
+    refreshPipelines
+  };
+}
@@ -0,0 +1,40 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { processDueEnrollments } from '@/lib/sequences';
+
+const SEQUENCE_POLL_MS = 60 * 1000;
+
+/**
+ * Hook that sends the current user's due sequence steps while the app is open
+ */
+export function useSequenceRunner() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const running = useRef(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const tick = async () => {
+      if (running.current) return;
+      running.current = true;
+      try {
+        const runs = await processDueEnrollments(user.id);
+        if (runs > 0) {
+          queryClient.invalidateQueries({ queryKey: ['sequence-enrollments'] });
+          queryClient.invalidateQueries({ queryKey: ['sequence-report'] });
+          queryClient.invalidateQueries({ queryKey: ['emails'] });
+        }
+      } catch (error) {
+        console.error('Error running sequences:', error);
+      } finally {
+        running.current = false;
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, SEQUENCE_POLL_MS);
+    return () => clearInterval(interval);
+  }, [user, queryClient]);
+}
@@ -0,0 +1,36 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { canManageTeamRecords, fetchTeams, type Team } from '@/lib/teams';
+
+/**
+ * Hook for reading the teams the current user belongs to
+ * Shares one cache across components
+ */
+export function useTeams() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: teams = [], isLoading } = useQuery({
+    queryKey: ['teams', user?.id],
+    queryFn: async (): Promise<Team[]> => {
+      if (!user) return [];
+      return fetchTeams(user.id);
+    },
+    enabled: !!user,
+  });
+
+  /**
+   * Reload teams after joining, leaving or creating one
+   */
+  const refreshTeams = useCallback(() => {
+    return queryClient.invalidateQueries({ queryKey: ['teams', user?.id] });
+  }, [queryClient, user?.id]);
+
+  return {
+    teams,
+    managedTeams: teams.filter(team => canManageTeamRecords(team.role)),
+    isLoading,
+    refreshTeams
+  };
+}
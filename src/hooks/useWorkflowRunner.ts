@@ -0,0 +1,48 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { checkInactivityTriggers, processWorkflowEvents } from '@/lib/workflows';
+
+const EVENT_POLL_MS = 30 * 1000;
+const INACTIVITY_CHECK_MS = 60 * 60 * 1000;
+
+/**
+ * Hook that runs the current user's workflows while the app is open
+ * Polls queued events and checks no-activity triggers hourly
+ */
+export function useWorkflowRunner() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const running = useRef(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let lastInactivityCheck = 0;
+
+    const tick = async () => {
+      if (running.current) return;
+      running.current = true;
+      try {
+        let runs = await processWorkflowEvents(user.id);
+        if (Date.now() - lastInactivityCheck >= INACTIVITY_CHECK_MS) {
+          lastInactivityCheck = Date.now();
+          runs += await checkInactivityTriggers(user.id);
+        }
+        if (runs > 0) {
+          queryClient.invalidateQueries({ queryKey: ['workflow-runs'] });
+          queryClient.invalidateQueries({ queryKey: ['notifications'] });
+          queryClient.invalidateQueries({ queryKey: ['notification-count'] });
+        }
+      } catch (error) {
+        console.error('Error running workflows:', error);
+      } finally {
+        running.current = false;
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, EVENT_POLL_MS);
+    return () => clearInterval(interval);
+  }, [user, queryClient]);
+}
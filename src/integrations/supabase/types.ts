@@ -18,7 +18,11 @@ export type Database = {
           deal_id: string | null
           description: string | null
           due_date: string | null
+          end_date: string | null
+          ical_uid: string | null
           id: string
+          import_batch_id: string | null
+          lead_id: string | null
           priority: string | null
           status: string | null
           subject: string
@@ -34,7 +38,11 @@ export type Database = {
           deal_id?: string | null
           description?: string | null
           due_date?: string | null
+          end_date?: string | null
+          ical_uid?: string | null
           id?: string
+          import_batch_id?: string | null
+          lead_id?: string | null
           priority?: string | null
           status?: string | null
           subject: string
@@ -50,7 +58,11 @@ export type Database = {
           deal_id?: string | null
           description?: string | null
           due_date?: string | null
+          end_date?: string | null
+          ical_uid?: string | null
           id?: string
+          import_batch_id?: string | null
+          lead_id?: string | null
           priority?: string | null
           status?: string | null
           subject?: string
@@ -79,9 +91,263 @@ export type Database = {
             isOneToOne: false
             referencedRelation: "deals"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activities_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
           }
         ]
       }
+      agent_runs: {
+        Row: {
+          approval: string | null
+          arguments: Json
+          created_at: string | null
+          duration_ms: number
+          error: string | null
+          finished_at: string | null
+          id: string
+          ok: boolean | null
+          permission: string | null
+          result: Json | null
+          source: string
+          tool_name: string
+          user_id: string
+        }
+        Insert: {
+          approval?: string | null
+          arguments?: Json
+          created_at?: string | null
+          duration_ms?: number
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          ok?: boolean | null
+          permission?: string | null
+          result?: Json | null
+          source: string
+          tool_name: string
+          user_id: string
+        }
+        Update: {
+          approval?: string | null
+          arguments?: Json
+          created_at?: string | null
+          duration_ms?: number
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          ok?: boolean | null
+          permission?: string | null
+          result?: Json | null
+          source?: string
+          tool_name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      assignment_rules: {
+        Row: {
+          assignee_ids: string[]
+          conditions: Json
+          created_at: string | null
+          id: string
+          is_active: boolean
+          last_assignee_index: number
+          name: string
+          priority: number
+          strategy: string
+          team_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          assignee_ids?: string[]
+          conditions?: Json
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          last_assignee_index?: number
+          name: string
+          priority?: number
+          strategy?: string
+          team_id: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          assignee_ids?: string[]
+          conditions?: Json
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          last_assignee_index?: number
+          name?: string
+          priority?: number
+          strategy?: string
+          team_id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_rules_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_sync_items: {
+        Row: {
+          activity_id: string | null
+          created_at: string | null
+          etag: string | null
+          href: string
+          id: string
+          integration_id: string
+          synced_at: string | null
+          synced_version: string | null
+          uid: string
+          user_id: string
+        }
+        Insert: {
+          activity_id?: string | null
+          created_at?: string | null
+          etag?: string | null
+          href: string
+          id?: string
+          integration_id: string
+          synced_at?: string | null
+          synced_version?: string | null
+          uid: string
+          user_id: string
+        }
+        Update: {
+          activity_id?: string | null
+          created_at?: string | null
+          etag?: string | null
+          href?: string
+          id?: string
+          integration_id?: string
+          synced_at?: string | null
+          synced_version?: string | null
+          uid?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_sync_items_activity_id_fkey"
+            columns: ["activity_id"]
+            isOneToOne: false
+            referencedRelation: "activities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendar_sync_items_integration_id_fkey"
+            columns: ["integration_id"]
+            isOneToOne: false
+            referencedRelation: "integrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_messages: {
+        Row: {
+          citations: Json
+          completion_tokens: number
+          content: string
+          created_at: string | null
+          id: string
+          prompt_tokens: number
+          role: string
+          search: unknown
+          session_id: string
+          tokens: number
+          user_id: string
+        }
+        Insert: {
+          citations?: Json
+          completion_tokens?: number
+          content: string
+          created_at?: string | null
+          id?: string
+          prompt_tokens?: number
+          role: string
+          search?: unknown
+          session_id: string
+          tokens?: number
+          user_id: string
+        }
+        Update: {
+          citations?: Json
+          completion_tokens?: number
+          content?: string
+          created_at?: string | null
+          id?: string
+          prompt_tokens?: number
+          role?: string
+          search?: unknown
+          session_id?: string
+          tokens?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_sessions: {
+        Row: {
+          created_at: string | null
+          id: string
+          last_message_at: string | null
+          message_count: number
+          pinned: boolean
+          share_token: string | null
+          shared_at: string | null
+          title: string
+          total_tokens: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          last_message_at?: string | null
+          message_count?: number
+          pinned?: boolean
+          share_token?: string | null
+          shared_at?: string | null
+          title?: string
+          total_tokens?: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          last_message_at?: string | null
+          message_count?: number
+          pinned?: boolean
+          share_token?: string | null
+          shared_at?: string | null
+          title?: string
+          total_tokens?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       comments: {
         Row: {
           contact_id: string | null
@@ -90,6 +356,7 @@ export type Database = {
           deal_id: string | null
           id: string
           mentions: string[] | null
+          parent_id: string | null
           updated_at: string
           user_id: string
         }
@@ -100,6 +367,7 @@ export type Database = {
           deal_id?: string | null
           id?: string
           mentions?: string[] | null
+          parent_id?: string | null
           updated_at?: string
           user_id: string
         }
@@ -110,6 +378,7 @@ export type Database = {
           deal_id?: string | null
           id?: string
           mentions?: string[] | null
+          parent_id?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -128,6 +397,13 @@ export type Database = {
             referencedRelation: "deals"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
         ]
       }
       companies: {
@@ -143,6 +419,7 @@ export type Database = {
           facebook_url: string | null
           founded_year: number | null
           id: string
+          import_batch_id: string | null
           industry: string | null
           last_contact: string | null
           linkedin_url: string | null
@@ -150,6 +427,7 @@ export type Database = {
           name: string
           next_follow_up: string | null
           notes: string | null
+          owner_id: string | null
           phone: string | null
           postal_code: string | null
           revenue: number | null
@@ -174,6 +452,7 @@ export type Database = {
           facebook_url?: string | null
           founded_year?: number | null
           id?: string
+          import_batch_id?: string | null
           industry?: string | null
           last_contact?: string | null
           linkedin_url?: string | null
@@ -181,6 +460,7 @@ export type Database = {
           name: string
           next_follow_up?: string | null
           notes?: string | null
+          owner_id?: string | null
           phone?: string | null
           postal_code?: string | null
           revenue?: number | null
@@ -205,6 +485,7 @@ export type Database = {
           facebook_url?: string | null
           founded_year?: number | null
           id?: string
+          import_batch_id?: string | null
           industry?: string | null
           last_contact?: string | null
           linkedin_url?: string | null
@@ -212,6 +493,7 @@ export type Database = {
           name?: string
           next_follow_up?: string | null
           notes?: string | null
+          owner_id?: string | null
           phone?: string | null
           postal_code?: string | null
           revenue?: number | null
@@ -234,8 +516,10 @@ export type Database = {
           created_at: string | null
           email: string | null
           id: string
+          import_batch_id: string | null
           last_contact: string | null
           name: string
+          owner_id: string | null
           persona: string | null
           phone: string | null
           score: number | null
@@ -251,8 +535,10 @@ export type Database = {
           created_at?: string | null
           email?: string | null
           id?: string
+          import_batch_id?: string | null
           last_contact?: string | null
           name: string
+          owner_id?: string | null
           persona?: string | null
           phone?: string | null
           score?: number | null
@@ -268,8 +554,10 @@ export type Database = {
           created_at?: string | null
           email?: string | null
           id?: string
+          import_batch_id?: string | null
           last_contact?: string | null
           name?: string
+          owner_id?: string | null
           persona?: string | null
           phone?: string | null
           score?: number | null
@@ -288,6 +576,84 @@ export type Database = {
           },
         ]
       }
+      dedupe_dismissals: {
+        Row: {
+          created_at: string | null
+          entity_type: string
+          id: string
+          record_a: string
+          record_b: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          entity_type: string
+          id?: string
+          record_a: string
+          record_b: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          entity_type?: string
+          id?: string
+          record_a?: string
+          record_b?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      deal_stage_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          deal_id: string
+          from_stage: string | null
+          id: string
+          pipeline_id: string | null
+          probability: number | null
+          to_stage: string
+          user_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          deal_id: string
+          from_stage?: string | null
+          id?: string
+          pipeline_id?: string | null
+          probability?: number | null
+          to_stage: string
+          user_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          deal_id?: string
+          from_stage?: string | null
+          id?: string
+          pipeline_id?: string | null
+          probability?: number | null
+          to_stage?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_stage_history_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deal_stage_history_pipeline_id_fkey"
+            columns: ["pipeline_id"]
+            isOneToOne: false
+            referencedRelation: "pipelines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       deals: {
         Row: {
           company: string | null
@@ -295,10 +661,15 @@ export type Database = {
           contact_id: string | null
           contact_name: string | null
           created_at: string | null
+          expected_close_date: string | null
+          forecast_category: string
           id: string
+          import_batch_id: string | null
           last_activity: string | null
           next_step: string | null
           outcome: string | null
+          owner_id: string | null
+          pipeline_id: string | null
           probability: number | null
           stage: string | null
           title: string
@@ -312,10 +683,15 @@ export type Database = {
           contact_id?: string | null
           contact_name?: string | null
           created_at?: string | null
+          expected_close_date?: string | null
+          forecast_category?: string
           id?: string
+          import_batch_id?: string | null
           last_activity?: string | null
           next_step?: string | null
           outcome?: string | null
+          owner_id?: string | null
+          pipeline_id?: string | null
           probability?: number | null
           stage?: string | null
           title: string
@@ -329,10 +705,15 @@ export type Database = {
           contact_id?: string | null
           contact_name?: string | null
           created_at?: string | null
+          expected_close_date?: string | null
+          forecast_category?: string
           id?: string
+          import_batch_id?: string | null
           last_activity?: string | null
           next_step?: string | null
           outcome?: string | null
+          owner_id?: string | null
+          pipeline_id?: string | null
           probability?: number | null
           stage?: string | null
           title?: string
@@ -355,6 +736,54 @@ export type Database = {
             referencedRelation: "contacts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "deals_pipeline_id_fkey"
+            columns: ["pipeline_id"]
+            isOneToOne: false
+            referencedRelation: "pipelines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_links: {
+        Row: {
+          click_count: number
+          created_at: string | null
+          email_tracking_id: string
+          first_clicked_at: string | null
+          id: string
+          last_clicked_at: string | null
+          url: string
+          user_id: string
+        }
+        Insert: {
+          click_count?: number
+          created_at?: string | null
+          email_tracking_id: string
+          first_clicked_at?: string | null
+          id?: string
+          last_clicked_at?: string | null
+          url: string
+          user_id: string
+        }
+        Update: {
+          click_count?: number
+          created_at?: string | null
+          email_tracking_id?: string
+          first_clicked_at?: string | null
+          id?: string
+          last_clicked_at?: string | null
+          url?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_links_email_tracking_id_fkey"
+            columns: ["email_tracking_id"]
+            isOneToOne: false
+            referencedRelation: "email_tracking"
+            referencedColumns: ["id"]
+          },
         ]
       }
       email_templates: {
@@ -392,42 +821,96 @@ export type Database = {
       }
       email_tracking: {
         Row: {
+          body: string | null
+          bounced_at: string | null
+          click_count: number
           clicked_at: string | null
           contact_id: string | null
           created_at: string
           deal_id: string | null
+          delivery_error: string | null
+          delivery_status: string | null
           email_id: string
+          folder: string | null
           id: string
+          in_reply_to: string | null
+          lead_id: string | null
+          message_id: string | null
+          open_count: number
           opened_at: string | null
+          read_at: string | null
+          recipient_email: string | null
+          reference_ids: string[] | null
           replied_at: string | null
+          sender_email: string | null
           sent_at: string | null
+          sequence_enrollment_id: string | null
+          sequence_step_id: string | null
           subject: string | null
+          thread_id: string | null
+          type: string | null
           user_id: string
         }
         Insert: {
+          body?: string | null
+          bounced_at?: string | null
+          click_count?: number
           clicked_at?: string | null
           contact_id?: string | null
           created_at?: string
           deal_id?: string | null
+          delivery_error?: string | null
+          delivery_status?: string | null
           email_id: string
+          folder?: string | null
           id?: string
+          in_reply_to?: string | null
+          lead_id?: string | null
+          message_id?: string | null
+          open_count?: number
           opened_at?: string | null
+          read_at?: string | null
+          recipient_email?: string | null
+          reference_ids?: string[] | null
           replied_at?: string | null
+          sender_email?: string | null
           sent_at?: string | null
+          sequence_enrollment_id?: string | null
+          sequence_step_id?: string | null
           subject?: string | null
+          thread_id?: string | null
+          type?: string | null
           user_id: string
         }
         Update: {
+          body?: string | null
+          bounced_at?: string | null
+          click_count?: number
           clicked_at?: string | null
           contact_id?: string | null
           created_at?: string
           deal_id?: string | null
+          delivery_error?: string | null
+          delivery_status?: string | null
           email_id?: string
+          folder?: string | null
           id?: string
+          in_reply_to?: string | null
+          lead_id?: string | null
+          message_id?: string | null
+          open_count?: number
           opened_at?: string | null
+          read_at?: string | null
+          recipient_email?: string | null
+          reference_ids?: string[] | null
           replied_at?: string | null
+          sender_email?: string | null
           sent_at?: string | null
+          sequence_enrollment_id?: string | null
+          sequence_step_id?: string | null
           subject?: string | null
+          thread_id?: string | null
+          type?: string | null
           user_id?: string
         }
         Relationships: [
@@ -445,6 +928,27 @@ export type Database = {
             referencedRelation: "deals"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "email_tracking_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_tracking_sequence_enrollment_id_fkey"
+            columns: ["sequence_enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "sequence_enrollments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_tracking_sequence_step_id_fkey"
+            columns: ["sequence_step_id"]
+            isOneToOne: false
+            referencedRelation: "sequence_steps"
+            referencedColumns: ["id"]
+          },
         ]
       }
       files: {
@@ -452,10 +956,12 @@ export type Database = {
           contact_id: string | null
           created_at: string
           deal_id: string | null
+          email_tracking_id: string | null
           file_path: string
           file_size: number | null
           filename: string
           id: string
+          lead_id: string | null
           mime_type: string | null
           user_id: string
         }
@@ -463,10 +969,12 @@ export type Database = {
           contact_id?: string | null
           created_at?: string
           deal_id?: string | null
+          email_tracking_id?: string | null
           file_path: string
           file_size?: number | null
           filename: string
           id?: string
+          lead_id?: string | null
           mime_type?: string | null
           user_id: string
         }
@@ -474,10 +982,12 @@ export type Database = {
           contact_id?: string | null
           created_at?: string
           deal_id?: string | null
+          email_tracking_id?: string | null
           file_path?: string
           file_size?: number | null
           filename?: string
           id?: string
+          lead_id?: string | null
           mime_type?: string | null
           user_id?: string
         }
@@ -496,55 +1006,279 @@ export type Database = {
             referencedRelation: "deals"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "files_email_tracking_id_fkey"
+            columns: ["email_tracking_id"]
+            isOneToOne: false
+            referencedRelation: "email_tracking"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "files_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      integrations: {
+      forecast_snapshots: {
         Row: {
-          config: Json
-          created_at: string
+          best_case_value: number
+          closed_value: number
+          commit_value: number
+          created_at: string | null
+          deal_count: number
           id: string
-          is_active: boolean | null
-          last_sync: string | null
-          type: string
-          updated_at: string
+          period_start: string
+          period_type: string
+          pipeline_value: number
+          snapshot_date: string
           user_id: string
+          weighted_value: number
         }
         Insert: {
-          config: Json
-          created_at?: string
+          best_case_value?: number
+          closed_value?: number
+          commit_value?: number
+          created_at?: string | null
+          deal_count?: number
           id?: string
-          is_active?: boolean | null
-          last_sync?: string | null
-          type: string
-          updated_at?: string
+          period_start: string
+          period_type: string
+          pipeline_value?: number
+          snapshot_date: string
           user_id: string
+          weighted_value?: number
         }
         Update: {
-          config?: Json
-          created_at?: string
+          best_case_value?: number
+          closed_value?: number
+          commit_value?: number
+          created_at?: string | null
+          deal_count?: number
           id?: string
-          is_active?: boolean | null
-          last_sync?: string | null
-          type?: string
-          updated_at?: string
+          period_start?: string
+          period_type?: string
+          pipeline_value?: number
+          snapshot_date?: string
           user_id?: string
+          weighted_value?: number
         }
         Relationships: []
       }
-      leads: {
+      imap_settings: {
         Row: {
-          assigned_to: string | null
-          company: string | null
-          company_id: string | null
-          converted_contact_id: string | null
-          created_at: string
-          email: string | null
+          created_at: string | null
+          host: string
           id: string
-          name: string
-          phone: string | null
-          score: number | null
-          source: string | null
-          status: string | null
+          last_error: string | null
+          last_synced_at: string | null
+          last_uid: number | null
+          mailbox: string
+          password: string | null
+          port: number
+          secure: boolean
+          uid_validity: number | null
+          updated_at: string | null
+          user_id: string
+          username: string
+        }
+        Insert: {
+          created_at?: string | null
+          host: string
+          id?: string
+          last_error?: string | null
+          last_synced_at?: string | null
+          last_uid?: number | null
+          mailbox?: string
+          password?: string | null
+          port?: number
+          secure?: boolean
+          uid_validity?: number | null
+          updated_at?: string | null
+          user_id: string
+          username: string
+        }
+        Update: {
+          created_at?: string | null
+          host?: string
+          id?: string
+          last_error?: string | null
+          last_synced_at?: string | null
+          last_uid?: number | null
+          mailbox?: string
+          password?: string | null
+          port?: number
+          secure?: boolean
+          uid_validity?: number | null
+          updated_at?: string | null
+          user_id?: string
+          username?: string
+        }
+        Relationships: []
+      }
+      import_batches: {
+        Row: {
+          column_mapping: Json
+          created_at: string | null
+          entity_type: string
+          error_count: number
+          errors: Json
+          file_name: string | null
+          id: string
+          inserted_count: number
+          rolled_back_at: string | null
+          skipped_count: number
+          status: string
+          total_rows: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          column_mapping?: Json
+          created_at?: string | null
+          entity_type: string
+          error_count?: number
+          errors?: Json
+          file_name?: string | null
+          id?: string
+          inserted_count?: number
+          rolled_back_at?: string | null
+          skipped_count?: number
+          status?: string
+          total_rows?: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          column_mapping?: Json
+          created_at?: string | null
+          entity_type?: string
+          error_count?: number
+          errors?: Json
+          file_name?: string | null
+          id?: string
+          inserted_count?: number
+          rolled_back_at?: string | null
+          skipped_count?: number
+          status?: string
+          total_rows?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      integrations: {
+        Row: {
+          config: Json
+          created_at: string
+          id: string
+          is_active: boolean | null
+          last_sync: string | null
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          config: Json
+          created_at?: string
+          id?: string
+          is_active?: boolean | null
+          last_sync?: string | null
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          id?: string
+          is_active?: boolean | null
+          last_sync?: string | null
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      lead_assignments: {
+        Row: {
+          assigned_by: string
+          assigned_to: string
+          created_at: string | null
+          id: string
+          lead_id: string
+          previous_assignee: string | null
+          rule_id: string | null
+          strategy: string
+          team_id: string | null
+        }
+        Insert: {
+          assigned_by: string
+          assigned_to: string
+          created_at?: string | null
+          id?: string
+          lead_id: string
+          previous_assignee?: string | null
+          rule_id?: string | null
+          strategy: string
+          team_id?: string | null
+        }
+        Update: {
+          assigned_by?: string
+          assigned_to?: string
+          created_at?: string | null
+          id?: string
+          lead_id?: string
+          previous_assignee?: string | null
+          rule_id?: string | null
+          strategy?: string
+          team_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_assignments_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_assignments_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "assignment_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_assignments_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leads: {
+        Row: {
+          assigned_to: string | null
+          company: string | null
+          company_id: string | null
+          converted_at: string | null
+          converted_company_id: string | null
+          converted_contact_id: string | null
+          converted_deal_id: string | null
+          created_at: string
+          email: string | null
+          id: string
+          import_batch_id: string | null
+          name: string
+          owner_id: string | null
+          phone: string | null
+          score: number | null
+          source: string | null
+          status: string | null
           updated_at: string
           user_id: string
         }
@@ -552,11 +1286,16 @@ export type Database = {
           assigned_to?: string | null
           company?: string | null
           company_id?: string | null
+          converted_at?: string | null
+          converted_company_id?: string | null
           converted_contact_id?: string | null
+          converted_deal_id?: string | null
           created_at?: string
           email?: string | null
           id?: string
+          import_batch_id?: string | null
           name: string
+          owner_id?: string | null
           phone?: string | null
           score?: number | null
           source?: string | null
@@ -568,11 +1307,16 @@ export type Database = {
           assigned_to?: string | null
           company?: string | null
           company_id?: string | null
+          converted_at?: string | null
+          converted_company_id?: string | null
           converted_contact_id?: string | null
+          converted_deal_id?: string | null
           created_at?: string
           email?: string | null
           id?: string
+          import_batch_id?: string | null
           name?: string
+          owner_id?: string | null
           phone?: string | null
           score?: number | null
           source?: string | null
@@ -595,8 +1339,130 @@ export type Database = {
             referencedRelation: "contacts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "leads_converted_company_id_fkey"
+            columns: ["converted_company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leads_converted_deal_id_fkey"
+            columns: ["converted_deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      notification_preferences: {
+        Row: {
+          assignments: boolean
+          created_at: string | null
+          deal_outcomes: boolean
+          mentions: boolean
+          tasks_due: boolean
+          toasts: boolean
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          assignments?: boolean
+          created_at?: string | null
+          deal_outcomes?: boolean
+          mentions?: boolean
+          tasks_due?: boolean
+          toasts?: boolean
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          assignments?: boolean
+          created_at?: string | null
+          deal_outcomes?: boolean
+          mentions?: boolean
+          tasks_due?: boolean
+          toasts?: boolean
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          dedupe_key: string | null
+          entity_type: string | null
+          id: string
+          message: string | null
+          read_at: string | null
+          record_id: string | null
+          source: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          dedupe_key?: string | null
+          entity_type?: string | null
+          id?: string
+          message?: string | null
+          read_at?: string | null
+          record_id?: string | null
+          source?: string | null
+          title: string
+          type?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          dedupe_key?: string | null
+          entity_type?: string | null
+          id?: string
+          message?: string | null
+          read_at?: string | null
+          record_id?: string | null
+          source?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      pipelines: {
+        Row: {
+          created_at: string | null
+          id: string
+          is_default: boolean
+          name: string
+          stages: Json
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          stages?: Json
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          is_default?: boolean
+          name?: string
+          stages?: Json
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           company: string | null
@@ -630,6 +1496,68 @@ export type Database = {
         }
         Relationships: []
       }
+      quotas: {
+        Row: {
+          amount: number
+          created_at: string | null
+          id: string
+          period_start: string
+          period_type: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          amount?: number
+          created_at?: string | null
+          id?: string
+          period_start: string
+          period_type: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          id?: string
+          period_start?: string
+          period_type?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      segment_members: {
+        Row: {
+          added_at: string | null
+          id: string
+          record_id: string
+          segment_id: string
+          user_id: string
+        }
+        Insert: {
+          added_at?: string | null
+          id?: string
+          record_id: string
+          segment_id: string
+          user_id: string
+        }
+        Update: {
+          added_at?: string | null
+          id?: string
+          record_id?: string
+          segment_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "segment_members_segment_id_fkey"
+            columns: ["segment_id"]
+            isOneToOne: false
+            referencedRelation: "segments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       segments: {
         Row: {
           created_at: string
@@ -638,6 +1566,7 @@ export type Database = {
           id: string
           is_dynamic: boolean | null
           name: string
+          snapshot_at: string | null
           updated_at: string
           user_id: string
         }
@@ -648,6 +1577,7 @@ export type Database = {
           id?: string
           is_dynamic?: boolean | null
           name: string
+          snapshot_at?: string | null
           updated_at?: string
           user_id: string
         }
@@ -658,33 +1588,450 @@ export type Database = {
           id?: string
           is_dynamic?: boolean | null
           name?: string
+          snapshot_at?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      sequence_enrollments: {
+        Row: {
+          completed_at: string | null
+          contact_id: string | null
+          current_step: number
+          enrolled_at: string | null
+          id: string
+          last_step_at: string | null
+          lead_id: string | null
+          next_run_at: string | null
+          paused_reason: string | null
+          sequence_id: string
+          status: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          contact_id?: string | null
+          current_step?: number
+          enrolled_at?: string | null
+          id?: string
+          last_step_at?: string | null
+          lead_id?: string | null
+          next_run_at?: string | null
+          paused_reason?: string | null
+          sequence_id: string
+          status?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          contact_id?: string | null
+          current_step?: number
+          enrolled_at?: string | null
+          id?: string
+          last_step_at?: string | null
+          lead_id?: string | null
+          next_run_at?: string | null
+          paused_reason?: string | null
+          sequence_id?: string
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sequence_enrollments_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sequence_enrollments_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sequence_enrollments_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "sequences"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sequence_steps: {
+        Row: {
+          body: string | null
+          created_at: string | null
+          delay_days: number
+          id: string
+          position: number
+          sequence_id: string
+          step_type: string
+          subject: string | null
+          template_id: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string | null
+          delay_days?: number
+          id?: string
+          position: number
+          sequence_id: string
+          step_type: string
+          subject?: string | null
+          template_id?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string | null
+          delay_days?: number
+          id?: string
+          position?: number
+          sequence_id?: string
+          step_type?: string
+          subject?: string | null
+          template_id?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sequence_steps_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "sequences"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sequence_steps_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sequences: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      smtp_settings: {
+        Row: {
+          created_at: string | null
+          from_email: string
+          from_name: string | null
+          host: string
+          id: string
+          password: string | null
+          port: number
+          secure: boolean
+          track_clicks: boolean
+          track_opens: boolean
+          updated_at: string | null
+          user_id: string
+          username: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          from_email: string
+          from_name?: string | null
+          host: string
+          id?: string
+          password?: string | null
+          port?: number
+          secure?: boolean
+          track_clicks?: boolean
+          track_opens?: boolean
+          updated_at?: string | null
+          user_id: string
+          username?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          from_email?: string
+          from_name?: string | null
+          host?: string
+          id?: string
+          password?: string | null
+          port?: number
+          secure?: boolean
+          track_clicks?: boolean
+          track_opens?: boolean
+          updated_at?: string | null
+          user_id?: string
+          username?: string | null
+        }
+        Relationships: []
+      }
+      team_invites: {
+        Row: {
+          accepted_at: string | null
+          created_at: string | null
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string
+          role: string
+          team_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string | null
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by: string
+          role?: string
+          team_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string | null
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          role?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_invites_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       team_members: {
         Row: {
           id: string
           joined_at: string
-          role: string | null
+          role: string
           team_id: string
           user_id: string
         }
         Insert: {
           id?: string
           joined_at?: string
-          role?: string | null
+          role?: string
           team_id: string
           user_id: string
         }
         Update: {
           id?: string
           joined_at?: string
-          role?: string | null
+          role?: string
           team_id?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string | null
+          created_by: string
+          id: string
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by: string
+          id?: string
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string
+          id?: string
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      workflow_events: {
+        Row: {
+          created_at: string | null
+          entity_type: string
+          event_type: string
+          id: string
+          payload: Json
+          processed_at: string | null
+          record_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          entity_type: string
+          event_type: string
+          id?: string
+          payload?: Json
+          processed_at?: string | null
+          record_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          entity_type?: string
+          event_type?: string
+          id?: string
+          payload?: Json
+          processed_at?: string | null
+          record_id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      workflow_runs: {
+        Row: {
+          created_at: string | null
+          dry_run: boolean
+          entity_type: string
+          error: string | null
+          event_id: string | null
+          id: string
+          record_id: string
+          status: string
+          steps: Json
+          user_id: string
+          workflow_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          dry_run?: boolean
+          entity_type: string
+          error?: string | null
+          event_id?: string | null
+          id?: string
+          record_id: string
+          status: string
+          steps?: Json
+          user_id: string
+          workflow_id: string
+        }
+        Update: {
+          created_at?: string | null
+          dry_run?: boolean
+          entity_type?: string
+          error?: string | null
+          event_id?: string | null
+          id?: string
+          record_id?: string
+          status?: string
+          steps?: Json
+          user_id?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_runs_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_runs_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflows: {
+        Row: {
+          actions: Json
+          conditions: Json
+          created_at: string | null
+          description: string | null
+          dry_run: boolean
+          entity_type: string
+          id: string
+          is_active: boolean
+          name: string
+          trigger_config: Json
+          trigger_type: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          actions?: Json
+          conditions?: Json
+          created_at?: string | null
+          description?: string | null
+          dry_run?: boolean
+          entity_type: string
+          id?: string
+          is_active?: boolean
+          name: string
+          trigger_config?: Json
+          trigger_type: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          actions?: Json
+          conditions?: Json
+          created_at?: string | null
+          description?: string | null
+          dry_run?: boolean
+          entity_type?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          trigger_config?: Json
+          trigger_type?: string
+          updated_at?: string | null
+          user_id?: string
+        }
         Relationships: []
       }
     }
@@ -692,7 +2039,83 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_team_invite: {
+        Args: {
+          p_invite_id: string
+        }
+        Returns: string
+      }
+      assign_lead: {
+        Args: {
+          p_lead_id: string
+          p_rule_id: string
+        }
+        Returns: string | null
+      }
+      convert_lead: {
+        Args: {
+          p_lead_id: string
+          p_company_id?: string | null
+          p_create_company?: boolean
+          p_contact?: Json
+          p_deal?: Json | null
+        }
+        Returns: Json
+      }
+      finish_agent_run: {
+        Args: {
+          p_run_id: string
+          p_ok: boolean
+          p_result: Json | null
+          p_error: string | null
+          p_duration_ms: number
+        }
+        Returns: undefined
+      }
+      get_shared_chat_session: {
+        Args: {
+          p_token: string
+        }
+        Returns: Json
+      }
+      merge_duplicate_record: {
+        Args: {
+          p_entity: string
+          p_survivor_id: string
+          p_duplicate_id: string
+          p_updates?: Json
+        }
+        Returns: Json
+      }
+      notify_due_tasks: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      search_chat_messages: {
+        Args: {
+          p_query: string
+          p_limit?: number
+        }
+        Returns: {
+          message_id: string
+          session_id: string
+          session_title: string
+          role: string
+          snippet: string
+          created_at: string
+          rank: number
+        }[]
+      }
+      start_agent_run: {
+        Args: {
+          p_source: string
+          p_tool_name: string
+          p_permission: string | null
+          p_arguments: Json
+          p_approval: string | null
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
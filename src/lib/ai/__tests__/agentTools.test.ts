@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { executeAgentTool } from '../agentTools';
+import type { CRMToolContext } from '../crmTools';
+import { createFakeProvider } from '../llmProvider';
+import { createFakeSupabase, type FakeSupabaseOptions } from './fakeSupabase';
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const DEAL_ID = '00000000-0000-4000-8000-0000000000d1';
+const CONTACT_ID = '00000000-0000-4000-8000-0000000000c1';
+
+const staleDeal = {
+  id: DEAL_ID,
+  title: 'Acme renewal',
+  value: 40000,
+  stage: 'Negotiation',
+  company: 'Acme',
+  contact_id: CONTACT_ID,
+  contact_name: 'Jane Doe',
+  last_activity: '2025-01-01T00:00:00.000Z'
+};
+
+// The analysis picks the stale deal; the draft guesses an address the tool must not use
+const llm = createFakeProvider(messages => {
+  const prompt = String(messages[messages.length - 1].content);
+  if (prompt.includes('SINGLE most critical deal')) {
+    return JSON.stringify({
+      summary: 'One stale deal',
+      total_stale_deals: 1,
+      most_critical_deal: { deal_id: DEAL_ID, title: 'Acme renewal', value: '40000', reason: 'Renewal is due', suggested_action: 'Book a call' }
+    });
+  }
+  return JSON.stringify({ to: 'jane.doe@acme-guess.com', subject: 'Following up on Acme renewal', body: 'Hi Jane' });
+});
+
+function setup(options: FakeSupabaseOptions = {}) {
+  const fake = createFakeSupabase({
+    ...options,
+    tables: {
+      deals: [staleDeal],
+      contacts: [{ id: CONTACT_ID, name: 'Jane Doe', email: 'jane@acme.com', company: 'Acme', title: 'CTO' }],
+      email_tracking: [{ id: 'email-1' }],
+      ...options.tables
+    }
+  });
+  const context: CRMToolContext = { userId: USER_ID, supabase: fake.client, llm, source: 'agent' };
+  return { ...fake, context };
+}
+
+describe('critical_deal', () => {
+  it('sends the follow-up to the contact\'s stored address', async () => {
+    const { context, queriesWith, rpcCalls } = setup();
+
+    const result = await executeAgentTool('critical_deal', {}, context, async () => true);
+
+    expect(result.ok).toBe(true);
+    const [email] = queriesWith('email_tracking', 'insert');
+    expect(email.operations[0].args[0]).toMatchObject({
+      recipient_email: 'jane@acme.com',
+      subject: 'Following up on Acme renewal',
+      deal_id: DEAL_ID,
+      contact_id: CONTACT_ID
+    });
+    const [update] = queriesWith('deals', 'update');
+    expect(update.operations[0].args[0]).toMatchObject({ next_step: 'Book a call' });
+    expect(rpcCalls[0].args).toMatchObject({ p_source: 'agent', p_tool_name: 'critical_deal', p_permission: 'send', p_approval: 'approved' });
+  });
+
+  it('sends nothing when the deal\'s contact has no email address', async () => {
+    const { context, queriesWith } = setup({ tables: { contacts: [{ id: CONTACT_ID, name: 'Jane Doe', email: null }] } });
+
+    const result = await executeAgentTool('critical_deal', {}, context, async () => true);
+
+    expect(result.ok).toBe(false);
+    expect(result.error).toContain('no contact with an email address');
+    expect(queriesWith('email_tracking', 'insert')).toHaveLength(0);
+  });
+
+  it('does nothing when the user declines', async () => {
+    const { context, queries } = setup();
+
+    const result = await executeAgentTool('critical_deal', {}, context, async () => false);
+
+    expect(result.declined).toBe(true);
+    expect(queries).toHaveLength(0);
+  });
+});
+
+describe('find_contact', () => {
+  it('looks contacts up without asking', async () => {
+    const { context } = setup();
+
+    const result = await executeAgentTool('find_contact', { email: 'jane@acme.com' }, context);
+
+    expect(result.ok).toBe(true);
+    expect(result.data).toEqual([{ id: CONTACT_ID, name: 'Jane Doe', email: 'jane@acme.com', company: 'Acme', title: 'CTO' }]);
+  });
+
+  it('checks the email format', async () => {
+    const { context, queries } = setup();
+
+    const result = await executeAgentTool('find_contact', { email: 'jane at acme' }, context);
+
+    expect(result.ok).toBe(false);
+    expect(result.error).toMatch(/^Invalid arguments: /);
+    expect(queries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+import { executeCRMTool, type CRMToolContext } from '../crmTools';
+import { createFakeProvider } from '../llmProvider';
+import { createFakeSupabase, type FakeSupabaseOptions } from './fakeSupabase';
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const CONTACT_ID = '00000000-0000-4000-8000-0000000000c1';
+
+const contact = { id: CONTACT_ID, name: 'Jane Doe', email: 'jane@example.com', company: 'Acme', status: 'Hot Lead' };
+
+function setup(options: FakeSupabaseOptions = {}) {
+  const fake = createFakeSupabase({
+    ...options,
+    tables: {
+      contacts: [contact],
+      activities: [{ id: 'activity-1', type: 'note', subject: 'Called about pricing' }],
+      ...options.tables
+    }
+  });
+  const context: CRMToolContext = { userId: USER_ID, supabase: fake.client, llm: createFakeProvider(), source: 'chat' };
+  return { ...fake, context };
+}
+
+const logNote = { type: 'note', subject: 'Called about pricing', contact_id: CONTACT_ID };
+
+describe('executeCRMTool', () => {
+  it('rejects arguments that do not match the schema without running the tool', async () => {
+    const { context, queries, rpcCalls } = setup();
+    const confirm = vi.fn(async () => true);
+
+    const result = await executeCRMTool('log_activity', { type: 'lunch', contact_id: 'not-a-uuid' }, context, confirm);
+
+    expect(result.ok).toBe(false);
+    expect(result.error).toMatch(/^Invalid arguments: /);
+    expect(result.error).toContain('subject');
+    expect(confirm).not.toHaveBeenCalled();
+    expect(queries).toHaveLength(0);
+    expect(rpcCalls.map(call => call.name)).toEqual(['start_agent_run', 'finish_agent_run']);
+    expect(rpcCalls[0].args).toMatchObject({ p_tool_name: 'log_activity', p_permission: 'write', p_approval: null });
+    expect(rpcCalls[1].args).toMatchObject({ p_run_id: 'run-1', p_ok: false });
+  });
+
+  it('rejects arguments that are not JSON', async () => {
+    const { context } = setup();
+    const result = await executeCRMTool('log_activity', '{"type": "note",', context, async () => true);
+    expect(result).toMatchObject({ ok: false, error: 'Arguments are not valid JSON' });
+  });
+
+  it('does not write when the user declines the preview', async () => {
+    const { context, queriesWith, rpcCalls } = setup();
+    const confirm = vi.fn(async () => false);
+
+    const result = await executeCRMTool('log_activity', logNote, context, confirm);
+
+    expect(confirm).toHaveBeenCalledWith({
+      toolName: 'log_activity',
+      args: logNote,
+      summary: 'Log note "Called about pricing" on contact "Jane Doe"'
+    });
+    expect(result).toMatchObject({ ok: false, declined: true });
+    expect(queriesWith('activities', 'insert')).toHaveLength(0);
+    expect(rpcCalls[0].args).toMatchObject({ p_approval: 'declined' });
+    expect(rpcCalls[1].args).toMatchObject({ p_ok: false });
+  });
+
+  it('treats a missing confirm callback as declined', async () => {
+    const { context, queriesWith } = setup();
+    const result = await executeCRMTool('log_activity', logNote, context);
+    expect(result.declined).toBe(true);
+    expect(queriesWith('activities', 'insert')).toHaveLength(0);
+  });
+
+  it('runs an approved write and records the run with its result', async () => {
+    const { context, queriesWith, rpcCalls } = setup();
+
+    const result = await executeCRMTool('log_activity', JSON.stringify(logNote), context, async () => true);
+
+    expect(result.ok).toBe(true);
+    expect(result.records).toEqual([{ type: 'contact', id: CONTACT_ID, name: 'Jane Doe' }]);
+    const [insert] = queriesWith('activities', 'insert');
+    expect(insert.operations[0].args[0]).toMatchObject({ user_id: USER_ID, type: 'note', contact_id: CONTACT_ID, status: 'completed' });
+
+    expect(rpcCalls.map(call => call.name)).toEqual(['start_agent_run', 'finish_agent_run']);
+    expect(rpcCalls[0].args).toEqual({
+      p_source: 'chat',
+      p_tool_name: 'log_activity',
+      p_permission: 'write',
+      p_arguments: logNote,
+      p_approval: 'approved'
+    });
+    expect(rpcCalls[1].args).toMatchObject({ p_run_id: 'run-1', p_ok: true, p_error: null, p_result: result.data });
+  });
+
+  it('runs read tools without asking', async () => {
+    const { context, rpcCalls } = setup();
+    const confirm = vi.fn(async () => false);
+
+    const result = await executeCRMTool('get_record', { type: 'contact', id: CONTACT_ID }, context, confirm);
+
+    expect(result.ok).toBe(true);
+    expect(confirm).not.toHaveBeenCalled();
+    expect(rpcCalls[0].args).toMatchObject({ p_permission: 'read', p_approval: 'not_required' });
+  });
+
+  it('does not run a tool when its run cannot be recorded', async () => {
+    const { context, queriesWith } = setup({
+      rpc: { start_agent_run: () => ({ data: null, error: { message: 'permission denied' } }) }
+    });
+
+    const result = await executeCRMTool('log_activity', logNote, context, async () => true);
+
+    expect(result.ok).toBe(false);
+    expect(result.error).toContain('could not be recorded in the audit log: permission denied');
+    expect(queriesWith('activities', 'insert')).toHaveLength(0);
+  });
+
+  it('reports unknown tools', async () => {
+    const { context, rpcCalls } = setup();
+    const result = await executeCRMTool('drop_tables', {}, context, async () => true);
+    expect(result).toMatchObject({ ok: false, error: 'Unknown tool "drop_tables"' });
+    expect(rpcCalls[0].args).toMatchObject({ p_tool_name: 'drop_tables', p_permission: null });
+  });
+});
@@ -0,0 +1,81 @@
+// Fake Supabase Client
+// A stand-in for the Supabase client that tools receive through their context. Every query
+// chain is recorded so tests can check what a tool read and wrote, and each table answers
+// with the rows the test gave it. RPCs are recorded too; start_agent_run opens run "run-1".
+
+import type { CRMClient } from '../crmTools';
+
+export interface FakeResult {
+  data: unknown;
+  error: { message: string } | null;
+}
+
+export interface FakeQuery {
+  table: string;
+  operations: { method: string; args: unknown[] }[];
+}
+
+export interface FakeRPCCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface FakeSupabaseOptions {
+  // The rows each table returns, or a function answering each query on it
+  tables?: Record<string, unknown[] | ((query: FakeQuery) => FakeResult)>;
+  rpc?: Record<string, (args: Record<string, unknown>) => FakeResult>;
+}
+
+const DEFAULT_RPC: Record<string, FakeResult> = {
+  start_agent_run: { data: 'run-1', error: null }
+};
+
+export function createFakeSupabase(options: FakeSupabaseOptions = {}) {
+  const queries: FakeQuery[] = [];
+  const rpcCalls: FakeRPCCall[] = [];
+
+  const answer = (query: FakeQuery): FakeResult => {
+    const table = options.tables?.[query.table];
+    const result = typeof table === 'function' ? table(query) : { data: table ?? [], error: null };
+    const single = query.operations.some(operation => operation.method === 'single' || operation.method === 'maybeSingle');
+    if (single && Array.isArray(result.data)) {
+      return { ...result, data: result.data[0] ?? null };
+    }
+    return result;
+  };
+
+  // Every builder method records itself and returns the chain; awaiting it runs the query
+  const chain = (query: FakeQuery): unknown =>
+    new Proxy({}, {
+      get(_target, property) {
+        if (property === 'then') {
+          return (resolve: (value: FakeResult) => unknown, reject: (reason: unknown) => unknown) =>
+            Promise.resolve().then(() => answer(query)).then(resolve, reject);
+        }
+        return (...args: unknown[]) => {
+          query.operations.push({ method: String(property), args });
+          return chain(query);
+        };
+      }
+    });
+
+  const client = {
+    from(table: string) {
+      const query: FakeQuery = { table, operations: [] };
+      queries.push(query);
+      return chain(query);
+    },
+    async rpc(name: string, args: Record<string, unknown> = {}) {
+      rpcCalls.push({ name, args });
+      return options.rpc?.[name]?.(args) ?? DEFAULT_RPC[name] ?? { data: null, error: null };
+    }
+  };
+
+  /**
+   * The queries that used a given builder method, e.g. every insert into a table
+   */
+  const queriesWith = (table: string, method: string) =>
+    queries.filter(query => query.table === table && query.operations.some(operation => operation.method === method));
+
+  return { client: client as unknown as CRMClient, queries, rpcCalls, queriesWith };
+}
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createFakeProvider, createLocalProvider, EMBEDDING_DIMENSIONS } from '../llmProvider';
+
+const messages = [
+  { role: 'system' as const, content: 'You are a CRM assistant.' },
+  { role: 'user' as const, content: 'Summarise the Acme renewal' }
+];
+
+describe('createFakeProvider', () => {
+  it('replies the same way to the same messages', async () => {
+    const provider = createFakeProvider();
+
+    const reply = await provider.chat(messages);
+
+    expect(reply).toBe(await provider.chat(messages));
+    expect(reply).toMatch(/^\[fake:[0-9a-f]+\] Summarise the Acme renewal$/);
+    expect(reply).not.toBe(await provider.chat([{ role: 'user', content: 'Something else' }]));
+  });
+
+  it('answers JSON mode with JSON', async () => {
+    const reply = await createFakeProvider().chat(messages, { jsonMode: true });
+    expect(JSON.parse(reply)).toMatchObject({ fake: true });
+  });
+
+  it('uses the reply function when given one', async () => {
+    const respond = vi.fn(() => 'Canned reply');
+    const provider = createFakeProvider(respond);
+
+    const completion = await provider.complete(messages, { temperature: 0 });
+
+    expect(respond).toHaveBeenCalledWith(messages, { temperature: 0 });
+    expect(completion.content).toBe('Canned reply');
+    expect(completion.usage).toMatchObject({ completionTokens: 3, estimated: true });
+  });
+
+  it('embeds text as a stable unit vector of the stored dimension', async () => {
+    const provider = createFakeProvider();
+
+    const embedding = await provider.embed('Jane Doe, CTO at Acme');
+
+    expect(embedding).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(Math.hypot(...embedding)).toBeCloseTo(1, 6);
+    expect(await provider.embed('Jane Doe, CTO at Acme')).toEqual(embedding);
+    expect(await provider.embed('John Roe, CFO at Globex')).not.toEqual(embedding);
+  });
+
+  it('transcribes a file by name', async () => {
+    const file = new File(['x'.repeat(1024 * 100)], 'call.webm');
+
+    const transcript = await createFakeProvider().transcribe(file);
+
+    expect(transcript).toMatchObject({ language: 'en', duration: 2 });
+    expect(transcript.text).toContain('call.webm');
+  });
+});
+
+describe('createLocalProvider embeddings', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const serverReturning = (dimensions: number) => {
+    const fetch = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify({ data: [{ embedding: new Array(dimensions).fill(0.1) }] })));
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  };
+
+  it('returns vectors of the stored dimension', async () => {
+    const fetch = serverReturning(EMBEDDING_DIMENSIONS);
+
+    const embedding = await createLocalProvider({ embeddingModel: 'big-embedder' }).embed('Acme', 'text-embedding-3-small');
+
+    expect(embedding).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(JSON.parse(String(fetch.mock.calls[0][1]?.body))).toMatchObject({ model: 'big-embedder', input: 'Acme' });
+  });
+
+  it('refuses vectors of another dimension', async () => {
+    serverReturning(768);
+
+    await expect(createLocalProvider({ embeddingModel: 'nomic-embed-text' }).embed('Acme')).rejects.toThrow(
+      'returned 768-dimension vectors, but embeddings are stored as 1536 dimensions'
+    );
+  });
+
+  it('refuses to embed without a configured model', async () => {
+    const fetch = serverReturning(EMBEDDING_DIMENSIONS);
+
+    await expect(createLocalProvider().embed('Acme')).rejects.toThrow('Set VITE_LOCAL_EMBEDDING_MODEL');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,85 @@
+// Agent Routes
+// Some Agent requests go straight to one of its tools rather than through the model:
+// replying to email, following up stale deals, LinkedIn searches, and writing an email or
+// creating a deal, whose details are picked out of the prompt. Anything else is a
+// conversation in which the model chooses the tools.
+
+// Fields the prompt didn't mention are empty strings
+export interface AgentEmailRequest {
+  recipientName: string;
+  recipientEmail: string;
+  subject: string;
+  emailType: string;
+  context: string;
+}
+
+export interface AgentDealRequest {
+  contactName: string;
+  dealTitle: string;
+  contactEmail: string;
+  company: string;
+  value?: number;
+  stage?: string;
+}
+
+export type AgentRoute =
+  | { kind: 'summarize_emails' }
+  | { kind: 'critical_deals' }
+  | { kind: 'linkedin' }
+  | { kind: 'email'; request: AgentEmailRequest }
+  | { kind: 'deal'; request: AgentDealRequest }
+  | { kind: 'conversation' };
+
+const firstMatch = (prompt: string, patterns: RegExp[]) => {
+  for (const pattern of patterns) {
+    const match = prompt.match(pattern);
+    if (match) return match[1].trim();
+  }
+  return '';
+};
+
+const EMAIL_ADDRESS = /email\s*:?\s*([^\s,.]+@[^\s,.]+\.[^\s,.]+)/i;
+
+function parseEmailRequest(prompt: string): AgentEmailRequest {
+  return {
+    recipientName: firstMatch(prompt, [/to\s+([^,.]+)/i, /for\s+([^,.]+)/i, /recipient\s*:?\s*([^,.]+)/i]),
+    recipientEmail: firstMatch(prompt, [EMAIL_ADDRESS]),
+    subject: firstMatch(prompt, [/subject\s*:?\s*"([^"]+)"/i, /subject\s*:?\s*([^,.]+)/i, /about\s+["']?([^'",.]+)["']?/i]),
+    emailType: firstMatch(prompt, [/type\s*:?\s*([^,.]+)/i, /(introduction|follow[- ]?up|proposal|negotiation|closing)/i]).toLowerCase(),
+    context: firstMatch(prompt, [/context\s*:?\s*"([^"]+)"/i, /context\s*:?\s*(.+)$/i, /message\s*:?\s*"([^"]+)"/i])
+  };
+}
+
+function parseDealRequest(prompt: string): AgentDealRequest {
+  const value = firstMatch(prompt, [/value\s*:?\s*\$?(\d+[,\d]*(?:\.\d+)?)/i, /worth\s*:?\s*\$?(\d+[,\d]*(?:\.\d+)?)/i]);
+  const stage = firstMatch(prompt, [/stage\s*:?\s*([^,.]+)/i]);
+  return {
+    contactName: firstMatch(prompt, [/contact\s*:?\s*([^,.]+)/i, /for\s+([^,.]+)/i, /with\s+([^,.]+)/i, /name\s*:?\s*([^,.]+)/i]),
+    dealTitle: firstMatch(prompt, [
+      /title\s*:?\s*([^,.]+)/i,
+      /deal\s+for\s+([^,.]+)/i,
+      /deal\s+called\s+['"]?([^'",.]+)['"]?/i,
+      /called\s+['"]?([^'",.]+)['"]?/i
+    ]),
+    contactEmail: firstMatch(prompt, [EMAIL_ADDRESS]),
+    company: firstMatch(prompt, [/company\s*:?\s*([^,.]+)/i, /at\s+([^,.]+)/i]),
+    value: value ? parseFloat(value.replace(/,/g, '')) : undefined,
+    stage: stage || undefined
+  };
+}
+
+/**
+ * Decide how the Agent handles a prompt, checking the direct routes in order
+ */
+export function matchAgentRoute(prompt: string): AgentRoute {
+  const text = prompt.toLowerCase();
+
+  if (text.includes('summarize') && text.includes('email')) return { kind: 'summarize_emails' };
+  if ((text.includes('critical') || text.includes('stale')) && text.includes('deal')) return { kind: 'critical_deals' };
+  if (text.includes('linkedin') || (text.includes('find') && text.includes('contact'))) return { kind: 'linkedin' };
+  if ((text.includes('create') || text.includes('send') || text.includes('write')) && text.includes('email')) {
+    return { kind: 'email', request: parseEmailRequest(prompt) };
+  }
+  if (text.includes('create') && text.includes('deal')) return { kind: 'deal', request: parseDealRequest(prompt) };
+  return { kind: 'conversation' };
+}
@@ -0,0 +1,60 @@
+// Agent Runs
+// The audit log of tool calls made by the AI assistants. Each invocation is stored with its
+// arguments, result, duration and whether the user approved it, so what an assistant did on
+// a user's behalf can be traced afterwards. Rows are written by the start_agent_run and
+// finish_agent_run database functions, which take the user from the session; a run is
+// opened before its tool does anything and closed once with the outcome.
+
+import type { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export type AgentRunSource = 'chat' | 'agent';
+
+// not_required: read-only tools, which run without asking
+export type AgentRunApproval = 'not_required' | 'approved' | 'declined';
+
+export interface AgentRunStart {
+  source: AgentRunSource;
+  toolName: string;
+  permission: string | null;
+  args: unknown;
+  // Null when the call failed before the user could be asked
+  approval: AgentRunApproval | null;
+}
+
+export interface AgentRunOutcome {
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Open a run in the log and return its ID. Throws when it can't be recorded, so the caller
+ * can refuse to run a tool that would leave no trace.
+ */
+export async function startAgentRun(client: typeof supabase, run: AgentRunStart): Promise<string> {
+  const { data, error } = await client.rpc('start_agent_run', {
+    p_source: run.source,
+    p_tool_name: run.toolName,
+    p_permission: run.permission,
+    p_arguments: (run.args ?? {}) as Json,
+    p_approval: run.approval
+  });
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Record how an open run ended. A run can only be finished once.
+ */
+export async function finishAgentRun(client: typeof supabase, runId: string, outcome: AgentRunOutcome): Promise<void> {
+  const { error } = await client.rpc('finish_agent_run', {
+    p_run_id: runId,
+    p_ok: outcome.ok,
+    p_result: outcome.result === undefined ? null : (outcome.result as Json),
+    p_error: outcome.error || null,
+    p_duration_ms: Math.round(outcome.durationMs)
+  });
+  if (error) throw error;
+}
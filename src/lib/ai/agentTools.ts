@@ -0,0 +1,1337 @@
+// Agent Tools
+// The Agent's own tools, registered alongside the shared CRM tools: replying to the most
+// urgent unread email, following up the most critical stale deal, finding a contact on
+// LinkedIn, looking up a contact, and creating deals, contacts, leads and emails. Apart from
+// the lookup, each one writes the email it generates to the user's email log, so they need
+// the user's approval before they run.
+
+import type { ChatCompletionTool } from 'openai/resources/chat/completions';
+import type { Tables } from '@/integrations/supabase/types';
+import { runLeadAssignment } from '@/lib/assignment';
+import { deliverEmail } from '@/lib/emailDelivery';
+import { fetchPipelines, findStage, getDefaultPipeline, getStageNames, getStageProbability } from '@/lib/pipelines';
+import { likeLiteral } from '@/lib/postgrest';
+import { ownedByFilter } from '@/lib/teams';
+import { loadTemplateContext, renderEmailTemplate, withNameParts } from '@/lib/templates';
+import {
+  CRM_TOOLS,
+  crmToolDefinitions,
+  executeCRMTool,
+  type ConfirmCRMTool,
+  type CRMTool,
+  type CRMToolContext,
+  type CRMToolResult
+} from './crmTools';
+import type { LLMProvider } from './llmProvider';
+import type { OpenAIMessage } from './types';
+
+export const AGENT_MODEL = 'gpt-4o';
+
+// Deals with no activity for this long count as stale
+const STALE_DEAL_DAYS = 2;
+
+const DEFAULT_CONTACT_STATUS = 'Hot Lead';
+const DEFAULT_CONTACT_SCORE = 70;
+const DEFAULT_LEAD_SCORE = 50;
+const LEAD_FOLLOW_UP_DAYS = 3;
+
+const JSON_ONLY = 'IMPORTANT: Return ONLY the JSON object without any markdown formatting, code blocks, or extra text.';
+
+interface DraftEmail {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+/**
+ * Parse a JSON reply from the model. Models sometimes wrap it in code fences or add a
+ * sentence around it, so those are stripped first. Null when it still isn't JSON.
+ */
+function parseJSONReply<T>(reply: string): T | null {
+  let cleaned = reply.replace(/```json\s*/g, '').replace(/```/g, '').trim();
+  if (!cleaned.startsWith('{') && !cleaned.startsWith('[')) {
+    const match = cleaned.match(/({[\s\S]*})/);
+    if (match) cleaned = match[1];
+  }
+  try {
+    return JSON.parse(cleaned) as T;
+  } catch {
+    return null;
+  }
+}
+
+async function askForJSON<T>(llm: LLMProvider, system: string, prompt: string): Promise<{ reply: string; parsed: T | null }> {
+  const messages: OpenAIMessage[] = [
+    { role: 'system', content: system },
+    { role: 'user', content: prompt }
+  ];
+  const reply = await llm.chat(messages, { model: AGENT_MODEL, jsonMode: true });
+  return { reply, parsed: parseJSONReply<T>(reply) };
+}
+
+/**
+ * Log a generated email as sent in the user's email tracking
+ */
+async function recordEmail(
+  context: CRMToolContext,
+  email: DraftEmail,
+  links: { contact_id?: string | null; deal_id?: string | null } = {}
+) {
+  const now = new Date().toISOString();
+  return context.supabase
+    .from('email_tracking')
+    .insert({
+      subject: email.subject,
+      body: email.body,
+      recipient_email: email.to || null,
+      user_id: context.userId,
+      contact_id: links.contact_id || null,
+      deal_id: links.deal_id || null,
+      sent_at: now,
+      created_at: now,
+      email_id: crypto.randomUUID()
+    })
+    .select('id')
+    .single();
+}
+
+/**
+ * Contacts the user owns with this exact name or, failing that, a name containing it
+ */
+async function findContactsByName(context: CRMToolContext, name: string): Promise<Tables<'contacts'>[]> {
+  const { data: exact, error } = await context.supabase
+    .from('contacts')
+    .select('*')
+    .or(ownedByFilter(context.userId))
+    .eq('name', name);
+  if (error) throw new Error(`Error finding contact: ${error.message}`);
+  if (exact && exact.length > 0) return exact;
+
+  const { data: partial, error: partialError } = await context.supabase
+    .from('contacts')
+    .select('*')
+    .or(ownedByFilter(context.userId))
+    .ilike('name', `%${likeLiteral(name)}%`);
+  if (partialError) throw new Error(`Error finding contact: ${partialError.message}`);
+  return partial || [];
+}
+
+async function findContactByName(context: CRMToolContext, name: string): Promise<Tables<'contacts'>> {
+  const contacts = await findContactsByName(context, name);
+  if (contacts.length === 0) {
+    throw new Error(`No contact found with name "${name}". Please check the name or create the contact first.`);
+  }
+  // With several matches the first one is used
+  return contacts[0];
+}
+
+const describeEmail = (email: DraftEmail) => `To: ${email.to}
+Subject: ${email.subject}
+Body:
+${email.body}`;
+
+const summarizeEmails: CRMTool<Record<string, never>> = {
+  name: 'summarizeEmails',
+  label: 'Replying to unread email',
+  description: 'Reads & summarizes recent unread emails, identifies critical ones, and generates replies',
+  parameters: { type: 'object', properties: {}, additionalProperties: false },
+  permission: 'send',
+  async preview() {
+    return 'Find the most urgent unread email, write a reply and record it as sent';
+  },
+  async run(context) {
+    const { data: unread, error } = await context.supabase
+      .from('email_tracking')
+      .select('*')
+      .eq('user_id', context.userId)
+      .is('opened_at', null)
+      .order('created_at', { ascending: false });
+    if (error) throw new Error(`Error fetching unread emails: ${error.message}`);
+    if (!unread || unread.length === 0) return { data: 'No unread emails found' };
+
+    const emailsText = unread.map(email =>
+      `Subject: ${email.subject || 'No subject'}
+       Date: ${email.created_at}
+       Status: Unread
+       Email ID: ${email.email_id}
+       Contact ID: ${email.contact_id || 'N/A'}
+       Deal ID: ${email.deal_id || 'N/A'}
+       -------------------`
+    ).join('\n\n');
+
+    const analysis = await askForJSON<{
+      summary: string;
+      total_unread: number;
+      most_critical_email?: { email_id: string; subject: string; reason: string };
+    }>(
+      context.llm,
+      'You are an email assistant. Analyze the unread emails and identify the most important/critical one that needs an immediate response. A critical email might be time-sensitive, from an important client, related to a critical issue, or requires immediate attention. Your response must be valid JSON without code blocks or formatting.',
+      `Here are my unread emails. Please analyze them and identify the SINGLE most critical email that needs an immediate response:\n\n${emailsText}
+
+Please format your response as a JSON object with the following structure:
+{
+  "summary": "A brief summary of all unread emails",
+  "total_unread": number of unread emails,
+  "most_critical_email": {
+    "email_id": "the email ID of the most critical email",
+    "subject": "the email subject",
+    "reason": "why this email is critical and needs immediate response"
+  }
+}
+
+${JSON_ONLY}`
+    );
+    if (!analysis.parsed) throw new Error(`Could not parse the analysis result. ${analysis.reply}`);
+    const critical = analysis.parsed.most_critical_email;
+    if (!critical?.email_id) {
+      return { data: `No critical emails identified.\n\n${JSON.stringify(analysis.parsed, null, 2)}` };
+    }
+
+    const criticalEmail = unread.find(email => email.email_id === critical.email_id);
+    if (!criticalEmail) throw new Error(`Could not find the critical email with ID ${critical.email_id}`);
+
+    const draft = await askForJSON<DraftEmail>(
+      context.llm,
+      'You are an email assistant that helps generate professional and concise email replies. Generate an appropriate reply to the critical email. Your response must be valid JSON without code blocks or formatting.',
+      `Please generate a professional reply to this critical email:
+
+Subject: ${criticalEmail.subject || 'No subject'}
+From: ${criticalEmail.sender_email || criticalEmail.recipient_email || 'Unknown'}
+Email ID: ${criticalEmail.email_id}
+Reason for importance: ${critical.reason}
+
+Please provide the reply in JSON format with the following structure:
+{
+  "to": "recipient email address (use the sender's address)",
+  "subject": "Re: original subject",
+  "body": "The generated email body that addresses the critical nature of this email"
+}
+
+${JSON_ONLY}`
+    );
+    if (!draft.parsed) throw new Error(`Could not parse the generated reply. ${draft.reply}`);
+    const reply = draft.parsed;
+
+    const { error: insertError } = await recordEmail(context, reply, {
+      contact_id: criticalEmail.contact_id,
+      deal_id: criticalEmail.deal_id
+    });
+    if (insertError) throw new Error(`Error sending email reply: ${insertError.message}`);
+
+    const now = new Date().toISOString();
+    const { error: updateError } = await context.supabase
+      .from('email_tracking')
+      .update({ replied_at: now, opened_at: now })
+      .eq('email_id', critical.email_id);
+    if (updateError) {
+      return { data: `Warning: Email reply sent but could not mark original as replied: ${updateError.message}` };
+    }
+
+    return {
+      data: `
+Email Analysis Summary:
+${analysis.parsed.summary}
+
+Most Critical Email Identified:
+Subject: ${critical.subject}
+Email ID: ${critical.email_id}
+Reason: ${critical.reason}
+
+Reply Generated and Sent:
+${describeEmail(reply)}
+
+Status: Email reply stored in database and original email marked as replied.
+`
+    };
+  }
+};
+
+const criticalDeal: CRMTool<Record<string, never>> = {
+  name: 'critical_deal',
+  label: 'Following up a stale deal',
+  description: `Identifies deals with no activity in the last ${STALE_DEAL_DAYS} days, finds the most critical one, and generates a follow-up email`,
+  parameters: { type: 'object', properties: {}, additionalProperties: false },
+  permission: 'send',
+  async preview() {
+    return `Find the most critical deal with no activity in ${STALE_DEAL_DAYS} days, record a follow-up email to its contact and set its next step`;
+  },
+  async run(context) {
+    const staleSince = new Date();
+    staleSince.setDate(staleSince.getDate() - STALE_DEAL_DAYS);
+
+    // Highest value first, so the model sees the deals that matter most at the top
+    const { data: staleDeals, error } = await context.supabase
+      .from('deals')
+      .select('*')
+      .or(ownedByFilter(context.userId))
+      .lt('last_activity', staleSince.toISOString())
+      .order('value', { ascending: false });
+    if (error) throw new Error(`Error fetching stale deals: ${error.message}`);
+    if (!staleDeals || staleDeals.length === 0) {
+      return { data: `No deals with inactive status found in the last ${STALE_DEAL_DAYS} days.` };
+    }
+
+    const dealsText = staleDeals.map(deal =>
+      `Deal ID: ${deal.id}
+       Title: ${deal.title || 'No title'}
+       Value: $${deal.value || 0}
+       Stage: ${deal.stage || 'Unknown'}
+       Company: ${deal.company || 'Unknown'}
+       Contact: ${deal.contact_name || 'Unknown'}
+       Last Activity: ${deal.last_activity || 'Never'}
+       Next Step: ${deal.next_step || 'None'}
+       Probability: ${deal.probability || 0}%
+       -------------------`
+    ).join('\n\n');
+
+    const analysis = await askForJSON<{
+      summary: string;
+      total_stale_deals: number;
+      most_critical_deal?: { deal_id: string; title: string; value: string; reason: string; suggested_action: string };
+    }>(
+      context.llm,
+      'You are a sales assistant. Analyze the deals with no recent activity and identify the single most critical one that needs immediate follow-up. A critical deal might be high-value, in an advanced stage, or close to closing. Your response must be valid JSON without code blocks or formatting.',
+      `Here are deals with no activity in the last ${STALE_DEAL_DAYS} days. Please analyze them and identify the SINGLE most critical deal that needs immediate follow-up:\n\n${dealsText}
+
+Please format your response as a JSON object with the following structure:
+{
+  "summary": "A brief summary of all stale deals",
+  "total_stale_deals": number of stale deals,
+  "most_critical_deal": {
+    "deal_id": "the deal ID of the most critical deal",
+    "title": "the deal title",
+    "value": "the deal value",
+    "reason": "why this deal is critical and needs immediate follow-up",
+    "suggested_action": "what action should be taken for this deal"
+  }
+}
+
+${JSON_ONLY}`
+    );
+    if (!analysis.parsed) throw new Error(`Could not parse the analysis result. ${analysis.reply}`);
+    const critical = analysis.parsed.most_critical_deal;
+    if (!critical?.deal_id) {
+      return { data: `No critical deals identified.\n\n${JSON.stringify(analysis.parsed, null, 2)}` };
+    }
+
+    const deal = staleDeals.find(staleDeal => staleDeal.id === critical.deal_id);
+    if (!deal) throw new Error(`Could not find the critical deal with ID ${critical.deal_id}`);
+
+    // The follow-up goes to the contact's stored address, never one the model made up
+    const { data: contact, error: contactError } = deal.contact_id
+      ? await context.supabase.from('contacts').select('name, email').eq('id', deal.contact_id).maybeSingle()
+      : { data: null, error: null };
+    if (contactError) throw new Error(`Error finding the deal's contact: ${contactError.message}`);
+    if (!contact?.email) {
+      throw new Error(`"${deal.title}" has no contact with an email address, so no follow-up was sent`);
+    }
+
+    const draft = await askForJSON<DraftEmail>(
+      context.llm,
+      'You are a sales assistant that helps generate professional and effective follow-up emails for stale deals. Generate an appropriate follow-up email for the critical deal. Your response must be valid JSON without code blocks or formatting.',
+      `Please generate a professional follow-up email for this critical deal that has had no activity in the last ${STALE_DEAL_DAYS} days:
+
+Deal ID: ${deal.id}
+Title: ${deal.title || 'No title'}
+Value: $${deal.value || 0}
+Stage: ${deal.stage || 'Unknown'}
+Company: ${deal.company || 'Unknown'}
+Contact Name: ${contact.name || deal.contact_name || 'Unknown'}
+Contact Email: ${contact.email}
+Last Activity: ${deal.last_activity || 'Never'}
+Next Step: ${deal.next_step || 'None'}
+Probability: ${deal.probability || 0}%
+Reason for follow-up: ${critical.reason}
+Suggested action: ${critical.suggested_action}
+
+Please provide the follow-up email in JSON format with the following structure:
+{
+  "to": "the contact's email address given above",
+  "subject": "Follow-up on [Deal Title]",
+  "body": "The generated email body that effectively follows up on this deal based on its status and details"
+}
+
+${JSON_ONLY}`
+    );
+    if (!draft.parsed) throw new Error(`Could not parse the generated email. ${draft.reply}`);
+    const email = { ...draft.parsed, to: contact.email };
+
+    const { error: insertError } = await recordEmail(context, email, { contact_id: deal.contact_id, deal_id: deal.id });
+    if (insertError) throw new Error(`Error sending follow-up email: ${insertError.message}`);
+
+    const { error: updateError } = await context.supabase
+      .from('deals')
+      .update({ last_activity: new Date().toISOString(), next_step: critical.suggested_action })
+      .eq('id', deal.id);
+    if (updateError) {
+      return { data: `Warning: Follow-up email sent but could not update deal: ${updateError.message}` };
+    }
+
+    return {
+      data: `
+Deal Analysis Summary:
+${analysis.parsed.summary}
+
+Most Critical Deal Identified:
+Title: ${critical.title}
+Deal ID: ${critical.deal_id}
+Value: ${critical.value}
+Reason: ${critical.reason}
+Suggested Action: ${critical.suggested_action}
+
+Follow-Up Email Generated and Sent:
+${describeEmail(email)}
+
+Status: Follow-up email stored in database and deal updated with new activity timestamp and next step.
+`,
+      records: [{ type: 'deal', id: deal.id, name: deal.title }]
+    };
+  }
+};
+
+interface LinkedInContactArgs {
+  query: string;
+}
+
+interface LinkedInProfile {
+  name: string;
+  title: string;
+  company: string;
+  location?: string;
+  industry?: string;
+  email: string;
+  phone?: string;
+  skills?: string[];
+}
+
+// The results are generated by the model; there is no LinkedIn API behind this
+const linkedInContact: CRMTool<LinkedInContactArgs> = {
+  name: 'getcontactfromlinkedin',
+  label: 'Searching LinkedIn',
+  description: 'Searches for a contact on LinkedIn based on user query, adds them to contacts, creates a deal, and sends an email',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', minLength: 1, description: 'Search query for finding the contact on LinkedIn (name, job title, company, etc.)' }
+    },
+    required: ['query'],
+    additionalProperties: false
+  },
+  permission: 'send',
+  async preview(_context, args) {
+    return `Add the best LinkedIn match for "${args.query}" as a contact, create a deal for them and record an introduction email`;
+  },
+  async run(context, args) {
+    const search = await askForJSON<{ results?: LinkedInProfile[] }>(
+      context.llm,
+      'You are a LinkedIn search assistant. Generate a realistic LinkedIn search result for the given query. Make the result realistic and detailed with current positions and companies. Your response must be valid JSON without code blocks or formatting.',
+      `Generate a realistic LinkedIn search result for this query: "${args.query}"
+
+Please provide 3 potential contacts in JSON format with the following structure:
+{
+  "results": [
+    {
+      "name": "Full Name",
+      "title": "Current Job Title",
+      "company": "Current Company",
+      "location": "City, Country",
+      "industry": "Industry",
+      "email": "professional email address",
+      "phone": "phone number (optional)",
+      "linkedin_url": "linkedin profile URL",
+      "experience_years": number of years of experience,
+      "skills": ["skill1", "skill2", "skill3"],
+      "education": "Highest education"
+    }
+  ]
+}
+
+Make sure the data is realistic for the query. Include realistic email addresses following common patterns.
+${JSON_ONLY}`
+    );
+    if (!search.parsed) throw new Error(`Could not parse LinkedIn search results. ${search.reply}`);
+    if (!search.parsed.results?.length) return { data: 'No contacts found matching your search criteria.' };
+
+    const profile = search.parsed.results[0];
+    const now = new Date().toISOString();
+
+    const { data: contact, error: contactError } = await context.supabase
+      .from('contacts')
+      .insert({
+        name: profile.name,
+        email: profile.email,
+        phone: profile.phone || null,
+        company: profile.company,
+        title: profile.title,
+        created_at: now,
+        updated_at: now,
+        user_id: context.userId,
+        status: DEFAULT_CONTACT_STATUS,
+        score: DEFAULT_CONTACT_SCORE
+      })
+      .select()
+      .single();
+    if (contactError) throw new Error(`Error adding contact to database: ${contactError.message}`);
+
+    const dealTitle = `${profile.company} - ${args.query} Opportunity`;
+    const dealValue = Math.floor(Math.random() * 50000) + 10000;
+
+    const { data: deal, error: dealError } = await context.supabase
+      .from('deals')
+      .insert({
+        title: dealTitle,
+        value: dealValue,
+        stage: 'Proposal',
+        company: profile.company,
+        contact_id: contact.id,
+        contact_name: profile.name,
+        created_at: now,
+        updated_at: now,
+        last_activity: now,
+        user_id: context.userId,
+        probability: 20
+      })
+      .select()
+      .single();
+    if (dealError) throw new Error(`Error creating deal: ${dealError.message}. Contact was still added to database.`);
+
+    const draft = await askForJSON<DraftEmail>(
+      context.llm,
+      'You are a sales assistant that helps generate professional and personalized introduction emails. Generate an appropriate email based on the contact\'s profile and the business opportunity.',
+      `Please generate a professional introduction email for this new contact:
+
+Contact:
+Name: ${profile.name}
+Title: ${profile.title}
+Company: ${profile.company}
+Industry: ${profile.industry || 'Unknown'}
+Skills: ${(profile.skills || []).join(', ')}
+
+Deal:
+Title: ${dealTitle}
+Value: $${dealValue}
+Stage: Proposal
+
+Original search query: "${args.query}"
+
+Please provide the email in JSON format with the following structure:
+{
+  "to": "${profile.email}",
+  "subject": "A personalized and engaging subject line",
+  "body": "The generated email body that introduces yourself, mentions relevant aspects of their profile and experience, and suggests a potential opportunity to collaborate"
+}
+
+Make the email personalized, professional, and engaging. Avoid generic templates.
+${JSON_ONLY}`
+    );
+    if (!draft.parsed) throw new Error(`Could not parse introduction email. ${draft.reply}`);
+    const email = draft.parsed;
+
+    const records = [
+      { type: 'contact' as const, id: contact.id, name: contact.name },
+      { type: 'deal' as const, id: deal.id, name: deal.title }
+    ];
+
+    const { error: emailError } = await recordEmail(context, email, { contact_id: contact.id, deal_id: deal.id });
+    if (emailError) {
+      return { data: `Error sending email: ${emailError.message}. Contact and deal were still created.`, records };
+    }
+
+    return {
+      data: `
+LinkedIn Contact Found and Added:
+Name: ${profile.name}
+Title: ${profile.title}
+Company: ${profile.company}
+Email: ${profile.email}
+Phone: ${profile.phone || 'Not available'}
+
+Deal Created:
+Title: ${dealTitle}
+Value: $${dealValue}
+Stage: Proposal
+Probability: 20%
+
+Introduction Email Sent:
+${describeEmail(email)}
+
+Status: Contact added to database, deal created, and introduction email recorded.
+`,
+      records
+    };
+  }
+};
+
+interface FindContactArgs {
+  name?: string;
+  email?: string;
+}
+
+export interface FoundContact {
+  id: string;
+  name: string;
+  email: string | null;
+  company: string | null;
+  title: string | null;
+}
+
+const findContact: CRMTool<FindContactArgs> = {
+  name: 'find_contact',
+  label: 'Looking up the contact',
+  description: 'Finds existing contacts by exact email, or by name (exact matches first, then names containing it)',
+  parameters: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1, description: 'Name of the contact' },
+      email: { type: 'string', format: 'email', description: 'Email address of the contact' }
+    },
+    additionalProperties: false
+  },
+  permission: 'read',
+  async run(context, args) {
+    let contacts: Tables<'contacts'>[];
+    if (args.email) {
+      const { data, error } = await context.supabase
+        .from('contacts')
+        .select('*')
+        .or(ownedByFilter(context.userId))
+        .eq('email', args.email);
+      if (error) throw new Error(`Error finding contact: ${error.message}`);
+      contacts = data || [];
+    } else if (args.name) {
+      contacts = await findContactsByName(context, args.name);
+    } else {
+      throw new Error('Give a name or an email to look up');
+    }
+
+    const found: FoundContact[] = contacts.map(contact => ({
+      id: contact.id,
+      name: contact.name,
+      email: contact.email,
+      company: contact.company,
+      title: contact.title
+    }));
+    return { data: found, records: found.map(contact => ({ type: 'contact' as const, id: contact.id, name: contact.name })) };
+  }
+};
+
+interface CreateDealArgs {
+  contact_name: string;
+  deal_title: string;
+  deal_value?: number;
+  deal_stage?: string;
+}
+
+const createDeal: CRMTool<CreateDealArgs> = {
+  name: 'create_deal',
+  label: 'Creating the deal',
+  description: 'Creates a new deal for an existing contact and generates a follow-up email',
+  parameters: {
+    type: 'object',
+    properties: {
+      contact_name: { type: 'string', minLength: 1, description: 'Name of the existing contact to create a deal for' },
+      deal_title: { type: 'string', minLength: 1, description: 'Title of the deal to be created' },
+      deal_value: { type: 'number', minimum: 0, description: 'Value of the deal in dollars (optional)' },
+      deal_stage: {
+        type: 'string',
+        description: 'Stage of the deal as named in the user\'s default pipeline (e.g., Discovery, Proposal, Negotiation, Closing). Defaults to the pipeline\'s first stage (optional)'
+      }
+    },
+    required: ['contact_name', 'deal_title'],
+    additionalProperties: false
+  },
+  permission: 'send',
+  async preview(context, args) {
+    const contact = await findContactByName(context, args.contact_name);
+    return `Create deal "${args.deal_title}"${args.deal_value ? ` worth $${args.deal_value}` : ''} for ${contact.name}${contact.company ? ` (${contact.company})` : ''} and record a follow-up email to them`;
+  },
+  async run(context, args) {
+    const contact = await findContactByName(context, args.contact_name);
+    const now = new Date().toISOString();
+    // Without a value the deal gets a placeholder between $10k and $60k
+    const value = args.deal_value || Math.floor(Math.random() * 50000) + 10000;
+    // Unknown stages fall back to the default pipeline's first stage
+    const pipeline = getDefaultPipeline(await fetchPipelines(context.userId, context.supabase));
+    const stage = findStage(pipeline, args.deal_stage)?.name || getStageNames(pipeline)[0];
+
+    const { data: deal, error: dealError } = await context.supabase
+      .from('deals')
+      .insert({
+        title: args.deal_title,
+        value,
+        stage,
+        company: contact.company,
+        contact_id: contact.id,
+        contact_name: contact.name,
+        created_at: now,
+        updated_at: now,
+        last_activity: now,
+        user_id: context.userId,
+        pipeline_id: pipeline?.id || null,
+        probability: getStageProbability(pipeline, stage)
+      })
+      .select()
+      .single();
+    if (dealError) throw new Error(`Error creating deal: ${dealError.message}`);
+
+    const records = [{ type: 'deal' as const, id: deal.id, name: deal.title }];
+
+    const draft = await askForJSON<DraftEmail>(
+      context.llm,
+      'You are a sales assistant that helps generate professional and personalized deal-related emails. Generate an appropriate email based on the contact\'s profile and the deal details.',
+      `Please generate a professional email for this new deal:
+
+Contact:
+Name: ${contact.name}
+Title: ${contact.title || 'Unknown'}
+Company: ${contact.company || 'Unknown'}
+Email: ${contact.email || 'Unknown'}
+
+Deal:
+Title: ${args.deal_title}
+Value: $${value}
+Stage: ${stage}
+
+Please provide the email in JSON format with the following structure:
+{
+  "to": "${contact.email || 'recipient@example.com'}",
+  "subject": "A personalized subject line related to the deal",
+  "body": "The generated email body that discusses the deal in a professional manner appropriate for the current stage"
+}
+
+Make the email personalized, professional, and relevant to the deal stage.
+${JSON_ONLY}`
+    );
+    if (!draft.parsed) {
+      return { data: `Deal created successfully, but could not generate email. Deal ID: ${deal.id}`, records };
+    }
+    const email = draft.parsed;
+
+    const { error: emailError } = await recordEmail(context, email, { contact_id: contact.id, deal_id: deal.id });
+    if (emailError) {
+      return { data: `Deal created successfully, but could not save email. Deal ID: ${deal.id}. Error: ${emailError.message}`, records };
+    }
+
+    return {
+      data: `
+Deal Created Successfully:
+Title: ${args.deal_title}
+Contact: ${contact.name}
+Company: ${contact.company || 'Not specified'}
+Value: $${value}
+Stage: ${stage}
+Probability: ${deal.probability}%
+Deal ID: ${deal.id}
+
+Follow-up Email Generated:
+${describeEmail(email)}
+
+Status: Deal created and follow-up email recorded in the system.
+`,
+      records
+    };
+  }
+};
+
+interface CreateContactArgs {
+  name: string;
+  email: string;
+  company: string;
+  title?: string;
+  phone?: string;
+  status?: string;
+}
+
+const createContact: CRMTool<CreateContactArgs> = {
+  name: 'create_contact',
+  label: 'Creating the contact',
+  description: 'Creates a new contact in the CRM system',
+  parameters: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1, description: 'Full name of the contact' },
+      email: { type: 'string', format: 'email', description: 'Email address of the contact' },
+      company: { type: 'string', minLength: 1, description: 'Company name of the contact' },
+      title: { type: 'string', description: 'Job title of the contact (optional)' },
+      phone: { type: 'string', description: 'Phone number of the contact (optional)' },
+      status: { type: 'string', description: 'Status of the lead (e.g., \'New Lead\', \'Hot Lead\', \'Cold Lead\') (optional)' }
+    },
+    required: ['name', 'email', 'company'],
+    additionalProperties: false
+  },
+  permission: 'send',
+  async preview(_context, args) {
+    return `Add contact ${args.name} <${args.email}> at ${args.company} and record a welcome email to them`;
+  },
+  async run(context, args) {
+    const { data: sameEmail, error: searchError } = await context.supabase
+      .from('contacts')
+      .select('*')
+      .eq('email', args.email)
+      .eq('user_id', context.userId);
+    if (searchError) throw new Error(`Error checking for existing contact: ${searchError.message}`);
+    if (sameEmail && sameEmail.length > 0) {
+      return { data: `A contact with email "${args.email}" already exists (${sameEmail[0].name}). Use the existing contact instead.` };
+    }
+
+    const { data: sameName, error: nameSearchError } = await context.supabase
+      .from('contacts')
+      .select('*')
+      .eq('name', args.name)
+      .eq('user_id', context.userId);
+    if (nameSearchError) throw new Error(`Error checking for existing contact: ${nameSearchError.message}`);
+
+    if (sameName && sameName.length > 0) {
+      const existing = sameName[0];
+      const records = [{ type: 'contact' as const, id: existing.id, name: existing.name }];
+
+      if (existing.email === args.email) {
+        return {
+          data: `A contact with name "${args.name}" already exists. Use the existing contact instead.
+Contact ID: ${existing.id}
+Name: ${existing.name}
+Email: ${existing.email}
+Company: ${existing.company}
+`,
+          records
+        };
+      }
+
+      // Same person with a new email: bring the existing contact up to date instead
+      const { error: updateError } = await context.supabase
+        .from('contacts')
+        .update({
+          email: args.email,
+          company: args.company,
+          title: args.title || existing.title,
+          phone: args.phone || existing.phone,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', existing.id);
+      if (updateError) throw new Error(`Error updating existing contact: ${updateError.message}`);
+
+      return {
+        data: `Contact "${args.name}" already exists with a different email. Contact information has been updated with new details.
+Contact ID: ${existing.id}
+Name: ${args.name}
+Email: ${args.email}
+Company: ${args.company}
+Title: ${args.title || existing.title || 'Not specified'}
+Phone: ${args.phone || existing.phone || 'Not specified'}
+Status: ${existing.status}
+`,
+        records
+      };
+    }
+
+    const now = new Date().toISOString();
+    const status = args.status || DEFAULT_CONTACT_STATUS;
+
+    const { data: contact, error: contactError } = await context.supabase
+      .from('contacts')
+      .insert({
+        name: args.name,
+        email: args.email,
+        phone: args.phone || null,
+        company: args.company,
+        title: args.title || null,
+        created_at: now,
+        updated_at: now,
+        user_id: context.userId,
+        status,
+        score: DEFAULT_CONTACT_SCORE
+      })
+      .select()
+      .single();
+
+    if (contactError) {
+      // A unique constraint can still catch a contact the checks above missed
+      if (contactError.message?.includes('duplicate key value')) {
+        const { data: conflicts } = await context.supabase
+          .from('contacts')
+          .select('*')
+          .eq('user_id', context.userId)
+          .or(`email.eq.${args.email},name.eq.${args.name}`);
+        if (conflicts && conflicts.length > 0) {
+          return {
+            data: `A contact with the same details already exists.
+Contact ID: ${conflicts[0].id}
+Name: ${conflicts[0].name}
+Email: ${conflicts[0].email}
+Company: ${conflicts[0].company}
+`
+          };
+        }
+      }
+      throw new Error(`Error creating contact: ${contactError.message}`);
+    }
+
+    const records = [{ type: 'contact' as const, id: contact.id, name: contact.name }];
+
+    const draft = await askForJSON<DraftEmail>(
+      context.llm,
+      'You are a sales assistant that helps generate professional welcome emails for new contacts. The email should be friendly, professional, and set the stage for future communications.',
+      `Please generate a professional welcome email for this new contact:
+
+Contact:
+Name: ${args.name}
+Title: ${args.title || 'Unknown'}
+Company: ${args.company}
+Email: ${args.email}
+
+Please provide the email in JSON format with the following structure:
+{
+  "to": "${args.email}",
+  "subject": "Welcome to our network - Excited to connect",
+  "body": "The generated email body that welcomes the contact, mentions how you found them, and suggests a next step (like a call or meeting)"
+}
+
+Make the email personalized, professional, and not too sales-focused at this early stage.
+${JSON_ONLY}`
+    );
+    if (!draft.parsed) {
+      return { data: `Contact created successfully, but could not generate welcome email. Contact ID: ${contact.id}`, records };
+    }
+    const email = draft.parsed;
+
+    const { error: emailError } = await recordEmail(context, email, { contact_id: contact.id });
+    if (emailError) {
+      return { data: `Contact created successfully, but could not save welcome email. Contact ID: ${contact.id}. Error: ${emailError.message}`, records };
+    }
+
+    return {
+      data: `
+Contact Created Successfully:
+Name: ${args.name}
+Email: ${args.email}
+Company: ${args.company}
+Title: ${args.title || 'Not specified'}
+Phone: ${args.phone || 'Not specified'}
+Status: ${status}
+Contact ID: ${contact.id}
+
+Welcome Email Generated:
+${describeEmail(email)}
+
+Status: Contact created and welcome email recorded in the system.
+`,
+      records
+    };
+  }
+};
+
+interface CreateLeadArgs {
+  name: string;
+  email: string;
+  company: string;
+  title?: string;
+  phone?: string;
+  source?: string;
+  score?: number;
+  notes?: string;
+}
+
+const createLead: CRMTool<CreateLeadArgs> = {
+  name: 'create_lead',
+  label: 'Creating the lead',
+  description: 'Creates a new lead in the CRM system and sets up initial lead score and status',
+  parameters: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1, description: 'Full name of the lead' },
+      email: { type: 'string', format: 'email', description: 'Email address of the lead' },
+      company: { type: 'string', minLength: 1, description: 'Company name of the lead' },
+      title: { type: 'string', description: 'Job title of the lead (optional)' },
+      phone: { type: 'string', description: 'Phone number of the lead (optional)' },
+      source: { type: 'string', description: 'Lead source (e.g., \'Website\', \'Referral\', \'LinkedIn\', \'Conference\') (optional)' },
+      score: { type: 'number', minimum: 0, maximum: 100, description: 'Initial lead score from 0-100 (optional)' },
+      notes: { type: 'string', description: 'Initial notes or context about the lead (optional)' }
+    },
+    required: ['name', 'email', 'company'],
+    additionalProperties: false
+  },
+  permission: 'send',
+  async preview(_context, args) {
+    return `Add lead ${args.name} <${args.email}> at ${args.company}, record a qualification email to them and add a follow-up task`;
+  },
+  async run(context, args) {
+    const [{ data: contacts, error: searchError }, { data: leads, error: leadSearchError }] = await Promise.all([
+      context.supabase.from('contacts').select('id, name').eq('email', args.email).eq('user_id', context.userId),
+      context.supabase.from('leads').select('id, name').eq('email', args.email).eq('user_id', context.userId)
+    ]);
+    if (searchError) throw new Error(`Error checking for existing lead: ${searchError.message}`);
+    if (leadSearchError) throw new Error(`Error checking for existing lead: ${leadSearchError.message}`);
+    const existing = contacts?.[0] || leads?.[0];
+    if (existing) {
+      return { data: `A lead/contact with email "${args.email}" already exists (${existing.name}). Update the existing lead instead.` };
+    }
+
+    const now = new Date().toISOString();
+    const source = args.source || 'Manual Entry';
+    const score = args.score || DEFAULT_LEAD_SCORE;
+
+    const { data: lead, error: leadError } = await context.supabase
+      .from('leads')
+      .insert({
+        name: args.name,
+        email: args.email,
+        phone: args.phone || null,
+        company: args.company,
+        created_at: now,
+        updated_at: now,
+        user_id: context.userId,
+        status: 'new',
+        source,
+        score
+      })
+      .select()
+      .single();
+    if (leadError) throw new Error(`Error creating lead: ${leadError.message}`);
+
+    const records = [{ type: 'lead' as const, id: lead.id, name: lead.name }];
+
+    // Hand the lead to a rep if one of the team's assignment rules matches
+    const [assignment] = await runLeadAssignment(context.userId, [lead.id], context.supabase);
+
+    const draft = await askForJSON<DraftEmail>(
+      context.llm,
+      'You are a sales assistant that helps generate professional lead qualification emails. The email should be designed to qualify the lead and move them further down the sales funnel.',
+      `Please generate a professional lead qualification email for this new lead:
+
+Lead:
+Name: ${args.name}
+Title: ${args.title || 'Unknown'}
+Company: ${args.company}
+Email: ${args.email}
+Source: ${source}
+Score: ${score}/100
+Notes: ${args.notes || 'None provided'}
+
+Please provide the email in JSON format with the following structure:
+{
+  "to": "${args.email}",
+  "subject": "Following up on your interest in our solutions",
+  "body": "The generated email body that qualifies the lead by asking about their needs, timeline, budget, or other qualifying questions appropriate for a first outreach"
+}
+
+Make the email personalized, professional, and focused on qualifying the lead rather than selling.
+${JSON_ONLY}`
+    );
+    if (!draft.parsed) {
+      return { data: `Lead created successfully, but could not generate qualification email. Lead ID: ${lead.id}`, records };
+    }
+    const email = draft.parsed;
+
+    const { error: emailError } = await recordEmail(context, email);
+    if (emailError) {
+      return { data: `Lead created successfully, but could not save qualification email. Lead ID: ${lead.id}. Error: ${emailError.message}`, records };
+    }
+
+    const followUp = new Date();
+    followUp.setDate(followUp.getDate() + LEAD_FOLLOW_UP_DAYS);
+
+    // The lead is created either way; a missing task is mentioned in the result
+    const { error: taskError } = await context.supabase
+      .from('activities')
+      .insert({
+        subject: `Follow up with ${args.name} from ${args.company}`,
+        description: `Initial follow-up after qualification email. Lead score: ${score}/100. Source: ${source}. ${args.notes ? `Notes: ${args.notes}` : ''}`,
+        type: 'Task',
+        status: 'Pending',
+        due_date: followUp.toISOString(),
+        contact_id: null,
+        lead_id: lead.id,
+        user_id: context.userId,
+        created_at: now
+      });
+    if (taskError) {
+      console.error('[Agent Tools] Error creating follow-up task:', taskError);
+    }
+
+    return {
+      data: `
+Lead Created Successfully:
+Name: ${args.name}
+Email: ${args.email}
+Company: ${args.company}
+Title: ${args.title || 'Not specified'}
+Phone: ${args.phone || 'Not specified'}
+Source: ${source}
+Score: ${score}/100
+Notes: ${args.notes || 'None provided'}
+Lead ID: ${lead.id}
+Assignment: ${assignment?.assignedTo ? 'Assigned by team assignment rules' : 'Unassigned'}
+
+Qualification Email Generated:
+${describeEmail(email)}
+
+${taskError ? 'Note: Could not create follow-up task due to an error.' : `Follow-up task created for ${followUp.toDateString()}`}
+
+Status: Lead created and qualification email recorded in the system.
+`,
+      records
+    };
+  }
+};
+
+interface CreateEmailArgs {
+  recipient_name: string;
+  recipient_email?: string;
+  subject?: string;
+  email_type?: string;
+  deal_id?: string;
+  context?: string;
+  template_name?: string;
+}
+
+const STAGE_EMAIL_TYPES: Record<string, string> = {
+  Prospecting: 'introduction',
+  Proposal: 'proposal',
+  Negotiation: 'negotiation',
+  Closing: 'closing'
+};
+
+const createEmail: CRMTool<CreateEmailArgs> = {
+  name: 'create_email',
+  label: 'Writing the email',
+  description: 'Creates and sends an email to a contact with customizable content',
+  parameters: {
+    type: 'object',
+    properties: {
+      recipient_name: { type: 'string', minLength: 1, description: 'Name of the recipient' },
+      recipient_email: { type: 'string', format: 'email', description: 'Email address of the recipient (optional - will be looked up if not provided)' },
+      subject: { type: 'string', description: 'Subject line of the email (optional)' },
+      email_type: { type: 'string', description: 'Type of email (e.g., \'introduction\', \'follow-up\', \'proposal\', \'negotiation\', \'closing\') (optional)' },
+      deal_id: { type: 'string', format: 'uuid', description: 'ID of a related deal (optional)' },
+      context: { type: 'string', description: 'Additional context to include in the email (optional)' },
+      template_name: { type: 'string', description: 'Name of a saved email template to fill in instead of writing the email (optional)' }
+    },
+    required: ['recipient_name'],
+    additionalProperties: false
+  },
+  permission: 'send',
+  async preview(_context, args) {
+    const recipient = args.recipient_email ? `${args.recipient_name} <${args.recipient_email}>` : args.recipient_name;
+    return args.template_name
+      ? `Send the "${args.template_name}" template to ${recipient}`
+      : `Write and send ${args.email_type ? `a ${args.email_type}` : 'an'} email to ${recipient}`;
+  },
+  async run(context, args) {
+    let contact: Tables<'contacts'> | null = null;
+    let recipientEmail = args.recipient_email;
+
+    if (!recipientEmail) {
+      const { data: contacts, error } = await context.supabase
+        .from('contacts')
+        .select('*')
+        .ilike('name', `%${args.recipient_name}%`)
+        .eq('user_id', context.userId);
+      if (error) throw new Error(`Error finding contact: ${error.message}`);
+      if (!contacts || contacts.length === 0) {
+        throw new Error(`No contact found with name "${args.recipient_name}". Please create the contact first or provide an email address.`);
+      }
+      contact = contacts[0];
+      recipientEmail = contact.email;
+    } else {
+      const { data: contacts, error } = await context.supabase
+        .from('contacts')
+        .select('*')
+        .eq('email', recipientEmail)
+        .eq('user_id', context.userId);
+      if (!error && contacts && contacts.length > 0) contact = contacts[0];
+    }
+
+    // Without a deal the contact's most recent one is used
+    let deal: Tables<'deals'> | null = null;
+    if (args.deal_id) {
+      const { data } = await context.supabase.from('deals').select('*').eq('id', args.deal_id).maybeSingle();
+      deal = data;
+    } else if (contact) {
+      const { data } = await context.supabase
+        .from('deals')
+        .select('*')
+        .eq('contact_id', contact.id)
+        .order('created_at', { ascending: false })
+        .limit(1);
+      deal = data?.[0] || null;
+    }
+    const dealId = args.deal_id || deal?.id;
+
+    const emailType = args.email_type || (deal ? STAGE_EMAIL_TYPES[deal.stage || ''] || 'follow-up' : 'general');
+
+    let email: DraftEmail;
+    if (args.template_name) {
+      // Fill in a saved template through the shared merge-field engine
+      const { data: templates, error: templateError } = await context.supabase
+        .from('email_templates')
+        .select('*')
+        .ilike('name', `%${args.template_name}%`)
+        .eq('user_id', context.userId)
+        .limit(1);
+      if (templateError) throw new Error(`Error finding template: ${templateError.message}`);
+      if (!templates || templates.length === 0) throw new Error(`No email template found with name "${args.template_name}".`);
+
+      const templateContext = await loadTemplateContext({ userId: context.userId, contactId: contact?.id, dealId }, context.supabase);
+      if (!templateContext.contact) {
+        templateContext.contact = withNameParts({ name: args.recipient_name, email: recipientEmail });
+      }
+
+      const rendered = renderEmailTemplate(templates[0], templateContext);
+      if (rendered.errors.length > 0) {
+        throw new Error(`Template "${templates[0].name}" is malformed: ${rendered.errors.join('; ')}`);
+      }
+      if (rendered.unresolved.length > 0) {
+        throw new Error(`Template "${templates[0].name}" has merge fields with no value for ${args.recipient_name}: ${rendered.unresolved.join(', ')}. Fill in these fields or add fallbacks to the template.`);
+      }
+      email = { to: recipientEmail, subject: args.subject || rendered.subject, body: rendered.body };
+    } else {
+      const contactInfo = contact
+        ? `Name: ${contact.name}
+      Company: ${contact.company || 'Unknown'}
+      Title: ${contact.title || 'Unknown'}
+      Status: ${contact.status || 'Unknown'}`
+        : `Name: ${args.recipient_name}
+      Email: ${recipientEmail}`;
+      const dealInfo = deal
+        ? `Deal Title: ${deal.title}
+      Value: $${deal.value || 0}
+      Stage: ${deal.stage || 'Unknown'}
+      Probability: ${deal.probability || 0}%`
+        : 'No deal information available';
+      const subject = args.subject || `${emailType.charAt(0).toUpperCase() + emailType.slice(1)} - ${contact ? contact.company : ''}`;
+
+      const draft = await askForJSON<DraftEmail>(
+        context.llm,
+        `You are a sales assistant that helps generate professional ${emailType} emails. Generate an appropriate email based on the contact and deal details provided. Return only JSON without code blocks or formatting.`,
+        `Please generate a professional ${emailType} email:
+
+Contact:
+${contactInfo}
+
+Deal:
+${dealInfo}
+
+Additional Context:
+${args.context || 'No additional context provided'}
+
+Please provide the email in JSON format with the following structure:
+{
+  "to": "${recipientEmail}",
+  "subject": "${subject}",
+  "body": "The generated email body that is professional, personalized, and appropriate for a ${emailType} email"
+}
+
+Make the email personalized, professional, and appropriate for the ${emailType} stage.
+${JSON_ONLY}`
+      );
+      if (!draft.parsed) throw new Error(`Could not generate email. ${draft.reply}`);
+      email = draft.parsed;
+    }
+
+    const { data: stored, error: emailError } = await recordEmail(context, email, { contact_id: contact?.id, deal_id: dealId });
+    if (emailError) throw new Error(`Email created but could not be stored in database. Error: ${emailError.message}`);
+
+    // Deliver through the user's SMTP server; without one the email is only logged
+    const delivery = await deliverEmail(stored.id, context.supabase);
+    const deliveryStatus =
+      delivery.status === 'sent' ? 'Email delivered.' :
+      delivery.status === 'not_configured' ? 'Email created and stored in the system (SMTP delivery is not set up).' :
+      `Email stored but delivery ${delivery.status === 'bounced' ? 'bounced' : 'failed'}: ${delivery.error}`;
+
+    return {
+      data: `
+Email Created Successfully:
+To: ${args.recipient_name} <${email.to}>
+Subject: ${email.subject}
+Type: ${emailType}
+${contact ? `Contact ID: ${contact.id}` : ''}
+${dealId ? `Deal ID: ${dealId}` : ''}
+
+Email Body:
+${email.body}
+
+Status: ${deliveryStatus}
+`,
+      records: [
+        ...(contact ? [{ type: 'contact' as const, id: contact.id, name: contact.name }] : []),
+        ...(deal ? [{ type: 'deal' as const, id: deal.id, name: deal.title }] : [])
+      ]
+    };
+  }
+};
+
+// The Agent's tools first, then the shared CRM tools
+export const AGENT_TOOLS: CRMTool[] = [
+  summarizeEmails,
+  criticalDeal,
+  linkedInContact,
+  findContact,
+  createDeal,
+  createContact,
+  createLead,
+  createEmail,
+  ...CRM_TOOLS
+];
+
+export function agentToolDefinitions(): ChatCompletionTool[] {
+  return crmToolDefinitions(AGENT_TOOLS);
+}
+
+/**
+ * Run one of the Agent's tools, with the same validation, confirmation and audit log as the CRM tools
+ */
+export function executeAgentTool(
+  name: string,
+  rawArgs: string | Record<string, unknown>,
+  context: CRMToolContext,
+  confirm?: ConfirmCRMTool
+): Promise<CRMToolResult> {
+  return executeCRMTool(name, rawArgs, context, confirm, AGENT_TOOLS);
+}
+
+export interface GeneratedContactDetails {
+  email: string;
+  company: string;
+  title: string;
+  phone?: string;
+}
+
+/**
+ * Made-up but plausible email, company and title for a contact known only by name, so a
+ * deal can be created for them. The email carries a random number to keep it unique.
+ */
+export async function generateContactDetails(llm: LLMProvider, name: string): Promise<GeneratedContactDetails | null> {
+  const randomNumber = Math.floor(Math.random() * 10000);
+
+  try {
+    const { parsed } = await askForJSON<GeneratedContactDetails>(
+      llm,
+      'You are an assistant that helps generate realistic contact information based on a person\'s name. Generate information that is realistic and plausible, but fictitious. Return only JSON without any code blocks or formatting.',
+      `Generate realistic but fictitious contact information for a person named "${name}".
+
+Please generate the following in JSON format:
+{
+  "email": "a realistic business email address for this person",
+  "company": "a realistic company name where this person might work",
+  "title": "a realistic job title for this person",
+  "phone": "a realistic phone number (optional)"
+}
+
+IMPORTANT: Make sure the email is unique by adding "${randomNumber}" somewhere in the username portion of the email.
+For example: "john.smith${randomNumber}@company.com" or "jsmith${randomNumber}@company.com"
+
+Choose a realistic domain for the email that makes sense for the company.
+${JSON_ONLY}`
+    );
+    if (!parsed?.email) return null;
+
+    if (!parsed.email.includes(randomNumber.toString())) {
+      const [user, domain] = parsed.email.split('@');
+      parsed.email = `${user}${randomNumber}@${domain}`;
+    }
+    return parsed;
+  } catch (error) {
+    console.error('[Agent Tools] Error generating contact details:', error);
+    return null;
+  }
+}
@@ -0,0 +1,63 @@
+// AI Gateway Client
+// Calls the ai-chat / ai-embeddings / ai-transcribe Supabase edge functions so the
+// OpenAI key stays on the server. The user's session token is attached automatically.
+
+import type { ChatCompletion, ChatCompletionCreateParamsNonStreaming } from 'openai/resources/chat/completions';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface GatewayEmbeddingResponse {
+  embedding: number[];
+  model: string;
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export interface GatewayTranscriptionResponse {
+  text: string;
+  language?: string;
+  duration?: number;
+}
+
+/**
+ * Invoke an AI gateway function and surface its error message on failure
+ */
+async function invokeGateway<T>(functionName: string, body: Record<string, unknown> | FormData): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(functionName, { body });
+
+  if (error) {
+    // FunctionsHttpError carries the function's JSON error body in `context`
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(`AI gateway error (${functionName}): ${details?.error || error.message}`);
+  }
+
+  return data as T;
+}
+
+/**
+ * Create a chat completion through the gateway. Accepts and returns OpenAI's shapes,
+ * including tool definitions and tool calls.
+ */
+export async function createChatCompletion(params: ChatCompletionCreateParamsNonStreaming): Promise<ChatCompletion> {
+  return invokeGateway<ChatCompletion>('ai-chat', params as unknown as Record<string, unknown>);
+}
+
+/**
+ * Generate an embedding through the gateway
+ */
+export async function createGatewayEmbedding(input: string, model?: string): Promise<GatewayEmbeddingResponse> {
+  return invokeGateway<GatewayEmbeddingResponse>('ai-embeddings', { input, model });
+}
+
+/**
+ * Transcribe an audio or video file through the gateway (Whisper)
+ */
+export async function createGatewayTranscription(file: File, language?: string): Promise<GatewayTranscriptionResponse> {
+  const form = new FormData();
+  form.append('file', file, file.name);
+  if (language) {
+    form.append('language', language);
+  }
+  return invokeGateway<GatewayTranscriptionResponse>('ai-transcribe', form);
+}
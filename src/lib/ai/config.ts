@@ -1,76 +1,63 @@
 // OpenAI Configuration and Utilities
+// All requests go through the active LLM provider; no API key is read in the browser.
 
-import type { OpenAIConfig, OpenAIMessage, OpenAIResponse } from './types';
+import type { OpenAIConfig, OpenAIMessage } from './types';
+import { getLLMProvider, DEFAULT_EMBEDDING_MODEL, type LLMChatOptions, type LLMCompletion } from './llmProvider';
 
 /**
- * Get OpenAI configuration from environment variables
+ * Check if the active LLM provider is properly configured
  */
-export function getOpenAIConfig(): OpenAIConfig {
-  const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-  
-  if (!apiKey) {
-    throw new Error('OpenAI API key not found. Please check your .env file.');
-  }
-
-  return {
-    apiKey,
-    model: "gpt-4o-mini",
-    temperature: 0.7,
-    maxTokens: 1500
-  };
+export function isOpenAIConfigured(): boolean {
+  return getLLMProvider().isConfigured();
 }
 
 /**
- * Check if OpenAI is properly configured
+ * Make a chat completion request through the active LLM provider
  */
-export function isOpenAIConfigured(): boolean {
-  const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-  return !!apiKey && apiKey.length > 0;
+export async function makeOpenAIRequest(
+  messages: OpenAIMessage[],
+  config?: Partial<OpenAIConfig>,
+  options: Pick<LLMChatOptions, 'jsonMode'> = {}
+): Promise<string> {
+  return getLLMProvider().chat(messages, {
+    model: config?.model,
+    temperature: config?.temperature,
+    maxTokens: config?.maxTokens,
+    jsonMode: options.jsonMode
+  });
 }
 
 /**
- * Make a request to OpenAI API
+ * Make a chat completion request and return the reply with its token usage
  */
-export async function makeOpenAIRequest(
+export async function makeOpenAICompletion(
   messages: OpenAIMessage[],
   config?: Partial<OpenAIConfig>
-): Promise<string> {
-  const openAIConfig = getOpenAIConfig();
-  const requestConfig = { ...openAIConfig, ...config };
-
-  // Add cache-busting parameter to ensure fresh responses
-  const cacheBuster = Date.now().toString();
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${requestConfig.apiKey}`,
-      'Content-Type': 'application/json',
-      'X-Cache-Buster': cacheBuster
-    },
-    body: JSON.stringify({
-      model: requestConfig.model,
-      messages,
-      temperature: requestConfig.temperature,
-      max_tokens: requestConfig.maxTokens,
-      // Include a user field with timestamp to prevent response caching
-      user: `user-${cacheBuster}`
-    }),
+): Promise<LLMCompletion> {
+  return getLLMProvider().complete(messages, {
+    model: config?.model,
+    temperature: config?.temperature,
+    maxTokens: config?.maxTokens
   });
+}
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(`OpenAI API error: ${response.status} ${response.statusText}. ${errorData.error?.message || ''}`);
-  }
-
-  const data: OpenAIResponse = await response.json();
-  const responseText = data.choices[0]?.message?.content;
-  
-  if (!responseText) {
-    throw new Error('No response from OpenAI');
-  }
+/**
+ * Make a JSON-mode chat request and parse the result.
+ * The prompt must ask for a JSON object (not a bare array) for JSON mode to apply.
+ */
+export async function makeOpenAIJsonRequest<T>(
+  messages: OpenAIMessage[],
+  config?: Partial<OpenAIConfig>
+): Promise<T> {
+  const responseText = await makeOpenAIRequest(messages, config, { jsonMode: true });
+  return parseOpenAIJsonResponse<T>(responseText);
+}
 
-  return responseText;
+/**
+ * Generate an embedding vector through the active LLM provider
+ */
+export async function generateTextEmbedding(text: string, model = DEFAULT_EMBEDDING_MODEL): Promise<number[]> {
+  return getLLMProvider().embed(text, model);
 }
 
 /**
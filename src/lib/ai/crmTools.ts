@@ -0,0 +1,838 @@
+// CRM Tools
+// The actions the AI assistants can take on CRM records, in one registry shared by ChatCRM
+// and the Agent: search, read a record with its context, summarise the pipeline, update a
+// field, log an activity, schedule a meeting and move a deal to another stage. Arguments are
+// checked against each tool's JSON schema before it runs, and tools that change data or send
+// email only run once the user has confirmed a plain-language preview of the change.
+// Handlers get the Supabase client and LLM from their context rather than importing them,
+// so they run the same against fakes, and every call is recorded in the agent_runs log.
+
+import type { ChatCompletionTool } from 'openai/resources/chat/completions';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { resolveForecastCategory } from '@/lib/forecast';
+import {
+  fetchPipelines,
+  findStage,
+  getPipelineForDeal,
+  getStageNames,
+  getStageOutcome,
+  resolveDealOutcome,
+  type Pipeline
+} from '@/lib/pipelines';
+import { likeLiteral, quote } from '@/lib/postgrest';
+import { ownedByFilter } from '@/lib/teams';
+import { finishAgentRun, startAgentRun, type AgentRunApproval, type AgentRunSource } from './agentRuns';
+import { validateJSONSchema, type JSONSchemaObject } from './jsonSchema';
+import { getLLMProvider, type LLMProvider } from './llmProvider';
+
+export type CRMRecordType = 'deal' | 'contact' | 'lead' | 'company';
+
+export interface CRMRecordRef {
+  type: CRMRecordType;
+  id: string;
+  name: string;
+}
+
+export type CRMClient = typeof supabase;
+
+// read: only looks at data. write: changes CRM records. send: emails someone on the user's behalf.
+export type CRMToolPermission = 'read' | 'write' | 'send';
+
+export interface CRMToolContext {
+  userId: string;
+  supabase: CRMClient;
+  llm: LLMProvider;
+  // Which assistant made the call, for the audit log
+  source: AgentRunSource;
+}
+
+export interface CRMToolOutput {
+  // Sent back to the model as JSON
+  data: unknown;
+  // Records the output is about, so answers built on it can cite them
+  records?: CRMRecordRef[];
+}
+
+export interface CRMTool<Args extends object = object> {
+  name: string;
+  // What the assistant is doing while the tool runs, e.g. "Searching records"
+  label: string;
+  description: string;
+  parameters: JSONSchemaObject;
+  // Anything but read needs the user's confirmation
+  permission: CRMToolPermission;
+  // One sentence describing what the tool will change or send, for the confirm step. Looks up
+  // the records involved, so it also rejects ids that don't exist before the user is asked.
+  preview?(context: CRMToolContext, args: Args): Promise<string>;
+  run(context: CRMToolContext, args: Args): Promise<CRMToolOutput>;
+}
+
+export interface CRMToolConfirmation {
+  toolName: string;
+  args: Record<string, unknown>;
+  summary: string;
+}
+
+export type ConfirmCRMTool = (confirmation: CRMToolConfirmation) => Promise<boolean>;
+
+export interface CRMToolResult {
+  ok: boolean;
+  data?: unknown;
+  error?: string;
+  // True when the user turned the change down at the confirm step
+  declined?: boolean;
+  records: CRMRecordRef[];
+}
+
+interface RecordRows {
+  deal: Tables<'deals'>;
+  contact: Tables<'contacts'>;
+  lead: Tables<'leads'>;
+  company: Tables<'companies'>;
+}
+
+// Search results carry whichever columns their table selects
+type CRMRow = { id: string; title?: string; name?: string };
+
+const RECORD_TYPES: CRMRecordType[] = ['deal', 'contact', 'lead', 'company'];
+
+const RECORD_TABLES: Record<CRMRecordType, {
+  table: 'deals' | 'contacts' | 'leads' | 'companies';
+  nameColumn: 'title' | 'name';
+  columns: string;
+  searchColumns: string[];
+  // Column the `status` search filter applies to, if any
+  statusColumn?: string;
+}> = {
+  deal: {
+    table: 'deals',
+    nameColumn: 'title',
+    columns: 'id, title, value, stage, probability, outcome, forecast_category, expected_close_date, next_step, company, company_id, contact_name, contact_id, pipeline_id, last_activity, updated_at',
+    searchColumns: ['title', 'company', 'contact_name', 'next_step']
+  },
+  contact: {
+    table: 'contacts',
+    nameColumn: 'name',
+    columns: 'id, name, email, phone, title, company, company_id, status, score, persona, last_contact, updated_at',
+    searchColumns: ['name', 'email', 'company', 'title'],
+    statusColumn: 'status'
+  },
+  lead: {
+    table: 'leads',
+    nameColumn: 'name',
+    columns: 'id, name, email, phone, company, source, status, score, converted_at, converted_deal_id, created_at',
+    searchColumns: ['name', 'email', 'company', 'source'],
+    statusColumn: 'status'
+  },
+  company: {
+    table: 'companies',
+    nameColumn: 'name',
+    columns: 'id, name, industry, website, email, phone, size, employees, revenue, status, city, country, notes, last_contact, next_follow_up',
+    searchColumns: ['name', 'industry', 'website', 'city'],
+    statusColumn: 'status'
+  }
+};
+
+const ACTIVITY_COLUMNS = 'id, type, subject, description, status, priority, due_date, end_date, completed_at, created_at, deal_id, contact_id, lead_id, company_id';
+
+type FieldKind = 'text' | 'number' | 'date' | 'percent';
+
+// Fields the assistant may change. Stage is left out: move_stage also resets probability and outcome.
+const UPDATABLE_FIELDS: Record<CRMRecordType, Record<string, FieldKind>> = {
+  deal: { title: 'text', value: 'number', probability: 'percent', expected_close_date: 'date', next_step: 'text', forecast_category: 'text', company: 'text' },
+  contact: { name: 'text', email: 'text', phone: 'text', title: 'text', company: 'text', status: 'text', score: 'percent' },
+  lead: { name: 'text', email: 'text', phone: 'text', company: 'text', source: 'text', status: 'text', score: 'percent' },
+  company: { name: 'text', industry: 'text', website: 'text', email: 'text', phone: 'text', size: 'text', employees: 'number', revenue: 'number', status: 'text', notes: 'text', next_follow_up: 'date' }
+};
+
+const FORECAST_CATEGORY_VALUES = ['pipeline', 'best_case', 'commit', 'closed'];
+
+const ACTIVITY_TYPES = ['note', 'call', 'email', 'meeting', 'task'] as const;
+
+const MAX_SEARCH_RESULTS = 25;
+const RELATED_LIMIT = 10;
+
+// Supabase errors are plain objects with a message
+const errorMessage = (error: unknown) => (error as { message?: string })?.message || String(error);
+
+const uuidProperty = (description: string) => ({ type: 'string' as const, format: 'uuid' as const, description });
+
+const recordRef = (type: CRMRecordType, row: CRMRow): CRMRecordRef => ({
+  type,
+  id: row.id,
+  name: row[RECORD_TABLES[type].nameColumn] || ''
+});
+
+async function findRecord<T extends CRMRecordType>(context: CRMToolContext, type: T, id: string): Promise<RecordRows[T]> {
+  const config = RECORD_TABLES[type];
+  const { data, error } = await context.supabase
+    .from(config.table)
+    .select(config.columns)
+    .eq('id', id)
+    .or(ownedByFilter(context.userId))
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error(`No ${type} with id ${id} was found`);
+  return data as unknown as RecordRows[T];
+}
+
+async function fetchActivities(context: CRMToolContext, column: 'deal_id' | 'contact_id' | 'lead_id' | 'company_id', id: string) {
+  const { data, error } = await context.supabase
+    .from('activities')
+    .select(ACTIVITY_COLUMNS)
+    .eq(column, id)
+    .order('created_at', { ascending: false })
+    .limit(RELATED_LIMIT);
+  if (error) throw error;
+  return data || [];
+}
+
+interface SearchRecordsArgs {
+  query?: string;
+  types?: CRMRecordType[];
+  stage?: string;
+  status?: string;
+  limit?: number;
+}
+
+const searchRecords: CRMTool<SearchRecordsArgs> = {
+  name: 'search_records',
+  label: 'Searching records',
+  description: 'Find deals, contacts, leads and companies by keyword (matches names, titles, companies, emails). Filter deals by stage and the others by status. Leave the query out to list records by filter alone, most recently updated first.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Words to look for, e.g. a person, company or deal name' },
+      types: {
+        type: 'array',
+        items: { type: 'string', enum: RECORD_TYPES },
+        minItems: 1,
+        description: 'Record types to search; all types when left out'
+      },
+      stage: { type: 'string', description: 'Only deals in this pipeline stage' },
+      status: { type: 'string', description: 'Only contacts, leads or companies with this status' },
+      limit: { type: 'integer', minimum: 1, maximum: MAX_SEARCH_RESULTS, description: 'Most results per type (default 10)' }
+    },
+    additionalProperties: false
+  },
+  permission: 'read',
+  async run(context, args) {
+    const types = args.types?.length ? args.types : (args.stage ? ['deal' as const] : RECORD_TYPES);
+    const limit = args.limit ?? 10;
+    const words = args.query?.trim();
+
+    const results = await Promise.all(types.map(async type => {
+      const config = RECORD_TABLES[type];
+      const filters = [`or(${ownedByFilter(context.userId)})`];
+      if (words) {
+        const pattern = quote(`*${likeLiteral(words)}*`);
+        filters.push(`or(${config.searchColumns.map(column => `${column}.ilike.${pattern}`).join(',')})`);
+      }
+
+      let request = context.supabase.from(config.table).select(config.columns).or(`and(${filters.join(',')})`);
+      if (args.stage) {
+        if (type !== 'deal') return { type, rows: [] };
+        request = request.ilike('stage', likeLiteral(args.stage.trim()));
+      }
+      if (args.status) {
+        if (!config.statusColumn) return { type, rows: [] };
+        request = request.ilike(config.statusColumn, likeLiteral(args.status.trim()));
+      }
+
+      const { data, error } = await request
+        .order(type === 'lead' ? 'created_at' : 'updated_at', { ascending: false, nullsFirst: false })
+        .limit(limit);
+      if (error) throw error;
+      return { type, rows: (data || []) as unknown as CRMRow[] };
+    }));
+
+    const records = results.flatMap(({ type, rows }) => rows.map(row => recordRef(type, row)));
+    return {
+      data: Object.fromEntries(results.map(({ type, rows }) => [`${type}s`, rows])),
+      records
+    };
+  }
+};
+
+interface GetRecordArgs {
+  type: CRMRecordType;
+  id: string;
+}
+
+const getRecord: CRMTool<GetRecordArgs> = {
+  name: 'get_record',
+  label: 'Reading the record',
+  description: 'Read one deal, contact, lead or company by id, with its recent activities and related records (a deal\'s contact and valid stages, a contact\'s deals, a company\'s contacts and deals).',
+  parameters: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: RECORD_TYPES, description: 'Record type' },
+      id: uuidProperty('Record id, as returned by search_records')
+    },
+    required: ['type', 'id'],
+    additionalProperties: false
+  },
+  permission: 'read',
+  async run(context, args) {
+    const record = await findRecord(context, args.type, args.id);
+    const records: CRMRecordRef[] = [recordRef(args.type, record)];
+    const related: Record<string, unknown> = {};
+
+    if (args.type === 'deal') {
+      const deal = record as RecordRows['deal'];
+      const [activities, pipelines] = await Promise.all([fetchActivities(context, 'deal_id', deal.id), fetchPipelines(context.userId, context.supabase)]);
+      const pipeline = getPipelineForDeal(pipelines, deal);
+      related.activities = activities;
+      related.pipeline = pipeline ? { name: pipeline.name, stages: getStageNames(pipeline) } : null;
+      if (deal.contact_id) {
+        const { data: contact } = await context.supabase
+          .from('contacts')
+          .select('id, name, email, phone, title, company')
+          .eq('id', deal.contact_id)
+          .maybeSingle();
+        if (contact) {
+          related.contact = contact;
+          records.push(recordRef('contact', contact));
+        }
+      }
+    } else if (args.type === 'contact') {
+      const [activities, { data: deals, error }] = await Promise.all([
+        fetchActivities(context, 'contact_id', record.id),
+        context.supabase.from('deals').select('id, title, value, stage, outcome, expected_close_date').eq('contact_id', record.id).limit(RELATED_LIMIT)
+      ]);
+      if (error) throw error;
+      related.activities = activities;
+      related.deals = deals || [];
+      (deals || []).forEach(deal => records.push(recordRef('deal', deal)));
+    } else if (args.type === 'lead') {
+      related.activities = await fetchActivities(context, 'lead_id', record.id);
+    } else {
+      const [activities, { data: contacts, error: contactsError }, { data: deals, error: dealsError }] = await Promise.all([
+        fetchActivities(context, 'company_id', record.id),
+        context.supabase.from('contacts').select('id, name, email, title').eq('company_id', record.id).limit(RELATED_LIMIT),
+        context.supabase.from('deals').select('id, title, value, stage, outcome, expected_close_date').eq('company_id', record.id).limit(RELATED_LIMIT)
+      ]);
+      if (contactsError) throw contactsError;
+      if (dealsError) throw dealsError;
+      related.activities = activities;
+      related.contacts = contacts || [];
+      related.deals = deals || [];
+      (contacts || []).forEach(contact => records.push(recordRef('contact', contact)));
+      (deals || []).forEach(deal => records.push(recordRef('deal', deal)));
+    }
+
+    return { data: { [args.type]: record, ...related }, records };
+  }
+};
+
+const pipelineSummary: CRMTool<Record<string, never>> = {
+  name: 'pipeline_summary',
+  label: 'Summarising the pipeline',
+  description: 'Totals for the user\'s deals: count, value and probability-weighted value per pipeline stage, won and lost totals, and open deals past their expected close date.',
+  parameters: { type: 'object', properties: {}, additionalProperties: false },
+  permission: 'read',
+  async run(context) {
+    const [pipelines, { data, error }] = await Promise.all([
+      fetchPipelines(context.userId, context.supabase),
+      context.supabase
+        .from('deals')
+        .select('id, title, value, stage, probability, outcome, pipeline_id, expected_close_date')
+        .or(ownedByFilter(context.userId))
+    ]);
+    if (error) throw error;
+
+    const today = new Date().toISOString().split('T')[0];
+    const stages: Record<string, { pipeline: string; stage: string; count: number; value: number; weighted: number }> = {};
+    const totals = { open: { count: 0, value: 0, weighted: 0 }, won: { count: 0, value: 0 }, lost: { count: 0, value: 0 } };
+    const overdue: CRMRecordRef[] = [];
+
+    for (const deal of data || []) {
+      const value = Number(deal.value) || 0;
+      const outcome = resolveDealOutcome(pipelines, deal);
+      if (outcome !== 'in_progress') {
+        totals[outcome].count++;
+        totals[outcome].value += value;
+        continue;
+      }
+
+      const pipelineName = getPipelineForDeal(pipelines, deal)?.name || 'No pipeline';
+      const stageName = deal.stage || 'Unstaged';
+      const key = `${pipelineName}:${stageName}`;
+      const weighted = value * ((deal.probability ?? 0) / 100);
+      if (!stages[key]) stages[key] = { pipeline: pipelineName, stage: stageName, count: 0, value: 0, weighted: 0 };
+      stages[key].count++;
+      stages[key].value += value;
+      stages[key].weighted += weighted;
+      totals.open.count++;
+      totals.open.value += value;
+      totals.open.weighted += weighted;
+      if (deal.expected_close_date && deal.expected_close_date < today) overdue.push(recordRef('deal', deal));
+    }
+
+    return {
+      data: { totals, stages: Object.values(stages), overdue_deals: overdue.map(({ id, name }) => ({ id, title: name })) },
+      records: overdue
+    };
+  }
+};
+
+interface UpdateFieldArgs {
+  type: CRMRecordType;
+  id: string;
+  field: string;
+  value: string;
+}
+
+const ALL_UPDATABLE_FIELDS = [...new Set(Object.values(UPDATABLE_FIELDS).flatMap(fields => Object.keys(fields)))];
+
+/**
+ * Turn the model's string value into what the column stores. An empty value clears the field.
+ */
+function parseFieldValue(type: CRMRecordType, field: string, raw: string): string | number | null {
+  const kind = UPDATABLE_FIELDS[type][field];
+  if (!kind) {
+    throw new Error(`The ${field} field can't be changed on a ${type}. Fields that can: ${Object.keys(UPDATABLE_FIELDS[type]).join(', ')}`);
+  }
+
+  const text = raw.trim();
+  if (!text) {
+    if (field === RECORD_TABLES[type].nameColumn) throw new Error(`A ${type} needs a ${field}`);
+    return null;
+  }
+
+  switch (kind) {
+    case 'number':
+    case 'percent': {
+      const number = Number(text.replace(/[$,%\s]/g, ''));
+      if (isNaN(number)) throw new Error(`${field} must be a number`);
+      if (kind === 'percent' && (number < 0 || number > 100)) throw new Error(`${field} must be between 0 and 100`);
+      return number;
+    }
+    case 'date':
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || isNaN(Date.parse(text))) throw new Error(`${field} must be a date (YYYY-MM-DD)`);
+      return text;
+    default:
+      if (field === 'forecast_category' && !FORECAST_CATEGORY_VALUES.includes(text)) {
+        throw new Error(`forecast_category must be one of: ${FORECAST_CATEGORY_VALUES.join(', ')}`);
+      }
+      return text;
+  }
+}
+
+const updateField: CRMTool<UpdateFieldArgs> = {
+  name: 'update_field',
+  label: 'Updating the record',
+  description: `Change one field on a deal, contact, lead or company. Deal fields: ${Object.keys(UPDATABLE_FIELDS.deal).join(', ')}. Contact fields: ${Object.keys(UPDATABLE_FIELDS.contact).join(', ')}. Lead fields: ${Object.keys(UPDATABLE_FIELDS.lead).join(', ')}. Company fields: ${Object.keys(UPDATABLE_FIELDS.company).join(', ')}. Use move_stage to change a deal's stage.`,
+  parameters: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: RECORD_TYPES, description: 'Record type' },
+      id: uuidProperty('Record id'),
+      field: { type: 'string', enum: ALL_UPDATABLE_FIELDS, description: 'Field to change' },
+      value: { type: 'string', description: 'New value as text; numbers as digits, dates as YYYY-MM-DD, empty to clear' }
+    },
+    required: ['type', 'id', 'field', 'value'],
+    additionalProperties: false
+  },
+  permission: 'write',
+  async preview(context, args) {
+    const value = parseFieldValue(args.type, args.field, args.value);
+    const record = await findRecord(context, args.type, args.id);
+    const name = record[RECORD_TABLES[args.type].nameColumn];
+    const current = record[args.field] ?? 'empty';
+    return value === null
+      ? `Clear ${args.field} on ${args.type} "${name}" (currently ${current})`
+      : `Change ${args.field} on ${args.type} "${name}" from ${current} to ${value}`;
+  },
+  async run(context, args) {
+    const value = parseFieldValue(args.type, args.field, args.value);
+    const config = RECORD_TABLES[args.type];
+    const { data, error } = await context.supabase
+      .from(config.table)
+      .update({ [args.field]: value })
+      .eq('id', args.id)
+      .or(ownedByFilter(context.userId))
+      .select(config.columns)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new Error(`No ${args.type} with id ${args.id} was found`);
+    const record = data as unknown as CRMRow;
+    return { data: { updated: record }, records: [recordRef(args.type, record)] };
+  }
+};
+
+interface LinkArgs {
+  deal_id?: string;
+  contact_id?: string;
+  lead_id?: string;
+  company_id?: string;
+}
+
+const LINK_PROPERTIES = {
+  deal_id: uuidProperty('Deal it relates to'),
+  contact_id: uuidProperty('Contact it relates to'),
+  lead_id: uuidProperty('Lead it relates to'),
+  company_id: uuidProperty('Company it relates to')
+};
+
+const LINK_TYPES: [keyof LinkArgs, CRMRecordType][] = [['deal_id', 'deal'], ['contact_id', 'contact'], ['lead_id', 'lead'], ['company_id', 'company']];
+
+/**
+ * Look up the records an activity will be attached to. A deal's contact and company are
+ * filled in when not given, so the activity also shows on their timelines.
+ */
+async function resolveLinks(context: CRMToolContext, args: LinkArgs): Promise<{ links: LinkArgs; records: CRMRecordRef[] }> {
+  const links: LinkArgs = {};
+  const records: CRMRecordRef[] = [];
+
+  for (const [key, type] of LINK_TYPES) {
+    const id = args[key];
+    if (!id) continue;
+    const record = await findRecord(context, type, id);
+    links[key] = id;
+    records.push(recordRef(type, record));
+    if (type === 'deal') {
+      const deal = record as RecordRows['deal'];
+      links.contact_id = args.contact_id || deal.contact_id || undefined;
+      links.company_id = args.company_id || deal.company_id || undefined;
+    }
+  }
+
+  if (records.length === 0) throw new Error('Link the activity to at least one deal, contact, lead or company');
+  return { links, records };
+}
+
+const describeRecords = (records: CRMRecordRef[]) => records.map(record => `${record.type} "${record.name}"`).join(' and ');
+
+interface LogActivityArgs extends LinkArgs {
+  type: typeof ACTIVITY_TYPES[number];
+  subject: string;
+  description?: string;
+  due_date?: string;
+}
+
+const logActivity: CRMTool<LogActivityArgs> = {
+  name: 'log_activity',
+  label: 'Logging the activity',
+  description: 'Record a note, call, email or completed meeting on a record\'s timeline, or add a task with a due date. Link it to at least one deal, contact, lead or company.',
+  parameters: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: ACTIVITY_TYPES, description: 'Kind of activity; tasks stay open until done, the rest are logged as completed' },
+      subject: { type: 'string', minLength: 1, maxLength: 200, description: 'Short summary' },
+      description: { type: 'string', maxLength: 5000, description: 'Details' },
+      due_date: { type: 'string', format: 'date-time', description: 'For tasks: when it is due (ISO 8601)' },
+      ...LINK_PROPERTIES
+    },
+    required: ['type', 'subject'],
+    additionalProperties: false
+  },
+  permission: 'write',
+  async preview(context, args) {
+    const { records } = await resolveLinks(context, args);
+    return args.type === 'task'
+      ? `Add task "${args.subject}"${args.due_date ? ` due ${new Date(args.due_date).toLocaleString()}` : ''} for ${describeRecords(records)}`
+      : `Log ${args.type} "${args.subject}" on ${describeRecords(records)}`;
+  },
+  async run(context, args) {
+    const { links, records } = await resolveLinks(context, args);
+    const now = new Date().toISOString();
+    const isTask = args.type === 'task';
+
+    const { data, error } = await context.supabase
+      .from('activities')
+      .insert({
+        user_id: context.userId,
+        type: args.type,
+        subject: args.subject.trim(),
+        description: args.description?.trim() || null,
+        status: isTask ? 'pending' : 'completed',
+        priority: 'medium',
+        due_date: isTask ? args.due_date || null : null,
+        completed_at: isTask ? null : now,
+        deal_id: links.deal_id || null,
+        contact_id: links.contact_id || null,
+        lead_id: links.lead_id || null,
+        company_id: links.company_id || null
+      })
+      .select(ACTIVITY_COLUMNS)
+      .single();
+    if (error) throw error;
+
+    if (links.deal_id && !isTask) {
+      await context.supabase.from('deals').update({ last_activity: now }).eq('id', links.deal_id);
+    }
+    return { data: { activity: data }, records };
+  }
+};
+
+interface ScheduleMeetingArgs extends LinkArgs {
+  title: string;
+  start: string;
+  duration_minutes?: number;
+  kind?: 'meeting' | 'call';
+  description?: string;
+}
+
+const scheduleMeeting: CRMTool<ScheduleMeetingArgs> = {
+  name: 'schedule_meeting',
+  label: 'Scheduling the meeting',
+  description: 'Put a meeting or call on the user\'s CRM calendar (synced to their external calendar if connected), linked to a deal, contact, lead or company.',
+  parameters: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', minLength: 1, maxLength: 200, description: 'Meeting title' },
+      start: { type: 'string', format: 'date-time', description: 'Start time, ISO 8601 with the user\'s UTC offset' },
+      duration_minutes: { type: 'integer', minimum: 5, maximum: 480, description: 'Length in minutes (default 30)' },
+      kind: { type: 'string', enum: ['meeting', 'call'], description: 'Meeting (default) or call' },
+      description: { type: 'string', maxLength: 5000, description: 'Agenda or notes' },
+      ...LINK_PROPERTIES
+    },
+    required: ['title', 'start'],
+    additionalProperties: false
+  },
+  permission: 'write',
+  async preview(context, args) {
+    const { records } = await resolveLinks(context, args);
+    return `Schedule ${args.kind || 'meeting'} "${args.title}" on ${new Date(args.start).toLocaleString()} for ${args.duration_minutes ?? 30} minutes with ${describeRecords(records)}`;
+  },
+  async run(context, args) {
+    const { links, records } = await resolveLinks(context, args);
+    const start = new Date(args.start);
+    const end = new Date(start.getTime() + (args.duration_minutes ?? 30) * 60 * 1000);
+
+    const { data, error } = await context.supabase
+      .from('activities')
+      .insert({
+        user_id: context.userId,
+        type: args.kind || 'meeting',
+        subject: args.title.trim(),
+        description: args.description?.trim() || null,
+        status: 'pending',
+        priority: 'medium',
+        due_date: start.toISOString(),
+        end_date: end.toISOString(),
+        deal_id: links.deal_id || null,
+        contact_id: links.contact_id || null,
+        lead_id: links.lead_id || null,
+        company_id: links.company_id || null
+      })
+      .select(ACTIVITY_COLUMNS)
+      .single();
+    if (error) throw error;
+    return { data: { meeting: data }, records };
+  }
+};
+
+interface MoveStageArgs {
+  deal_id: string;
+  stage: string;
+}
+
+/**
+ * The deal, its pipeline and the stage to move it to, named as the pipeline names it
+ */
+async function resolveStageMove(context: CRMToolContext, args: MoveStageArgs) {
+  const [deal, pipelines] = await Promise.all([findRecord(context, 'deal', args.deal_id), fetchPipelines(context.userId, context.supabase)]);
+  const pipeline: Pipeline | undefined = getPipelineForDeal(pipelines, deal);
+  const stage = findStage(pipeline, args.stage);
+  if (!stage) {
+    throw new Error(`"${args.stage}" is not a stage of the ${pipeline?.name || 'deal\'s'} pipeline. Stages: ${getStageNames(pipeline).join(', ')}`);
+  }
+  return { deal, pipeline, stage };
+}
+
+const moveStage: CRMTool<MoveStageArgs> = {
+  name: 'move_stage',
+  label: 'Moving the deal',
+  description: 'Move a deal to another stage of its pipeline. Probability, won/lost outcome and forecast category follow the stage, and the change is logged on the deal.',
+  parameters: {
+    type: 'object',
+    properties: {
+      deal_id: uuidProperty('Deal id'),
+      stage: { type: 'string', minLength: 1, description: 'Stage name from the deal\'s pipeline' }
+    },
+    required: ['deal_id', 'stage'],
+    additionalProperties: false
+  },
+  permission: 'write',
+  async preview(context, args) {
+    const { deal, stage } = await resolveStageMove(context, args);
+    return `Move deal "${deal.title}" from ${deal.stage || 'Unstaged'} to ${stage.name} (probability ${stage.probability}%)`;
+  },
+  async run(context, args) {
+    const { deal, pipeline, stage } = await resolveStageMove(context, args);
+    const outcome = getStageOutcome(pipeline, stage.name);
+    const previousStage = deal.stage || 'Unstaged';
+    const now = new Date().toISOString();
+
+    const { error } = await context.supabase
+      .from('deals')
+      .update({
+        stage: stage.name,
+        probability: stage.probability,
+        outcome,
+        forecast_category: resolveForecastCategory(deal.forecast_category, outcome),
+        pipeline_id: pipeline?.id || null,
+        last_activity: now
+      })
+      .eq('id', deal.id);
+    if (error) throw error;
+
+    const { error: activityError } = await context.supabase
+      .from('activities')
+      .insert({
+        user_id: context.userId,
+        type: 'note',
+        subject: `Stage changed: ${previousStage} → ${stage.name}`,
+        description: `"${deal.title}" moved from ${previousStage} to ${stage.name} (probability ${stage.probability}%).`,
+        status: 'completed',
+        priority: 'low',
+        completed_at: now,
+        contact_id: deal.contact_id || null,
+        deal_id: deal.id
+      });
+    if (activityError) {
+      console.error('[CRM Tools] Error logging stage change activity:', activityError);
+    }
+
+    return {
+      data: { deal_id: deal.id, title: deal.title, from: previousStage, to: stage.name, probability: stage.probability, outcome },
+      records: [recordRef('deal', deal)]
+    };
+  }
+};
+
+export const CRM_TOOLS: CRMTool[] = [searchRecords, getRecord, pipelineSummary, updateField, logActivity, scheduleMeeting, moveStage];
+
+/**
+ * A context using the app's Supabase client and active LLM provider
+ */
+export function createCRMToolContext(userId: string, source: AgentRunSource): CRMToolContext {
+  return { userId, source, supabase, llm: getLLMProvider() };
+}
+
+export function getCRMTool(name: string, tools: CRMTool[] = CRM_TOOLS): CRMTool | undefined {
+  return tools.find(tool => tool.name === name);
+}
+
+export function isCRMTool(name: string, tools: CRMTool[] = CRM_TOOLS): boolean {
+  return !!getCRMTool(name, tools);
+}
+
+/**
+ * A registry in the shape chat completion requests take
+ */
+export function crmToolDefinitions(tools: CRMTool[] = CRM_TOOLS): ChatCompletionTool[] {
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.permission !== 'read' ? `${tool.description} The user is asked to confirm before this runs.` : tool.description,
+      parameters: tool.parameters as unknown as Record<string, unknown>
+    }
+  }));
+}
+
+/**
+ * Run a tool call from the model against a registry (the shared CRM tools by default).
+ * Arguments are parsed and validated first; writes and sends are previewed and only run
+ * when `confirm` approves them. Failures come back as a result with an error message
+ * rather than throwing, so the model can correct itself. Every call, including rejected
+ * ones, is added to the agent_runs log, and a tool doesn't run if its call can't be logged.
+ */
+export async function executeCRMTool(
+  name: string,
+  rawArgs: string | Record<string, unknown>,
+  context: CRMToolContext,
+  confirm?: ConfirmCRMTool,
+  tools: CRMTool[] = CRM_TOOLS
+): Promise<CRMToolResult> {
+  let startedAt = performance.now();
+  const tool = getCRMTool(name, tools);
+  let args: unknown = rawArgs;
+  let approval: AgentRunApproval | null = null;
+
+  const openRun = () =>
+    startAgentRun(context.supabase, {
+      source: context.source,
+      toolName: name,
+      permission: tool?.permission ?? null,
+      args,
+      approval
+    });
+
+  const closeRun = async (runId: string, result: CRMToolResult): Promise<CRMToolResult> => {
+    try {
+      await finishAgentRun(context.supabase, runId, {
+        ok: result.ok,
+        result: result.data,
+        error: result.error,
+        durationMs: performance.now() - startedAt
+      });
+    } catch (error) {
+      // The run stays open in the log, which marks it as one whose outcome wasn't recorded
+      console.error(`[CRM Tools] Could not record the outcome of ${name}:`, error);
+    }
+    return result;
+  };
+
+  // Calls rejected before the tool runs are opened and closed in one go
+  const reject = async (result: CRMToolResult): Promise<CRMToolResult> => {
+    try {
+      return await closeRun(await openRun(), result);
+    } catch (error) {
+      console.error(`[CRM Tools] Could not record the rejected ${name} call:`, error);
+      return result;
+    }
+  };
+
+  if (!tool) return reject({ ok: false, error: `Unknown tool "${name}"`, records: [] });
+
+  try {
+    args = typeof rawArgs === 'string' ? (rawArgs.trim() ? JSON.parse(rawArgs) : {}) : rawArgs;
+  } catch {
+    return reject({ ok: false, error: 'Arguments are not valid JSON', records: [] });
+  }
+
+  const problems = validateJSONSchema(tool.parameters, args);
+  if (problems.length > 0) {
+    return reject({ ok: false, error: `Invalid arguments: ${problems.join('; ')}`, records: [] });
+  }
+  const validArgs = args as Record<string, unknown>;
+
+  try {
+    if (tool.permission === 'read') {
+      approval = 'not_required';
+    } else {
+      const summary = tool.preview ? await tool.preview(context, validArgs) : `Run ${tool.name}`;
+      const approved = confirm ? await confirm({ toolName: tool.name, args: validArgs, summary }) : false;
+      approval = approved ? 'approved' : 'declined';
+      if (!approved) {
+        return reject({ ok: false, declined: true, error: `The user did not approve: ${summary}. Do not retry unless they ask.`, records: [] });
+      }
+    }
+  } catch (error) {
+    console.error(`[CRM Tools] ${name} preview failed:`, error);
+    return reject({ ok: false, error: errorMessage(error), records: [] });
+  }
+
+  let runId: string;
+  try {
+    runId = await openRun();
+  } catch (error) {
+    console.error(`[CRM Tools] Could not record ${name}:`, error);
+    return { ok: false, error: `${name} was not run because it could not be recorded in the audit log: ${errorMessage(error)}`, records: [] };
+  }
+
+  // The logged duration is the tool's own work, not the time the user took to decide
+  startedAt = performance.now();
+  try {
+    const output = await tool.run(context, validArgs);
+    return closeRun(runId, { ok: true, data: output.data, records: output.records || [] });
+  } catch (error) {
+    console.error(`[CRM Tools] ${name} failed:`, error);
+    return closeRun(runId, { ok: false, error: errorMessage(error), records: [] });
+  }
+}
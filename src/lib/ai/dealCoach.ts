@@ -3,6 +3,24 @@
 import type { DealCoachRecommendation } from './types';
 import { makeOpenAIRequest, parseOpenAIJsonResponse } from './config';
 import { CodeSquare } from 'lucide-react';
+import type { DealVelocityContext } from '@/lib/velocity';
+
+/**
+ * Describe a deal's stage history for the coaching prompt
+ */
+function formatVelocityContext(velocity?: DealVelocityContext | null): string {
+  if (!velocity || !velocity.currentStage) {
+    return '- No stage history recorded yet';
+  }
+
+  const path = velocity.stagePath.map(step => `${step.stage} (${step.days}d)`).join(' → ');
+  return `- Current stage: ${velocity.currentStage} for ${velocity.daysInCurrentStage} days
+- Average time other deals spend in ${velocity.currentStage}: ${velocity.avgDaysInCurrentStage !== null ? `${velocity.avgDaysInCurrentStage} days` : 'not enough history'}
+- Pace: ${velocity.avgDaysInCurrentStage === null ? 'unknown' : velocity.slowerThanAverage ? 'SLOWER than average for this stage' : 'on pace or faster than average'}
+- Conversion rate out of ${velocity.currentStage}: ${velocity.conversionRateFromCurrentStage !== null ? `${velocity.conversionRateFromCurrentStage}% of deals advance` : 'not enough closed outcomes'}
+- Stage changes so far: ${velocity.stageChanges}
+- Stage path: ${path || velocity.currentStage}`;
+}
 
 /**
  * Generate AI-powered deal coaching recommendations
@@ -29,7 +47,9 @@ DEAL CONTEXT ANALYSIS:
 BUYER BEHAVIOR SIGNALS:
 - Email engagement rate: ${context.emails?.length > 0 ? Math.round((context.emails.filter((e: any) => e.opened_at).length / context.emails.length) * 100) : 0}%
 - Response pattern: ${context.lastActivityDays < 3 ? 'Highly responsive' : context.lastActivityDays < 7 ? 'Moderately responsive' : 'Low responsiveness'}
-- Deal velocity: ${context.dealAge > 0 ? Math.round(deal.probability / context.dealAge * 30) : 0} probability points per month
+
+PIPELINE VELOCITY (from recorded stage history):
+${formatVelocityContext(context.velocity)}
 ` : '';
 
     const prompt = `You are an expert sales coach with access to comprehensive deal data and historical patterns. Analyze this deal and provide 3 strategic recommendations.
@@ -1,5 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
-import { getOpenAIConfig, makeOpenAIRequest, parseOpenAIJsonResponse } from './config';
+import { makeOpenAIRequest, parseOpenAIJsonResponse } from './config';
 
 export interface DealSimilarityRequest {
   dealId: string;
@@ -122,8 +122,6 @@ export async function analyzeDealSimilarity(request: DealSimilarityRequest): Pro
     }
 
     // Use LLM to analyze similarity and generate recommendations
-    const config = getOpenAIConfig();
-    
     const prompt = `You are an expert sales analyst. Analyze the following deal and compare it with historical deals to find similarities and generate actionable recommendations.
 
 CURRENT DEAL:
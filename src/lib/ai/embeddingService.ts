@@ -1,5 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
-import { getOpenAIConfig } from './config';
+import { generateTextEmbedding } from './config';
+import { getLLMProvider } from './llmProvider';
 
 // Types for embedding operations
 export interface EmbeddingRequest {
@@ -56,34 +57,20 @@ export interface EmbeddingMetadata {
   updatedAt: string;
 }
 
-// Generate embedding using OpenAI API
+// Generate embedding through the active LLM provider
 export async function generateEmbedding(request: EmbeddingRequest): Promise<EmbeddingResponse> {
   try {
-    const config = getOpenAIConfig();
-    
-    const response = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${config.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        input: request.text,
-        model: request.model || 'text-embedding-3-small',
-        encoding_format: 'float'
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
+    const model = request.model || 'text-embedding-3-small';
+    const embedding = await generateTextEmbedding(request.text, model);
+    const tokenEstimate = request.text.split(' ').length;
     
     return {
-      embedding: data.data[0].embedding,
-      model: data.model,
-      usage: data.usage
+      embedding,
+      model: `${getLLMProvider().name}:${model}`,
+      usage: {
+        prompt_tokens: tokenEstimate,
+        total_tokens: tokenEstimate
+      }
     };
   } catch (error) {
     console.error('Error generating embedding:', error);
@@ -136,8 +123,7 @@ export async function storeEmbedding(
     const { error: updateError } = await (supabase as any)
       .from(tableName)
       .update({ [vectorColumnName]: embedding })
-      .eq('id', recordId)
-      .eq('user_id', userId);
+      .eq('id', recordId);
 
     if (updateError) {
       console.error('Error updating table with embedding:', updateError);
@@ -73,14 +73,43 @@ export type {
   SemanticSearchResponse
 } from './semanticSearch';
 
+// Export AI gateway client
+export {
+  createChatCompletion,
+  createGatewayEmbedding,
+  createGatewayTranscription
+} from './aiGateway';
+
 // Export configuration utilities
 export {
-  getOpenAIConfig,
   isOpenAIConfigured,
   makeOpenAIRequest,
+  makeOpenAICompletion,
+  makeOpenAIJsonRequest,
+  generateTextEmbedding,
   parseOpenAIJsonResponse
 } from './config';
 
+// Export LLM provider layer
+export type {
+  LLMProvider,
+  LLMProviderName,
+  LLMChatOptions,
+  LLMCompletion,
+  LLMUsage,
+  LLMTranscription
+} from './llmProvider';
+
+export {
+  getLLMProvider,
+  setLLMProvider,
+  createGatewayProvider,
+  createLocalProvider,
+  createFakeProvider,
+  createProviderFromEnv,
+  estimateTokens
+} from './llmProvider';
+
 // Export Tavily search utilities
 export {
   getTavilyConfig,
@@ -126,6 +155,30 @@ export { fetchCRMData, formatCRMDataForAI, analyzeDataTrends } from './crmDataAn
 // Semantic search
 export { semanticSearchService, SemanticSearchService } from './semanticSearch';
 
+// CRM tool registry, the Agent's tools, their audit log and tool-calling conversations
+export type {
+  CRMClient,
+  CRMRecordType,
+  CRMRecordRef,
+  CRMTool,
+  CRMToolContext,
+  CRMToolConfirmation,
+  CRMToolPermission,
+  CRMToolResult,
+  ConfirmCRMTool
+} from './crmTools';
+export { CRM_TOOLS, createCRMToolContext, getCRMTool, isCRMTool, crmToolDefinitions, executeCRMTool } from './crmTools';
+export type { FoundContact, GeneratedContactDetails } from './agentTools';
+export { AGENT_MODEL, AGENT_TOOLS, agentToolDefinitions, executeAgentTool, generateContactDetails } from './agentTools';
+export type { AgentDealRequest, AgentEmailRequest, AgentRoute } from './agentRoutes';
+export { matchAgentRoute } from './agentRoutes';
+export type { AgentRunApproval, AgentRunOutcome, AgentRunSource, AgentRunStart } from './agentRuns';
+export { finishAgentRun, startAgentRun } from './agentRuns';
+export type { JSONSchema, JSONSchemaObject } from './jsonSchema';
+export { validateJSONSchema } from './jsonSchema';
+export type { ToolCallStep, ToolConversationOptions, ToolConversationResult } from './toolCalling';
+export { runToolConversation } from './toolCalling';
+
 // Smart Lead Analyzer
 export * from './smartLeadAnalyzer';
 
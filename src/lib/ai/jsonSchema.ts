@@ -0,0 +1,110 @@
+// JSON Schema Validation
+// The subset of JSON Schema used to describe tool arguments to the model, and a validator
+// for it. Models sometimes send arguments that don't match the schema they were given, so
+// tool arguments are checked before anything runs.
+
+export type JSONSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+export interface JSONSchema {
+  type: JSONSchemaType;
+  description?: string;
+  enum?: readonly (string | number)[];
+  // object
+  properties?: Record<string, JSONSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean;
+  // array
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+  // string
+  minLength?: number;
+  maxLength?: number;
+  format?: 'date' | 'date-time' | 'uuid' | 'email';
+  // number / integer
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface JSONSchemaObject extends JSONSchema {
+  type: 'object';
+  properties: Record<string, JSONSchema>;
+}
+
+const FORMATS: Record<NonNullable<JSONSchema['format']>, (value: string) => boolean> = {
+  'date': value => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)),
+  'date-time': value => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value) && !isNaN(Date.parse(value)),
+  'uuid': value => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  'email': value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function validateValue(schema: JSONSchema, value: unknown, path: string, errors: string[]): void {
+  const actual = typeOf(value);
+  const matchesType = schema.type === actual || (schema.type === 'number' && actual === 'integer');
+  if (!matchesType) {
+    errors.push(`${path} must be ${schema.type === 'integer' || schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}, got ${actual}`);
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path} must be one of: ${schema.enum.join(', ')}`);
+    return;
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) errors.push(`${path}.${key} is required`);
+      }
+      for (const [key, property] of Object.entries(record)) {
+        const propertySchema = schema.properties?.[key];
+        if (propertySchema) {
+          if (property !== undefined) validateValue(propertySchema, property, `${path}.${key}`, errors);
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}.${key} is not a known argument`);
+        }
+      }
+      break;
+    }
+    case 'array': {
+      const items = value as unknown[];
+      if (schema.minItems !== undefined && items.length < schema.minItems) errors.push(`${path} needs at least ${schema.minItems} items`);
+      if (schema.maxItems !== undefined && items.length > schema.maxItems) errors.push(`${path} allows at most ${schema.maxItems} items`);
+      if (schema.items) items.forEach((item, index) => validateValue(schema.items!, item, `${path}[${index}]`, errors));
+      break;
+    }
+    case 'string': {
+      const text = value as string;
+      if (schema.minLength !== undefined && text.trim().length < schema.minLength) {
+        errors.push(schema.minLength === 1 ? `${path} must not be empty` : `${path} must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && text.length > schema.maxLength) errors.push(`${path} must be at most ${schema.maxLength} characters`);
+      if (schema.format && !FORMATS[schema.format](text)) errors.push(`${path} must be a valid ${schema.format}`);
+      break;
+    }
+    case 'number':
+    case 'integer': {
+      const number = value as number;
+      if (schema.minimum !== undefined && number < schema.minimum) errors.push(`${path} must be at least ${schema.minimum}`);
+      if (schema.maximum !== undefined && number > schema.maximum) errors.push(`${path} must be at most ${schema.maximum}`);
+      break;
+    }
+  }
+}
+
+/**
+ * Check a value against a schema. Returns one message per problem; an empty list means valid.
+ */
+export function validateJSONSchema(schema: JSONSchema, value: unknown, path = 'arguments'): string[] {
+  const errors: string[] = [];
+  validateValue(schema, value, path, errors);
+  return errors;
+}
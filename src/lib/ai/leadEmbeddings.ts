@@ -1,11 +1,5 @@
-import OpenAI from 'openai';
 import { supabase } from '@/integrations/supabase/client';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true // Note: In production, this should be handled server-side
-});
+import { generateTextEmbedding } from './config';
 
 /**
  * Lead Embedding Service
@@ -100,19 +94,16 @@ export class LeadEmbeddingService {
   }
 
   /**
-   * Generates an embedding vector using OpenAI API
+   * Generates an embedding vector through the active LLM provider
    */
   async generateEmbedding(text: string) {
     console.log(`[Embeddings] Generating embedding vector for text (${text.length} characters)`);
     try {
-      const response = await openai.embeddings.create({
-        model: "text-embedding-3-small",
-        input: text
-      });
+      const embedding = await generateTextEmbedding(text);
       
-      console.log(`[Embeddings] Successfully generated embedding vector (dimensions: ${response.data[0].embedding.length})`);
+      console.log(`[Embeddings] Successfully generated embedding vector (dimensions: ${embedding.length})`);
 
-      return response.data[0].embedding;
+      return embedding;
     } catch (error) {
       console.error('[Embeddings] Error generating embedding:', error);
       throw error;
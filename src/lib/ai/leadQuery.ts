@@ -3,13 +3,6 @@
 import { SemanticSearchService } from './semanticSearch';
 import { makeOpenAIRequest, parseOpenAIJsonResponse, isOpenAIConfigured } from './config';
 import { supabase } from '@/integrations/supabase/client';
-import OpenAI from 'openai';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true // Note: In production, this should be handled server-side
-});
 
 // Define types for lead query operations
 export interface LeadQueryRequest {
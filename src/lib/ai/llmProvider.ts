@@ -0,0 +1,372 @@
+// LLM Provider Layer
+// A single interface for chat, JSON-mode, embedding and transcription calls. Every AI
+// service goes through the active provider so features can run against the Supabase
+// AI gateway (OpenAI, server-side key), a local OpenAI-compatible server
+// (Ollama / llama.cpp) or a deterministic fake.
+
+import type { OpenAIMessage, OpenAIResponse } from './types';
+import { createChatCompletion, createGatewayEmbedding, createGatewayTranscription } from './aiGateway';
+
+export type LLMProviderName = 'gateway' | 'local' | 'fake';
+
+export interface LLMChatOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // True when the server didn't report usage and the counts were estimated from text length
+  estimated: boolean;
+}
+
+export interface LLMCompletion {
+  content: string;
+  usage: LLMUsage;
+}
+
+export interface LLMTranscription {
+  text: string;
+  language?: string;
+  duration?: number;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  isConfigured(): boolean;
+  chat(messages: OpenAIMessage[], options?: LLMChatOptions): Promise<string>;
+  complete(messages: OpenAIMessage[], options?: LLMChatOptions): Promise<LLMCompletion>;
+  embed(text: string, model?: string): Promise<number[]>;
+  transcribe(file: File, language?: string): Promise<LLMTranscription>;
+}
+
+export const DEFAULT_CHAT_MODEL = 'gpt-4o-mini';
+export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+export const EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * Rough token count for English text (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Usage as reported by an OpenAI-style response, or estimated from the text when absent
+ */
+function completionUsage(
+  messages: OpenAIMessage[],
+  content: string,
+  reported?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | null
+): LLMUsage {
+  if (reported?.prompt_tokens !== undefined && reported?.completion_tokens !== undefined) {
+    return {
+      promptTokens: reported.prompt_tokens,
+      completionTokens: reported.completion_tokens,
+      totalTokens: reported.total_tokens ?? reported.prompt_tokens + reported.completion_tokens,
+      estimated: false
+    };
+  }
+
+  const promptTokens = estimateTokens(messages.map(m => m.content).join('\n'));
+  const completionTokens = estimateTokens(content);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+}
+
+/**
+ * Default provider: OpenAI behind the ai-chat / ai-embeddings / ai-transcribe edge functions.
+ * No API key is needed in the browser; calls are authorised with the user's session.
+ */
+export function createGatewayProvider(): LLMProvider {
+  return {
+    name: 'gateway',
+
+    isConfigured() {
+      return true;
+    },
+
+    async chat(messages, options = {}) {
+      return (await this.complete(messages, options)).content;
+    },
+
+    async complete(messages, options = {}) {
+      const completion = await createChatCompletion({
+        model: options.model || DEFAULT_CHAT_MODEL,
+        messages,
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.maxTokens ?? 1500,
+        ...(options.jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+      });
+      const responseText = completion.choices[0]?.message?.content;
+
+      if (!responseText) {
+        throw new Error('No response from OpenAI');
+      }
+
+      return { content: responseText, usage: completionUsage(messages, responseText, completion.usage) };
+    },
+
+    async embed(text, model) {
+      const response = await createGatewayEmbedding(text, model || DEFAULT_EMBEDDING_MODEL);
+      return response.embedding;
+    },
+
+    async transcribe(file, language) {
+      return createGatewayTranscription(file, language);
+    }
+  };
+}
+
+interface OpenAICompatibleSettings {
+  baseUrl: string;
+  apiKey?: string;
+  chatModel?: string;
+  embeddingModel?: string;
+  transcriptionModel?: string;
+}
+
+/**
+ * Adapter for a local server speaking the OpenAI REST dialect.
+ * The configured models override whatever the caller asks for,
+ * so the server is never sent OpenAI-only model names.
+ */
+function createOpenAICompatibleProvider(settings: OpenAICompatibleSettings): LLMProvider {
+  const headers = (): Record<string, string> => {
+    const result: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+      result['Authorization'] = `Bearer ${settings.apiKey}`;
+    }
+    return result;
+  };
+
+  const isConfigured = () => !!settings.baseUrl;
+
+  return {
+    name: 'local',
+    isConfigured,
+
+    async chat(messages, options = {}) {
+      return (await this.complete(messages, options)).content;
+    },
+
+    async complete(messages, options = {}) {
+      // Add cache-busting parameter to ensure fresh responses
+      const cacheBuster = Date.now().toString();
+
+      const response = await fetch(`${settings.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: { ...headers(), 'X-Cache-Buster': cacheBuster },
+        body: JSON.stringify({
+          model: settings.chatModel || options.model || DEFAULT_CHAT_MODEL,
+          messages,
+          temperature: options.temperature ?? 0.7,
+          max_tokens: options.maxTokens ?? 1500,
+          ...(options.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+          // Include a user field with timestamp to prevent response caching
+          user: `user-${cacheBuster}`
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(`Local LLM error: ${response.status} ${response.statusText}. ${errorData.error?.message || ''}`);
+      }
+
+      const data: OpenAIResponse = await response.json();
+      const responseText = data.choices[0]?.message?.content;
+
+      if (!responseText) {
+        throw new Error('No response from OpenAI');
+      }
+
+      // Ollama and llama.cpp report usage too, but not every compatible server does
+      return { content: responseText, usage: completionUsage(messages, responseText, data.usage) };
+    },
+
+    async embed(text) {
+      // Embeddings are stored in vector(1536) columns, so OpenAI model names are no use here
+      if (!settings.embeddingModel) {
+        throw new Error(`No local embedding model is configured. Set VITE_LOCAL_EMBEDDING_MODEL to a model that returns ${EMBEDDING_DIMENSIONS}-dimension vectors.`);
+      }
+
+      const response = await fetch(`${settings.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify({
+          model: settings.embeddingModel,
+          input: text,
+          encoding_format: 'float'
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Local LLM error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const embedding: number[] | undefined = data.data?.[0]?.embedding;
+      if (!embedding || embedding.length !== EMBEDDING_DIMENSIONS) {
+        throw new Error(
+          `Local embedding model "${settings.embeddingModel}" returned ${embedding?.length ?? 0}-dimension vectors, but embeddings are stored as ${EMBEDDING_DIMENSIONS} dimensions. Use a model that returns ${EMBEDDING_DIMENSIONS}, or the fake provider for offline work.`
+        );
+      }
+      return embedding;
+    },
+
+    async transcribe(file, language) {
+      // Whisper-compatible servers (e.g. faster-whisper-server) expose the same route
+      const form = new FormData();
+      form.append('file', file, file.name);
+      form.append('model', settings.transcriptionModel || 'whisper-1');
+      if (language) {
+        form.append('language', language);
+      }
+
+      const response = await fetch(`${settings.baseUrl}/audio/transcriptions`, {
+        method: 'POST',
+        headers: settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {},
+        body: form,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Local LLM error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return { text: data.text, language: data.language || language, duration: data.duration };
+    }
+  };
+}
+
+/**
+ * Local OpenAI-compatible server, e.g. Ollama (`http://localhost:11434/v1`)
+ * or llama.cpp's `llama-server` (`http://localhost:8080/v1`).
+ */
+export function createLocalProvider(options: { baseUrl?: string; chatModel?: string; embeddingModel?: string; transcriptionModel?: string; apiKey?: string } = {}): LLMProvider {
+  return createOpenAICompatibleProvider({
+    baseUrl: (options.baseUrl || 'http://localhost:11434/v1').replace(/\/$/, ''),
+    apiKey: options.apiKey,
+    chatModel: options.chatModel || 'llama3.1',
+    embeddingModel: options.embeddingModel,
+    transcriptionModel: options.transcriptionModel
+  });
+}
+
+/**
+ * Simple 32-bit FNV-1a hash, used to derive stable fake output from input text
+ */
+function hashString(text: string, seed = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic provider for offline development and tests.
+ * The same messages always produce the same reply and the same text always
+ * produces the same unit-length embedding.
+ */
+export function createFakeProvider(
+  respond?: (messages: OpenAIMessage[], options: LLMChatOptions) => string
+): LLMProvider {
+  return {
+    name: 'fake',
+
+    isConfigured() {
+      return true;
+    },
+
+    async chat(messages, options = {}) {
+      if (respond) {
+        return respond(messages, options);
+      }
+
+      const lastUserMessage = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+      const digest = hashString(messages.map(m => m.content).join('\n')).toString(16);
+
+      if (options.jsonMode) {
+        return JSON.stringify({ fake: true, digest });
+      }
+
+      return `[fake:${digest}] ${lastUserMessage.slice(0, 200)}`;
+    },
+
+    async complete(messages, options = {}) {
+      const content = await this.chat(messages, options);
+      return { content, usage: completionUsage(messages, content) };
+    },
+
+    async embed(text) {
+      let state = hashString(text) || 1;
+      const vector = Array.from({ length: EMBEDDING_DIMENSIONS }, () => {
+        // xorshift32 keeps the sequence stable for a given seed
+        state ^= state << 13;
+        state ^= state >>> 17;
+        state ^= state << 5;
+        return ((state >>> 0) / 0xffffffff) * 2 - 1;
+      });
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map(value => value / norm);
+    },
+
+    async transcribe(file, language) {
+      return {
+        text: `[fake transcript:${hashString(`${file.name}:${file.size}`).toString(16)}] ${file.name}`,
+        language: language || 'en',
+        duration: Math.floor(file.size / (1024 * 50))
+      };
+    }
+  };
+}
+
+/**
+ * Build the provider selected by VITE_LLM_PROVIDER (defaults to the AI gateway)
+ */
+export function createProviderFromEnv(): LLMProvider {
+  const env = import.meta.env;
+  const providerName = (env.VITE_LLM_PROVIDER || 'gateway') as LLMProviderName;
+
+  switch (providerName) {
+    case 'local':
+      return createLocalProvider({
+        baseUrl: env.VITE_LOCAL_LLM_BASE_URL,
+        chatModel: env.VITE_LOCAL_LLM_MODEL,
+        embeddingModel: env.VITE_LOCAL_EMBEDDING_MODEL,
+        transcriptionModel: env.VITE_LOCAL_TRANSCRIPTION_MODEL,
+        apiKey: env.VITE_LOCAL_LLM_API_KEY
+      });
+    case 'fake':
+      return createFakeProvider();
+    case 'gateway':
+      return createGatewayProvider();
+    default:
+      console.warn(`Unknown LLM provider "${providerName}", falling back to the AI gateway`);
+      return createGatewayProvider();
+  }
+}
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Get the provider every AI service should use
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv();
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the active provider (e.g. with a fake in tests). Pass null to re-read the environment.
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
@@ -1,6 +1,6 @@
 // Objection Handler AI Service
 
-import { makeOpenAIRequest, parseOpenAIJsonResponse } from './config';
+import { makeOpenAIJsonRequest } from './config';
 import { ObjectionSuggestion } from './types';
 
 export interface ObjectionHandlerRequest {
@@ -79,7 +79,7 @@ If there's not enough context from the deal activities or description, please in
     console.log('User message:', userMessage);
     console.log('System prompt:', systemPrompt);
     // Make the API request
-    const response = await makeOpenAIRequest([
+    const result = await makeOpenAIJsonRequest<ObjectionHandlerResponse>([
       { role: 'system', content: systemPrompt },
       { role: 'user', content: userMessage }
     ], {
@@ -87,9 +87,6 @@ If there's not enough context from the deal activities or description, please in
       maxTokens: 2000
     });
 
-    // Parse the response
-    const result = parseOpenAIJsonResponse<ObjectionHandlerResponse>(response);
-
     return {
       suggestions: result.suggestions || [],
       reasoning: result.reasoning || 'No reasoning provided',
@@ -1,7 +1,7 @@
 // Customer Persona Builder AI Service
 
 import type { CustomerPersona } from './types';
-import { makeOpenAIRequest, parseOpenAIJsonResponse } from './config';
+import { makeOpenAIJsonRequest } from './config';
 
 /**
  * Interface for lead persona generation request
@@ -73,10 +73,8 @@ Base your analysis on the contact information provided and common behavioral pat
       }
     ];
 
-    const responseText = await makeOpenAIRequest(messages);
-    
-    // Parse the JSON response
-    const persona = parseOpenAIJsonResponse<CustomerPersona>(responseText);
+    // Request a JSON object and parse it
+    const persona = await makeOpenAIJsonRequest<CustomerPersona>(messages);
     
     return persona;
 
@@ -189,10 +187,8 @@ Base your analysis on the interaction history and behavioral patterns observed.`
       }
     ];
 
-    const responseText = await makeOpenAIRequest(messages);
-    
-    // Parse the JSON response
-    const persona = parseOpenAIJsonResponse<CustomerPersona>(responseText);
+    // Request a JSON object and parse it
+    const persona = await makeOpenAIJsonRequest<CustomerPersona>(messages);
     
     return persona;
 
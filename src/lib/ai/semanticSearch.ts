@@ -1,11 +1,5 @@
-import OpenAI from 'openai';
 import { supabase } from '@/integrations/supabase/client';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true // Note: In production, this should be handled server-side
-});
+import { generateTextEmbedding } from './config';
 
 export interface SemanticSearchOptions {
   query: string;
@@ -43,22 +37,19 @@ export interface SemanticSearchResponse {
  */
 export class SemanticSearchService {
   /**
-   * Generates an embedding for the search query using OpenAI API
+   * Generates an embedding for the search query through the active LLM provider
    */
   async generateQueryEmbedding(query: string): Promise<number[]> {
     console.log(`🔍 [Semantic Search] STEP 1: Generating query embedding for: "${query}"`);
     const startTime = performance.now();
     
     try {
-      const response = await openai.embeddings.create({
-        model: "text-embedding-3-small",
-        input: query
-      });
+      const embedding = await generateTextEmbedding(query);
       
       const embedTime = (performance.now() - startTime).toFixed(2);
-      console.log(`✅ [Semantic Search] Embedding generated in ${embedTime}ms (dimensions: ${response.data[0].embedding.length})`);
+      console.log(`✅ [Semantic Search] Embedding generated in ${embedTime}ms (dimensions: ${embedding.length})`);
       
-      return response.data[0].embedding;
+      return embedding;
     } catch (error) {
       console.error('❌ [Semantic Search] Error generating query embedding:', error);
       throw error;
@@ -0,0 +1,121 @@
+// Tool Calling
+// Runs a conversation in which the model may call the CRM tools (or another registry, such
+// as the Agent's): each round the model either answers or asks for tools, whose results are
+// sent back for the next round.
+// Writes wait for the caller's confirm callback, so a UI can show the change first.
+
+import type {
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall
+} from 'openai/resources/chat/completions';
+import { createChatCompletion } from './aiGateway';
+import { DEFAULT_CHAT_MODEL, estimateTokens, type LLMUsage } from './llmProvider';
+import {
+  CRM_TOOLS,
+  crmToolDefinitions,
+  executeCRMTool,
+  type ConfirmCRMTool,
+  type CRMRecordRef,
+  type CRMTool,
+  type CRMToolContext,
+  type CRMToolResult
+} from './crmTools';
+
+export interface ToolCallStep {
+  toolName: string;
+  args: string;
+  result: CRMToolResult;
+}
+
+export interface ToolConversationOptions {
+  messages: ChatCompletionMessageParam[];
+  context: CRMToolContext;
+  confirm?: ConfirmCRMTool;
+  // Called when a tool starts and again when it has finished
+  onToolCall?: (toolName: string, result?: CRMToolResult) => void;
+  model?: string;
+  maxRounds?: number;
+  // The registry the model can call; the shared CRM tools by default
+  tools?: CRMTool[];
+}
+
+export interface ToolConversationResult {
+  content: string;
+  usage: LLMUsage;
+  steps: ToolCallStep[];
+  // Every record the tools returned, each once, for citations
+  records: CRMRecordRef[];
+}
+
+const DEFAULT_MAX_ROUNDS = 8;
+
+const addUsage = (total: LLMUsage, messages: ChatCompletionMessageParam[], reply: string, reported?: { prompt_tokens?: number; completion_tokens?: number } | null) => {
+  if (reported?.prompt_tokens !== undefined && reported?.completion_tokens !== undefined) {
+    total.promptTokens += reported.prompt_tokens;
+    total.completionTokens += reported.completion_tokens;
+  } else {
+    total.promptTokens += estimateTokens(messages.map(m => (typeof m.content === 'string' ? m.content : JSON.stringify(m.content ?? ''))).join('\n'));
+    total.completionTokens += estimateTokens(reply);
+    total.estimated = true;
+  }
+  total.totalTokens = total.promptTokens + total.completionTokens;
+};
+
+/**
+ * Let the model answer with the CRM tools available. Usage covers every round.
+ */
+export async function runToolConversation(options: ToolConversationOptions): Promise<ToolConversationResult> {
+  const messages = [...options.messages];
+  const maxRounds = options.maxRounds ?? DEFAULT_MAX_ROUNDS;
+  const registry = options.tools ?? CRM_TOOLS;
+  const tools = crmToolDefinitions(registry);
+  const usage: LLMUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false };
+  const steps: ToolCallStep[] = [];
+  const records = new Map<string, CRMRecordRef>();
+
+  for (let round = 0; round < maxRounds; round++) {
+    const completion = await createChatCompletion({
+      model: options.model || DEFAULT_CHAT_MODEL,
+      messages,
+      tools,
+      tool_choice: 'auto',
+      temperature: 0.3
+    });
+    const message = completion.choices[0]?.message;
+    if (!message) throw new Error('No response from OpenAI');
+
+    const toolCalls: ChatCompletionMessageToolCall[] = (message.tool_calls || []).filter(call => call.type === 'function');
+    addUsage(usage, messages, message.content || JSON.stringify(toolCalls), completion.usage);
+
+    if (toolCalls.length === 0) {
+      return { content: message.content || '', usage, steps, records: [...records.values()] };
+    }
+
+    messages.push({ role: 'assistant', content: message.content ?? null, tool_calls: toolCalls });
+
+    // One at a time: writes each wait for their own confirmation
+    for (const call of toolCalls) {
+      options.onToolCall?.(call.function.name);
+      const result = await executeCRMTool(call.function.name, call.function.arguments, options.context, options.confirm, registry);
+      options.onToolCall?.(call.function.name, result);
+
+      steps.push({ toolName: call.function.name, args: call.function.arguments, result });
+      result.records.forEach(record => records.set(`${record.type}:${record.id}`, record));
+      messages.push({
+        role: 'tool',
+        tool_call_id: call.id,
+        content: JSON.stringify(result.ok ? result.data : { error: result.error })
+      });
+    }
+  }
+
+  // Out of rounds: answer from what the tools returned so far
+  const completion = await createChatCompletion({
+    model: options.model || DEFAULT_CHAT_MODEL,
+    messages: [...messages, { role: 'system', content: 'Answer now from the tool results above without calling more tools. Say what is still unknown.' }],
+    temperature: 0.3
+  });
+  const content = completion.choices[0]?.message?.content || '';
+  addUsage(usage, messages, content, completion.usage);
+  return { content, usage, steps, records: [...records.values()] };
+}
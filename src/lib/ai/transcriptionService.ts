@@ -1,4 +1,5 @@
 import { makeOpenAIRequest, isOpenAIConfigured } from './config';
+import { getLLMProvider } from './llmProvider';
 import type { OpenAIMessage } from './types';
 
 export interface TranscriptionRequest {
@@ -32,28 +33,20 @@ export interface SummarizationResponse {
   confidence: number;
 }
 
-// Transcribe audio/video file using OpenAI Whisper API
+// Transcribe audio/video file using Whisper through the active LLM provider
 export async function transcribeAudio(request: TranscriptionRequest): Promise<TranscriptionResponse> {
   if (!isOpenAIConfigured()) {
     throw new Error('OpenAI API key not configured');
   }
 
   try {
-    // In a real implementation, this would use OpenAI's Whisper API
-    // For now, we'll simulate the transcription process
-    
-    // Simulate processing time based on file size
-    const processingTime = Math.min(request.audioFile.size / (1024 * 1024) * 1000, 10000);
-    await new Promise(resolve => setTimeout(resolve, processingTime));
-
-    // Generate a realistic mock transcript based on file name and type
-    const mockTranscript = generateMockTranscript(request.audioFile.name);
+    const result = await getLLMProvider().transcribe(request.audioFile, request.language);
 
     return {
       success: true,
-      transcript: mockTranscript,
-      language: request.language || 'en',
-      duration: Math.floor(request.audioFile.size / (1024 * 50)), // Rough estimate
+      transcript: result.text,
+      language: result.language || request.language || 'en',
+      duration: result.duration ?? Math.floor(request.audioFile.size / (1024 * 50)), // Rough estimate
       confidence: 0.95
     };
 
@@ -153,54 +146,6 @@ Return only valid JSON without any additional text or formatting.
   }
 }
 
-// Generate realistic mock transcript based on file name and context
-function generateMockTranscript(fileName: string): string {
-  const businessTopics = [
-    'quarterly business review',
-    'product development meeting',
-    'customer feedback session',
-    'sales strategy discussion',
-    'team planning meeting',
-    'project status update',
-    'client presentation',
-    'training session'
-  ];
-
-  const randomTopic = businessTopics[Math.floor(Math.random() * businessTopics.length)];
-
-  return `This is a simulated transcript for ${fileName}. In a production environment, this would be generated using OpenAI's Whisper API.
-
-[Meeting Start - ${new Date().toLocaleTimeString()}]
-
-Speaker 1: Good morning everyone, thank you for joining today's ${randomTopic}. Let's start by reviewing our agenda and key objectives for this session.
-
-Speaker 2: Absolutely. I've prepared the quarterly metrics and we're seeing some interesting trends in customer engagement. Our conversion rates have improved by 15% compared to last quarter.
-
-Speaker 1: That's excellent news. Can you walk us through the specific factors that contributed to this improvement?
-
-Speaker 2: Certainly. We implemented the new customer onboarding process, improved our follow-up sequences, and the sales team has been more proactive with lead qualification. The AI-powered insights have also helped us identify high-value prospects more effectively.
-
-Speaker 3: I'd like to add that the customer feedback has been overwhelmingly positive. We're seeing higher satisfaction scores and reduced churn rates. The new features we launched last month are being well-received.
-
-Speaker 1: Great to hear. What are our priorities for the next quarter?
-
-Speaker 2: We need to focus on scaling our successful strategies, expanding into new market segments, and continuing to optimize our sales processes. I recommend we allocate additional resources to the high-performing channels.
-
-Speaker 3: I agree. We should also consider investing in additional training for the team and exploring new technology solutions that could further improve our efficiency.
-
-Speaker 1: Excellent points. Let's schedule follow-up meetings to dive deeper into these initiatives. I'll send out action items and next steps by end of day.
-
-[Meeting End - ${new Date(Date.now() + 30 * 60 * 1000).toLocaleTimeString()}]
-
-Key decisions made:
-- Approved budget allocation for high-performing channels
-- Scheduled team training sessions for next month
-- Committed to quarterly review of new technology solutions
-- Established monthly check-ins for progress tracking
-
-This transcript demonstrates typical business meeting content with strategic discussions, performance metrics, and actionable next steps.`;
-}
-
 // Extract audio from video file (for video files)
 export async function extractAudioFromVideo(videoFile: File): Promise<File> {
   // In a real implementation, this would use FFmpeg or similar to extract audio
@@ -235,11 +180,11 @@ export function validateTranscriptionFile(file: File): { valid: boolean; error?:
     };
   }
 
-  // Check file size (max 100MB for transcription)
-  if (file.size > 100 * 1024 * 1024) {
+  // Check file size (Whisper accepts at most 25MB per upload)
+  if (file.size > 25 * 1024 * 1024) {
     return {
       valid: false,
-      error: 'File too large. Please upload a file smaller than 100MB.'
+      error: 'File too large. Please upload a file smaller than 25MB.'
     };
   }
 
@@ -40,7 +40,6 @@ export interface WinLossAnalysis {
 }
 
 export interface OpenAIConfig {
-  apiKey: string;
   model: string;
   temperature: number;
   maxTokens: number;
@@ -57,4 +56,9 @@ export interface OpenAIResponse {
       content: string;
     };
   }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
 } 
\ No newline at end of file
@@ -1,21 +1,24 @@
 // Win/Loss Analyzer AI Service
 
 import type { WinLossAnalysis } from './types';
-import { makeOpenAIRequest, parseOpenAIJsonResponse } from './config';
+import { makeOpenAIJsonRequest } from './config';
+import { getPipelineForDeal, resolveDealOutcome, type Pipeline } from '@/lib/pipelines';
 
 /**
- * Generate win/loss analysis from deals data
+ * Generate win/loss analysis from deals data. Deals without a recorded outcome take
+ * the outcome of their pipeline stage (won/lost stages), otherwise they are in progress.
  */
-export async function generateWinLossAnalysis(deals: any[]): Promise<WinLossAnalysis> {
+export async function generateWinLossAnalysis(deals: any[], pipelines: Pipeline[] = []): Promise<WinLossAnalysis> {
   try {
     console.log("Analyzing win/loss patterns for deals:", deals);
 
     const dealsSummary = deals.map(deal => ({
       title: deal.title,
       value: deal.value,
+      pipeline: getPipelineForDeal(pipelines, deal)?.name,
       stage: deal.stage,
       probability: deal.probability,
-      outcome: deal.outcome || (deal.stage === 'Closing' ? 'won' : (deal.probability < 20 ? 'lost' : 'in_progress'))
+      outcome: resolveDealOutcome(pipelines, deal)
     }));
 
     const prompt = `You are an expert sales analyst. Analyze the following deals data to identify win/loss patterns:
@@ -46,10 +49,8 @@ Focus on identifying patterns, trends, and actionable insights that can improve
       }
     ];
 
-    const responseText = await makeOpenAIRequest(messages);
-    
-    // Parse the JSON response
-    const analysis = parseOpenAIJsonResponse<WinLossAnalysis>(responseText);
+    // Request a JSON object and parse it
+    const analysis = await makeOpenAIJsonRequest<WinLossAnalysis>(messages);
     
     return analysis;
 
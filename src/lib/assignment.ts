@@ -0,0 +1,266 @@
+// Lead Assignment Rules
+// Matches new leads against their team's rules, in priority order, and hands the first
+// matching rule to the database, which checks it, picks the rep and logs the assignment.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { ownedByFilter } from '@/lib/teams';
+
+export type AssignmentStrategy = 'fixed' | 'round_robin' | 'least_loaded';
+
+export type AssignmentOperator = 'equals' | 'not_equals' | 'in' | 'contains' | 'gte' | 'lte';
+
+export type AssignmentField = 'source' | 'status' | 'score' | 'country' | 'company_size' | 'employees' | 'email_domain';
+
+export interface AssignmentCondition {
+  field: AssignmentField;
+  operator: AssignmentOperator;
+  value: string;
+}
+
+export interface AssignmentRule {
+  id: string;
+  team_id: string;
+  name: string;
+  priority: number;
+  is_active: boolean;
+  conditions: AssignmentCondition[];
+  strategy: AssignmentStrategy;
+  assignee_ids: string[];
+}
+
+export type AssignmentRuleInput = Omit<AssignmentRule, 'id'> & { id?: string };
+
+export interface LeadAssignmentResult {
+  leadId: string;
+  ruleId: string | null;
+  assignedTo: string | null;
+}
+
+export type LeadAssignmentLogEntry = Tables<'lead_assignments'> & {
+  leadName: string;
+  ruleName: string | null;
+};
+
+// Values a rule can test. Country and size come from the lead's company.
+export type LeadFacts = Record<AssignmentField, string | number | null>;
+
+export const ASSIGNMENT_FIELDS: { value: AssignmentField; label: string; numeric: boolean }[] = [
+  { value: 'source', label: 'Source', numeric: false },
+  { value: 'status', label: 'Status', numeric: false },
+  { value: 'score', label: 'Score', numeric: true },
+  { value: 'country', label: 'Country', numeric: false },
+  { value: 'company_size', label: 'Company size', numeric: false },
+  { value: 'employees', label: 'Employees', numeric: true },
+  { value: 'email_domain', label: 'Email domain', numeric: false }
+];
+
+export const ASSIGNMENT_OPERATORS: { value: AssignmentOperator; label: string }[] = [
+  { value: 'equals', label: 'is' },
+  { value: 'not_equals', label: 'is not' },
+  { value: 'in', label: 'is one of' },
+  { value: 'contains', label: 'contains' },
+  { value: 'gte', label: 'at least' },
+  { value: 'lte', label: 'at most' }
+];
+
+export const ASSIGNMENT_STRATEGIES: { value: AssignmentStrategy; label: string; description: string }[] = [
+  { value: 'fixed', label: 'Fixed owner', description: 'Always the first selected rep' },
+  { value: 'round_robin', label: 'Round-robin', description: 'Each selected rep in turn' },
+  { value: 'least_loaded', label: 'Least loaded', description: 'The selected rep with the fewest open leads' }
+];
+
+type LeadRow = Pick<Tables<'leads'>, 'id' | 'source' | 'status' | 'score' | 'email' | 'company' | 'company_id'>;
+type CompanyRow = Pick<Tables<'companies'>, 'id' | 'name' | 'country' | 'size' | 'employees'>;
+
+const normalize = (value: string | number | null | undefined) => String(value ?? '').trim().toLowerCase();
+
+function toRule(row: Tables<'assignment_rules'>): AssignmentRule {
+  return {
+    id: row.id,
+    team_id: row.team_id,
+    name: row.name,
+    priority: row.priority,
+    is_active: row.is_active,
+    conditions: Array.isArray(row.conditions) ? (row.conditions as unknown as AssignmentCondition[]) : [],
+    strategy: row.strategy as AssignmentStrategy,
+    assignee_ids: row.assignee_ids || []
+  };
+}
+
+/**
+ * The facts rules test for a lead, using its linked company (or one with the same name)
+ */
+export function getLeadFacts(lead: LeadRow, company?: CompanyRow | null): LeadFacts {
+  return {
+    source: lead.source,
+    status: lead.status,
+    score: lead.score,
+    country: company?.country ?? null,
+    company_size: company?.size ?? null,
+    employees: company?.employees ?? null,
+    email_domain: lead.email?.includes('@') ? lead.email.split('@').pop()!.toLowerCase() : null
+  };
+}
+
+/**
+ * Whether one condition holds. Text compares ignore case; `in` takes a comma-separated list.
+ * assign_lead checks the chosen rule the same way in assignment_condition_matches().
+ */
+export function conditionMatches(condition: AssignmentCondition, facts: LeadFacts): boolean {
+  const actual = facts[condition.field];
+  const field = ASSIGNMENT_FIELDS.find(f => f.value === condition.field);
+
+  if (condition.operator === 'gte' || condition.operator === 'lte' || (field?.numeric && condition.operator !== 'in')) {
+    if (actual === null || actual === '' || condition.value.trim() === '') return false;
+    const a = Number(actual);
+    const b = Number(condition.value);
+    if (Number.isNaN(a) || Number.isNaN(b)) return false;
+    switch (condition.operator) {
+      case 'gte': return a >= b;
+      case 'lte': return a <= b;
+      case 'not_equals': return a !== b;
+      case 'contains': return String(a).includes(String(b));
+      default: return a === b;
+    }
+  }
+
+  const value = normalize(actual);
+  const expected = normalize(condition.value);
+  switch (condition.operator) {
+    case 'equals': return value === expected;
+    case 'not_equals': return value !== expected;
+    case 'in': return expected.split(',').map(item => item.trim()).filter(Boolean).includes(value);
+    case 'contains': return expected !== '' && value.includes(expected);
+    default: return false;
+  }
+}
+
+/**
+ * The first active rule, by priority, whose conditions all hold. A rule without
+ * conditions matches every lead.
+ */
+export function findMatchingRule(rules: AssignmentRule[], facts: LeadFacts): AssignmentRule | undefined {
+  return [...rules]
+    .filter(rule => rule.is_active && rule.assignee_ids.length > 0)
+    .sort((a, b) => a.priority - b.priority)
+    .find(rule => rule.conditions.every(condition => conditionMatches(condition, facts)));
+}
+
+/**
+ * Rules of every team the user belongs to
+ */
+export async function fetchAssignmentRules(teamId?: string, client: typeof supabase = supabase): Promise<AssignmentRule[]> {
+  let query = client
+    .from('assignment_rules')
+    .select('*')
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (teamId) {
+    query = query.eq('team_id', teamId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(toRule);
+}
+
+export async function saveAssignmentRule(userId: string, rule: AssignmentRuleInput): Promise<void> {
+  const values = {
+    team_id: rule.team_id,
+    name: rule.name.trim(),
+    priority: rule.priority,
+    is_active: rule.is_active,
+    conditions: rule.conditions as unknown as Json,
+    strategy: rule.strategy,
+    assignee_ids: rule.assignee_ids
+  };
+
+  const { error } = rule.id
+    ? await supabase.from('assignment_rules').update(values).eq('id', rule.id)
+    : await supabase.from('assignment_rules').insert({ ...values, user_id: userId });
+
+  if (error) throw error;
+}
+
+export async function deleteAssignmentRule(ruleId: string): Promise<void> {
+  const { error } = await supabase.from('assignment_rules').delete().eq('id', ruleId);
+  if (error) throw error;
+}
+
+/**
+ * Run the assignment rules for newly created leads. Assignment never blocks lead
+ * creation: failures are logged and the lead is left unassigned.
+ */
+export async function runLeadAssignment(
+  userId: string,
+  leadIds: string[],
+  client: typeof supabase = supabase
+): Promise<LeadAssignmentResult[]> {
+  if (leadIds.length === 0) return [];
+
+  try {
+    const rules = await fetchAssignmentRules(undefined, client);
+    if (!rules.some(rule => rule.is_active)) {
+      return leadIds.map(leadId => ({ leadId, ruleId: null, assignedTo: null }));
+    }
+
+    const { data: leads, error: leadsError } = await client
+      .from('leads')
+      .select('id, source, status, score, email, company, company_id')
+      .in('id', leadIds);
+    if (leadsError) throw leadsError;
+
+    const { data: companies, error: companiesError } = await client
+      .from('companies')
+      .select('id, name, country, size, employees')
+      .or(ownedByFilter(userId));
+    if (companiesError) throw companiesError;
+
+    const results: LeadAssignmentResult[] = [];
+    for (const lead of leads || []) {
+      const company = companies?.find(c => c.id === lead.company_id)
+        || companies?.find(c => normalize(c.name) !== '' && normalize(c.name) === normalize(lead.company));
+      const rule = findMatchingRule(rules, getLeadFacts(lead, company));
+
+      if (!rule) {
+        results.push({ leadId: lead.id, ruleId: null, assignedTo: null });
+        continue;
+      }
+
+      const { data: assignedTo, error } = await client.rpc('assign_lead', { p_lead_id: lead.id, p_rule_id: rule.id });
+      if (error) {
+        console.error(`Error assigning lead ${lead.id}:`, error);
+        results.push({ leadId: lead.id, ruleId: rule.id, assignedTo: null });
+      } else {
+        results.push({ leadId: lead.id, ruleId: rule.id, assignedTo: assignedTo ?? null });
+      }
+    }
+
+    return results;
+  } catch (error) {
+    console.error('Error running lead assignment rules:', error);
+    return leadIds.map(leadId => ({ leadId, ruleId: null, assignedTo: null }));
+  }
+}
+
+/**
+ * Recent assignments for a team, newest first
+ */
+export async function fetchAssignmentLog(teamId: string, limit = 50): Promise<LeadAssignmentLogEntry[]> {
+  const { data, error } = await supabase
+    .from('lead_assignments')
+    .select('*, leads(name), assignment_rules(name)')
+    .eq('team_id', teamId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []).map(({ leads, assignment_rules, ...entry }) => ({
+    ...entry,
+    leadName: leads?.name || 'Deleted lead',
+    ruleName: assignment_rules?.name || null
+  }));
+}
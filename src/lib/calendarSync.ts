@@ -0,0 +1,107 @@
+// Calendar Sync
+// Meetings, calls and tasks leave the CRM through a per-user ICS subscription feed
+// (calendar-feed edge function) and move both ways with a CalDAV calendar set up as a
+// 'caldav' integration (calendar-sync edge function). ICS files can also be imported.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export interface CalendarSyncResult {
+  status: 'synced';
+  imported: number;
+  exported: number;
+  updated_in_crm: number;
+  updated_in_calendar: number;
+  deleted_in_crm: number;
+  deleted_in_calendar: number;
+  conflicts: number;
+  failed: number;
+  last_error: string | null;
+}
+
+export interface IcsImportResult {
+  status: 'imported';
+  imported: number;
+  updated: number;
+  skipped: number;
+}
+
+export type CalendarIntegration = Tables<'integrations'>;
+
+// The query keys of everything that shows calendar activities
+export const CALENDAR_QUERY_KEYS = [['activities'], ['calendar-activities'], ['calendar-events']];
+
+async function invokeCalendarSync<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('calendar-sync', { body });
+
+  if (error) {
+    // FunctionsHttpError carries the function's JSON error body in `context`
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(`Calendar sync error: ${details?.error || error.message}`);
+  }
+
+  return data as T;
+}
+
+/**
+ * Two-way sync with a CalDAV integration
+ */
+export function syncCalendar(integrationId: string): Promise<CalendarSyncResult> {
+  return invokeCalendarSync<CalendarSyncResult>({ action: 'sync', integration_id: integrationId });
+}
+
+/**
+ * Add the events and to-dos in an ICS file as activities. Ones imported before (same
+ * UID) are updated instead.
+ */
+export async function importIcsFile(file: File): Promise<IcsImportResult> {
+  return invokeCalendarSync<IcsImportResult>({ action: 'import', ics: await file.text() });
+}
+
+export async function fetchCalendarIntegrations(userId: string): Promise<{ feed: CalendarIntegration | null; caldav: CalendarIntegration | null }> {
+  const { data, error } = await supabase
+    .from('integrations')
+    .select('*')
+    .eq('user_id', userId)
+    .in('type', ['ics_feed', 'caldav']);
+  if (error) throw error;
+  return {
+    feed: data.find(integration => integration.type === 'ics_feed') ?? null,
+    caldav: data.find(integration => integration.type === 'caldav') ?? null
+  };
+}
+
+const newFeedToken = () => `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, '');
+
+/**
+ * Turn the subscription feed on, with a new secret URL when asked (which stops the old
+ * one from working)
+ */
+export async function enableCalendarFeed(userId: string, existing: CalendarIntegration | null, newUrl = false): Promise<void> {
+  const config = existing?.config as { token?: string } | null;
+  const token = !newUrl && config?.token ? config.token : newFeedToken();
+
+  const { error } = existing
+    ? await supabase.from('integrations').update({ config: { token } as Json, is_active: true }).eq('id', existing.id)
+    : await supabase.from('integrations').insert({ user_id: userId, type: 'ics_feed', config: { token } as Json, is_active: true });
+  if (error) throw error;
+}
+
+export async function disableCalendarFeed(feed: CalendarIntegration): Promise<void> {
+  const { error } = await supabase.from('integrations').update({ is_active: false }).eq('id', feed.id);
+  if (error) throw error;
+}
+
+export function calendarFeedUrl(feed: CalendarIntegration): string | null {
+  const token = (feed.config as { token?: string } | null)?.token;
+  return token ? `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}` : null;
+}
+
+export function describeCalendarSync(result: CalendarSyncResult): string {
+  const toCrm = result.imported + result.updated_in_crm + result.deleted_in_crm;
+  const toCalendar = result.exported + result.updated_in_calendar + result.deleted_in_calendar;
+  const parts = [`${toCrm} change${toCrm === 1 ? '' : 's'} from the calendar, ${toCalendar} to it`];
+  if (result.conflicts) parts.push(`${result.conflicts} conflict${result.conflicts === 1 ? '' : 's'} resolved by keeping the latest edit`);
+  if (result.failed) parts.push(`${result.failed} failed: ${result.last_error}`);
+  return parts.join('; ') + '.';
+}
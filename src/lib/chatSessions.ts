@@ -0,0 +1,289 @@
+// ChatCRM Sessions
+// Conversations with the CRM assistant, stored per user so they follow the user across
+// browsers. Messages carry their token usage and, for answers, the CRM records they cited.
+// Sessions can be pinned, renamed, searched and shared read-only with teammates by link.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { CRMRecordType, LLMUsage } from '@/lib/ai';
+
+export type ChatSession = Tables<'chat_sessions'>;
+
+export type ChatCitationType = CRMRecordType;
+
+export const CHAT_CITATION_LABELS: Record<ChatCitationType, string> = {
+  deal: 'Deal',
+  contact: 'Contact',
+  lead: 'Lead',
+  company: 'Company'
+};
+
+export interface ChatCitation {
+  type: ChatCitationType;
+  id: string;
+  name: string;
+}
+
+export type ChatMessage = Omit<Tables<'chat_messages'>, 'citations' | 'search' | 'role'> & {
+  role: 'user' | 'assistant';
+  citations: ChatCitation[];
+};
+
+export interface ChatSearchResult {
+  messageId: string;
+  sessionId: string;
+  sessionTitle: string;
+  role: 'user' | 'assistant';
+  snippet: string;
+  createdAt: string;
+}
+
+export interface SharedChat {
+  session: ChatSession;
+  messages: ChatMessage[];
+  ownerName: string;
+}
+
+export const DEFAULT_CHAT_TITLE = 'New chat';
+
+const MAX_TITLE_LENGTH = 60;
+
+// Shorter names ("Al", "HR") match too much ordinary text to count as a citation
+const MIN_CITED_NAME_LENGTH = 3;
+
+const MESSAGE_COLUMNS = 'id, session_id, user_id, role, content, prompt_tokens, completion_tokens, tokens, citations, created_at';
+
+const toChatMessage = (row: Omit<Tables<'chat_messages'>, 'search'>): ChatMessage => ({
+  ...row,
+  role: row.role as ChatMessage['role'],
+  citations: Array.isArray(row.citations) ? (row.citations as unknown as ChatCitation[]) : []
+});
+
+/**
+ * A session title from the first question, cut at a word boundary
+ */
+export function titleFromMessage(message: string): string {
+  const text = message.replace(/\s+/g, ' ').trim();
+  if (text.length <= MAX_TITLE_LENGTH) return text || DEFAULT_CHAT_TITLE;
+  const cut = text.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+}
+
+/**
+ * The records the tools returned that an answer names, each once, in the order they appear in the answer
+ */
+export function findCitedRecords(answer: string, candidates: ChatCitation[]): ChatCitation[] {
+  const text = answer.toLowerCase();
+  const cited = new Map<string, { citation: ChatCitation; position: number }>();
+
+  for (const candidate of candidates) {
+    const name = candidate.name.trim().toLowerCase();
+    const key = `${candidate.type}:${candidate.id}`;
+    if (name.length < MIN_CITED_NAME_LENGTH || cited.has(key)) continue;
+
+    const position = text.indexOf(name);
+    if (position === -1) continue;
+    const before = text[position - 1];
+    const after = text[position + name.length];
+    const isWord = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+    if (isWord(before) || isWord(after)) continue;
+
+    cited.set(key, { citation: { ...candidate, name: candidate.name.trim() }, position });
+  }
+
+  return [...cited.values()].sort((a, b) => a.position - b.position).map(entry => entry.citation);
+}
+
+/**
+ * The user's sessions, pinned first, then most recently active
+ */
+export async function fetchChatSessions(userId: string): Promise<ChatSession[]> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('pinned', { ascending: false })
+    .order('last_message_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchChatMessages(sessionId: string): Promise<ChatMessage[]> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(toChatMessage);
+}
+
+export async function createChatSession(userId: string, title = DEFAULT_CHAT_TITLE): Promise<ChatSession> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .insert({ user_id: userId, title })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function renameChatSession(sessionId: string, title: string): Promise<void> {
+  const trimmed = title.trim();
+  if (!trimmed) throw new Error('Chat title cannot be empty');
+  const { error } = await supabase.from('chat_sessions').update({ title: trimmed }).eq('id', sessionId);
+  if (error) throw error;
+}
+
+export async function setChatSessionPinned(sessionId: string, pinned: boolean): Promise<void> {
+  const { error } = await supabase.from('chat_sessions').update({ pinned }).eq('id', sessionId);
+  if (error) throw error;
+}
+
+export async function deleteChatSession(sessionId: string): Promise<void> {
+  const { error } = await supabase.from('chat_sessions').delete().eq('id', sessionId);
+  if (error) throw error;
+}
+
+/**
+ * Save a message. Answers carry the usage of the request that produced them, which
+ * already includes the question, so questions are saved without usage.
+ */
+export async function addChatMessage(
+  userId: string,
+  sessionId: string,
+  message: { role: ChatMessage['role']; content: string; usage?: LLMUsage; citations?: ChatCitation[] }
+): Promise<ChatMessage> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .insert({
+      user_id: userId,
+      session_id: sessionId,
+      role: message.role,
+      content: message.content,
+      prompt_tokens: message.usage?.promptTokens ?? 0,
+      completion_tokens: message.usage?.completionTokens ?? 0,
+      tokens: message.usage?.totalTokens ?? 0,
+      citations: (message.citations || []) as unknown as Json
+    })
+    .select(MESSAGE_COLUMNS)
+    .single();
+  if (error) throw error;
+  return toChatMessage(data);
+}
+
+/**
+ * Start sharing a session with teammates and return its token. Sharing again keeps the link.
+ */
+export async function shareChatSession(session: ChatSession): Promise<string> {
+  if (session.share_token) return session.share_token;
+
+  const token = crypto.randomUUID();
+  const { error } = await supabase
+    .from('chat_sessions')
+    .update({ share_token: token, shared_at: new Date().toISOString() })
+    .eq('id', session.id);
+  if (error) throw error;
+  return token;
+}
+
+/**
+ * Stop sharing; the old link stops working
+ */
+export async function unshareChatSession(sessionId: string): Promise<void> {
+  const { error } = await supabase
+    .from('chat_sessions')
+    .update({ share_token: null, shared_at: null })
+    .eq('id', sessionId);
+  if (error) throw error;
+}
+
+export function chatShareUrl(token: string): string {
+  return `${window.location.origin}/chat/shared/${token}`;
+}
+
+/**
+ * A session shared by its owner or a teammate; null when the link is unknown or not shared with the user
+ */
+export async function fetchSharedChat(token: string): Promise<SharedChat | null> {
+  const { data, error } = await supabase.rpc('get_shared_chat_session', { p_token: token });
+  if (error) throw error;
+  if (!data) return null;
+
+  const shared = data as { session: ChatSession; messages: Omit<Tables<'chat_messages'>, 'search'>[]; owner_name: string | null };
+  return {
+    session: shared.session,
+    messages: shared.messages.map(toChatMessage),
+    ownerName: shared.owner_name || 'A teammate'
+  };
+}
+
+/**
+ * Full-text search over the user's past conversations; matched words in snippets are wrapped in **
+ */
+export async function searchChatMessages(query: string): Promise<ChatSearchResult[]> {
+  if (!query.trim()) return [];
+  const { data, error } = await supabase.rpc('search_chat_messages', { p_query: query.trim() });
+  if (error) throw error;
+  return (data || []).map(row => ({
+    messageId: row.message_id,
+    sessionId: row.session_id,
+    sessionTitle: row.session_title,
+    role: row.role as ChatSearchResult['role'],
+    snippet: row.snippet,
+    createdAt: row.created_at
+  }));
+}
+
+interface LocalChatSession {
+  title: string;
+  created_at: string;
+  messages: { role: 'user' | 'assistant'; content: string; timestamp: string; tokens?: number }[];
+}
+
+/**
+ * Move conversations saved in this browser by earlier versions into the user's account.
+ * Returns how many sessions were moved.
+ */
+export async function importLocalChatSessions(userId: string): Promise<number> {
+  const storageKey = `chat-sessions-${userId}`;
+  const stored = localStorage.getItem(storageKey);
+  if (!stored) return 0;
+
+  let sessions: LocalChatSession[];
+  try {
+    sessions = JSON.parse(stored);
+  } catch {
+    localStorage.removeItem(storageKey);
+    return 0;
+  }
+
+  let imported = 0;
+  for (const local of Array.isArray(sessions) ? sessions : []) {
+    if (!local.messages?.length) continue;
+
+    const { data: session, error } = await supabase
+      .from('chat_sessions')
+      .insert({ user_id: userId, title: local.title || DEFAULT_CHAT_TITLE, created_at: local.created_at })
+      .select('id')
+      .single();
+    if (error) throw error;
+
+    const { error: messageError } = await supabase.from('chat_messages').insert(
+      local.messages.map(message => ({
+        user_id: userId,
+        session_id: session.id,
+        role: message.role,
+        content: message.content,
+        tokens: message.tokens || 0,
+        created_at: message.timestamp
+      }))
+    );
+    if (messageError) throw messageError;
+    imported++;
+  }
+
+  localStorage.removeItem(storageKey);
+  return imported;
+}
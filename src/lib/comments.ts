@@ -0,0 +1,130 @@
+// Comments
+// Threaded discussion on deals and contacts. Replies hang one level below a top-level
+// comment, and teammates are @mentioned by name; the ids of everyone mentioned are
+// stored on the comment so the database can notify them.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { fetchTeamMembers, fetchTeams } from '@/lib/teams';
+
+export type Comment = Tables<'comments'> & { authorName: string };
+
+export interface CommentThread {
+  comment: Comment;
+  replies: Comment[];
+}
+
+export interface CommentTarget {
+  dealId?: string;
+  contactId?: string;
+}
+
+export interface Mentionable {
+  userId: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * The user and everyone who shares a team with them
+ */
+export async function fetchMentionableMembers(userId: string): Promise<Mentionable[]> {
+  const teams = await fetchTeams(userId);
+  const memberLists = await Promise.all(teams.map(team => fetchTeamMembers(team.id)));
+
+  const byUser = new Map<string, Mentionable>();
+  for (const member of memberLists.flat()) {
+    if (byUser.has(member.userId)) continue;
+    byUser.set(member.userId, { userId: member.userId, name: member.name, email: member.email });
+  }
+
+  return [...byUser.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+const isNameBoundary = (char: string | undefined) => !char || !/[\p{L}\p{N}]/u.test(char);
+
+/**
+ * Members written as `@Name` in the text. Longer names win, so `@Ann Lee` is not read as `@Ann`.
+ */
+export function findMentions(content: string, members: Mentionable[]): Mentionable[] {
+  const text = content.toLowerCase();
+  const taken: [number, number][] = [];
+  const mentioned: Mentionable[] = [];
+
+  for (const member of [...members].sort((a, b) => b.name.length - a.name.length)) {
+    const token = `@${member.name.toLowerCase()}`;
+    let from = text.indexOf(token);
+    while (from !== -1) {
+      const end = from + token.length;
+      const overlaps = taken.some(([start, stop]) => from < stop && end > start);
+      if (!overlaps && isNameBoundary(text[end])) {
+        taken.push([from, end]);
+        mentioned.push(member);
+        break;
+      }
+      from = text.indexOf(token, from + 1);
+    }
+  }
+
+  return mentioned;
+}
+
+/**
+ * Comments on a deal or contact, oldest thread first, with replies under their parent
+ */
+export async function fetchCommentThreads(target: CommentTarget): Promise<CommentThread[]> {
+  let query = supabase.from('comments').select('*').order('created_at', { ascending: true });
+  query = target.dealId ? query.eq('deal_id', target.dealId) : query.eq('contact_id', target.contactId!);
+
+  const { data: comments, error } = await query;
+  if (error) throw error;
+  if (!comments || comments.length === 0) return [];
+
+  const authorIds = [...new Set(comments.map(comment => comment.user_id))];
+  const { data: profiles, error: profileError } = await supabase
+    .from('profiles')
+    .select('id, first_name, last_name, email')
+    .in('id', authorIds);
+  if (profileError) throw profileError;
+
+  const named: Comment[] = comments.map(comment => {
+    const profile = profiles?.find(p => p.id === comment.user_id);
+    const name = [profile?.first_name, profile?.last_name].filter(Boolean).join(' ');
+    return { ...comment, authorName: name || profile?.email || 'Unknown' };
+  });
+
+  const threads = named
+    .filter(comment => !comment.parent_id)
+    .map(comment => ({ comment, replies: [] as Comment[] }));
+  for (const reply of named.filter(comment => comment.parent_id)) {
+    threads.find(thread => thread.comment.id === reply.parent_id)?.replies.push(reply);
+  }
+
+  return threads;
+}
+
+export async function postComment(
+  userId: string,
+  target: CommentTarget,
+  content: string,
+  members: Mentionable[],
+  parentId?: string
+): Promise<void> {
+  const text = content.trim();
+  if (!text) throw new Error('Comment cannot be empty');
+
+  const { error } = await supabase.from('comments').insert({
+    user_id: userId,
+    deal_id: target.dealId || null,
+    contact_id: target.dealId ? null : target.contactId || null,
+    parent_id: parentId || null,
+    content: text,
+    mentions: findMentions(text, members).map(member => member.userId)
+  });
+  if (error) throw error;
+}
+
+export async function deleteComment(commentId: string): Promise<void> {
+  const { error } = await supabase.from('comments').delete().eq('id', commentId);
+  if (error) throw error;
+}
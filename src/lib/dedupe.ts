@@ -0,0 +1,459 @@
+// Duplicate Detection & Merge
+// Finds likely duplicate contacts, leads and companies from normalised email, phone,
+// website domain, name similarity and vector embeddings, and merges a pair field by field.
+
+import { supabase } from '@/integrations/supabase/client';
+import { getCompanyDomain, normalizeEmail } from '@/lib/import/importEngine';
+import type { Json } from '@/integrations/supabase/types';
+import { searchSimilarContacts } from '@/lib/ai/contactEmbeddingManager';
+import { searchSimilarCompanies } from '@/lib/ai/companyEmbeddingManager';
+import { generateAndStoreEmbedding } from '@/lib/ai/embeddingService';
+
+export type DedupeEntity = 'contacts' | 'leads' | 'companies';
+export type MatchSignal = 'email' | 'phone' | 'domain' | 'name' | 'semantic';
+
+export type DedupeRecord = Record<string, unknown> & {
+  id: string;
+  name: string;
+  created_at: string | null;
+};
+
+export interface MatchReason {
+  signal: MatchSignal;
+  score: number;
+  detail: string;
+}
+
+export interface DuplicateCandidate {
+  key: string;
+  entity: DedupeEntity;
+  records: [DedupeRecord, DedupeRecord];
+  score: number;
+  reasons: MatchReason[];
+}
+
+export interface MergeField {
+  key: string;
+  label: string;
+}
+
+export interface MergeResult {
+  survivorId: string;
+  repointed: Record<string, number>;
+}
+
+interface DedupeEntityConfig {
+  label: string;
+  columns: string;
+  fields: MergeField[];
+  semantic: boolean;
+}
+
+const field = (key: string, label: string): MergeField => ({ key, label });
+
+export const DEDUPE_ENTITIES: Record<DedupeEntity, DedupeEntityConfig> = {
+  contacts: {
+    label: 'Contacts',
+    columns: 'id, name, email, phone, title, company, company_id, status, persona, score, last_contact, created_at',
+    fields: [
+      field('name', 'Name'),
+      field('email', 'Email'),
+      field('phone', 'Phone'),
+      field('title', 'Title'),
+      field('company', 'Company'),
+      field('status', 'Status'),
+      field('persona', 'Persona'),
+      field('score', 'Score')
+    ],
+    semantic: true
+  },
+  leads: {
+    label: 'Leads',
+    columns: 'id, name, email, phone, company, company_id, source, status, score, assigned_to, created_at',
+    fields: [
+      field('name', 'Name'),
+      field('email', 'Email'),
+      field('phone', 'Phone'),
+      field('company', 'Company'),
+      field('source', 'Source'),
+      field('status', 'Status'),
+      field('score', 'Score'),
+      field('assigned_to', 'Assigned To')
+    ],
+    semantic: false
+  },
+  companies: {
+    label: 'Companies',
+    columns: 'id, name, website, email, phone, industry, size, employees, revenue, address, city, state, country, postal_code, linkedin_url, description, notes, status, score, created_at',
+    fields: [
+      field('name', 'Name'),
+      field('website', 'Website'),
+      field('email', 'Email'),
+      field('phone', 'Phone'),
+      field('industry', 'Industry'),
+      field('size', 'Size'),
+      field('employees', 'Employees'),
+      field('revenue', 'Revenue'),
+      field('address', 'Address'),
+      field('city', 'City'),
+      field('state', 'State'),
+      field('country', 'Country'),
+      field('postal_code', 'Postal Code'),
+      field('linkedin_url', 'LinkedIn'),
+      field('description', 'Description'),
+      field('notes', 'Notes'),
+      field('status', 'Status'),
+      field('score', 'Score')
+    ],
+    semantic: true
+  }
+};
+
+// Columns copied from the duplicate when the surviving record has none
+const AUTO_FILL_COLUMNS: Partial<Record<DedupeEntity, string[]>> = {
+  contacts: ['company_id'],
+  leads: ['company_id']
+};
+
+// Fields with a stored embedding, regenerated when a merge changes them
+const EMBEDDED_FIELDS: Partial<Record<DedupeEntity, string[]>> = {
+  contacts: ['persona'],
+  companies: ['description', 'notes']
+};
+
+const SIGNAL_SCORES: Record<Exclude<MatchSignal, 'name' | 'semantic'>, number> = {
+  email: 0.95,
+  domain: 0.9,
+  phone: 0.8
+};
+
+const NAME_SIMILARITY_THRESHOLD = 0.9;
+const SEMANTIC_SIMILARITY_THRESHOLD = 0.9;
+// Embedding lookups cost one API call each, so only the newest records are checked
+const SEMANTIC_SCAN_LIMIT = 25;
+// Shared values such as a switchboard number say little about individual records
+const MAX_GROUP_SIZE = 25;
+
+const COMPANY_SUFFIXES = /\b(inc|incorporated|llc|ltd|limited|corp|corporation|co|company|gmbh|ag|sa|plc|bv|pty)\b/g;
+
+/**
+ * Digits of a phone number, compared on the last ten so country prefixes don't matter
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = phone?.replace(/\D/g, '') || '';
+  return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+/**
+ * Lowercase name without accents, punctuation or (for companies) legal suffixes
+ */
+export function normalizeName(name: string | null | undefined, entity: DedupeEntity): string {
+  let text = (name || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ');
+  if (entity === 'companies') {
+    text = text.replace(COMPANY_SUFFIXES, ' ');
+  }
+  return text.replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Similarity of two normalised names from 0 to 1. Word order is ignored so
+ * "Smith John" and "John Smith" match.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  const sorted = (text: string) => text.split(' ').sort().join(' ');
+  return Math.max(jaroWinkler(a, b), jaroWinkler(sorted(a), sorted(b)));
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/**
+ * Combined confidence of independent signals: 1 - Π(1 - score)
+ */
+function combineScores(reasons: MatchReason[]): number {
+  return 1 - reasons.reduce((remaining, reason) => remaining * (1 - reason.score), 1);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * The record that should survive a merge: the older one, or the more complete one on a tie
+ */
+export function pickSurvivor(entity: DedupeEntity, a: DedupeRecord, b: DedupeRecord): [DedupeRecord, DedupeRecord] {
+  const aTime = a.created_at ? new Date(a.created_at).getTime() : Infinity;
+  const bTime = b.created_at ? new Date(b.created_at).getTime() : Infinity;
+  if (aTime !== bTime) return aTime < bTime ? [a, b] : [b, a];
+
+  const filled = (record: DedupeRecord) =>
+    DEDUPE_ENTITIES[entity].fields.filter(f => !isEmpty(record[f.key])).length;
+  return filled(a) >= filled(b) ? [a, b] : [b, a];
+}
+
+/**
+ * Field values for the merged record: the survivor's, with blanks filled from the duplicate
+ */
+export function getDefaultMergeValues(entity: DedupeEntity, survivor: DedupeRecord, duplicate: DedupeRecord): Record<string, unknown> {
+  return Object.fromEntries(DEDUPE_ENTITIES[entity].fields.map(f => [
+    f.key,
+    isEmpty(survivor[f.key]) ? duplicate[f.key] ?? null : survivor[f.key]
+  ]));
+}
+
+async function fetchDismissedPairs(userId: string, entity: DedupeEntity): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('dedupe_dismissals')
+    .select('record_a, record_b')
+    .eq('user_id', userId)
+    .eq('entity_type', entity);
+
+  if (error) throw error;
+  return new Set((data || []).map(row => pairKey(row.record_a, row.record_b)));
+}
+
+async function findSemanticMatches(
+  userId: string,
+  entity: DedupeEntity,
+  record: DedupeRecord
+): Promise<Array<{ id: string; similarity: number }>> {
+  const text = (keys: string[]) => keys.map(key => record[key]).filter(value => !isEmpty(value)).join(' ');
+  const request = { similarityThreshold: SEMANTIC_SIMILARITY_THRESHOLD, maxResults: 5, userId };
+
+  if (entity === 'contacts') {
+    return searchSimilarContacts({ ...request, query: text(['name', 'title', 'company']) });
+  }
+  if (entity === 'companies') {
+    return searchSimilarCompanies({ ...request, query: text(['name', 'industry', 'website']) });
+  }
+  return [];
+}
+
+/**
+ * Scan every record of an entity for likely duplicates, best matches first.
+ * Pairs the user has dismissed are left out. With `semantic`, the newest records
+ * are also checked against the vector embeddings.
+ */
+export async function findDuplicateCandidates(
+  userId: string,
+  entity: DedupeEntity,
+  options: { semantic?: boolean; minScore?: number } = {}
+): Promise<DuplicateCandidate[]> {
+  const { semantic = false, minScore = 0.6 } = options;
+  const config = DEDUPE_ENTITIES[entity];
+
+  const [{ data, error }, dismissed] = await Promise.all([
+    supabase.from(entity).select(config.columns).eq('user_id', userId),
+    fetchDismissedPairs(userId, entity)
+  ]);
+
+  if (error) throw error;
+  const records = (data || []) as unknown as DedupeRecord[];
+  const byId = new Map(records.map(record => [record.id, record]));
+  const candidates = new Map<string, DuplicateCandidate>();
+
+  const addReason = (a: DedupeRecord, b: DedupeRecord, reason: MatchReason) => {
+    if (a.id === b.id) return;
+    const key = pairKey(a.id, b.id);
+    if (dismissed.has(key)) return;
+
+    const candidate = candidates.get(key) || { key, entity, records: pickSurvivor(entity, a, b), score: 0, reasons: [] };
+    const existing = candidate.reasons.find(r => r.signal === reason.signal);
+    if (existing) {
+      if (reason.score <= existing.score) return;
+      candidate.reasons = candidate.reasons.filter(r => r !== existing);
+    }
+    candidate.reasons.push(reason);
+    candidate.score = combineScores(candidate.reasons);
+    candidates.set(key, candidate);
+  };
+
+  // Exact matches on normalised values
+  const exactKeys: Array<[Exclude<MatchSignal, 'name' | 'semantic'>, (record: DedupeRecord) => string | null]> = [
+    ['email', record => normalizeEmail(record.email as string | null)],
+    ['phone', record => normalizePhone(record.phone as string | null)]
+  ];
+  if (entity === 'companies') {
+    exactKeys.push(['domain', record => getCompanyDomain(record.website as string | null, record.email as string | null)]);
+  }
+
+  exactKeys.forEach(([signal, keyOf]) => {
+    const groups = new Map<string, DedupeRecord[]>();
+    records.forEach(record => {
+      const key = keyOf(record);
+      if (key) groups.set(key, [...(groups.get(key) || []), record]);
+    });
+
+    groups.forEach((group, value) => {
+      if (group.length < 2 || group.length > MAX_GROUP_SIZE) return;
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          addReason(group[i], group[j], { signal, score: SIGNAL_SCORES[signal], detail: `Same ${signal}: ${value}` });
+        }
+      }
+    });
+  });
+
+  // Similar names, compared within buckets of shared word initials to avoid comparing every pair
+  const names = new Map(records.map(record => [record.id, normalizeName(record.name, entity)]));
+  const buckets = new Map<string, DedupeRecord[]>();
+  records.forEach(record => {
+    const initials = new Set((names.get(record.id) || '').split(' ').filter(Boolean).map(word => word[0]));
+    initials.forEach(initial => buckets.set(initial, [...(buckets.get(initial) || []), record]));
+  });
+
+  const compared = new Set<string>();
+  buckets.forEach(bucket => {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const key = pairKey(bucket[i].id, bucket[j].id);
+        if (compared.has(key)) continue;
+        compared.add(key);
+
+        const similarity = nameSimilarity(names.get(bucket[i].id)!, names.get(bucket[j].id)!);
+        if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+          // A name alone is never conclusive, so it tops out below an email match
+          addReason(bucket[i], bucket[j], {
+            signal: 'name',
+            score: Math.round(similarity * 0.75 * 100) / 100,
+            detail: similarity === 1 ? 'Same name' : `Similar names (${Math.round(similarity * 100)}%)`
+          });
+        }
+      }
+    }
+  });
+
+  if (semantic && config.semantic) {
+    const newest = records
+      .slice()
+      .sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''))
+      .slice(0, SEMANTIC_SCAN_LIMIT);
+
+    for (const record of newest) {
+      try {
+        const matches = await findSemanticMatches(userId, entity, record);
+        matches.forEach(match => {
+          const other = byId.get(match.id);
+          if (other) {
+            addReason(record, other, {
+              signal: 'semantic',
+              score: Math.round(match.similarity * 0.7 * 100) / 100,
+              detail: `Similar profile (${Math.round(match.similarity * 100)}%)`
+            });
+          }
+        });
+      } catch (error) {
+        // Missing embeddings only weaken the scan; the other signals still apply
+        console.error('Semantic duplicate lookup failed:', error);
+      }
+    }
+  }
+
+  return Array.from(candidates.values())
+    .filter(candidate => candidate.score >= minScore)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Remember that a pair is not a duplicate so later scans skip it
+ */
+export async function dismissDuplicate(userId: string, entity: DedupeEntity, aId: string, bId: string): Promise<void> {
+  const [recordA, recordB] = aId < bId ? [aId, bId] : [bId, aId];
+  const { error } = await supabase
+    .from('dedupe_dismissals')
+    .upsert(
+      { user_id: userId, entity_type: entity, record_a: recordA, record_b: recordB },
+      { onConflict: 'user_id,entity_type,record_a,record_b', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+}
+
+/**
+ * Merge `duplicate` into `survivor`. The survivor takes the chosen field values first;
+ * merge_duplicate_record then re-points everything that referenced the duplicate, whoever
+ * created it, and deletes the duplicate in one transaction. If that fails the merge can
+ * simply be run again.
+ */
+export async function mergeRecords(
+  entity: DedupeEntity,
+  survivor: DedupeRecord,
+  duplicate: DedupeRecord,
+  values: Record<string, unknown>,
+  userId: string
+): Promise<MergeResult> {
+  if (survivor.id === duplicate.id) {
+    throw new Error('Cannot merge a record into itself');
+  }
+  const config = DEDUPE_ENTITIES[entity];
+
+  const updates: Record<string, unknown> = {};
+  config.fields.forEach(f => {
+    if (f.key in values && values[f.key] !== survivor[f.key]) updates[f.key] = values[f.key];
+  });
+  (AUTO_FILL_COLUMNS[entity] || []).forEach(column => {
+    if (isEmpty(survivor[column]) && !isEmpty(duplicate[column])) updates[column] = duplicate[column];
+  });
+
+  const { data: repointed, error } = await supabase.rpc('merge_duplicate_record', {
+    p_entity: entity,
+    p_survivor_id: survivor.id,
+    p_duplicate_id: duplicate.id,
+    p_updates: updates as Json
+  });
+
+  if (error) throw error;
+
+  // The merge dropped the kept record's embeddings of the fields it changed
+  await Promise.allSettled(
+    (EMBEDDED_FIELDS[entity] || [])
+      .filter(key => typeof updates[key] === 'string' && (updates[key] as string).trim())
+      .map(key => generateAndStoreEmbedding(entity, survivor.id, key, updates[key] as string, userId))
+  );
+
+  return { survivorId: survivor.id, repointed: (repointed || {}) as Record<string, number> };
+}
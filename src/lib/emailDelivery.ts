@@ -0,0 +1,120 @@
+// Email Delivery
+// Sends logged emails through the user's own SMTP server via the send-email edge
+// function, which also rewrites links and adds the open-tracking pixel. Users without
+// SMTP settings keep logging emails in the CRM without delivering them.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type DeliveryStatus = 'sending' | 'sent' | 'failed' | 'bounced';
+
+export interface DeliveryResult {
+  status: DeliveryStatus | 'not_configured';
+  message_id?: string;
+  error?: string;
+}
+
+// The password is write-only, so it is never part of what the app reads back
+export type SmtpSettings = Omit<Tables<'smtp_settings'>, 'password'>;
+
+export interface SmtpSettingsInput {
+  host: string;
+  port: number;
+  secure: boolean;
+  username: string;
+  // Left blank to keep the saved password
+  password: string;
+  from_email: string;
+  from_name: string;
+  track_opens: boolean;
+  track_clicks: boolean;
+}
+
+const SMTP_SETTINGS_COLUMNS = 'id, user_id, host, port, secure, username, from_email, from_name, track_opens, track_clicks, created_at, updated_at';
+
+export const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  sending: 'Sending',
+  sent: 'Delivered',
+  failed: 'Failed',
+  bounced: 'Bounced'
+};
+
+/**
+ * Deliver an email_tracking row. Failures and bounces are recorded on the row and
+ * returned rather than thrown; only a failure to reach the function throws.
+ */
+export async function deliverEmail(emailTrackingId: string, client: typeof supabase = supabase): Promise<DeliveryResult> {
+  const { data, error } = await client.functions.invoke('send-email', { body: { email_id: emailTrackingId } });
+
+  if (error) {
+    // FunctionsHttpError carries the function's JSON error body in `context`
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(`Email delivery error: ${details?.error || error.message}`);
+  }
+
+  return data as DeliveryResult;
+}
+
+/**
+ * Throw when a delivery didn't go out, for senders that treat that as a failed step
+ */
+export function assertDelivered(result: DeliveryResult): void {
+  if (result.status === 'failed' || result.status === 'bounced') {
+    throw new Error(`Email ${result.status === 'bounced' ? 'bounced' : 'delivery failed'}: ${result.error}`);
+  }
+}
+
+export async function fetchSmtpSettings(userId: string): Promise<SmtpSettings | null> {
+  const { data, error } = await supabase
+    .from('smtp_settings')
+    .select(SMTP_SETTINGS_COLUMNS)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as SmtpSettings | null;
+}
+
+export async function saveSmtpSettings(userId: string, input: SmtpSettingsInput): Promise<void> {
+  const { password, ...settings } = input;
+  const { error } = await supabase
+    .from('smtp_settings')
+    .upsert(
+      {
+        user_id: userId,
+        ...settings,
+        username: settings.username.trim() || null,
+        from_name: settings.from_name.trim() || null,
+        ...(password ? { password } : {})
+      },
+      { onConflict: 'user_id' }
+    );
+  if (error) throw error;
+}
+
+export async function deleteSmtpSettings(userId: string): Promise<void> {
+  const { error } = await supabase.from('smtp_settings').delete().eq('user_id', userId);
+  if (error) throw error;
+}
+
+/**
+ * Log and deliver a short test email to check the SMTP settings
+ */
+export async function sendTestEmail(userId: string, to: string): Promise<DeliveryResult> {
+  const { data, error } = await supabase
+    .from('email_tracking')
+    .insert({
+      user_id: userId,
+      email_id: `smtp_test_${Date.now()}`,
+      recipient_email: to,
+      subject: 'SMTP test email',
+      body: 'This is a test email sent to check your SMTP settings. Tracked link: https://example.com',
+      type: 'sent',
+      folder: 'sent',
+      sent_at: new Date().toISOString()
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  return deliverEmail(data.id);
+}
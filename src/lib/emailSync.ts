@@ -0,0 +1,87 @@
+// Inbox Sync
+// Pulls new messages from the user's IMAP mailbox through the imap-sync edge function,
+// which threads them, links them to contacts, leads and deals, and marks replies to
+// emails sent from the CRM. Also manages the IMAP settings.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export interface InboxSyncResult {
+  status: 'synced' | 'not_configured';
+  fetched?: number;
+  imported?: number;
+  linked?: number;
+  replies?: number;
+  bounces?: number;
+}
+
+// The password is write-only, so it is never part of what the app reads back
+export type ImapSettings = Omit<Tables<'imap_settings'>, 'password'>;
+
+export interface ImapSettingsInput {
+  host: string;
+  port: number;
+  secure: boolean;
+  username: string;
+  // Left blank to keep the saved password
+  password: string;
+  mailbox: string;
+}
+
+const IMAP_SETTINGS_COLUMNS = 'id, user_id, host, port, secure, username, mailbox, uid_validity, last_uid, last_synced_at, last_error, created_at, updated_at';
+
+/**
+ * Import new messages from the user's mailbox
+ */
+export async function syncInbox(): Promise<InboxSyncResult> {
+  const { data, error } = await supabase.functions.invoke('imap-sync', { body: {} });
+
+  if (error) {
+    // FunctionsHttpError carries the function's JSON error body in `context`
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(`Inbox sync error: ${details?.error || error.message}`);
+  }
+
+  return data as InboxSyncResult;
+}
+
+export async function fetchImapSettings(userId: string): Promise<ImapSettings | null> {
+  const { data, error } = await supabase
+    .from('imap_settings')
+    .select(IMAP_SETTINGS_COLUMNS)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as ImapSettings | null;
+}
+
+/**
+ * Save the IMAP settings. Pointing at another server, account or mailbox restarts the
+ * sync from the recent past, since UIDs only mean something within one mailbox.
+ */
+export async function saveImapSettings(userId: string, input: ImapSettingsInput, previous: ImapSettings | null): Promise<void> {
+  const { password, ...settings } = input;
+  const moved = !previous
+    || previous.host !== settings.host
+    || previous.username !== settings.username
+    || previous.mailbox !== settings.mailbox;
+
+  const { error } = await supabase
+    .from('imap_settings')
+    .upsert(
+      {
+        user_id: userId,
+        ...settings,
+        mailbox: settings.mailbox.trim() || 'INBOX',
+        ...(password ? { password } : {}),
+        ...(moved ? { uid_validity: null, last_uid: null } : {})
+      },
+      { onConflict: 'user_id' }
+    );
+  if (error) throw error;
+}
+
+export async function deleteImapSettings(userId: string): Promise<void> {
+  const { error } = await supabase.from('imap_settings').delete().eq('user_id', userId);
+  if (error) throw error;
+}
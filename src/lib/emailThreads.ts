@@ -0,0 +1,224 @@
+// Email Threads
+// Groups the emails exchanged with a contact, lead or deal into conversations. Messages
+// are threaded by their Message-ID / In-Reply-To / References headers (see imap-sync and
+// send-email); emails logged without headers fall back to grouping by subject. Replies
+// sent from a thread carry the headers so the recipient's mail client threads them too.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { assertDelivered, deliverEmail, type DeliveryResult } from '@/lib/emailDelivery';
+
+export type EmailAttachment = Pick<Tables<'files'>, 'id' | 'filename' | 'file_path' | 'file_size' | 'mime_type'>;
+
+export type ThreadEmail = Tables<'email_tracking'> & {
+  attachments: EmailAttachment[];
+};
+
+export interface EmailThread {
+  key: string;
+  subject: string;
+  // Oldest first
+  emails: ThreadEmail[];
+  lastActivityAt: string;
+}
+
+export interface ThreadScope {
+  contactId?: string;
+  leadId?: string;
+  dealId?: string;
+}
+
+interface RecordLinks {
+  contact_id: string | null;
+  lead_id: string | null;
+  deal_id: string | null;
+}
+
+const emailDate = (email: Tables<'email_tracking'>) => email.sent_at || email.created_at;
+
+/**
+ * The subject without reply and forward prefixes, for matching emails logged without headers
+ */
+export function normalizeSubject(subject: string | null): string {
+  return (subject || '').replace(/^(\s*(re|fw|fwd|aw|sv)\s*:\s*)+/i, '').trim().toLowerCase();
+}
+
+export function replySubject(subject: string | null): string {
+  const text = subject || '';
+  return /^\s*re\s*:/i.test(text) ? text : `Re: ${text}`;
+}
+
+/**
+ * Group emails into threads, most recently active first
+ */
+export function groupThreads(emails: ThreadEmail[]): EmailThread[] {
+  const sorted = [...emails].sort((a, b) => new Date(emailDate(a)).getTime() - new Date(emailDate(b)).getTime());
+  const threads = new Map<string, EmailThread>();
+  const keyByMessageId = new Map<string, string>();
+
+  const addTo = (key: string, email: ThreadEmail) => {
+    const thread = threads.get(key) ?? { key, subject: email.subject || '(no subject)', emails: [], lastActivityAt: emailDate(email) };
+    thread.emails.push(email);
+    thread.lastActivityAt = emailDate(email);
+    threads.set(key, thread);
+    if (email.message_id) keyByMessageId.set(email.message_id, key);
+  };
+
+  // Header-threaded emails first, so the subject fallback can join their threads
+  const withoutHeaders: ThreadEmail[] = [];
+  for (const email of sorted) {
+    const key = email.thread_id
+      || (email.in_reply_to && keyByMessageId.get(email.in_reply_to))
+      || email.message_id;
+    if (key) addTo(key, email);
+    else withoutHeaders.push(email);
+  }
+
+  for (const email of withoutHeaders) {
+    const subject = normalizeSubject(email.subject);
+    const match = [...threads.values()].find(thread => normalizeSubject(thread.subject) === subject);
+    addTo(match?.key ?? `subject:${subject}`, email);
+  }
+
+  return [...threads.values()]
+    .map(thread => ({ ...thread, emails: thread.emails.sort((a, b) => new Date(emailDate(a)).getTime() - new Date(emailDate(b)).getTime()) }))
+    .sort((a, b) => new Date(b.lastActivityAt).getTime() - new Date(a.lastActivityAt).getTime());
+}
+
+/**
+ * The emails exchanged with a contact, lead or deal, plus the rest of their threads
+ */
+export async function fetchEmailThreads(userId: string, scope: ThreadScope): Promise<EmailThread[]> {
+  const filters = [
+    scope.contactId && `contact_id.eq.${scope.contactId}`,
+    scope.leadId && `lead_id.eq.${scope.leadId}`,
+    scope.dealId && `deal_id.eq.${scope.dealId}`
+  ].filter(Boolean);
+  if (filters.length === 0) return [];
+
+  const { data: linked, error } = await supabase
+    .from('email_tracking')
+    .select('*')
+    .eq('user_id', userId)
+    .or(filters.join(','));
+  if (error) throw error;
+
+  const emails = new Map(linked.map(email => [email.id, email]));
+  const threadIds = [...new Set(linked.map(email => email.thread_id).filter(Boolean))];
+  if (threadIds.length > 0) {
+    const { data: rest, error: restError } = await supabase
+      .from('email_tracking')
+      .select('*')
+      .eq('user_id', userId)
+      .in('thread_id', threadIds);
+    if (restError) throw restError;
+    rest.forEach(email => emails.set(email.id, email));
+  }
+
+  // Leave out the sample rows, as the email list does
+  const real = [...emails.values()].filter(email => !email.email_id.startsWith('sample_'));
+  const attachments = new Map<string, EmailAttachment[]>();
+  if (real.length > 0) {
+    const { data: files, error: filesError } = await supabase
+      .from('files')
+      .select('id, filename, file_path, file_size, mime_type, email_tracking_id')
+      .in('email_tracking_id', real.map(email => email.id));
+    if (filesError) throw filesError;
+    files.forEach(({ email_tracking_id, ...file }) => {
+      attachments.set(email_tracking_id, [...(attachments.get(email_tracking_id) ?? []), file]);
+    });
+  }
+
+  return groupThreads(real.map(email => ({ ...email, attachments: attachments.get(email.id) ?? [] })));
+}
+
+/**
+ * Store files as attachments of an email, also filed under the records it's linked to
+ */
+export async function uploadEmailAttachments(userId: string, emailTrackingId: string, files: File[], links: RecordLinks): Promise<void> {
+  for (const file of files) {
+    const fileExt = file.name.split('.').pop();
+    const filePath = `${userId}/${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage.from('files').upload(filePath, file);
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase.from('files').insert({
+      user_id: userId,
+      filename: file.name,
+      file_path: filePath,
+      file_size: file.size,
+      mime_type: file.type,
+      email_tracking_id: emailTrackingId,
+      ...links
+    });
+    if (error) throw error;
+  }
+}
+
+/**
+ * Who a reply goes to: whoever last wrote in, else whoever the thread was last sent to
+ */
+export function replyRecipient(thread: EmailThread): string | null {
+  const latest = [...thread.emails].reverse();
+  const received = latest.find(email => email.type === 'received' && email.sender_email);
+  if (received) return received.sender_email;
+  const sent = latest.find(email => email.type === 'sent' && email.recipient_email);
+  return sent?.recipient_email?.split(',')[0].trim() || null;
+}
+
+/**
+ * Log and deliver a reply to the latest message in a thread
+ */
+export async function sendThreadReply(userId: string, thread: EmailThread, body: string, files: File[]): Promise<DeliveryResult> {
+  const recipient = replyRecipient(thread);
+  if (!recipient) throw new Error('No one to reply to in this thread');
+
+  const latest = [...thread.emails].reverse();
+  const parent = latest.find(email => email.message_id) ?? null;
+  const links: RecordLinks = {
+    contact_id: latest.find(email => email.contact_id)?.contact_id ?? null,
+    lead_id: latest.find(email => email.lead_id)?.lead_id ?? null,
+    deal_id: latest.find(email => email.deal_id)?.deal_id ?? null
+  };
+  const subject = replySubject(thread.subject);
+
+  const { data, error } = await supabase
+    .from('email_tracking')
+    .insert({
+      user_id: userId,
+      email_id: `email_${Date.now()}`,
+      recipient_email: recipient,
+      subject,
+      body,
+      type: 'sent',
+      folder: 'sent',
+      sent_at: new Date().toISOString(),
+      ...links,
+      thread_id: parent ? parent.thread_id ?? parent.message_id : null,
+      in_reply_to: parent?.message_id ?? null,
+      reference_ids: parent ? [...(parent.reference_ids ?? []), parent.message_id] : null
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  if (files.length > 0) {
+    await uploadEmailAttachments(userId, data.id, files, links);
+  }
+
+  // Without SMTP settings the reply is only logged
+  const delivery = await deliverEmail(data.id);
+  assertDelivered(delivery);
+
+  await supabase.from('activities').insert({
+    user_id: userId,
+    ...links,
+    type: 'email',
+    subject: `Email sent: ${subject}`,
+    description: `Replied to ${recipient}`,
+    status: 'completed'
+  });
+
+  return delivery;
+}
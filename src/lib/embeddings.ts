@@ -1,11 +1,5 @@
-import OpenAI from 'openai';
 import { supabase } from '@/integrations/supabase/client';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true // Note: In production, this should be handled server-side
-});
+import { generateTextEmbedding } from './ai/config';
 
 export interface EmbeddingJob {
   id: string;
@@ -26,17 +20,11 @@ export interface SimilarRecord {
 
 export class EmbeddingService {
   /**
-   * Generate embedding for text using OpenAI
+   * Generate embedding for text through the active LLM provider
    */
   async generateEmbedding(text: string): Promise<number[]> {
     try {
-      const response = await openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: text,
-        encoding_format: 'float',
-      });
-
-      return response.data[0].embedding;
+      return await generateTextEmbedding(text);
     } catch (error) {
       console.error('Error generating embedding:', error);
       throw new Error(`Failed to generate embedding: ${error}`);
@@ -0,0 +1,104 @@
+// Browser export helpers shared by reports and data export screens
+
+import { writeXLSX } from '@/lib/import/xlsx';
+
+/**
+ * Trigger a browser download for an in-memory blob
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Quote a single CSV cell per RFC 4180 (commas, quotes and line breaks)
+ */
+export function escapeCSVValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Serialize rows to CSV. Columns default to the keys of the first row.
+ */
+export function toCSV<T extends object>(rows: T[], columns?: Array<keyof T & string>): string {
+  const headers = columns || (rows.length > 0 ? Object.keys(rows[0]) as Array<keyof T & string> : []);
+  return [
+    headers.map(escapeCSVValue).join(','),
+    ...rows.map(row => headers.map(header => escapeCSVValue(row[header])).join(','))
+  ].join('\n');
+}
+
+export function downloadCSV<T extends object>(rows: T[], fileName: string, columns?: Array<keyof T & string>): void {
+  downloadBlob(new Blob([toCSV(rows, columns)], { type: 'text/csv;charset=utf-8' }), fileName);
+}
+
+/**
+ * Same columns as downloadCSV, written as a single-sheet Excel workbook
+ */
+export function downloadXLSX<T extends object>(rows: T[], fileName: string, sheetName?: string, columns?: Array<keyof T & string>): void {
+  const headers = columns || (rows.length > 0 ? Object.keys(rows[0]) as Array<keyof T & string> : []);
+  const cells = rows.map(row => headers.map(header => row[header]));
+  downloadBlob(writeXLSX([headers, ...cells], sheetName), fileName);
+}
+
+/**
+ * Render the first SVG inside `container` (e.g. a Recharts chart) to a PNG download.
+ * The SVG is drawn onto a white canvas at 2x scale so exported charts stay sharp.
+ */
+export async function downloadChartAsPNG(container: HTMLElement | null, fileName: string, scale = 2): Promise<void> {
+  const svg = container?.querySelector('svg');
+  if (!svg) {
+    throw new Error('No chart found to export');
+  }
+
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+
+  const svgUrl = URL.createObjectURL(
+    new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml;charset=utf-8' })
+  );
+
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Failed to render chart image'));
+      img.src = svgUrl;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(width * scale);
+    canvas.height = Math.ceil(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not supported in this browser');
+    }
+
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+
+    const pngBlob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!pngBlob) {
+      throw new Error('Failed to encode chart image');
+    }
+    downloadBlob(pngBlob, fileName);
+  } finally {
+    URL.revokeObjectURL(svgUrl);
+  }
+}
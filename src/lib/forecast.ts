@@ -0,0 +1,283 @@
+// Revenue Forecasting
+// Projects deal revenue into monthly or quarterly periods by expected close date,
+// rolls it up by forecast category, compares it with quotas and keeps weekly snapshots.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { getPipelineForDeal, getStageProbability, resolveDealOutcome, type Pipeline } from '@/lib/pipelines';
+
+type Deal = Tables<'deals'>;
+export type Quota = Tables<'quotas'>;
+export type ForecastSnapshot = Tables<'forecast_snapshots'>;
+
+export type ForecastCategory = 'pipeline' | 'best_case' | 'commit' | 'closed';
+export type ForecastPeriodType = 'month' | 'quarter';
+
+export const FORECAST_CATEGORIES: Array<{ value: ForecastCategory; label: string }> = [
+  { value: 'pipeline', label: 'Pipeline' },
+  { value: 'best_case', label: 'Best Case' },
+  { value: 'commit', label: 'Commit' },
+  { value: 'closed', label: 'Closed' }
+];
+
+/**
+ * Won deals are always closed revenue; a deal that is reopened drops back to pipeline
+ */
+export function resolveForecastCategory(category: string | null | undefined, outcome: string | null | undefined): ForecastCategory {
+  if (outcome === 'won') return 'closed';
+  if (!category || category === 'closed') return 'pipeline';
+  return category as ForecastCategory;
+}
+
+export interface ForecastPeriod {
+  periodStart: string; // YYYY-MM-DD
+  label: string;       // e.g. "Mar 2025" or "Q1 2025"
+  closed: number;      // won revenue
+  commit: number;      // closed + open deals in commit
+  bestCase: number;    // commit + open deals in best case
+  pipeline: number;    // every open deal, unweighted
+  weighted: number;    // closed + value x probability of every open deal
+  dealCount: number;
+  quota: number | null;
+  attainment: number | null; // weighted forecast as % of quota
+}
+
+export interface ForecastResult {
+  periods: ForecastPeriod[];
+  unscheduledDeals: Deal[]; // open deals without an expected close date
+}
+
+export interface ForecastDriftPoint {
+  snapshotDate: string;
+  label: string;
+  weighted: number;
+  commit: number;
+  bestCase: number;
+  closed: number;
+  weightedChange: number | null; // change since the previous snapshot
+}
+
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// DATE columns come back as YYYY-MM-DD; parse them as local dates, not UTC midnight
+const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day || 1);
+};
+
+/**
+ * First day of the month or quarter containing `date`
+ */
+export function getPeriodStart(date: Date, periodType: ForecastPeriodType): Date {
+  const month = periodType === 'quarter' ? Math.floor(date.getMonth() / 3) * 3 : date.getMonth();
+  return new Date(date.getFullYear(), month, 1);
+}
+
+export function formatPeriodLabel(periodStart: Date, periodType: ForecastPeriodType): string {
+  if (periodType === 'quarter') {
+    return `Q${Math.floor(periodStart.getMonth() / 3) + 1} ${periodStart.getFullYear()}`;
+  }
+  return periodStart.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+}
+
+/**
+ * Monday of the week containing `date`; snapshots are keyed by it
+ */
+export function getWeekStart(date: Date = new Date()): string {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const offset = (result.getDay() + 6) % 7;
+  result.setDate(result.getDate() - offset);
+  return toDateKey(result);
+}
+
+/**
+ * Start dates of `count` consecutive periods beginning with the one containing `from`
+ */
+export function getForecastPeriodStarts(periodType: ForecastPeriodType, count: number, from: Date = new Date()): string[] {
+  const first = getPeriodStart(from, periodType);
+  const step = periodType === 'quarter' ? 3 : 1;
+  return Array.from({ length: count }, (_, index) =>
+    toDateKey(new Date(first.getFullYear(), first.getMonth() + index * step, 1))
+  );
+}
+
+/**
+ * Win probability used for weighting: the deal's own value, else its stage default
+ */
+export function getDealProbability(deal: Deal, pipelines: Pipeline[] = []): number {
+  if (deal.probability !== null && deal.probability !== undefined) {
+    return Number(deal.probability);
+  }
+  return getStageProbability(getPipelineForDeal(pipelines, deal), deal.stage) ?? 0;
+}
+
+/**
+ * Bucket deals into forecast periods. Won deals count as closed revenue in the period of
+ * their expected close date (or when they were last updated); lost deals are ignored.
+ */
+export function computeForecast(
+  deals: Deal[],
+  periodType: ForecastPeriodType,
+  options: { count?: number; from?: Date; quotas?: Quota[]; pipelines?: Pipeline[] } = {}
+): ForecastResult {
+  const { count = periodType === 'quarter' ? 4 : 6, from = new Date(), quotas = [], pipelines = [] } = options;
+  const periodStarts = getForecastPeriodStarts(periodType, count, from);
+
+  const periods = new Map<string, ForecastPeriod>(
+    periodStarts.map(periodStart => {
+      const quota = quotas.find(q => q.period_type === periodType && q.period_start === periodStart);
+      return [periodStart, {
+        periodStart,
+        label: formatPeriodLabel(parseDateKey(periodStart), periodType),
+        closed: 0,
+        commit: 0,
+        bestCase: 0,
+        pipeline: 0,
+        weighted: 0,
+        dealCount: 0,
+        quota: quota ? Number(quota.amount) : null,
+        attainment: null
+      }];
+    })
+  );
+
+  const unscheduledDeals: Deal[] = [];
+
+  deals.forEach(deal => {
+    const outcome = resolveDealOutcome(pipelines, deal);
+    if (outcome === 'lost') return;
+
+    const closeDate = deal.expected_close_date
+      ? parseDateKey(deal.expected_close_date)
+      : outcome === 'won' && deal.updated_at ? new Date(deal.updated_at) : null;
+
+    if (!closeDate) {
+      unscheduledDeals.push(deal);
+      return;
+    }
+
+    const period = periods.get(toDateKey(getPeriodStart(closeDate, periodType)));
+    if (!period) return;
+
+    const value = Number(deal.value || 0);
+    period.dealCount += 1;
+
+    if (outcome === 'won' || deal.forecast_category === 'closed') {
+      period.closed += value;
+      period.commit += value;
+      period.bestCase += value;
+      period.weighted += value;
+      return;
+    }
+
+    period.pipeline += value;
+    period.weighted += value * (getDealProbability(deal, pipelines) / 100);
+    if (deal.forecast_category === 'commit') {
+      period.commit += value;
+      period.bestCase += value;
+    } else if (deal.forecast_category === 'best_case') {
+      period.bestCase += value;
+    }
+  });
+
+  return {
+    periods: Array.from(periods.values()).map(period => ({
+      ...period,
+      weighted: Math.round(period.weighted),
+      attainment: period.quota ? Math.round((period.weighted / period.quota) * 100) : null
+    })),
+    unscheduledDeals
+  };
+}
+
+/**
+ * How the forecast for one period moved from week to week
+ */
+export function computeForecastDrift(
+  snapshots: ForecastSnapshot[],
+  periodType: ForecastPeriodType,
+  periodStart: string
+): ForecastDriftPoint[] {
+  return snapshots
+    .filter(snapshot => snapshot.period_type === periodType && snapshot.period_start === periodStart)
+    .sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date))
+    .map((snapshot, index, sorted) => ({
+      snapshotDate: snapshot.snapshot_date,
+      label: parseDateKey(snapshot.snapshot_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      weighted: Number(snapshot.weighted_value),
+      commit: Number(snapshot.commit_value),
+      bestCase: Number(snapshot.best_case_value),
+      closed: Number(snapshot.closed_value),
+      weightedChange: index > 0 ? Number(snapshot.weighted_value) - Number(sorted[index - 1].weighted_value) : null
+    }));
+}
+
+export async function fetchQuotas(userId: string): Promise<Quota[]> {
+  const { data, error } = await supabase
+    .from('quotas')
+    .select('*')
+    .eq('user_id', userId)
+    .order('period_start', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Set the quota for a period, replacing any existing target
+ */
+export async function saveQuota(userId: string, periodType: ForecastPeriodType, periodStart: string, amount: number): Promise<void> {
+  const { error } = await supabase
+    .from('quotas')
+    .upsert(
+      { user_id: userId, period_type: periodType, period_start: periodStart, amount },
+      { onConflict: 'user_id,period_type,period_start' }
+    );
+
+  if (error) throw error;
+}
+
+export async function fetchForecastSnapshots(userId: string): Promise<ForecastSnapshot[]> {
+  const { data, error } = await supabase
+    .from('forecast_snapshots')
+    .select('*')
+    .eq('user_id', userId)
+    .order('snapshot_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Store this week's snapshot of every period in the forecast. Saving again in the same
+ * week overwrites that week's rows, so there is at most one snapshot per week.
+ */
+export async function saveForecastSnapshot(
+  userId: string,
+  periodType: ForecastPeriodType,
+  periods: ForecastPeriod[],
+  snapshotDate: string = getWeekStart()
+): Promise<void> {
+  if (periods.length === 0) return;
+
+  const { error } = await supabase
+    .from('forecast_snapshots')
+    .upsert(
+      periods.map(period => ({
+        user_id: userId,
+        snapshot_date: snapshotDate,
+        period_type: periodType,
+        period_start: period.periodStart,
+        closed_value: period.closed,
+        commit_value: period.commit,
+        best_case_value: period.bestCase,
+        pipeline_value: period.pipeline,
+        weighted_value: period.weighted,
+        deal_count: period.dealCount
+      })),
+      { onConflict: 'user_id,snapshot_date,period_type,period_start' }
+    );
+
+  if (error) throw error;
+}
@@ -0,0 +1,108 @@
+// CSV Parsing
+// RFC 4180 parser for imports: quoted fields may contain commas, doubled quotes and
+// line breaks, and rows may end in CRLF or LF.
+
+export interface ParsedTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Split CSV text into records. Quotes only have meaning at the start of a field;
+ * a stray quote inside an unquoted field is kept as a literal character.
+ */
+export function parseCSVRecords(text: string, delimiter = ','): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldStarted = false;
+
+  // Excel writes a UTF-8 byte order mark at the start of the file
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+    fieldStarted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    records.push(record);
+    record = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && !fieldStarted) {
+      inQuotes = true;
+      fieldStarted = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+      fieldStarted = true;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV file has an unterminated quoted field');
+  }
+
+  // The last line may not end with a newline
+  if (field !== '' || fieldStarted || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+/**
+ * Guess the delimiter from the header line; spreadsheets exported in some locales use ';'
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t'];
+  const counts = candidates.map(candidate => firstLine.split(candidate).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? candidates[best] : ',';
+}
+
+/**
+ * Parse a CSV file into trimmed headers and rows. Blank lines are dropped and every
+ * row is padded or truncated to the header width.
+ */
+export function parseCSV(text: string, delimiter: string = detectDelimiter(text)): ParsedTable {
+  const records = parseCSVRecords(text, delimiter)
+    .filter(record => record.some(cell => cell.trim() !== ''));
+
+  if (records.length === 0) {
+    throw new Error('CSV file is empty');
+  }
+
+  const headers = records[0].map(header => header.trim());
+  const rows = records.slice(1).map(record =>
+    headers.map((_, index) => (record[index] ?? '').trim())
+  );
+
+  return { headers, rows };
+}
@@ -0,0 +1,631 @@
+// Import Engine
+// Shared by every data import screen: maps file columns to CRM fields, validates and
+// previews rows, flags duplicates, inserts in batches and rolls whole imports back.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { toCSV } from '@/lib/export';
+import { fetchPipelines, findStage, getDefaultPipeline, getStageOutcome, type Pipeline } from '@/lib/pipelines';
+import { resolveForecastCategory } from '@/lib/forecast';
+import { parseCSV, type ParsedTable } from '@/lib/import/csv';
+import { readXLSX } from '@/lib/import/xlsx';
+import { vCardsToTable } from '@/lib/import/vcard';
+import { runLeadAssignment } from '@/lib/assignment';
+
+export type ImportEntity = 'contacts' | 'leads' | 'deals' | 'activities' | 'companies';
+export type ImportBatch = Tables<'import_batches'>;
+
+type FieldType = 'text' | 'email' | 'url' | 'number' | 'integer' | 'date';
+type RecordValue = string | number | null;
+
+export interface ImportField {
+  key: string;
+  label: string;
+  type: FieldType;
+  required?: boolean;
+  aliases: string[];
+  sample: string;
+}
+
+export interface ImportEntityConfig {
+  label: string;
+  fields: ImportField[];
+  dedupeBy?: 'email' | 'domain';
+}
+
+export interface DuplicateMatch {
+  source: 'contacts' | 'leads' | 'companies' | 'file';
+  id: string | null;
+  label: string;
+  matchedOn: 'email' | 'domain';
+  value: string;
+}
+
+export interface PreparedRow {
+  rowNumber: number; // line in the source file; the header is line 1
+  record: Record<string, RecordValue>;
+  errors: string[];
+  duplicate: DuplicateMatch | null;
+}
+
+export interface ImportResult {
+  batchId: string;
+  total: number;
+  inserted: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+}
+
+// Column index -> field key; '' leaves the column out of the import
+export type ColumnMapping = string[];
+
+const field = (key: string, label: string, type: FieldType, aliases: string[], sample: string, required = false): ImportField =>
+  ({ key, label, type, aliases, sample, required });
+
+export const IMPORT_ENTITIES: Record<ImportEntity, ImportEntityConfig> = {
+  contacts: {
+    label: 'Contacts',
+    dedupeBy: 'email',
+    fields: [
+      field('name', 'Name', 'text', ['full_name', 'contact_name', 'contact'], 'John Doe', true),
+      field('email', 'Email', 'email', ['email_address', 'e_mail', 'work_email'], 'john@example.com'),
+      field('company', 'Company', 'text', ['organization', 'company_name', 'account'], 'Acme Corp'),
+      field('phone', 'Phone', 'text', ['phone_number', 'mobile', 'telephone'], '+1-555-0123'),
+      field('title', 'Job Title', 'text', ['job_title', 'position', 'role'], 'CEO'),
+      field('status', 'Status', 'text', ['contact_status'], 'Qualified'),
+      field('persona', 'Persona', 'text', ['customer_persona', 'type'], 'decision_maker'),
+      field('score', 'Score', 'integer', ['lead_score', 'rating'], '85')
+    ]
+  },
+  leads: {
+    label: 'Leads',
+    dedupeBy: 'email',
+    fields: [
+      field('name', 'Name', 'text', ['full_name', 'lead_name', 'contact_name'], 'Jane Smith', true),
+      field('email', 'Email', 'email', ['email_address', 'e_mail', 'work_email'], 'jane@example.com'),
+      field('company', 'Company', 'text', ['organization', 'company_name', 'account'], 'Tech Inc'),
+      field('phone', 'Phone', 'text', ['phone_number', 'mobile', 'telephone'], '555-5678'),
+      field('status', 'Status', 'text', ['lead_status'], 'new'),
+      field('source', 'Source', 'text', ['lead_source', 'channel'], 'form'),
+      field('score', 'Score', 'integer', ['lead_score', 'rating'], '75')
+    ]
+  },
+  deals: {
+    label: 'Deals',
+    fields: [
+      field('title', 'Title', 'text', ['deal_name', 'opportunity', 'name'], 'Enterprise Deal', true),
+      field('company', 'Company', 'text', ['organization', 'account', 'company_name'], 'Acme Corp'),
+      field('value', 'Value', 'number', ['amount', 'deal_value', 'revenue'], '50000'),
+      field('stage', 'Stage', 'text', ['deal_stage', 'pipeline_stage'], 'Discovery'),
+      field('probability', 'Probability (%)', 'integer', ['close_probability', 'win_probability'], '25'),
+      field('expected_close_date', 'Expected Close Date', 'date', ['close_date', 'expected_close', 'closing_date'], '2025-09-30'),
+      field('contact_name', 'Contact Name', 'text', ['contact', 'primary_contact'], 'John Doe'),
+      field('next_step', 'Next Step', 'text', ['next_action', 'follow_up'], 'Schedule demo')
+    ]
+  },
+  activities: {
+    label: 'Activities',
+    fields: [
+      field('subject', 'Subject', 'text', ['title', 'activity_subject', 'activity_name'], 'Follow up call', true),
+      field('type', 'Type', 'text', ['activity_type'], 'call', true),
+      field('description', 'Description', 'text', ['notes', 'details'], 'Call to discuss proposal'),
+      field('priority', 'Priority', 'text', ['activity_priority', 'importance'], 'high'),
+      field('status', 'Status', 'text', ['activity_status'], 'pending'),
+      field('due_date', 'Due Date', 'date', ['deadline', 'scheduled_date', 'date'], '2025-01-15'),
+      field('contact_email', 'Contact Email', 'email', ['email', 'contact'], 'john@example.com')
+    ]
+  },
+  companies: {
+    label: 'Companies',
+    dedupeBy: 'domain',
+    fields: [
+      field('name', 'Name', 'text', ['company_name', 'organization', 'company'], 'Acme Corporation', true),
+      field('website', 'Website', 'url', ['company_website', 'url', 'domain'], 'https://acme.com'),
+      field('industry', 'Industry', 'text', ['sector', 'business_type'], 'Technology'),
+      field('size', 'Size', 'text', ['company_size', 'employee_size'], 'large'),
+      field('phone', 'Phone', 'text', ['phone_number', 'company_phone'], '555-0123'),
+      field('email', 'Email', 'email', ['company_email', 'contact_email'], 'contact@acme.com'),
+      field('address', 'Address', 'text', ['street_address', 'location'], '123 Business St'),
+      field('city', 'City', 'text', ['company_city'], 'San Francisco'),
+      field('state', 'State', 'text', ['province', 'region'], 'CA'),
+      field('country', 'Country', 'text', ['nation'], 'USA'),
+      field('postal_code', 'Postal Code', 'text', ['zip_code', 'zip'], '94105'),
+      field('description', 'Description', 'text', ['company_description', 'about'], 'Leading technology company'),
+      field('status', 'Status', 'text', ['company_status', 'relationship'], 'prospect'),
+      field('revenue', 'Revenue', 'integer', ['annual_revenue', 'yearly_revenue'], '5000000'),
+      field('employees', 'Employees', 'integer', ['employee_count', 'staff_count'], '250'),
+      field('founded_year', 'Founded Year', 'integer', ['founded', 'established'], '2010'),
+      field('linkedin_url', 'LinkedIn URL', 'url', ['linkedin', 'linkedin_profile'], 'https://linkedin.com/company/acme'),
+      field('twitter_url', 'Twitter URL', 'url', ['twitter', 'twitter_profile'], ''),
+      field('facebook_url', 'Facebook URL', 'url', ['facebook', 'facebook_profile'], ''),
+      field('notes', 'Notes', 'text', ['company_notes', 'remarks'], 'Great potential client'),
+      field('score', 'Score', 'integer', ['company_score', 'rating'], '85'),
+      field('last_contact', 'Last Contact', 'date', ['last_contacted'], ''),
+      field('next_follow_up', 'Next Follow Up', 'date', ['follow_up_date', 'next_contact'], '')
+    ]
+  }
+};
+
+const INSERT_BATCH_SIZE = 100;
+const LOOKUP_CHUNK_SIZE = 200;
+
+// Shared mailbox providers say nothing about which company a person works for
+const FREE_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com',
+  'icloud.com', 'me.com', 'aol.com', 'protonmail.com', 'proton.me', 'gmx.com', 'mail.com'
+]);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalizeHeader = (header: string) => header.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const chunk = <T,>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+/**
+ * File extensions the import screens accept for an entity; vCards only describe contacts
+ */
+export function getImportFileTypes(entity: ImportEntity): string[] {
+  return entity === 'contacts' ? ['.csv', '.xlsx', '.vcf'] : ['.csv', '.xlsx'];
+}
+
+/**
+ * Read an uploaded CSV, Excel or vCard file into headers and rows
+ */
+export async function readImportFile(file: File, entity: ImportEntity): Promise<ParsedTable> {
+  const name = file.name.toLowerCase();
+  let table: ParsedTable;
+
+  if (name.endsWith('.csv')) {
+    table = parseCSV(await file.text());
+  } else if (name.endsWith('.xlsx')) {
+    table = await readXLSX(await file.arrayBuffer());
+  } else if (name.endsWith('.vcf') || name.endsWith('.vcard')) {
+    if (entity !== 'contacts') {
+      throw new Error('vCard files can only be imported as contacts');
+    }
+    table = vCardsToTable(await file.text());
+  } else {
+    throw new Error(`Unsupported file type. Use ${getImportFileTypes(entity).join(', ')}`);
+  }
+
+  if (table.rows.length === 0) {
+    throw new Error('File has a header row but no data');
+  }
+  return table;
+}
+
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const value = email?.trim().toLowerCase();
+  return value ? value : null;
+}
+
+/**
+ * Bare domain of a website or email address, e.g. "https://www.Acme.com/about" -> "acme.com"
+ */
+export function normalizeDomain(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const text = value.trim().toLowerCase();
+  const host = text.includes('@')
+    ? text.split('@').pop()
+    : text.replace(/^[a-z]+:\/\//, '').split(/[/?#:]/)[0];
+  const domain = host?.replace(/^www\./, '') || '';
+  return domain.includes('.') ? domain : null;
+}
+
+/**
+ * Domain used to recognise the same company, ignoring free mail providers
+ */
+export function getCompanyDomain(website: string | null | undefined, email?: string | null): string | null {
+  const domain = normalizeDomain(website) || normalizeDomain(email);
+  return domain && !FREE_EMAIL_DOMAINS.has(domain) ? domain : null;
+}
+
+/**
+ * Pick a field for each column by matching its header against field keys and aliases.
+ * A field is only assigned to the first column that matches it.
+ */
+export function autoMapColumns(entity: ImportEntity, headers: string[]): ColumnMapping {
+  const used = new Set<string>();
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const match = IMPORT_ENTITIES[entity].fields.find(f =>
+      !used.has(f.key) && (f.key === normalized || f.aliases.includes(normalized))
+    );
+    if (!match) return '';
+    used.add(match.key);
+    return match.key;
+  });
+}
+
+/**
+ * Required fields that no column is mapped to
+ */
+export function getMissingRequiredFields(entity: ImportEntity, mapping: ColumnMapping): ImportField[] {
+  return IMPORT_ENTITIES[entity].fields.filter(f => f.required && !mapping.includes(f.key));
+}
+
+const formatLocalDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+function coerceValue(importField: ImportField, raw: string): { value: RecordValue; error?: string } {
+  const text = raw.trim();
+  if (!text) return { value: null };
+
+  switch (importField.type) {
+    case 'email': {
+      const email = text.toLowerCase();
+      return EMAIL_PATTERN.test(email) ? { value: email } : { value: null, error: `${importField.label} "${text}" is not a valid email` };
+    }
+    case 'url':
+      return { value: /^[a-z]+:\/\//i.test(text) ? text : `https://${text}` };
+    case 'number':
+    case 'integer': {
+      // Accept spreadsheet formatting such as "$50,000" or "25%"
+      const number = Number(text.replace(/[$€£,%\s]/g, ''));
+      if (Number.isNaN(number)) {
+        return { value: null, error: `${importField.label} "${text}" is not a number` };
+      }
+      return { value: importField.type === 'integer' ? Math.round(number) : number };
+    }
+    case 'date': {
+      // YYYY-MM-DD is read as a calendar date; anything else goes through Date parsing
+      const isoMatch = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      const date = isoMatch ? new Date(Number(isoMatch[1]), Number(isoMatch[2]) - 1, Number(isoMatch[3])) : new Date(text);
+      if (Number.isNaN(date.getTime())) {
+        return { value: null, error: `${importField.label} "${text}" is not a valid date` };
+      }
+      return { value: formatLocalDate(date) };
+    }
+    default:
+      return { value: text };
+  }
+}
+
+/**
+ * Fill in the fields the deal screens derive from the stage: pipeline, probability,
+ * won/lost outcome and forecast category
+ */
+function applyDealDefaults(record: Record<string, RecordValue>, pipelines: Pipeline[], errors: string[]) {
+  const stageName = typeof record.stage === 'string' ? record.stage : null;
+  // Use the first pipeline that has the stage; unstaged deals start in the default pipeline
+  const pipeline = (stageName && pipelines.find(p => findStage(p, stageName))) || getDefaultPipeline(pipelines);
+  const stage = findStage(pipeline, stageName) || (stageName ? undefined : pipeline?.stages[0]);
+
+  if (stageName && !stage) {
+    errors.push(`Stage "${stageName}" is not in any pipeline`);
+    return;
+  }
+
+  const outcome = getStageOutcome(pipeline, stage?.name);
+  record.stage = stage?.name ?? null;
+  record.pipeline_id = pipeline?.id ?? null;
+  record.probability = record.probability ?? stage?.probability ?? null;
+  record.outcome = outcome;
+  record.forecast_category = resolveForecastCategory(null, outcome);
+
+  if (typeof record.probability === 'number' && (record.probability < 0 || record.probability > 100)) {
+    errors.push('Probability must be between 0 and 100');
+  }
+}
+
+/**
+ * Turn raw rows into typed records and collect validation errors for each row
+ */
+export function buildRecords(
+  entity: ImportEntity,
+  rows: string[][],
+  mapping: ColumnMapping,
+  pipelines: Pipeline[] = []
+): PreparedRow[] {
+  const fields = IMPORT_ENTITIES[entity].fields;
+
+  return rows.map((row, index) => {
+    const record: Record<string, RecordValue> = {};
+    const errors: string[] = [];
+
+    mapping.forEach((fieldKey, columnIndex) => {
+      const importField = fields.find(f => f.key === fieldKey);
+      if (!importField) return;
+      const { value, error } = coerceValue(importField, row[columnIndex] ?? '');
+      if (error) errors.push(error);
+      if (value !== null) record[importField.key] = value;
+    });
+
+    fields
+      .filter(f => f.required && (record[f.key] === undefined || record[f.key] === ''))
+      .forEach(f => errors.push(`${f.label} is required`));
+
+    if (entity === 'deals' && errors.length === 0) {
+      applyDealDefaults(record, pipelines, errors);
+    }
+
+    return { rowNumber: index + 2, record, errors, duplicate: null };
+  });
+}
+
+async function findExistingByEmail(userId: string, table: 'contacts' | 'leads', emails: string[]) {
+  const matches = new Map<string, DuplicateMatch>();
+
+  for (const emailChunk of chunk(emails, LOOKUP_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('id, name, email')
+      .eq('user_id', userId)
+      .in('email', emailChunk);
+
+    if (error) throw error;
+    (data || []).forEach(row => {
+      const email = normalizeEmail(row.email);
+      if (email && !matches.has(email)) {
+        matches.set(email, { source: table, id: row.id, label: row.name, matchedOn: 'email', value: email });
+      }
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Flag rows that match an existing record (by email for people, by domain for companies)
+ * or an earlier row in the same file
+ */
+export async function findDuplicates(userId: string, entity: ImportEntity, rows: PreparedRow[]): Promise<PreparedRow[]> {
+  const dedupeBy = IMPORT_ENTITIES[entity].dedupeBy;
+  if (!dedupeBy) return rows;
+
+  const keyOf = (row: PreparedRow) => dedupeBy === 'email'
+    ? normalizeEmail(row.record.email as string | null)
+    : getCompanyDomain(row.record.website as string | null, row.record.email as string | null);
+
+  const existing = new Map<string, DuplicateMatch>();
+
+  if (dedupeBy === 'email') {
+    const emails = Array.from(new Set(rows.map(keyOf).filter((key): key is string => !!key)));
+    // Stored emails may have been typed in any case, so look up the original spellings too
+    const lookupValues = Array.from(new Set([
+      ...emails,
+      ...rows.map(row => row.record.email).filter((email): email is string => typeof email === 'string')
+    ]));
+    if (emails.length > 0) {
+      // A contact already in the CRM wins over a lead with the same email
+      const [contactMatches, leadMatches] = await Promise.all([
+        findExistingByEmail(userId, 'contacts', lookupValues),
+        findExistingByEmail(userId, 'leads', lookupValues)
+      ]);
+      leadMatches.forEach((match, email) => existing.set(email, match));
+      contactMatches.forEach((match, email) => existing.set(email, match));
+    }
+  } else {
+    const { data, error } = await supabase
+      .from('companies')
+      .select('id, name, website, email')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    (data || []).forEach(company => {
+      const domain = getCompanyDomain(company.website, company.email);
+      if (domain && !existing.has(domain)) {
+        existing.set(domain, { source: 'companies', id: company.id, label: company.name, matchedOn: 'domain', value: domain });
+      }
+    });
+  }
+
+  const seenInFile = new Map<string, number>();
+  return rows.map(row => {
+    const key = keyOf(row);
+    if (!key) return row;
+
+    const existingMatch = existing.get(key);
+    if (existingMatch) return { ...row, duplicate: existingMatch };
+
+    const firstRow = seenInFile.get(key);
+    if (firstRow !== undefined) {
+      return { ...row, duplicate: { source: 'file', id: null, label: `Row ${firstRow}`, matchedOn: dedupeBy, value: key } };
+    }
+    seenInFile.set(key, row.rowNumber);
+    return row;
+  });
+}
+
+/**
+ * Link imported activities to existing contacts by email
+ */
+async function resolveActivityContacts(userId: string, rows: PreparedRow[]): Promise<PreparedRow[]> {
+  const emails = Array.from(new Set(
+    rows.map(row => row.record.contact_email).filter((email): email is string => typeof email === 'string')
+  ));
+  const contactIds = new Map<string, string>();
+
+  for (const emailChunk of chunk(emails, LOOKUP_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('contacts')
+      .select('id, email')
+      .eq('user_id', userId)
+      .in('email', emailChunk);
+
+    if (error) throw error;
+    (data || []).forEach(contact => {
+      const email = normalizeEmail(contact.email);
+      if (email) contactIds.set(email, contact.id);
+    });
+  }
+
+  return rows.map(row => {
+    const { contact_email: contactEmail, ...record } = row.record;
+    if (typeof contactEmail !== 'string') return { ...row, record };
+
+    const contactId = contactIds.get(contactEmail);
+    return contactId
+      ? { ...row, record: { ...record, contact_id: contactId } }
+      : { ...row, record, errors: [...row.errors, `No contact found with email ${contactEmail}`] };
+  });
+}
+
+/**
+ * Validate, enrich and dedupe every row so the preview shows exactly what will be imported
+ */
+export async function prepareImport(
+  userId: string,
+  entity: ImportEntity,
+  rows: string[][],
+  mapping: ColumnMapping
+): Promise<PreparedRow[]> {
+  const pipelines = entity === 'deals' ? await fetchPipelines(userId) : [];
+  let prepared = buildRecords(entity, rows, mapping, pipelines);
+
+  if (entity === 'activities') {
+    prepared = await resolveActivityContacts(userId, prepared);
+  }
+
+  return findDuplicates(userId, entity, prepared);
+}
+
+async function insertRecords(entity: ImportEntity, records: Record<string, RecordValue>[]) {
+  // The entity is only known at runtime, so the row shape cannot be checked per table here
+  return supabase.from(entity).insert(records as never);
+}
+
+/**
+ * Insert prepared rows in batches under a new import batch. A failing batch is retried
+ * row by row so one bad row does not block the others.
+ */
+export async function runImport(
+  userId: string,
+  entity: ImportEntity,
+  rows: PreparedRow[],
+  options: {
+    fileName?: string;
+    mapping?: Record<string, string | null>;
+    skipDuplicates?: boolean;
+    onProgress?: (processed: number, total: number) => void;
+  } = {}
+): Promise<ImportResult> {
+  const { fileName = null, mapping = {}, skipDuplicates = true, onProgress } = options;
+
+  const { data: batch, error: batchError } = await supabase
+    .from('import_batches')
+    .insert({
+      user_id: userId,
+      entity_type: entity,
+      file_name: fileName,
+      total_rows: rows.length,
+      column_mapping: mapping
+    })
+    .select('id')
+    .single();
+
+  if (batchError) throw batchError;
+
+  const errors = rows
+    .filter(row => row.errors.length > 0)
+    .map(row => `Row ${row.rowNumber}: ${row.errors.join('; ')}`);
+  const skipped = skipDuplicates ? rows.filter(row => row.errors.length === 0 && row.duplicate).length : 0;
+  const toInsert = rows.filter(row => row.errors.length === 0 && !(skipDuplicates && row.duplicate));
+  let inserted = 0;
+  let processed = 0;
+
+  for (const rowChunk of chunk(toInsert, INSERT_BATCH_SIZE)) {
+    const records = rowChunk.map(row => ({ ...row.record, user_id: userId, import_batch_id: batch.id }));
+    const { error } = await insertRecords(entity, records);
+
+    if (!error) {
+      inserted += rowChunk.length;
+    } else {
+      for (const [index, record] of records.entries()) {
+        const { error: rowError } = await insertRecords(entity, [record]);
+        if (rowError) {
+          errors.push(`Row ${rowChunk[index].rowNumber}: ${rowError.message}`);
+        } else {
+          inserted += 1;
+        }
+      }
+    }
+
+    processed += rowChunk.length;
+    onProgress?.(processed, toInsert.length);
+  }
+
+  // Imported leads go through the same assignment rules as leads created by hand
+  if (entity === 'leads' && inserted > 0) {
+    const { data: imported, error: importedError } = await supabase
+      .from('leads')
+      .select('id')
+      .eq('import_batch_id', batch.id);
+
+    if (importedError) {
+      console.error('Error loading imported leads for assignment:', importedError);
+    } else {
+      await runLeadAssignment(userId, (imported || []).map(lead => lead.id));
+    }
+  }
+
+  const failed = errors.length;
+  const { error: updateError } = await supabase
+    .from('import_batches')
+    .update({
+      status: inserted === 0 && failed > 0 ? 'failed' : 'completed',
+      inserted_count: inserted,
+      skipped_count: skipped,
+      error_count: failed,
+      errors: errors.slice(0, 100) as Json
+    })
+    .eq('id', batch.id)
+    .eq('user_id', userId);
+
+  if (updateError) {
+    console.error('Error finalizing import batch:', updateError);
+  }
+
+  return { batchId: batch.id, total: rows.length, inserted, skipped, failed, errors };
+}
+
+export async function fetchImportBatches(userId: string, limit = 20): Promise<ImportBatch[]> {
+  const { data, error } = await supabase
+    .from('import_batches')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Delete every record an import created and mark the batch as rolled back
+ */
+export async function rollbackImport(userId: string, batch: Pick<ImportBatch, 'id' | 'entity_type'>): Promise<number> {
+  const entity = batch.entity_type as ImportEntity;
+  if (!IMPORT_ENTITIES[entity]) {
+    throw new Error(`Cannot roll back an import of ${batch.entity_type}`);
+  }
+
+  const { data, error } = await supabase
+    .from(entity)
+    .delete()
+    .eq('import_batch_id', batch.id)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) throw error;
+
+  const { error: updateError } = await supabase
+    .from('import_batches')
+    .update({ status: 'rolled_back', rolled_back_at: new Date().toISOString() })
+    .eq('id', batch.id)
+    .eq('user_id', userId);
+
+  if (updateError) throw updateError;
+  return data?.length || 0;
+}
+
+/**
+ * Header row plus one example row for the entity's import template
+ */
+export function buildImportTemplate(entity: ImportEntity): string {
+  const fields = IMPORT_ENTITIES[entity].fields;
+  const sample = Object.fromEntries(fields.map(f => [f.key, f.sample]));
+  return toCSV([sample], fields.map(f => f.key));
+}
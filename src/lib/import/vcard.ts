@@ -0,0 +1,266 @@
+// vCard Reading & Writing
+// Converts between vCard 3.0/4.0 (RFC 2426 / RFC 6350) address book files and contacts.
+// Only the fields the CRM keeps are mapped: FN/N, EMAIL, TEL, TITLE and ORG.
+
+import type { ParsedTable } from '@/lib/import/csv';
+
+export type VCardVersion = '3.0' | '4.0';
+
+export interface VCardContact {
+  name: string;
+  email: string | null;
+  phone: string | null;
+  title: string | null;
+  company: string | null;
+}
+
+interface VCardProperty {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+// Column order used when vCards are fed through the import engine
+export const VCARD_IMPORT_HEADERS = ['name', 'email', 'phone', 'title', 'company'] as const;
+
+/**
+ * Undo vCard text escaping (\n, \, \; and \\)
+ */
+function unescapeValue(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function escapeValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;');
+}
+
+/**
+ * Split on a separator that is not escaped with a backslash
+ */
+function splitUnescaped(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function decodeQuotedPrintable(text: string): string {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '=' && /^[0-9A-F]{2}$/i.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+/**
+ * Parse one content line: [group.]NAME[;PARAM=value[,value]...]:value
+ */
+function parseProperty(line: string): VCardProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+  const name = rawName.split('.').pop()!.toUpperCase();
+  const params: Record<string, string[]> = {};
+
+  rawParams.forEach(param => {
+    const [key, rawValue] = param.includes('=') ? param.split(/=(.*)/s) : ['TYPE', param]; // vCard 2.1 bare types
+    const values = rawValue.replace(/^"|"$/g, '').split(',').map(v => v.trim().toLowerCase());
+    const paramName = key.toUpperCase();
+    params[paramName] = [...(params[paramName] || []), ...values];
+  });
+
+  let value = line.slice(colon + 1);
+  if (params.ENCODING?.includes('quoted-printable')) {
+    value = decodeQuotedPrintable(value);
+  }
+
+  return { name, params, value };
+}
+
+/**
+ * Preferred instance of a repeated property: PREF=1 (4.0), TYPE=pref (3.0), else the first
+ */
+function pickPreferred(properties: VCardProperty[]): VCardProperty | undefined {
+  const rank = (property: VCardProperty) => {
+    if (property.params.PREF) return Number(property.params.PREF[0]) || 100;
+    return property.params.TYPE?.includes('pref') ? 1 : 101;
+  };
+  return properties.slice().sort((a, b) => rank(a) - rank(b))[0];
+}
+
+function toContact(properties: VCardProperty[]): VCardContact | null {
+  const all = (name: string) => properties.filter(property => property.name === name);
+  const first = (name: string) => all(name)[0];
+
+  let name = first('FN') ? unescapeValue(first('FN')!.value).trim() : '';
+  if (!name && first('N')) {
+    // N is Family;Given;Additional;Prefix;Suffix
+    const [family = '', given = '', additional = '', prefix = '', suffix = ''] =
+      splitUnescaped(first('N')!.value, ';').map(part => unescapeValue(part).trim());
+    name = [prefix, given, additional, family, suffix].filter(Boolean).join(' ');
+  }
+
+  const email = pickPreferred(all('EMAIL'));
+  const phone = pickPreferred(all('TEL'));
+  const org = first('ORG');
+  const title = first('TITLE');
+
+  const contact: VCardContact = {
+    name,
+    email: email ? unescapeValue(email.value).replace(/^mailto:/i, '').trim() || null : null,
+    phone: phone ? unescapeValue(phone.value).replace(/^tel:/i, '').trim() || null : null,
+    title: title ? unescapeValue(title.value).trim() || null : null,
+    // ORG is Organization;Unit;... and only the organization name is kept
+    company: org ? unescapeValue(splitUnescaped(org.value, ';')[0]).trim() || null : null
+  };
+
+  if (!contact.name) contact.name = contact.email || contact.company || '';
+  return contact.name ? contact : null;
+}
+
+/**
+ * Parse every card in a .vcf file. Folded lines (continuations starting with a space
+ * or tab) are joined before parsing.
+ */
+export function parseVCards(text: string): VCardContact[] {
+  const rawLines = text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n');
+
+  // vCard 2.1 quoted-printable values continue on the next line after a trailing '='
+  const lines: string[] = [];
+  rawLines.forEach(line => {
+    const previous = lines[lines.length - 1];
+    if (previous !== undefined && /ENCODING=QUOTED-PRINTABLE/i.test(previous.split(':')[0]) && previous.endsWith('=')) {
+      lines[lines.length - 1] = previous.slice(0, -1) + line;
+    } else {
+      lines.push(line);
+    }
+  });
+
+  const contacts: VCardContact[] = [];
+  let current: VCardProperty[] | null = null;
+
+  lines.forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    if (/^BEGIN:VCARD$/i.test(trimmed)) {
+      current = [];
+    } else if (/^END:VCARD$/i.test(trimmed)) {
+      if (current) {
+        const contact = toContact(current);
+        if (contact) contacts.push(contact);
+      }
+      current = null;
+    } else if (current) {
+      const property = parseProperty(line);
+      if (property) current.push(property);
+    }
+  });
+
+  return contacts;
+}
+
+/**
+ * vCards as a table the import engine can map like any other file
+ */
+export function vCardsToTable(text: string): ParsedTable {
+  const contacts = parseVCards(text);
+  if (contacts.length === 0) {
+    throw new Error('No contacts found in vCard file');
+  }
+  return {
+    headers: [...VCARD_IMPORT_HEADERS],
+    rows: contacts.map(contact => VCARD_IMPORT_HEADERS.map(key => contact[key] || ''))
+  };
+}
+
+/**
+ * Fold content lines longer than 75 octets, as both vCard versions require
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function splitName(name: string): { given: string; family: string } {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length < 2) return { given: parts[0] || '', family: '' };
+  return { given: parts.slice(0, -1).join(' '), family: parts[parts.length - 1] };
+}
+
+/**
+ * Serialize contacts to a .vcf file in the requested vCard version
+ */
+export function toVCards(contacts: Array<Partial<VCardContact> & { name: string }>, version: VCardVersion = '3.0'): string {
+  return contacts.map(contact => {
+    const { given, family } = splitName(contact.name);
+    const lines = [
+      'BEGIN:VCARD',
+      `VERSION:${version}`,
+      `FN:${escapeValue(contact.name)}`,
+      `N:${escapeValue(family)};${escapeValue(given)};;;`
+    ];
+
+    if (contact.email) {
+      lines.push(version === '4.0'
+        ? `EMAIL;TYPE=work:${escapeValue(contact.email)}`
+        : `EMAIL;TYPE=INTERNET,WORK:${escapeValue(contact.email)}`);
+    }
+    if (contact.phone) {
+      lines.push(version === '4.0'
+        ? `TEL;VALUE=uri;TYPE=work,voice:tel:${contact.phone.replace(/\s+/g, '')}`
+        : `TEL;TYPE=WORK,VOICE:${escapeValue(contact.phone)}`);
+    }
+    if (contact.title) lines.push(`TITLE:${escapeValue(contact.title)}`);
+    if (contact.company) lines.push(`ORG:${escapeValue(contact.company)}`);
+    lines.push('END:VCARD');
+
+    return lines.map(foldLine).join('\r\n');
+  }).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,368 @@
+// XLSX Reading & Writing
+// Minimal Office Open XML spreadsheet support without a spreadsheet library: reads the
+// first worksheet of a workbook and writes single-sheet workbooks. Compressed entries are
+// inflated with the browser's DecompressionStream; written files use stored (uncompressed) entries.
+
+import type { ParsedTable } from '@/lib/import/csv';
+
+interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// ---------------------------------------------------------------------------
+// ZIP container
+// ---------------------------------------------------------------------------
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot read compressed XLSX files');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Read the entries of a ZIP archive via its central directory
+ */
+async function readZip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // The end-of-central-directory record sits in the last 64KB (it may be followed by a comment)
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('File is not a valid XLSX workbook');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('XLSX workbook has a corrupt directory');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = textDecoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, raw);
+    } else if (method === 8) {
+      entries.set(name, await inflateRaw(raw));
+    } else {
+      throw new Error(`XLSX entry ${name} uses an unsupported compression method`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Build a ZIP archive with stored (uncompressed) entries
+ */
+function writeZip(entries: ZipEntry[]): Blob {
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = textEncoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true); // version needed
+    localView.setUint16(6, 0x0800, true); // UTF-8 names
+    localView.setUint16(8, 0, true); // stored
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, entry.data.length, true);
+    localView.setUint32(22, entry.data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true); // version made by
+    centralView.setUint16(6, 20, true); // version needed
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, entry.data.length, true);
+    centralView.setUint32(24, entry.data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, entry.data);
+    centralParts.push(central);
+    offset += local.length + entry.data.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...localParts, ...centralParts, end], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+// Built-in number formats that display dates or times
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const parseXml = (data: Uint8Array | undefined) =>
+  data ? new DOMParser().parseFromString(textDecoder.decode(data), 'application/xml') : null;
+
+// Namespaced documents: match on local name so prefixed and unprefixed tags both work
+const childrenByName = (parent: Element | Document, localName: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+const columnIndex = (cellRef: string) => {
+  const letters = cellRef.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Excel stores dates as days since 1899-12-30 (which absorbs the 1900 leap-year bug)
+ */
+function excelSerialToString(serial: number): string {
+  const date = new Date(Math.round((serial - 25569) * 86400 * 1000));
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  const seconds = date.getUTCHours() * 3600 + date.getUTCMinutes() * 60 + date.getUTCSeconds();
+  return seconds === 0 ? day : `${day} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+}
+
+function isDateFormatCode(code: string): boolean {
+  // Drop quoted text, escaped characters and [colour]/[locale] sections before looking for date tokens
+  const cleaned = code.replace(/"[^"]*"/g, '').replace(/\\./g, '').replace(/\[[^\]]*\]/g, '');
+  return /[dmyhs]/i.test(cleaned);
+}
+
+/**
+ * Style indexes whose number format is a date
+ */
+function readDateStyles(styles: Document | null): Set<number> {
+  const dateStyles = new Set<number>();
+  if (!styles) return dateStyles;
+
+  const customDateFormats = new Set<number>();
+  childrenByName(styles, 'numFmt').forEach(numFmt => {
+    if (isDateFormatCode(numFmt.getAttribute('formatCode') || '')) {
+      customDateFormats.add(Number(numFmt.getAttribute('numFmtId')));
+    }
+  });
+
+  const cellXfs = childrenByName(styles, 'cellXfs')[0];
+  if (!cellXfs) return dateStyles;
+
+  childrenByName(cellXfs, 'xf').forEach((xf, index) => {
+    const formatId = Number(xf.getAttribute('numFmtId') || 0);
+    if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) {
+      dateStyles.add(index);
+    }
+  });
+  return dateStyles;
+}
+
+// Rich text splits a string into runs; phonetic guides (rPh) are not part of the value
+const textContent = (element: Element) =>
+  childrenByName(element, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+
+/**
+ * Read the first worksheet of an XLSX workbook as a header row plus data rows
+ */
+export async function readXLSX(buffer: ArrayBuffer): Promise<ParsedTable> {
+  const entries = await readZip(buffer);
+
+  const workbook = parseXml(entries.get('xl/workbook.xml'));
+  if (!workbook) {
+    throw new Error('File is not a valid XLSX workbook');
+  }
+
+  // Resolve the first sheet through the workbook relationships
+  const firstSheet = childrenByName(workbook, 'sheet')[0];
+  const relationshipId = firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id')
+    || firstSheet?.getAttribute('r:id');
+  const relationships = parseXml(entries.get('xl/_rels/workbook.xml.rels'));
+  const target = relationships && childrenByName(relationships, 'Relationship')
+    .find(rel => rel.getAttribute('Id') === relationshipId)
+    ?.getAttribute('Target');
+  const sheetPath = target
+    ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`)
+    : 'xl/worksheets/sheet1.xml';
+
+  const sheet = parseXml(entries.get(sheetPath));
+  if (!sheet) {
+    throw new Error('XLSX workbook has no worksheet');
+  }
+
+  const sharedStringsDoc = parseXml(entries.get('xl/sharedStrings.xml'));
+  const sharedStrings = sharedStringsDoc ? childrenByName(sharedStringsDoc, 'si').map(textContent) : [];
+  const dateStyles = readDateStyles(parseXml(entries.get('xl/styles.xml')));
+
+  const records: string[][] = [];
+  childrenByName(sheet, 'row').forEach(row => {
+    const rowNumber = Number(row.getAttribute('r')) || records.length + 1;
+    const values: string[] = [];
+
+    childrenByName(row, 'c').forEach((cell, position) => {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : position;
+      const type = cell.getAttribute('t');
+      const raw = childrenByName(cell, 'v')[0]?.textContent ?? '';
+      let value = raw;
+
+      if (type === 's') {
+        value = sharedStrings[Number(raw)] ?? '';
+      } else if (type === 'inlineStr') {
+        const inline = childrenByName(cell, 'is')[0];
+        value = inline ? textContent(inline) : '';
+      } else if (type === 'b') {
+        value = raw === '1' ? 'TRUE' : 'FALSE';
+      } else if ((!type || type === 'n') && raw !== '' && dateStyles.has(Number(cell.getAttribute('s')))) {
+        value = excelSerialToString(Number(raw));
+      }
+
+      values[index] = value;
+    });
+
+    // Keep blank rows in place so row numbers line up with the spreadsheet
+    records[rowNumber - 1] = Array.from(values, value => value ?? '');
+  });
+
+  const filled = Array.from(records, record => record ?? []).filter(record => record.some(cell => cell.trim() !== ''));
+  if (filled.length === 0) {
+    throw new Error('XLSX worksheet is empty');
+  }
+
+  const headers = filled[0].map(header => header.trim());
+  const rows = filled.slice(1).map(record => headers.map((_, index) => (record[index] ?? '').trim()));
+  return { headers, rows };
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and line breaks are not allowed in XML
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+const columnName = (index: number) => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+function cellXml(value: unknown, ref: string, bold: boolean): string {
+  if (value === null || value === undefined || value === '') return '';
+  // Style 1 is the bold font in the stylesheet written below
+  const style = bold ? ' s="1"' : '';
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"${style}><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}"${style} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+/**
+ * Build a single-sheet workbook. The first row is written as a bold header.
+ */
+export function writeXLSX(rows: unknown[][], sheetName = 'Sheet1'): Blob {
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const safeSheetName = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1');
+
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row
+      .map((value, columnIndex) => cellXml(value, `${columnName(columnIndex)}${rowIndex + 1}`, rowIndex === 0))
+      .join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  const files: Record<string, string> = {
+    '[Content_Types].xml': `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`,
+    '_rels/.rels': `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    'xl/workbook.xml': `${xmlHeader}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+    'xl/styles.xml': `${xmlHeader}<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`,
+    'xl/worksheets/sheet1.xml': `${xmlHeader}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows}</sheetData></worksheet>`
+  };
+
+  return writeZip(Object.entries(files).map(([name, content]) => ({ name, data: textEncoder.encode(content) })));
+}
@@ -0,0 +1,153 @@
+// Lead Conversion
+// Turns a lead into a contact, its company and an optional opening deal. The database
+// work runs in one transaction (the convert_lead function); embeddings are refreshed after.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { getStageOutcome, getStageProbability, type Pipeline } from '@/lib/pipelines';
+import { resolveForecastCategory } from '@/lib/forecast';
+import { updateLeadWithEmbeddings } from '@/lib/ai/leadEmbeddingManager';
+import { updateContactWithEmbeddings } from '@/lib/ai/contactEmbeddingManager';
+import { updateDealWithEmbeddings } from '@/lib/ai/dealEmbeddingManager';
+import { generateCompositeEmbedding } from '@/lib/ai/compositeEmbeddingService';
+
+export interface ConversionContact {
+  name: string;
+  email?: string;
+  phone?: string;
+  title?: string;
+  company?: string;
+}
+
+export interface ConversionDeal {
+  title: string;
+  value: number;
+  pipeline: Pipeline | undefined;
+  stage: string;
+  expectedCloseDate?: string | null;
+}
+
+export interface LeadConversionInput {
+  // Link to this company instead of matching the lead's company by name
+  companyId?: string | null;
+  // Create a company when the name matches none; ignored when companyId is set
+  createCompany?: boolean;
+  contact: ConversionContact;
+  deal?: ConversionDeal | null;
+}
+
+export interface LeadConversionResult {
+  contactId: string;
+  companyId: string | null;
+  dealId: string | null;
+  companyCreated: boolean;
+  activitiesMoved: number;
+  filesMoved: number;
+}
+
+/**
+ * The company a conversion links to when none is chosen: same name, ignoring case and
+ * surrounding whitespace, as the database function matches it
+ */
+export function matchCompanyByName<T extends { name: string }>(companies: T[], name: string | null | undefined): T | undefined {
+  const key = name?.trim().toLowerCase();
+  return key ? companies.find(company => company.name.trim().toLowerCase() === key) : undefined;
+}
+
+/**
+ * How many activities and files will move to the new records
+ */
+export async function countLeadAttachments(userId: string, leadId: string): Promise<{ activities: number; files: number }> {
+  const [activities, files] = await Promise.all([
+    supabase.from('activities').select('id', { count: 'exact', head: true }).eq('lead_id', leadId).eq('user_id', userId),
+    supabase.from('files').select('id', { count: 'exact', head: true }).eq('lead_id', leadId).eq('user_id', userId)
+  ]);
+
+  if (activities.error) throw activities.error;
+  if (files.error) throw files.error;
+  return { activities: activities.count || 0, files: files.count || 0 };
+}
+
+/**
+ * Refresh the embeddings of everything a conversion touched. Failures are logged
+ * rather than thrown: the conversion itself has already been committed.
+ */
+async function refreshConversionEmbeddings(
+  userId: string,
+  leadId: string,
+  input: LeadConversionInput,
+  result: LeadConversionResult
+): Promise<void> {
+  const tasks: Promise<void>[] = [
+    updateLeadWithEmbeddings(leadId, { status: 'converted' }, userId),
+    updateContactWithEmbeddings(result.contactId, { name: input.contact.name, title: input.contact.title || undefined }, userId)
+      .then(() => generateCompositeEmbedding({ entityType: 'contact', entityId: result.contactId, userId }))
+  ];
+
+  if (result.dealId && input.deal) {
+    const dealId = result.dealId;
+    tasks.push(
+      updateDealWithEmbeddings(dealId, { title: input.deal.title }, userId)
+        .then(() => generateCompositeEmbedding({ entityType: 'deal', entityId: dealId, userId }))
+    );
+  }
+
+  const outcomes = await Promise.allSettled(tasks);
+  outcomes.forEach(outcome => {
+    if (outcome.status === 'rejected') {
+      console.error('Error refreshing embeddings after lead conversion:', outcome.reason);
+    }
+  });
+}
+
+/**
+ * Convert a lead. The company, contact, deal, moved activities and files and the lead's
+ * conversion links are written together or not at all.
+ */
+export async function convertLead(userId: string, leadId: string, input: LeadConversionInput): Promise<LeadConversionResult> {
+  const { deal } = input;
+  let dealParams: Json | null = null;
+
+  if (deal) {
+    const outcome = getStageOutcome(deal.pipeline, deal.stage);
+    dealParams = {
+      title: deal.title.trim(),
+      value: deal.value,
+      stage: deal.stage,
+      pipeline_id: deal.pipeline?.id || null,
+      probability: getStageProbability(deal.pipeline, deal.stage),
+      outcome,
+      forecast_category: resolveForecastCategory(null, outcome),
+      expected_close_date: deal.expectedCloseDate || null
+    };
+  }
+
+  const { data, error } = await supabase.rpc('convert_lead', {
+    p_lead_id: leadId,
+    p_company_id: input.companyId || null,
+    p_create_company: input.createCompany ?? true,
+    p_contact: {
+      name: input.contact.name.trim(),
+      email: input.contact.email?.trim() || null,
+      phone: input.contact.phone?.trim() || null,
+      title: input.contact.title?.trim() || null,
+      company: input.contact.company?.trim() || null
+    },
+    p_deal: dealParams
+  });
+
+  if (error) throw error;
+
+  const row = data as Record<string, Json>;
+  const result: LeadConversionResult = {
+    contactId: String(row.contact_id),
+    companyId: row.company_id ? String(row.company_id) : null,
+    dealId: row.deal_id ? String(row.deal_id) : null,
+    companyCreated: row.company_created === true,
+    activitiesMoved: Number(row.activities_moved || 0),
+    filesMoved: Number(row.files_moved || 0)
+  };
+
+  await refreshConversionEmbeddings(userId, leadId, input, result);
+  return result;
+}
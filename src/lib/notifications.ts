@@ -0,0 +1,136 @@
+// Notifications
+// The notification inbox. Database triggers post mentions, replies, assignments and deals
+// being won or lost; due tasks are posted when the app calls notify_due_tasks; workflows
+// post their own. New rows arrive over a Realtime channel. Each user can switch kinds off.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type NotificationSource = 'mention' | 'reply' | 'assignment' | 'deal_won' | 'deal_lost' | 'task_due' | 'workflow';
+
+export type AppNotification = Tables<'notifications'>;
+
+export type NotificationPreferences = Pick<
+  Tables<'notification_preferences'>,
+  'mentions' | 'assignments' | 'deal_outcomes' | 'tasks_due' | 'toasts'
+>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  mentions: true,
+  assignments: true,
+  deal_outcomes: true,
+  tasks_due: true,
+  toasts: true
+};
+
+export const NOTIFICATION_PREFERENCE_OPTIONS: { key: keyof NotificationPreferences; label: string; description: string }[] = [
+  { key: 'mentions', label: 'Mentions and replies', description: 'Someone @mentions you or replies to your comment' },
+  { key: 'assignments', label: 'Assignments', description: 'A deal, contact, lead or company is given to you' },
+  { key: 'deal_outcomes', label: 'Deals won or lost', description: 'A deal you own or created closes' },
+  { key: 'tasks_due', label: 'Due tasks', description: 'One of your pending activities falls due' },
+  { key: 'toasts', label: 'Pop-ups', description: 'Show new notifications as they arrive' }
+];
+
+export const NOTIFICATION_SOURCE_LABELS: Record<NotificationSource, string> = {
+  mention: 'Mention',
+  reply: 'Reply',
+  assignment: 'Assignment',
+  deal_won: 'Deal won',
+  deal_lost: 'Deal lost',
+  task_due: 'Task due',
+  workflow: 'Workflow'
+};
+
+export async function fetchNotifications(userId: string, unreadOnly = false, limit = 50): Promise<AppNotification[]> {
+  let query = supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (unreadOnly) {
+    query = query.is('read_at', null);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+export async function countUnreadNotifications(userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('read_at', null);
+  if (error) throw error;
+  return count || 0;
+}
+
+export async function setNotificationRead(notificationId: string, read: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: read ? new Date().toISOString() : null })
+    .eq('id', notificationId);
+  if (error) throw error;
+}
+
+export async function markAllNotificationsRead(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+  if (error) throw error;
+}
+
+export async function deleteNotification(notificationId: string): Promise<void> {
+  const { error } = await supabase.from('notifications').delete().eq('id', notificationId);
+  if (error) throw error;
+}
+
+export async function fetchNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('mentions, assignments, deal_outcomes, tasks_due, toasts')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data || DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+export async function saveNotificationPreferences(userId: string, preferences: NotificationPreferences): Promise<void> {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId, ...preferences }, { onConflict: 'user_id' });
+  if (error) throw error;
+}
+
+/**
+ * Post notifications for the user's activities that have fallen due. Returns how many were new.
+ */
+export async function notifyDueTasks(): Promise<number> {
+  const { data, error } = await supabase.rpc('notify_due_tasks');
+  if (error) throw error;
+  return data || 0;
+}
+
+/**
+ * Call `onNotification` for each notification posted to the user from now on. Returns
+ * a function that unsubscribes.
+ */
+export function subscribeToNotifications(userId: string, onNotification: (notification: AppNotification) => void): () => void {
+  const channel = supabase
+    .channel(`notifications:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+      (payload) => onNotification(payload.new as AppNotification)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,284 @@
+// Pipeline Configuration
+// Pipelines define the ordered stages a deal moves through, each stage's default
+// win probability and whether reaching it closes the deal as won or lost.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export type StageOutcome = 'won' | 'lost' | null;
+
+export interface PipelineStage {
+  name: string;
+  probability: number; // 0-100
+  outcome: StageOutcome;
+}
+
+export interface Pipeline {
+  id: string;
+  name: string;
+  is_default: boolean;
+  stages: PipelineStage[];
+  user_id: string;
+}
+
+export const DEFAULT_PIPELINE_NAME = 'New Business';
+
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { name: 'Discovery', probability: 25, outcome: null },
+  { name: 'Proposal', probability: 50, outcome: null },
+  { name: 'Negotiation', probability: 75, outcome: null },
+  { name: 'Closing', probability: 90, outcome: null },
+  { name: 'Closed Won', probability: 100, outcome: 'won' },
+  { name: 'Closed Lost', probability: 0, outcome: 'lost' }
+];
+
+// Used when a user's pipelines have not loaded yet
+const FALLBACK_PIPELINE: Pipeline = {
+  id: '',
+  name: DEFAULT_PIPELINE_NAME,
+  is_default: true,
+  stages: DEFAULT_PIPELINE_STAGES,
+  user_id: ''
+};
+
+/**
+ * Normalise the JSONB `stages` column, dropping malformed entries
+ */
+export function parseStages(raw: Json | null | undefined): PipelineStage[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((stage): stage is { [key: string]: Json } => !!stage && typeof stage === 'object' && !Array.isArray(stage))
+    .filter(stage => typeof stage.name === 'string' && stage.name.trim() !== '')
+    .map(stage => ({
+      name: (stage.name as string).trim(),
+      probability: Math.min(100, Math.max(0, Number(stage.probability) || 0)),
+      outcome: stage.outcome === 'won' || stage.outcome === 'lost' ? stage.outcome : null
+    }));
+}
+
+function toPipeline(row: Tables<'pipelines'>): Pipeline {
+  return {
+    id: row.id,
+    name: row.name,
+    is_default: row.is_default,
+    stages: parseStages(row.stages),
+    user_id: row.user_id
+  };
+}
+
+/**
+ * Check a stage list before saving. Returns an error message, or null when valid.
+ */
+export function validateStages(stages: PipelineStage[]): string | null {
+  if (stages.length === 0) {
+    return 'A pipeline needs at least one stage';
+  }
+
+  const names = stages.map(stage => stage.name.trim().toLowerCase());
+  if (names.some(name => name === '')) {
+    return 'Every stage needs a name';
+  }
+  if (new Set(names).size !== names.length) {
+    return 'Stage names must be unique within a pipeline';
+  }
+  if (stages.some(stage => stage.probability < 0 || stage.probability > 100)) {
+    return 'Probabilities must be between 0 and 100';
+  }
+  if (!stages.some(stage => stage.outcome === null)) {
+    return 'A pipeline needs at least one open stage';
+  }
+
+  return null;
+}
+
+/**
+ * Fetch the user's pipelines, default first, followed by their teammates' so the team's
+ * deals resolve against the pipeline they are in. A default pipeline with the standard
+ * stages is created the first time so every user always has one to work with.
+ */
+export async function fetchPipelines(userId: string, client: typeof supabase = supabase): Promise<Pipeline[]> {
+  const { data, error } = await client
+    .from('pipelines')
+    .select('*')
+    .order('is_default', { ascending: false })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const teamPipelines = (data || []).filter(row => row.user_id !== userId).map(toPipeline);
+  const ownPipelines = (data || []).filter(row => row.user_id === userId).map(toPipeline);
+  if (ownPipelines.length > 0) {
+    return [...ownPipelines, ...teamPipelines];
+  }
+
+  const { data: created, error: createError } = await client
+    .from('pipelines')
+    .insert({
+      user_id: userId,
+      name: DEFAULT_PIPELINE_NAME,
+      is_default: true,
+      stages: DEFAULT_PIPELINE_STAGES as unknown as Json
+    })
+    .select('*')
+    .single();
+
+  if (createError) throw createError;
+  return [toPipeline(created), ...teamPipelines];
+}
+
+/**
+ * Create or update a pipeline. Marking a pipeline as default clears the flag on the others.
+ */
+export async function savePipeline(
+  userId: string,
+  pipeline: { id?: string; name: string; is_default?: boolean; stages: PipelineStage[] }
+): Promise<Pipeline> {
+  const validationError = validateStages(pipeline.stages);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+  if (!pipeline.name.trim()) {
+    throw new Error('Pipeline name is required');
+  }
+
+  if (pipeline.is_default) {
+    let clearDefault = supabase
+      .from('pipelines')
+      .update({ is_default: false })
+      .eq('user_id', userId)
+      .eq('is_default', true);
+    if (pipeline.id) {
+      clearDefault = clearDefault.neq('id', pipeline.id);
+    }
+    const { error } = await clearDefault;
+    if (error) throw error;
+  }
+
+  const values = {
+    name: pipeline.name.trim(),
+    is_default: !!pipeline.is_default,
+    stages: pipeline.stages.map(stage => ({ ...stage, name: stage.name.trim() })) as unknown as Json
+  };
+
+  const { data, error } = pipeline.id
+    ? await supabase
+        .from('pipelines')
+        .update(values)
+        .eq('id', pipeline.id)
+        .eq('user_id', userId)
+        .select('*')
+        .single()
+    : await supabase
+        .from('pipelines')
+        .insert({ ...values, user_id: userId })
+        .select('*')
+        .single();
+
+  if (error) throw error;
+  return toPipeline(data);
+}
+
+/**
+ * Delete a pipeline. The default pipeline cannot be deleted; its deals would have nowhere to go.
+ * Deals in a deleted pipeline are moved to the default one.
+ */
+export async function deletePipeline(userId: string, pipeline: Pipeline, defaultPipelineId: string): Promise<void> {
+  if (pipeline.is_default) {
+    throw new Error('The default pipeline cannot be deleted');
+  }
+
+  const { error: moveError } = await supabase
+    .from('deals')
+    .update({ pipeline_id: defaultPipelineId })
+    .eq('pipeline_id', pipeline.id)
+    .eq('user_id', userId);
+
+  if (moveError) throw moveError;
+
+  const { error } = await supabase
+    .from('pipelines')
+    .delete()
+    .eq('id', pipeline.id)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+/**
+ * The user's default pipeline; fetchPipelines lists the user's own before their teammates'
+ */
+export function getDefaultPipeline(pipelines: Pipeline[]): Pipeline | undefined {
+  return pipelines.find(pipeline => pipeline.is_default) || pipelines[0];
+}
+
+/**
+ * The pipeline a deal belongs to; deals without one fall back to the default pipeline
+ */
+export function getPipelineForDeal(pipelines: Pipeline[], deal: { pipeline_id?: string | null }): Pipeline | undefined {
+  return pipelines.find(pipeline => pipeline.id === deal.pipeline_id) || getDefaultPipeline(pipelines);
+}
+
+export function findStage(pipeline: Pipeline | undefined, stageName: string | null | undefined): PipelineStage | undefined {
+  if (!stageName) return undefined;
+  const target = stageName.trim().toLowerCase();
+  return (pipeline || FALLBACK_PIPELINE).stages.find(stage => stage.name.toLowerCase() === target);
+}
+
+/**
+ * Stage names in pipeline order. With `openOnly`, won/lost stages are left out.
+ */
+export function getStageNames(pipeline: Pipeline | undefined, openOnly = false): string[] {
+  return (pipeline || FALLBACK_PIPELINE).stages.filter(stage => !openOnly || !stage.outcome).map(stage => stage.name);
+}
+
+/**
+ * Stage names across several pipelines, each pipeline's order preserved and duplicates removed
+ */
+export function getCombinedStageNames(pipelines: Pipeline[], openOnly = false): string[] {
+  const names: string[] = [];
+  (pipelines.length > 0 ? pipelines : [undefined]).forEach(pipeline => {
+    getStageNames(pipeline, openOnly).forEach(name => {
+      if (!names.includes(name)) names.push(name);
+    });
+  });
+  return names;
+}
+
+/**
+ * Position of a stage within its pipeline, for sorting. Unknown stages sort last.
+ */
+export function getStageIndex(pipeline: Pipeline | undefined, stageName: string | null | undefined): number {
+  const index = getStageNames(pipeline).findIndex(name => name.toLowerCase() === (stageName || '').toLowerCase());
+  return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+}
+
+/**
+ * Default probability for a stage, or null when the stage is not part of the pipeline
+ */
+export function getStageProbability(pipeline: Pipeline | undefined, stageName: string | null | undefined): number | null {
+  const stage = findStage(pipeline, stageName);
+  return stage ? stage.probability : null;
+}
+
+/**
+ * Deal outcome implied by a stage: 'won' / 'lost' for terminal stages, otherwise 'in_progress'
+ */
+export function getStageOutcome(pipeline: Pipeline | undefined, stageName: string | null | undefined): 'won' | 'lost' | 'in_progress' {
+  const stage = findStage(pipeline, stageName);
+  return stage?.outcome || 'in_progress';
+}
+
+/**
+ * A deal's effective outcome. An explicit won/lost outcome wins; otherwise a deal
+ * sitting in a won/lost stage of its pipeline counts as closed.
+ */
+export function resolveDealOutcome(
+  pipelines: Pipeline[],
+  deal: { outcome?: string | null; stage?: string | null; pipeline_id?: string | null }
+): 'won' | 'lost' | 'in_progress' {
+  if (deal.outcome === 'won' || deal.outcome === 'lost') {
+    return deal.outcome;
+  }
+  return getStageOutcome(getPipelineForDeal(pipelines, deal), deal.stage);
+}
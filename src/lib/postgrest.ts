@@ -0,0 +1,15 @@
+// PostgREST Filters
+// Helpers for building PostgREST filter strings by hand, for the `or()` logic filters the
+// segments and the CRM tools compose from user and model input.
+
+/**
+ * Quote a value for a PostgREST logic filter when it contains reserved characters
+ */
+export function quote(value: string): string {
+  return /[,.:()"\\\s]/.test(value) ? `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"` : value;
+}
+
+/**
+ * Escape ilike's wildcards so the value matches literally
+ */
+export const likeLiteral = (value: string) => value.replace(/[\\%_]/g, char => `\\${char}`);
@@ -0,0 +1,260 @@
+// Reporting Module
+// Pure functions that turn raw deals/activities/leads rows into chart series.
+
+import type { Tables } from '@/integrations/supabase/types';
+import { getCombinedStageNames, getPipelineForDeal, getStageNames, resolveDealOutcome, type Pipeline } from '@/lib/pipelines';
+
+type Deal = Tables<'deals'>;
+type Activity = Tables<'activities'>;
+type Lead = Tables<'leads'>;
+
+export interface ReportFilters {
+  from?: Date | null;
+  to?: Date | null;
+  ownerId?: string; // 'all' or a user id
+  pipelineId?: string; // 'all' or a pipeline id
+}
+
+export interface StageSeriesPoint {
+  stage: string;
+  count: number;
+  value: number;
+  weightedValue: number;
+}
+
+export interface MonthlyRevenuePoint {
+  monthKey: string; // YYYY-MM
+  month: string;    // display label, e.g. "Jan 2025"
+  revenue: number;
+  deals: number;
+}
+
+export interface ActivityMixPoint {
+  type: string;
+  name: string;
+  value: number;
+  color: string;
+}
+
+export interface ReportSummary {
+  wonRevenue: number;
+  openPipelineValue: number;
+  weightedPipelineValue: number;
+  openDeals: number;
+  avgWonDealSize: number;
+  winRate: number;
+  leadConversionRate: number;
+}
+
+export interface FunnelStep {
+  step: string;
+  count: number;
+  // Share of the previous step that reached this one, 0-100
+  rate: number;
+}
+
+export interface LeadFunnel {
+  steps: FunnelStep[];
+  avgDaysToConvert: number;
+}
+
+const ACTIVITY_COLORS: Record<string, string> = {
+  email: '#3b82f6',
+  call: '#10b981',
+  meeting: '#f59e0b',
+  task: '#8b5cf6',
+  note: '#64748b'
+};
+const FALLBACK_COLORS = ['#ef4444', '#14b8a6', '#ec4899', '#84cc16'];
+
+// Outcomes come from the deal itself or, failing that, from won/lost pipeline stages
+const outcomeOf = (deal: Deal, pipelines: Pipeline[]) => resolveDealOutcome(pipelines, deal);
+
+function inRange(timestamp: string | null | undefined, filters: ReportFilters): boolean {
+  if (!filters.from && !filters.to) return true;
+  if (!timestamp) return false;
+  const time = new Date(timestamp).getTime();
+  if (filters.from && time < startOfDay(filters.from).getTime()) return false;
+  if (filters.to && time > endOfDay(filters.to).getTime()) return false;
+  return true;
+}
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+function endOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(23, 59, 59, 999);
+  return result;
+}
+
+// Records belong to their owner; activities, which have none, to the user who logged them
+function matchesOwner(row: { user_id: string; owner_id?: string | null }, filters: ReportFilters): boolean {
+  return !filters.ownerId || filters.ownerId === 'all' || (row.owner_id || row.user_id) === filters.ownerId;
+}
+
+function matchesPipeline(deal: Deal, pipelines: Pipeline[], filters: ReportFilters): boolean {
+  return !filters.pipelineId || filters.pipelineId === 'all' || getPipelineForDeal(pipelines, deal)?.id === filters.pipelineId;
+}
+
+/**
+ * Deals matching the owner and pipeline filters (the date range is left to each report)
+ */
+export function filterDealsByOwnerAndPipeline(deals: Deal[], filters: ReportFilters = {}, pipelines: Pipeline[] = []): Deal[] {
+  return deals.filter(deal => matchesOwner(deal, filters) && matchesPipeline(deal, pipelines, filters));
+}
+
+function monthKeyOf(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Open pipeline value per stage, in the order of the filtered pipeline (or of every
+ * pipeline combined). Only open deals count; unknown stages are appended after the
+ * known ones so nothing is silently dropped.
+ */
+export function computePipelineByStage(deals: Deal[], filters: ReportFilters = {}, pipelines: Pipeline[] = []): StageSeriesPoint[] {
+  const selectedPipeline = pipelines.find(pipeline => pipeline.id === filters.pipelineId);
+  const stageOrder = selectedPipeline ? getStageNames(selectedPipeline, true) : getCombinedStageNames(pipelines, true);
+  const byStage = new Map<string, StageSeriesPoint>(
+    stageOrder.map(stage => [stage, { stage, count: 0, value: 0, weightedValue: 0 }])
+  );
+
+  deals
+    .filter(deal => outcomeOf(deal, pipelines) === 'in_progress' && matchesOwner(deal, filters) && matchesPipeline(deal, pipelines, filters) && inRange(deal.created_at, filters))
+    .forEach(deal => {
+      const stage = deal.stage || 'Unstaged';
+      if (!byStage.has(stage)) {
+        byStage.set(stage, { stage, count: 0, value: 0, weightedValue: 0 });
+      }
+      const point = byStage.get(stage)!;
+      const value = Number(deal.value || 0);
+      point.count += 1;
+      point.value += value;
+      point.weightedValue += value * (Number(deal.probability || 0) / 100);
+    });
+
+  return Array.from(byStage.values()).map(point => ({
+    ...point,
+    weightedValue: Math.round(point.weightedValue)
+  }));
+}
+
+/**
+ * Won revenue per calendar month. A deal is attributed to the month of its
+ * `updated_at`, which is when the won outcome was recorded. Every month in the
+ * range is present (zero-filled); without a range the last 6 months are used.
+ */
+export function computeMonthlyWonRevenue(deals: Deal[], filters: ReportFilters = {}, pipelines: Pipeline[] = []): MonthlyRevenuePoint[] {
+  const to = filters.to ? new Date(filters.to) : new Date();
+  const from = filters.from ? new Date(filters.from) : new Date(to.getFullYear(), to.getMonth() - 5, 1);
+
+  const months = new Map<string, MonthlyRevenuePoint>();
+  const cursor = new Date(from.getFullYear(), from.getMonth(), 1);
+  while (cursor <= to) {
+    months.set(monthKeyOf(cursor), {
+      monthKey: monthKeyOf(cursor),
+      month: cursor.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+      revenue: 0,
+      deals: 0
+    });
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+
+  deals
+    .filter(deal => outcomeOf(deal, pipelines) === 'won' && matchesOwner(deal, filters) && matchesPipeline(deal, pipelines, filters) && inRange(deal.updated_at, { from, to }))
+    .forEach(deal => {
+      const point = months.get(monthKeyOf(new Date(deal.updated_at!)));
+      if (point) {
+        point.revenue += Number(deal.value || 0);
+        point.deals += 1;
+      }
+    });
+
+  return Array.from(months.values());
+}
+
+/**
+ * Count of activities per `type`, largest first
+ */
+export function computeActivityMix(activities: Activity[], filters: ReportFilters = {}): ActivityMixPoint[] {
+  const counts = new Map<string, number>();
+
+  activities
+    .filter(activity => matchesOwner(activity, filters) && inRange(activity.created_at, filters))
+    .forEach(activity => {
+      const type = (activity.type || 'other').toLowerCase();
+      counts.set(type, (counts.get(type) || 0) + 1);
+    });
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([type, value], index) => ({
+      type,
+      name: type.charAt(0).toUpperCase() + type.slice(1),
+      value,
+      color: ACTIVITY_COLORS[type] || FALLBACK_COLORS[index % FALLBACK_COLORS.length]
+    }));
+}
+
+/**
+ * Headline numbers for the overview cards
+ */
+export function computeReportSummary(deals: Deal[], leads: Lead[], filters: ReportFilters = {}, pipelines: Pipeline[] = []): ReportSummary {
+  const ownedDeals = deals.filter(deal => matchesOwner(deal, filters) && matchesPipeline(deal, pipelines, filters));
+  const wonDeals = ownedDeals.filter(deal => outcomeOf(deal, pipelines) === 'won' && inRange(deal.updated_at, filters));
+  const lostDeals = ownedDeals.filter(deal => outcomeOf(deal, pipelines) === 'lost' && inRange(deal.updated_at, filters));
+  const openDeals = ownedDeals.filter(deal => outcomeOf(deal, pipelines) === 'in_progress' && inRange(deal.created_at, filters));
+  const rangeLeads = leads.filter(lead => matchesOwner(lead, filters) && inRange(lead.created_at, filters));
+
+  const wonRevenue = wonDeals.reduce((sum, deal) => sum + Number(deal.value || 0), 0);
+  const closedCount = wonDeals.length + lostDeals.length;
+
+  return {
+    wonRevenue,
+    openPipelineValue: openDeals.reduce((sum, deal) => sum + Number(deal.value || 0), 0),
+    weightedPipelineValue: Math.round(openDeals.reduce((sum, deal) => sum + Number(deal.value || 0) * (Number(deal.probability || 0) / 100), 0)),
+    openDeals: openDeals.length,
+    avgWonDealSize: wonDeals.length > 0 ? wonRevenue / wonDeals.length : 0,
+    winRate: closedCount > 0 ? (wonDeals.length / closedCount) * 100 : 0,
+    leadConversionRate: rangeLeads.length > 0
+      ? (rangeLeads.filter(lead => lead.converted_contact_id).length / rangeLeads.length) * 100
+      : 0
+  };
+}
+
+/**
+ * Leads created in range and how far they got: converted to a contact, opened a deal
+ * during conversion, and won that deal. Follows the links the conversion recorded.
+ */
+export function computeLeadFunnel(leads: Lead[], deals: Deal[], filters: ReportFilters = {}, pipelines: Pipeline[] = []): LeadFunnel {
+  const rangeLeads = leads.filter(lead => matchesOwner(lead, filters) && inRange(lead.created_at, filters));
+  const converted = rangeLeads.filter(lead => lead.converted_contact_id);
+  const dealsById = new Map(deals.map(deal => [deal.id, deal]));
+  const withDeal = converted.filter(lead => lead.converted_deal_id && dealsById.has(lead.converted_deal_id));
+  const won = withDeal.filter(lead => outcomeOf(dealsById.get(lead.converted_deal_id!)!, pipelines) === 'won');
+
+  const counts: [string, number][] = [
+    ['Leads', rangeLeads.length],
+    ['Converted', converted.length],
+    ['Opening Deal', withDeal.length],
+    ['Won', won.length]
+  ];
+
+  const daysToConvert = converted
+    .filter(lead => lead.converted_at && lead.created_at)
+    .map(lead => (new Date(lead.converted_at!).getTime() - new Date(lead.created_at!).getTime()) / 86400000);
+
+  return {
+    steps: counts.map(([step, count], index) => {
+      const previous = index > 0 ? counts[index - 1][1] : count;
+      return { step, count, rate: previous > 0 ? (count / previous) * 100 : 0 };
+    }),
+    avgDaysToConvert: daysToConvert.length > 0
+      ? daysToConvert.reduce((sum, days) => sum + days, 0) / daysToConvert.length
+      : 0
+  };
+}
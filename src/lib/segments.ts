@@ -0,0 +1,774 @@
+// Segments
+// Saved audiences of contacts, leads, deals or companies. Criteria are a small DSL of
+// AND/OR groups holding field conditions (dates can be relative, e.g. "more than 30 days
+// ago") and conditions on related records ("has an open deal in Negotiation"), compiled
+// to a PostgREST filter plus filtered embeds of the related tables. Dynamic segments are
+// evaluated whenever they're used; static segments keep the members they matched when
+// saved, in segment_members.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { OWNED_ENTITIES, ownedByFilter, type OwnedEntity } from '@/lib/teams';
+import { fetchPipelines, type Pipeline } from '@/lib/pipelines';
+import { likeLiteral, quote } from '@/lib/postgrest';
+
+export type SegmentEntity = OwnedEntity;
+
+// Tables conditions can read: the segment entities and the related records below
+export type SegmentTable = SegmentEntity | 'activities' | 'email_tracking';
+
+// 'stage' fields offer the pipeline stages as choices
+export type SegmentFieldType = 'text' | 'number' | 'date' | 'choice' | 'stage';
+
+export type SegmentOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'gt'
+  | 'lt'
+  | 'is_any_of'
+  | 'is_none_of'
+  | 'more_than_days_ago'
+  | 'less_than_days_ago'
+  | 'before'
+  | 'after'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export interface SegmentFieldCondition {
+  kind: 'field';
+  field: string;
+  operator: SegmentOperator;
+  // Text, a number, a number of days, a YYYY-MM-DD date or (is_any_of / is_none_of) a list
+  value?: string | string[];
+}
+
+export interface SegmentRelatedCondition {
+  kind: 'related';
+  relation: string;
+  quantifier: 'has' | 'has_none';
+  // Conditions on the related record
+  where: SegmentGroup;
+}
+
+export interface SegmentGroup {
+  kind: 'group';
+  match: 'all' | 'any';
+  conditions: SegmentCondition[];
+}
+
+export type SegmentCondition = SegmentFieldCondition | SegmentRelatedCondition | SegmentGroup;
+
+export interface SegmentCriteria extends SegmentGroup {
+  version: 1;
+  entity: SegmentEntity;
+}
+
+export interface Segment {
+  id: string;
+  name: string;
+  description: string | null;
+  is_dynamic: boolean;
+  criteria: SegmentCriteria;
+  snapshot_at: string | null;
+  updated_at: string;
+}
+
+export type SegmentInput = Omit<Segment, 'id' | 'snapshot_at' | 'updated_at'> & { id?: string };
+
+export interface SegmentField {
+  value: string;
+  label: string;
+  type: SegmentFieldType;
+  options?: { value: string; label: string }[];
+}
+
+export interface SegmentRelation {
+  value: string;
+  label: string;
+  table: SegmentTable;
+  // 'child' records point at the segment record through foreignKey; a 'parent' record is
+  // the one the segment record's foreignKey points at
+  side: 'child' | 'parent';
+  foreignKey: string;
+}
+
+export interface SegmentPreview {
+  count: number;
+  sample: { id: string; name: string }[];
+}
+
+export const SEGMENT_ENTITIES: { value: SegmentEntity; label: string }[] = [
+  { value: 'contacts', label: 'Contacts' },
+  { value: 'leads', label: 'Leads' },
+  { value: 'deals', label: 'Deals' },
+  { value: 'companies', label: 'Companies' }
+];
+
+export const SEGMENT_OPERATORS: Record<SegmentFieldType, { value: SegmentOperator; label: string }[]> = {
+  text: [
+    { value: 'equals', label: 'is' },
+    { value: 'not_equals', label: 'is not' },
+    { value: 'contains', label: 'contains' },
+    { value: 'not_contains', label: 'does not contain' },
+    { value: 'is_empty', label: 'is empty' },
+    { value: 'is_not_empty', label: 'is not empty' }
+  ],
+  number: [
+    { value: 'equals', label: '=' },
+    { value: 'not_equals', label: '≠' },
+    { value: 'gt', label: '>' },
+    { value: 'lt', label: '<' },
+    { value: 'is_empty', label: 'is empty' },
+    { value: 'is_not_empty', label: 'is not empty' }
+  ],
+  date: [
+    { value: 'more_than_days_ago', label: 'more than N days ago' },
+    { value: 'less_than_days_ago', label: 'in the last N days' },
+    { value: 'before', label: 'before' },
+    { value: 'after', label: 'after' },
+    { value: 'is_empty', label: 'never / empty' },
+    { value: 'is_not_empty', label: 'is set' }
+  ],
+  choice: [
+    { value: 'is_any_of', label: 'is any of' },
+    { value: 'is_none_of', label: 'is none of' },
+    { value: 'is_empty', label: 'is empty' },
+    { value: 'is_not_empty', label: 'is not empty' }
+  ],
+  stage: [
+    { value: 'is_any_of', label: 'is any of' },
+    { value: 'is_none_of', label: 'is none of' }
+  ]
+};
+
+const options = (...values: string[]) => values.map(value => ({ value, label: value }));
+
+const CREATED_AT: SegmentField = { value: 'created_at', label: 'Created', type: 'date' };
+
+export const SEGMENT_FIELDS: Record<SegmentTable, SegmentField[]> = {
+  contacts: [
+    { value: 'name', label: 'Name', type: 'text' },
+    { value: 'email', label: 'Email', type: 'text' },
+    { value: 'company', label: 'Company', type: 'text' },
+    { value: 'title', label: 'Job title', type: 'text' },
+    { value: 'status', label: 'Status', type: 'choice', options: options('Cold Lead', 'Hot Lead', 'Qualified', 'Customer') },
+    { value: 'score', label: 'Score', type: 'number' },
+    { value: 'last_contact', label: 'Last contacted', type: 'date' },
+    CREATED_AT
+  ],
+  leads: [
+    { value: 'name', label: 'Name', type: 'text' },
+    { value: 'email', label: 'Email', type: 'text' },
+    { value: 'company', label: 'Company', type: 'text' },
+    { value: 'source', label: 'Source', type: 'choice', options: options('manual', 'form', 'import', 'integration') },
+    { value: 'status', label: 'Status', type: 'choice', options: options('new', 'contacted', 'qualified', 'unqualified', 'converted') },
+    { value: 'score', label: 'Score', type: 'number' },
+    CREATED_AT
+  ],
+  deals: [
+    { value: 'title', label: 'Title', type: 'text' },
+    { value: 'deal_status', label: 'Status', type: 'choice', options: [
+      { value: 'open', label: 'Open' },
+      { value: 'won', label: 'Won' },
+      { value: 'lost', label: 'Lost' }
+    ] },
+    { value: 'stage', label: 'Stage', type: 'stage' },
+    { value: 'value', label: 'Value', type: 'number' },
+    { value: 'probability', label: 'Probability', type: 'number' },
+    { value: 'company', label: 'Company', type: 'text' },
+    { value: 'expected_close_date', label: 'Expected close', type: 'date' },
+    { value: 'last_activity', label: 'Last activity', type: 'date' },
+    CREATED_AT
+  ],
+  companies: [
+    { value: 'name', label: 'Name', type: 'text' },
+    { value: 'industry', label: 'Industry', type: 'text' },
+    { value: 'status', label: 'Status', type: 'text' },
+    { value: 'country', label: 'Country', type: 'text' },
+    { value: 'employees', label: 'Employees', type: 'number' },
+    { value: 'revenue', label: 'Revenue', type: 'number' },
+    { value: 'score', label: 'Score', type: 'number' },
+    { value: 'last_contact', label: 'Last contacted', type: 'date' },
+    CREATED_AT
+  ],
+  activities: [
+    { value: 'type', label: 'Type', type: 'choice', options: options('call', 'email', 'meeting', 'note', 'task') },
+    { value: 'status', label: 'Status', type: 'choice', options: options('pending', 'completed', 'cancelled', 'rescheduled') },
+    { value: 'subject', label: 'Subject', type: 'text' },
+    { value: 'due_date', label: 'Due', type: 'date' },
+    { value: 'completed_at', label: 'Completed', type: 'date' },
+    CREATED_AT
+  ],
+  email_tracking: [
+    { value: 'type', label: 'Direction', type: 'choice', options: options('sent', 'received') },
+    { value: 'subject', label: 'Subject', type: 'text' },
+    { value: 'sent_at', label: 'Sent', type: 'date' },
+    { value: 'opened_at', label: 'Opened', type: 'date' },
+    { value: 'clicked_at', label: 'Clicked', type: 'date' },
+    { value: 'replied_at', label: 'Replied', type: 'date' },
+    { value: 'bounced_at', label: 'Bounced', type: 'date' }
+  ]
+};
+
+export const SEGMENT_RELATIONS: Record<SegmentEntity, SegmentRelation[]> = {
+  contacts: [
+    { value: 'deals', label: 'deal', table: 'deals', side: 'child', foreignKey: 'contact_id' },
+    { value: 'activities', label: 'activity', table: 'activities', side: 'child', foreignKey: 'contact_id' },
+    { value: 'emails', label: 'email', table: 'email_tracking', side: 'child', foreignKey: 'contact_id' },
+    { value: 'company', label: 'company', table: 'companies', side: 'parent', foreignKey: 'company_id' }
+  ],
+  leads: [
+    { value: 'activities', label: 'activity', table: 'activities', side: 'child', foreignKey: 'lead_id' },
+    { value: 'emails', label: 'email', table: 'email_tracking', side: 'child', foreignKey: 'lead_id' },
+    { value: 'company', label: 'company', table: 'companies', side: 'parent', foreignKey: 'company_id' }
+  ],
+  deals: [
+    { value: 'contact', label: 'contact', table: 'contacts', side: 'parent', foreignKey: 'contact_id' },
+    { value: 'company', label: 'company', table: 'companies', side: 'parent', foreignKey: 'company_id' },
+    { value: 'activities', label: 'activity', table: 'activities', side: 'child', foreignKey: 'deal_id' },
+    { value: 'emails', label: 'email', table: 'email_tracking', side: 'child', foreignKey: 'deal_id' }
+  ],
+  companies: [
+    { value: 'contacts', label: 'contact', table: 'contacts', side: 'child', foreignKey: 'company_id' },
+    { value: 'leads', label: 'lead', table: 'leads', side: 'child', foreignKey: 'company_id' },
+    { value: 'deals', label: 'deal', table: 'deals', side: 'child', foreignKey: 'company_id' },
+    { value: 'activities', label: 'activity', table: 'activities', side: 'child', foreignKey: 'company_id' }
+  ]
+};
+
+const group = (match: SegmentGroup['match'], conditions: SegmentCondition[]): SegmentGroup => ({ kind: 'group', match, conditions });
+
+const field = (name: string, operator: SegmentOperator, value?: string | string[]): SegmentFieldCondition => ({
+  kind: 'field',
+  field: name,
+  operator,
+  ...(value === undefined ? {} : { value })
+});
+
+/**
+ * Starting points offered when creating a segment
+ */
+export const SEGMENT_PRESETS: { name: string; description: string; criteria: SegmentCriteria }[] = [
+  {
+    name: 'High Risk Deals',
+    description: 'Open deals with low probability and no activity in 5 days',
+    criteria: {
+      version: 1,
+      entity: 'deals',
+      ...group('all', [
+        field('deal_status', 'is_any_of', ['open']),
+        field('probability', 'lt', '40'),
+        group('any', [field('last_activity', 'more_than_days_ago', '5'), field('last_activity', 'is_empty')])
+      ])
+    }
+  },
+  {
+    name: 'Stalled Deals',
+    description: 'Open deals with no activity in the last 7 days',
+    criteria: {
+      version: 1,
+      entity: 'deals',
+      ...group('all', [
+        field('deal_status', 'is_any_of', ['open']),
+        group('any', [field('last_activity', 'more_than_days_ago', '7'), field('last_activity', 'is_empty')])
+      ])
+    }
+  },
+  {
+    name: 'Contacts in Negotiation',
+    description: 'Contacts with an open deal in Negotiation',
+    criteria: {
+      version: 1,
+      entity: 'contacts',
+      ...group('all', [
+        {
+          kind: 'related',
+          relation: 'deals',
+          quantifier: 'has',
+          where: group('all', [field('deal_status', 'is_any_of', ['open']), field('stage', 'is_any_of', ['Negotiation'])])
+        }
+      ])
+    }
+  },
+  {
+    name: 'Gone Quiet',
+    description: 'Contacts last contacted more than 30 days ago',
+    criteria: {
+      version: 1,
+      entity: 'contacts',
+      ...group('all', [field('last_contact', 'more_than_days_ago', '30')])
+    }
+  }
+];
+
+// Rows per request when reading every match; PostgREST caps a response at 1000
+const PAGE_SIZE = 1000;
+const MEMBER_INSERT_BATCH = 500;
+// Ids per `in` filter when reading static members, to keep request URLs short
+const ID_BATCH = 200;
+
+// Filters that match every record and none, for empty lists
+const MATCH_ALL = 'id.not.is.null';
+const MATCH_NONE = 'id.is.null';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const unique = <T,>(items: T[]): T[] => Array.from(new Set(items));
+
+const chunk = <T,>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, i * size + size));
+
+export function newSegmentCriteria(entity: SegmentEntity): SegmentCriteria {
+  return { version: 1, entity, ...group('all', []) };
+}
+
+export function newFieldCondition(table: SegmentTable): SegmentFieldCondition {
+  const first = SEGMENT_FIELDS[table][0];
+  return field(first.value, SEGMENT_OPERATORS[first.type][0].value, '');
+}
+
+export function findSegmentField(table: SegmentTable, name: string): SegmentField | undefined {
+  return SEGMENT_FIELDS[table].find(f => f.value === name);
+}
+
+export function findSegmentRelation(entity: SegmentEntity, name: string): SegmentRelation | undefined {
+  return SEGMENT_RELATIONS[entity].find(relation => relation.value === name);
+}
+
+const needsValue = (operator: SegmentOperator) => operator !== 'is_empty' && operator !== 'is_not_empty';
+
+const isSegmentEntity = (table: SegmentTable): table is SegmentEntity => table in SEGMENT_RELATIONS;
+
+/**
+ * Normalise stored criteria. Anything unreadable becomes an empty contacts segment.
+ */
+export function parseSegmentCriteria(raw: Json | null | undefined): SegmentCriteria {
+  const criteria = raw as unknown as Partial<SegmentCriteria> | null;
+  if (!criteria || typeof criteria !== 'object' || !Array.isArray(criteria.conditions)) {
+    return newSegmentCriteria('contacts');
+  }
+  return {
+    version: 1,
+    entity: criteria.entity && criteria.entity in SEGMENT_RELATIONS ? criteria.entity : 'contacts',
+    kind: 'group',
+    match: criteria.match === 'any' ? 'any' : 'all',
+    conditions: criteria.conditions
+  };
+}
+
+/**
+ * The first problem with a group's conditions, or null when they can be compiled
+ */
+export function validateSegmentGroup(table: SegmentTable, segmentGroup: SegmentGroup): string | null {
+  for (const condition of segmentGroup.conditions) {
+    if (condition.kind === 'group') {
+      const problem = validateSegmentGroup(table, condition);
+      if (problem) return problem;
+      continue;
+    }
+
+    if (condition.kind === 'related') {
+      const relation = isSegmentEntity(table) ? findSegmentRelation(table, condition.relation) : undefined;
+      if (!relation) return `Unknown related record "${condition.relation}"`;
+      const problem = validateSegmentGroup(relation.table, condition.where);
+      if (problem) return problem;
+      continue;
+    }
+
+    const segmentField = findSegmentField(table, condition.field);
+    if (!segmentField) return `Unknown field "${condition.field}"`;
+    if (!needsValue(condition.operator)) continue;
+
+    const values = Array.isArray(condition.value) ? condition.value : [String(condition.value ?? '').trim()].filter(Boolean);
+    if (values.length === 0) return `${segmentField.label} needs a value`;
+
+    const text = values[0];
+    if (segmentField.type === 'number' && Number.isNaN(Number(text))) {
+      return `${segmentField.label} needs a number`;
+    }
+    if (['more_than_days_ago', 'less_than_days_ago'].includes(condition.operator) && !(Number(text) >= 0)) {
+      return `${segmentField.label} needs a number of days`;
+    }
+    if (['before', 'after'].includes(condition.operator) && Number.isNaN(Date.parse(text))) {
+      return `${segmentField.label} needs a date`;
+    }
+  }
+  return null;
+}
+
+export function validateSegmentCriteria(criteria: SegmentCriteria): string | null {
+  return validateSegmentGroup(criteria.entity, criteria);
+}
+
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+
+const inList = (column: string, values: string[]) => `${column}.in.(${values.map(quote).join(',')})`;
+
+const allOf = (terms: string[]) => (terms.length === 1 ? terms[0] : `and(${terms.join(',')})`);
+const anyOf = (terms: string[]) => (terms.length === 1 ? terms[0] : `or(${terms.join(',')})`);
+
+/**
+ * Deals are open, won or lost by their outcome, or else by what their stage means in its
+ * pipeline (see resolveDealOutcome)
+ */
+function dealStatusFilter(statuses: string[], pipelines: Pipeline[]): string {
+  const stagesWith = (outcome: 'won' | 'lost') =>
+    unique(pipelines.flatMap(pipeline => pipeline.stages.filter(stage => stage.outcome === outcome).map(stage => stage.name)));
+  const closedStages = [...stagesWith('won'), ...stagesWith('lost')];
+  const undecided = 'or(outcome.is.null,outcome.not.in.(won,lost))';
+
+  const byStatus: Record<string, string> = {
+    won: stagesWith('won').length
+      ? `or(outcome.eq.won,and(${undecided},${inList('stage', stagesWith('won'))}))`
+      : 'outcome.eq.won',
+    lost: stagesWith('lost').length
+      ? `or(outcome.eq.lost,and(${undecided},${inList('stage', stagesWith('lost'))}))`
+      : 'outcome.eq.lost',
+    open: closedStages.length
+      ? `and(${undecided},or(stage.is.null,stage.not.in.(${closedStages.map(quote).join(',')})))`
+      : undecided
+  };
+
+  const terms = statuses.map(status => byStatus[status]).filter(Boolean);
+  return terms.length ? anyOf(terms) : MATCH_NONE;
+}
+
+function fieldFilter(table: SegmentTable, condition: SegmentFieldCondition, pipelines: Pipeline[]): string {
+  const segmentField = findSegmentField(table, condition.field);
+  if (!segmentField) throw new Error(`Unknown field "${condition.field}"`);
+
+  const column = segmentField.value;
+  const isText = segmentField.type === 'text';
+  const text = Array.isArray(condition.value) ? '' : String(condition.value ?? '').trim();
+  const values = Array.isArray(condition.value) ? condition.value : text ? [text] : [];
+
+  if (column === 'deal_status') {
+    const chosen = condition.operator === 'is_none_of'
+      ? ['open', 'won', 'lost'].filter(status => !values.includes(status))
+      : values;
+    return dealStatusFilter(chosen, pipelines);
+  }
+
+  switch (condition.operator) {
+    case 'equals':
+      return isText ? `${column}.ilike.${quote(likeLiteral(text))}` : `${column}.eq.${quote(text)}`;
+    case 'not_equals':
+      return `or(${column}.is.null,${isText ? `${column}.not.ilike.${quote(likeLiteral(text))}` : `${column}.neq.${quote(text)}`})`;
+    case 'contains':
+      return `${column}.ilike.${quote(`*${likeLiteral(text)}*`)}`;
+    case 'not_contains':
+      return `or(${column}.is.null,${column}.not.ilike.${quote(`*${likeLiteral(text)}*`)})`;
+    case 'gt':
+      return `${column}.gt.${Number(text)}`;
+    case 'lt':
+      return `${column}.lt.${Number(text)}`;
+    case 'is_any_of':
+      return values.length ? inList(column, values) : MATCH_NONE;
+    case 'is_none_of':
+      return values.length ? `or(${column}.is.null,${column}.not.in.(${values.map(quote).join(',')}))` : MATCH_ALL;
+    case 'more_than_days_ago':
+      return `${column}.lt.${quote(daysAgo(Number(text)))}`;
+    case 'less_than_days_ago':
+      return `${column}.gte.${quote(daysAgo(Number(text)))}`;
+    case 'before':
+      return `${column}.lt.${quote(new Date(text).toISOString())}`;
+    case 'after':
+      // After the whole day, not its first moment
+      return `${column}.gte.${quote(new Date(Date.parse(text) + DAY_MS).toISOString())}`;
+    case 'is_empty':
+      return isText ? `or(${column}.is.null,${column}.eq."")` : `${column}.is.null`;
+    case 'is_not_empty':
+      return isText ? `and(${column}.not.is.null,${column}.neq."")` : `${column}.not.is.null`;
+    default:
+      throw new Error(`Unknown operator "${condition.operator}"`);
+  }
+}
+
+/**
+ * Only the user's own and owned records count, like everywhere else in the app
+ */
+function scopeFilter(table: SegmentTable, userId: string): string {
+  return isSegmentEntity(table) ? `or(${ownedByFilter(userId)})` : `user_id.eq.${userId}`;
+}
+
+// A related-record condition, evaluated by PostgREST as an embed of the related table that
+// only keeps matching rows. The condition is then the embed being non-null (has) or null
+// (has none), so no ids travel in the request.
+interface RelatedEmbed {
+  alias: string;
+  table: SegmentTable;
+  foreignKey: string;
+  filter: string;
+  related: RelatedEmbed[];
+}
+
+interface CompiledSegment {
+  filter: string;
+  related: RelatedEmbed[];
+}
+
+interface CompileContext {
+  userId: string;
+  pipelines: Pipeline[];
+  // Embeds of the table being compiled, and a counter for their aliases
+  related: RelatedEmbed[];
+  aliases: { next: number };
+}
+
+// Empty embeds filter without adding anything to the response
+const embedSelect = (embed: RelatedEmbed): string =>
+  `${embed.alias}:${embed.table}!${embed.foreignKey}(${embed.related.map(embedSelect).join(',')})`;
+
+const selectWithRelated = (columns: string, compiled: CompiledSegment) =>
+  [columns, ...compiled.related.map(embedSelect)].join(',');
+
+type FilterableQuery = { or: (filters: string, options?: { referencedTable?: string }) => FilterableQuery };
+
+function filterRelated<Q extends FilterableQuery>(query: Q, related: RelatedEmbed[], path = ''): Q {
+  return related.reduce((filtered, embed) => {
+    const embedPath = path ? `${path}.${embed.alias}` : embed.alias;
+    return filterRelated(filtered.or(embed.filter, { referencedTable: embedPath }) as Q, embed.related, embedPath);
+  }, query);
+}
+
+/**
+ * Narrow a query on the segment's table to the compiled segment
+ */
+function filterSegment<Q extends FilterableQuery>(query: Q, compiled: CompiledSegment): Q {
+  return filterRelated(query.or(compiled.filter) as Q, compiled.related);
+}
+
+async function fetchAllRows<T>(table: SegmentTable, columns: string, compiled: CompiledSegment): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await filterSegment(supabase.from(table).select(selectWithRelated(columns, compiled)), compiled)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data as unknown as T[]));
+    if (data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Related-record conditions become a filtered embed of the related table (see RelatedEmbed)
+ */
+async function relatedFilter(entity: SegmentEntity, condition: SegmentRelatedCondition, context: CompileContext): Promise<string> {
+  const relation = findSegmentRelation(entity, condition.relation);
+  if (!relation) throw new Error(`Unknown related record "${condition.relation}"`);
+
+  const embed: RelatedEmbed = {
+    alias: `related_${context.aliases.next++}`,
+    table: relation.table,
+    foreignKey: relation.foreignKey,
+    filter: '',
+    related: []
+  };
+  context.related.push(embed);
+
+  const where = await compileGroup(relation.table, condition.where, { ...context, related: embed.related });
+  embed.filter = allOf([scopeFilter(relation.table, context.userId), ...(where ? [where] : [])]);
+
+  // A record without a parent has a null embed too, so it has none
+  return condition.quantifier === 'has' ? `${embed.alias}.not.is.null` : `${embed.alias}.is.null`;
+}
+
+async function compileCondition(table: SegmentTable, condition: SegmentCondition, context: CompileContext): Promise<string | null> {
+  if (condition.kind === 'group') return compileGroup(table, condition, context);
+  if (condition.kind === 'related') {
+    if (!isSegmentEntity(table)) throw new Error('Related records can only be used on contacts, leads, deals and companies');
+    return relatedFilter(table, condition, context);
+  }
+  return fieldFilter(table, condition, context.pipelines);
+}
+
+/**
+ * A group as one PostgREST logic term, or null when it has no conditions (matches everything)
+ */
+async function compileGroup(table: SegmentTable, segmentGroup: SegmentGroup, context: CompileContext): Promise<string | null> {
+  const terms: string[] = [];
+  for (const condition of segmentGroup.conditions) {
+    const term = await compileCondition(table, condition, context);
+    if (term) terms.push(term);
+  }
+  if (terms.length === 0) return null;
+  return segmentGroup.match === 'any' ? anyOf(terms) : allOf(terms);
+}
+
+/**
+ * Compile criteria to a filter for `.or()` on the segment's table, limited to the user's
+ * records, and the embeds its related-record conditions filter on. Apply both with
+ * filterSegment.
+ */
+export async function compileSegmentCriteria(userId: string, criteria: SegmentCriteria, pipelines?: Pipeline[]): Promise<CompiledSegment> {
+  const problem = validateSegmentCriteria(criteria);
+  if (problem) throw new Error(problem);
+
+  const context: CompileContext = {
+    userId,
+    pipelines: pipelines ?? (await fetchPipelines(userId)),
+    related: [],
+    aliases: { next: 0 }
+  };
+  const where = await compileGroup(criteria.entity, criteria, context);
+  return {
+    // A lone `and(...)` term is how `.or()` expresses a conjunction
+    filter: `and(${[scopeFilter(criteria.entity, userId), ...(where ? [where] : [])].join(',')})`,
+    related: context.related
+  };
+}
+
+/**
+ * How many records the criteria match right now, with a few of them by name
+ */
+export async function previewSegment(userId: string, criteria: SegmentCriteria, limit = 5): Promise<SegmentPreview> {
+  const compiled = await compileSegmentCriteria(userId, criteria);
+  const nameColumn = OWNED_ENTITIES[criteria.entity].nameColumn;
+  const { data, count, error } = await filterSegment(
+    supabase.from(criteria.entity).select(selectWithRelated(`id, ${nameColumn}`, compiled), { count: 'exact' }),
+    compiled
+  )
+    .order(nameColumn)
+    .limit(limit);
+  if (error) throw error;
+
+  const rows = (data || []) as unknown as Record<string, string>[];
+  return {
+    count: count || 0,
+    sample: rows.map(row => ({ id: row.id, name: row[nameColumn] }))
+  };
+}
+
+function toSegment(row: Tables<'segments'>): Segment {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    is_dynamic: row.is_dynamic !== false,
+    criteria: parseSegmentCriteria(row.criteria),
+    snapshot_at: row.snapshot_at,
+    updated_at: row.updated_at
+  };
+}
+
+export async function fetchSegments(userId: string, entity?: SegmentEntity): Promise<Segment[]> {
+  const { data, error } = await supabase
+    .from('segments')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name');
+  if (error) throw error;
+
+  const segments = (data || []).map(toSegment);
+  return entity ? segments.filter(segment => segment.criteria.entity === entity) : segments;
+}
+
+/**
+ * Replace a static segment's members with the records its criteria match now
+ */
+export async function refreshSegmentSnapshot(userId: string, segment: Pick<Segment, 'id' | 'criteria'>): Promise<number> {
+  const compiled = await compileSegmentCriteria(userId, segment.criteria);
+  const rows = await fetchAllRows<{ id: string }>(segment.criteria.entity, 'id', compiled);
+
+  const { error: deleteError } = await supabase.from('segment_members').delete().eq('segment_id', segment.id);
+  if (deleteError) throw deleteError;
+
+  for (const batch of chunk(rows, MEMBER_INSERT_BATCH)) {
+    const { error } = await supabase
+      .from('segment_members')
+      .insert(batch.map(row => ({ user_id: userId, segment_id: segment.id, record_id: row.id })));
+    if (error) throw error;
+  }
+
+  const { error } = await supabase.from('segments').update({ snapshot_at: new Date().toISOString() }).eq('id', segment.id);
+  if (error) throw error;
+  return rows.length;
+}
+
+/**
+ * Save a segment. Static segments take a fresh snapshot of their members; a segment made
+ * dynamic drops its old one.
+ */
+export async function saveSegment(userId: string, segment: SegmentInput): Promise<string> {
+  const problem = validateSegmentCriteria(segment.criteria);
+  if (problem) throw new Error(problem);
+
+  const values = {
+    name: segment.name.trim(),
+    description: segment.description?.trim() || null,
+    is_dynamic: segment.is_dynamic,
+    criteria: segment.criteria as unknown as Json,
+    ...(segment.is_dynamic ? { snapshot_at: null } : {})
+  };
+
+  const { data, error } = segment.id
+    ? await supabase.from('segments').update(values).eq('id', segment.id).eq('user_id', userId).select('id').single()
+    : await supabase.from('segments').insert({ ...values, user_id: userId }).select('id').single();
+  if (error) throw error;
+
+  if (segment.is_dynamic) {
+    const { error: deleteError } = await supabase.from('segment_members').delete().eq('segment_id', data.id);
+    if (deleteError) throw deleteError;
+  } else {
+    await refreshSegmentSnapshot(userId, { id: data.id, criteria: segment.criteria });
+  }
+  return data.id;
+}
+
+export async function deleteSegment(userId: string, segmentId: string): Promise<void> {
+  const { error } = await supabase.from('segments').delete().eq('id', segmentId).eq('user_id', userId);
+  if (error) throw error;
+}
+
+/**
+ * The records in a segment: evaluated now for dynamic segments, the snapshot for static
+ * ones (less any records deleted since)
+ */
+export async function fetchSegmentRecords<T extends { id: string } = { id: string }>(
+  userId: string,
+  segment: Pick<Segment, 'id' | 'is_dynamic' | 'criteria'>,
+  columns = '*'
+): Promise<T[]> {
+  const entity = segment.criteria.entity;
+  if (segment.is_dynamic) {
+    return fetchAllRows<T>(entity, columns, await compileSegmentCriteria(userId, segment.criteria));
+  }
+
+  const { data: members, error } = await supabase
+    .from('segment_members')
+    .select('record_id')
+    .eq('segment_id', segment.id);
+  if (error) throw error;
+
+  const records: T[] = [];
+  for (const ids of chunk((members || []).map(member => member.record_id), ID_BATCH)) {
+    const { data, error: recordsError } = await supabase.from(entity).select(columns).in('id', ids);
+    if (recordsError) throw recordsError;
+    records.push(...(data as unknown as T[]));
+  }
+  return records;
+}
+
+/**
+ * Member count without loading the records
+ */
+export async function countSegmentMembers(userId: string, segment: Pick<Segment, 'id' | 'is_dynamic' | 'criteria'>): Promise<number> {
+  if (segment.is_dynamic) {
+    const compiled = await compileSegmentCriteria(userId, segment.criteria);
+    const { count, error } = await filterSegment(
+      supabase.from(segment.criteria.entity).select(selectWithRelated('id', compiled), { count: 'exact', head: true }),
+      compiled
+    );
+    if (error) throw error;
+    return count || 0;
+  }
+
+  const { count, error } = await supabase
+    .from('segment_members')
+    .select('id', { count: 'exact', head: true })
+    .eq('segment_id', segment.id);
+  if (error) throw error;
+  return count || 0;
+}
@@ -0,0 +1,533 @@
+// Email Sequences
+// Multi-step cadences of emails and tasks. Contacts and leads are enrolled in bulk; the
+// runner sends each step when it falls due and moves the enrolment on. The database pauses
+// an enrolment when the person replies or a meeting with them is booked.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { assertDelivered, deliverEmail } from '@/lib/emailDelivery';
+import { loadTemplateContext, renderEmailTemplate, renderTemplate, withNameParts, type TemplateContext } from '@/lib/templates';
+
+export type SequenceStepType = 'email' | 'task';
+
+export type EnrollmentStatus = 'active' | 'paused' | 'completed' | 'stopped';
+
+export interface SequenceStep {
+  id?: string;
+  step_type: SequenceStepType;
+  delay_days: number;
+  template_id: string | null;
+  subject: string;
+  body: string;
+}
+
+export interface Sequence {
+  id: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  steps: (SequenceStep & { id: string })[];
+}
+
+export type SequenceInput = Omit<Sequence, 'id' | 'steps'> & { id?: string; steps: SequenceStep[] };
+
+export interface SequenceEnrollment {
+  id: string;
+  sequence_id: string;
+  contact_id: string | null;
+  lead_id: string | null;
+  status: EnrollmentStatus;
+  current_step: number;
+  next_run_at: string | null;
+  paused_reason: string | null;
+  enrolled_at: string | null;
+  completed_at: string | null;
+  name: string;
+  email: string | null;
+}
+
+export interface SequenceStepReport {
+  stepId: string;
+  position: number;
+  stepType: SequenceStepType;
+  label: string;
+  // Enrolments that have run this step
+  reached: number;
+  sent: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+  openRate: number;
+  clickRate: number;
+  replyRate: number;
+}
+
+export interface SequenceReport {
+  enrollments: Record<EnrollmentStatus, number>;
+  steps: SequenceStepReport[];
+}
+
+export const ENROLLMENT_STATUSES: { value: EnrollmentStatus; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'paused', label: 'Paused' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'stopped', label: 'Stopped' }
+];
+
+export const PAUSE_REASONS: Record<string, string> = {
+  replied: 'Replied',
+  meeting_booked: 'Meeting booked',
+  manual: 'Paused by you',
+  no_email: 'No email address',
+  missing_fields: 'Template fields missing',
+  bounced: 'Email bounced'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DUE_BATCH_SIZE = 50;
+// A step that fails (e.g. a network error) is retried after this long
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+
+type Person = Pick<Tables<'contacts'>, 'id' | 'name' | 'email' | 'company'> & Record<string, unknown>;
+
+const addDays = (from: number, days: number) => new Date(from + days * DAY_MS).toISOString();
+
+const rate = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 1000) / 10 : 0);
+
+export async function fetchSequences(userId: string): Promise<Sequence[]> {
+  const { data, error } = await supabase
+    .from('sequences')
+    .select('*, sequence_steps(*)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(({ sequence_steps, ...sequence }) => ({
+    id: sequence.id,
+    name: sequence.name,
+    description: sequence.description,
+    is_active: sequence.is_active,
+    steps: [...(sequence_steps || [])]
+      .sort((a, b) => a.position - b.position)
+      .map(step => ({
+        id: step.id,
+        step_type: step.step_type as SequenceStepType,
+        delay_days: step.delay_days,
+        template_id: step.template_id,
+        subject: step.subject || '',
+        body: step.body || ''
+      }))
+  }));
+}
+
+/**
+ * Save a sequence and its steps. Existing steps are updated in place, not replaced, so
+ * their sent emails keep counting towards the step report.
+ */
+export async function saveSequence(userId: string, sequence: SequenceInput): Promise<string> {
+  const values = {
+    name: sequence.name.trim(),
+    description: sequence.description?.trim() || null,
+    is_active: sequence.is_active
+  };
+
+  let sequenceId = sequence.id;
+  if (sequenceId) {
+    const { error } = await supabase.from('sequences').update(values).eq('id', sequenceId).eq('user_id', userId);
+    if (error) throw error;
+  } else {
+    const { data, error } = await supabase.from('sequences').insert({ ...values, user_id: userId }).select('id').single();
+    if (error) throw error;
+    sequenceId = data.id;
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('sequence_steps')
+    .select('id')
+    .eq('sequence_id', sequenceId);
+  if (existingError) throw existingError;
+
+  const keptIds = sequence.steps.map(step => step.id).filter(Boolean);
+  const removedIds = (existing || []).map(step => step.id).filter(id => !keptIds.includes(id));
+  if (removedIds.length > 0) {
+    const { error } = await supabase.from('sequence_steps').delete().in('id', removedIds);
+    if (error) throw error;
+  }
+
+  for (const [position, step] of sequence.steps.entries()) {
+    const stepValues = {
+      position,
+      step_type: step.step_type,
+      delay_days: Math.max(0, step.delay_days),
+      template_id: step.step_type === 'email' ? step.template_id : null,
+      subject: step.subject.trim() || null,
+      body: step.body.trim() || null
+    };
+
+    const { error } = step.id
+      ? await supabase.from('sequence_steps').update(stepValues).eq('id', step.id)
+      : await supabase.from('sequence_steps').insert({ ...stepValues, sequence_id: sequenceId, user_id: userId });
+    if (error) throw error;
+  }
+
+  return sequenceId;
+}
+
+export async function deleteSequence(userId: string, sequenceId: string): Promise<void> {
+  const { error } = await supabase.from('sequences').delete().eq('id', sequenceId).eq('user_id', userId);
+  if (error) throw error;
+}
+
+/**
+ * Enrol contacts and leads in a sequence. People already enrolled (in any state) are
+ * skipped rather than restarted.
+ */
+export async function enrollInSequence(
+  userId: string,
+  sequence: Sequence,
+  people: { contactIds?: string[]; leadIds?: string[] }
+): Promise<{ enrolled: number; skipped: number }> {
+  const contactIds = people.contactIds || [];
+  const leadIds = people.leadIds || [];
+  if (sequence.steps.length === 0) throw new Error('Add a step before enrolling anyone');
+
+  const { data: existing, error } = await supabase
+    .from('sequence_enrollments')
+    .select('contact_id, lead_id')
+    .eq('sequence_id', sequence.id);
+  if (error) throw error;
+
+  const enrolledContacts = new Set((existing || []).map(e => e.contact_id).filter(Boolean));
+  const enrolledLeads = new Set((existing || []).map(e => e.lead_id).filter(Boolean));
+  const nextRunAt = addDays(Date.now(), sequence.steps[0].delay_days);
+
+  const rows = [
+    ...contactIds.filter(id => !enrolledContacts.has(id)).map(id => ({ contact_id: id, lead_id: null })),
+    ...leadIds.filter(id => !enrolledLeads.has(id)).map(id => ({ contact_id: null, lead_id: id }))
+  ].map(person => ({ ...person, user_id: userId, sequence_id: sequence.id, next_run_at: nextRunAt }));
+
+  if (rows.length > 0) {
+    const { error: insertError } = await supabase.from('sequence_enrollments').insert(rows);
+    if (insertError) throw insertError;
+  }
+
+  return { enrolled: rows.length, skipped: contactIds.length + leadIds.length - rows.length };
+}
+
+export async function fetchEnrollments(sequenceId: string): Promise<SequenceEnrollment[]> {
+  const { data, error } = await supabase
+    .from('sequence_enrollments')
+    .select('*, contacts(name, email), leads(name, email)')
+    .eq('sequence_id', sequenceId)
+    .order('enrolled_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(({ contacts, leads, ...enrollment }) => ({
+    id: enrollment.id,
+    sequence_id: enrollment.sequence_id,
+    contact_id: enrollment.contact_id,
+    lead_id: enrollment.lead_id,
+    status: enrollment.status as EnrollmentStatus,
+    current_step: enrollment.current_step,
+    next_run_at: enrollment.next_run_at,
+    paused_reason: enrollment.paused_reason,
+    enrolled_at: enrollment.enrolled_at,
+    completed_at: enrollment.completed_at,
+    name: contacts?.name || leads?.name || 'Deleted record',
+    email: contacts?.email || leads?.email || null
+  }));
+}
+
+export async function pauseEnrollment(enrollmentId: string): Promise<void> {
+  const { error } = await supabase
+    .from('sequence_enrollments')
+    .update({ status: 'paused', paused_reason: 'manual', next_run_at: null })
+    .eq('id', enrollmentId)
+    .eq('status', 'active');
+  if (error) throw error;
+}
+
+/**
+ * Resume a paused enrolment. Its next step runs on the next pass of the runner.
+ */
+export async function resumeEnrollment(enrollmentId: string): Promise<void> {
+  const { error } = await supabase
+    .from('sequence_enrollments')
+    .update({ status: 'active', paused_reason: null, next_run_at: new Date().toISOString() })
+    .eq('id', enrollmentId)
+    .eq('status', 'paused');
+  if (error) throw error;
+}
+
+export async function stopEnrollment(enrollmentId: string): Promise<void> {
+  const { error } = await supabase
+    .from('sequence_enrollments')
+    .update({ status: 'stopped', next_run_at: null })
+    .eq('id', enrollmentId);
+  if (error) throw error;
+}
+
+/**
+ * Run one step for an enrolment. Returns the merge fields an email step couldn't fill,
+ * in which case nothing is sent.
+ */
+async function runStep(
+  userId: string,
+  enrollment: Tables<'sequence_enrollments'>,
+  step: Sequence['steps'][number],
+  person: Person
+): Promise<string[]> {
+  const links = { contact_id: enrollment.contact_id, lead_id: enrollment.lead_id };
+  const context: TemplateContext = {
+    ...(await loadTemplateContext({ userId, contactId: enrollment.contact_id, leadId: enrollment.lead_id })),
+    // Bare fields like {{first_name}} read the enrolled person, contact or lead
+    record: withNameParts(person)
+  };
+
+  if (step.step_type === 'task') {
+    const { error } = await supabase.from('activities').insert({
+      user_id: userId,
+      ...links,
+      type: 'task',
+      subject: renderTemplate(step.subject || `Follow up with ${person.name}`, context).text,
+      description: step.body ? renderTemplate(step.body, context).text : null,
+      due_date: new Date().toISOString(),
+      priority: 'medium',
+      status: 'pending'
+    });
+    if (error) throw error;
+    return [];
+  }
+
+  let template = { subject: step.subject, body: step.body };
+  if (step.template_id) {
+    const { data: saved, error } = await supabase
+      .from('email_templates')
+      .select('subject, body')
+      .eq('id', step.template_id)
+      .maybeSingle();
+    if (error) throw error;
+    if (saved) template = saved;
+  }
+
+  const { subject, body, unresolved, errors } = renderEmailTemplate(template, context);
+  if (errors.length > 0) throw new Error(errors.join('; '));
+  if (unresolved.length > 0) return unresolved;
+
+  const { data: tracked, error: trackingError } = await supabase
+    .from('email_tracking')
+    .insert({
+      user_id: userId,
+      ...links,
+      email_id: `sequence_${enrollment.id}_${step.id}_${Date.now()}`,
+      recipient_email: person.email,
+      subject,
+      body,
+      type: 'sent',
+      folder: 'sent',
+      sent_at: new Date().toISOString(),
+      sequence_enrollment_id: enrollment.id,
+      sequence_step_id: step.id
+    })
+    .select('id')
+    .single();
+  if (trackingError) throw trackingError;
+  assertDelivered(await deliverEmail(tracked.id));
+
+  const { error: activityError } = await supabase.from('activities').insert({
+    user_id: userId,
+    ...links,
+    type: 'email',
+    subject: `Email sent: ${subject}`,
+    description: `To: ${person.email}\n\n======= SUBJECT =======\n${subject}\n\n======= MESSAGE =======\n${body}`,
+    status: 'completed'
+  });
+  if (activityError) throw activityError;
+  return [];
+}
+
+/**
+ * Whether an email step already produced an email that went out or may have. A step that
+ * failed after that point is treated as run, since running it again could send it twice.
+ */
+async function wasStepSent(enrollmentId: string, stepId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('email_tracking')
+    .select('id')
+    .eq('sequence_enrollment_id', enrollmentId)
+    .eq('sequence_step_id', stepId)
+    .or('delivery_status.is.null,delivery_status.in.(sending,sent)')
+    .limit(1);
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/**
+ * Give a claimed step back to the enrolment when it certainly wasn't run
+ */
+async function releaseStep(enrollment: Tables<'sequence_enrollments'>, updates: Partial<Tables<'sequence_enrollments'>> = {}): Promise<void> {
+  const { error } = await supabase
+    .from('sequence_enrollments')
+    .update({ ...updates, current_step: enrollment.current_step })
+    .eq('id', enrollment.id)
+    .eq('current_step', enrollment.current_step + 1);
+  if (error) throw error;
+}
+
+/**
+ * Schedule the step after a claimed one, or complete the enrolment after its last step
+ */
+async function scheduleNextStep(enrollment: Tables<'sequence_enrollments'>, sequence: Sequence): Promise<void> {
+  const nextStep = sequence.steps[enrollment.current_step + 1];
+  const ranAt = Date.now();
+  const { error } = await supabase
+    .from('sequence_enrollments')
+    .update(nextStep
+      ? { next_run_at: addDays(ranAt, nextStep.delay_days) }
+      : { status: 'completed', completed_at: new Date(ranAt).toISOString() })
+    .eq('id', enrollment.id)
+    // A reply or meeting may have paused it while the step ran
+    .eq('status', 'active');
+  if (error) throw error;
+}
+
+/**
+ * Run every step that has fallen due for the user's active enrolments. Claiming a step
+ * moves the enrolment past it before anything is sent, so neither a second open tab nor
+ * resuming an enrolment paused while the step ran can send it again. A step is only given
+ * back when it certainly didn't go out. Returns the number of steps run.
+ */
+export async function processDueEnrollments(userId: string): Promise<number> {
+  const now = Date.now();
+  const { data: due, error } = await supabase
+    .from('sequence_enrollments')
+    .select('*, contacts(*), leads(*)')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .lte('next_run_at', new Date(now).toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(DUE_BATCH_SIZE);
+
+  if (error) throw error;
+  if (!due || due.length === 0) return 0;
+
+  const sequences = await fetchSequences(userId);
+  let runs = 0;
+
+  for (const { contacts, leads, ...enrollment } of due) {
+    const sequence = sequences.find(s => s.id === enrollment.sequence_id);
+    if (!sequence?.is_active) continue;
+
+    const step = sequence.steps[enrollment.current_step];
+    const { data: claimed, error: claimError } = await supabase
+      .from('sequence_enrollments')
+      .update(step
+        ? { current_step: enrollment.current_step + 1, last_step_at: new Date().toISOString(), next_run_at: null }
+        : { next_run_at: null })
+      .eq('id', enrollment.id)
+      .eq('status', 'active')
+      .eq('current_step', enrollment.current_step)
+      .eq('next_run_at', enrollment.next_run_at)
+      .select('id');
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) continue;
+
+    const person = (contacts || leads) as Person | null;
+
+    if (!step) {
+      await supabase
+        .from('sequence_enrollments')
+        .update({ status: 'completed', completed_at: new Date().toISOString() })
+        .eq('id', enrollment.id);
+      continue;
+    }
+
+    if (!person || (step.step_type === 'email' && !person.email)) {
+      await releaseStep(enrollment, { status: 'paused', paused_reason: 'no_email' });
+      continue;
+    }
+
+    try {
+      const unresolved = await runStep(userId, enrollment, step, person);
+      if (unresolved.length > 0) {
+        console.warn(`Sequence step skipped for enrollment ${enrollment.id}, unresolved merge fields:`, unresolved);
+        await releaseStep(enrollment, { status: 'paused', paused_reason: 'missing_fields' });
+        continue;
+      }
+      runs++;
+      await scheduleNextStep(enrollment, sequence);
+    } catch (stepError) {
+      console.error(`Error running sequence step for enrollment ${enrollment.id}:`, stepError);
+      try {
+        if (step.step_type === 'email' && (await wasStepSent(enrollment.id, step.id))) {
+          runs++;
+          await scheduleNextStep(enrollment, sequence);
+          continue;
+        }
+        await releaseStep(enrollment);
+        await supabase
+          .from('sequence_enrollments')
+          .update({ next_run_at: new Date(Date.now() + RETRY_DELAY_MS).toISOString() })
+          .eq('id', enrollment.id)
+          .eq('status', 'active');
+      } catch (recoveryError) {
+        console.error(`Error rescheduling sequence step for enrollment ${enrollment.id}:`, recoveryError);
+      }
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Per-step performance: how many enrolments reached each step and, for email steps,
+ * the open, click and reply rates of the emails it sent
+ */
+export async function fetchSequenceReport(sequence: Sequence): Promise<SequenceReport> {
+  const stepIds = sequence.steps.map(step => step.id);
+
+  const [{ data: enrollments, error: enrollmentsError }, { data: emails, error: emailsError }] = await Promise.all([
+    supabase.from('sequence_enrollments').select('status, current_step').eq('sequence_id', sequence.id),
+    stepIds.length > 0
+      ? supabase
+          .from('email_tracking')
+          .select('sequence_step_id, opened_at, clicked_at, replied_at')
+          .in('sequence_step_id', stepIds)
+      : Promise.resolve({ data: [], error: null })
+  ]);
+
+  if (enrollmentsError) throw enrollmentsError;
+  if (emailsError) throw emailsError;
+
+  const counts: Record<EnrollmentStatus, number> = { active: 0, paused: 0, completed: 0, stopped: 0 };
+  (enrollments || []).forEach(enrollment => {
+    counts[enrollment.status as EnrollmentStatus] = (counts[enrollment.status as EnrollmentStatus] || 0) + 1;
+  });
+
+  const steps = sequence.steps.map((step, position) => {
+    const stepEmails = (emails || []).filter(email => email.sequence_step_id === step.id);
+    const sent = stepEmails.length;
+    const opened = stepEmails.filter(email => email.opened_at).length;
+    const clicked = stepEmails.filter(email => email.clicked_at).length;
+    const replied = stepEmails.filter(email => email.replied_at).length;
+
+    return {
+      stepId: step.id,
+      position,
+      stepType: step.step_type,
+      label: step.step_type === 'email' ? step.subject || 'Template email' : step.subject || 'Task',
+      reached: (enrollments || []).filter(enrollment => enrollment.current_step > position).length,
+      sent,
+      opened,
+      clicked,
+      replied,
+      openRate: rate(opened, sent),
+      clickRate: rate(clicked, sent),
+      replyRate: rate(replied, sent)
+    };
+  });
+
+  return { enrollments: counts, steps };
+}
@@ -0,0 +1,314 @@
+// Teams & Ownership
+// Users share records through teams. Admins manage members and invites, managers see and
+// reassign their team's records, reps work the records they created or own.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { resolveDealOutcome, type Pipeline } from '@/lib/pipelines';
+
+export type TeamRole = 'admin' | 'manager' | 'rep';
+
+export const TEAM_ROLES: { value: TeamRole; label: string; description: string }[] = [
+  { value: 'admin', label: 'Admin', description: 'Manages members, invites and every team record' },
+  { value: 'manager', label: 'Manager', description: "Sees and reassigns the team's records" },
+  { value: 'rep', label: 'Rep', description: 'Works the records they created or own' }
+];
+
+// Records that carry an owner_id
+export type OwnedEntity = 'deals' | 'contacts' | 'leads' | 'companies';
+
+export const OWNED_ENTITIES: Record<OwnedEntity, { label: string; nameColumn: 'title' | 'name' }> = {
+  deals: { label: 'Deals', nameColumn: 'title' },
+  contacts: { label: 'Contacts', nameColumn: 'name' },
+  leads: { label: 'Leads', nameColumn: 'name' },
+  companies: { label: 'Companies', nameColumn: 'name' }
+};
+
+export interface Team {
+  id: string;
+  name: string;
+  role: TeamRole;
+}
+
+export interface TeamMember {
+  id: string;
+  userId: string;
+  role: TeamRole;
+  name: string;
+  email: string;
+  joinedAt: string;
+}
+
+export type TeamInvite = Tables<'team_invites'>;
+
+export interface OwnerPipelineSummary {
+  ownerId: string;
+  name: string;
+  openDeals: number;
+  openValue: number;
+  weightedValue: number;
+  wonDeals: number;
+  wonValue: number;
+}
+
+type Deal = Tables<'deals'>;
+
+/**
+ * Whether a role can see and reassign the records of other team members
+ */
+export function canManageTeamRecords(role: TeamRole | null | undefined): boolean {
+  return role === 'admin' || role === 'manager';
+}
+
+/**
+ * PostgREST filter for records the user created or owns, for use with `.or()`
+ */
+export function ownedByFilter(userId: string): string {
+  return `user_id.eq.${userId},owner_id.eq.${userId}`;
+}
+
+/**
+ * Writes to shared records filter by id alone and leave who may change them to row level
+ * security, which skips rows the user can't touch instead of failing. Ask for the changed
+ * rows back with `.select('id')` and pass them here, so a write that matched nothing throws.
+ */
+export function expectChangedRows<T>(rows: T[] | null, record: string): T[] {
+  if (!rows || rows.length === 0) {
+    throw new Error(`The ${record} wasn't changed: it no longer exists or you don't have access to it`);
+  }
+  return rows;
+}
+
+/**
+ * Teams the user belongs to, with their role in each
+ */
+export async function fetchTeams(userId: string): Promise<Team[]> {
+  const { data, error } = await supabase
+    .from('team_members')
+    .select('role, teams(id, name)')
+    .eq('user_id', userId)
+    .order('joined_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || [])
+    .filter(row => row.teams)
+    .map(row => ({ id: row.teams!.id, name: row.teams!.name, role: row.role as TeamRole }));
+}
+
+/**
+ * Create a team; the database makes the creator its first admin
+ */
+export async function createTeam(userId: string, name: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('teams')
+    .insert({ name: name.trim(), created_by: userId })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+/**
+ * Members of a team with their profile names
+ */
+export async function fetchTeamMembers(teamId: string): Promise<TeamMember[]> {
+  const { data: members, error } = await supabase
+    .from('team_members')
+    .select('id, user_id, role, joined_at')
+    .eq('team_id', teamId)
+    .order('joined_at', { ascending: true });
+
+  if (error) throw error;
+  if (!members || members.length === 0) return [];
+
+  const { data: profiles, error: profileError } = await supabase
+    .from('profiles')
+    .select('id, first_name, last_name, email')
+    .in('id', members.map(member => member.user_id));
+
+  if (profileError) throw profileError;
+
+  return members.map(member => {
+    const profile = profiles?.find(p => p.id === member.user_id);
+    const name = [profile?.first_name, profile?.last_name].filter(Boolean).join(' ');
+    return {
+      id: member.id,
+      userId: member.user_id,
+      role: member.role as TeamRole,
+      name: name || profile?.email || 'Unknown',
+      email: profile?.email || '',
+      joinedAt: member.joined_at
+    };
+  });
+}
+
+/**
+ * Change a member's role, refusing to demote the team's last admin
+ */
+export async function updateMemberRole(members: TeamMember[], memberId: string, role: TeamRole): Promise<void> {
+  const member = members.find(m => m.id === memberId);
+  if (member?.role === 'admin' && role !== 'admin' && members.filter(m => m.role === 'admin').length <= 1) {
+    throw new Error('A team needs at least one admin');
+  }
+
+  const { error } = await supabase.from('team_members').update({ role }).eq('id', memberId);
+  if (error) throw error;
+}
+
+/**
+ * Remove a member (or leave the team), refusing to remove the team's last admin
+ */
+export async function removeMember(members: TeamMember[], memberId: string): Promise<void> {
+  const member = members.find(m => m.id === memberId);
+  if (member?.role === 'admin' && members.filter(m => m.role === 'admin').length <= 1) {
+    throw new Error('A team needs at least one admin');
+  }
+
+  const { error } = await supabase.from('team_members').delete().eq('id', memberId);
+  if (error) throw error;
+}
+
+/**
+ * Invite an email address to a team in the given role
+ */
+export async function inviteToTeam(userId: string, teamId: string, email: string, role: TeamRole): Promise<void> {
+  const { error } = await supabase
+    .from('team_invites')
+    .insert({ team_id: teamId, email: email.trim().toLowerCase(), role, invited_by: userId });
+
+  if (error) {
+    if (error.code === '23505') throw new Error(`${email} already has a pending invite`);
+    throw error;
+  }
+}
+
+/**
+ * Invites for a team that haven't been accepted yet
+ */
+export async function fetchPendingInvites(teamId: string): Promise<TeamInvite[]> {
+  const { data, error } = await supabase
+    .from('team_invites')
+    .select('*')
+    .eq('team_id', teamId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Open invites addressed to the signed-in user, with the inviting team's name
+ */
+export async function fetchMyInvitations(email: string): Promise<(TeamInvite & { teamName: string })[]> {
+  const { data, error } = await supabase
+    .from('team_invites')
+    .select('*, teams(name)')
+    .ilike('email', email)
+    .is('accepted_at', null)
+    .gt('expires_at', new Date().toISOString());
+
+  if (error) throw error;
+  return (data || []).map(({ teams, ...invite }) => ({ ...invite, teamName: teams?.name || 'Unknown team' }));
+}
+
+/**
+ * Join the team an invite is for
+ */
+export async function acceptInvite(inviteId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('accept_team_invite', { p_invite_id: inviteId });
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Revoke an invite (admins) or decline it (invitees)
+ */
+export async function deleteInvite(inviteId: string): Promise<void> {
+  const { error } = await supabase.from('team_invites').delete().eq('id', inviteId);
+  if (error) throw error;
+}
+
+/**
+ * Give records to a new owner. Row-level security only lets managers and admins
+ * hand records to other members of their teams.
+ */
+export async function reassignRecords(entity: OwnedEntity, ids: string[], ownerId: string): Promise<number> {
+  if (ids.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from(entity)
+    .update({ owner_id: ownerId })
+    .in('id', ids)
+    .select('id');
+
+  if (error) throw error;
+  return data?.length || 0;
+}
+
+/**
+ * Ids of the records a user owns, for moving a member's whole book to someone else
+ */
+export async function fetchOwnedRecordIds(entity: OwnedEntity, ownerId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from(entity)
+    .select('id')
+    .eq('owner_id', ownerId);
+
+  if (error) throw error;
+  return (data || []).map(row => row.id);
+}
+
+/**
+ * Deals owned by any member of the team. Managers and admins see all of them through
+ * row-level security; reps only get back their own.
+ */
+export async function fetchTeamDeals(memberIds: string[]): Promise<Deal[]> {
+  if (memberIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('deals')
+    .select('*')
+    .in('owner_id', memberIds)
+    .order('value', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Open and won pipeline per team member, largest open pipeline first
+ */
+export function summarizePipelineByOwner(deals: Deal[], members: TeamMember[], pipelines: Pipeline[] = []): OwnerPipelineSummary[] {
+  const summaries = new Map<string, OwnerPipelineSummary>(
+    members.map(member => [member.userId, {
+      ownerId: member.userId,
+      name: member.name,
+      openDeals: 0,
+      openValue: 0,
+      weightedValue: 0,
+      wonDeals: 0,
+      wonValue: 0
+    }])
+  );
+
+  deals.forEach(deal => {
+    const summary = summaries.get(deal.owner_id || deal.user_id);
+    if (!summary) return;
+
+    const value = Number(deal.value || 0);
+    const outcome = resolveDealOutcome(pipelines, deal);
+    if (outcome === 'in_progress') {
+      summary.openDeals += 1;
+      summary.openValue += value;
+      summary.weightedValue += Math.round(value * (Number(deal.probability || 0) / 100));
+    } else if (outcome === 'won') {
+      summary.wonDeals += 1;
+      summary.wonValue += value;
+    }
+  });
+
+  return Array.from(summaries.values()).sort((a, b) => b.openValue - a.openValue);
+}
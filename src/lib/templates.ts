@@ -0,0 +1,276 @@
+// Email Templates
+// The merge-field language used by every email the app writes from a template: the
+// composer, sequences, workflows and the Agent. Templates reference records by name,
+// e.g. `{{contact.first_name}}` or `{{deal.title}}`, with optional fallbacks
+// (`{{contact.first_name | "there"}}`) and conditional blocks
+// (`{{#if deal.title}}...{{else}}...{{/if}}`, `{{#unless ...}}`).
+
+import { supabase } from '@/integrations/supabase/client';
+
+type TemplateRecord = Record<string, unknown>;
+
+export type TemplateNamespace = 'contact' | 'lead' | 'deal' | 'company' | 'sender';
+
+export interface TemplateContext {
+  contact?: TemplateRecord | null;
+  lead?: TemplateRecord | null;
+  deal?: TemplateRecord | null;
+  company?: TemplateRecord | null;
+  sender?: TemplateRecord | null;
+  // Resolves bare `{{field}}` names, e.g. the record a workflow runs on
+  record?: TemplateRecord | null;
+}
+
+export interface RenderResult {
+  text: string;
+  // Variables with no value and no fallback, e.g. `contact.first_name`
+  unresolved: string[];
+  // Malformed blocks, e.g. an `{{#if}}` without its `{{/if}}`
+  errors: string[];
+}
+
+export interface RenderedEmail {
+  subject: string;
+  body: string;
+  unresolved: string[];
+  errors: string[];
+}
+
+export const MERGE_FIELDS: { namespace: TemplateNamespace; label: string; fields: { key: string; label: string }[] }[] = [
+  {
+    namespace: 'contact',
+    label: 'Contact',
+    fields: [
+      { key: 'first_name', label: 'First name' },
+      { key: 'last_name', label: 'Last name' },
+      { key: 'name', label: 'Full name' },
+      { key: 'email', label: 'Email' },
+      { key: 'phone', label: 'Phone' },
+      { key: 'title', label: 'Job title' },
+      { key: 'company', label: 'Company' }
+    ]
+  },
+  {
+    namespace: 'lead',
+    label: 'Lead',
+    fields: [
+      { key: 'first_name', label: 'First name' },
+      { key: 'name', label: 'Full name' },
+      { key: 'email', label: 'Email' },
+      { key: 'company', label: 'Company' },
+      { key: 'source', label: 'Source' }
+    ]
+  },
+  {
+    namespace: 'deal',
+    label: 'Deal',
+    fields: [
+      { key: 'title', label: 'Title' },
+      { key: 'value', label: 'Value' },
+      { key: 'stage', label: 'Stage' },
+      { key: 'expected_close_date', label: 'Expected close date' },
+      { key: 'next_step', label: 'Next step' }
+    ]
+  },
+  {
+    namespace: 'company',
+    label: 'Company',
+    fields: [
+      { key: 'name', label: 'Name' },
+      { key: 'industry', label: 'Industry' },
+      { key: 'website', label: 'Website' },
+      { key: 'city', label: 'City' },
+      { key: 'country', label: 'Country' }
+    ]
+  },
+  {
+    namespace: 'sender',
+    label: 'Sender',
+    fields: [
+      { key: 'name', label: 'Full name' },
+      { key: 'first_name', label: 'First name' },
+      { key: 'email', label: 'Email' },
+      { key: 'role', label: 'Role' },
+      { key: 'company', label: 'Company' },
+      { key: 'signature', label: 'Signature' }
+    ]
+  }
+];
+
+const NAMESPACES: string[] = ['contact', 'lead', 'deal', 'company', 'sender'];
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; path: string; fallback: string | null }
+  | { kind: 'block'; path: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\s*([^}]*?)\s*\}\}/g;
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === false || String(value).trim() === '';
+
+/**
+ * Parse a template into text, variable and block nodes, collecting any malformed blocks
+ */
+function parseTemplate(text: string, errors: string[]): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // The open blocks, innermost last; nodes go into the top block's current branch
+  const stack: { node: Extract<TemplateNode, { kind: 'block' }>; inElse: boolean }[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.then) : root;
+  };
+
+  let lastIndex = 0;
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    if (match.index! > lastIndex) current().push({ kind: 'text', text: text.slice(lastIndex, match.index) });
+    lastIndex = match.index! + match[0].length;
+
+    const tag = match[1];
+    const opening = tag.match(/^#(if|unless)\s+([\w.]+)$/);
+    if (opening) {
+      const node: TemplateNode = { kind: 'block', path: opening[2], negate: opening[1] === 'unless', then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      if (stack.length === 0) errors.push('{{else}} outside an {{#if}} block');
+      else stack[stack.length - 1].inElse = true;
+    } else if (/^\/(if|unless)$/.test(tag)) {
+      if (stack.length === 0) errors.push(`{{${tag}}} without a matching opening block`);
+      else stack.pop();
+    } else {
+      const [path, ...rest] = tag.split('|');
+      const fallback = rest.length > 0 ? rest.join('|').trim().replace(/^(["'])(.*)\1$/, '$2') : null;
+      current().push({ kind: 'variable', path: path.trim(), fallback });
+    }
+  }
+
+  if (lastIndex < text.length) current().push({ kind: 'text', text: text.slice(lastIndex) });
+  stack.forEach(({ node }) => errors.push(`{{#${node.negate ? 'unless' : 'if'} ${node.path}}} is never closed`));
+  return root;
+}
+
+/**
+ * The value a path points to. `ns.field` reads a namespace; a bare `field` reads the
+ * context's record. Unknown namespaces resolve to undefined.
+ */
+export function resolveMergeField(path: string, context: TemplateContext): unknown {
+  const parts = path.split('.');
+  if (parts.length === 1) return context.record?.[parts[0]];
+  const [namespace, field] = parts;
+  if (!NAMESPACES.includes(namespace)) return undefined;
+  return context[namespace as TemplateNamespace]?.[field];
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext, unresolved: Set<string>): string {
+  return nodes.map(node => {
+    if (node.kind === 'text') return node.text;
+
+    if (node.kind === 'block') {
+      const present = !isBlank(resolveMergeField(node.path, context));
+      return renderNodes(present !== node.negate ? node.then : node.otherwise, context, unresolved);
+    }
+
+    const value = resolveMergeField(node.path, context);
+    if (!isBlank(value)) return String(value);
+    if (node.fallback !== null) return node.fallback;
+    unresolved.add(node.path);
+    return '';
+  }).join('');
+}
+
+/**
+ * Render a template against a context. Variables inside branches that aren't taken
+ * are not reported as unresolved.
+ */
+export function renderTemplate(text: string, context: TemplateContext): RenderResult {
+  const errors: string[] = [];
+  const unresolved = new Set<string>();
+  const rendered = renderNodes(parseTemplate(text, errors), context, unresolved);
+  return { text: rendered, unresolved: Array.from(unresolved), errors };
+}
+
+/**
+ * Render an email's subject and body together, merging what each leaves unresolved
+ */
+export function renderEmailTemplate(template: { subject: string; body: string }, context: TemplateContext): RenderedEmail {
+  const subject = renderTemplate(template.subject, context);
+  const body = renderTemplate(template.body, context);
+  return {
+    subject: subject.text.trim(),
+    body: body.text,
+    unresolved: Array.from(new Set([...subject.unresolved, ...body.unresolved])),
+    errors: [...subject.errors, ...body.errors]
+  };
+}
+
+/**
+ * Add first and last name fields to a contact or lead
+ */
+export function withNameParts<T extends TemplateRecord>(person: T | null | undefined): (T & { first_name: string; last_name: string }) | null {
+  if (!person) return null;
+  const [first = '', ...rest] = String(person.name ?? '').trim().split(/\s+/);
+  return { ...person, first_name: first, last_name: rest.join(' ') };
+}
+
+/**
+ * Sender fields from the user's profile. The signature is the name, role, company and
+ * email on separate lines, leaving out any that are missing.
+ */
+export function senderFields(
+  profile: { first_name?: string | null; last_name?: string | null; company?: string | null; role?: string | null; email?: string | null } | null,
+  fallbackEmail?: string | null
+): TemplateRecord {
+  const email = profile?.email || fallbackEmail || '';
+  const firstName = profile?.first_name || email.split('@')[0] || '';
+  const name = [firstName, profile?.last_name].filter(Boolean).join(' ');
+  const signature = [name, profile?.role, profile?.company, email].filter(Boolean).join('\n');
+
+  return {
+    name,
+    first_name: firstName,
+    last_name: profile?.last_name || '',
+    email,
+    role: profile?.role || '',
+    company: profile?.company || '',
+    signature
+  };
+}
+
+/**
+ * Load the records a template can reference. A deal brings in its contact and company,
+ * and a contact or lead brings in its company, unless those are given explicitly.
+ */
+export async function loadTemplateContext(ids: {
+  userId: string;
+  contactId?: string | null;
+  leadId?: string | null;
+  dealId?: string | null;
+  companyId?: string | null;
+}, client: typeof supabase = supabase): Promise<TemplateContext> {
+  const fetchOne = async (table: 'contacts' | 'leads' | 'deals' | 'companies', id: string | null | undefined) => {
+    if (!id) return null;
+    const { data, error } = await client.from(table).select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data as TemplateRecord | null;
+  };
+
+  const [{ data: profile }, deal, lead] = await Promise.all([
+    client.from('profiles').select('first_name, last_name, company, role, email').eq('id', ids.userId).maybeSingle(),
+    fetchOne('deals', ids.dealId),
+    fetchOne('leads', ids.leadId)
+  ]);
+
+  const contact = await fetchOne('contacts', ids.contactId || (deal?.contact_id as string | null));
+  const company = await fetchOne(
+    'companies',
+    ids.companyId || (deal?.company_id as string | null) || (contact?.company_id as string | null) || (lead?.company_id as string | null)
+  );
+
+  return {
+    contact: withNameParts(contact),
+    lead: withNameParts(lead),
+    deal,
+    company,
+    sender: senderFields(profile)
+  };
+}
@@ -0,0 +1,245 @@
+// Pipeline Velocity
+// Turns deal_stage_history rows into time-in-stage, stage-to-stage conversion and
+// slow-deal numbers for the velocity report and the deal coach.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  findStage,
+  getCombinedStageNames,
+  getPipelineForDeal,
+  getStageIndex,
+  resolveDealOutcome,
+  type Pipeline
+} from '@/lib/pipelines';
+
+type Deal = Tables<'deals'>;
+export type StageChange = Tables<'deal_stage_history'>;
+
+export interface StageStint {
+  dealId: string;
+  stage: string;
+  enteredAt: Date;
+  exitedAt: Date | null; // null while the deal is still in the stage
+  days: number;
+}
+
+export interface StageVelocity {
+  stage: string;
+  avgDays: number | null;        // average of completed stints
+  avgCurrentDays: number | null; // average age of deals sitting in the stage now
+  dealsEntered: number;
+  dealsInStage: number;
+  dealsAdvanced: number;
+  conversionRate: number | null; // % of deals that left the stage forward rather than lost
+}
+
+export interface SlowDeal {
+  dealId: string;
+  title: string;
+  stage: string;
+  value: number;
+  daysInStage: number;
+  avgDaysForStage: number | null;
+}
+
+export interface DealVelocityContext {
+  currentStage: string | null;
+  daysInCurrentStage: number;
+  avgDaysInCurrentStage: number | null;
+  conversionRateFromCurrentStage: number | null;
+  stagePath: Array<{ stage: string; days: number }>;
+  stageChanges: number;
+  slowerThanAverage: boolean;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const daysBetween = (from: Date, to: Date) => Math.max(0, (to.getTime() - from.getTime()) / DAY_MS);
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+
+const round1 = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+
+/**
+ * Fetch the user's stage transitions, oldest first
+ */
+export async function fetchStageHistory(userId: string): Promise<StageChange[]> {
+  const { data, error } = await supabase
+    .from('deal_stage_history')
+    .select('*')
+    .eq('user_id', userId)
+    .order('changed_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Split each deal's history into the periods it spent in each stage. Deals with no
+ * recorded history are treated as having entered their current stage at creation.
+ */
+export function buildStageStints(history: StageChange[], deals: Deal[], now: Date = new Date()): StageStint[] {
+  const changesByDeal = new Map<string, StageChange[]>();
+  history.forEach(change => {
+    const changes = changesByDeal.get(change.deal_id) || [];
+    changes.push(change);
+    changesByDeal.set(change.deal_id, changes);
+  });
+
+  const stints: StageStint[] = [];
+  deals.forEach(deal => {
+    const changes = (changesByDeal.get(deal.id) || [])
+      .slice()
+      .sort((a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime());
+
+    if (changes.length === 0) {
+      if (deal.stage && deal.created_at) {
+        const enteredAt = new Date(deal.created_at);
+        stints.push({ dealId: deal.id, stage: deal.stage, enteredAt, exitedAt: null, days: daysBetween(enteredAt, now) });
+      }
+      return;
+    }
+
+    changes.forEach((change, index) => {
+      const enteredAt = new Date(change.changed_at);
+      const next = changes[index + 1];
+      const exitedAt = next ? new Date(next.changed_at) : null;
+      stints.push({
+        dealId: deal.id,
+        stage: change.to_stage,
+        enteredAt,
+        exitedAt,
+        days: daysBetween(enteredAt, exitedAt || now)
+      });
+    });
+  });
+
+  return stints;
+}
+
+/**
+ * Average days per open stage and the conversion rate out of each stage. A deal
+ * converts when it later reaches a further stage of its pipeline that is not a lost stage;
+ * deals still sitting in the stage are left out of the rate.
+ */
+export function computeStageVelocity(
+  history: StageChange[],
+  deals: Deal[],
+  pipelines: Pipeline[] = [],
+  now: Date = new Date()
+): StageVelocity[] {
+  const stints = buildStageStints(history, deals, now);
+  const dealsById = new Map(deals.map(deal => [deal.id, deal]));
+
+  const stageNames = getCombinedStageNames(pipelines, true);
+  stints.forEach(stint => {
+    const deal = dealsById.get(stint.dealId);
+    const stage = findStage(getPipelineForDeal(pipelines, deal || {}), stint.stage);
+    // Stages that are no longer in any pipeline still get a row; won/lost stages do not
+    if (!stage && !stageNames.includes(stint.stage)) stageNames.push(stint.stage);
+  });
+
+  return stageNames.map(stageName => {
+    const stageStints = stints.filter(stint => stint.stage === stageName);
+    const completed = stageStints.filter(stint => stint.exitedAt);
+    const current = stageStints.filter(stint => !stint.exitedAt && resolveDealOutcome(pipelines, dealsById.get(stint.dealId) || {}) === 'in_progress');
+
+    const enteredDealIds = new Set(stageStints.map(stint => stint.dealId));
+    const currentDealIds = new Set(current.map(stint => stint.dealId));
+    let advanced = 0;
+    let decided = 0;
+
+    enteredDealIds.forEach(dealId => {
+      if (currentDealIds.has(dealId)) return;
+      const deal = dealsById.get(dealId);
+      const pipeline = getPipelineForDeal(pipelines, deal || {});
+      const stageIndex = getStageIndex(pipeline, stageName);
+      const reachedLater = stints.some(stint =>
+        stint.dealId === dealId &&
+        getStageIndex(pipeline, stint.stage) > stageIndex &&
+        getStageIndex(pipeline, stint.stage) !== Number.MAX_SAFE_INTEGER &&
+        findStage(pipeline, stint.stage)?.outcome !== 'lost'
+      );
+      const endedLost = deal ? resolveDealOutcome(pipelines, deal) === 'lost' : false;
+
+      // Deals that left the stage but are still open further back (moved backwards) are undecided
+      if (reachedLater) {
+        advanced += 1;
+        decided += 1;
+      } else if (endedLost) {
+        decided += 1;
+      }
+    });
+
+    return {
+      stage: stageName,
+      avgDays: round1(average(completed.map(stint => stint.days))),
+      avgCurrentDays: round1(average(current.map(stint => stint.days))),
+      dealsEntered: enteredDealIds.size,
+      dealsInStage: currentDealIds.size,
+      dealsAdvanced: advanced,
+      conversionRate: decided > 0 ? Math.round((advanced / decided) * 100) : null
+    };
+  });
+}
+
+/**
+ * Open deals that have been in their current stage the longest
+ */
+export function findSlowestDeals(
+  history: StageChange[],
+  deals: Deal[],
+  pipelines: Pipeline[] = [],
+  limit = 10,
+  now: Date = new Date()
+): SlowDeal[] {
+  const velocity = computeStageVelocity(history, deals, pipelines, now);
+  const stints = buildStageStints(history, deals, now);
+
+  return deals
+    .filter(deal => resolveDealOutcome(pipelines, deal) === 'in_progress')
+    .map(deal => {
+      const currentStint = stints.filter(stint => stint.dealId === deal.id && !stint.exitedAt).pop();
+      return {
+        dealId: deal.id,
+        title: deal.title,
+        stage: deal.stage || 'Unstaged',
+        value: Number(deal.value || 0),
+        daysInStage: Math.round(currentStint?.days || 0),
+        avgDaysForStage: velocity.find(point => point.stage === deal.stage)?.avgDays ?? null
+      };
+    })
+    .sort((a, b) => b.daysInStage - a.daysInStage)
+    .slice(0, limit);
+}
+
+/**
+ * Velocity numbers for a single deal, relative to the user's other deals
+ */
+export function getDealVelocityContext(
+  dealId: string,
+  history: StageChange[],
+  deals: Deal[],
+  pipelines: Pipeline[] = [],
+  now: Date = new Date()
+): DealVelocityContext {
+  const deal = deals.find(d => d.id === dealId);
+  const dealStints = buildStageStints(history, deals, now).filter(stint => stint.dealId === dealId);
+  const currentStint = dealStints.find(stint => !stint.exitedAt);
+  const stageVelocity = computeStageVelocity(history, deals, pipelines, now)
+    .find(point => point.stage === (currentStint?.stage || deal?.stage));
+
+  const daysInCurrentStage = Math.round(currentStint?.days || 0);
+  const avgDaysInCurrentStage = stageVelocity?.avgDays ?? null;
+
+  return {
+    currentStage: currentStint?.stage || deal?.stage || null,
+    daysInCurrentStage,
+    avgDaysInCurrentStage,
+    conversionRateFromCurrentStage: stageVelocity?.conversionRate ?? null,
+    stagePath: dealStints.map(stint => ({ stage: stint.stage, days: Math.round(stint.days) })),
+    stageChanges: Math.max(0, dealStints.length - 1),
+    slowerThanAverage: avgDaysInCurrentStage !== null && daysInCurrentStage > avgDaysInCurrentStage
+  };
+}
@@ -0,0 +1,672 @@
+// Workflow Automation
+// User-defined workflows: a trigger on one kind of record, conditions on its fields and a
+// list of actions. Database triggers queue record and email events; the runner matches them
+// to active workflows, runs the actions and logs every run. Dry-run workflows log what they
+// would do without doing it.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { OWNED_ENTITIES, ownedByFilter, reassignRecords, type OwnedEntity } from '@/lib/teams';
+import { assertDelivered, deliverEmail } from '@/lib/emailDelivery';
+import { loadTemplateContext, renderEmailTemplate, renderTemplate, withNameParts, type TemplateContext } from '@/lib/templates';
+
+export type WorkflowEntity = OwnedEntity;
+
+export type WorkflowTriggerType =
+  | 'record_created'
+  | 'record_updated'
+  | 'stage_changed'
+  | 'email_opened'
+  | 'email_replied'
+  | 'no_activity';
+
+export type WorkflowOperator = 'equals' | 'not_equals' | 'contains' | 'gte' | 'lte' | 'is_empty' | 'is_not_empty';
+
+export type WorkflowActionType = 'create_activity' | 'send_email' | 'update_field' | 'reassign' | 'notify';
+
+export interface WorkflowTriggerConfig {
+  // record_updated: only fire when one of these fields changed
+  fields?: string[];
+  // stage_changed
+  from_stage?: string;
+  to_stage?: string;
+  // no_activity
+  days?: number;
+}
+
+export interface WorkflowCondition {
+  field: string;
+  operator: WorkflowOperator;
+  value: string;
+}
+
+export interface WorkflowActionConfig {
+  // create_activity
+  activity_type?: string;
+  due_in_days?: number;
+  priority?: string;
+  // create_activity, send_email, notify
+  subject?: string;
+  body?: string;
+  // send_email
+  template_id?: string;
+  // update_field
+  field?: string;
+  value?: string;
+  // reassign
+  owner_id?: string;
+  // notify
+  recipient?: 'me' | 'owner';
+}
+
+export interface WorkflowAction {
+  type: WorkflowActionType;
+  config: WorkflowActionConfig;
+}
+
+export interface Workflow {
+  id: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  dry_run: boolean;
+  entity_type: WorkflowEntity;
+  trigger_type: WorkflowTriggerType;
+  trigger_config: WorkflowTriggerConfig;
+  conditions: WorkflowCondition[];
+  actions: WorkflowAction[];
+}
+
+export type WorkflowInput = Omit<Workflow, 'id'> & { id?: string };
+
+export type WorkflowEvent = Pick<Tables<'workflow_events'>, 'id' | 'entity_type' | 'record_id' | 'event_type' | 'payload'>;
+
+export type WorkflowRunStatus = 'success' | 'failed' | 'skipped';
+
+export interface WorkflowStep {
+  type: WorkflowActionType;
+  status: 'done' | 'would_run' | 'failed';
+  detail: string;
+}
+
+export type WorkflowRun = Omit<Tables<'workflow_runs'>, 'steps'> & {
+  steps: WorkflowStep[];
+  workflowName: string;
+};
+
+export interface WorkflowRunResult {
+  status: WorkflowRunStatus;
+  steps: WorkflowStep[];
+  error: string | null;
+}
+
+type WorkflowRecord = Record<string, unknown> & { id: string };
+
+export const WORKFLOW_TRIGGERS: { value: WorkflowTriggerType; label: string; entities: WorkflowEntity[] }[] = [
+  { value: 'record_created', label: 'Record created', entities: ['deals', 'contacts', 'leads', 'companies'] },
+  { value: 'record_updated', label: 'Record updated', entities: ['deals', 'contacts', 'leads', 'companies'] },
+  { value: 'stage_changed', label: 'Deal stage changed', entities: ['deals'] },
+  { value: 'email_opened', label: 'Email opened', entities: ['contacts', 'deals'] },
+  { value: 'email_replied', label: 'Email replied to', entities: ['contacts', 'deals'] },
+  { value: 'no_activity', label: 'No activity for N days', entities: ['deals', 'contacts', 'leads', 'companies'] }
+];
+
+export const WORKFLOW_OPERATORS: { value: WorkflowOperator; label: string }[] = [
+  { value: 'equals', label: 'is' },
+  { value: 'not_equals', label: 'is not' },
+  { value: 'contains', label: 'contains' },
+  { value: 'gte', label: 'at least' },
+  { value: 'lte', label: 'at most' },
+  { value: 'is_empty', label: 'is empty' },
+  { value: 'is_not_empty', label: 'is not empty' }
+];
+
+export const WORKFLOW_ACTIONS: { value: WorkflowActionType; label: string }[] = [
+  { value: 'create_activity', label: 'Create activity' },
+  { value: 'send_email', label: 'Send email' },
+  { value: 'update_field', label: 'Update field' },
+  { value: 'reassign', label: 'Reassign owner' },
+  { value: 'notify', label: 'Notify' }
+];
+
+// Fields conditions can test and update_field can set
+export const WORKFLOW_FIELDS: Record<WorkflowEntity, { value: string; label: string; numeric: boolean }[]> = {
+  deals: [
+    { value: 'title', label: 'Title', numeric: false },
+    { value: 'stage', label: 'Stage', numeric: false },
+    { value: 'value', label: 'Value', numeric: true },
+    { value: 'probability', label: 'Probability', numeric: true },
+    { value: 'outcome', label: 'Outcome', numeric: false },
+    { value: 'forecast_category', label: 'Forecast category', numeric: false },
+    { value: 'company', label: 'Company', numeric: false },
+    { value: 'next_step', label: 'Next step', numeric: false }
+  ],
+  contacts: [
+    { value: 'name', label: 'Name', numeric: false },
+    { value: 'email', label: 'Email', numeric: false },
+    { value: 'company', label: 'Company', numeric: false },
+    { value: 'title', label: 'Job title', numeric: false },
+    { value: 'status', label: 'Status', numeric: false },
+    { value: 'score', label: 'Score', numeric: true }
+  ],
+  leads: [
+    { value: 'name', label: 'Name', numeric: false },
+    { value: 'email', label: 'Email', numeric: false },
+    { value: 'company', label: 'Company', numeric: false },
+    { value: 'source', label: 'Source', numeric: false },
+    { value: 'status', label: 'Status', numeric: false },
+    { value: 'score', label: 'Score', numeric: true }
+  ],
+  companies: [
+    { value: 'name', label: 'Name', numeric: false },
+    { value: 'industry', label: 'Industry', numeric: false },
+    { value: 'status', label: 'Status', numeric: false },
+    { value: 'country', label: 'Country', numeric: false },
+    { value: 'size', label: 'Size', numeric: false },
+    { value: 'employees', label: 'Employees', numeric: true },
+    { value: 'revenue', label: 'Revenue', numeric: true },
+    { value: 'score', label: 'Score', numeric: true }
+  ]
+};
+
+// Loop guard: a workflow that has already run this often on a record within the window
+// is skipped, so actions that update the record can't keep re-triggering it.
+const LOOP_GUARD_WINDOW_MINUTES = 10;
+const LOOP_GUARD_MAX_RUNS = 3;
+
+const EVENT_BATCH_SIZE = 50;
+
+const normalize = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+const isEmpty = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+function toWorkflow(row: Tables<'workflows'>): Workflow {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    is_active: row.is_active,
+    dry_run: row.dry_run,
+    entity_type: row.entity_type as WorkflowEntity,
+    trigger_type: row.trigger_type as WorkflowTriggerType,
+    trigger_config: (row.trigger_config || {}) as WorkflowTriggerConfig,
+    conditions: Array.isArray(row.conditions) ? (row.conditions as unknown as WorkflowCondition[]) : [],
+    actions: Array.isArray(row.actions) ? (row.actions as unknown as WorkflowAction[]) : []
+  };
+}
+
+/**
+ * Whether one condition holds for a record. Text compares ignore case.
+ */
+export function conditionHolds(condition: WorkflowCondition, record: Record<string, unknown>): boolean {
+  const actual = record[condition.field];
+
+  switch (condition.operator) {
+    case 'is_empty': return isEmpty(actual);
+    case 'is_not_empty': return !isEmpty(actual);
+    case 'gte':
+    case 'lte': {
+      if (isEmpty(actual) || isEmpty(condition.value)) return false;
+      const a = Number(actual);
+      const b = Number(condition.value);
+      if (Number.isNaN(a) || Number.isNaN(b)) return false;
+      return condition.operator === 'gte' ? a >= b : a <= b;
+    }
+    case 'equals': return normalize(actual) === normalize(condition.value);
+    case 'not_equals': return normalize(actual) !== normalize(condition.value);
+    case 'contains': return !isEmpty(condition.value) && normalize(actual).includes(normalize(condition.value));
+    default: return false;
+  }
+}
+
+export function evaluateConditions(conditions: WorkflowCondition[], record: Record<string, unknown>): boolean {
+  return conditions.every(condition => conditionHolds(condition, record));
+}
+
+/**
+ * Whether a queued event fires a workflow. Inactivity workflows are never event-driven.
+ */
+export function triggerMatches(workflow: Workflow, event: WorkflowEvent): boolean {
+  if (workflow.entity_type !== event.entity_type || workflow.trigger_type !== event.event_type) return false;
+
+  const config = workflow.trigger_config;
+  const payload = (event.payload || {}) as Record<string, unknown>;
+
+  if (workflow.trigger_type === 'record_updated' && config.fields?.length) {
+    const changed = Object.keys((payload.changes || {}) as Record<string, unknown>);
+    return config.fields.some(field => changed.includes(field));
+  }
+
+  if (workflow.trigger_type === 'stage_changed') {
+    if (config.from_stage && normalize(config.from_stage) !== normalize(payload.from_stage)) return false;
+    if (config.to_stage && normalize(config.to_stage) !== normalize(payload.to_stage)) return false;
+  }
+
+  return true;
+}
+
+export async function fetchWorkflows(userId: string): Promise<Workflow[]> {
+  const { data, error } = await supabase
+    .from('workflows')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(toWorkflow);
+}
+
+export async function saveWorkflow(userId: string, workflow: WorkflowInput): Promise<void> {
+  const values = {
+    name: workflow.name.trim(),
+    description: workflow.description?.trim() || null,
+    is_active: workflow.is_active,
+    dry_run: workflow.dry_run,
+    entity_type: workflow.entity_type,
+    trigger_type: workflow.trigger_type,
+    trigger_config: workflow.trigger_config as unknown as Json,
+    conditions: workflow.conditions as unknown as Json,
+    actions: workflow.actions as unknown as Json
+  };
+
+  const { error } = workflow.id
+    ? await supabase.from('workflows').update(values).eq('id', workflow.id).eq('user_id', userId)
+    : await supabase.from('workflows').insert({ ...values, user_id: userId });
+
+  if (error) throw error;
+}
+
+export async function deleteWorkflow(userId: string, workflowId: string): Promise<void> {
+  const { error } = await supabase.from('workflows').delete().eq('id', workflowId).eq('user_id', userId);
+  if (error) throw error;
+}
+
+/**
+ * Recent runs, newest first, for one workflow or all of the user's workflows
+ */
+export async function fetchWorkflowRuns(userId: string, workflowId?: string, limit = 50): Promise<WorkflowRun[]> {
+  let query = supabase
+    .from('workflow_runs')
+    .select('*, workflows(name)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (workflowId) {
+    query = query.eq('workflow_id', workflowId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map(({ workflows, ...run }) => ({
+    ...run,
+    steps: Array.isArray(run.steps) ? (run.steps as unknown as WorkflowStep[]) : [],
+    workflowName: workflows?.name || 'Deleted workflow'
+  }));
+}
+
+async function fetchRecord(entity: WorkflowEntity, recordId: string): Promise<WorkflowRecord | null> {
+  const { data, error } = await supabase.from(entity).select('*').eq('id', recordId).maybeSingle();
+  if (error) throw error;
+  return (data as unknown as WorkflowRecord) || null;
+}
+
+async function recentRunCount(workflowId: string, recordId: string): Promise<number> {
+  const since = new Date(Date.now() - LOOP_GUARD_WINDOW_MINUTES * 60 * 1000).toISOString();
+  const { count, error } = await supabase
+    .from('workflow_runs')
+    .select('id', { count: 'exact', head: true })
+    .eq('workflow_id', workflowId)
+    .eq('record_id', recordId)
+    .neq('status', 'skipped')
+    .gte('created_at', since);
+
+  if (error) throw error;
+  return count || 0;
+}
+
+/**
+ * The email address an email action sends to: the record's own, or a deal's contact's
+ */
+async function recipientEmail(entity: WorkflowEntity, record: WorkflowRecord): Promise<{ email: string | null; contactId: string | null }> {
+  if (entity === 'deals') {
+    if (!record.contact_id) return { email: null, contactId: null };
+    const { data } = await supabase.from('contacts').select('id, email').eq('id', String(record.contact_id)).maybeSingle();
+    return { email: data?.email || null, contactId: data?.id || null };
+  }
+  return {
+    email: (record.email as string | null) || null,
+    contactId: entity === 'contacts' ? record.id : null
+  };
+}
+
+// Link columns for activities and emails created about a record
+function recordLinks(entity: WorkflowEntity, record: WorkflowRecord) {
+  return {
+    contact_id: entity === 'contacts' ? record.id : entity === 'deals' ? ((record.contact_id as string | null) || null) : null,
+    deal_id: entity === 'deals' ? record.id : null,
+    lead_id: entity === 'leads' ? record.id : null,
+    company_id: entity === 'companies' ? record.id : ((record.company_id as string | null) || null)
+  };
+}
+
+// Merge fields for the record a workflow runs on: `{{deal.title}}` on a deal, or just `{{title}}`
+function recordContext(entity: WorkflowEntity, record: WorkflowRecord): TemplateContext {
+  switch (entity) {
+    case 'deals': return { record, deal: record };
+    case 'contacts': return { record, contact: withNameParts(record) };
+    case 'leads': return { record, lead: withNameParts(record) };
+    default: return { record, company: record };
+  }
+}
+
+async function runAction(
+  userId: string,
+  workflow: Workflow,
+  action: WorkflowAction,
+  record: WorkflowRecord,
+  dryRun: boolean
+): Promise<WorkflowStep> {
+  const entity = workflow.entity_type;
+  const config = action.config || {};
+  const recordName = String(record[OWNED_ENTITIES[entity].nameColumn] ?? '');
+  const step = (detail: string): WorkflowStep => ({ type: action.type, status: dryRun ? 'would_run' : 'done', detail });
+  const render = (text: string) => renderTemplate(text, recordContext(entity, record)).text;
+
+  switch (action.type) {
+    case 'create_activity': {
+      const subject = render(config.subject || `Follow up: ${recordName}`);
+      const dueDate = config.due_in_days !== undefined
+        ? new Date(Date.now() + Number(config.due_in_days) * 24 * 60 * 60 * 1000).toISOString()
+        : null;
+
+      if (!dryRun) {
+        const { error } = await supabase.from('activities').insert({
+          user_id: userId,
+          ...recordLinks(entity, record),
+          type: config.activity_type || 'task',
+          subject,
+          description: config.body ? render(config.body) : null,
+          due_date: dueDate,
+          priority: config.priority || 'medium',
+          status: 'pending'
+        });
+        if (error) throw error;
+      }
+      return step(`${config.activity_type || 'task'} "${subject}"${dueDate ? ` due ${new Date(dueDate).toLocaleDateString()}` : ''}`);
+    }
+
+    case 'send_email': {
+      let template = { subject: config.subject || '', body: config.body || '' };
+      if (config.template_id) {
+        const { data: saved, error } = await supabase
+          .from('email_templates')
+          .select('subject, body')
+          .eq('id', config.template_id)
+          .maybeSingle();
+        if (error) throw error;
+        if (!saved) throw new Error('Email template not found');
+        template = saved;
+      }
+
+      const links = recordLinks(entity, record);
+      const context = await loadTemplateContext({
+        userId,
+        contactId: links.contact_id,
+        leadId: links.lead_id,
+        dealId: links.deal_id,
+        companyId: links.company_id
+      });
+      const { subject, body, unresolved, errors } = renderEmailTemplate(template, { ...context, ...recordContext(entity, record) });
+      if (errors.length > 0) throw new Error(errors.join('; '));
+      if (unresolved.length > 0) throw new Error(`Unresolved merge fields: ${unresolved.join(', ')}`);
+
+      const { email, contactId } = await recipientEmail(entity, record);
+      if (!email) throw new Error(`No email address for ${recordName || 'this record'}`);
+
+      if (!dryRun) {
+        const { data: tracked, error: trackingError } = await supabase
+          .from('email_tracking')
+          .insert({
+            user_id: userId,
+            contact_id: contactId,
+            deal_id: links.deal_id,
+            lead_id: links.lead_id,
+            email_id: `workflow_${workflow.id}_${Date.now()}`,
+            recipient_email: email,
+            subject,
+            body,
+            type: 'sent',
+            folder: 'sent',
+            sent_at: new Date().toISOString()
+          })
+          .select('id')
+          .single();
+        if (trackingError) throw trackingError;
+        assertDelivered(await deliverEmail(tracked.id));
+
+        const { error: activityError } = await supabase.from('activities').insert({
+          user_id: userId,
+          ...links,
+          type: 'email',
+          subject: `Email sent: ${subject}`,
+          description: `To: ${email}\n\n======= SUBJECT =======\n${subject}\n\n======= MESSAGE =======\n${body}`,
+          status: 'completed'
+        });
+        if (activityError) throw activityError;
+      }
+      return step(`"${subject}" to ${email}`);
+    }
+
+    case 'update_field': {
+      const field = WORKFLOW_FIELDS[entity].find(f => f.value === config.field);
+      if (!field) throw new Error(`Unknown field "${config.field}"`);
+      const raw = render(config.value ?? '');
+      const value = field.numeric ? (raw.trim() === '' ? null : Number(raw)) : raw;
+      if (field.numeric && value !== null && Number.isNaN(value)) throw new Error(`"${raw}" is not a number`);
+
+      if (!dryRun) {
+        const updates: Record<string, unknown> = { [field.value]: value };
+        const { error } = await supabase.from(entity).update(updates).eq('id', record.id);
+        if (error) throw error;
+      }
+      return step(`${field.label}: ${isEmpty(record[field.value]) ? '(empty)' : String(record[field.value])} → ${value ?? '(empty)'}`);
+    }
+
+    case 'reassign': {
+      if (!config.owner_id) throw new Error('No owner selected');
+      if (!dryRun) {
+        const updated = await reassignRecords(entity, [record.id], config.owner_id);
+        if (updated === 0) throw new Error('Not allowed to reassign this record');
+      }
+      return step(`Owner → ${config.owner_id}`);
+    }
+
+    case 'notify': {
+      const recipient = config.recipient === 'owner' ? String(record.owner_id || record.user_id) : userId;
+      const title = render(config.subject || workflow.name);
+
+      if (!dryRun) {
+        const { error } = await supabase.from('notifications').insert({
+          user_id: recipient,
+          created_by: userId,
+          title,
+          message: config.body ? render(config.body) : null,
+          type: 'info',
+          entity_type: entity,
+          record_id: record.id,
+          source: 'workflow'
+        });
+        if (error) throw error;
+      }
+      return step(`"${title}" to ${recipient === userId ? 'you' : 'the record owner'}`);
+    }
+
+    default:
+      throw new Error(`Unknown action "${action.type}"`);
+  }
+}
+
+/**
+ * Run a workflow's actions on one record, in order, and log the run. Stops at the first
+ * failing action. With `dryRun` (or a dry-run workflow) nothing is changed; each step
+ * records what would have happened.
+ */
+export async function runWorkflow(
+  userId: string,
+  workflow: Workflow,
+  record: WorkflowRecord,
+  options: { dryRun?: boolean; eventId?: string | null; skipLoopGuard?: boolean } = {}
+): Promise<WorkflowRunResult> {
+  const dryRun = options.dryRun || workflow.dry_run;
+  const steps: WorkflowStep[] = [];
+  let status: WorkflowRunStatus = 'success';
+  let runError: string | null = null;
+
+  if (!evaluateConditions(workflow.conditions, record)) {
+    status = 'skipped';
+    runError = 'Conditions not met';
+  } else if (!options.skipLoopGuard && await recentRunCount(workflow.id, record.id) >= LOOP_GUARD_MAX_RUNS) {
+    status = 'skipped';
+    runError = `Already ran ${LOOP_GUARD_MAX_RUNS} times on this record in the last ${LOOP_GUARD_WINDOW_MINUTES} minutes`;
+  } else {
+    for (const action of workflow.actions) {
+      try {
+        steps.push(await runAction(userId, workflow, action, record, dryRun));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Action failed';
+        steps.push({ type: action.type, status: 'failed', detail: message });
+        status = 'failed';
+        runError = message;
+        break;
+      }
+    }
+  }
+
+  const { error } = await supabase.from('workflow_runs').insert({
+    user_id: userId,
+    workflow_id: workflow.id,
+    event_id: options.eventId ?? null,
+    entity_type: workflow.entity_type,
+    record_id: record.id,
+    status,
+    dry_run: dryRun,
+    steps: steps as unknown as Json,
+    error: runError
+  });
+  if (error) console.error('Error logging workflow run:', error);
+
+  return { status, steps, error: runError };
+}
+
+/**
+ * Dry-run a workflow against a record of the user's choosing, ignoring the trigger
+ */
+export async function testWorkflow(userId: string, workflow: Workflow, recordId: string): Promise<WorkflowRunResult> {
+  const record = await fetchRecord(workflow.entity_type, recordId);
+  if (!record) throw new Error('Record not found');
+  return runWorkflow(userId, workflow, record, { dryRun: true, skipLoopGuard: true });
+}
+
+/**
+ * Process the user's queued events. Events are claimed before they run so two open
+ * tabs don't run the same workflow twice. Returns the number of workflow runs.
+ */
+export async function processWorkflowEvents(userId: string): Promise<number> {
+  const { data: pending, error } = await supabase
+    .from('workflow_events')
+    .select('id')
+    .eq('user_id', userId)
+    .is('processed_at', null)
+    .order('created_at', { ascending: true })
+    .limit(EVENT_BATCH_SIZE);
+
+  if (error) throw error;
+  if (!pending || pending.length === 0) return 0;
+
+  const { data: events, error: claimError } = await supabase
+    .from('workflow_events')
+    .update({ processed_at: new Date().toISOString() })
+    .in('id', pending.map(event => event.id))
+    .is('processed_at', null)
+    .select('id, entity_type, record_id, event_type, payload');
+
+  if (claimError) throw claimError;
+  if (!events || events.length === 0) return 0;
+
+  const workflows = (await fetchWorkflows(userId)).filter(w => w.is_active && w.trigger_type !== 'no_activity');
+  if (workflows.length === 0) return 0;
+
+  const sorted = [...events].sort((a, b) => pending.findIndex(p => p.id === a.id) - pending.findIndex(p => p.id === b.id));
+  let runs = 0;
+
+  for (const event of sorted) {
+    const matching = workflows.filter(workflow => triggerMatches(workflow, event));
+    if (matching.length === 0) continue;
+
+    try {
+      // Re-read the record so conditions see its current values
+      const record = await fetchRecord(event.entity_type as WorkflowEntity, event.record_id);
+      if (!record) continue;
+
+      for (const workflow of matching) {
+        await runWorkflow(userId, workflow, record, { eventId: event.id });
+        runs++;
+      }
+    } catch (error) {
+      console.error(`Error processing workflow event ${event.id}:`, error);
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Fire no-activity workflows for the user's records with no activity in the last N days.
+ * A record fires at most once per quiet period: not again until N days after its last run.
+ */
+export async function checkInactivityTriggers(userId: string): Promise<number> {
+  const workflows = (await fetchWorkflows(userId)).filter(w => w.is_active && w.trigger_type === 'no_activity');
+  let runs = 0;
+
+  for (const workflow of workflows) {
+    const days = Math.max(1, Number(workflow.trigger_config.days) || 14);
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const entity = workflow.entity_type;
+    const linkColumn = ({ deals: 'deal_id', contacts: 'contact_id', leads: 'lead_id', companies: 'company_id' } as const)[entity];
+
+    try {
+      const { data, error } = await supabase
+        .from(entity)
+        .select('*')
+        .or(ownedByFilter(userId))
+        .lt('created_at', cutoff);
+      if (error) throw error;
+
+      const records = (data || []) as unknown as WorkflowRecord[];
+      if (records.length === 0) continue;
+      const ids = records.map(record => record.id);
+
+      const [{ data: activities, error: activitiesError }, { data: recentRuns, error: runsError }] = await Promise.all([
+        supabase.from('activities').select(linkColumn).in(linkColumn, ids).gte('created_at', cutoff),
+        supabase.from('workflow_runs').select('record_id').eq('workflow_id', workflow.id).gte('created_at', cutoff)
+      ]);
+      if (activitiesError) throw activitiesError;
+      if (runsError) throw runsError;
+
+      const active = new Set((activities || []).map(activity => (activity as Record<string, string | null>)[linkColumn]));
+      const alreadyRun = new Set((recentRuns || []).map(run => run.record_id));
+
+      for (const record of records) {
+        if (active.has(record.id) || alreadyRun.has(record.id)) continue;
+        await runWorkflow(userId, workflow, record);
+        runs++;
+      }
+    } catch (error) {
+      console.error(`Error checking inactivity for workflow ${workflow.id}:`, error);
+    }
+  }
+
+  return runs;
+}
@@ -5,7 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { Users, TrendingUp, DollarSign, Target, MessageSquare, Calendar, LogOut, User, Brain, Building2 } from 'lucide-react';
+import { Users, TrendingUp, DollarSign, Target, MessageSquare, Calendar, LogOut, User, Brain, Building2, Bell } from 'lucide-react';
 import DealsPipeline from '@/components/DealsPipeline';
 import ContactsList from '@/components/ContactsList';
 import AIAssistant from '@/components/AIAssistant';
@@ -13,25 +13,46 @@ import ObjectionHandler from '@/components/ObjectionHandler';
 import WinLossExplainer from '@/components/WinLossExplainer';
 import ActivitiesManager from '@/components/ActivitiesManager';
 import LeadManagement from '@/components/LeadManagement';
+import SegmentManager from '@/components/SegmentManager';
 import CompaniesManager from '@/components/CompaniesManager';
+import DuplicateManager from '@/components/DuplicateManager';
+import TeamManagement from '@/components/TeamManagement';
+import WorkflowBuilder from '@/components/WorkflowBuilder';
+import SequenceManager from '@/components/SequenceManager';
+import EmailTemplates from '@/components/EmailTemplates';
 import ReportsDashboard from '@/components/ReportsDashboard';
+import ForecastDashboard from '@/components/ForecastDashboard';
 import EmailManager from '@/components/EmailManager';
 import CalendarScheduling from '@/components/CalendarScheduling';
 import FileManagement from '@/components/FileManagement';
 import TranscriptsManager from '@/components/TranscriptsManager';
 import ChatCRM from '@/components/ChatCRM';
 import Agent from '@/components/Agent';
+import NotificationCenter, { useNotificationCount } from '@/components/NotificationCenter';
 import { useAuth } from '@/contexts/AuthContext';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useWorkflowRunner } from '@/hooks/useWorkflowRunner';
+import { useSequenceRunner } from '@/hooks/useSequenceRunner';
+import { useInboxSync } from '@/hooks/useInboxSync';
+import { useCalendarSync } from '@/hooks/useCalendarSync';
+import { useNotificationFeed } from '@/hooks/useNotificationFeed';
+import { fetchPipelines, resolveDealOutcome } from '@/lib/pipelines';
 
 const Index = () => {
   const [selectedDeal, setSelectedDeal] = useState(null);
   const [activeTab, setActiveTab] = useState('deals');
   const [showChatCRM, setShowChatCRM] = useState(false);
+  const [showNotifications, setShowNotifications] = useState(false);
   const { user, signOut } = useAuth();
   const { toast } = useToast();
+  useWorkflowRunner();
+  useSequenceRunner();
+  useInboxSync();
+  useCalendarSync();
+  useNotificationFeed();
+  const unreadNotifications = useNotificationCount();
 
   console.log('Index component rendered, user:', user);
 
@@ -47,10 +68,11 @@ const Index = () => {
       console.log('Fetching stats for user:', user.id);
 
       try {
-        const [contactsResult, dealsResult, companiesResult] = await Promise.all([
+        const [contactsResult, dealsResult, companiesResult, pipelines] = await Promise.all([
           supabase.from('contacts').select('id', { count: 'exact' }).eq('user_id', user.id),
-          supabase.from('deals').select('id, value, stage', { count: 'exact' }).eq('user_id', user.id),
-          supabase.from('companies').select('id', { count: 'exact' }).eq('user_id', user.id)
+          supabase.from('deals').select('id, value, stage, outcome, pipeline_id', { count: 'exact' }).eq('user_id', user.id),
+          supabase.from('companies').select('id', { count: 'exact' }).eq('user_id', user.id),
+          fetchPipelines(user.id)
         ]);
 
         console.log('Contacts result:', contactsResult);
@@ -75,7 +97,7 @@ const Index = () => {
         const deals = dealsResult.data || [];
         
         const totalRevenue = deals.reduce((sum, deal) => sum + Number(deal.value || 0), 0);
-        const closedDeals = deals.filter(deal => deal.stage === 'Closing').length;
+        const closedDeals = deals.filter(deal => resolveDealOutcome(pipelines, deal) === 'won').length;
         const closeRate = totalDeals > 0 ? ((closedDeals / totalDeals) * 100).toFixed(1) : '0';
 
         const statsData = {
@@ -116,6 +138,12 @@ const Index = () => {
     setActiveTab('agent');
   };
 
+  // Notifications name the table their record lives in, which is also its tab
+  const handleOpenNotificationRecord = (entityType: string) => {
+    const tabs = ['deals', 'contacts', 'leads', 'companies', 'activities'];
+    if (tabs.includes(entityType)) setActiveTab(entityType);
+  };
+
   // Show loading state if user is not loaded yet
   if (!user) {
     console.log('No user found, showing loading state');
@@ -190,6 +218,14 @@ const Index = () => {
                 <User className="w-4 h-4 text-slate-600" />
                 <span className="text-sm text-slate-700">{user?.email}</span>
               </div>
+              <Button variant="outline" size="sm" className="relative" onClick={() => setShowNotifications(true)} title="Notifications">
+                <Bell className="w-4 h-4" />
+                {unreadNotifications > 0 && (
+                  <span className="absolute -top-2 -right-2 min-w-5 h-5 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+                    {unreadNotifications > 99 ? '99+' : unreadNotifications}
+                  </span>
+                )}
+              </Button>
               <Button variant="outline" size="sm" onClick={handleChatCRM}>
                 <MessageSquare className="w-4 h-4 mr-2" />
                 ChatCRM
@@ -239,15 +275,22 @@ const Index = () => {
               <TabsTrigger value="deals" className="whitespace-nowrap">Deals</TabsTrigger>
               <TabsTrigger value="contacts" className="whitespace-nowrap">Contacts</TabsTrigger>
               <TabsTrigger value="leads" className="whitespace-nowrap">Leads</TabsTrigger>
+              <TabsTrigger value="segments" className="whitespace-nowrap">Segments</TabsTrigger>
               <TabsTrigger value="activities" className="whitespace-nowrap">Activities</TabsTrigger>
               <TabsTrigger value="reports" className="whitespace-nowrap">Reports</TabsTrigger>
+              <TabsTrigger value="forecast" className="whitespace-nowrap">Forecast</TabsTrigger>
               <TabsTrigger value="ai-assistant" className="whitespace-nowrap">AI Assistant</TabsTrigger>
               <TabsTrigger value="objection-handler" className="whitespace-nowrap">Objections</TabsTrigger>
               <TabsTrigger value="win-loss" className="whitespace-nowrap">Win-Loss</TabsTrigger>
               <TabsTrigger value="compose-email" className="whitespace-nowrap">Emails</TabsTrigger>
+              <TabsTrigger value="templates" className="whitespace-nowrap">Templates</TabsTrigger>
+              <TabsTrigger value="sequences" className="whitespace-nowrap">Sequences</TabsTrigger>
               <TabsTrigger value="calendar" className="whitespace-nowrap">Calendar</TabsTrigger>
               <TabsTrigger value="files" className="whitespace-nowrap">Files</TabsTrigger>
               <TabsTrigger value="companies" className="whitespace-nowrap">Companies</TabsTrigger>
+              <TabsTrigger value="duplicates" className="whitespace-nowrap">Duplicates</TabsTrigger>
+              <TabsTrigger value="team" className="whitespace-nowrap">Team</TabsTrigger>
+              <TabsTrigger value="automations" className="whitespace-nowrap">Automations</TabsTrigger>
               <TabsTrigger value="transcripts" className="whitespace-nowrap">Transcripts</TabsTrigger>
               <TabsTrigger value="agent" className="whitespace-nowrap">Agent</TabsTrigger>
             </TabsList>
@@ -265,6 +308,10 @@ const Index = () => {
             <LeadManagement />
           </TabsContent>
 
+          <TabsContent value="segments" className="space-y-6">
+            <SegmentManager />
+          </TabsContent>
+
           <TabsContent value="activities" className="space-y-6">
             <ActivitiesManager />
           </TabsContent>
@@ -273,6 +320,10 @@ const Index = () => {
             <ReportsDashboard />
           </TabsContent>
 
+          <TabsContent value="forecast" className="space-y-6">
+            <ForecastDashboard />
+          </TabsContent>
+
           <TabsContent value="ai-assistant" className="space-y-6">
             <AIAssistant />
           </TabsContent>
@@ -289,6 +340,14 @@ const Index = () => {
             <EmailManager />
           </TabsContent>
 
+          <TabsContent value="templates" className="space-y-6">
+            <EmailTemplates />
+          </TabsContent>
+
+          <TabsContent value="sequences" className="space-y-6">
+            <SequenceManager />
+          </TabsContent>
+
           <TabsContent value="calendar" className="space-y-6">
             <CalendarScheduling />
           </TabsContent>
@@ -301,6 +360,18 @@ const Index = () => {
             <CompaniesManager />
           </TabsContent>
 
+          <TabsContent value="duplicates" className="space-y-6">
+            <DuplicateManager />
+          </TabsContent>
+
+          <TabsContent value="team" className="space-y-6">
+            <TeamManagement />
+          </TabsContent>
+
+          <TabsContent value="automations" className="space-y-6">
+            <WorkflowBuilder />
+          </TabsContent>
+
           <TabsContent value="transcripts" className="space-y-6">
             <TranscriptsManager />
           </TabsContent>
@@ -313,6 +384,12 @@ const Index = () => {
 
       {/* ChatCRM Dialog */}
       <ChatCRM open={showChatCRM} onOpenChange={setShowChatCRM} initialMessage="" />
+
+      <NotificationCenter
+        open={showNotifications}
+        onOpenChange={setShowNotifications}
+        onOpenRecord={handleOpenNotificationRecord}
+      />
     </div>
   );
 };
@@ -0,0 +1,93 @@
+import { useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Bot, Brain, Lock, User } from 'lucide-react';
+import { CHAT_CITATION_LABELS, fetchSharedChat } from '@/lib/chatSessions';
+
+// Read-only view of a ChatCRM conversation a teammate shared by link
+const SharedChat = () => {
+  const { token } = useParams<{ token: string }>();
+
+  const { data: shared, isLoading, error } = useQuery({
+    queryKey: ['shared-chat', token],
+    queryFn: () => fetchSharedChat(token!),
+    enabled: !!token,
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <div className="max-w-3xl mx-auto px-6 py-8 space-y-6">
+        <a href="/" className="text-sm text-blue-600 hover:text-blue-800 underline">
+          Back to the CRM
+        </a>
+
+        {isLoading ? (
+          <div className="text-center py-12 text-slate-600">Loading conversation...</div>
+        ) : error || !shared ? (
+          <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+            <CardContent className="py-12 text-center">
+              <Lock className="w-10 h-10 mx-auto mb-4 text-slate-400" />
+              <h2 className="text-lg font-medium text-slate-900 mb-2">This chat isn't available</h2>
+              <p className="text-slate-600">
+                {error instanceof Error
+                  ? error.message
+                  : 'The link may have been turned off, or the chat was shared with a team you are not on.'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-lg">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Brain className="w-5 h-5 mr-2 text-blue-600" />
+                {shared.session.title}
+              </CardTitle>
+              <CardDescription>
+                Shared by {shared.ownerName}
+                {shared.session.shared_at && ` on ${new Date(shared.session.shared_at).toLocaleDateString()}`}
+                {' · '}Read only
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {shared.messages.length === 0 && (
+                <div className="text-center py-6 text-slate-500">No messages yet</div>
+              )}
+              {shared.messages.map(message => (
+                <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                  <div
+                    className={`max-w-[85%] rounded-lg p-4 ${
+                      message.role === 'user'
+                        ? 'bg-gradient-to-r from-blue-600 to-purple-600 text-white'
+                        : 'bg-white border border-slate-200'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-4 mb-2">
+                      <span className="flex items-center text-sm font-medium">
+                        {message.role === 'user' ? <User className="w-4 h-4 mr-1" /> : <Bot className="w-4 h-4 mr-1" />}
+                        {message.role === 'user' ? shared.ownerName : 'AI Assistant'}
+                      </span>
+                      <span className="text-xs opacity-70">{new Date(message.created_at).toLocaleString()}</span>
+                    </div>
+                    <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                    {message.citations.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-3">
+                        {message.citations.map(citation => (
+                          <Badge key={`${citation.type}-${citation.id}`} variant="outline" className="text-xs bg-slate-50">
+                            {CHAT_CITATION_LABELS[citation.type]}: {citation.name}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedChat;
@@ -0,0 +1,37 @@
+import { createClient, type SupabaseClient, type User } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+
+export class AuthError extends Error {
+  status = 401
+}
+
+/**
+ * A Supabase client acting as the calling user, so row-level security applies.
+ * Throws AuthError when the request has no bearer token.
+ */
+export function createUserClient(req: Request): SupabaseClient {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    throw new AuthError('Missing authorization header')
+  }
+
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: authHeader } } }
+  )
+}
+
+/**
+ * Resolve the calling user from the request's bearer token.
+ * Throws AuthError when the token is missing, expired or belongs to no user.
+ */
+export async function requireUser(req: Request): Promise<User> {
+  const supabase = createUserClient(req)
+
+  const { data: { user }, error } = await supabase.auth.getUser()
+  if (error || !user) {
+    throw new AuthError('Invalid or expired session')
+  }
+
+  return user
+}
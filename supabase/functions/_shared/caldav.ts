@@ -0,0 +1,153 @@
+// Minimal CalDAV (RFC 4791) client for calendar-sync: list a calendar's objects with
+// their ETags, fetch the ones that changed, and write or delete single objects with
+// If-Match / If-None-Match so a concurrent change on the server is reported as a
+// conflict instead of being overwritten.
+
+import { XMLParser } from 'npm:fast-xml-parser@4.3.6'
+
+export interface CalDavAccount {
+  url: string;
+  username: string;
+  password: string;
+}
+
+export interface RemoteObject {
+  href: string;
+  etag: string | null;
+  data?: string;
+}
+
+export class CalDavError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'CalDavError'
+  }
+}
+
+// Objects fetched per calendar-multiget request
+const MULTIGET_BATCH = 50
+
+const parser = new XMLParser({
+  removeNSPrefix: true,
+  ignoreAttributes: true,
+  parseTagValue: false,
+  isArray: (name) => name === 'response' || name === 'propstat' || name === 'href',
+})
+
+const asArray = <T>(value: T | T[] | undefined): T[] => (value === undefined ? [] : Array.isArray(value) ? value : [value])
+
+async function request(account: CalDavAccount, method: string, url: string, body?: string, headers: Record<string, string> = {}): Promise<Response> {
+  const response = await fetch(url, {
+    method,
+    body,
+    headers: {
+      Authorization: `Basic ${btoa(`${account.username}:${account.password}`)}`,
+      ...(body ? { 'Content-Type': method === 'PUT' ? 'text/calendar; charset=utf-8' : 'application/xml; charset=utf-8' } : {}),
+      ...headers,
+    },
+  })
+  if (response.status === 401 || response.status === 403) {
+    throw new CalDavError('The CalDAV server rejected the username or password', response.status)
+  }
+  return response
+}
+
+function parseMultistatus(xml: string): RemoteObject[] {
+  const document = parser.parse(xml)
+  return asArray(document?.multistatus?.response).flatMap((response: Record<string, unknown>) => {
+    const href = asArray(response.href as string | string[])[0]
+    const ok = asArray(response.propstat as Record<string, unknown>[]).find((propstat) => /\s200\s/.test(String(propstat.status)))
+    if (!href || !ok) return []
+    const prop = (ok.prop ?? {}) as Record<string, unknown>
+    const data = prop['calendar-data']
+    return [{
+      href: decodeURI(String(href)),
+      etag: prop.getetag ? String(prop.getetag) : null,
+      ...(data ? { data: String(data) } : {}),
+    }]
+  })
+}
+
+/**
+ * The absolute URL of an object in the calendar
+ */
+export function objectUrl(account: CalDavAccount, href: string): string {
+  return new URL(encodeURI(href), account.url).toString()
+}
+
+/**
+ * The href a new object with this UID is stored under
+ */
+export function newObjectHref(account: CalDavAccount, uid: string): string {
+  const path = new URL(account.url).pathname.replace(/\/?$/, '/')
+  return `${path}${uid.replace(/[^A-Za-z0-9._-]/g, '_')}.ics`
+}
+
+/**
+ * Every event and to-do in the calendar, with ETags but without their data
+ */
+export async function listObjects(account: CalDavAccount): Promise<RemoteObject[]> {
+  const body = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><d:getetag/></d:prop>
+  <c:filter><c:comp-filter name="VCALENDAR"/></c:filter>
+</c:calendar-query>`
+  const response = await request(account, 'REPORT', account.url, body, { Depth: '1' })
+  if (response.status !== 207) {
+    throw new CalDavError(`Listing the calendar failed (HTTP ${response.status})`, response.status)
+  }
+  const calendarPath = new URL(account.url).pathname.replace(/\/?$/, '/')
+  // Some servers include the collection itself
+  return parseMultistatus(await response.text()).filter((object) => object.href.replace(/\/?$/, '/') !== calendarPath)
+}
+
+/**
+ * The data of the given objects
+ */
+export async function fetchObjects(account: CalDavAccount, hrefs: string[]): Promise<RemoteObject[]> {
+  const objects: RemoteObject[] = []
+  for (let i = 0; i < hrefs.length; i += MULTIGET_BATCH) {
+    const batch = hrefs.slice(i, i + MULTIGET_BATCH)
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-multiget xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  ${batch.map((href) => `<d:href>${encodeURI(href).replace(/&/g, '&amp;')}</d:href>`).join('\n  ')}
+</c:calendar-multiget>`
+    const response = await request(account, 'REPORT', account.url, body, { Depth: '1' })
+    if (response.status !== 207) {
+      throw new CalDavError(`Fetching calendar objects failed (HTTP ${response.status})`, response.status)
+    }
+    objects.push(...parseMultistatus(await response.text()).filter((object) => object.data))
+  }
+  return objects
+}
+
+/**
+ * Create (etag null) or replace an object. Returns its new ETag, or null when the server
+ * doesn't send one. Throws a 412 CalDavError when the object changed on the server.
+ */
+export async function putObject(account: CalDavAccount, href: string, ics: string, etag: string | null): Promise<string | null> {
+  const response = await request(account, 'PUT', objectUrl(account, href), ics, etag ? { 'If-Match': etag } : { 'If-None-Match': '*' })
+  if (response.status === 412) {
+    throw new CalDavError('The calendar object changed on the server', 412)
+  }
+  if (!response.ok) {
+    throw new CalDavError(`Saving to the calendar failed (HTTP ${response.status}): ${await response.text()}`, response.status)
+  }
+  await response.body?.cancel()
+  return response.headers.get('ETag')
+}
+
+/**
+ * Delete an object unless it changed on the server (412 CalDavError). Already gone is fine.
+ */
+export async function deleteObject(account: CalDavAccount, href: string, etag: string | null): Promise<void> {
+  const response = await request(account, 'DELETE', objectUrl(account, href), undefined, etag ? { 'If-Match': etag } : {})
+  if (response.status === 412) {
+    throw new CalDavError('The calendar object changed on the server', 412)
+  }
+  if (!response.ok && response.status !== 404) {
+    throw new CalDavError(`Deleting from the calendar failed (HTTP ${response.status})`, response.status)
+  }
+  await response.body?.cancel()
+}
@@ -0,0 +1,54 @@
+// Shared email handling. Outbound (send-email): plain-text bodies become HTML, links
+// are rewritten to go through the email-track redirect and an open-tracking pixel is
+// added. Inbound (imap-sync): Message-ID lists are normalised for threading.
+
+export interface TrackedLink {
+  id: string;
+  url: string;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+export function isHtml(body: string): boolean {
+  return /<\/?[a-z][^>]*>/i.test(body)
+}
+
+/**
+ * Turn a plain-text body into HTML, keeping line breaks and making bare URLs clickable
+ */
+export function textToHtml(text: string): string {
+  return escapeHtml(text)
+    .replace(/https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"]/g, (url) => `<a href="${url}">${url}</a>`)
+    .replace(/\r?\n/g, '<br>\n')
+}
+
+/**
+ * Point every http(s) link at the click redirect. Returns the rewritten HTML and the
+ * links to store, each under the id the redirect looks up.
+ */
+export function rewriteLinks(html: string, trackingUrl: string): { html: string; links: TrackedLink[] } {
+  const links: TrackedLink[] = []
+  const rewritten = html.replace(
+    /(<a\b[^>]*?\bhref\s*=\s*)(["'])(https?:\/\/[^"']+)\2/gi,
+    (_match, prefix: string, quote: string, href: string) => {
+      const id = crypto.randomUUID()
+      links.push({ id, url: href.replace(/&amp;/g, '&') })
+      return `${prefix}${quote}${trackingUrl}?l=${id}${quote}`
+    }
+  )
+  return { html: rewritten, links }
+}
+
+export function trackingPixel(trackingUrl: string, emailId: string): string {
+  return `<img src="${trackingUrl}?o=${emailId}" width="1" height="1" alt="" style="border:0;width:1px;height:1px">`
+}
+
+/**
+ * The Message-IDs in an In-Reply-To or References value, in order, with angle brackets
+ */
+export function messageIdList(value: string | string[] | null | undefined): string[] {
+  if (!value) return []
+  const text = Array.isArray(value) ? value.join(' ') : value
+  return text.match(/<[^<>\s]+>/g) ?? []
+}
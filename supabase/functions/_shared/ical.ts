@@ -0,0 +1,310 @@
+// iCalendar (RFC 5545) reading and writing for calendar sync. Meetings and calls become
+// VEVENTs and tasks VTODOs; the subscription feed, ICS import and CalDAV sync all map
+// activities through here so a round trip keeps the same fields.
+
+export type CalendarComponent = 'VEVENT' | 'VTODO'
+
+export interface CalendarItem {
+  uid: string;
+  component: CalendarComponent;
+  summary: string;
+  description: string | null;
+  start: string | null;
+  end: string | null;
+  status: 'pending' | 'completed' | 'cancelled';
+  completedAt: string | null;
+  // When the item was last changed in the calendar, for resolving sync conflicts
+  lastModified: string | null;
+}
+
+export interface CalendarActivity {
+  id: string;
+  type: string;
+  subject: string;
+  description: string | null;
+  due_date: string | null;
+  end_date: string | null;
+  status: string | null;
+  completed_at: string | null;
+  ical_uid: string | null;
+  updated_at: string;
+}
+
+// Activity types that live on a calendar, and the component each becomes
+export const CALENDAR_ACTIVITY_TYPES: Record<string, CalendarComponent> = {
+  meeting: 'VEVENT',
+  call: 'VEVENT',
+  task: 'VTODO',
+}
+
+// Events without an end in the CRM are exported with this length
+const DEFAULT_EVENT_MINUTES = 30
+
+const PRODUCT_ID = '-//CRM//Calendar Sync//EN'
+
+// ---------------------------------------------------------------------------
+// Reading
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+
+function parseProperty(line: string): Property | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false
+  let colon = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i
+      break
+    }
+  }
+  if (colon === -1) return null
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';')
+  const params: Record<string, string> = {}
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=')
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '')
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+/**
+ * The UTC instant a wall-clock time in an IANA time zone refers to
+ */
+function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, second: number, timeZone: string): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute, second)
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+    }).formatToParts(new Date(guess))
+    const get = (type: string) => Number(parts.find((part) => part.type === type)?.value)
+    const asZoned = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+    return new Date(guess - (asZoned - guess))
+  } catch {
+    // Unknown zone (e.g. a Windows zone name): read the time as UTC
+    return new Date(guess)
+  }
+}
+
+/**
+ * A DATE or DATE-TIME value as an ISO timestamp. All-day dates are placed at noon UTC
+ * so they fall on the same day in every time zone the app is likely to be viewed in.
+ */
+function parseDateValue(property: Property): string | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+  if (!match) return null
+  const [, year, month, day, hour, minute, second, utc] = match
+  if (!hour) {
+    return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), 12)).toISOString()
+  }
+  const fields = [year, month, day, hour, minute, second].map(Number) as [number, number, number, number, number, number]
+  if (utc || !property.params.TZID) {
+    // Floating times have no zone to go by, so they're read as UTC
+    return new Date(Date.UTC(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5])).toISOString()
+  }
+  return zonedTimeToUtc(...fields, property.params.TZID).toISOString()
+}
+
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+  if (!match) return null
+  const [, sign, weeks, days, hours, minutes, seconds] = match
+  const ms = ((Number(weeks ?? 0) * 7 + Number(days ?? 0)) * 86400 + Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Number(seconds ?? 0)) * 1000
+  return sign === '-' ? -ms : ms
+}
+
+/**
+ * The events and to-dos in an iCalendar document. Recurring items are read as their
+ * first occurrence; changed single occurrences (RECURRENCE-ID) are skipped.
+ */
+export function parseICalendar(text: string): CalendarItem[] {
+  // Unfold continuation lines
+  const lines = text.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/)
+  const items: CalendarItem[] = []
+  let current: Property[] | null = null
+  let component: CalendarComponent | null = null
+  let nestedDepth = 0
+
+  for (const line of lines) {
+    if (!line.trim()) continue
+    const property = parseProperty(line)
+    if (!property) continue
+
+    if (property.name === 'BEGIN') {
+      const name = property.value.toUpperCase()
+      if (current) nestedDepth++
+      else if (name === 'VEVENT' || name === 'VTODO') {
+        current = []
+        component = name
+      }
+      continue
+    }
+    if (property.name === 'END') {
+      if (current && nestedDepth > 0) nestedDepth--
+      else if (current && component && property.value.toUpperCase() === component) {
+        const item = toItem(component, current)
+        if (item) items.push(item)
+        current = null
+        component = null
+      }
+      continue
+    }
+    // Skip properties of nested components such as VALARM
+    if (current && nestedDepth === 0) current.push(property)
+  }
+
+  return items
+}
+
+function toItem(component: CalendarComponent, properties: Property[]): CalendarItem | null {
+  const get = (name: string) => properties.find((property) => property.name === name)
+  const uid = get('UID')?.value
+  if (!uid || get('RECURRENCE-ID')) return null
+
+  const startProperty = component === 'VEVENT' ? get('DTSTART') : get('DUE') ?? get('DTSTART')
+  const start = startProperty ? parseDateValue(startProperty) : null
+  let end: string | null = null
+  if (component === 'VEVENT') {
+    const endProperty = get('DTEND')
+    const duration = get('DURATION')
+    if (endProperty) end = parseDateValue(endProperty)
+    else if (duration && start) {
+      const ms = parseDuration(duration.value)
+      if (ms !== null) end = new Date(new Date(start).getTime() + ms).toISOString()
+    }
+  }
+
+  const rawStatus = get('STATUS')?.value.toUpperCase()
+  const completedProperty = get('COMPLETED')
+  const status = rawStatus === 'CANCELLED'
+    ? 'cancelled'
+    : rawStatus === 'COMPLETED' || completedProperty ? 'completed' : 'pending'
+  const modified = get('LAST-MODIFIED') ?? get('DTSTAMP')
+
+  return {
+    uid,
+    component,
+    summary: unescapeText(get('SUMMARY')?.value ?? '') || '(no title)',
+    description: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!.value) : null,
+    start,
+    end,
+    status,
+    completedAt: completedProperty ? parseDateValue(completedProperty) : null,
+    lastModified: modified ? parseDateValue(modified) : null,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+const formatDate = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+/**
+ * Fold a content line at 75 octets as RFC 5545 requires
+ */
+function foldLine(line: string): string {
+  const bytes = new TextEncoder().encode(line)
+  if (bytes.length <= 75) return line
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of line) {
+    const size = new TextEncoder().encode(char).length
+    if (currentBytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += size
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+/**
+ * The UID an activity is known by in calendars: the one it was imported with, else one
+ * derived from its id
+ */
+export function activityUid(activity: Pick<CalendarActivity, 'id' | 'ical_uid'>, domain: string): string {
+  return activity.ical_uid ?? `${activity.id}@${domain}`
+}
+
+function activityLines(activity: CalendarActivity, domain: string): string[] {
+  const component = CALENDAR_ACTIVITY_TYPES[activity.type] ?? 'VEVENT'
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${activityUid(activity, domain)}`,
+    `DTSTAMP:${formatDate(new Date().toISOString())}`,
+    `LAST-MODIFIED:${formatDate(activity.updated_at)}`,
+    `SUMMARY:${escapeText(activity.subject)}`,
+  ]
+  if (activity.description) lines.push(`DESCRIPTION:${escapeText(activity.description)}`)
+
+  if (component === 'VEVENT') {
+    if (activity.due_date) {
+      const end = activity.end_date ?? new Date(new Date(activity.due_date).getTime() + DEFAULT_EVENT_MINUTES * 60000).toISOString()
+      lines.push(`DTSTART:${formatDate(activity.due_date)}`, `DTEND:${formatDate(end)}`)
+    }
+    if (activity.status === 'cancelled') lines.push('STATUS:CANCELLED')
+    else lines.push('STATUS:CONFIRMED')
+  } else {
+    if (activity.due_date) lines.push(`DUE:${formatDate(activity.due_date)}`)
+    if (activity.status === 'completed') {
+      lines.push('STATUS:COMPLETED', `COMPLETED:${formatDate(activity.completed_at ?? activity.updated_at)}`)
+    } else if (activity.status === 'cancelled') {
+      lines.push('STATUS:CANCELLED')
+    } else {
+      lines.push('STATUS:NEEDS-ACTION')
+    }
+  }
+
+  lines.push(`END:${component}`)
+  return lines
+}
+
+/**
+ * An iCalendar document holding the given activities
+ */
+export function serializeICalendar(activities: CalendarActivity[], domain: string, name?: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...activities.flatMap((activity) => activityLines(activity, domain)),
+    'END:VCALENDAR',
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * The activity fields a calendar item sets
+ */
+export function itemToActivityFields(item: CalendarItem) {
+  return {
+    type: item.component === 'VTODO' ? 'task' : 'meeting',
+    subject: item.summary,
+    description: item.description,
+    due_date: item.start,
+    end_date: item.end,
+    status: item.status,
+    completed_at: item.status === 'completed' ? item.completedAt ?? item.lastModified ?? new Date().toISOString() : null,
+    ical_uid: item.uid,
+  }
+}
@@ -0,0 +1,41 @@
+// Server-side OpenAI access for the AI gateway functions.
+// The API key only ever lives in the function secrets (`supabase secrets set OPENAI_API_KEY=...`).
+
+export const OPENAI_BASE_URL = Deno.env.get('OPENAI_BASE_URL') ?? 'https://api.openai.com/v1'
+
+export const ALLOWED_CHAT_MODELS = ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini']
+export const ALLOWED_EMBEDDING_MODELS = ['text-embedding-3-small']
+export const MAX_COMPLETION_TOKENS = 4000
+
+export class OpenAIError extends Error {
+  constructor(message: string, public status = 502) {
+    super(message)
+  }
+}
+
+function getApiKey(): string {
+  const apiKey = Deno.env.get('OPENAI_API_KEY')
+  if (!apiKey) {
+    throw new OpenAIError('OpenAI API key not configured', 500)
+  }
+  return apiKey
+}
+
+/**
+ * Forward a request to OpenAI and return the parsed JSON body
+ */
+export async function callOpenAI(path: string, body: BodyInit, contentType: string | null = 'application/json') {
+  const headers: Record<string, string> = { Authorization: `Bearer ${getApiKey()}` }
+  if (contentType) {
+    headers['Content-Type'] = contentType
+  }
+
+  const response = await fetch(`${OPENAI_BASE_URL}${path}`, { method: 'POST', headers, body })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new OpenAIError(`OpenAI API error: ${response.status} ${response.statusText}. ${errorData.error?.message || ''}`)
+  }
+
+  return response.json()
+}
@@ -0,0 +1,57 @@
+// AI gateway: chat completions.
+// Accepts an OpenAI chat completion body (messages, tools, response_format, ...),
+// checks the caller's session and forwards it with the server-side key.
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { AuthError, requireUser } from '../_shared/auth.ts'
+import { ALLOWED_CHAT_MODELS, MAX_COMPLETION_TOKENS, OpenAIError, callOpenAI } from '../_shared/openai.ts'
+
+interface ChatRequestBody {
+  model?: string;
+  messages: Array<Record<string, unknown>>;
+  temperature?: number;
+  max_tokens?: number;
+  response_format?: { type: string };
+  tools?: unknown[];
+  tool_choice?: unknown;
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const user = await requireUser(req)
+    const body: ChatRequestBody = await req.json()
+
+    // Validate request
+    if (!Array.isArray(body.messages) || body.messages.length === 0) {
+      return jsonResponse({ error: 'messages must be a non-empty array' }, 400)
+    }
+
+    const model = body.model ?? 'gpt-4o-mini'
+    if (!ALLOWED_CHAT_MODELS.includes(model)) {
+      return jsonResponse({ error: `Model ${model} is not allowed` }, 400)
+    }
+
+    const completion = await callOpenAI('/chat/completions', JSON.stringify({
+      model,
+      messages: body.messages,
+      temperature: body.temperature ?? 0.7,
+      max_tokens: Math.min(body.max_tokens ?? 1500, MAX_COMPLETION_TOKENS),
+      ...(body.response_format ? { response_format: body.response_format } : {}),
+      ...(body.tools ? { tools: body.tools, tool_choice: body.tool_choice ?? 'auto' } : {}),
+      // Attribute usage to the CRM user in OpenAI's abuse monitoring
+      user: user.id,
+    }))
+
+    return jsonResponse(completion)
+
+  } catch (error) {
+    console.error('Error in ai-chat function:', error.message)
+    const status = error instanceof AuthError || error instanceof OpenAIError ? error.status : 500
+    return jsonResponse({ error: error.message }, status)
+  }
+})
@@ -0,0 +1,52 @@
+// AI gateway: text embeddings.
+// Returns a single embedding vector for `input` using the server-side key.
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { AuthError, requireUser } from '../_shared/auth.ts'
+import { ALLOWED_EMBEDDING_MODELS, OpenAIError, callOpenAI } from '../_shared/openai.ts'
+
+// text-embedding-3-small accepts 8191 tokens; ~4 characters per token
+const MAX_INPUT_CHARACTERS = 32000
+
+interface EmbeddingRequestBody {
+  input: string;
+  model?: string;
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const user = await requireUser(req)
+    const { input, model = 'text-embedding-3-small' }: EmbeddingRequestBody = await req.json()
+
+    // Validate request
+    if (!input || typeof input !== 'string') {
+      return jsonResponse({ error: 'input must be a non-empty string' }, 400)
+    }
+    if (!ALLOWED_EMBEDDING_MODELS.includes(model)) {
+      return jsonResponse({ error: `Model ${model} is not allowed` }, 400)
+    }
+
+    const data = await callOpenAI('/embeddings', JSON.stringify({
+      model,
+      input: input.slice(0, MAX_INPUT_CHARACTERS),
+      encoding_format: 'float',
+      user: user.id,
+    }))
+
+    return jsonResponse({
+      embedding: data.data[0].embedding,
+      model: data.model,
+      usage: data.usage,
+    })
+
+  } catch (error) {
+    console.error('Error in ai-embeddings function:', error.message)
+    const status = error instanceof AuthError || error instanceof OpenAIError ? error.status : 500
+    return jsonResponse({ error: error.message }, status)
+  }
+})
@@ -0,0 +1,53 @@
+// AI gateway: audio/video transcription with Whisper.
+// Expects multipart/form-data with a `file` field and an optional `language`.
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { AuthError, requireUser } from '../_shared/auth.ts'
+import { OpenAIError, callOpenAI } from '../_shared/openai.ts'
+
+// Whisper rejects uploads larger than 25 MB
+const MAX_FILE_BYTES = 25 * 1024 * 1024
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    await requireUser(req)
+    const form = await req.formData()
+    const file = form.get('file')
+    const language = form.get('language')
+
+    // Validate request
+    if (!(file instanceof File)) {
+      return jsonResponse({ error: 'A file field is required' }, 400)
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return jsonResponse({ error: 'File exceeds the 25MB transcription limit' }, 413)
+    }
+
+    const upstream = new FormData()
+    upstream.append('file', file, file.name)
+    upstream.append('model', 'whisper-1')
+    upstream.append('response_format', 'verbose_json')
+    if (typeof language === 'string' && language) {
+      upstream.append('language', language)
+    }
+
+    // Let fetch set the multipart boundary
+    const data = await callOpenAI('/audio/transcriptions', upstream, null)
+
+    return jsonResponse({
+      text: data.text,
+      language: data.language,
+      duration: data.duration,
+    })
+
+  } catch (error) {
+    console.error('Error in ai-transcribe function:', error.message)
+    const status = error instanceof AuthError || error instanceof OpenAIError ? error.status : 500
+    return jsonResponse({ error: error.message }, status)
+  }
+})
@@ -0,0 +1,56 @@
+// Calendar feed: a user's meetings, calls and tasks as an ICS subscription.
+// Public endpoint (verify_jwt is off in config.toml), since calendar apps can't sign in:
+// `?token=<feed token>` identifies the user through their 'ics_feed' integration.
+// Each fetch sets the integration's last_sync.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { CALENDAR_ACTIVITY_TYPES, serializeICalendar } from '../_shared/ical.ts'
+
+// How far back the feed reaches; everything ahead is included
+const FEED_HISTORY_DAYS = 180
+
+Deno.serve(async (req) => {
+  const token = new URL(req.url).searchParams.get('token')
+  if (!token || token.length < 32) {
+    return new Response('Feed not found', { status: 404 })
+  }
+
+  try {
+    const admin = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '')
+
+    const { data: feed, error: feedError } = await admin
+      .from('integrations')
+      .select('id, user_id, is_active')
+      .eq('type', 'ics_feed')
+      .eq('config->>token', token)
+      .maybeSingle()
+    if (feedError) throw feedError
+    if (!feed || !feed.is_active) {
+      return new Response('Feed not found', { status: 404 })
+    }
+
+    const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    const { data: activities, error } = await admin
+      .from('activities')
+      .select('id, type, subject, description, due_date, end_date, status, completed_at, ical_uid, updated_at')
+      .eq('user_id', feed.user_id)
+      .in('type', Object.keys(CALENDAR_ACTIVITY_TYPES))
+      .gte('due_date', since)
+      .order('due_date')
+    if (error) throw error
+
+    await admin.from('integrations').update({ last_sync: new Date().toISOString() }).eq('id', feed.id)
+
+    const domain = new URL(Deno.env.get('SUPABASE_URL') ?? 'http://localhost').host
+    return new Response(serializeICalendar(activities ?? [], domain, 'CRM'), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="crm.ics"',
+        'Cache-Control': 'no-cache',
+      },
+    })
+  } catch (error) {
+    console.error('Error in calendar-feed function:', error.message)
+    return new Response('Feed unavailable', { status: 500 })
+  }
+})
@@ -0,0 +1,393 @@
+// Calendar sync for the caller's meetings, calls and tasks.
+//   { action: 'import', ics }           add or update activities from an ICS file
+//   { action: 'sync', integration_id }  two-way sync with a 'caldav' integration
+// A CalDAV sync compares both sides with what calendar_sync_items recorded last time:
+// changes flow to the side that didn't change, deletions are passed on unless the other
+// side edited the item meanwhile (the edit wins), and when both sides edited the same
+// item the most recent edit wins. Each sync sets the integration's last_sync.
+
+import { type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { AuthError, createUserClient, requireUser } from '../_shared/auth.ts'
+import {
+  activityUid,
+  CALENDAR_ACTIVITY_TYPES,
+  itemToActivityFields,
+  parseICalendar,
+  serializeICalendar,
+  type CalendarActivity,
+  type CalendarItem,
+} from '../_shared/ical.ts'
+import {
+  CalDavError,
+  deleteObject,
+  fetchObjects,
+  listObjects,
+  newObjectHref,
+  putObject,
+  type CalDavAccount,
+} from '../_shared/caldav.ts'
+
+type SyncRequestBody =
+  | { action: 'import'; ics: string }
+  | { action: 'sync'; integration_id: string }
+
+interface SyncItem {
+  id: string;
+  activity_id: string | null;
+  uid: string;
+  href: string;
+  etag: string | null;
+  synced_version: string | null;
+}
+
+interface CalDavSummary {
+  imported: number;
+  exported: number;
+  updated_in_crm: number;
+  updated_in_calendar: number;
+  deleted_in_crm: number;
+  deleted_in_calendar: number;
+  conflicts: number;
+  failed: number;
+  last_error: string | null;
+}
+
+const ACTIVITY_COLUMNS = 'id, type, subject, description, due_date, end_date, status, completed_at, ical_uid, updated_at'
+
+// New items on either side are only synced from this far back; items synced before
+// keep syncing whatever their date
+const SYNC_HISTORY_DAYS = 30
+
+const MAX_IMPORT_ITEMS = 1000
+
+const UID_DOMAIN = new URL(Deno.env.get('SUPABASE_URL') ?? 'http://localhost').host
+
+const CRM_UID_PATTERN = new RegExp(`^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})@${UID_DOMAIN.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i')
+
+/**
+ * The caller's activities already known under these UIDs, by UID
+ */
+async function findByUid(db: SupabaseClient, userId: string, uids: string[]): Promise<Map<string, CalendarActivity>> {
+  const found = new Map<string, CalendarActivity>()
+  if (uids.length === 0) return found
+
+  const { data: imported, error } = await db.from('activities').select(ACTIVITY_COLUMNS).eq('user_id', userId).in('ical_uid', uids)
+  if (error) throw error
+  imported?.forEach((activity: CalendarActivity) => found.set(activity.ical_uid!, activity))
+
+  // Activities that went out from the CRM come back with the UID derived from their id
+  const ids = uids.map((uid) => uid.match(CRM_UID_PATTERN)?.[1]).filter((id): id is string => !!id)
+  if (ids.length > 0) {
+    const { data: own, error: ownError } = await db.from('activities').select(ACTIVITY_COLUMNS).eq('user_id', userId).in('id', ids)
+    if (ownError) throw ownError
+    own?.forEach((activity: CalendarActivity) => found.set(activityUid(activity, UID_DOMAIN), activity))
+  }
+  return found
+}
+
+/**
+ * Write a calendar item over an activity. A meeting stays a call if it was one.
+ */
+async function applyToActivity(db: SupabaseClient, activity: CalendarActivity, item: CalendarItem): Promise<string> {
+  const { type, ...fields } = itemToActivityFields(item)
+  const sameKind = CALENDAR_ACTIVITY_TYPES[activity.type] === item.component
+  const { data, error } = await db
+    .from('activities')
+    .update({ ...fields, ...(sameKind ? {} : { type }) })
+    .eq('id', activity.id)
+    .select('updated_at')
+    .single()
+  if (error) throw error
+  return data.updated_at
+}
+
+async function createActivity(db: SupabaseClient, userId: string, item: CalendarItem): Promise<{ id: string; updated_at: string }> {
+  const { data, error } = await db
+    .from('activities')
+    .insert({ user_id: userId, priority: 'medium', ...itemToActivityFields(item) })
+    .select('id, updated_at')
+    .single()
+  if (error) throw error
+  return data
+}
+
+const isNewer = (a: string | null, b: string | null) => !!a && (!b || new Date(a).getTime() > new Date(b).getTime())
+
+async function importIcs(db: SupabaseClient, userId: string, ics: string) {
+  const items = parseICalendar(ics)
+  if (items.length > MAX_IMPORT_ITEMS) {
+    throw new Error(`The file has ${items.length} events and to-dos; at most ${MAX_IMPORT_ITEMS} can be imported at once`)
+  }
+
+  const existing = await findByUid(db, userId, items.map((item) => item.uid))
+  let imported = 0
+  let updated = 0
+  let skipped = 0
+  for (const item of items) {
+    // An event needs a time to show on the calendar
+    if (item.component === 'VEVENT' && !item.start) {
+      skipped++
+      continue
+    }
+    const activity = existing.get(item.uid)
+    if (activity) {
+      await applyToActivity(db, activity, item)
+      updated++
+    } else {
+      await createActivity(db, userId, item)
+      imported++
+    }
+  }
+  return { status: 'imported', imported, updated, skipped }
+}
+
+async function syncCalDav(db: SupabaseClient, userId: string, integrationId: string, account: CalDavAccount): Promise<CalDavSummary> {
+  const summary: CalDavSummary = {
+    imported: 0, exported: 0, updated_in_crm: 0, updated_in_calendar: 0,
+    deleted_in_crm: 0, deleted_in_calendar: 0, conflicts: 0, failed: 0, last_error: null,
+  }
+  const since = new Date(Date.now() - SYNC_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+  const remote = await listObjects(account)
+  const remoteByHref = new Map(remote.map((object) => [object.href, object]))
+
+  const { data: itemRows, error: itemsError } = await db.from('calendar_sync_items').select('*').eq('integration_id', integrationId)
+  if (itemsError) throw itemsError
+  const items = (itemRows ?? []) as SyncItem[]
+  const itemByHref = new Map(items.map((item) => [item.href, item]))
+
+  const pairedIds = items.map((item) => item.activity_id).filter((id): id is string => !!id)
+  const { data: pairedRows, error: pairedError } = pairedIds.length > 0
+    ? await db.from('activities').select(ACTIVITY_COLUMNS).in('id', pairedIds)
+    : { data: [], error: null }
+  if (pairedError) throw pairedError
+  const activities = new Map((pairedRows ?? []).map((activity: CalendarActivity) => [activity.id, activity]))
+
+  // Only objects that are new or changed since the last sync are downloaded
+  const changedHrefs = remote
+    .filter((object) => {
+      const item = itemByHref.get(object.href)
+      return !item || (item.etag !== null && item.etag !== object.etag)
+    })
+    .map((object) => object.href)
+  const remoteItems = new Map<string, CalendarItem>()
+  for (const object of await fetchObjects(account, changedHrefs)) {
+    const [item] = parseICalendar(object.data ?? '')
+    if (item) remoteItems.set(object.href, item)
+    if (object.etag) remoteByHref.set(object.href, { ...object, etag: object.etag })
+  }
+
+  const saveItem = async (item: Partial<SyncItem> & { href: string; uid: string }) => {
+    const row = { ...item, user_id: userId, integration_id: integrationId, synced_at: new Date().toISOString() }
+    const { error } = item.id
+      ? await db.from('calendar_sync_items').update(row).eq('id', item.id)
+      : await db.from('calendar_sync_items').insert(row)
+    if (error) throw error
+  }
+  const dropItem = async (item: SyncItem) => {
+    const { error } = await db.from('calendar_sync_items').delete().eq('id', item.id)
+    if (error) throw error
+  }
+  const push = async (activity: CalendarActivity, href: string, etag: string | null) =>
+    putObject(account, href, serializeICalendar([activity], UID_DOMAIN), etag)
+
+  const fail = (error: unknown) => {
+    summary.failed++
+    summary.last_error = error instanceof Error ? error.message : String(error)
+    console.error('Calendar sync item failed:', summary.last_error)
+  }
+
+  // Items synced before
+  for (const item of items) {
+    try {
+      const activity = item.activity_id ? activities.get(item.activity_id) ?? null : null
+      const object = remoteByHref.get(item.href) ?? null
+      const remoteItem = remoteItems.get(item.href) ?? null
+      const localChanged = !!activity && isNewer(activity.updated_at, item.synced_version)
+      const remoteChanged = !!object && item.etag !== null && object.etag !== item.etag
+
+      if (!activity && !object) {
+        await dropItem(item)
+      } else if (!object) {
+        // Deleted in the calendar
+        if (localChanged) {
+          summary.conflicts++
+          const etag = await push(activity!, item.href, null)
+          await saveItem({ ...item, etag, synced_version: activity!.updated_at })
+          summary.updated_in_calendar++
+        } else {
+          const { error } = await db.from('activities').delete().eq('id', activity!.id)
+          if (error) throw error
+          await dropItem(item)
+          summary.deleted_in_crm++
+        }
+      } else if (!activity) {
+        // Deleted in the CRM
+        let editedInCalendar = remoteChanged
+        if (!editedInCalendar) {
+          try {
+            await deleteObject(account, item.href, object.etag)
+            await dropItem(item)
+            summary.deleted_in_calendar++
+          } catch (error) {
+            if (!(error instanceof CalDavError && error.status === 412)) throw error
+            editedInCalendar = true
+          }
+        }
+        if (editedInCalendar) {
+          summary.conflicts++
+          let restored = remoteItem
+          let etag = object.etag
+          if (!restored) {
+            const [latest] = await fetchObjects(account, [item.href])
+            restored = parseICalendar(latest?.data ?? '')[0] ?? null
+            etag = latest?.etag ?? null
+          }
+          if (restored) {
+            const created = await createActivity(db, userId, restored)
+            await saveItem({ ...item, activity_id: created.id, etag, synced_version: created.updated_at })
+            summary.imported++
+          }
+        }
+      } else if (!localChanged && !remoteChanged) {
+        // A PUT without an ETag in the response leaves it to be picked up here
+        if (item.etag === null) await saveItem({ ...item, etag: object.etag })
+      } else if (remoteChanged && remoteItem && (!localChanged || !isNewer(activity.updated_at, remoteItem.lastModified))) {
+        if (localChanged) summary.conflicts++
+        const version = await applyToActivity(db, activity, remoteItem)
+        await saveItem({ ...item, etag: object.etag, synced_version: version })
+        summary.updated_in_crm++
+      } else {
+        if (remoteChanged) summary.conflicts++
+        try {
+          const etag = await push(activity, item.href, object.etag)
+          await saveItem({ ...item, etag, synced_version: activity.updated_at })
+          summary.updated_in_calendar++
+        } catch (error) {
+          // Changed on the server since the listing; the next sync sorts it out
+          if (!(error instanceof CalDavError && error.status === 412)) throw error
+          if (!remoteChanged) summary.conflicts++
+        }
+      }
+    } catch (error) {
+      fail(error)
+    }
+  }
+
+  // New in the calendar
+  const newRemote = [...remoteItems.entries()].filter(([href, item]) =>
+    !itemByHref.has(href) && (!item.start || item.start >= since)
+  )
+  const known = await findByUid(db, userId, newRemote.map(([, item]) => item.uid))
+  const pairedNow = new Set(pairedIds)
+  for (const [href, remoteItem] of newRemote) {
+    try {
+      const etag = remoteByHref.get(href)?.etag ?? null
+      const activity = known.get(remoteItem.uid)
+      if (activity && !pairedNow.has(activity.id)) {
+        // Already in the CRM (imported from a file, or an earlier sync was interrupted)
+        const version = isNewer(remoteItem.lastModified, activity.updated_at)
+          ? await applyToActivity(db, activity, remoteItem)
+          : activity.updated_at
+        await saveItem({ activity_id: activity.id, uid: remoteItem.uid, href, etag, synced_version: version })
+        pairedNow.add(activity.id)
+        if (version !== activity.updated_at) summary.updated_in_crm++
+      } else if (!activity) {
+        const created = await createActivity(db, userId, remoteItem)
+        await saveItem({ activity_id: created.id, uid: remoteItem.uid, href, etag, synced_version: created.updated_at })
+        pairedNow.add(created.id)
+        summary.imported++
+      }
+    } catch (error) {
+      fail(error)
+    }
+  }
+
+  // New in the CRM
+  const { data: candidates, error: candidatesError } = await db
+    .from('activities')
+    .select(ACTIVITY_COLUMNS)
+    .eq('user_id', userId)
+    .in('type', Object.keys(CALENDAR_ACTIVITY_TYPES))
+    .gte('due_date', since)
+  if (candidatesError) throw candidatesError
+  for (const activity of (candidates ?? []) as CalendarActivity[]) {
+    if (pairedNow.has(activity.id)) continue
+    try {
+      const uid = activityUid(activity, UID_DOMAIN)
+      const href = newObjectHref(account, uid)
+      const etag = await push(activity, href, null)
+      await saveItem({ activity_id: activity.id, uid, href, etag, synced_version: activity.updated_at })
+      summary.exported++
+    } catch (error) {
+      // Already on the server under that name; it's paired when the listing shows it
+      if (error instanceof CalDavError && error.status === 412) continue
+      fail(error)
+    }
+  }
+
+  return summary
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const user = await requireUser(req)
+    const db = createUserClient(req)
+    const body: SyncRequestBody = await req.json()
+
+    if (body.action === 'import') {
+      if (!body.ics) {
+        return jsonResponse({ error: 'ics is required' }, 400)
+      }
+      return jsonResponse(await importIcs(db, user.id, body.ics))
+    }
+
+    if (body.action !== 'sync' || !body.integration_id) {
+      return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+
+    const { data: integration, error: integrationError } = await db
+      .from('integrations')
+      .select('id, type, config, is_active')
+      .eq('id', body.integration_id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+    if (integrationError) throw integrationError
+    if (!integration || integration.type !== 'caldav') {
+      return jsonResponse({ error: 'CalDAV integration not found' }, 404)
+    }
+    if (!integration.is_active) {
+      return jsonResponse({ error: 'The CalDAV integration is turned off' }, 400)
+    }
+
+    const config = integration.config as Record<string, string>
+    if (!config.url || !config.username) {
+      return jsonResponse({ error: 'The CalDAV integration needs a calendar URL and username' }, 400)
+    }
+
+    const summary = await syncCalDav(db, user.id, integration.id, {
+      url: config.url,
+      username: config.username,
+      password: config.password ?? '',
+    })
+
+    const { error: updateError } = await db
+      .from('integrations')
+      .update({ last_sync: new Date().toISOString() })
+      .eq('id', integration.id)
+    if (updateError) throw updateError
+
+    return jsonResponse({ status: 'synced', ...summary })
+
+  } catch (error) {
+    console.error('Error in calendar-sync function:', error.message)
+    const status = error instanceof AuthError ? error.status : error instanceof CalDavError ? 502 : 500
+    return jsonResponse({ error: error.message }, status)
+  }
+})
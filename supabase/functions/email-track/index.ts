@@ -0,0 +1,42 @@
+// Email tracking: the open pixel and click redirect for emails delivered by send-email.
+// Public endpoint (verify_jwt is off in config.toml): `?o=<email id>` returns a 1x1 GIF
+// and records an open; `?l=<link id>` records a click and redirects to the link's URL.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+
+// 1x1 transparent GIF
+const PIXEL = Uint8Array.from(atob('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'), (c) => c.charCodeAt(0))
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const NO_STORE = 'no-store, no-cache, must-revalidate, private'
+
+Deno.serve(async (req) => {
+  const url = new URL(req.url)
+  const linkId = url.searchParams.get('l')
+  const emailId = url.searchParams.get('o')
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '')
+
+  if (linkId) {
+    if (!UUID_PATTERN.test(linkId)) {
+      return new Response('Link not found', { status: 404 })
+    }
+
+    const { data: target, error } = await admin.rpc('record_email_click', { p_link_id: linkId })
+    if (error) console.error('Error recording email click:', error.message)
+    if (!target) {
+      return new Response('Link not found', { status: 404 })
+    }
+
+    return new Response(null, { status: 302, headers: { Location: target, 'Cache-Control': NO_STORE } })
+  }
+
+  if (emailId && UUID_PATTERN.test(emailId)) {
+    const { error } = await admin.rpc('record_email_open', { p_email_id: emailId })
+    if (error) console.error('Error recording email open:', error.message)
+  }
+
+  // Always answer with the pixel so a broken image never shows in the email
+  return new Response(PIXEL, { headers: { 'Content-Type': 'image/gif', 'Cache-Control': NO_STORE } })
+})
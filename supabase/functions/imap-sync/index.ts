@@ -0,0 +1,336 @@
+// Inbox sync: imports new messages from the caller's IMAP mailbox into email_tracking.
+// Each run continues from the last UID imported. Messages are threaded by Message-ID /
+// In-Reply-To / References, linked to the contact or lead whose address they're from (or
+// to) and logged as an activity on the related deal, with its attachments kept in the
+// files bucket. A reply to an email sent from the
+// CRM sets that email's replied_at; a delivery failure report for one marks it bounced.
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { ImapFlow } from 'npm:imapflow@1.0.164'
+import { simpleParser, type AddressObject, type ParsedMail } from 'npm:mailparser@3.7.1'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { AuthError, createUserClient, requireUser } from '../_shared/auth.ts'
+import { messageIdList } from '../_shared/email.ts'
+
+// Messages imported per run; the next run carries on from there
+const MAX_MESSAGES_PER_RUN = 100
+
+// How far back the first sync of a mailbox reaches
+const INITIAL_SYNC_DAYS = 30
+
+const BOUNCE_SENDER_PATTERN = /^(mailer-daemon|postmaster)@/i
+
+// Larger attachments are left in the mailbox
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+interface SyncSummary {
+  fetched: number;
+  imported: number;
+  linked: number;
+  replies: number;
+  bounces: number;
+}
+
+interface ImportedMessage {
+  linked: boolean;
+  reply: boolean;
+  bounces: number;
+}
+
+interface ParentEmail {
+  id: string;
+  type: string | null;
+  message_id: string;
+  thread_id: string | null;
+  contact_id: string | null;
+  lead_id: string | null;
+  deal_id: string | null;
+  replied_at: string | null;
+}
+
+const addresses = (field: AddressObject | AddressObject[] | undefined): string[] =>
+  (Array.isArray(field) ? field : field ? [field] : [])
+    .flatMap((group) => group.value)
+    .map((entry) => entry.address?.toLowerCase())
+    .filter((address): address is string => !!address)
+
+/**
+ * The contact or lead one of the addresses belongs to, trying them in order
+ */
+async function matchPerson(db: SupabaseClient, candidates: string[]): Promise<{ contactId: string | null; leadId: string | null }> {
+  for (const address of candidates) {
+    const { data: contact } = await db.from('contacts').select('id').ilike('email', address).limit(1).maybeSingle()
+    if (contact) return { contactId: contact.id, leadId: null }
+
+    const { data: lead } = await db.from('leads').select('id').ilike('email', address).limit(1).maybeSingle()
+    if (lead) return { contactId: null, leadId: lead.id }
+  }
+  return { contactId: null, leadId: null }
+}
+
+/**
+ * Mark emails sent from the CRM as bounced when a delivery failure report quotes them
+ */
+async function recordBounces(db: SupabaseClient, userId: string, parsed: ParsedMail, source: string): Promise<number> {
+  const quoted = [...source.matchAll(/^Message-ID:\s*(<[^>\s]+>)/gim)].map((match) => match[1])
+  const candidates = [...new Set(quoted)].filter((id) => id !== parsed.messageId)
+  if (candidates.length === 0) return 0
+
+  const { data, error } = await db
+    .from('email_tracking')
+    .update({
+      delivery_status: 'bounced',
+      delivery_error: parsed.subject ?? 'Delivery failure report',
+      bounced_at: (parsed.date ?? new Date()).toISOString(),
+    })
+    .eq('user_id', userId)
+    .eq('type', 'sent')
+    .in('message_id', candidates)
+    .eq('delivery_status', 'sent')
+    .select('id')
+  if (error) throw error
+  return data?.length ?? 0
+}
+
+/**
+ * Keep a message's attachments as files on the email and the records it's linked to.
+ * Images embedded in the HTML body aren't attachments the user sent, so they're skipped.
+ */
+async function storeAttachments(
+  db: SupabaseClient,
+  userId: string,
+  emailTrackingId: string,
+  parsed: ParsedMail,
+  links: { contact_id: string | null; lead_id: string | null; deal_id: string | null }
+): Promise<void> {
+  for (const attachment of parsed.attachments) {
+    if (attachment.related || attachment.size > MAX_ATTACHMENT_BYTES) continue
+
+    const filename = attachment.filename || 'attachment'
+    const ext = filename.includes('.') ? filename.split('.').pop() : 'bin'
+    const filePath = `${userId}/${Date.now()}-${Math.random().toString(36).substring(2)}.${ext}`
+
+    const { error: uploadError } = await db.storage
+      .from('files')
+      .upload(filePath, attachment.content, { contentType: attachment.contentType })
+    if (uploadError) throw uploadError
+
+    const { error } = await db.from('files').insert({
+      user_id: userId,
+      filename,
+      file_path: filePath,
+      file_size: attachment.size,
+      mime_type: attachment.contentType,
+      email_tracking_id: emailTrackingId,
+      ...links,
+    })
+    if (error) throw error
+  }
+}
+
+/**
+ * Import one message. Returns null when it was already imported.
+ */
+async function importMessage(
+  db: SupabaseClient,
+  userId: string,
+  ownAddresses: Set<string>,
+  parsed: ParsedMail,
+  source: string,
+  fallbackId: string
+): Promise<ImportedMessage | null> {
+  const messageId = parsed.messageId ?? fallbackId
+  const inReplyTo = messageIdList(parsed.inReplyTo)[0] ?? null
+  const references = messageIdList(parsed.references)
+  const related = [...new Set([...references, ...(inReplyTo ? [inReplyTo] : [])])]
+
+  const { data: existing } = await db.from('email_tracking').select('id').eq('user_id', userId).eq('message_id', messageId).maybeSingle()
+  if (existing) return null
+
+  // The message this one answers: the In-Reply-To target, else the latest referenced one we have
+  let parent: ParentEmail | null = null
+  if (related.length > 0) {
+    const { data: parents, error } = await db
+      .from('email_tracking')
+      .select('id, type, message_id, thread_id, contact_id, lead_id, deal_id, replied_at')
+      .eq('user_id', userId)
+      .in('message_id', related)
+    if (error) throw error
+    const byId = new Map((parents ?? []).map((row: ParentEmail) => [row.message_id, row]))
+    parent = (inReplyTo && byId.get(inReplyTo)) || [...references].reverse().map((id) => byId.get(id)).find(Boolean) || null
+  }
+  const threadId = parent?.thread_id ?? parent?.message_id ?? references[0] ?? inReplyTo ?? messageId
+
+  const from = addresses(parsed.from)[0] ?? null
+  const isBounceReport = !!from && BOUNCE_SENDER_PATTERN.test(from)
+  const recipients = [...addresses(parsed.to), ...addresses(parsed.cc)]
+
+  // Match the other side of the conversation: the sender, else anyone else it was sent to
+  const person = isBounceReport
+    ? { contactId: null, leadId: null }
+    : await matchPerson(db, [from, ...recipients].filter((address): address is string => !!address && !ownAddresses.has(address)))
+  const contactId = person.contactId ?? parent?.contact_id ?? null
+  const leadId = person.contactId ? null : person.leadId ?? parent?.lead_id ?? null
+
+  let dealId = parent?.deal_id ?? null
+  if (!dealId && contactId) {
+    const { data: deal } = await db
+      .from('deals')
+      .select('id')
+      .eq('contact_id', contactId)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    dealId = deal?.id ?? null
+  }
+
+  const subject = parsed.subject ?? '(no subject)'
+  const body = parsed.text ?? (parsed.html ? parsed.html.replace(/<[^>]+>/g, ' ') : '')
+  const receivedAt = (parsed.date ?? new Date()).toISOString()
+
+  const { data: inserted, error: insertError } = await db.from('email_tracking').insert({
+    user_id: userId,
+    email_id: `imap_${messageId}`,
+    message_id: messageId,
+    thread_id: threadId,
+    in_reply_to: inReplyTo,
+    reference_ids: references,
+    subject,
+    body,
+    sender_email: from,
+    recipient_email: recipients.join(', ') || null,
+    type: 'received',
+    folder: 'inbox',
+    sent_at: receivedAt,
+    contact_id: contactId,
+    lead_id: leadId,
+    deal_id: dealId,
+  }).select('id').single()
+  if (insertError) {
+    // Another sync imported it first
+    if (insertError.code === '23505') return null
+    throw insertError
+  }
+
+  await storeAttachments(db, userId, inserted.id, parsed, { contact_id: contactId, lead_id: leadId, deal_id: dealId })
+
+  const reply = parent?.type === 'sent' && !parent.replied_at
+  if (reply) {
+    const { error } = await db.from('email_tracking').update({ replied_at: receivedAt }).eq('id', parent!.id)
+    if (error) throw error
+  }
+
+  if (contactId || leadId || dealId) {
+    const { error } = await db.from('activities').insert({
+      user_id: userId,
+      contact_id: contactId,
+      lead_id: leadId,
+      deal_id: dealId,
+      type: 'email',
+      subject: `Email received: ${subject}`,
+      description: `From: ${from ?? 'unknown'}\n\n======= SUBJECT =======\n${subject}\n\n======= MESSAGE =======\n${body}`,
+      status: 'completed',
+    })
+    if (error) throw error
+  }
+
+  const bounces = isBounceReport ? await recordBounces(db, userId, parsed, source) : 0
+  return { linked: !!(contactId || leadId), reply, bounces }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const user = await requireUser(req)
+    // Imports run as the user so row-level security decides what they can link to
+    const db = createUserClient(req)
+    // Service role only to read the IMAP password
+    const admin = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '')
+
+    const { data: settings, error: settingsError } = await admin
+      .from('imap_settings')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle()
+    if (settingsError) throw settingsError
+    if (!settings) {
+      return jsonResponse({ status: 'not_configured' })
+    }
+
+    const { data: smtp } = await admin.from('smtp_settings').select('from_email').eq('user_id', user.id).maybeSingle()
+    const ownAddresses = new Set(
+      [user.email, smtp?.from_email, settings.username.includes('@') ? settings.username : null]
+        .filter((address): address is string => !!address)
+        .map((address) => address.toLowerCase())
+    )
+
+    const summary: SyncSummary = { fetched: 0, imported: 0, linked: 0, replies: 0, bounces: 0 }
+    const client = new ImapFlow({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      auth: { user: settings.username, pass: settings.password ?? '' },
+      logger: false,
+    })
+    // Where the sync got to, kept even when a later message fails
+    let position: { uid_validity: number; last_uid: number } | null = null
+
+    try {
+      await client.connect()
+      const lock = await client.getMailboxLock(settings.mailbox)
+      try {
+        const uidValidity = Number(client.mailbox.uidValidity)
+        const resume = settings.uid_validity === uidValidity && settings.last_uid !== null
+        let lastUid = resume ? Number(settings.last_uid) : 0
+        position = { uid_validity: uidValidity, last_uid: lastUid }
+
+        const uids: number[] = resume
+          ? await client.search({ uid: `${lastUid + 1}:*` }, { uid: true })
+          : await client.search({ since: new Date(Date.now() - INITIAL_SYNC_DAYS * 24 * 60 * 60 * 1000) }, { uid: true })
+        // `n:*` always matches the newest message, even when its UID is below n
+        const pending = uids.filter((uid) => uid > lastUid).sort((a, b) => a - b).slice(0, MAX_MESSAGES_PER_RUN)
+
+        if (pending.length > 0) {
+          for await (const message of client.fetch(pending.join(','), { uid: true, source: true }, { uid: true })) {
+            summary.fetched++
+            const source = message.source.toString()
+            const parsed = await simpleParser(message.source)
+            const imported = await importMessage(db, user.id, ownAddresses, parsed, source, `<imap-${uidValidity}-${message.uid}@${settings.host}>`)
+            if (imported) {
+              summary.imported++
+              if (imported.linked) summary.linked++
+              if (imported.reply) summary.replies++
+              summary.bounces += imported.bounces
+            }
+            lastUid = Math.max(lastUid, message.uid)
+            position = { uid_validity: uidValidity, last_uid: lastUid }
+          }
+        }
+
+        await admin
+          .from('imap_settings')
+          .update({ ...position, last_synced_at: new Date().toISOString(), last_error: null })
+          .eq('id', settings.id)
+      } finally {
+        lock.release()
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      await admin.from('imap_settings').update({ ...(position ?? {}), last_error: message }).eq('id', settings.id)
+      throw error
+    } finally {
+      await client.logout().catch(() => undefined)
+    }
+
+    return jsonResponse({ status: 'synced', ...summary })
+
+  } catch (error) {
+    console.error('Error in imap-sync function:', error.message)
+    const status = error instanceof AuthError ? error.status : 500
+    return jsonResponse({ error: error.message }, status)
+  }
+})
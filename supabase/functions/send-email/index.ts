@@ -0,0 +1,190 @@
+// Outbound email: delivers an email_tracking row through the caller's SMTP server.
+// Links are rewritten and a pixel added (per the user's tracking settings) so that
+// email-track can record clicks and opens. Files attached to the row go out as
+// attachments, and a reply carries In-Reply-To / References so mail clients thread it.
+// Users without SMTP settings keep the old behaviour: the email is only logged in the CRM.
+//
+// Local testing: run MailHog (`docker run -p 1025:1025 -p 8025:8025 mailhog/mailhog`),
+// save SMTP settings with host `host.docker.internal`, port 1025 and no TLS, and set
+// EMAIL_TRACKING_URL to the email-track URL reachable from your mail viewer.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { AuthError, requireUser } from '../_shared/auth.ts'
+import { isHtml, rewriteLinks, textToHtml, trackingPixel } from '../_shared/email.ts'
+
+interface SendEmailRequestBody {
+  email_id: string;
+}
+
+const TRACKING_URL = Deno.env.get('EMAIL_TRACKING_URL') ?? `${Deno.env.get('SUPABASE_URL')}/functions/v1/email-track`
+
+// SMTP replies meaning the recipient can't receive mail, as opposed to a failure on
+// the sending side such as 535 (bad credentials) or a refused connection
+const BOUNCE_PATTERN = /\b(550|551|552|553)\b/
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const user = await requireUser(req)
+    const { email_id }: SendEmailRequestBody = await req.json()
+
+    // Validate request
+    if (!email_id) {
+      return jsonResponse({ error: 'email_id is required' }, 400)
+    }
+
+    // Service role, because the SMTP password can't be read with the caller's session
+    const admin = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '')
+
+    const { data: email, error: emailError } = await admin
+      .from('email_tracking')
+      .select('*')
+      .eq('id', email_id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+    if (emailError) throw emailError
+    if (!email) {
+      return jsonResponse({ error: 'Email not found' }, 404)
+    }
+    if (!email.recipient_email) {
+      return jsonResponse({ error: 'Email has no recipient address' }, 400)
+    }
+    if (email.delivery_status === 'sent') {
+      return jsonResponse({ status: 'sent', message_id: email.message_id })
+    }
+
+    const { data: settings, error: settingsError } = await admin
+      .from('smtp_settings')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle()
+    if (settingsError) throw settingsError
+    if (!settings) {
+      return jsonResponse({ status: 'not_configured' })
+    }
+
+    // Claim the email so a double submit can't deliver it twice
+    const { data: claimed, error: claimError } = await admin
+      .from('email_tracking')
+      .update({ delivery_status: 'sending', delivery_error: null })
+      .eq('id', email.id)
+      .or('delivery_status.is.null,delivery_status.eq.failed')
+      .select('id')
+    if (claimError) throw claimError
+    if (!claimed || claimed.length === 0) {
+      return jsonResponse({ error: 'Email is already being sent' }, 409)
+    }
+
+    const domain = settings.from_email.split('@')[1] || 'localhost'
+    const messageId = `<${email.id}@${domain}>`
+
+    try {
+      const body = email.body ?? ''
+      let html = isHtml(body) ? body : textToHtml(body)
+
+      if (settings.track_clicks) {
+        const rewritten = rewriteLinks(html, TRACKING_URL)
+        if (rewritten.links.length > 0) {
+          const { error: linksError } = await admin
+            .from('email_links')
+            .insert(rewritten.links.map((link) => ({ ...link, user_id: user.id, email_tracking_id: email.id })))
+          if (linksError) throw linksError
+          html = rewritten.html
+        }
+      }
+      if (settings.track_opens) {
+        html += trackingPixel(TRACKING_URL, email.id)
+      }
+
+      const { data: files, error: filesError } = await admin
+        .from('files')
+        .select('filename, file_path, mime_type')
+        .eq('email_tracking_id', email.id)
+      if (filesError) throw filesError
+      const attachments = await Promise.all((files ?? []).map(async (file) => {
+        const { data: blob, error: downloadError } = await admin.storage.from('files').download(file.file_path)
+        if (downloadError) throw downloadError
+        return {
+          filename: file.filename,
+          contentType: file.mime_type || 'application/octet-stream',
+          encoding: 'binary' as const,
+          content: new Uint8Array(await blob.arrayBuffer()),
+        }
+      }))
+
+      const headers: Record<string, string> = { 'Message-ID': messageId }
+      if (email.in_reply_to) {
+        headers['In-Reply-To'] = email.in_reply_to
+        headers['References'] = [...(email.reference_ids ?? []), email.in_reply_to]
+          .filter((id, index, ids) => ids.indexOf(id) === index)
+          .join(' ')
+      }
+
+      const client = new SMTPClient({
+        connection: {
+          hostname: settings.host,
+          port: settings.port,
+          tls: settings.secure,
+          ...(settings.username ? { auth: { username: settings.username, password: settings.password ?? '' } } : {}),
+        },
+        // Plain connections are only allowed without credentials, e.g. a local MailHog
+        debug: { allowUnsecure: !settings.username },
+      })
+
+      try {
+        await client.send({
+          from: settings.from_name ? `${settings.from_name} <${settings.from_email}>` : settings.from_email,
+          to: email.recipient_email,
+          subject: email.subject ?? '',
+          content: isHtml(body) ? 'auto' : body,
+          html,
+          attachments,
+          headers,
+        })
+      } finally {
+        await client.close().catch(() => undefined)
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const status = BOUNCE_PATTERN.test(message) ? 'bounced' : 'failed'
+      console.error(`Delivery of email ${email.id} ${status}:`, message)
+
+      await admin
+        .from('email_tracking')
+        .update({
+          delivery_status: status,
+          delivery_error: message,
+          ...(status === 'bounced' ? { bounced_at: new Date().toISOString() } : {}),
+        })
+        .eq('id', email.id)
+
+      return jsonResponse({ status, error: message })
+    }
+
+    const { error: updateError } = await admin
+      .from('email_tracking')
+      .update({
+        delivery_status: 'sent',
+        sent_at: new Date().toISOString(),
+        sender_email: settings.from_email,
+        message_id: messageId,
+        // A new email starts its own thread; replies keep the one they were given
+        thread_id: email.thread_id ?? messageId,
+      })
+      .eq('id', email.id)
+    if (updateError) throw updateError
+
+    return jsonResponse({ status: 'sent', message_id: messageId })
+
+  } catch (error) {
+    console.error('Error in send-email function:', error.message)
+    const status = error instanceof AuthError ? error.status : 500
+    return jsonResponse({ error: error.message }, status)
+  }
+})
@@ -0,0 +1,67 @@
+-- Configurable sales pipelines
+-- Each pipeline owns an ordered list of stages. A stage carries its default win
+-- probability and, for terminal stages, whether reaching it means the deal was won or lost.
+CREATE TABLE pipelines (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  stages JSONB NOT NULL DEFAULT '[]'::jsonb,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT pipelines_stages_is_array CHECK (jsonb_typeof(stages) = 'array')
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_pipelines_user_id ON pipelines(user_id);
+
+-- At most one default pipeline per user
+CREATE UNIQUE INDEX idx_pipelines_user_default ON pipelines(user_id) WHERE is_default;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE pipelines ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own pipelines" ON pipelines
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own pipelines" ON pipelines
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own pipelines" ON pipelines
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own pipelines" ON pipelines
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_pipelines_updated_at BEFORE UPDATE ON pipelines
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Deals belong to a pipeline; removing a pipeline leaves its deals unassigned
+ALTER TABLE deals ADD COLUMN pipeline_id UUID REFERENCES pipelines(id) ON DELETE SET NULL;
+CREATE INDEX idx_deals_pipeline_id ON deals(pipeline_id);
+
+-- Seed a default pipeline with the previously hard-coded stages for every existing user
+INSERT INTO pipelines (name, is_default, stages, user_id)
+SELECT
+  'New Business',
+  TRUE,
+  '[
+    {"name": "Discovery", "probability": 25, "outcome": null},
+    {"name": "Proposal", "probability": 50, "outcome": null},
+    {"name": "Negotiation", "probability": 75, "outcome": null},
+    {"name": "Closing", "probability": 90, "outcome": null},
+    {"name": "Closed Won", "probability": 100, "outcome": "won"},
+    {"name": "Closed Lost", "probability": 0, "outcome": "lost"}
+  ]'::jsonb,
+  users.id
+FROM (
+  SELECT DISTINCT user_id AS id FROM deals
+) AS users;
+
+UPDATE deals
+SET pipeline_id = pipelines.id
+FROM pipelines
+WHERE pipelines.user_id = deals.user_id
+  AND pipelines.is_default
+  AND deals.pipeline_id IS NULL;
@@ -0,0 +1,60 @@
+-- Deal stage history
+-- One row per stage transition, written by a trigger so every code path that changes
+-- deals.stage (forms, the pipeline board, imports, the agent) is captured.
+CREATE TABLE deal_stage_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  deal_id UUID NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  pipeline_id UUID REFERENCES pipelines(id) ON DELETE SET NULL,
+  from_stage TEXT,
+  to_stage TEXT NOT NULL,
+  probability INTEGER,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_deal_stage_history_deal_id ON deal_stage_history(deal_id, changed_at);
+CREATE INDEX idx_deal_stage_history_user_id ON deal_stage_history(user_id);
+CREATE INDEX idx_deal_stage_history_to_stage ON deal_stage_history(to_stage);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE deal_stage_history ENABLE ROW LEVEL SECURITY;
+
+-- History is append-only and written by the trigger below, so users only read it
+CREATE POLICY "Users can view their own deal stage history" ON deal_stage_history
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Record the initial stage on insert and every later stage change
+CREATE OR REPLACE FUNCTION record_deal_stage_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.stage IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' OR NEW.stage IS DISTINCT FROM OLD.stage THEN
+        INSERT INTO deal_stage_history (deal_id, pipeline_id, from_stage, to_stage, probability, changed_by, user_id)
+        VALUES (
+            NEW.id,
+            NEW.pipeline_id,
+            CASE WHEN TG_OP = 'UPDATE' THEN OLD.stage ELSE NULL END,
+            NEW.stage,
+            NEW.probability,
+            COALESCE(auth.uid(), NEW.user_id),
+            NEW.user_id
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_deals_stage_change AFTER INSERT OR UPDATE OF stage ON deals
+    FOR EACH ROW EXECUTE FUNCTION record_deal_stage_change();
+
+-- Seed history for existing deals: their current stage, entered when the deal was created
+INSERT INTO deal_stage_history (deal_id, pipeline_id, from_stage, to_stage, probability, changed_by, changed_at, user_id)
+SELECT id, pipeline_id, NULL, stage, probability, user_id, COALESCE(created_at, NOW()), user_id
+FROM deals
+WHERE stage IS NOT NULL;
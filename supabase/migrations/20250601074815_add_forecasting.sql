@@ -0,0 +1,77 @@
+-- Revenue forecasting
+-- Deals get an expected close date and a forecast category; quotas hold monthly or
+-- quarterly targets; forecast_snapshots keep one copy of the forecast per week so
+-- drift can be tracked.
+ALTER TABLE deals ADD COLUMN expected_close_date DATE;
+ALTER TABLE deals ADD COLUMN forecast_category TEXT NOT NULL DEFAULT 'pipeline'
+  CHECK (forecast_category IN ('pipeline', 'best_case', 'commit', 'closed'));
+
+CREATE INDEX idx_deals_expected_close_date ON deals(expected_close_date);
+CREATE INDEX idx_deals_forecast_category ON deals(forecast_category);
+
+-- Won deals are closed revenue
+UPDATE deals SET forecast_category = 'closed' WHERE outcome = 'won';
+
+-- Quota targets per month or quarter
+CREATE TABLE quotas (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  period_type TEXT NOT NULL CHECK (period_type IN ('month', 'quarter')),
+  period_start DATE NOT NULL,
+  amount NUMERIC NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, period_type, period_start)
+);
+
+CREATE INDEX idx_quotas_user_id ON quotas(user_id);
+
+ALTER TABLE quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own quotas" ON quotas
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own quotas" ON quotas
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own quotas" ON quotas
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own quotas" ON quotas
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_quotas_updated_at BEFORE UPDATE ON quotas
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Weekly forecast snapshots, one row per forecast period per week
+CREATE TABLE forecast_snapshots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  snapshot_date DATE NOT NULL, -- Monday of the week the snapshot belongs to
+  period_type TEXT NOT NULL CHECK (period_type IN ('month', 'quarter')),
+  period_start DATE NOT NULL,
+  closed_value NUMERIC NOT NULL DEFAULT 0,
+  commit_value NUMERIC NOT NULL DEFAULT 0,
+  best_case_value NUMERIC NOT NULL DEFAULT 0,
+  pipeline_value NUMERIC NOT NULL DEFAULT 0,
+  weighted_value NUMERIC NOT NULL DEFAULT 0,
+  deal_count INTEGER NOT NULL DEFAULT 0,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, snapshot_date, period_type, period_start)
+);
+
+CREATE INDEX idx_forecast_snapshots_user_period ON forecast_snapshots(user_id, period_type, period_start);
+
+ALTER TABLE forecast_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own forecast snapshots" ON forecast_snapshots
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own forecast snapshots" ON forecast_snapshots
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own forecast snapshots" ON forecast_snapshots
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own forecast snapshots" ON forecast_snapshots
+  FOR DELETE USING (auth.uid() = user_id);
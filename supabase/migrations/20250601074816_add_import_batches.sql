@@ -0,0 +1,55 @@
+-- Import batches
+-- Every CSV import is recorded as a batch, and each imported row carries the batch id
+-- so a whole import can be rolled back in one step.
+CREATE TABLE import_batches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('contacts', 'leads', 'deals', 'activities', 'companies')),
+  file_name TEXT,
+  status TEXT NOT NULL DEFAULT 'importing' CHECK (status IN ('importing', 'completed', 'failed', 'rolled_back')),
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  inserted_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  column_mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  rolled_back_at TIMESTAMP WITH TIME ZONE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_import_batches_user_id ON import_batches(user_id, created_at DESC);
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own import batches" ON import_batches
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own import batches" ON import_batches
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own import batches" ON import_batches
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own import batches" ON import_batches
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_import_batches_updated_at BEFORE UPDATE ON import_batches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Tag imported rows with the batch that created them
+ALTER TABLE contacts ADD COLUMN import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+ALTER TABLE leads ADD COLUMN import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+ALTER TABLE deals ADD COLUMN import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+ALTER TABLE activities ADD COLUMN import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+ALTER TABLE companies ADD COLUMN import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_contacts_import_batch_id ON contacts(import_batch_id) WHERE import_batch_id IS NOT NULL;
+CREATE INDEX idx_leads_import_batch_id ON leads(import_batch_id) WHERE import_batch_id IS NOT NULL;
+CREATE INDEX idx_deals_import_batch_id ON deals(import_batch_id) WHERE import_batch_id IS NOT NULL;
+CREATE INDEX idx_activities_import_batch_id ON activities(import_batch_id) WHERE import_batch_id IS NOT NULL;
+CREATE INDEX idx_companies_import_batch_id ON companies(import_batch_id) WHERE import_batch_id IS NOT NULL;
+
+-- Case-insensitive email lookups for duplicate detection
+CREATE INDEX idx_contacts_email_lower ON contacts(user_id, lower(email));
+CREATE INDEX idx_leads_email_lower ON leads(user_id, lower(email));
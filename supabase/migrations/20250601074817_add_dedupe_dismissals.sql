@@ -0,0 +1,27 @@
+-- Duplicate dismissals
+-- Pairs of records a user has reviewed and marked as "not a duplicate", so the
+-- duplicate scan stops suggesting them. record_a is always the smaller id.
+CREATE TABLE dedupe_dismissals (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('contacts', 'leads', 'companies')),
+  record_a UUID NOT NULL,
+  record_b UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (record_a < record_b),
+  UNIQUE (user_id, entity_type, record_a, record_b)
+);
+
+ALTER TABLE dedupe_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own dedupe dismissals" ON dedupe_dismissals
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own dedupe dismissals" ON dedupe_dismissals
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own dedupe dismissals" ON dedupe_dismissals
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Merges re-point activities by lead as well as by contact and company
+CREATE INDEX IF NOT EXISTS idx_activities_lead_id ON activities(lead_id);
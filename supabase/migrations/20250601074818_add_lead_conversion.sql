@@ -0,0 +1,158 @@
+-- Lead conversion
+-- Converting a lead creates (or links) its company, creates the contact and an optional
+-- opening deal, and moves the lead's activities and files onto them. Converted leads are
+-- kept and linked to what they became so the conversion funnel can be measured.
+ALTER TABLE leads ADD COLUMN converted_company_id UUID REFERENCES companies(id) ON DELETE SET NULL;
+ALTER TABLE leads ADD COLUMN converted_deal_id UUID REFERENCES deals(id) ON DELETE SET NULL;
+ALTER TABLE leads ADD COLUMN converted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_leads_converted_at ON leads(user_id, converted_at) WHERE converted_at IS NOT NULL;
+
+-- Files can be attached to a lead before it becomes a contact
+ALTER TABLE files ADD COLUMN lead_id UUID REFERENCES leads(id) ON DELETE SET NULL;
+CREATE INDEX idx_files_lead_id ON files(lead_id);
+
+-- Convert a lead in a single transaction. Runs with the caller's rights, so RLS
+-- limits every statement to the caller's own rows.
+--   p_company_id      link to this company instead of matching the lead's company by name
+--   p_create_company  create a company when the lead names one that doesn't exist yet
+--   p_contact         contact fields overriding the lead's (name, email, phone, title, company)
+--   p_deal            opening deal (title, value, stage, pipeline_id, probability, outcome,
+--                     forecast_category, expected_close_date), or NULL for no deal
+CREATE OR REPLACE FUNCTION convert_lead(
+    p_lead_id UUID,
+    p_company_id UUID DEFAULT NULL,
+    p_create_company BOOLEAN DEFAULT TRUE,
+    p_contact JSONB DEFAULT '{}'::jsonb,
+    p_deal JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    lead_record leads%ROWTYPE;
+    v_user_id UUID := auth.uid();
+    v_company_name TEXT;
+    v_company_id UUID := p_company_id;
+    v_company_created BOOLEAN := FALSE;
+    v_contact_id UUID;
+    v_contact_name TEXT;
+    v_deal_id UUID;
+    v_activities_moved INTEGER := 0;
+    v_files_moved INTEGER := 0;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO lead_record FROM leads WHERE id = p_lead_id AND user_id = v_user_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Lead not found';
+    END IF;
+    IF lead_record.converted_contact_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Lead has already been converted';
+    END IF;
+
+    v_company_name := NULLIF(TRIM(COALESCE(p_contact->>'company', lead_record.company, '')), '');
+    v_contact_name := COALESCE(NULLIF(TRIM(p_contact->>'name'), ''), lead_record.name);
+
+    -- Company: an explicit choice, the lead's own link, a name match, or a new company
+    IF v_company_id IS NOT NULL THEN
+        IF NOT EXISTS (SELECT 1 FROM companies WHERE id = v_company_id AND user_id = v_user_id) THEN
+            RAISE EXCEPTION 'Company not found';
+        END IF;
+    ELSIF lead_record.company_id IS NOT NULL THEN
+        v_company_id := lead_record.company_id;
+    ELSIF v_company_name IS NOT NULL THEN
+        SELECT id INTO v_company_id
+        FROM companies
+        WHERE user_id = v_user_id AND LOWER(TRIM(name)) = LOWER(v_company_name)
+        ORDER BY created_at
+        LIMIT 1;
+
+        IF v_company_id IS NULL AND p_create_company THEN
+            INSERT INTO companies (user_id, name)
+            VALUES (v_user_id, v_company_name)
+            RETURNING id INTO v_company_id;
+            v_company_created := TRUE;
+        END IF;
+    END IF;
+
+    IF v_company_id IS NOT NULL THEN
+        SELECT name INTO v_company_name FROM companies WHERE id = v_company_id;
+    END IF;
+
+    INSERT INTO contacts (user_id, name, email, phone, title, company, company_id, status, score)
+    VALUES (
+        v_user_id,
+        v_contact_name,
+        COALESCE(NULLIF(TRIM(p_contact->>'email'), ''), lead_record.email),
+        COALESCE(NULLIF(TRIM(p_contact->>'phone'), ''), lead_record.phone),
+        NULLIF(TRIM(p_contact->>'title'), ''),
+        v_company_name,
+        v_company_id,
+        'Qualified',
+        lead_record.score
+    )
+    RETURNING id INTO v_contact_id;
+
+    IF p_deal IS NOT NULL THEN
+        INSERT INTO deals (
+            user_id, title, value, stage, pipeline_id, probability, outcome, forecast_category,
+            expected_close_date, contact_id, contact_name, company, company_id
+        )
+        VALUES (
+            v_user_id,
+            COALESCE(NULLIF(TRIM(p_deal->>'title'), ''), v_contact_name),
+            COALESCE((p_deal->>'value')::NUMERIC, 0),
+            p_deal->>'stage',
+            (p_deal->>'pipeline_id')::UUID,
+            (p_deal->>'probability')::INTEGER,
+            COALESCE(p_deal->>'outcome', 'in_progress'),
+            COALESCE(p_deal->>'forecast_category', 'pipeline'),
+            (p_deal->>'expected_close_date')::DATE,
+            v_contact_id,
+            v_contact_name,
+            v_company_name,
+            v_company_id
+        )
+        RETURNING id INTO v_deal_id;
+    END IF;
+
+    -- Activities keep their lead_id so the lead's history stays intact
+    UPDATE activities
+    SET contact_id = v_contact_id,
+        company_id = COALESCE(company_id, v_company_id),
+        deal_id = COALESCE(deal_id, v_deal_id)
+    WHERE lead_id = p_lead_id AND user_id = v_user_id;
+    GET DIAGNOSTICS v_activities_moved = ROW_COUNT;
+
+    UPDATE files
+    SET contact_id = v_contact_id,
+        deal_id = COALESCE(deal_id, v_deal_id)
+    WHERE lead_id = p_lead_id AND user_id = v_user_id;
+    GET DIAGNOSTICS v_files_moved = ROW_COUNT;
+
+    UPDATE leads
+    SET status = 'converted',
+        company_id = COALESCE(company_id, v_company_id),
+        converted_contact_id = v_contact_id,
+        converted_company_id = v_company_id,
+        converted_deal_id = v_deal_id,
+        converted_at = NOW()
+    WHERE id = p_lead_id;
+
+    RETURN jsonb_build_object(
+        'contact_id', v_contact_id,
+        'company_id', v_company_id,
+        'deal_id', v_deal_id,
+        'company_created', v_company_created,
+        'activities_moved', v_activities_moved,
+        'files_moved', v_files_moved
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION convert_lead(UUID, UUID, BOOLEAN, JSONB, JSONB) TO authenticated;
@@ -0,0 +1,503 @@
+-- Teams, roles and record ownership
+-- Users share deals, contacts, leads and companies through teams. Every record keeps its
+-- creator in user_id and gains an owner_id. Reps see what they created or own; managers
+-- and admins see and reassign everything owned by members of their teams.
+
+-- Teams
+CREATE TABLE teams (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_teams_created_by ON teams(created_by);
+
+CREATE TRIGGER update_teams_updated_at BEFORE UPDATE ON teams
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- team_members predates this migration in some databases, so create it only when missing
+-- and then bring its constraints up to date
+CREATE TABLE IF NOT EXISTS team_members (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL,
+  user_id UUID NOT NULL,
+  role TEXT DEFAULT 'rep',
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+DELETE FROM team_members WHERE team_id NOT IN (SELECT id FROM teams);
+UPDATE team_members SET role = 'rep' WHERE role IS NULL OR role NOT IN ('admin', 'manager', 'rep');
+
+ALTER TABLE team_members ALTER COLUMN role SET DEFAULT 'rep';
+ALTER TABLE team_members ALTER COLUMN role SET NOT NULL;
+ALTER TABLE team_members DROP CONSTRAINT IF EXISTS team_members_role_check;
+ALTER TABLE team_members ADD CONSTRAINT team_members_role_check CHECK (role IN ('admin', 'manager', 'rep'));
+ALTER TABLE team_members DROP CONSTRAINT IF EXISTS team_members_team_id_fkey;
+ALTER TABLE team_members ADD CONSTRAINT team_members_team_id_fkey FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE;
+ALTER TABLE team_members DROP CONSTRAINT IF EXISTS team_members_user_id_fkey;
+ALTER TABLE team_members ADD CONSTRAINT team_members_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_members_team_user ON team_members(team_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_team_members_user_id ON team_members(user_id);
+
+-- Invites are addressed to an email; the invitee accepts them once signed in
+CREATE TABLE team_invites (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'rep' CHECK (role IN ('admin', 'manager', 'rep')),
+  invited_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '14 days',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_team_invites_team_email ON team_invites(team_id, LOWER(email)) WHERE accepted_at IS NULL;
+CREATE INDEX idx_team_invites_email ON team_invites(LOWER(email));
+
+-- Membership helpers. SECURITY DEFINER so policies on team_members can use them
+-- without recursing into their own policies.
+CREATE OR REPLACE FUNCTION team_role(p_team_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM team_members WHERE team_id = p_team_id AND user_id = auth.uid();
+$$;
+
+-- True when the caller manages (as admin or manager) a team that p_user_id belongs to
+CREATE OR REPLACE FUNCTION manages_user(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM team_members manager
+    JOIN team_members member ON member.team_id = manager.team_id
+    WHERE manager.user_id = auth.uid()
+      AND manager.role IN ('admin', 'manager')
+      AND member.user_id = p_user_id
+  );
+$$;
+
+-- True when the caller and p_user_id are in at least one team together
+CREATE OR REPLACE FUNCTION shares_team_with(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM team_members mine
+    JOIN team_members theirs ON theirs.team_id = mine.team_id
+    WHERE mine.user_id = auth.uid()
+      AND theirs.user_id = p_user_id
+  );
+$$;
+
+-- Creator or owner, or a manager/admin of the owner's team
+CREATE OR REPLACE FUNCTION can_access_owned_record(p_user_id UUID, p_owner_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() = p_user_id
+      OR auth.uid() = p_owner_id
+      OR manages_user(COALESCE(p_owner_id, p_user_id));
+$$;
+
+-- Reps can only give records to themselves; managers and admins to anyone in their teams
+CREATE OR REPLACE FUNCTION can_assign_to(p_assignee_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_assignee_id IS NULL
+      OR p_assignee_id = auth.uid()
+      OR manages_user(p_assignee_id);
+$$;
+
+-- Teams policies
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their teams" ON teams
+  FOR SELECT USING (team_role(id) IS NOT NULL OR auth.uid() = created_by);
+
+CREATE POLICY "Users can create teams" ON teams
+  FOR INSERT WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Admins can update their teams" ON teams
+  FOR UPDATE USING (team_role(id) = 'admin');
+
+CREATE POLICY "Admins can delete their teams" ON teams
+  FOR DELETE USING (team_role(id) = 'admin');
+
+-- The creator becomes the team's first admin
+CREATE OR REPLACE FUNCTION add_team_creator_as_admin()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO team_members (team_id, user_id, role)
+    VALUES (NEW.id, NEW.created_by, 'admin')
+    ON CONFLICT (team_id, user_id) DO UPDATE SET role = 'admin';
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_team_creator_as_admin AFTER INSERT ON teams
+    FOR EACH ROW EXECUTE FUNCTION add_team_creator_as_admin();
+
+-- Team member policies. Members join through accept_team_invite, never by being added
+-- directly: adding someone would hand their records to the team's managers. The only
+-- direct insert is a team's creator adding themselves. Admins can change roles and
+-- nothing else, so a membership can't be moved to another user or team.
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their team members" ON team_members;
+CREATE POLICY "Members can view their team members" ON team_members
+  FOR SELECT USING (team_role(team_id) IS NOT NULL);
+
+CREATE POLICY "Team creators can add themselves" ON team_members
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM teams WHERE teams.id = team_id AND teams.created_by = auth.uid())
+  );
+
+CREATE POLICY "Admins can update team members" ON team_members
+  FOR UPDATE USING (team_role(team_id) = 'admin')
+  WITH CHECK (team_role(team_id) = 'admin');
+
+REVOKE UPDATE ON team_members FROM anon, authenticated;
+GRANT UPDATE (role) ON team_members TO authenticated;
+
+CREATE POLICY "Admins can remove members and members can leave" ON team_members
+  FOR DELETE USING (team_role(team_id) = 'admin' OR auth.uid() = user_id);
+
+-- Invite policies
+ALTER TABLE team_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and invitees can view invites" ON team_invites
+  FOR SELECT USING (team_role(team_id) = 'admin' OR LOWER(email) = LOWER(auth.email()));
+
+CREATE POLICY "Admins can create invites" ON team_invites
+  FOR INSERT WITH CHECK (team_role(team_id) = 'admin' AND auth.uid() = invited_by);
+
+CREATE POLICY "Admins can revoke and invitees can decline invites" ON team_invites
+  FOR DELETE USING (team_role(team_id) = 'admin' OR LOWER(email) = LOWER(auth.email()));
+
+-- Accept an invite addressed to the caller's email and join the team in its role
+CREATE OR REPLACE FUNCTION accept_team_invite(p_invite_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    invite_record team_invites%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO invite_record FROM team_invites WHERE id = p_invite_id FOR UPDATE;
+    IF NOT FOUND OR LOWER(invite_record.email) <> LOWER(auth.email()) THEN
+        RAISE EXCEPTION 'Invite not found';
+    END IF;
+    IF invite_record.accepted_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Invite has already been accepted';
+    END IF;
+    IF invite_record.expires_at < NOW() THEN
+        RAISE EXCEPTION 'Invite has expired';
+    END IF;
+
+    INSERT INTO team_members (team_id, user_id, role)
+    VALUES (invite_record.team_id, auth.uid(), invite_record.role)
+    ON CONFLICT (team_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+
+    UPDATE team_invites SET accepted_at = NOW() WHERE id = p_invite_id;
+
+    RETURN invite_record.team_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION accept_team_invite(UUID) TO authenticated;
+
+-- Teammates can see each other's names
+CREATE POLICY "Users can view their teammates' profiles" ON profiles
+  FOR SELECT USING (shares_team_with(id));
+
+-- assigned_to becomes a real reference to a user
+UPDATE leads SET assigned_to = NULL
+WHERE assigned_to IS NOT NULL AND assigned_to::TEXT NOT IN (SELECT id::TEXT FROM auth.users);
+ALTER TABLE leads ALTER COLUMN assigned_to TYPE UUID USING assigned_to::UUID;
+ALTER TABLE leads ADD CONSTRAINT leads_assigned_to_fkey FOREIGN KEY (assigned_to) REFERENCES auth.users(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_leads_assigned_to ON leads(assigned_to);
+
+UPDATE companies SET assigned_to = NULL
+WHERE assigned_to IS NOT NULL AND assigned_to NOT IN (SELECT id FROM auth.users);
+ALTER TABLE companies ADD CONSTRAINT companies_assigned_to_fkey FOREIGN KEY (assigned_to) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Record owners. Existing records are owned by whoever they were assigned to, else their creator.
+ALTER TABLE deals ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE contacts ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE leads ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE companies ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+UPDATE deals SET owner_id = user_id;
+UPDATE contacts SET owner_id = user_id;
+UPDATE leads SET owner_id = COALESCE(assigned_to, user_id);
+UPDATE companies SET owner_id = COALESCE(assigned_to, user_id);
+
+CREATE INDEX idx_deals_owner_id ON deals(owner_id);
+CREATE INDEX idx_contacts_owner_id ON contacts(owner_id);
+CREATE INDEX idx_leads_owner_id ON leads(owner_id);
+CREATE INDEX idx_companies_owner_id ON companies(owner_id);
+
+-- New records are owned by their creator unless an owner is given
+CREATE OR REPLACE FUNCTION set_default_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.owner_id = COALESCE(NEW.owner_id, NEW.user_id);
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_deals_owner BEFORE INSERT ON deals
+    FOR EACH ROW EXECUTE FUNCTION set_default_owner();
+CREATE TRIGGER set_contacts_owner BEFORE INSERT ON contacts
+    FOR EACH ROW EXECUTE FUNCTION set_default_owner();
+CREATE TRIGGER set_leads_owner BEFORE INSERT ON leads
+    FOR EACH ROW EXECUTE FUNCTION set_default_owner();
+CREATE TRIGGER set_companies_owner BEFORE INSERT ON companies
+    FOR EACH ROW EXECUTE FUNCTION set_default_owner();
+
+-- Row-level sharing for owned records
+DROP POLICY IF EXISTS "Users can view their own deals" ON deals;
+DROP POLICY IF EXISTS "Users can update their own deals" ON deals;
+DROP POLICY IF EXISTS "Users can delete their own deals" ON deals;
+DROP POLICY IF EXISTS "Users can view their own contacts" ON contacts;
+DROP POLICY IF EXISTS "Users can update their own contacts" ON contacts;
+DROP POLICY IF EXISTS "Users can delete their own contacts" ON contacts;
+DROP POLICY IF EXISTS "Users can view their own leads" ON leads;
+DROP POLICY IF EXISTS "Users can update their own leads" ON leads;
+DROP POLICY IF EXISTS "Users can delete their own leads" ON leads;
+DROP POLICY IF EXISTS "Users can view their own companies" ON companies;
+DROP POLICY IF EXISTS "Users can update their own companies" ON companies;
+DROP POLICY IF EXISTS "Users can delete their own companies" ON companies;
+
+CREATE POLICY "Users can view their own and team deals" ON deals
+  FOR SELECT USING (can_access_owned_record(user_id, owner_id));
+CREATE POLICY "Users can update their own and team deals" ON deals
+  FOR UPDATE USING (can_access_owned_record(user_id, owner_id))
+  WITH CHECK (can_assign_to(owner_id));
+CREATE POLICY "Users can delete their own and team deals" ON deals
+  FOR DELETE USING (can_access_owned_record(user_id, owner_id));
+
+CREATE POLICY "Users can view their own and team contacts" ON contacts
+  FOR SELECT USING (can_access_owned_record(user_id, owner_id));
+CREATE POLICY "Users can update their own and team contacts" ON contacts
+  FOR UPDATE USING (can_access_owned_record(user_id, owner_id))
+  WITH CHECK (can_assign_to(owner_id));
+CREATE POLICY "Users can delete their own and team contacts" ON contacts
+  FOR DELETE USING (can_access_owned_record(user_id, owner_id));
+
+CREATE POLICY "Users can view their own and team leads" ON leads
+  FOR SELECT USING (can_access_owned_record(user_id, owner_id));
+CREATE POLICY "Users can update their own and team leads" ON leads
+  FOR UPDATE USING (can_access_owned_record(user_id, owner_id))
+  WITH CHECK (can_assign_to(owner_id) AND can_assign_to(assigned_to));
+CREATE POLICY "Users can delete their own and team leads" ON leads
+  FOR DELETE USING (can_access_owned_record(user_id, owner_id));
+
+CREATE POLICY "Users can view their own and team companies" ON companies
+  FOR SELECT USING (can_access_owned_record(user_id, owner_id));
+CREATE POLICY "Users can update their own and team companies" ON companies
+  FOR UPDATE USING (can_access_owned_record(user_id, owner_id))
+  WITH CHECK (can_assign_to(owner_id) AND can_assign_to(assigned_to));
+CREATE POLICY "Users can delete their own and team companies" ON companies
+  FOR DELETE USING (can_access_owned_record(user_id, owner_id));
+
+-- Teammates can see each other's pipelines, so the team's deals resolve to the right stages
+CREATE POLICY "Users can view their teammates' pipelines" ON pipelines
+  FOR SELECT USING (shares_team_with(user_id));
+
+-- Stage history follows its deal
+DROP POLICY IF EXISTS "Users can view their own deal stage history" ON deal_stage_history;
+CREATE POLICY "Users can view their own and team deal stage history" ON deal_stage_history
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM deals
+      WHERE deals.id = deal_stage_history.deal_id
+        AND can_access_owned_record(deals.user_id, deals.owner_id)
+    )
+  );
+
+-- Lead conversion for shared leads. convert_lead() used to run with the caller's rights
+-- and only see the caller's own lead, companies, activities and files, so a rep couldn't
+-- convert a lead assigned to them and a manager converting a teammate's lead left the
+-- teammate's activities behind. It now runs with definer rights, checks access itself
+-- like the policies above, moves everything on the lead, and gives what the lead becomes
+-- to the lead's owner.
+CREATE OR REPLACE FUNCTION convert_lead(
+    p_lead_id UUID,
+    p_company_id UUID DEFAULT NULL,
+    p_create_company BOOLEAN DEFAULT TRUE,
+    p_contact JSONB DEFAULT '{}'::jsonb,
+    p_deal JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    lead_record leads%ROWTYPE;
+    v_user_id UUID := auth.uid();
+    v_owner_id UUID;
+    v_company_name TEXT;
+    v_company_id UUID := p_company_id;
+    v_company_created BOOLEAN := FALSE;
+    v_contact_id UUID;
+    v_contact_name TEXT;
+    v_deal_id UUID;
+    v_activities_moved INTEGER := 0;
+    v_files_moved INTEGER := 0;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO lead_record FROM leads WHERE id = p_lead_id FOR UPDATE;
+    IF NOT FOUND OR NOT can_access_owned_record(lead_record.user_id, lead_record.owner_id) THEN
+        RAISE EXCEPTION 'Lead not found';
+    END IF;
+    IF lead_record.converted_contact_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Lead has already been converted';
+    END IF;
+
+    -- What the lead becomes stays with whoever owns the lead
+    v_owner_id := COALESCE(lead_record.owner_id, lead_record.user_id);
+
+    v_company_name := NULLIF(TRIM(COALESCE(p_contact->>'company', lead_record.company, '')), '');
+    v_contact_name := COALESCE(NULLIF(TRIM(p_contact->>'name'), ''), lead_record.name);
+
+    -- Company: an explicit choice, the lead's own link, a name match, or a new company
+    IF v_company_id IS NOT NULL THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM companies
+            WHERE id = v_company_id AND can_access_owned_record(user_id, owner_id)
+        ) THEN
+            RAISE EXCEPTION 'Company not found';
+        END IF;
+    ELSIF lead_record.company_id IS NOT NULL THEN
+        v_company_id := lead_record.company_id;
+    ELSIF v_company_name IS NOT NULL THEN
+        SELECT id INTO v_company_id
+        FROM companies
+        WHERE can_access_owned_record(user_id, owner_id) AND LOWER(TRIM(name)) = LOWER(v_company_name)
+        ORDER BY created_at
+        LIMIT 1;
+
+        IF v_company_id IS NULL AND p_create_company THEN
+            INSERT INTO companies (user_id, owner_id, name)
+            VALUES (v_user_id, v_owner_id, v_company_name)
+            RETURNING id INTO v_company_id;
+            v_company_created := TRUE;
+        END IF;
+    END IF;
+
+    IF v_company_id IS NOT NULL THEN
+        SELECT name INTO v_company_name FROM companies WHERE id = v_company_id;
+    END IF;
+
+    INSERT INTO contacts (user_id, owner_id, name, email, phone, title, company, company_id, status, score)
+    VALUES (
+        v_user_id,
+        v_owner_id,
+        v_contact_name,
+        COALESCE(NULLIF(TRIM(p_contact->>'email'), ''), lead_record.email),
+        COALESCE(NULLIF(TRIM(p_contact->>'phone'), ''), lead_record.phone),
+        NULLIF(TRIM(p_contact->>'title'), ''),
+        v_company_name,
+        v_company_id,
+        'Qualified',
+        lead_record.score
+    )
+    RETURNING id INTO v_contact_id;
+
+    IF p_deal IS NOT NULL THEN
+        INSERT INTO deals (
+            user_id, owner_id, title, value, stage, pipeline_id, probability, outcome, forecast_category,
+            expected_close_date, contact_id, contact_name, company, company_id
+        )
+        VALUES (
+            v_user_id,
+            v_owner_id,
+            COALESCE(NULLIF(TRIM(p_deal->>'title'), ''), v_contact_name),
+            COALESCE((p_deal->>'value')::NUMERIC, 0),
+            p_deal->>'stage',
+            (p_deal->>'pipeline_id')::UUID,
+            (p_deal->>'probability')::INTEGER,
+            COALESCE(p_deal->>'outcome', 'in_progress'),
+            COALESCE(p_deal->>'forecast_category', 'pipeline'),
+            (p_deal->>'expected_close_date')::DATE,
+            v_contact_id,
+            v_contact_name,
+            v_company_name,
+            v_company_id
+        )
+        RETURNING id INTO v_deal_id;
+    END IF;
+
+    -- Activities keep their lead_id so the lead's history stays intact
+    UPDATE activities
+    SET contact_id = v_contact_id,
+        company_id = COALESCE(company_id, v_company_id),
+        deal_id = COALESCE(deal_id, v_deal_id)
+    WHERE lead_id = p_lead_id;
+    GET DIAGNOSTICS v_activities_moved = ROW_COUNT;
+
+    UPDATE files
+    SET contact_id = v_contact_id,
+        deal_id = COALESCE(deal_id, v_deal_id)
+    WHERE lead_id = p_lead_id;
+    GET DIAGNOSTICS v_files_moved = ROW_COUNT;
+
+    UPDATE leads
+    SET status = 'converted',
+        company_id = COALESCE(company_id, v_company_id),
+        converted_contact_id = v_contact_id,
+        converted_company_id = v_company_id,
+        converted_deal_id = v_deal_id,
+        converted_at = NOW()
+    WHERE id = p_lead_id;
+
+    RETURN jsonb_build_object(
+        'contact_id', v_contact_id,
+        'company_id', v_company_id,
+        'deal_id', v_deal_id,
+        'company_created', v_company_created,
+        'activities_moved', v_activities_moved,
+        'files_moved', v_files_moved
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION convert_lead(UUID, UUID, BOOLEAN, JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION convert_lead(UUID, UUID, BOOLEAN, JSONB, JSONB) TO authenticated;
@@ -0,0 +1,220 @@
+-- Lead assignment rules
+-- Team managers define rules that match new leads on their fields and assign them to a
+-- fixed rep, round-robin across reps or to the rep with the fewest open leads. Every
+-- assignment is logged.
+CREATE TABLE assignment_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  -- [{ "field": "source", "operator": "equals", "value": "website" }, ...], all must match
+  conditions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  strategy TEXT NOT NULL DEFAULT 'round_robin' CHECK (strategy IN ('fixed', 'round_robin', 'least_loaded')),
+  assignee_ids UUID[] NOT NULL DEFAULT '{}',
+  -- Position in assignee_ids of the last round-robin pick
+  last_assignee_index INTEGER NOT NULL DEFAULT -1,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_assignment_rules_team_id ON assignment_rules(team_id, priority);
+
+CREATE TRIGGER update_assignment_rules_updated_at BEFORE UPDATE ON assignment_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE assignment_rules ENABLE ROW LEVEL SECURITY;
+
+-- Every member reads the rules so they apply to leads any member creates;
+-- only managers and admins change them
+CREATE POLICY "Members can view their team assignment rules" ON assignment_rules
+  FOR SELECT USING (team_role(team_id) IS NOT NULL);
+
+CREATE POLICY "Managers can insert team assignment rules" ON assignment_rules
+  FOR INSERT WITH CHECK (team_role(team_id) IN ('admin', 'manager') AND auth.uid() = user_id);
+
+CREATE POLICY "Managers can update team assignment rules" ON assignment_rules
+  FOR UPDATE USING (team_role(team_id) IN ('admin', 'manager'));
+
+CREATE POLICY "Managers can delete team assignment rules" ON assignment_rules
+  FOR DELETE USING (team_role(team_id) IN ('admin', 'manager'));
+
+-- Assignment log
+CREATE TABLE lead_assignments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES assignment_rules(id) ON DELETE SET NULL,
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  assigned_to UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  previous_assignee UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  strategy TEXT NOT NULL,
+  assigned_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_lead_assignments_lead_id ON lead_assignments(lead_id);
+CREATE INDEX idx_lead_assignments_team_id ON lead_assignments(team_id, created_at DESC);
+
+ALTER TABLE lead_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Written only by assign_lead; readable by the team's managers and the people involved
+CREATE POLICY "Users can view assignments they are part of" ON lead_assignments
+  FOR SELECT USING (
+    auth.uid() IN (assigned_to, assigned_by, previous_assignee)
+    OR team_role(team_id) IN ('admin', 'manager')
+  );
+
+-- Whether one rule condition holds for a lead's facts, as conditionMatches in
+-- src/lib/assignment.ts decides it. Text compares ignore case; `in` takes a
+-- comma-separated list.
+CREATE OR REPLACE FUNCTION assignment_condition_matches(p_condition JSONB, p_facts JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_operator TEXT := p_condition ->> 'operator';
+    v_actual TEXT := p_facts ->> (p_condition ->> 'field');
+    v_expected TEXT := COALESCE(p_condition ->> 'value', '');
+    v_actual_number NUMERIC;
+    v_expected_number NUMERIC;
+BEGIN
+    IF v_operator IN ('gte', 'lte') OR (p_condition ->> 'field' IN ('score', 'employees') AND v_operator <> 'in') THEN
+        IF v_actual IS NULL OR v_actual = '' OR trim(v_expected) = '' THEN
+            RETURN FALSE;
+        END IF;
+        BEGIN
+            v_actual_number := v_actual::NUMERIC;
+            v_expected_number := trim(v_expected)::NUMERIC;
+        EXCEPTION WHEN invalid_text_representation THEN
+            RETURN FALSE;
+        END;
+        RETURN CASE v_operator
+            WHEN 'gte' THEN v_actual_number >= v_expected_number
+            WHEN 'lte' THEN v_actual_number <= v_expected_number
+            WHEN 'not_equals' THEN v_actual_number <> v_expected_number
+            WHEN 'contains' THEN strpos(v_actual_number::TEXT, v_expected_number::TEXT) > 0
+            ELSE v_actual_number = v_expected_number
+        END;
+    END IF;
+
+    v_actual := lower(trim(COALESCE(v_actual, '')));
+    v_expected := lower(trim(v_expected));
+    RETURN CASE v_operator
+        WHEN 'equals' THEN v_actual = v_expected
+        WHEN 'not_equals' THEN v_actual <> v_expected
+        WHEN 'in' THEN v_actual IN (
+            SELECT trim(item) FROM unnest(string_to_array(v_expected, ',')) AS item WHERE trim(item) <> ''
+        )
+        WHEN 'contains' THEN v_expected <> '' AND strpos(v_actual, v_expected) > 0
+        ELSE FALSE
+    END;
+END;
+$$;
+
+-- Assign a lead using a rule the caller's team defines. The lead must meet every one of
+-- the rule's conditions, tested against its company as the caller sees it. Picks the
+-- assignee by the rule's strategy among assignees still on the team, sets the lead's
+-- assigned_to and owner_id and logs the assignment. Runs with definer rights so a rep's
+-- new lead can be handed to a teammate; access to the lead and rule is checked
+-- explicitly. Returns the assignee.
+CREATE OR REPLACE FUNCTION assign_lead(p_lead_id UUID, p_rule_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    lead_record leads%ROWTYPE;
+    rule_record assignment_rules%ROWTYPE;
+    v_country companies.country%TYPE;
+    v_size companies.size%TYPE;
+    v_employees companies.employees%TYPE;
+    v_facts JSONB;
+    v_candidates UUID[];
+    v_assignee UUID;
+    v_index INTEGER;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO lead_record FROM leads WHERE id = p_lead_id FOR UPDATE;
+    IF NOT FOUND OR NOT can_access_owned_record(lead_record.user_id, lead_record.owner_id) THEN
+        RAISE EXCEPTION 'Lead not found';
+    END IF;
+
+    SELECT * INTO rule_record FROM assignment_rules WHERE id = p_rule_id AND is_active FOR UPDATE;
+    IF NOT FOUND OR team_role(rule_record.team_id) IS NULL THEN
+        RAISE EXCEPTION 'Assignment rule not found';
+    END IF;
+
+    -- The lead's linked company, or one of the caller's with the same name
+    SELECT country, size, employees INTO v_country, v_size, v_employees
+    FROM companies
+    WHERE auth.uid() IN (user_id, owner_id)
+      AND (
+        id = lead_record.company_id
+        OR (lower(trim(name)) <> '' AND lower(trim(name)) = lower(trim(lead_record.company)))
+      )
+    ORDER BY id = lead_record.company_id DESC
+    LIMIT 1;
+
+    v_facts := jsonb_build_object(
+        'source', lead_record.source,
+        'status', lead_record.status,
+        'score', lead_record.score,
+        'country', v_country,
+        'company_size', v_size,
+        'employees', v_employees,
+        'email_domain', CASE WHEN lead_record.email LIKE '%@%' THEN lower(substring(lead_record.email FROM '[^@]*$')) END
+    );
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(rule_record.conditions) AS rule_condition
+        WHERE NOT assignment_condition_matches(rule_condition, v_facts)
+    ) THEN
+        RAISE EXCEPTION 'The lead doesn''t meet the assignment rule''s conditions';
+    END IF;
+
+    -- Keep the rule's order, dropping anyone who has left the team
+    SELECT ARRAY_AGG(assignee ORDER BY position) INTO v_candidates
+    FROM UNNEST(rule_record.assignee_ids) WITH ORDINALITY AS a(assignee, position)
+    WHERE EXISTS (
+        SELECT 1 FROM team_members WHERE team_id = rule_record.team_id AND user_id = a.assignee
+    );
+
+    IF v_candidates IS NULL OR array_length(v_candidates, 1) = 0 THEN
+        RETURN NULL;
+    END IF;
+
+    IF rule_record.strategy = 'fixed' THEN
+        v_assignee := v_candidates[1];
+    ELSIF rule_record.strategy = 'round_robin' THEN
+        v_index := (rule_record.last_assignee_index + 1) % array_length(v_candidates, 1);
+        v_assignee := v_candidates[v_index + 1];
+        UPDATE assignment_rules SET last_assignee_index = v_index WHERE id = rule_record.id;
+    ELSE
+        -- Least loaded: fewest open (unconverted, not disqualified) leads, ties in rule order
+        SELECT candidate INTO v_assignee
+        FROM UNNEST(v_candidates) WITH ORDINALITY AS c(candidate, position)
+        ORDER BY (
+            SELECT COUNT(*) FROM leads
+            WHERE assigned_to = c.candidate
+              AND converted_contact_id IS NULL
+              AND COALESCE(status, 'new') NOT IN ('converted', 'unqualified')
+        ), position
+        LIMIT 1;
+    END IF;
+
+    UPDATE leads SET assigned_to = v_assignee, owner_id = v_assignee WHERE id = p_lead_id;
+
+    INSERT INTO lead_assignments (lead_id, rule_id, team_id, assigned_to, previous_assignee, strategy, assigned_by)
+    VALUES (p_lead_id, rule_record.id, rule_record.team_id, v_assignee, lead_record.assigned_to, rule_record.strategy, auth.uid());
+
+    RETURN v_assignee;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION assign_lead(UUID, UUID) TO authenticated;
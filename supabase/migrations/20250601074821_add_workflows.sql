@@ -0,0 +1,221 @@
+-- Workflow automation
+-- Users define workflows: a trigger, conditions on the record's fields and a list of
+-- actions. Database triggers queue record and email events in workflow_events; the app's
+-- workflow runner picks them up, runs matching workflows and logs each run.
+
+CREATE TABLE workflows (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Log what the actions would do without doing it
+  dry_run BOOLEAN NOT NULL DEFAULT FALSE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('deals', 'contacts', 'leads', 'companies')),
+  trigger_type TEXT NOT NULL CHECK (trigger_type IN (
+    'record_created', 'record_updated', 'stage_changed', 'email_opened', 'email_replied', 'no_activity'
+  )),
+  -- e.g. { "fields": ["status"] } for updates, { "to_stage": "Proposal" }, { "days": 14 }
+  trigger_config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- [{ "field": "value", "operator": "gte", "value": "10000" }], all must hold
+  conditions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- [{ "type": "create_activity", "config": { ... } }], run in order
+  actions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_workflows_user_id ON workflows(user_id, is_active);
+
+CREATE TRIGGER update_workflows_updated_at BEFORE UPDATE ON workflows
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE workflows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own workflows" ON workflows
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own workflows" ON workflows
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own workflows" ON workflows
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own workflows" ON workflows
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Queued events, processed by the owner's workflow runner
+CREATE TABLE workflow_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  event_type TEXT NOT NULL,
+  -- Changed fields for updates ({ "field": { "old": ..., "new": ... } }), stages, email ids
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_workflow_events_pending ON workflow_events(user_id, created_at) WHERE processed_at IS NULL;
+
+ALTER TABLE workflow_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own workflow events" ON workflow_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own workflow events" ON workflow_events
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own workflow events" ON workflow_events
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Execution log
+CREATE TABLE workflow_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  workflow_id UUID NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+  event_id UUID REFERENCES workflow_events(id) ON DELETE SET NULL,
+  entity_type TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('success', 'failed', 'skipped')),
+  dry_run BOOLEAN NOT NULL DEFAULT FALSE,
+  -- One entry per action: { "type": ..., "status": ..., "detail": ... }
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_workflow_runs_workflow_id ON workflow_runs(workflow_id, created_at DESC);
+CREATE INDEX idx_workflow_runs_record ON workflow_runs(workflow_id, record_id, created_at DESC);
+
+ALTER TABLE workflow_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own workflow runs" ON workflow_runs
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own workflow runs" ON workflow_runs
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own workflow runs" ON workflow_runs
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Stored notifications, posted by workflows and shown in the notification center
+CREATE TABLE notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  message TEXT,
+  type TEXT NOT NULL DEFAULT 'info' CHECK (type IN ('info', 'success', 'warning', 'error')),
+  entity_type TEXT,
+  record_id UUID,
+  source TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_notifications_user_id ON notifications(user_id, created_at DESC);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications" ON notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Workflows may notify a record's owner, so teammates can post to each other
+CREATE POLICY "Users can notify themselves and teammates" ON notifications
+  FOR INSERT WITH CHECK (auth.uid() = created_by AND (auth.uid() = user_id OR shares_team_with(user_id)));
+
+CREATE POLICY "Users can update their own notifications" ON notifications
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications" ON notifications
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Queue created/updated events for owned records. Updates that only touch timestamps
+-- or embeddings are ignored so embedding refreshes don't fire workflows.
+CREATE OR REPLACE FUNCTION enqueue_record_workflow_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_changes JSONB := '{}'::jsonb;
+    v_old JSONB;
+    v_new JSONB;
+    v_key TEXT;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO workflow_events (user_id, entity_type, record_id, event_type)
+        VALUES (NEW.user_id, TG_TABLE_NAME, NEW.id, 'record_created');
+        RETURN NEW;
+    END IF;
+
+    v_old := to_jsonb(OLD);
+    v_new := to_jsonb(NEW);
+    FOR v_key IN SELECT jsonb_object_keys(v_new) LOOP
+        CONTINUE WHEN v_key = 'updated_at' OR v_key LIKE '%embedding%' OR v_key LIKE '%_vector';
+        IF v_old -> v_key IS DISTINCT FROM v_new -> v_key THEN
+            v_changes := v_changes || jsonb_build_object(v_key, jsonb_build_object('old', v_old -> v_key, 'new', v_new -> v_key));
+        END IF;
+    END LOOP;
+
+    IF v_changes = '{}'::jsonb THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO workflow_events (user_id, entity_type, record_id, event_type, payload)
+    VALUES (NEW.user_id, TG_TABLE_NAME, NEW.id, 'record_updated', jsonb_build_object('changes', v_changes));
+
+    IF TG_TABLE_NAME = 'deals' AND v_changes ? 'stage' THEN
+        INSERT INTO workflow_events (user_id, entity_type, record_id, event_type, payload)
+        VALUES (NEW.user_id, 'deals', NEW.id, 'stage_changed',
+                jsonb_build_object('from_stage', v_old ->> 'stage', 'to_stage', v_new ->> 'stage'));
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_deals_workflow_event AFTER INSERT OR UPDATE ON deals
+    FOR EACH ROW EXECUTE FUNCTION enqueue_record_workflow_event();
+CREATE TRIGGER enqueue_contacts_workflow_event AFTER INSERT OR UPDATE ON contacts
+    FOR EACH ROW EXECUTE FUNCTION enqueue_record_workflow_event();
+CREATE TRIGGER enqueue_leads_workflow_event AFTER INSERT OR UPDATE ON leads
+    FOR EACH ROW EXECUTE FUNCTION enqueue_record_workflow_event();
+CREATE TRIGGER enqueue_companies_workflow_event AFTER INSERT OR UPDATE ON companies
+    FOR EACH ROW EXECUTE FUNCTION enqueue_record_workflow_event();
+
+-- Queue opened/replied events for the contact (or, failing that, the deal) an email was sent to
+CREATE OR REPLACE FUNCTION enqueue_email_workflow_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_entity TEXT := CASE WHEN NEW.contact_id IS NOT NULL THEN 'contacts' ELSE 'deals' END;
+    v_record UUID := COALESCE(NEW.contact_id, NEW.deal_id);
+    v_payload JSONB := jsonb_build_object('email_tracking_id', NEW.id, 'subject', NEW.subject, 'deal_id', NEW.deal_id);
+BEGIN
+    IF v_record IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF OLD.opened_at IS NULL AND NEW.opened_at IS NOT NULL THEN
+        INSERT INTO workflow_events (user_id, entity_type, record_id, event_type, payload)
+        VALUES (NEW.user_id, v_entity, v_record, 'email_opened', v_payload);
+    END IF;
+
+    IF OLD.replied_at IS NULL AND NEW.replied_at IS NOT NULL THEN
+        INSERT INTO workflow_events (user_id, entity_type, record_id, event_type, payload)
+        VALUES (NEW.user_id, v_entity, v_record, 'email_replied', v_payload);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_email_tracking_workflow_event AFTER UPDATE OF opened_at, replied_at ON email_tracking
+    FOR EACH ROW EXECUTE FUNCTION enqueue_email_workflow_event();
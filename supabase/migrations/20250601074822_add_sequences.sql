@@ -0,0 +1,167 @@
+-- Email sequences
+-- A sequence is an ordered list of email and task steps, each waiting a number of days
+-- after the previous one. Contacts and leads are enrolled; the app's sequence runner sends
+-- each due step. Enrolments pause by themselves when the person replies or a meeting
+-- with them is booked.
+
+CREATE TABLE sequences (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_sequences_user_id ON sequences(user_id);
+
+CREATE TRIGGER update_sequences_updated_at BEFORE UPDATE ON sequences
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE sequence_steps (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  sequence_id UUID NOT NULL REFERENCES sequences(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  step_type TEXT NOT NULL CHECK (step_type IN ('email', 'task')),
+  -- Days to wait after the previous step (or enrolment, for the first step)
+  delay_days INTEGER NOT NULL DEFAULT 0 CHECK (delay_days >= 0),
+  -- Email steps use the template when set, otherwise their own subject and body
+  template_id UUID REFERENCES email_templates(id) ON DELETE SET NULL,
+  subject TEXT,
+  body TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_sequence_steps_sequence_id ON sequence_steps(sequence_id, position);
+
+CREATE TRIGGER update_sequence_steps_updated_at BEFORE UPDATE ON sequence_steps
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE sequence_enrollments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  sequence_id UUID NOT NULL REFERENCES sequences(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES contacts(id) ON DELETE CASCADE,
+  lead_id UUID REFERENCES leads(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed', 'stopped')),
+  -- Position of the next step to run
+  current_step INTEGER NOT NULL DEFAULT 0,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  -- replied, meeting_booked, manual or no_email
+  paused_reason TEXT,
+  last_step_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  enrolled_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK ((contact_id IS NULL) <> (lead_id IS NULL))
+);
+
+CREATE UNIQUE INDEX idx_sequence_enrollments_contact ON sequence_enrollments(sequence_id, contact_id) WHERE contact_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_sequence_enrollments_lead ON sequence_enrollments(sequence_id, lead_id) WHERE lead_id IS NOT NULL;
+CREATE INDEX idx_sequence_enrollments_due ON sequence_enrollments(user_id, next_run_at) WHERE status = 'active';
+
+CREATE TRIGGER update_sequence_enrollments_updated_at BEFORE UPDATE ON sequence_enrollments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sequence_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sequence_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sequences" ON sequences
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own sequences" ON sequences
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own sequences" ON sequences
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own sequences" ON sequences
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own sequence steps" ON sequence_steps
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own sequence steps" ON sequence_steps
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own sequence steps" ON sequence_steps
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own sequence steps" ON sequence_steps
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own sequence enrollments" ON sequence_enrollments
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own sequence enrollments" ON sequence_enrollments
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own sequence enrollments" ON sequence_enrollments
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own sequence enrollments" ON sequence_enrollments
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Link sent emails to leads and to the sequence step that sent them, for reporting
+ALTER TABLE email_tracking
+ADD COLUMN IF NOT EXISTS lead_id UUID REFERENCES leads(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS sequence_enrollment_id UUID REFERENCES sequence_enrollments(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS sequence_step_id UUID REFERENCES sequence_steps(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_tracking_lead_id ON email_tracking(lead_id);
+CREATE INDEX IF NOT EXISTS idx_email_tracking_sequence_step_id ON email_tracking(sequence_step_id);
+
+-- Pause a person's active enrolments. Runs with definer rights because the reply or
+-- meeting may be recorded by a teammate.
+CREATE OR REPLACE FUNCTION pause_sequence_enrollments(p_contact_id UUID, p_lead_id UUID, p_enrollment_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE sequence_enrollments
+    SET status = 'paused', paused_reason = p_reason, next_run_at = NULL
+    WHERE status = 'active'
+      AND (
+        id = p_enrollment_id
+        OR (p_contact_id IS NOT NULL AND contact_id = p_contact_id)
+        OR (p_lead_id IS NOT NULL AND lead_id = p_lead_id)
+      );
+END;
+$$;
+
+-- A reply is either replied_at being set on a sent email or a received email from the person
+CREATE OR REPLACE FUNCTION pause_sequences_on_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF (TG_OP = 'UPDATE' AND OLD.replied_at IS NULL AND NEW.replied_at IS NOT NULL)
+       OR (TG_OP = 'INSERT' AND (NEW.replied_at IS NOT NULL OR NEW.type = 'received')) THEN
+        PERFORM pause_sequence_enrollments(NEW.contact_id, NEW.lead_id, NEW.sequence_enrollment_id, 'replied');
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER pause_sequences_on_email_reply AFTER INSERT OR UPDATE OF replied_at ON email_tracking
+    FOR EACH ROW EXECUTE FUNCTION pause_sequences_on_reply();
+
+CREATE OR REPLACE FUNCTION pause_sequences_on_meeting()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.type = 'meeting' THEN
+        PERFORM pause_sequence_enrollments(NEW.contact_id, NEW.lead_id, NULL, 'meeting_booked');
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER pause_sequences_on_meeting_booked AFTER INSERT ON activities
+    FOR EACH ROW EXECUTE FUNCTION pause_sequences_on_meeting();
+
+-- Only the triggers above may pause enrolments; Supabase grants new functions to anon and
+-- authenticated as well as PUBLIC
+REVOKE EXECUTE ON FUNCTION pause_sequence_enrollments(UUID, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
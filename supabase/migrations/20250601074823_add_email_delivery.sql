@@ -0,0 +1,147 @@
+-- Outbound email delivery
+-- Each user configures their own SMTP server. The send-email function delivers
+-- email_tracking rows through it, rewriting links and adding an open-tracking pixel;
+-- the public email-track function records the opens and clicks those produce.
+
+CREATE TABLE smtp_settings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  host TEXT NOT NULL,
+  port INTEGER NOT NULL DEFAULT 587 CHECK (port BETWEEN 1 AND 65535),
+  -- Implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+  secure BOOLEAN NOT NULL DEFAULT FALSE,
+  username TEXT,
+  password TEXT,
+  from_email TEXT NOT NULL,
+  from_name TEXT,
+  track_opens BOOLEAN NOT NULL DEFAULT TRUE,
+  track_clicks BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_smtp_settings_updated_at BEFORE UPDATE ON smtp_settings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE smtp_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own smtp settings" ON smtp_settings
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own smtp settings" ON smtp_settings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own smtp settings" ON smtp_settings
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own smtp settings" ON smtp_settings
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- The password is write-only for the app; only send-email (service role) reads it back
+REVOKE SELECT ON smtp_settings FROM anon, authenticated;
+GRANT SELECT (id, user_id, host, port, secure, username, from_email, from_name, track_opens, track_clicks, created_at, updated_at)
+  ON smtp_settings TO authenticated;
+
+-- Delivery state of each email. delivery_status stays NULL for emails that are only
+-- logged in the CRM (no SMTP server configured).
+ALTER TABLE email_tracking
+ADD COLUMN IF NOT EXISTS recipient_email TEXT,
+ADD COLUMN IF NOT EXISTS sender_email TEXT,
+ADD COLUMN IF NOT EXISTS message_id TEXT,
+ADD COLUMN IF NOT EXISTS delivery_status TEXT CHECK (delivery_status IN ('sending', 'sent', 'failed', 'bounced')),
+ADD COLUMN IF NOT EXISTS delivery_error TEXT,
+ADD COLUMN IF NOT EXISTS bounced_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS open_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS click_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_email_tracking_message_id ON email_tracking(message_id);
+CREATE INDEX IF NOT EXISTS idx_email_tracking_delivery_status ON email_tracking(delivery_status);
+
+-- Links rewritten in a delivered email; the tracking redirect points at the row's id
+-- so it can only ever send people to URLs that were in an email
+CREATE TABLE email_links (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email_tracking_id UUID NOT NULL REFERENCES email_tracking(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  click_count INTEGER NOT NULL DEFAULT 0,
+  first_clicked_at TIMESTAMP WITH TIME ZONE,
+  last_clicked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_email_links_email_tracking_id ON email_links(email_tracking_id);
+
+ALTER TABLE email_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own email links" ON email_links
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Record an open from the tracking pixel. Later opens only raise the count.
+CREATE OR REPLACE FUNCTION record_email_open(p_email_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE email_tracking
+    SET opened_at = COALESCE(opened_at, NOW()), open_count = open_count + 1
+    WHERE id = p_email_id AND delivery_status = 'sent';
+END;
+$$;
+
+-- Record a click on a rewritten link and return the URL to redirect to. A click also
+-- counts as an open, since the pixel doesn't load when images are blocked.
+CREATE OR REPLACE FUNCTION record_email_click(p_link_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_url TEXT;
+    v_email_id UUID;
+BEGIN
+    UPDATE email_links
+    SET click_count = click_count + 1,
+        first_clicked_at = COALESCE(first_clicked_at, NOW()),
+        last_clicked_at = NOW()
+    WHERE id = p_link_id
+    RETURNING url, email_tracking_id INTO v_url, v_email_id;
+
+    IF v_url IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE email_tracking
+    SET clicked_at = COALESCE(clicked_at, NOW()),
+        click_count = click_count + 1,
+        opened_at = COALESCE(opened_at, NOW())
+    WHERE id = v_email_id;
+
+    RETURN v_url;
+END;
+$$;
+
+-- Only email-track (service role) records opens and clicks. Supabase grants new functions
+-- to anon and authenticated as well as PUBLIC.
+REVOKE EXECUTE ON FUNCTION record_email_open(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_email_click(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_email_open(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION record_email_click(UUID) TO service_role;
+
+-- Stop sequences from emailing an address that bounced
+CREATE OR REPLACE FUNCTION pause_sequences_on_bounce()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.delivery_status = 'bounced' AND OLD.delivery_status IS DISTINCT FROM 'bounced' THEN
+        PERFORM pause_sequence_enrollments(NEW.contact_id, NEW.lead_id, NEW.sequence_enrollment_id, 'bounced');
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER pause_sequences_on_email_bounce AFTER UPDATE OF delivery_status ON email_tracking
+    FOR EACH ROW EXECUTE FUNCTION pause_sequences_on_bounce();
@@ -0,0 +1,59 @@
+-- IMAP inbox sync
+-- The imap-sync function pulls new messages from each user's mailbox into email_tracking,
+-- threads them by Message-ID / In-Reply-To / References, links them to the contact or
+-- lead they're from and logs them on the related deal. A reply to an email sent from the
+-- CRM sets that email's replied_at.
+
+CREATE TABLE imap_settings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  host TEXT NOT NULL,
+  port INTEGER NOT NULL DEFAULT 993 CHECK (port BETWEEN 1 AND 65535),
+  secure BOOLEAN NOT NULL DEFAULT TRUE,
+  username TEXT NOT NULL,
+  password TEXT,
+  mailbox TEXT NOT NULL DEFAULT 'INBOX',
+  -- Sync position: the mailbox's UIDVALIDITY and the last UID imported. A new
+  -- UIDVALIDITY means the UIDs were renumbered, so the sync starts over.
+  uid_validity BIGINT,
+  last_uid BIGINT,
+  last_synced_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_imap_settings_updated_at BEFORE UPDATE ON imap_settings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE imap_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own imap settings" ON imap_settings
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own imap settings" ON imap_settings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own imap settings" ON imap_settings
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own imap settings" ON imap_settings
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- As with smtp_settings, the password is write-only for the app
+REVOKE SELECT ON imap_settings FROM anon, authenticated;
+GRANT SELECT (id, user_id, host, port, secure, username, mailbox, uid_validity, last_uid, last_synced_at, last_error, created_at, updated_at)
+  ON imap_settings TO authenticated;
+
+-- Threading. thread_id is the Message-ID of the conversation's first message.
+ALTER TABLE email_tracking
+ADD COLUMN IF NOT EXISTS thread_id TEXT,
+ADD COLUMN IF NOT EXISTS in_reply_to TEXT,
+ADD COLUMN IF NOT EXISTS reference_ids TEXT[];
+
+CREATE INDEX IF NOT EXISTS idx_email_tracking_thread_id ON email_tracking(user_id, thread_id);
+
+-- One row per message per user, so a re-sync (or a copy of a sent email arriving in the
+-- inbox) never imports it twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_tracking_user_message_id ON email_tracking(user_id, message_id)
+  WHERE message_id IS NOT NULL;
+
+-- Emails delivered so far each start their own thread
+UPDATE email_tracking SET thread_id = message_id WHERE thread_id IS NULL AND message_id IS NOT NULL;
@@ -0,0 +1,6 @@
+-- Email attachments
+-- Attachments are kept like any other file (the files table and storage bucket), tied to
+-- the email they came with. send-email attaches them when delivering; imap-sync stores
+-- the attachments of imported messages.
+ALTER TABLE files ADD COLUMN email_tracking_id UUID REFERENCES email_tracking(id) ON DELETE CASCADE;
+CREATE INDEX idx_files_email_tracking_id ON files(email_tracking_id) WHERE email_tracking_id IS NOT NULL;
@@ -0,0 +1,44 @@
+-- Calendar sync
+-- Meetings, calls and tasks are published as an ICS subscription feed (calendar-feed),
+-- can be imported from ICS files and are synced both ways with a CalDAV calendar
+-- (calendar-sync). Both are set up as integrations: 'ics_feed' holds the feed token in
+-- its config and 'caldav' the calendar URL and credentials.
+
+-- An event's end, kept so a round trip through a calendar doesn't lose its length
+ALTER TABLE activities ADD COLUMN end_date TIMESTAMP WITH TIME ZONE;
+-- The UID of an activity that came from a calendar; CRM activities use one derived from their id
+ALTER TABLE activities ADD COLUMN ical_uid TEXT;
+CREATE UNIQUE INDEX idx_activities_user_ical_uid ON activities(user_id, ical_uid) WHERE ical_uid IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_integrations_feed_token ON integrations((config->>'token')) WHERE type = 'ics_feed';
+
+-- What each CalDAV object looked like on both sides at the last sync. An activity whose
+-- updated_at is past synced_version changed in the CRM; an object whose ETag differs
+-- changed on the server. activity_id becomes NULL when the activity is deleted, which
+-- the next sync passes on to the calendar.
+CREATE TABLE calendar_sync_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  integration_id UUID NOT NULL REFERENCES integrations(id) ON DELETE CASCADE,
+  activity_id UUID REFERENCES activities(id) ON DELETE SET NULL,
+  uid TEXT NOT NULL,
+  href TEXT NOT NULL,
+  etag TEXT,
+  synced_version TIMESTAMP WITH TIME ZONE,
+  synced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (integration_id, href)
+);
+
+CREATE INDEX idx_calendar_sync_items_activity_id ON calendar_sync_items(activity_id);
+
+ALTER TABLE calendar_sync_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar sync items" ON calendar_sync_items
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own calendar sync items" ON calendar_sync_items
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own calendar sync items" ON calendar_sync_items
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own calendar sync items" ON calendar_sync_items
+  FOR DELETE USING (auth.uid() = user_id);
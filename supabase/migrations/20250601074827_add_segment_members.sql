@@ -0,0 +1,25 @@
+-- Segment members
+-- A segment's criteria pick contacts, leads, deals or companies. Dynamic segments are
+-- evaluated each time they're used; static ones keep the records they matched when they
+-- were saved or last refreshed, listed here. record_id points into the table named by the
+-- segment's criteria, so it has no foreign key: deleted records are dropped when read.
+
+ALTER TABLE segments ADD COLUMN IF NOT EXISTS snapshot_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE segment_members (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  segment_id UUID NOT NULL REFERENCES segments(id) ON DELETE CASCADE,
+  record_id UUID NOT NULL,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (segment_id, record_id)
+);
+
+ALTER TABLE segment_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own segment members" ON segment_members
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own segment members" ON segment_members
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own segment members" ON segment_members
+  FOR DELETE USING (auth.uid() = user_id);
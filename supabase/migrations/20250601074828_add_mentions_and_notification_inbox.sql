@@ -0,0 +1,319 @@
+-- Mentions and the notification inbox
+-- Comments on deals and contacts can reply to another comment and @mention teammates
+-- (their user ids go in `mentions`). Mentions, replies, record assignments and deals
+-- being won or lost post notifications from triggers below; due tasks are posted by
+-- notify_due_tasks(), which the app calls periodically. Each kind can be turned off in
+-- notification_preferences. Notifications reach open apps through Supabase Realtime.
+
+-- Threads: replies point at the comment they answer
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES comments(id) ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS idx_comments_deal_id ON comments(deal_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_comments_contact_id ON comments(contact_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON comments(parent_id);
+
+-- Anyone who can see the deal or contact can read and join its thread, and people
+-- mentioned can always read the comment that mentions them
+DROP POLICY IF EXISTS "Users can view their own comments" ON comments;
+DROP POLICY IF EXISTS "Users can insert their own comments" ON comments;
+DROP POLICY IF EXISTS "Users can delete their own comments" ON comments;
+
+CREATE POLICY "Users can view comments on records they can see" ON comments
+  FOR SELECT USING (
+    auth.uid() = user_id
+    OR auth.uid()::TEXT = ANY(mentions)
+    OR EXISTS (SELECT 1 FROM deals WHERE deals.id = comments.deal_id)
+    OR EXISTS (SELECT 1 FROM contacts WHERE contacts.id = comments.contact_id)
+  );
+CREATE POLICY "Users can comment on records they can see" ON comments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      EXISTS (SELECT 1 FROM deals WHERE deals.id = comments.deal_id)
+      OR EXISTS (SELECT 1 FROM contacts WHERE contacts.id = comments.contact_id)
+    )
+  );
+CREATE POLICY "Users can delete their own comments" ON comments
+  FOR DELETE USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN notifications.source IS 'mention, reply, assignment, deal_won, deal_lost, task_due or workflow';
+-- Set when the same event must not notify twice (due tasks)
+ALTER TABLE notifications ADD COLUMN dedupe_key TEXT;
+CREATE UNIQUE INDEX idx_notifications_dedupe ON notifications(user_id, dedupe_key) WHERE dedupe_key IS NOT NULL;
+CREATE INDEX idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+-- Per-user switches; a user without a row gets everything
+CREATE TABLE notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  mentions BOOLEAN NOT NULL DEFAULT TRUE,
+  assignments BOOLEAN NOT NULL DEFAULT TRUE,
+  deal_outcomes BOOLEAN NOT NULL DEFAULT TRUE,
+  tasks_due BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Pop up new notifications while the app is open
+  toasts BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_notification_preferences_updated_at BEFORE UPDATE ON notification_preferences
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences" ON notification_preferences
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own notification preferences" ON notification_preferences
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own notification preferences" ON notification_preferences
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION wants_notification(p_user_id UUID, p_source TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT CASE
+      WHEN p_source IN ('mention', 'reply') THEN mentions
+      WHEN p_source = 'assignment' THEN assignments
+      WHEN p_source IN ('deal_won', 'deal_lost') THEN deal_outcomes
+      WHEN p_source = 'task_due' THEN tasks_due
+      ELSE TRUE
+    END
+    FROM notification_preferences
+    WHERE user_id = p_user_id
+  ), TRUE);
+$$;
+
+CREATE OR REPLACE FUNCTION notification_actor_name(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT COALESCE(NULLIF(TRIM(CONCAT_WS(' ', first_name, last_name)), ''), email) FROM profiles WHERE id = p_user_id),
+    'Someone'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION post_notification(
+  p_user_id UUID,
+  p_source TEXT,
+  p_type TEXT,
+  p_title TEXT,
+  p_message TEXT,
+  p_entity_type TEXT,
+  p_record_id UUID,
+  p_created_by UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_user_id IS NULL OR NOT wants_notification(p_user_id, p_source) THEN
+        RETURN;
+    END IF;
+    INSERT INTO notifications (user_id, source, type, title, message, entity_type, record_id, created_by)
+    VALUES (p_user_id, p_source, p_type, p_title, p_message, p_entity_type, p_record_id, p_created_by);
+END;
+$$;
+
+-- Mentioned teammates, then the author of the comment being replied to
+CREATE OR REPLACE FUNCTION notify_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_actor TEXT := notification_actor_name(NEW.user_id);
+    v_entity_type TEXT := CASE WHEN NEW.deal_id IS NOT NULL THEN 'deals' ELSE 'contacts' END;
+    v_record_id UUID := COALESCE(NEW.deal_id, NEW.contact_id);
+    v_record_name TEXT;
+    v_excerpt TEXT := LEFT(NEW.content, 200);
+    v_mentioned UUID;
+    v_parent_author UUID;
+BEGIN
+    IF NEW.deal_id IS NOT NULL THEN
+        SELECT title INTO v_record_name FROM deals WHERE id = NEW.deal_id;
+    ELSE
+        SELECT name INTO v_record_name FROM contacts WHERE id = NEW.contact_id;
+    END IF;
+
+    FOR v_mentioned IN
+        SELECT DISTINCT m::UUID
+        FROM UNNEST(COALESCE(NEW.mentions, '{}')) AS m
+        WHERE m ~ '^[0-9a-fA-F-]{36}$'
+    LOOP
+        -- Only teammates can be mentioned
+        CONTINUE WHEN v_mentioned = NEW.user_id OR NOT shares_team_with(v_mentioned);
+        PERFORM post_notification(
+            v_mentioned, 'mention', 'info',
+            v_actor || ' mentioned you on ' || COALESCE(v_record_name, 'a record'),
+            v_excerpt, v_entity_type, v_record_id, NEW.user_id
+        );
+    END LOOP;
+
+    IF NEW.parent_id IS NOT NULL THEN
+        SELECT user_id INTO v_parent_author FROM comments WHERE id = NEW.parent_id;
+        IF v_parent_author IS DISTINCT FROM NEW.user_id
+           AND NOT (v_parent_author::TEXT = ANY(COALESCE(NEW.mentions, '{}'))) THEN
+            PERFORM post_notification(
+                v_parent_author, 'reply', 'info',
+                v_actor || ' replied to your comment on ' || COALESCE(v_record_name, 'a record'),
+                v_excerpt, v_entity_type, v_record_id, NEW.user_id
+            );
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_comment_inserted AFTER INSERT ON comments
+    FOR EACH ROW EXECUTE FUNCTION notify_comment();
+
+-- A record given to someone other than whoever made the change
+CREATE OR REPLACE FUNCTION notify_record_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_actor UUID := COALESCE(auth.uid(), NEW.user_id);
+    v_label TEXT := CASE TG_TABLE_NAME
+        WHEN 'deals' THEN 'Deal'
+        WHEN 'contacts' THEN 'Contact'
+        WHEN 'leads' THEN 'Lead'
+        ELSE 'Company'
+    END;
+    v_name TEXT := COALESCE(to_jsonb(NEW) ->> 'title', to_jsonb(NEW) ->> 'name');
+BEGIN
+    IF NEW.owner_id IS NULL OR NEW.owner_id = v_actor THEN
+        RETURN NEW;
+    END IF;
+    IF TG_OP = 'UPDATE' AND NEW.owner_id IS NOT DISTINCT FROM OLD.owner_id THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM post_notification(
+        NEW.owner_id, 'assignment', 'info',
+        v_label || ' assigned to you: ' || COALESCE(v_name, 'Untitled'),
+        notification_actor_name(v_actor) || ' made you the owner',
+        TG_TABLE_NAME, NEW.id, v_actor
+    );
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_deals_assignment AFTER INSERT OR UPDATE OF owner_id ON deals
+    FOR EACH ROW EXECUTE FUNCTION notify_record_assignment();
+CREATE TRIGGER notify_contacts_assignment AFTER INSERT OR UPDATE OF owner_id ON contacts
+    FOR EACH ROW EXECUTE FUNCTION notify_record_assignment();
+CREATE TRIGGER notify_leads_assignment AFTER INSERT OR UPDATE OF owner_id ON leads
+    FOR EACH ROW EXECUTE FUNCTION notify_record_assignment();
+CREATE TRIGGER notify_companies_assignment AFTER INSERT OR UPDATE OF owner_id ON companies
+    FOR EACH ROW EXECUTE FUNCTION notify_record_assignment();
+
+-- won or lost from the outcome column, else from what the stage means in its pipeline
+CREATE OR REPLACE FUNCTION deal_closed_outcome(p_outcome TEXT, p_pipeline_id UUID, p_stage TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_outcome IN ('won', 'lost') THEN p_outcome
+    ELSE (
+      SELECT stage ->> 'outcome'
+      FROM pipelines, jsonb_array_elements(pipelines.stages) AS stage
+      WHERE pipelines.id = p_pipeline_id AND stage ->> 'name' = p_stage AND stage ->> 'outcome' IN ('won', 'lost')
+      LIMIT 1
+    )
+  END;
+$$;
+
+-- Tell the deal's owner and creator (other than whoever closed it) that it was won or lost
+CREATE OR REPLACE FUNCTION notify_deal_outcome()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_actor UUID := auth.uid();
+    v_old TEXT := deal_closed_outcome(OLD.outcome, OLD.pipeline_id, OLD.stage);
+    v_new TEXT := deal_closed_outcome(NEW.outcome, NEW.pipeline_id, NEW.stage);
+    v_recipient UUID;
+BEGIN
+    IF v_new IS NULL OR v_new IS NOT DISTINCT FROM v_old THEN
+        RETURN NEW;
+    END IF;
+
+    FOR v_recipient IN SELECT DISTINCT r FROM UNNEST(ARRAY[NEW.owner_id, NEW.user_id]) AS r WHERE r IS NOT NULL LOOP
+        CONTINUE WHEN v_recipient = v_actor;
+        PERFORM post_notification(
+            v_recipient, 'deal_' || v_new, CASE WHEN v_new = 'won' THEN 'success' ELSE 'error' END,
+            'Deal ' || v_new || ': ' || NEW.title,
+            CASE WHEN v_actor IS NULL THEN NULL ELSE 'Closed by ' || notification_actor_name(v_actor) END
+                || CASE WHEN NEW.value IS NOT NULL THEN ' ($' || TO_CHAR(NEW.value, 'FM999,999,999,990') || ')' ELSE '' END,
+            'deals', NEW.id, v_actor
+        );
+    END LOOP;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_deals_outcome AFTER UPDATE OF outcome, stage ON deals
+    FOR EACH ROW EXECUTE FUNCTION notify_deal_outcome();
+
+-- Post a notification for each of the caller's pending activities that has fallen due in
+-- the last week. Rescheduling an activity lets it notify again. Returns how many were posted.
+CREATE OR REPLACE FUNCTION notify_due_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    IF auth.uid() IS NULL OR NOT wants_notification(auth.uid(), 'task_due') THEN
+        RETURN 0;
+    END IF;
+
+    INSERT INTO notifications (user_id, source, type, title, message, entity_type, record_id, dedupe_key)
+    SELECT
+        activities.user_id, 'task_due', 'warning',
+        INITCAP(activities.type) || ' due: ' || activities.subject,
+        'Due ' || TO_CHAR(activities.due_date, 'Mon DD, HH24:MI'),
+        'activities', activities.id,
+        'task_due:' || activities.id || ':' || activities.due_date
+    FROM activities
+    WHERE activities.user_id = auth.uid()
+      AND activities.status = 'pending'
+      AND activities.due_date <= NOW()
+      AND activities.due_date > NOW() - INTERVAL '7 days'
+    ON CONFLICT (user_id, dedupe_key) WHERE dedupe_key IS NOT NULL DO NOTHING;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- The helpers are only for the triggers above. Supabase grants every new function to anon
+-- and authenticated as well as PUBLIC, so all three have to be revoked.
+REVOKE EXECUTE ON FUNCTION post_notification(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION notification_actor_name(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION wants_notification(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION notify_due_tasks() TO authenticated;
+
+-- Deliver new notifications to open apps
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
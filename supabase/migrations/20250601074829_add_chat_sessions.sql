@@ -0,0 +1,159 @@
+-- ChatCRM sessions
+-- Conversations with the CRM assistant, kept per user instead of in the browser. Each
+-- message records the tokens it used and, for answers, the CRM records it cited. A session
+-- can be pinned, renamed and shared: setting share_token lets teammates open it read-only
+-- through a link, read with get_shared_chat_session(). Past conversations are searched
+-- with full-text search.
+
+CREATE TABLE chat_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT 'New chat',
+  pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  share_token UUID UNIQUE,
+  shared_at TIMESTAMP WITH TIME ZONE,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  last_message_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE chat_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES chat_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  -- Usage of the request that produced an answer: the prompt with its CRM context and
+  -- the whole conversation so far, then the reply. Questions are counted in that prompt.
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  tokens INTEGER NOT NULL DEFAULT 0,
+  -- [{ "type": "deal", "id": "...", "name": "..." }]
+  citations JSONB NOT NULL DEFAULT '[]',
+  search TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_chat_sessions_user_id ON chat_sessions(user_id, pinned DESC, last_message_at DESC);
+CREATE INDEX idx_chat_messages_session_id ON chat_messages(session_id, created_at);
+CREATE INDEX idx_chat_messages_search ON chat_messages USING gin(search);
+
+ALTER TABLE chat_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own chat sessions" ON chat_sessions
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own chat sessions" ON chat_sessions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own chat sessions" ON chat_sessions
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own chat sessions" ON chat_sessions
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own chat messages" ON chat_messages
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own chat messages" ON chat_messages
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM chat_sessions WHERE chat_sessions.id = chat_messages.session_id AND chat_sessions.user_id = auth.uid())
+  );
+CREATE POLICY "Users can delete their own chat messages" ON chat_messages
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_chat_sessions_updated_at BEFORE UPDATE ON chat_sessions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Keep each session's message count, token total and last activity current
+CREATE OR REPLACE FUNCTION record_chat_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE chat_sessions
+    SET message_count = message_count + 1,
+        total_tokens = total_tokens + NEW.tokens,
+        last_message_at = NEW.created_at
+    WHERE id = NEW.session_id;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_chat_message_inserted AFTER INSERT ON chat_messages
+    FOR EACH ROW EXECUTE FUNCTION record_chat_message();
+
+-- Full-text search over the caller's own conversations, best matches first
+CREATE OR REPLACE FUNCTION search_chat_messages(p_query TEXT, p_limit INTEGER DEFAULT 30)
+RETURNS TABLE (
+  message_id UUID,
+  session_id UUID,
+  session_title TEXT,
+  role TEXT,
+  snippet TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rank REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    m.id,
+    m.session_id,
+    s.title,
+    m.role,
+    ts_headline('english', m.content, q, 'StartSel=**, StopSel=**, MaxWords=30, MinWords=10'),
+    m.created_at,
+    ts_rank(m.search, q)
+  FROM chat_messages m
+  JOIN chat_sessions s ON s.id = m.session_id
+  CROSS JOIN websearch_to_tsquery('english', p_query) AS q
+  WHERE m.user_id = auth.uid()
+    AND m.search @@ q
+  ORDER BY ts_rank(m.search, q) DESC, m.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+-- A shared session with its messages and its owner's name, for the owner or a teammate
+-- holding the link. Teammates can't read other sessions, so the token is the only way in.
+-- Returns NULL when the token is unknown, no longer shared or shared by someone outside
+-- the caller's teams.
+CREATE OR REPLACE FUNCTION get_shared_chat_session(p_token UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    session_record chat_sessions%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL OR p_token IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT * INTO session_record FROM chat_sessions WHERE share_token = p_token;
+    IF NOT FOUND OR NOT (session_record.user_id = auth.uid() OR shares_team_with(session_record.user_id)) THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'session', to_jsonb(session_record),
+        'messages', COALESCE((
+            SELECT jsonb_agg(to_jsonb(m) - 'search' ORDER BY m.created_at)
+            FROM chat_messages m
+            WHERE m.session_id = session_record.id
+        ), '[]'),
+        'owner_name', (
+            SELECT COALESCE(NULLIF(TRIM(CONCAT_WS(' ', first_name, last_name)), ''), email)
+            FROM profiles WHERE id = session_record.user_id
+        )
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_shared_chat_session(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_shared_chat_session(UUID) TO authenticated;
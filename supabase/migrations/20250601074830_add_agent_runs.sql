@@ -0,0 +1,31 @@
+-- Agent runs
+-- An audit log of every tool the AI assistants ran (ChatCRM and the Agent): the arguments,
+-- what came back, how long it took and whether the user approved it. Rows are only ever
+-- added; nothing updates or deletes them.
+
+CREATE TABLE agent_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('chat', 'agent')),
+  tool_name TEXT NOT NULL,
+  -- Null when the model asked for a tool that doesn't exist
+  permission TEXT CHECK (permission IN ('read', 'write', 'send')),
+  arguments JSONB NOT NULL DEFAULT '{}',
+  result JSONB,
+  ok BOOLEAN NOT NULL,
+  error TEXT,
+  -- Null when the call failed before the user could be asked, e.g. invalid arguments
+  approval TEXT CHECK (approval IN ('not_required', 'approved', 'declined')),
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_agent_runs_user_id ON agent_runs(user_id, created_at DESC);
+CREATE INDEX idx_agent_runs_tool_name ON agent_runs(tool_name, created_at DESC);
+
+ALTER TABLE agent_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own agent runs" ON agent_runs
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own agent runs" ON agent_runs
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
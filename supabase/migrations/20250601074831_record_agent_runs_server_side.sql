@@ -0,0 +1,74 @@
+-- Agent runs written server-side
+-- The browser used to insert agent_runs rows itself and only logged a failed insert, so a
+-- tool could run with no trace of it. Rows are now written by two functions instead:
+-- start_agent_run() records the call before the tool runs, and a tool whose run can't be
+-- recorded doesn't run; finish_agent_run() fills in the outcome once, after which the row
+-- can't change. Both take the user from the session, and direct inserts are no longer
+-- allowed. A row with no finished_at is a run whose outcome never came back.
+
+ALTER TABLE agent_runs ALTER COLUMN ok DROP NOT NULL;
+ALTER TABLE agent_runs ADD COLUMN finished_at TIMESTAMP WITH TIME ZONE;
+UPDATE agent_runs SET finished_at = created_at;
+
+DROP POLICY "Users can insert their own agent runs" ON agent_runs;
+
+CREATE OR REPLACE FUNCTION start_agent_run(
+  p_source TEXT,
+  p_tool_name TEXT,
+  p_permission TEXT,
+  p_arguments JSONB,
+  p_approval TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_run_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not signed in';
+    END IF;
+
+    INSERT INTO agent_runs (user_id, source, tool_name, permission, arguments, approval)
+    VALUES (auth.uid(), p_source, p_tool_name, p_permission, COALESCE(p_arguments, '{}'), p_approval)
+    RETURNING id INTO v_run_id;
+
+    RETURN v_run_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION finish_agent_run(
+  p_run_id UUID,
+  p_ok BOOLEAN,
+  p_result JSONB,
+  p_error TEXT,
+  p_duration_ms INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE agent_runs
+    SET ok = p_ok,
+        result = p_result,
+        error = p_error,
+        duration_ms = GREATEST(COALESCE(p_duration_ms, 0), 0),
+        finished_at = NOW()
+    WHERE id = p_run_id
+      AND user_id = auth.uid()
+      AND finished_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Agent run % is not open', p_run_id;
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION start_agent_run(TEXT, TEXT, TEXT, JSONB, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION finish_agent_run(UUID, BOOLEAN, JSONB, TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION start_agent_run(TEXT, TEXT, TEXT, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION finish_agent_run(UUID, BOOLEAN, JSONB, TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,72 @@
+-- Check record assignment when it is set or changed
+-- New records may only be created for owners and assignees the creator can assign to.
+-- Edits check owner_id and assigned_to only when they change, so a rep can still edit a
+-- record a manager gave them without being able to hand it on to someone else.
+
+-- Raises when an update changes owner_id or assigned_to to a user the caller can't assign
+-- to. SECURITY DEFINER functions such as assign_lead run as their owner and make their own
+-- checks, so only updates made directly by signed-in users are checked here.
+CREATE OR REPLACE FUNCTION check_assignment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    new_assignee TEXT := to_jsonb(NEW) ->> 'assigned_to';
+BEGIN
+    IF current_user <> 'authenticated' THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.owner_id IS DISTINCT FROM OLD.owner_id AND NOT can_assign_to(NEW.owner_id) THEN
+        RAISE EXCEPTION 'You can''t make that user the owner of this record'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF new_assignee IS DISTINCT FROM to_jsonb(OLD) ->> 'assigned_to' AND NOT can_assign_to(new_assignee::UUID) THEN
+        RAISE EXCEPTION 'You can''t assign this record to that user'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_deals_assignment BEFORE UPDATE OF owner_id ON deals
+    FOR EACH ROW EXECUTE FUNCTION check_assignment_change();
+CREATE TRIGGER check_contacts_assignment BEFORE UPDATE OF owner_id ON contacts
+    FOR EACH ROW EXECUTE FUNCTION check_assignment_change();
+CREATE TRIGGER check_leads_assignment BEFORE UPDATE OF owner_id, assigned_to ON leads
+    FOR EACH ROW EXECUTE FUNCTION check_assignment_change();
+CREATE TRIGGER check_companies_assignment BEFORE UPDATE OF owner_id, assigned_to ON companies
+    FOR EACH ROW EXECUTE FUNCTION check_assignment_change();
+
+-- Updates no longer re-check unchanged owners; the trigger above checks changes
+DROP POLICY IF EXISTS "Users can update their own and team deals" ON deals;
+DROP POLICY IF EXISTS "Users can update their own and team contacts" ON contacts;
+DROP POLICY IF EXISTS "Users can update their own and team leads" ON leads;
+DROP POLICY IF EXISTS "Users can update their own and team companies" ON companies;
+
+CREATE POLICY "Users can update their own and team deals" ON deals
+  FOR UPDATE USING (can_access_owned_record(user_id, owner_id));
+CREATE POLICY "Users can update their own and team contacts" ON contacts
+  FOR UPDATE USING (can_access_owned_record(user_id, owner_id));
+CREATE POLICY "Users can update their own and team leads" ON leads
+  FOR UPDATE USING (can_access_owned_record(user_id, owner_id));
+CREATE POLICY "Users can update their own and team companies" ON companies
+  FOR UPDATE USING (can_access_owned_record(user_id, owner_id));
+
+-- Inserts check the owner (set_default_owner has already filled it in) and the assignee
+DROP POLICY IF EXISTS "Users can insert their own deals" ON deals;
+DROP POLICY IF EXISTS "Users can insert their own contacts" ON contacts;
+DROP POLICY IF EXISTS "Users can insert their own leads" ON leads;
+DROP POLICY IF EXISTS "Users can insert their own companies" ON companies;
+
+CREATE POLICY "Users can insert their own and team deals" ON deals
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND can_assign_to(owner_id));
+CREATE POLICY "Users can insert their own and team contacts" ON contacts
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND can_assign_to(owner_id));
+CREATE POLICY "Users can insert their own and team leads" ON leads
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND can_assign_to(owner_id) AND can_assign_to(assigned_to));
+CREATE POLICY "Users can insert their own and team companies" ON companies
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND can_assign_to(owner_id) AND can_assign_to(assigned_to));
@@ -0,0 +1,161 @@
+-- Merge duplicates server-side
+-- Merging used to re-point references from the browser one table at a time, limited to
+-- rows the merging user had created, and only for the tables it listed. Teammates' deals
+-- and activities stayed on the duplicate and were lost with it, as were sequence
+-- enrolments, which cascade. merge_duplicate_record() now applies the chosen field values
+-- to the kept record, moves every row that references the duplicate, found from the
+-- foreign keys, and deletes the duplicate in one transaction.
+
+-- Sets p_updates on p_survivor_id, moves everything that references p_duplicate_id to it
+-- and deletes the duplicate. The caller must be able to access both records. Returns the
+-- number of rows moved per table.
+CREATE OR REPLACE FUNCTION merge_duplicate_record(
+  p_entity TEXT,
+  p_survivor_id UUID,
+  p_duplicate_id UUID,
+  p_updates JSONB DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_survivor RECORD;
+    v_duplicate RECORD;
+    v_reference RECORD;
+    -- Columns a merge may set on the kept record
+    v_mergeable TEXT[] := CASE p_entity
+        WHEN 'contacts' THEN ARRAY['name', 'email', 'phone', 'title', 'company', 'company_id', 'status', 'persona', 'score']
+        WHEN 'leads' THEN ARRAY['name', 'email', 'phone', 'company', 'company_id', 'source', 'status', 'score', 'assigned_to']
+        WHEN 'companies' THEN ARRAY['name', 'website', 'email', 'phone', 'industry', 'size', 'employees', 'revenue', 'address',
+                                    'city', 'state', 'country', 'postal_code', 'linkedin_url', 'description', 'notes', 'status', 'score']
+    END;
+    v_columns TEXT;
+    v_column TEXT;
+    v_count INTEGER;
+    v_moved JSONB := '{}';
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not signed in';
+    END IF;
+    IF p_entity NOT IN ('contacts', 'leads', 'companies') THEN
+        RAISE EXCEPTION 'Cannot merge %', p_entity;
+    END IF;
+    IF p_survivor_id = p_duplicate_id THEN
+        RAISE EXCEPTION 'Cannot merge a record into itself';
+    END IF;
+
+    EXECUTE format('SELECT id, name, user_id, owner_id FROM %I WHERE id = $1 FOR UPDATE', p_entity)
+        INTO v_survivor USING p_survivor_id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    IF v_count = 0 THEN
+        RAISE EXCEPTION 'The record being kept no longer exists or you don''t have access to it';
+    END IF;
+    IF NOT can_access_owned_record(v_survivor.user_id, v_survivor.owner_id) THEN
+        RAISE EXCEPTION 'The record being kept no longer exists or you don''t have access to it';
+    END IF;
+
+    EXECUTE format('SELECT id, user_id, owner_id FROM %I WHERE id = $1 FOR UPDATE', p_entity)
+        INTO v_duplicate USING p_duplicate_id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    IF v_count = 0 THEN
+        RAISE EXCEPTION 'The duplicate no longer exists or you don''t have access to it';
+    END IF;
+    IF NOT can_access_owned_record(v_duplicate.user_id, v_duplicate.owner_id) THEN
+        RAISE EXCEPTION 'The duplicate no longer exists or you don''t have access to it';
+    END IF;
+
+    SELECT string_agg(quote_ident(key), ', ') INTO v_columns FROM jsonb_object_keys(COALESCE(p_updates, '{}')) AS key;
+    IF v_columns IS NOT NULL THEN
+        SELECT key INTO v_column
+        FROM jsonb_object_keys(p_updates) AS key
+        WHERE key <> ALL (v_mergeable)
+        LIMIT 1;
+        IF v_column IS NOT NULL THEN
+            RAISE EXCEPTION 'Cannot merge %.%', p_entity, v_column;
+        END IF;
+        -- check_assignment_change() doesn't check SECURITY DEFINER updates
+        IF p_updates ? 'assigned_to' AND NOT can_assign_to((p_updates ->> 'assigned_to')::UUID) THEN
+            RAISE EXCEPTION 'You can''t assign this record to that user'
+                USING ERRCODE = 'insufficient_privilege';
+        END IF;
+
+        EXECUTE format(
+            'UPDATE %1$I SET (%2$s) = (SELECT %2$s FROM jsonb_populate_record(NULL::%1$I, $1)) WHERE id = $2 RETURNING name',
+            p_entity, v_columns
+        ) INTO v_survivor.name USING p_updates, p_survivor_id;
+
+        -- Embeddings of changed text describe the old value; the caller generates new ones
+        FOR v_column IN
+            SELECT field FROM unnest(ARRAY['persona', 'description', 'notes']) AS field
+            WHERE p_updates ? field
+        LOOP
+            DELETE FROM embedding_metadata
+            WHERE table_name = p_entity AND record_id = p_survivor_id AND field_name = v_column;
+            EXECUTE format('UPDATE %I SET %I = NULL WHERE id = $1', p_entity, v_column || '_vector') USING p_survivor_id;
+        END LOOP;
+    END IF;
+
+    -- Names kept next to the foreign key follow the rows to the kept record
+    IF p_entity = 'contacts' THEN
+        UPDATE deals SET contact_name = v_survivor.name WHERE contact_id = p_duplicate_id;
+    ELSIF p_entity = 'companies' THEN
+        UPDATE contacts SET company = v_survivor.name WHERE company_id = p_duplicate_id;
+        UPDATE leads SET company = v_survivor.name WHERE company_id = p_duplicate_id;
+        UPDATE deals SET company = v_survivor.name WHERE company_id = p_duplicate_id;
+    END IF;
+
+    -- A sequence can enrol a person once; the kept record's enrolment wins
+    IF p_entity = 'contacts' THEN
+        DELETE FROM sequence_enrollments duplicate
+        WHERE duplicate.contact_id = p_duplicate_id
+          AND EXISTS (
+            SELECT 1 FROM sequence_enrollments kept
+            WHERE kept.sequence_id = duplicate.sequence_id AND kept.contact_id = p_survivor_id
+          );
+    ELSIF p_entity = 'leads' THEN
+        DELETE FROM sequence_enrollments duplicate
+        WHERE duplicate.lead_id = p_duplicate_id
+          AND EXISTS (
+            SELECT 1 FROM sequence_enrollments kept
+            WHERE kept.sequence_id = duplicate.sequence_id AND kept.lead_id = p_survivor_id
+          );
+    END IF;
+
+    FOR v_reference IN
+        SELECT c.conrelid::regclass::TEXT AS table_name, a.attname AS column_name
+        FROM pg_constraint c
+        JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+        WHERE c.contype = 'f'
+          AND c.confrelid = p_entity::regclass
+          AND array_length(c.conkey, 1) = 1
+        ORDER BY 1, 2
+    LOOP
+        EXECUTE format('UPDATE %s SET %I = $1 WHERE %I = $2', v_reference.table_name, v_reference.column_name, v_reference.column_name)
+            USING p_survivor_id, p_duplicate_id;
+        GET DIAGNOSTICS v_count = ROW_COUNT;
+        v_moved := jsonb_set(
+            v_moved,
+            ARRAY[v_reference.table_name],
+            to_jsonb(COALESCE((v_moved ->> v_reference.table_name)::INTEGER, 0) + v_count)
+        );
+    END LOOP;
+
+    -- Static segment members have no foreign key
+    UPDATE segment_members duplicate SET record_id = p_survivor_id
+    WHERE duplicate.record_id = p_duplicate_id
+      AND NOT EXISTS (
+        SELECT 1 FROM segment_members kept
+        WHERE kept.segment_id = duplicate.segment_id AND kept.record_id = p_survivor_id
+      );
+
+    DELETE FROM embedding_metadata WHERE table_name = p_entity AND record_id = p_duplicate_id;
+    EXECUTE format('DELETE FROM %I WHERE id = $1', p_entity) USING p_duplicate_id;
+
+    RETURN v_moved;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION merge_duplicate_record(TEXT, UUID, UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION merge_duplicate_record(TEXT, UUID, UUID, JSONB) TO authenticated;
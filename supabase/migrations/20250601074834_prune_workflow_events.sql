@@ -0,0 +1,35 @@
+-- Workflow event retention
+-- workflow_events is a queue, but its rows were never removed. Events are now deleted 30
+-- days after they were queued: by then a processed event has nothing left to do (its runs
+-- keep their own log in workflow_runs) and one still unprocessed is too stale to act on.
+-- prune_workflow_events() runs daily through pg_cron where the extension is enabled. It
+-- deletes every user's events, so only the service role and pg_cron may call it.
+
+CREATE INDEX IF NOT EXISTS idx_workflow_events_created_at ON workflow_events(created_at);
+
+-- Delete every user's events older than the retention period. Returns how many went.
+CREATE OR REPLACE FUNCTION prune_workflow_events()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    DELETE FROM workflow_events WHERE created_at < NOW() - INTERVAL '30 days';
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION prune_workflow_events() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION prune_workflow_events() TO service_role;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule('prune-workflow-events', '17 3 * * *', 'SELECT prune_workflow_events()');
+    END IF;
+END;
+$$;